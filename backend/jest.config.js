@@ -0,0 +1,36 @@
+/**
+ * Two projects:
+ *  - unit: everything under __tests__ except *.db.test.ts. No network (axios is
+ *    answered from src/test/fixtures/http) and no database.
+ *  - db:   *.db.test.ts against a real Postgres, only when TEST_DATABASE_URL is set.
+ *          Suites share that database, so the run goes single-worker.
+ */
+const base = {
+  preset: 'ts-jest',
+  testEnvironment: 'node',
+  roots: ['<rootDir>/src'],
+  moduleNameMapper: { '^@/(.*)$': '<rootDir>/src/$1' },
+  setupFiles: ['<rootDir>/src/test/setupEnv.ts'],
+};
+
+module.exports = {
+  ...(process.env.TEST_DATABASE_URL ? { maxWorkers: 1 } : {}),
+  projects: [
+    {
+      ...base,
+      displayName: 'unit',
+      testMatch: ['**/__tests__/**/*.test.ts'],
+      testPathIgnorePatterns: ['/node_modules/', '\\.db\\.test\\.ts$'],
+      setupFilesAfterEnv: ['<rootDir>/src/test/setupUnit.ts'],
+    },
+    ...(process.env.TEST_DATABASE_URL
+      ? [{
+          ...base,
+          displayName: 'db',
+          testMatch: ['**/__tests__/**/*.db.test.ts'],
+          globalSetup: '<rootDir>/src/test/globalSetupDb.ts',
+          setupFilesAfterEnv: ['<rootDir>/src/test/setupDb.ts'],
+        }]
+      : []),
+  ],
+};
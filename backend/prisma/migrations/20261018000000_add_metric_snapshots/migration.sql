@@ -0,0 +1,30 @@
+-- AlterTable
+ALTER TABLE "discovery_creators" ADD COLUMN "follower_growth_7d" INTEGER,
+ADD COLUMN "follower_growth_pct_7d" DOUBLE PRECISION;
+
+-- CreateTable
+CREATE TABLE "discovery_metric_snapshots" (
+    "id" TEXT NOT NULL,
+    "streamer_id" TEXT NOT NULL,
+    "snapshot_date" DATE NOT NULL,
+    "followers" INTEGER NOT NULL DEFAULT 0,
+    "avg_viewers" INTEGER NOT NULL DEFAULT 0,
+    "total_views" BIGINT NOT NULL DEFAULT 0,
+    "engagement_rate" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "discovery_metric_snapshots_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "discovery_creators_follower_growth_pct_7d_idx" ON "discovery_creators"("follower_growth_pct_7d" DESC);
+
+-- CreateIndex
+CREATE INDEX "discovery_metric_snapshots_snapshot_date_idx" ON "discovery_metric_snapshots"("snapshot_date");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "discovery_metric_snapshots_streamer_id_snapshot_date_key" ON "discovery_metric_snapshots"("streamer_id", "snapshot_date");
+
+-- AddForeignKey
+ALTER TABLE "discovery_metric_snapshots" ADD CONSTRAINT "discovery_metric_snapshots_streamer_id_fkey" FOREIGN KEY ("streamer_id") REFERENCES "discovery_creators"("id") ON DELETE CASCADE ON UPDATE CASCADE;
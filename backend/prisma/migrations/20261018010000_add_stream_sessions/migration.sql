@@ -0,0 +1,34 @@
+-- AlterTable
+ALTER TABLE "discovery_viewer_polls" ADD COLUMN "game" TEXT,
+ADD COLUMN "title" TEXT;
+
+-- CreateTable
+CREATE TABLE "discovery_stream_sessions" (
+    "id" TEXT NOT NULL,
+    "streamer_id" TEXT NOT NULL,
+    "started_at" TIMESTAMP(3) NOT NULL,
+    "ended_at" TIMESTAMP(3),
+    "peak_viewers" INTEGER NOT NULL DEFAULT 0,
+    "avg_viewers" INTEGER NOT NULL DEFAULT 0,
+    "duration_minutes" INTEGER NOT NULL DEFAULT 0,
+    "minutes_watched" BIGINT NOT NULL DEFAULT 0,
+    "poll_count" INTEGER NOT NULL DEFAULT 0,
+    "game" TEXT,
+    "title" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "discovery_stream_sessions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "discovery_viewer_polls_polled_at_idx" ON "discovery_viewer_polls"("polled_at");
+
+-- CreateIndex
+CREATE INDEX "discovery_stream_sessions_streamer_id_started_at_idx" ON "discovery_stream_sessions"("streamer_id", "started_at" DESC);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "discovery_stream_sessions_streamer_id_started_at_key" ON "discovery_stream_sessions"("streamer_id", "started_at");
+
+-- AddForeignKey
+ALTER TABLE "discovery_stream_sessions" ADD CONSTRAINT "discovery_stream_sessions_streamer_id_fkey" FOREIGN KEY ("streamer_id") REFERENCES "discovery_creators"("id") ON DELETE CASCADE ON UPDATE CASCADE;
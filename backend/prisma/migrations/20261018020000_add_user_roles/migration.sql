@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "UserRole" AS ENUM ('ADMIN', 'ANALYST', 'VIEWER');
+
+-- AlterTable
+ALTER TABLE "discovery_users" ADD COLUMN "role" "UserRole" NOT NULL DEFAULT 'VIEWER';
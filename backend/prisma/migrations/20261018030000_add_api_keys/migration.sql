@@ -0,0 +1,38 @@
+-- CreateEnum
+CREATE TYPE "ApiKeyScope" AS ENUM ('READ_SEARCH', 'WRITE_PERFORMANCE', 'ADMIN');
+
+-- CreateTable
+CREATE TABLE "discovery_api_keys" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "prefix" TEXT NOT NULL,
+    "key_hash" TEXT NOT NULL,
+    "scopes" "ApiKeyScope"[],
+    "created_by_id" TEXT,
+    "rotated_from_id" TEXT,
+    "last_used_at" TIMESTAMP(3),
+    "expires_at" TIMESTAMP(3),
+    "revoked_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "discovery_api_keys_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "api_usage" ADD COLUMN "api_key_id" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "discovery_api_keys_prefix_key" ON "discovery_api_keys"("prefix");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "discovery_api_keys_key_hash_key" ON "discovery_api_keys"("key_hash");
+
+-- CreateIndex
+CREATE INDEX "api_usage_api_key_id_recorded_at_idx" ON "api_usage"("api_key_id", "recorded_at" DESC);
+
+-- AddForeignKey
+ALTER TABLE "discovery_api_keys" ADD CONSTRAINT "discovery_api_keys_created_by_id_fkey" FOREIGN KEY ("created_by_id") REFERENCES "discovery_users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "api_usage" ADD CONSTRAINT "api_usage_api_key_id_fkey" FOREIGN KEY ("api_key_id") REFERENCES "discovery_api_keys"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,92 @@
+-- CreateEnum
+CREATE TYPE "PerformanceEntryKind" AS ENUM ('SYNC', 'CORRECTION', 'BASELINE');
+
+-- CreateTable
+CREATE TABLE "discovery_performance_entries" (
+    "id" TEXT NOT NULL,
+    "idempotency_key" TEXT NOT NULL,
+    "streamer_id" TEXT NOT NULL,
+    "envisioner_influencer_id" TEXT,
+    "envisioner_campaign_id" TEXT,
+    "kind" "PerformanceEntryKind" NOT NULL DEFAULT 'SYNC',
+    "conversions" INTEGER NOT NULL DEFAULT 0,
+    "spent" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "reported_cpa" DOUBLE PRECISION,
+    "roi" DOUBLE PRECISION,
+    "campaign_status" TEXT,
+    "baseline_campaigns" INTEGER,
+    "supersedes_id" TEXT,
+    "reason" TEXT,
+    "payload_hash" TEXT NOT NULL,
+    "created_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "discovery_performance_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "discovery_performance_entries_idempotency_key_key" ON "discovery_performance_entries"("idempotency_key");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "discovery_performance_entries_supersedes_id_key" ON "discovery_performance_entries"("supersedes_id");
+
+-- CreateIndex
+CREATE INDEX "discovery_performance_entries_streamer_id_created_at_idx" ON "discovery_performance_entries"("streamer_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "discovery_performance_entries_streamer_id_envisioner_campai_idx" ON "discovery_performance_entries"("streamer_id", "envisioner_campaign_id");
+
+-- CreateIndex
+CREATE INDEX "discovery_assignments_discovery_creator_id_envisioner_campa_idx" ON "discovery_assignments"("discovery_creator_id", "envisioner_campaign_id");
+
+-- AddForeignKey
+ALTER TABLE "discovery_performance_entries" ADD CONSTRAINT "discovery_performance_entries_streamer_id_fkey" FOREIGN KEY ("streamer_id") REFERENCES "discovery_creators"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "discovery_performance_entries" ADD CONSTRAINT "discovery_performance_entries_supersedes_id_fkey" FOREIGN KEY ("supersedes_id") REFERENCES "discovery_performance_entries"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill: carry existing assignment totals into the ledger so the first sync for a campaign adds to them
+INSERT INTO "discovery_performance_entries"
+  ("id", "idempotency_key", "streamer_id", "envisioner_influencer_id", "envisioner_campaign_id", "kind", "conversions", "spent", "reported_cpa", "payload_hash", "created_by")
+SELECT
+  gen_random_uuid()::text,
+  'baseline:assignment:' || a.id,
+  a.discovery_creator_id,
+  a.envisioner_influencer_id,
+  a.envisioner_campaign_id,
+  'BASELINE',
+  a.total_conversions,
+  a.total_spent,
+  a.avg_cpa,
+  'baseline',
+  'migration'
+FROM "discovery_assignments" a
+JOIN "discovery_creators" c ON c.id = a.discovery_creator_id
+WHERE (a.total_conversions > 0 OR a.total_spent > 0)
+  AND (a.envisioner_campaign_id IS NOT NULL OR a.envisioner_influencer_id IS NOT NULL);
+
+-- Backfill: carry the rest of each creator's aggregates (beyond the assignment rows above) into the ledger
+WITH assigned AS (
+  SELECT streamer_id, SUM(conversions) AS conversions, SUM(spent) AS spent
+  FROM "discovery_performance_entries"
+  WHERE kind = 'BASELINE'
+  GROUP BY streamer_id
+)
+INSERT INTO "discovery_performance_entries"
+  ("id", "idempotency_key", "streamer_id", "kind", "conversions", "spent", "reported_cpa", "roi", "baseline_campaigns", "payload_hash", "created_by")
+SELECT
+  gen_random_uuid()::text,
+  'baseline:' || c.id,
+  c.id,
+  'BASELINE',
+  GREATEST(c.historical_conversions - COALESCE(a.conversions, 0), 0),
+  GREATEST(COALESCE(c.historical_cpa * c.historical_conversions, 0) - COALESCE(a.spent, 0), 0),
+  -- Implied spend (CPA x conversions) would double-count the assignment rows
+  CASE WHEN a.streamer_id IS NULL THEN c.historical_cpa ELSE NULL END,
+  c.avg_roi,
+  c.historical_campaigns,
+  'baseline',
+  'migration'
+FROM "discovery_creators" c
+LEFT JOIN assigned a ON a.streamer_id = c.id
+WHERE c.historical_conversions > 0 OR c.historical_campaigns > 0 OR c.historical_cpa IS NOT NULL OR c.avg_roi IS NOT NULL;
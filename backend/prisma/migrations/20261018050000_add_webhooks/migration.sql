@@ -0,0 +1,56 @@
+-- CreateEnum
+CREATE TYPE "WebhookEvent" AS ENUM ('CREATOR_LIVE', 'FOLLOWER_THRESHOLD', 'EMAIL_FOUND', 'FRAUD_CHECK_CHANGED', 'CREATOR_CREATED', 'PING');
+
+-- CreateEnum
+CREATE TYPE "WebhookDeliveryStatus" AS ENUM ('PENDING', 'SUCCEEDED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "discovery_webhook_subscriptions" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "url" TEXT NOT NULL,
+    "secret" TEXT NOT NULL,
+    "events" "WebhookEvent"[],
+    "follower_thresholds" INTEGER[],
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_by_id" TEXT,
+    "last_delivery_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "discovery_webhook_subscriptions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "discovery_webhook_deliveries" (
+    "id" TEXT NOT NULL,
+    "subscription_id" TEXT NOT NULL,
+    "event" "WebhookEvent" NOT NULL,
+    "payload" JSONB NOT NULL,
+    "status" "WebhookDeliveryStatus" NOT NULL DEFAULT 'PENDING',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "next_attempt_at" TIMESTAMP(3),
+    "last_status_code" INTEGER,
+    "last_error" TEXT,
+    "delivered_at" TIMESTAMP(3),
+    "is_test" BOOLEAN NOT NULL DEFAULT false,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "discovery_webhook_deliveries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "discovery_webhook_subscriptions_is_active_idx" ON "discovery_webhook_subscriptions"("is_active");
+
+-- CreateIndex
+CREATE INDEX "discovery_webhook_deliveries_status_next_attempt_at_idx" ON "discovery_webhook_deliveries"("status", "next_attempt_at");
+
+-- CreateIndex
+CREATE INDEX "discovery_webhook_deliveries_subscription_id_created_at_idx" ON "discovery_webhook_deliveries"("subscription_id", "created_at" DESC);
+
+-- AddForeignKey
+ALTER TABLE "discovery_webhook_subscriptions" ADD CONSTRAINT "discovery_webhook_subscriptions_created_by_id_fkey" FOREIGN KEY ("created_by_id") REFERENCES "discovery_users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "discovery_webhook_deliveries" ADD CONSTRAINT "discovery_webhook_deliveries_subscription_id_fkey" FOREIGN KEY ("subscription_id") REFERENCES "discovery_webhook_subscriptions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
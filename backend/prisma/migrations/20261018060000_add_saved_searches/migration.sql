@@ -0,0 +1,48 @@
+-- CreateTable
+CREATE TABLE "discovery_saved_searches" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "filters" JSONB NOT NULL,
+    "alerts_enabled" BOOLEAN NOT NULL DEFAULT true,
+    "email_alerts" BOOLEAN NOT NULL DEFAULT true,
+    "last_run_at" TIMESTAMP(3),
+    "last_match_count" INTEGER NOT NULL DEFAULT 0,
+    "unseen_count" INTEGER NOT NULL DEFAULT 0,
+    "last_viewed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "discovery_saved_searches_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "discovery_saved_search_matches" (
+    "id" TEXT NOT NULL,
+    "saved_search_id" TEXT NOT NULL,
+    "streamer_id" TEXT NOT NULL,
+    "first_matched_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "discovery_saved_search_matches_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "discovery_saved_searches_user_id_idx" ON "discovery_saved_searches"("user_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "discovery_saved_searches_user_id_name_key" ON "discovery_saved_searches"("user_id", "name");
+
+-- CreateIndex
+CREATE INDEX "discovery_saved_search_matches_saved_search_id_first_matche_idx" ON "discovery_saved_search_matches"("saved_search_id", "first_matched_at");
+
+-- CreateIndex
+CREATE INDEX "discovery_saved_search_matches_streamer_id_idx" ON "discovery_saved_search_matches"("streamer_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "discovery_saved_search_matches_saved_search_id_streamer_id_key" ON "discovery_saved_search_matches"("saved_search_id", "streamer_id");
+
+-- AddForeignKey
+ALTER TABLE "discovery_saved_search_matches" ADD CONSTRAINT "discovery_saved_search_matches_saved_search_id_fkey" FOREIGN KEY ("saved_search_id") REFERENCES "discovery_saved_searches"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "discovery_saved_search_matches" ADD CONSTRAINT "discovery_saved_search_matches_streamer_id_fkey" FOREIGN KEY ("streamer_id") REFERENCES "discovery_creators"("id") ON DELETE CASCADE ON UPDATE CASCADE;
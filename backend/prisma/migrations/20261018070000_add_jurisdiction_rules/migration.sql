@@ -0,0 +1,54 @@
+-- CreateEnum
+CREATE TYPE "GamblingVertical" AS ENUM ('CASINO', 'SPORTS_BETTING', 'POKER', 'LOTTERY');
+
+-- CreateTable
+CREATE TABLE "discovery_jurisdiction_rules" (
+    "id" TEXT NOT NULL,
+    "country_code" TEXT NOT NULL,
+    "blacklisted" BOOLEAN NOT NULL DEFAULT false,
+    "allowed_verticals" "GamblingVertical"[],
+    "min_age" INTEGER NOT NULL DEFAULT 18,
+    "age_gate_required" BOOLEAN NOT NULL DEFAULT true,
+    "disclosure_required" BOOLEAN NOT NULL DEFAULT true,
+    "disclosure_text" TEXT,
+    "notes" TEXT,
+    "updated_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "discovery_jurisdiction_rules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "discovery_jurisdiction_rules_country_code_key" ON "discovery_jurisdiction_rules"("country_code");
+
+-- Seed: starting point for compliance review, edited afterwards via /api/admin/jurisdictions
+INSERT INTO "discovery_jurisdiction_rules" ("id", "country_code", "blacklisted", "allowed_verticals", "min_age", "disclosure_text", "notes", "updated_at") VALUES
+    ('jr_us', 'US', false, ARRAY['SPORTS_BETTING']::"GamblingVertical"[], 21, '21+ | Gambling problem? Call 1-800-GAMBLER', 'Legal state by state - promote licensed operators in licensed states only', CURRENT_TIMESTAMP),
+    ('jr_ca', 'CA', false, ARRAY['CASINO', 'SPORTS_BETTING', 'POKER', 'LOTTERY']::"GamblingVertical"[], 19, '19+ | Play responsibly', 'Provincial regulation; Ontario bans creators with strong appeal to minors', CURRENT_TIMESTAMP),
+    ('jr_mx', 'MX', false, ARRAY['CASINO', 'SPORTS_BETTING', 'POKER', 'LOTTERY']::"GamblingVertical"[], 18, '18+ | Juega responsablemente', 'SEGOB permit holders only', CURRENT_TIMESTAMP),
+    ('jr_co', 'CO', false, ARRAY['CASINO', 'SPORTS_BETTING', 'POKER', 'LOTTERY']::"GamblingVertical"[], 18, '18+ | Juega responsablemente', 'Coljuegos licensed operators only', CURRENT_TIMESTAMP),
+    ('jr_ar', 'AR', false, ARRAY['CASINO', 'SPORTS_BETTING', 'POKER', 'LOTTERY']::"GamblingVertical"[], 18, '18+ | Juega responsablemente', 'Licensed per province', CURRENT_TIMESTAMP),
+    ('jr_pe', 'PE', false, ARRAY['CASINO', 'SPORTS_BETTING', 'POKER', 'LOTTERY']::"GamblingVertical"[], 18, '18+ | Juega responsablemente', 'MINCETUR licence required (Law 31557)', CURRENT_TIMESTAMP),
+    ('jr_cl', 'CL', false, ARRAY['LOTTERY']::"GamblingVertical"[], 18, NULL, 'Online casino and betting not licensed yet', CURRENT_TIMESTAMP),
+    ('jr_br', 'BR', false, ARRAY['CASINO', 'SPORTS_BETTING', 'LOTTERY']::"GamblingVertical"[], 18, '18+ | Jogue com responsabilidade', 'Law 14.790/2023 - SPA/MF authorised operators only', CURRENT_TIMESTAMP),
+    ('jr_gb', 'GB', false, ARRAY['CASINO', 'SPORTS_BETTING', 'POKER', 'LOTTERY']::"GamblingVertical"[], 18, '#ad 18+ | BeGambleAware.org', 'UKGC licence; CAP rules on strong appeal to under-18s', CURRENT_TIMESTAMP),
+    ('jr_de', 'DE', false, ARRAY['CASINO', 'SPORTS_BETTING', 'POKER', 'LOTTERY']::"GamblingVertical"[], 18, '18+ | Glücksspiel kann süchtig machen', 'GlüStV 2021 - GGL whitelisted operators only', CURRENT_TIMESTAMP),
+    ('jr_fr', 'FR', false, ARRAY['SPORTS_BETTING', 'POKER', 'LOTTERY']::"GamblingVertical"[], 18, NULL, 'Online casino not legal; ANJ licensed operators only', CURRENT_TIMESTAMP),
+    ('jr_pt', 'PT', false, ARRAY['CASINO', 'SPORTS_BETTING', 'POKER', 'LOTTERY']::"GamblingVertical"[], 18, NULL, 'SRIJ licence required', CURRENT_TIMESTAMP),
+    ('jr_se', 'SE', false, ARRAY['CASINO', 'SPORTS_BETTING', 'POKER', 'LOTTERY']::"GamblingVertical"[], 18, NULL, 'Spelinspektionen licence required', CURRENT_TIMESTAMP),
+    ('jr_au', 'AU', false, ARRAY['SPORTS_BETTING', 'LOTTERY']::"GamblingVertical"[], 18, NULL, 'Interactive Gambling Act bans online casino and poker', CURRENT_TIMESTAMP),
+    ('jr_jp', 'JP', false, ARRAY['LOTTERY']::"GamblingVertical"[], 20, NULL, 'Online casino and sports betting illegal', CURRENT_TIMESTAMP),
+    ('jr_es', 'ES', true, ARRAY[]::"GamblingVertical"[], 18, NULL, 'Royal Decree 958/2020 bans gambling advertising with influencers', CURRENT_TIMESTAMP),
+    ('jr_it', 'IT', true, ARRAY[]::"GamblingVertical"[], 18, NULL, 'Decreto Dignita bans gambling advertising', CURRENT_TIMESTAMP),
+    ('jr_nl', 'NL', true, ARRAY[]::"GamblingVertical"[], 18, NULL, 'Role models and influencers banned from gambling advertising since 2023', CURRENT_TIMESTAMP),
+    ('jr_in', 'IN', true, ARRAY[]::"GamblingVertical"[], 18, NULL, 'Online real-money gaming and its promotion banned (2025)', CURRENT_TIMESTAMP),
+    ('jr_cn', 'CN', true, ARRAY[]::"GamblingVertical"[], 18, NULL, 'Gambling illegal', CURRENT_TIMESTAMP),
+    ('jr_kr', 'KR', true, ARRAY[]::"GamblingVertical"[], 19, NULL, 'Online gambling illegal for residents', CURRENT_TIMESTAMP),
+    ('jr_id', 'ID', true, ARRAY[]::"GamblingVertical"[], 18, NULL, 'Gambling illegal', CURRENT_TIMESTAMP),
+    ('jr_tr', 'TR', true, ARRAY[]::"GamblingVertical"[], 18, NULL, 'Only state operators allowed; promotion of others prohibited', CURRENT_TIMESTAMP),
+    ('jr_ae', 'AE', true, ARRAY[]::"GamblingVertical"[], 18, NULL, 'Gambling illegal outside GCGRA licensed venues', CURRENT_TIMESTAMP),
+    ('jr_sa', 'SA', true, ARRAY[]::"GamblingVertical"[], 18, NULL, 'Gambling illegal', CURRENT_TIMESTAMP),
+    ('jr_qa', 'QA', true, ARRAY[]::"GamblingVertical"[], 18, NULL, 'Gambling illegal', CURRENT_TIMESTAMP),
+    ('jr_kw', 'KW', true, ARRAY[]::"GamblingVertical"[], 18, NULL, 'Gambling illegal', CURRENT_TIMESTAMP),
+    ('jr_ir', 'IR', true, ARRAY[]::"GamblingVertical"[], 18, NULL, 'Gambling illegal', CURRENT_TIMESTAMP);
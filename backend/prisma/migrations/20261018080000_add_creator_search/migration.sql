@@ -0,0 +1,74 @@
+-- Extensions
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+CREATE EXTENSION IF NOT EXISTS unaccent;
+
+-- AlterTable
+ALTER TABLE "discovery_creators" ADD COLUMN "search_vector" tsvector;
+
+-- Text search configuration for a creator's language ('es', 'pt-BR', 'en', ...).
+-- Languages without a stemmer here are indexed unstemmed.
+CREATE OR REPLACE FUNCTION discovery_search_config(lang TEXT) RETURNS regconfig
+LANGUAGE sql IMMUTABLE PARALLEL SAFE AS $$
+    SELECT CASE lower(split_part(coalesce(lang, ''), '-', 1))
+        WHEN 'en' THEN 'english'::regconfig
+        WHEN 'es' THEN 'spanish'::regconfig
+        WHEN 'pt' THEN 'portuguese'::regconfig
+        ELSE 'simple'::regconfig
+    END
+$$;
+
+-- Search document for one creator row. Weights:
+--   A  display name, username                 (unstemmed)
+--   B  current game, top games, tags           (unstemmed; AI topic search targets these)
+--   C  profile description, about section      (stemmed in the creator's language)
+--   D  panel texts, recent stream titles       (stemmed in the creator's language)
+CREATE OR REPLACE FUNCTION discovery_creator_search_document(c "discovery_creators") RETURNS tsvector
+LANGUAGE plpgsql STABLE AS $$
+DECLARE
+    cfg regconfig := discovery_search_config(c."language");
+    titles TEXT;
+BEGIN
+    SELECT string_agg(coalesce(t->>'title', t #>> '{}'), ' ') INTO titles
+    FROM jsonb_array_elements(
+        CASE WHEN jsonb_typeof(c."stream_titles") = 'array' THEN c."stream_titles" ELSE '[]'::jsonb END
+    ) AS t;
+
+    RETURN
+        setweight(to_tsvector('simple', unaccent(coalesce(c."displayName", '') || ' ' || coalesce(c."username", ''))), 'A') ||
+        setweight(to_tsvector('simple', unaccent(
+            coalesce(c."currentGame", '') || ' ' ||
+            array_to_string(coalesce(c."topGames", '{}'), ' ') || ' ' ||
+            array_to_string(coalesce(c."tags", '{}'), ' ')
+        )), 'B') ||
+        setweight(to_tsvector(cfg, unaccent(coalesce(c."profile_description", '') || ' ' || coalesce(c."about_section", ''))), 'C') ||
+        setweight(to_tsvector(cfg, unaccent(
+            array_to_string(coalesce(c."panel_texts", '{}'), ' ') || ' ' || coalesce(titles, '')
+        )), 'D');
+END
+$$;
+
+CREATE OR REPLACE FUNCTION discovery_creators_search_vector_trigger() RETURNS trigger
+LANGUAGE plpgsql AS $$
+BEGIN
+    NEW."search_vector" := discovery_creator_search_document(NEW);
+    RETURN NEW;
+END
+$$;
+
+CREATE TRIGGER "discovery_creators_search_vector_update"
+    BEFORE INSERT OR UPDATE OF "displayName", "username", "currentGame", "topGames", "tags", "language",
+        "profile_description", "about_section", "panel_texts", "stream_titles"
+    ON "discovery_creators"
+    FOR EACH ROW EXECUTE FUNCTION discovery_creators_search_vector_trigger();
+
+-- Backfill
+UPDATE "discovery_creators" c SET "search_vector" = discovery_creator_search_document(c);
+
+-- CreateIndex
+CREATE INDEX "discovery_creators_search_vector_idx" ON "discovery_creators" USING GIN ("search_vector");
+
+-- CreateIndex
+CREATE INDEX "discovery_creators_username_trgm_idx" ON "discovery_creators" USING GIN ("username" gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "discovery_creators_displayName_trgm_idx" ON "discovery_creators" USING GIN ("displayName" gin_trgm_ops);
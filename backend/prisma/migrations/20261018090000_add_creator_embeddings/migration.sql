@@ -0,0 +1,23 @@
+-- Extensions
+CREATE EXTENSION IF NOT EXISTS vector;
+
+-- CreateTable
+-- "embedding" has no fixed dimension so the model can be swapped without a
+-- migration; lookups compare vectors of one model at a time (exact scan).
+CREATE TABLE "discovery_creator_embeddings" (
+    "streamer_id" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "dimensions" INTEGER NOT NULL,
+    "embedding" vector NOT NULL,
+    "content_hash" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "discovery_creator_embeddings_pkey" PRIMARY KEY ("streamer_id")
+);
+
+-- CreateIndex
+CREATE INDEX "discovery_creator_embeddings_model_idx" ON "discovery_creator_embeddings"("model");
+
+-- AddForeignKey
+ALTER TABLE "discovery_creator_embeddings" ADD CONSTRAINT "discovery_creator_embeddings_streamer_id_fkey" FOREIGN KEY ("streamer_id") REFERENCES "discovery_creators"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "discovery_recommendation_profiles" (
+    "id" TEXT NOT NULL,
+    "slug" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "is_default" BOOLEAN NOT NULL DEFAULT false,
+    "weights" JSONB NOT NULL,
+    "tier_ranges" JSONB NOT NULL,
+    "diversity_targets" JSONB NOT NULL,
+    "rate_card" JSONB NOT NULL,
+    "exclusions" JSONB NOT NULL DEFAULT '{}',
+    "updated_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "discovery_recommendation_profiles_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "discovery_recommendation_profiles_slug_key" ON "discovery_recommendation_profiles"("slug");
+
+-- CreateIndex
+CREATE INDEX "discovery_recommendation_profiles_is_default_idx" ON "discovery_recommendation_profiles"("is_default");
+
+-- At most one default profile
+CREATE UNIQUE INDEX "discovery_recommendation_profiles_single_default" ON "discovery_recommendation_profiles"("is_default") WHERE "is_default";
@@ -0,0 +1,45 @@
+-- CreateEnum
+CREATE TYPE "RateDeliverable" AS ENUM ('STREAM_HOUR', 'INTEGRATION', 'POST', 'STORY');
+
+-- CreateTable
+CREATE TABLE "discovery_creator_rates" (
+    "id" TEXT NOT NULL,
+    "streamer_id" TEXT NOT NULL,
+    "deliverable" "RateDeliverable" NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "platform" "Platform" NOT NULL,
+    "region" "Region" NOT NULL,
+    "category" TEXT,
+    "followers" INTEGER NOT NULL,
+    "avg_viewers" INTEGER NOT NULL,
+    "engagement_rate" DOUBLE PRECISION NOT NULL,
+    "agreed_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "campaign_ref" TEXT,
+    "notes" TEXT,
+    "created_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "discovery_creator_rates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "discovery_rate_models" (
+    "deliverable" "RateDeliverable" NOT NULL,
+    "features" JSONB NOT NULL,
+    "coefficients" JSONB NOT NULL,
+    "covariance" JSONB NOT NULL,
+    "residual_std" DOUBLE PRECISION NOT NULL,
+    "sample_size" INTEGER NOT NULL,
+    "fitted_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "discovery_rate_models_pkey" PRIMARY KEY ("deliverable")
+);
+
+-- CreateIndex
+CREATE INDEX "discovery_creator_rates_streamer_id_agreed_at_idx" ON "discovery_creator_rates"("streamer_id", "agreed_at");
+
+-- CreateIndex
+CREATE INDEX "discovery_creator_rates_deliverable_agreed_at_idx" ON "discovery_creator_rates"("deliverable", "agreed_at");
+
+-- AddForeignKey
+ALTER TABLE "discovery_creator_rates" ADD CONSTRAINT "discovery_creator_rates_streamer_id_fkey" FOREIGN KEY ("streamer_id") REFERENCES "discovery_creators"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,68 @@
+-- CreateEnum
+CREATE TYPE "ContactType" AS ENUM ('EMAIL', 'MANAGER', 'DISCORD', 'TELEGRAM', 'WHATSAPP');
+
+-- CreateEnum
+CREATE TYPE "ContactStatus" AS ENUM ('PENDING', 'VALID', 'RISKY', 'INVALID');
+
+-- CreateEnum
+CREATE TYPE "OutreachStatus" AS ENUM ('CONTACTED', 'REPLIED', 'NEGOTIATING', 'DECLINED', 'SIGNED');
+
+-- AlterTable
+ALTER TABLE "discovery_creators" ADD COLUMN "contacts_checked_at" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "discovery_creator_contacts" (
+    "id" TEXT NOT NULL,
+    "streamer_id" TEXT NOT NULL,
+    "type" "ContactType" NOT NULL,
+    "value" TEXT NOT NULL,
+    "label" TEXT,
+    "source" TEXT NOT NULL,
+    "context" TEXT,
+    "status" "ContactStatus" NOT NULL DEFAULT 'PENDING',
+    "status_detail" TEXT,
+    "confidence" INTEGER NOT NULL DEFAULT 0,
+    "verified_at" TIMESTAMP(3),
+    "created_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "discovery_creator_contacts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "discovery_outreach_events" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "streamer_id" TEXT NOT NULL,
+    "status" "OutreachStatus" NOT NULL,
+    "contact_id" TEXT,
+    "note" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "discovery_outreach_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "discovery_creator_contacts_streamer_id_type_value_key" ON "discovery_creator_contacts"("streamer_id", "type", "value");
+
+-- CreateIndex
+CREATE INDEX "discovery_creator_contacts_type_status_idx" ON "discovery_creator_contacts"("type", "status");
+
+-- CreateIndex
+CREATE INDEX "discovery_creator_contacts_verified_at_idx" ON "discovery_creator_contacts"("verified_at");
+
+-- CreateIndex
+CREATE INDEX "discovery_outreach_events_user_id_streamer_id_created_at_idx" ON "discovery_outreach_events"("user_id", "streamer_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "discovery_outreach_events_streamer_id_created_at_idx" ON "discovery_outreach_events"("streamer_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "discovery_creator_contacts" ADD CONSTRAINT "discovery_creator_contacts_streamer_id_fkey" FOREIGN KEY ("streamer_id") REFERENCES "discovery_creators"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "discovery_outreach_events" ADD CONSTRAINT "discovery_outreach_events_streamer_id_fkey" FOREIGN KEY ("streamer_id") REFERENCES "discovery_creators"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "discovery_outreach_events" ADD CONSTRAINT "discovery_outreach_events_contact_id_fkey" FOREIGN KEY ("contact_id") REFERENCES "discovery_creator_contacts"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,112 @@
+-- CreateEnum
+CREATE TYPE "OutreachEmailStatus" AS ENUM ('QUEUED', 'SENT', 'FAILED', 'SKIPPED', 'BOUNCED', 'REPLIED');
+
+-- CreateTable
+CREATE TABLE "discovery_outreach_templates" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "subject" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "discovery_outreach_templates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "discovery_smtp_settings" (
+    "user_id" TEXT NOT NULL,
+    "host" TEXT NOT NULL,
+    "port" INTEGER NOT NULL DEFAULT 587,
+    "secure" BOOLEAN NOT NULL DEFAULT false,
+    "username" TEXT NOT NULL,
+    "password_encrypted" TEXT NOT NULL,
+    "from_name" TEXT,
+    "from_email" TEXT NOT NULL,
+    "reply_to" TEXT,
+    "verified_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "discovery_smtp_settings_pkey" PRIMARY KEY ("user_id")
+);
+
+-- CreateTable
+CREATE TABLE "discovery_outreach_batches" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "template_id" TEXT,
+    "campaign_name" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "discovery_outreach_batches_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "discovery_outreach_emails" (
+    "id" TEXT NOT NULL,
+    "batch_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "streamer_id" TEXT NOT NULL,
+    "contact_id" TEXT,
+    "to_email" TEXT NOT NULL,
+    "subject" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "sender_domain" TEXT NOT NULL,
+    "token" TEXT NOT NULL,
+    "message_id" TEXT,
+    "status" "OutreachEmailStatus" NOT NULL DEFAULT 'QUEUED',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "next_attempt_at" TIMESTAMP(3),
+    "last_error" TEXT,
+    "sent_at" TIMESTAMP(3),
+    "bounced_at" TIMESTAMP(3),
+    "replied_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "discovery_outreach_emails_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "discovery_email_opt_outs" (
+    "email" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "created_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "discovery_email_opt_outs_pkey" PRIMARY KEY ("email")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "discovery_outreach_templates_user_id_name_key" ON "discovery_outreach_templates"("user_id", "name");
+
+-- CreateIndex
+CREATE INDEX "discovery_outreach_batches_user_id_created_at_idx" ON "discovery_outreach_batches"("user_id", "created_at");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "discovery_outreach_emails_token_key" ON "discovery_outreach_emails"("token");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "discovery_outreach_emails_message_id_key" ON "discovery_outreach_emails"("message_id");
+
+-- CreateIndex
+CREATE INDEX "discovery_outreach_emails_status_next_attempt_at_idx" ON "discovery_outreach_emails"("status", "next_attempt_at");
+
+-- CreateIndex
+CREATE INDEX "discovery_outreach_emails_sender_domain_sent_at_idx" ON "discovery_outreach_emails"("sender_domain", "sent_at");
+
+-- CreateIndex
+CREATE INDEX "discovery_outreach_emails_user_id_streamer_id_idx" ON "discovery_outreach_emails"("user_id", "streamer_id");
+
+-- AddForeignKey
+ALTER TABLE "discovery_outreach_batches" ADD CONSTRAINT "discovery_outreach_batches_template_id_fkey" FOREIGN KEY ("template_id") REFERENCES "discovery_outreach_templates"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "discovery_outreach_emails" ADD CONSTRAINT "discovery_outreach_emails_batch_id_fkey" FOREIGN KEY ("batch_id") REFERENCES "discovery_outreach_batches"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "discovery_outreach_emails" ADD CONSTRAINT "discovery_outreach_emails_streamer_id_fkey" FOREIGN KEY ("streamer_id") REFERENCES "discovery_creators"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "discovery_outreach_emails" ADD CONSTRAINT "discovery_outreach_emails_contact_id_fkey" FOREIGN KEY ("contact_id") REFERENCES "discovery_creator_contacts"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,118 @@
+-- CreateEnum
+CREATE TYPE "WorkspaceRole" AS ENUM ('OWNER', 'MEMBER');
+
+-- CreateEnum
+CREATE TYPE "ShortlistAccess" AS ENUM ('READ', 'EDIT');
+
+-- CreateEnum
+CREATE TYPE "ShortlistEventAction" AS ENUM ('ADDED', 'REMOVED', 'UPDATED');
+
+-- AlterTable
+ALTER TABLE "discovery_shortlists" ADD COLUMN "added_by" TEXT;
+
+-- CreateTable
+CREATE TABLE "discovery_workspaces" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "created_by" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "discovery_workspaces_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "discovery_workspace_members" (
+    "id" TEXT NOT NULL,
+    "workspace_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "role" "WorkspaceRole" NOT NULL DEFAULT 'MEMBER',
+    "added_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "discovery_workspace_members_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "discovery_shortlist_shares" (
+    "id" TEXT NOT NULL,
+    "owner_id" TEXT NOT NULL,
+    "list_name" TEXT NOT NULL,
+    "workspace_id" TEXT NOT NULL,
+    "access" "ShortlistAccess" NOT NULL DEFAULT 'READ',
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "discovery_shortlist_shares_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "discovery_shortlist_comments" (
+    "id" TEXT NOT NULL,
+    "shortlist_id" TEXT NOT NULL,
+    "parent_id" TEXT,
+    "user_id" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "mentions" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "deleted_at" TIMESTAMP(3),
+
+    CONSTRAINT "discovery_shortlist_comments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "discovery_shortlist_events" (
+    "id" TEXT NOT NULL,
+    "owner_id" TEXT NOT NULL,
+    "list_name" TEXT NOT NULL,
+    "streamer_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "action" "ShortlistEventAction" NOT NULL,
+    "detail" JSONB,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "discovery_shortlist_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "discovery_workspace_members_workspace_id_user_id_key" ON "discovery_workspace_members"("workspace_id", "user_id");
+
+-- CreateIndex
+CREATE INDEX "discovery_workspace_members_user_id_idx" ON "discovery_workspace_members"("user_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "discovery_shortlist_shares_owner_id_list_name_workspace_id_key" ON "discovery_shortlist_shares"("owner_id", "list_name", "workspace_id");
+
+-- CreateIndex
+CREATE INDEX "discovery_shortlist_shares_workspace_id_idx" ON "discovery_shortlist_shares"("workspace_id");
+
+-- CreateIndex
+CREATE INDEX "discovery_shortlist_comments_shortlist_id_created_at_idx" ON "discovery_shortlist_comments"("shortlist_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "discovery_shortlist_comments_parent_id_idx" ON "discovery_shortlist_comments"("parent_id");
+
+-- CreateIndex
+CREATE INDEX "discovery_shortlist_events_owner_id_list_name_created_at_idx" ON "discovery_shortlist_events"("owner_id", "list_name", "created_at" DESC);
+
+-- CreateIndex
+CREATE INDEX "discovery_shortlist_events_owner_id_list_name_streamer_id_idx" ON "discovery_shortlist_events"("owner_id", "list_name", "streamer_id");
+
+-- CreateIndex
+CREATE INDEX "discovery_shortlist_events_streamer_id_idx" ON "discovery_shortlist_events"("streamer_id");
+
+-- AddForeignKey
+ALTER TABLE "discovery_workspace_members" ADD CONSTRAINT "discovery_workspace_members_workspace_id_fkey" FOREIGN KEY ("workspace_id") REFERENCES "discovery_workspaces"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "discovery_shortlist_shares" ADD CONSTRAINT "discovery_shortlist_shares_workspace_id_fkey" FOREIGN KEY ("workspace_id") REFERENCES "discovery_workspaces"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "discovery_shortlist_comments" ADD CONSTRAINT "discovery_shortlist_comments_shortlist_id_fkey" FOREIGN KEY ("shortlist_id") REFERENCES "discovery_shortlists"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "discovery_shortlist_comments" ADD CONSTRAINT "discovery_shortlist_comments_parent_id_fkey" FOREIGN KEY ("parent_id") REFERENCES "discovery_shortlist_comments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "discovery_shortlist_events" ADD CONSTRAINT "discovery_shortlist_events_streamer_id_fkey" FOREIGN KEY ("streamer_id") REFERENCES "discovery_creators"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,38 @@
+-- AlterEnum
+ALTER TYPE "ShortlistEventAction" ADD VALUE 'CLIENT_DECISION';
+
+-- CreateEnum
+CREATE TYPE "ShortlistClientDecision" AS ENUM ('APPROVED', 'REJECTED');
+
+-- AlterTable
+ALTER TABLE "discovery_shortlists" ADD COLUMN "client_decision" "ShortlistClientDecision",
+ADD COLUMN "client_decision_note" TEXT,
+ADD COLUMN "client_decision_at" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "discovery_shortlist_links" (
+    "id" TEXT NOT NULL,
+    "owner_id" TEXT NOT NULL,
+    "list_name" TEXT NOT NULL,
+    "token" TEXT NOT NULL,
+    "title" TEXT,
+    "metrics" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "streamer_ids" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "allow_decisions" BOOLEAN NOT NULL DEFAULT true,
+    "password_hash" TEXT,
+    "expires_at" TIMESTAMP(3),
+    "revoked_at" TIMESTAMP(3),
+    "created_by" TEXT NOT NULL,
+    "view_count" INTEGER NOT NULL DEFAULT 0,
+    "last_viewed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "discovery_shortlist_links_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "discovery_shortlist_links_token_key" ON "discovery_shortlist_links"("token");
+
+-- CreateIndex
+CREATE INDEX "discovery_shortlist_links_owner_id_list_name_idx" ON "discovery_shortlist_links"("owner_id", "list_name");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "discovery_workspaces" ADD COLUMN "brand_name" TEXT,
+ADD COLUMN "brand_logo_url" TEXT,
+ADD COLUMN "brand_primary_color" TEXT,
+ADD COLUMN "brand_accent_color" TEXT;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "discovery_creator_contacts" ADD COLUMN "removed_by" TEXT,
+ADD COLUMN "removed_at" TIMESTAMP(3);
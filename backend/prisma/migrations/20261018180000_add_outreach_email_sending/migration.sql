@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "OutreachEmailStatus" ADD VALUE 'SENDING';
@@ -0,0 +1,135 @@
+import fs from 'fs';
+import { promises as dns } from 'dns';
+import { logger } from '../utils/database';
+
+/**
+ * Mail server lookups for contact validation
+ *
+ * contactService only asks "does this domain accept mail?" through MxResolver,
+ * so validation runs the same against real DNS and against a local stub:
+ *
+ *   CONTACT_MX_RESOLVER=dns   DnsMxResolver (default)
+ *   CONTACT_MX_RESOLVER=stub  StubMxResolver with the domains in
+ *                             CONTACT_MX_STUB_FILE (JSON: domain -> MX hosts,
+ *                             [] for "no mail server"); other domains are
+ *                             treated as accepting mail. Tests and offline dev.
+ */
+
+export type MxLookup =
+  | { status: 'found'; hosts: string[] }
+  | { status: 'none' }                       // Domain doesn't exist or has no mail server
+  | { status: 'error'; message: string };    // Couldn't tell (timeout, resolver failure)
+
+export interface MxResolver {
+  readonly id: string;
+  lookup(domain: string): Promise<MxLookup>;
+}
+
+const LOOKUP_TIMEOUT_MS = 3000;
+const CACHE_TTL_MS = 60 * 60 * 1000;
+const NO_RECORD_CODES = new Set(['ENOTFOUND', 'ENODATA', 'NXDOMAIN']);
+
+export class DnsMxResolver implements MxResolver {
+  readonly id = 'dns';
+  private resolver = new dns.Resolver({ timeout: LOOKUP_TIMEOUT_MS, tries: 1 });
+  private cache = new Map<string, { result: MxLookup; expiresAt: number }>();
+
+  async lookup(domain: string): Promise<MxLookup> {
+    const cached = this.cache.get(domain);
+    if (cached && cached.expiresAt > Date.now()) return cached.result;
+
+    const result = await this.resolve(domain);
+    // Don't remember transient failures
+    if (result.status !== 'error') {
+      this.cache.set(domain, { result, expiresAt: Date.now() + CACHE_TTL_MS });
+    }
+    return result;
+  }
+
+  private async resolve(domain: string): Promise<MxLookup> {
+    try {
+      const records = await this.resolver.resolveMx(domain);
+      const hosts = records
+        .filter(r => r.exchange && r.exchange !== '.')   // "." is a null MX: no mail accepted
+        .sort((a, b) => a.priority - b.priority)
+        .map(r => r.exchange);
+      return hosts.length > 0 ? { status: 'found', hosts } : { status: 'none' };
+    } catch (error: any) {
+      if (error?.code === 'ENODATA') {
+        // No MX record - mail falls back to the domain's A record (RFC 5321)
+        return this.implicitMx(domain);
+      }
+      if (NO_RECORD_CODES.has(error?.code)) return { status: 'none' };
+      return { status: 'error', message: error?.code || error?.message || 'lookup failed' };
+    }
+  }
+
+  private async implicitMx(domain: string): Promise<MxLookup> {
+    try {
+      const addresses = await this.resolver.resolve4(domain);
+      return addresses.length > 0 ? { status: 'found', hosts: [domain] } : { status: 'none' };
+    } catch (error: any) {
+      if (NO_RECORD_CODES.has(error?.code)) return { status: 'none' };
+      return { status: 'error', message: error?.code || error?.message || 'lookup failed' };
+    }
+  }
+}
+
+export class StubMxResolver implements MxResolver {
+  readonly id = 'stub';
+
+  /**
+   * @param records domain -> MX hosts ([] = no mail server, null = lookup fails)
+   * @param unknown answer for domains not in records
+   */
+  constructor(
+    private readonly records: Record<string, string[] | null> = {},
+    private readonly unknown: 'found' | 'none' = 'found'
+  ) {}
+
+  async lookup(domain: string): Promise<MxLookup> {
+    if (!(domain in this.records)) {
+      return this.unknown === 'found' ? { status: 'found', hosts: [`mx.${domain}`] } : { status: 'none' };
+    }
+    const hosts = this.records[domain];
+    if (hosts === null) return { status: 'error', message: 'stubbed failure' };
+    return hosts.length > 0 ? { status: 'found', hosts } : { status: 'none' };
+  }
+}
+
+class MxResolverRegistry {
+  private resolver: MxResolver | null = null;
+
+  current(): MxResolver {
+    if (!this.resolver) {
+      this.resolver = this.fromEnv();
+      logger.info(`Contact MX resolver: ${this.resolver.id}`);
+    }
+    return this.resolver;
+  }
+
+  /**
+   * Answer MX lookups from a fixed table (StubMxResolver in the db tests);
+   * null goes back to CONTACT_MX_RESOLVER
+   */
+  use(resolver: MxResolver | null): void {
+    this.resolver = resolver;
+  }
+
+  private fromEnv(): MxResolver {
+    const kind = (process.env.CONTACT_MX_RESOLVER || 'dns').toLowerCase();
+    switch (kind) {
+      case 'dns':
+        return new DnsMxResolver();
+      case 'stub': {
+        const file = process.env.CONTACT_MX_STUB_FILE;
+        const records = file ? JSON.parse(fs.readFileSync(file, 'utf8')) : {};
+        return new StubMxResolver(records);
+      }
+      default:
+        throw new Error(`Unknown CONTACT_MX_RESOLVER "${kind}" (expected dns or stub)`);
+    }
+  }
+}
+
+export const mxResolvers = new MxResolverRegistry();
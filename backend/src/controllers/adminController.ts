@@ -1,12 +1,26 @@
 import { Request, Response } from 'express';
-import { asyncHandler } from '../middleware/errorHandler';
+import { AppError, asyncHandler } from '../middleware/errorHandler';
 import { db, logger } from '../utils/database';
 import { seedFromCsvIfEmpty } from '../utils/seedFromCsv';
 import { replaceAllStreamersWithLocal } from '../utils/replaceAllStreamers';
 import { tagScrapingService } from '../services/tagScrapingService';
 import { StreamerService } from '../services/streamerService';
 import { scrapeCreatorsService } from '../services/scrapeCreatorsService';
-import { Platform } from '@prisma/client';
+import { ApiKeyScope, Platform, UserRole } from '@prisma/client';
+import {
+  apiKeyCreateSchema,
+  apiKeyRotateSchema,
+  jurisdictionRuleSchema,
+  recommendationPreviewSchema,
+  recommendationProfileCreateSchema,
+  recommendationProfileUpdateSchema,
+  userRoleSchema,
+} from '../utils/validation';
+import { apiKeyService } from '../services/apiKeyService';
+import { jurisdictionService } from '../services/jurisdictionService';
+import { DEFAULT_PROFILE_CONFIG, recommendationProfileService } from '../services/recommendationProfileService';
+import { autoRecommendationService } from '../services/autoRecommendationService';
+import { cacheService } from '../services/cacheService';
 
 // Removed AuthRequest interface - using basic Request for now
 
@@ -106,10 +120,252 @@ export class AdminController {
   });
 
   getUsers = asyncHandler(async (req: Request, res: Response) => {
+    const users = await db.user.findMany({
+      select: {
+        id: true,
+        email: true,
+        firstName: true,
+        lastName: true,
+        role: true,
+        mfaEnabled: true,
+        lastLogin: true,
+        createdAt: true,
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
     res.status(200).json({
       success: true,
-      message: 'User management coming soon',
-      data: [],
+      data: users,
+      count: users.length,
+    });
+  });
+
+  updateUserRole = asyncHandler(async (req: Request, res: Response) => {
+    const { error, value } = userRoleSchema.validate(req.body, { stripUnknown: true });
+    if (error) {
+      throw new AppError(error.details[0].message, 400);
+    }
+
+    const { id } = req.params;
+    const role = value.role as UserRole;
+
+    // Prevent an admin from locking themselves out
+    if (id === (req as any).user.id && role !== UserRole.ADMIN) {
+      throw new AppError('You cannot remove your own admin role', 400);
+    }
+
+    const existing = await db.user.findUnique({ where: { id }, select: { id: true } });
+    if (!existing) {
+      throw new AppError('User not found', 404);
+    }
+
+    const user = await db.user.update({
+      where: { id },
+      data: { role },
+      select: { id: true, email: true, firstName: true, lastName: true, role: true },
+    });
+
+    logger.info(`🔐 Role updated: ${user.email} -> ${role} by ${(req as any).user.email}`);
+
+    res.status(200).json({
+      success: true,
+      data: user,
+    });
+  });
+
+  getApiKeys = asyncHandler(async (req: Request, res: Response) => {
+    const keys = await apiKeyService.listKeys();
+
+    res.status(200).json({
+      success: true,
+      data: keys,
+      count: keys.length,
+    });
+  });
+
+  createApiKey = asyncHandler(async (req: Request, res: Response) => {
+    const { error, value } = apiKeyCreateSchema.validate(req.body, { stripUnknown: true });
+    if (error) {
+      throw new AppError(error.details[0].message, 400);
+    }
+
+    const createdById = (req as any).user.isApiKey ? null : (req as any).user.id;
+    const { key, record } = await apiKeyService.createKey({
+      name: value.name,
+      scopes: value.scopes as ApiKeyScope[],
+      createdById,
+      expiresAt: value.expiresAt ?? null,
+    });
+
+    logger.info(`🔑 API key created: ${record.name} (${record.prefix}) [${record.scopes.join(', ')}] by ${(req as any).user.email}`);
+
+    // The plaintext key is only ever returned here
+    res.status(201).json({
+      success: true,
+      data: { ...record, key },
+    });
+  });
+
+  rotateApiKey = asyncHandler(async (req: Request, res: Response) => {
+    const { error, value } = apiKeyRotateSchema.validate(req.body || {}, { stripUnknown: true });
+    if (error) {
+      throw new AppError(error.details[0].message, 400);
+    }
+
+    const createdById = (req as any).user.isApiKey ? null : (req as any).user.id;
+    const rotated = await apiKeyService.rotateKey(req.params.id, createdById, value.graceHours);
+    if (!rotated) {
+      throw new AppError('API key not found or already revoked', 404);
+    }
+
+    logger.info(`🔑 API key rotated: ${req.params.id} -> ${rotated.record.prefix} (grace ${value.graceHours}h) by ${(req as any).user.email}`);
+
+    res.status(201).json({
+      success: true,
+      data: { ...rotated.record, key: rotated.key },
+    });
+  });
+
+  revokeApiKey = asyncHandler(async (req: Request, res: Response) => {
+    const key = await apiKeyService.revokeKey(req.params.id);
+    if (!key) {
+      throw new AppError('API key not found', 404);
+    }
+
+    logger.info(`🔑 API key revoked: ${key.name} (${key.prefix}) by ${(req as any).user.email}`);
+
+    res.status(200).json({
+      success: true,
+      data: key,
+    });
+  });
+
+  getApiKeyUsage = asyncHandler(async (req: Request, res: Response) => {
+    const days = Math.min(Math.max(parseInt((req.query.days as string) || '30', 10) || 30, 1), 365);
+    const key = await db.discoveryApiKey.findUnique({ where: { id: req.params.id }, select: { id: true } });
+    if (!key) {
+      throw new AppError('API key not found', 404);
+    }
+
+    res.status(200).json({
+      success: true,
+      data: await apiKeyService.getUsage(req.params.id, days),
+    });
+  });
+
+  getJurisdictionRules = asyncHandler(async (req: Request, res: Response) => {
+    const rules = await jurisdictionService.list();
+
+    res.status(200).json({
+      success: true,
+      data: rules,
+      count: rules.length,
+    });
+  });
+
+  upsertJurisdictionRule = asyncHandler(async (req: Request, res: Response) => {
+    const { countryCode } = req.params;
+    if (!/^[A-Za-z]{2}$/.test(countryCode)) {
+      throw new AppError('countryCode must be an ISO-3166 alpha-2 code', 400);
+    }
+
+    const { error, value } = jurisdictionRuleSchema.validate(req.body, { stripUnknown: true });
+    if (error) {
+      throw new AppError(error.details[0].message, 400);
+    }
+
+    const rule = await jurisdictionService.upsert(countryCode, value, (req as any).user.email);
+
+    res.status(200).json({
+      success: true,
+      data: rule,
+    });
+  });
+
+  deleteJurisdictionRule = asyncHandler(async (req: Request, res: Response) => {
+    const removed = await jurisdictionService.remove(req.params.countryCode, (req as any).user.email);
+    if (!removed) {
+      throw new AppError('Jurisdiction rule not found', 404);
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Jurisdiction rule removed',
+    });
+  });
+
+  getRecommendationProfiles = asyncHandler(async (req: Request, res: Response) => {
+    const profiles = await recommendationProfileService.list();
+
+    res.status(200).json({
+      success: true,
+      data: profiles,
+      count: profiles.length,
+      // What a profile falls back to for anything it doesn't set
+      defaults: DEFAULT_PROFILE_CONFIG,
+    });
+  });
+
+  createRecommendationProfile = asyncHandler(async (req: Request, res: Response) => {
+    const { error, value } = recommendationProfileCreateSchema.validate(req.body, { stripUnknown: true });
+    if (error) {
+      throw new AppError(error.details[0].message, 400);
+    }
+
+    const profile = await recommendationProfileService.create(value, (req as any).user.email);
+
+    res.status(201).json({
+      success: true,
+      data: profile,
+    });
+  });
+
+  updateRecommendationProfile = asyncHandler(async (req: Request, res: Response) => {
+    const { error, value } = recommendationProfileUpdateSchema.validate(req.body, { stripUnknown: true });
+    if (error) {
+      throw new AppError(error.details[0].message, 400);
+    }
+
+    const profile = await recommendationProfileService.update(req.params.id, value, (req as any).user.email);
+
+    res.status(200).json({
+      success: true,
+      data: profile,
+    });
+  });
+
+  deleteRecommendationProfile = asyncHandler(async (req: Request, res: Response) => {
+    const removed = await recommendationProfileService.remove(req.params.id, (req as any).user.email);
+    if (!removed) {
+      throw new AppError('Recommendation profile not found', 404);
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Recommendation profile removed',
+    });
+  });
+
+  /**
+   * How a proposed profile change would reorder recommendations, without saving it
+   */
+  previewRecommendationProfile = asyncHandler(async (req: Request, res: Response) => {
+    const { error, value } = recommendationPreviewSchema.validate(req.body, { stripUnknown: true });
+    if (error) {
+      throw new AppError(error.details[0].message, 400);
+    }
+
+    const { count, ...criteria } = value.criteria;
+    const preview = await autoRecommendationService.previewProfile(
+      { ...criteria, totalCount: count, profile: value.profile },
+      value.proposed,
+      (req as any).user?.id
+    );
+
+    res.status(200).json({
+      success: true,
+      data: preview,
     });
   });
 
@@ -283,6 +539,7 @@ export class AdminController {
         }
       }
 
+      await cacheService.invalidateCreators();
       const total = await db.streamer.count();
       logger.info(`Bulk import complete. Created: ${created}, Updated: ${updated}, Skipped: ${skipped}, Total: ${total}`);
 
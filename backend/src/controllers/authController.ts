@@ -32,6 +32,7 @@ export class AuthController {
         email: true,
         password: true,
         mfaEnabled: true,
+        role: true,
       },
     });
 
@@ -59,6 +60,7 @@ export class AuthController {
           id: user.id,
           email: user.email,
           mfaEnabled: user.mfaEnabled,
+          role: user.role,
         },
       },
     });
@@ -114,7 +116,7 @@ export class AuthController {
       const decoded = jwtVerify(auth, process.env.JWT_SECRET as string) as any;
       const user = await db.user.findUnique({ where: { id: decoded.id } });
       if (!user) return res.status(401).json({ success: false, error: 'Unauthorized' });
-      return res.status(200).json({ success: true, data: { id: user.id, email: user.email, mfaEnabled: user.mfaEnabled } });
+      return res.status(200).json({ success: true, data: { id: user.id, email: user.email, mfaEnabled: user.mfaEnabled, role: user.role } });
     } catch (e) {
       return res.status(401).json({ success: false, error: 'Unauthorized' });
     }
@@ -1,73 +1,275 @@
 import { Request, Response } from 'express';
-import { asyncHandler } from '../middleware/errorHandler';
+import { CampaignStatus, Prisma } from '@prisma/client';
+import { db } from '../utils/database';
+import { AppError, asyncHandler } from '../middleware/errorHandler';
+import { campaignService, ASSIGNED_STREAMER_SELECT } from '../services/campaignService';
+import {
+  campaignCreateSchema,
+  campaignUpdateSchema,
+  campaignAssignmentSchema,
+  campaignAssignmentStatusSchema,
+} from '../utils/validation';
 
 // Removed AuthRequest interface - using basic Request for now
 
 export class CampaignController {
   getCampaigns = asyncHandler(async (req: Request, res: Response) => {
+    const search = (req.query.search as string | undefined)?.trim();
+    const active = req.query.active === 'true' ? true : req.query.active === 'false' ? false : undefined;
+
+    const where: any = {};
+    if (search) {
+      where.name = { contains: search, mode: 'insensitive' };
+    }
+    if (active !== undefined) {
+      where.isActive = active;
+    }
+
+    const campaigns = await db.campaign.findMany({
+      where,
+      include: { _count: { select: { assignedStreamers: true } } },
+      orderBy: [{ isActive: 'desc' }, { createdAt: 'desc' }],
+    });
+
     res.status(200).json({
       success: true,
-      message: 'Campaign endpoints coming soon',
-      data: [],
+      data: campaigns.map(({ _count, ...c }) => ({
+        ...c,
+        assignedCount: _count.assignedStreamers,
+        isOpen: campaignService.isOpen(c),
+      })),
+      count: campaigns.length,
     });
   });
 
   getCampaignById = asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    const campaign = await db.campaign.findUnique({ where: { id } });
+    if (!campaign) {
+      return res.status(404).json({ success: false, error: 'Campaign not found' });
+    }
+
+    const statusCounts = await campaignService.getStatusCounts(id);
+
     res.status(200).json({
       success: true,
-      message: 'Campaign details coming soon',
-      data: null,
+      data: {
+        ...campaign,
+        isOpen: campaignService.isOpen(campaign),
+        statusCounts,
+      },
     });
   });
 
   createCampaign = asyncHandler(async (req: Request, res: Response) => {
-    res.status(200).json({
-      success: true,
-      message: 'Campaign creation coming soon',
-    });
+    const { error, value } = campaignCreateSchema.validate(req.body, { stripUnknown: true });
+    if (error) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+
+    campaignService.assertValidWindow(value.startDate, value.endDate);
+
+    const campaign = await db.campaign.create({ data: value });
+
+    res.status(201).json({ success: true, data: campaign });
   });
 
   updateCampaign = asyncHandler(async (req: Request, res: Response) => {
-    res.status(200).json({
-      success: true,
-      message: 'Campaign update coming soon',
-    });
+    const { id } = req.params;
+    const { error, value } = campaignUpdateSchema.validate(req.body, { stripUnknown: true });
+    if (error) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+
+    const existing = await db.campaign.findUnique({ where: { id } });
+    if (!existing) {
+      return res.status(404).json({ success: false, error: 'Campaign not found' });
+    }
+
+    campaignService.assertValidWindow(
+      value.startDate !== undefined ? value.startDate : existing.startDate,
+      value.endDate !== undefined ? value.endDate : existing.endDate
+    );
+
+    const campaign = await db.campaign.update({ where: { id }, data: value });
+
+    res.status(200).json({ success: true, data: campaign });
   });
 
   deleteCampaign = asyncHandler(async (req: Request, res: Response) => {
-    res.status(200).json({
-      success: true,
-      message: 'Campaign deletion coming soon',
-    });
+    const { id } = req.params;
+
+    try {
+      await db.campaign.delete({ where: { id } });
+    } catch (e) {
+      if (e instanceof Prisma.PrismaClientKnownRequestError && e.code === 'P2025') {
+        return res.status(404).json({ success: false, error: 'Campaign not found' });
+      }
+      throw e;
+    }
+
+    res.status(200).json({ success: true, message: 'Campaign deleted' });
   });
 
   assignStreamerToCampaign = asyncHandler(async (req: Request, res: Response) => {
-    res.status(200).json({
+    const { id, streamerId } = req.params;
+    const { error, value } = campaignAssignmentSchema.validate(req.body || {}, { stripUnknown: true });
+    if (error) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+
+    const assignedBy = await this.resolveAssigner(req);
+
+    const result = await campaignService.assignStreamer({
+      campaignId: id,
+      streamerId,
+      assignedBy,
+      notes: value.notes,
+      force: value.force,
+    });
+
+    if (!result.assignment) {
+      return res.status(422).json({
+        success: false,
+        error: `Creator does not meet ${result.failedRules.length} campaign rule(s)`,
+        failedRules: result.failedRules,
+      });
+    }
+
+    res.status(201).json({
       success: true,
-      message: 'Campaign assignment coming soon',
+      data: result.assignment,
+      ruleResults: result.ruleResults,
     });
   });
 
   unassignStreamerFromCampaign = asyncHandler(async (req: Request, res: Response) => {
+    const { id, streamerId } = req.params;
+
+    try {
+      await db.streamerCampaign.delete({
+        where: { streamerId_campaignId: { streamerId, campaignId: id } },
+      });
+    } catch (e) {
+      if (e instanceof Prisma.PrismaClientKnownRequestError && e.code === 'P2025') {
+        return res.status(404).json({ success: false, error: 'Assignment not found' });
+      }
+      throw e;
+    }
+
+    res.status(200).json({ success: true, message: 'Creator unassigned from campaign' });
+  });
+
+  updateAssignmentStatus = asyncHandler(async (req: Request, res: Response) => {
+    const { id, streamerId } = req.params;
+    const { error, value } = campaignAssignmentStatusSchema.validate(req.body, { stripUnknown: true });
+    if (error) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+
+    const assignment = await campaignService.transitionStatus(id, streamerId, value.status, value.notes);
+
     res.status(200).json({
       success: true,
-      message: 'Campaign unassignment coming soon',
+      data: {
+        ...assignment,
+        allowedTransitions: campaignService.getAllowedTransitions(assignment.status),
+      },
     });
   });
 
   getCampaignStreamers = asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const status = (req.query.status as string | undefined)?.toUpperCase();
+
+    const campaign = await db.campaign.findUnique({ where: { id }, select: { id: true } });
+    if (!campaign) {
+      return res.status(404).json({ success: false, error: 'Campaign not found' });
+    }
+
+    const where: any = { campaignId: id };
+    if (status) {
+      if (!(status in CampaignStatus)) {
+        return res.status(400).json({ success: false, error: `Invalid status: ${status}` });
+      }
+      where.status = status;
+    }
+
+    const assignments = await db.streamerCampaign.findMany({
+      where,
+      include: {
+        streamer: { select: ASSIGNED_STREAMER_SELECT },
+        user: { select: { id: true, email: true, firstName: true, lastName: true } },
+      },
+      orderBy: [{ status: 'asc' }, { assignedAt: 'desc' }],
+    });
+
     res.status(200).json({
       success: true,
-      message: 'Campaign streamers coming soon',
-      data: [],
+      data: assignments.map(a => ({
+        ...a,
+        allowedTransitions: campaignService.getAllowedTransitions(a.status),
+      })),
+      count: assignments.length,
     });
   });
 
   getCampaignStats = asyncHandler(async (req: Request, res: Response) => {
+    const now = new Date();
+
+    const [totalCampaigns, openCampaigns, budget, statusCounts, liveAssigned] = await Promise.all([
+      db.campaign.count(),
+      // Same rule as campaignService.isOpen: active, started and not ended
+      db.campaign.count({
+        where: {
+          isActive: true,
+          AND: [
+            { OR: [{ startDate: null }, { startDate: { lte: now } }] },
+            { OR: [{ endDate: null }, { endDate: { gte: now } }] },
+          ],
+        },
+      }),
+      db.campaign.aggregate({ where: { isActive: true }, _sum: { budget: true } }),
+      campaignService.getStatusCounts(),
+      db.streamerCampaign.count({
+        where: { status: 'ACTIVE', streamer: { isLive: true } },
+      }),
+    ]);
+
     res.status(200).json({
       success: true,
-      message: 'Campaign stats coming soon',
-      data: {},
+      data: {
+        totalCampaigns,
+        openCampaigns,
+        activeBudget: budget._sum.budget || 0,
+        assignments: statusCounts,
+        liveAssigned,
+      },
     });
   });
-}
\ No newline at end of file
+
+  // Assignments reference discovery_users, so the caller must map to a real user
+  private resolveAssigner = async (req: Request): Promise<string> => {
+    const authUser = (req as any).user;
+    if (!authUser) {
+      throw new AppError('Authentication required', 401);
+    }
+
+    const user = await db.user.findFirst({
+      where: {
+        OR: [
+          { id: authUser.id },
+          ...(authUser.email ? [{ email: String(authUser.email).toLowerCase() }] : []),
+        ],
+      },
+      select: { id: true },
+    });
+
+    if (!user) {
+      throw new AppError('Campaign assignments require a registered user', 403);
+    }
+
+    return user.id;
+  };
+}
@@ -1,4 +1,5 @@
 import { Request, Response } from 'express';
+import { Platform } from '@prisma/client';
 import { asyncHandler } from '../middleware/errorHandler';
 import { logger } from '../utils/database';
 import { chatService } from '../services/chatService';
@@ -242,13 +243,26 @@ export class ChatController {
   findSimilarStreamers = asyncHandler(async (req: Request, res: Response) => {
     const { streamerId } = req.params;
     const limit = parseInt(req.query.limit as string) || 5;
+    const minFollowers = parseInt(req.query.minFollowers as string);
+    const maxFollowers = parseInt(req.query.maxFollowers as string);
+    const platforms = (req.query.platforms as string | undefined)
+      ?.split(',').map(p => p.trim().toUpperCase()).filter(p => p in Platform) as Platform[] | undefined;
+
+    const similarStreamers = await aiSearchService.findSimilarStreamers(streamerId, limit, {
+      minFollowers: Number.isNaN(minFollowers) ? undefined : minFollowers,
+      maxFollowers: Number.isNaN(maxFollowers) ? undefined : maxFollowers,
+      platforms,
+    });
 
-    const similarStreamers = await aiSearchService.findSimilarStreamers(streamerId, limit);
-
-    // Filter out category tags from streamers
+    // Filter out category tags, convert BigInt to Number for JSON serialization
     const filteredStreamers = similarStreamers.map(s => ({
       ...s,
-      tags: filterCategoryTags(s.tags)
+      tags: filterCategoryTags(s.tags),
+      totalViews: Number(s.totalViews),
+      totalLikes: Number(s.totalLikes),
+      totalComments: Number(s.totalComments),
+      totalShares: Number(s.totalShares),
+      minutesWatched: Number(s.minutesWatched),
     }));
 
     res.json({
@@ -0,0 +1,56 @@
+import { Request, Response } from 'express';
+import { AppError, asyncHandler } from '../middleware/errorHandler';
+import { contactService } from '../services/contactService';
+import { creatorContactSchema } from '../utils/validation';
+
+export class ContactsController {
+  // A creator's contacts, most promising first
+  getContacts = asyncHandler(async (req: Request, res: Response) => {
+    const contacts = await contactService.list(req.params.streamerId);
+
+    res.status(200).json({
+      success: true,
+      data: contacts,
+      count: contacts.length,
+    });
+  });
+
+  // Add a contact by hand (validated and scored like extracted ones)
+  addContact = asyncHandler(async (req: Request, res: Response) => {
+    const { error, value } = creatorContactSchema.validate(req.body, { stripUnknown: true });
+    if (error) {
+      throw new AppError(error.details[0].message, 400);
+    }
+
+    const { userId, streamerId, ...input } = value;
+    const contact = await contactService.add(streamerId, input, userId);
+
+    res.status(201).json({
+      success: true,
+      data: contact,
+    });
+  });
+
+  // Re-extract from the creator's profile and re-check every contact
+  refreshContacts = asyncHandler(async (req: Request, res: Response) => {
+    const contacts = await contactService.discoverForCreator(req.params.streamerId, { recheck: true });
+
+    res.status(200).json({
+      success: true,
+      data: contacts,
+      count: contacts.length,
+    });
+  });
+
+  deleteContact = asyncHandler(async (req: Request, res: Response) => {
+    const removed = await contactService.remove(req.params.id, req.query.userId as string);
+    if (!removed) {
+      throw new AppError('Contact not found', 404);
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Contact removed',
+    });
+  });
+}
@@ -1,6 +1,7 @@
 import { Request, Response } from 'express';
 import { db } from '../utils/database';
 import { asyncHandler } from '../middleware/errorHandler';
+import { cacheService } from '../services/cacheService';
 
 export class DiscardsController {
   // Get user's discarded creators
@@ -96,6 +97,7 @@ export class DiscardsController {
       create: { userId, streamerId },
       update: {}, // No update needed
     });
+    await cacheService.invalidateCreators();
 
     res.status(201).json({
       success: true,
@@ -120,6 +122,7 @@ export class DiscardsController {
           userId_streamerId: { userId, streamerId },
         },
       });
+      await cacheService.invalidateCreators();
 
       res.status(200).json({
         success: true,
@@ -157,6 +160,7 @@ export class DiscardsController {
       await db.discoveryDiscarded.delete({
         where: { id: existing.id },
       });
+      await cacheService.invalidateCreators();
       return res.status(200).json({
         success: true,
         action: 'removed',
@@ -178,6 +182,7 @@ export class DiscardsController {
       await db.discoveryDiscarded.create({
         data: { userId, streamerId },
       });
+      await cacheService.invalidateCreators();
 
       return res.status(200).json({
         success: true,
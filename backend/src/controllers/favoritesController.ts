@@ -1,6 +1,7 @@
 import { Request, Response } from 'express';
 import { db } from '../utils/database';
 import { asyncHandler } from '../middleware/errorHandler';
+import { cacheService } from '../services/cacheService';
 
 export class FavoritesController {
   // Get user's favorites
@@ -96,6 +97,7 @@ export class FavoritesController {
       create: { userId, streamerId },
       update: {}, // No update needed
     });
+    await cacheService.invalidateCreators();
 
     res.status(201).json({
       success: true,
@@ -120,6 +122,7 @@ export class FavoritesController {
           userId_streamerId: { userId, streamerId },
         },
       });
+      await cacheService.invalidateCreators();
 
       res.status(200).json({
         success: true,
@@ -157,6 +160,7 @@ export class FavoritesController {
       await db.discoveryFavorite.delete({
         where: { id: existing.id },
       });
+      await cacheService.invalidateCreators();
       return res.status(200).json({
         success: true,
         action: 'removed',
@@ -178,6 +182,7 @@ export class FavoritesController {
       await db.discoveryFavorite.create({
         data: { userId, streamerId },
       });
+      await cacheService.invalidateCreators();
 
       return res.status(200).json({
         success: true,
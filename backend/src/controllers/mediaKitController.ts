@@ -0,0 +1,30 @@
+import { Request, Response } from 'express';
+import { asyncHandler } from '../middleware/errorHandler';
+import { mediaKitService } from '../services/mediaKitService';
+
+const sendPdf = (res: Response, { filename, pdf }: { filename: string; pdf: Buffer }) => {
+  res
+    .status(200)
+    .type('application/pdf')
+    .set('Content-Disposition', `attachment; filename="${filename}"`)
+    .set('Cache-Control', 'no-store')
+    .send(pdf);
+};
+
+export class MediaKitController {
+  // One-page kit for a creator (?workspaceId= applies that workspace's branding)
+  getCreatorKit = asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.query.userId as string;
+    sendPdf(res, await mediaKitService.creatorPdf(userId, req.params.streamerId, (req.query.workspaceId as string) || undefined));
+  });
+
+  // Deck for one of the user's shortlists, or one shared with them (?ownerId=)
+  getShortlistDeck = asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.query.userId as string;
+    const ref = {
+      ownerId: (req.query.ownerId as string) || userId,
+      listName: (req.query.listName as string) || 'default',
+    };
+    sendPdf(res, await mediaKitService.shortlistPdf(userId, ref, (req.query.workspaceId as string) || undefined));
+  });
+}
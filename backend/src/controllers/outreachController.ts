@@ -0,0 +1,42 @@
+import { Request, Response } from 'express';
+import { AppError, asyncHandler } from '../middleware/errorHandler';
+import { outreachService } from '../services/outreachService';
+import { outreachEventSchema } from '../utils/validation';
+
+export class OutreachController {
+  // Current outreach status per creator (streamerId -> { status, at })
+  getOutreachMap = asyncHandler(async (req: Request, res: Response) => {
+    const statuses = await outreachService.currentStatuses(req.query.userId as string);
+
+    res.status(200).json({
+      success: true,
+      data: Object.fromEntries(statuses),
+    });
+  });
+
+  // Outreach history with one creator, newest first
+  getHistory = asyncHandler(async (req: Request, res: Response) => {
+    const events = await outreachService.history(req.query.userId as string, req.params.streamerId);
+
+    res.status(200).json({
+      success: true,
+      data: events,
+      count: events.length,
+    });
+  });
+
+  recordOutreach = asyncHandler(async (req: Request, res: Response) => {
+    const { error, value } = outreachEventSchema.validate(req.body, { stripUnknown: true });
+    if (error) {
+      throw new AppError(error.details[0].message, 400);
+    }
+
+    const { userId, streamerId, ...input } = value;
+    const event = await outreachService.record(userId, streamerId, input);
+
+    res.status(201).json({
+      success: true,
+      data: event,
+    });
+  });
+}
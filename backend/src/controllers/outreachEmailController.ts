@@ -0,0 +1,271 @@
+import crypto from 'crypto';
+import { Request, Response } from 'express';
+import { UserRole } from '@prisma/client';
+import { AppError, asyncHandler } from '../middleware/errorHandler';
+import { outreachEmailService } from '../services/outreachEmailService';
+import { classifyInbound, InboundEvent } from '../outreach/inbound';
+import { MERGE_FIELDS } from '../outreach/templates';
+import {
+  emailOptOutSchema,
+  inboundMailSchema,
+  outreachPreviewSchema,
+  outreachSendSchema,
+  outreachTemplateSchema,
+  outreachTemplateUpdateSchema,
+  smtpSettingsSchema,
+} from '../utils/validation';
+
+const isValidInboundSecret = (provided: string | undefined): boolean => {
+  const expected = process.env.OUTREACH_INBOUND_SECRET;
+  if (!expected || !provided) return false;
+  const a = Buffer.from(provided);
+  const b = Buffer.from(expected);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+};
+
+const unsubscribePage = (content: string) =>
+  `<!doctype html><html><head><meta charset="utf-8"><meta name="viewport" content="width=device-width,initial-scale=1"><title>Unsubscribe</title></head>` +
+  `<body style="font-family:sans-serif;max-width:480px;margin:80px auto;text-align:center;color:#141C2E">${content}</body></html>`;
+
+// Posts back to the same URL; source=page tells the handler to answer with HTML
+const unsubscribeForm =
+  '<p>Stop receiving outreach emails at this address?</p>' +
+  '<form method="post"><input type="hidden" name="source" value="page">' +
+  '<button type="submit" style="padding:10px 20px;font-size:16px;cursor:pointer">Unsubscribe</button></form>';
+
+export class OutreachEmailController {
+  // SMTP settings (password never returned)
+  getSettings = asyncHandler(async (req: Request, res: Response) => {
+    const settings = await outreachEmailService.getSettings(req.query.userId as string);
+
+    res.status(200).json({
+      success: true,
+      data: settings,
+    });
+  });
+
+  saveSettings = asyncHandler(async (req: Request, res: Response) => {
+    const { error, value } = smtpSettingsSchema.validate(req.body, { stripUnknown: true });
+    if (error) {
+      throw new AppError(error.details[0].message, 400);
+    }
+
+    const { userId, ...input } = value;
+    const settings = await outreachEmailService.saveSettings(userId, input);
+
+    res.status(200).json({
+      success: true,
+      data: settings,
+    });
+  });
+
+  deleteSettings = asyncHandler(async (req: Request, res: Response) => {
+    const removed = await outreachEmailService.deleteSettings(req.query.userId as string);
+    if (!removed) {
+      throw new AppError('SMTP settings not found', 404);
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'SMTP settings removed',
+    });
+  });
+
+  testSettings = asyncHandler(async (req: Request, res: Response) => {
+    const settings = await outreachEmailService.testSettings(req.body.userId);
+
+    res.status(200).json({
+      success: true,
+      data: settings,
+    });
+  });
+
+  getTemplates = asyncHandler(async (req: Request, res: Response) => {
+    const templates = await outreachEmailService.listTemplates(req.query.userId as string);
+
+    res.status(200).json({
+      success: true,
+      data: templates,
+      count: templates.length,
+      mergeFields: MERGE_FIELDS,
+    });
+  });
+
+  createTemplate = asyncHandler(async (req: Request, res: Response) => {
+    const { error, value } = outreachTemplateSchema.validate(req.body, { stripUnknown: true });
+    if (error) {
+      throw new AppError(error.details[0].message, 400);
+    }
+
+    const { userId, ...input } = value;
+    const template = await outreachEmailService.createTemplate(userId, input);
+
+    res.status(201).json({
+      success: true,
+      data: template,
+    });
+  });
+
+  updateTemplate = asyncHandler(async (req: Request, res: Response) => {
+    const { error, value } = outreachTemplateUpdateSchema.validate(req.body, { stripUnknown: true });
+    if (error) {
+      throw new AppError(error.details[0].message, 400);
+    }
+
+    const { userId, ...input } = value;
+    const template = await outreachEmailService.updateTemplate(userId, req.params.id, input);
+
+    res.status(200).json({
+      success: true,
+      data: template,
+    });
+  });
+
+  deleteTemplate = asyncHandler(async (req: Request, res: Response) => {
+    const removed = await outreachEmailService.deleteTemplate(req.query.userId as string, req.params.id);
+    if (!removed) {
+      throw new AppError('Template not found', 404);
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Template deleted',
+    });
+  });
+
+  previewTemplate = asyncHandler(async (req: Request, res: Response) => {
+    const { error, value } = outreachPreviewSchema.validate(req.body, { stripUnknown: true });
+    if (error) {
+      throw new AppError(error.details[0].message, 400);
+    }
+
+    const { userId, streamerId, campaignName } = value;
+    const preview = await outreachEmailService.preview(userId, req.params.id, streamerId, campaignName);
+
+    res.status(200).json({
+      success: true,
+      data: preview,
+    });
+  });
+
+  // Queue a template for a set of creators
+  send = asyncHandler(async (req: Request, res: Response) => {
+    const { error, value } = outreachSendSchema.validate(req.body, { stripUnknown: true });
+    if (error) {
+      throw new AppError(error.details[0].message, 400);
+    }
+
+    const { userId, ...request } = value;
+    const result = await outreachEmailService.queue(userId, request);
+
+    res.status(202).json({
+      success: true,
+      data: result,
+    });
+  });
+
+  getBatches = asyncHandler(async (req: Request, res: Response) => {
+    const batches = await outreachEmailService.listBatches(req.query.userId as string);
+
+    res.status(200).json({
+      success: true,
+      data: batches,
+      count: batches.length,
+    });
+  });
+
+  getBatch = asyncHandler(async (req: Request, res: Response) => {
+    const batch = await outreachEmailService.getBatch(req.query.userId as string, req.params.id);
+
+    res.status(200).json({
+      success: true,
+      data: batch,
+    });
+  });
+
+  getOptOuts = asyncHandler(async (req: Request, res: Response) => {
+    const optOuts = await outreachEmailService.listOptOuts(req.query.userId as string, req.query.search as string | undefined);
+
+    res.status(200).json({
+      success: true,
+      data: optOuts,
+      count: optOuts.length,
+    });
+  });
+
+  addOptOut = asyncHandler(async (req: Request, res: Response) => {
+    const { error, value } = emailOptOutSchema.validate(req.body, { stripUnknown: true });
+    if (error) {
+      throw new AppError(error.details[0].message, 400);
+    }
+
+    const { userId, email } = value;
+    const optOut = await outreachEmailService.optOut(email, 'manual', userId);
+
+    res.status(201).json({
+      success: true,
+      data: optOut,
+    });
+  });
+
+  removeOptOut = asyncHandler(async (req: Request, res: Response) => {
+    const isAdmin = String((req as any).user?.role).toUpperCase() === UserRole.ADMIN;
+    const removed = await outreachEmailService.removeOptOut(req.query.userId as string, req.params.email, isAdmin);
+    if (!removed) {
+      throw new AppError('Address is not on the opt-out list', 404);
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Opt-out removed',
+    });
+  });
+
+  // Public: link in every outreach email (GET) and one-click List-Unsubscribe (POST)
+  // The link only shows a confirmation - mail scanners and prefetchers open every link in an email
+  confirmUnsubscribe = asyncHandler(async (req: Request, res: Response) => {
+    const valid = await outreachEmailService.isUnsubscribeToken(req.params.token);
+
+    res
+      .status(valid ? 200 : 404)
+      .type('html')
+      .send(unsubscribePage(valid ? unsubscribeForm : '<p>This unsubscribe link is not valid.</p>'));
+  });
+
+  // The confirmation form, and one-click unsubscribe from mail clients (List-Unsubscribe-Post)
+  unsubscribe = asyncHandler(async (req: Request, res: Response) => {
+    const address = await outreachEmailService.unsubscribe(req.params.token);
+
+    if (req.body?.source !== 'page') {
+      return res.status(address ? 200 : 404).json({ success: !!address });
+    }
+    res
+      .status(address ? 200 : 404)
+      .type('html')
+      .send(unsubscribePage(address ? '<p>You have been unsubscribed and will not receive further outreach emails.</p>' : '<p>This unsubscribe link is not valid.</p>'));
+  });
+
+  // Bounces, replies and complaints from a mail provider webhook or IMAP forwarder
+  inbound = asyncHandler(async (req: Request, res: Response) => {
+    if (!process.env.OUTREACH_INBOUND_SECRET) {
+      throw new AppError('Inbound mail tracking is not configured', 503);
+    }
+    if (!isValidInboundSecret(req.headers['x-inbound-secret'] as string | undefined)) {
+      throw new AppError('Invalid inbound secret', 401);
+    }
+
+    const { error, value } = inboundMailSchema.validate(req.body, { stripUnknown: true });
+    if (error) {
+      throw new AppError(error.details[0].message, 400);
+    }
+
+    const payload = value;
+    const event: InboundEvent | null = 'type' in payload ? payload : classifyInbound(payload);
+    const email = event ? await outreachEmailService.handleInbound(event) : null;
+
+    res.status(200).json({
+      success: true,
+      data: { event: event?.type ?? null, matched: !!email, emailId: email?.id ?? null },
+    });
+  });
+}
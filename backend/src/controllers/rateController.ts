@@ -0,0 +1,72 @@
+import { Request, Response } from 'express';
+import { RateDeliverable } from '@prisma/client';
+import { AppError, asyncHandler } from '../middleware/errorHandler';
+import { RATE_DELIVERABLES, rateEstimationService } from '../services/rateEstimationService';
+import { creatorRateSchema } from '../utils/validation';
+
+export class RateController {
+  // Recorded deals, newest first (optionally for one creator or deliverable)
+  getRates = asyncHandler(async (req: Request, res: Response) => {
+    const deliverable = req.query.deliverable as RateDeliverable | undefined;
+    if (deliverable && !RATE_DELIVERABLES.includes(deliverable)) {
+      throw new AppError(`deliverable must be one of ${RATE_DELIVERABLES.join(', ')}`, 400);
+    }
+
+    const rates = await rateEstimationService.listRates({
+      streamerId: req.query.streamerId as string | undefined,
+      deliverable,
+      limit: Math.min(Math.max(parseInt(req.query.limit as string) || 100, 1), 500),
+    });
+
+    res.status(200).json({
+      success: true,
+      data: rates,
+      count: rates.length,
+    });
+  });
+
+  recordRate = asyncHandler(async (req: Request, res: Response) => {
+    const { error, value } = creatorRateSchema.validate(req.body, { stripUnknown: true });
+    if (error) {
+      throw new AppError(error.details[0].message, 400);
+    }
+
+    const rate = await rateEstimationService.recordRate(value, (req as any).user.email);
+
+    res.status(201).json({
+      success: true,
+      data: rate,
+    });
+  });
+
+  deleteRate = asyncHandler(async (req: Request, res: Response) => {
+    const removed = await rateEstimationService.removeRate(req.params.id, (req as any).user.email);
+    if (!removed) {
+      throw new AppError('Rate not found', 404);
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Rate removed',
+    });
+  });
+
+  // Which deliverables have a pricing model, and how many deals it was fit on
+  getModels = asyncHandler(async (req: Request, res: Response) => {
+    const models = await rateEstimationService.modelSummaries();
+
+    res.status(200).json({
+      success: true,
+      data: models,
+    });
+  });
+
+  refitModels = asyncHandler(async (req: Request, res: Response) => {
+    const results = await rateEstimationService.refit();
+
+    res.status(200).json({
+      success: true,
+      data: results,
+    });
+  });
+}
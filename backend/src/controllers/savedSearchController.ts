@@ -0,0 +1,94 @@
+import { Request, Response } from 'express';
+import { AppError, asyncHandler } from '../middleware/errorHandler';
+import { savedSearchService } from '../services/savedSearchService';
+import { savedSearchCreateSchema, savedSearchUpdateSchema } from '../utils/validation';
+
+export class SavedSearchController {
+  // Get user's saved searches (with unseen new-match counts)
+  getSavedSearches = asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.query.userId as string;
+    const savedSearches = await savedSearchService.list(userId);
+
+    res.status(200).json({
+      success: true,
+      data: savedSearches,
+      count: savedSearches.length,
+    });
+  });
+
+  createSavedSearch = asyncHandler(async (req: Request, res: Response) => {
+    const { error, value } = savedSearchCreateSchema.validate(req.body, { stripUnknown: true });
+    if (error) {
+      throw new AppError(error.details[0].message, 400);
+    }
+
+    const { userId, ...input } = value;
+    const savedSearch = await savedSearchService.create(userId, input);
+
+    res.status(201).json({
+      success: true,
+      data: savedSearch,
+    });
+  });
+
+  updateSavedSearch = asyncHandler(async (req: Request, res: Response) => {
+    const { error, value } = savedSearchUpdateSchema.validate(req.body, { stripUnknown: true });
+    if (error) {
+      throw new AppError(error.details[0].message, 400);
+    }
+
+    const { userId, ...input } = value;
+    const savedSearch = await savedSearchService.update(req.params.id, userId, input);
+    if (!savedSearch) {
+      throw new AppError('Saved search not found', 404);
+    }
+
+    res.status(200).json({
+      success: true,
+      data: savedSearch,
+    });
+  });
+
+  deleteSavedSearch = asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.query.userId as string || req.body?.userId;
+    const deleted = await savedSearchService.remove(req.params.id, userId);
+    if (!deleted) {
+      throw new AppError('Saved search not found', 404);
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Saved search deleted',
+    });
+  });
+
+  // Creators that newly matched since the search was last viewed
+  getNewMatches = asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.query.userId as string;
+    const limit = Math.min(Math.max(parseInt((req.query.limit as string) || '50', 10) || 50, 1), 200);
+
+    const creators = await savedSearchService.getNewMatches(req.params.id, userId, limit);
+    if (!creators) {
+      throw new AppError('Saved search not found', 404);
+    }
+
+    res.status(200).json({
+      success: true,
+      data: creators,
+      count: creators.length,
+    });
+  });
+
+  // Called when the user reapplies a search - clears its unseen counter
+  markSeen = asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.query.userId as string || req.body?.userId;
+    const updated = await savedSearchService.markSeen(req.params.id, userId);
+    if (!updated) {
+      throw new AppError('Saved search not found', 404);
+    }
+
+    res.status(200).json({
+      success: true,
+    });
+  });
+}
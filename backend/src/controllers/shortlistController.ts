@@ -1,11 +1,25 @@
 import { Request, Response } from 'express';
 import { db } from '../utils/database';
-import { asyncHandler } from '../middleware/errorHandler';
+import { AppError, asyncHandler } from '../middleware/errorHandler';
+import { SHORTLIST_ORDER, ShortlistRef, shortlistService } from '../services/shortlistService';
+import {
+  shortlistCommentSchema,
+  shortlistCommentUpdateSchema,
+  shortlistReorderSchema,
+  shortlistShareSchema,
+} from '../utils/validation';
+
+// Lists are the caller's own unless ownerId names a list shared with them
+const listRef = (userId: string, ownerId?: string, listName?: string): ShortlistRef => ({
+  ownerId: ownerId || userId,
+  listName: listName || 'default',
+});
 
 export class ShortlistController {
-  // Get all shortlist entries for user (grouped by list)
+  // Get all shortlist entries for user (grouped by list), or one list shared with them
   getShortlists = asyncHandler(async (req: Request, res: Response) => {
     const userId = req.query.userId as string;
+    const ownerId = req.query.ownerId as string | undefined;
     const listName = req.query.listName as string | undefined;
 
     if (!userId) {
@@ -19,6 +33,14 @@ export class ShortlistController {
     if (listName) {
       where.listName = listName;
     }
+    if (ownerId) {
+      // Sharing is per list, so another owner's lists are read one at a time
+      if (!listName) {
+        throw new AppError('listName is required for a shared shortlist', 400);
+      }
+      await shortlistService.requireAccess(userId, listRef(userId, ownerId, listName), 'read');
+      where.userId = ownerId;
+    }
 
     const shortlists = await db.discoveryShortlist.findMany({
       where,
@@ -41,12 +63,9 @@ export class ShortlistController {
             brandSafetyScore: true,
           },
         },
+        _count: { select: { comments: { where: { deletedAt: null } } } },
       },
-      orderBy: [
-        { listName: 'asc' },
-        { priority: 'desc' },
-        { createdAt: 'desc' },
-      ],
+      orderBy: [{ listName: 'asc' }, ...SHORTLIST_ORDER],
     });
 
     res.status(200).json({
@@ -59,7 +78,7 @@ export class ShortlistController {
   // Get shortlist IDs for quick lookup
   getShortlistIds = asyncHandler(async (req: Request, res: Response) => {
     const userId = req.query.userId as string;
-    const listName = (req.query.listName as string) || 'default';
+    const ref = listRef(userId, req.query.ownerId as string, req.query.listName as string);
 
     if (!userId) {
       return res.status(400).json({
@@ -68,8 +87,9 @@ export class ShortlistController {
       });
     }
 
+    await shortlistService.requireAccess(userId, ref, 'read');
     const shortlists = await db.discoveryShortlist.findMany({
-      where: { userId, listName },
+      where: { userId: ref.ownerId, listName: ref.listName },
       select: { streamerId: true },
     });
 
@@ -105,9 +125,20 @@ export class ShortlistController {
     });
   });
 
+  // Lists other people shared with the user through a workspace
+  getSharedLists = asyncHandler(async (req: Request, res: Response) => {
+    const lists = await shortlistService.sharedWith(req.query.userId as string);
+
+    res.status(200).json({
+      success: true,
+      data: lists,
+      count: lists.length,
+    });
+  });
+
   // Add to shortlist
   addToShortlist = asyncHandler(async (req: Request, res: Response) => {
-    const { userId, streamerId, listName = 'default', priority = 0, notes } = req.body;
+    const { userId, ownerId, streamerId, listName, priority = 0, notes } = req.body;
 
     if (!userId || !streamerId) {
       return res.status(400).json({
@@ -116,36 +147,7 @@ export class ShortlistController {
       });
     }
 
-    // Check if streamer exists
-    const streamer = await db.streamer.findUnique({
-      where: { id: streamerId },
-    });
-
-    if (!streamer) {
-      return res.status(404).json({
-        success: false,
-        error: 'Streamer not found',
-      });
-    }
-
-    // Create or update
-    const shortlist = await db.discoveryShortlist.upsert({
-      where: {
-        userId_streamerId_listName: { userId, streamerId, listName },
-      },
-      create: { userId, streamerId, listName, priority, notes },
-      update: { priority, notes },
-      include: {
-        streamer: {
-          select: {
-            id: true,
-            displayName: true,
-            platform: true,
-            avatarUrl: true,
-          },
-        },
-      },
-    });
+    const shortlist = await shortlistService.add(userId, listRef(userId, ownerId, listName), streamerId, { priority, notes });
 
     res.status(201).json({
       success: true,
@@ -155,7 +157,7 @@ export class ShortlistController {
 
   // Remove from shortlist
   removeFromShortlist = asyncHandler(async (req: Request, res: Response) => {
-    const { userId, streamerId, listName = 'default' } = req.body;
+    const { userId, ownerId, streamerId, listName } = req.body;
 
     if (!userId || !streamerId) {
       return res.status(400).json({
@@ -164,28 +166,17 @@ export class ShortlistController {
       });
     }
 
-    try {
-      await db.discoveryShortlist.delete({
-        where: {
-          userId_streamerId_listName: { userId, streamerId, listName },
-        },
-      });
+    const removed = await shortlistService.remove(userId, listRef(userId, ownerId, listName), streamerId);
 
-      res.status(200).json({
-        success: true,
-        message: 'Removed from shortlist',
-      });
-    } catch (e) {
-      res.status(200).json({
-        success: true,
-        message: 'Not found or already removed',
-      });
-    }
+    res.status(200).json({
+      success: true,
+      message: removed ? 'Removed from shortlist' : 'Not found or already removed',
+    });
   });
 
   // Update shortlist entry (priority, notes)
   updateShortlistEntry = asyncHandler(async (req: Request, res: Response) => {
-    const { userId, streamerId, listName = 'default', priority, notes } = req.body;
+    const { userId, ownerId, streamerId, listName, priority, notes } = req.body;
 
     if (!userId || !streamerId) {
       return res.status(400).json({
@@ -194,62 +185,45 @@ export class ShortlistController {
       });
     }
 
-    const updateData: any = {};
-    if (priority !== undefined) updateData.priority = priority;
-    if (notes !== undefined) updateData.notes = notes;
-
-    try {
-      const updated = await db.discoveryShortlist.update({
-        where: {
-          userId_streamerId_listName: { userId, streamerId, listName },
-        },
-        data: updateData,
-      });
+    const updated = await shortlistService.update(userId, listRef(userId, ownerId, listName), streamerId, { priority, notes });
 
-      res.status(200).json({
-        success: true,
-        data: updated,
-      });
-    } catch (e) {
-      res.status(404).json({
-        success: false,
-        error: 'Shortlist entry not found',
-      });
-    }
+    res.status(200).json({
+      success: true,
+      data: updated,
+    });
   });
 
-  // Reorder shortlist (bulk update priorities)
+  // Reorder shortlist: move one entry before/after another, or bulk update priorities
   reorderShortlist = asyncHandler(async (req: Request, res: Response) => {
-    const { userId, listName = 'default', order } = req.body;
+    const { error, value } = shortlistReorderSchema.validate(req.body, { stripUnknown: true });
+    if (error) {
+      throw new AppError(error.details[0].message, 400);
+    }
 
-    if (!userId || !order || !Array.isArray(order)) {
-      return res.status(400).json({
-        success: false,
-        error: 'userId and order array are required',
+    const ref = listRef(value.userId, value.ownerId, value.listName);
+    if (value.order) {
+      await shortlistService.setPriorities(value.userId, ref, value.order);
+      return res.status(200).json({
+        success: true,
+        message: 'Shortlist reordered',
       });
     }
 
-    // order is array of { streamerId, priority }
-    const updates = order.map((item: { streamerId: string; priority: number }) =>
-      db.discoveryShortlist.update({
-        where: {
-          userId_streamerId_listName: { userId, streamerId: item.streamerId, listName },
-        },
-        data: { priority: item.priority },
-      })
-    );
-
-    await Promise.all(updates);
+    const order = await shortlistService.move(value.userId, ref, value.streamerId, {
+      beforeStreamerId: value.beforeStreamerId,
+      afterStreamerId: value.afterStreamerId,
+    });
 
     res.status(200).json({
       success: true,
       message: 'Shortlist reordered',
+      data: order,
     });
   });
 
   // Toggle shortlist (add if not exists, remove if exists)
   toggleShortlist = asyncHandler(async (req: Request, res: Response) => {
-    const { userId, streamerId, listName = 'default', notes } = req.body;
+    const { userId, ownerId, streamerId, listName, notes } = req.body;
 
     if (!userId || !streamerId) {
       return res.status(400).json({
@@ -258,45 +232,150 @@ export class ShortlistController {
       });
     }
 
-    // Check if exists
-    const existing = await db.discoveryShortlist.findUnique({
-      where: {
-        userId_streamerId_listName: { userId, streamerId, listName },
-      },
-    });
-
-    if (existing) {
-      // Remove
-      await db.discoveryShortlist.delete({
-        where: { id: existing.id },
-      });
+    const ref = listRef(userId, ownerId, listName);
+    if (await shortlistService.isListed(ref, streamerId)) {
+      await shortlistService.remove(userId, ref, streamerId);
       return res.status(200).json({
         success: true,
         action: 'removed',
         isShortlisted: false,
       });
-    } else {
-      // Add
-      const streamer = await db.streamer.findUnique({
-        where: { id: streamerId },
-      });
+    }
 
-      if (!streamer) {
-        return res.status(404).json({
-          success: false,
-          error: 'Streamer not found',
-        });
-      }
+    await shortlistService.add(userId, ref, streamerId, { notes });
+    return res.status(200).json({
+      success: true,
+      action: 'added',
+      isShortlisted: true,
+    });
+  });
 
-      await db.discoveryShortlist.create({
-        data: { userId, streamerId, listName, notes },
-      });
+  // Who added, changed or removed creators on a list (optionally one creator)
+  getActivity = asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.query.userId as string;
+    const ref = listRef(userId, req.query.ownerId as string, req.query.listName as string);
+    const events = await shortlistService.events(userId, ref, req.query.streamerId as string | undefined);
 
-      return res.status(200).json({
-        success: true,
-        action: 'added',
-        isShortlisted: true,
-      });
+    res.status(200).json({
+      success: true,
+      data: events,
+      count: events.length,
+    });
+  });
+
+  // People who can be @mentioned on a list
+  getCollaborators = asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.query.userId as string;
+    const ref = listRef(userId, req.query.ownerId as string, req.query.listName as string);
+    await shortlistService.requireAccess(userId, ref, 'read');
+
+    res.status(200).json({
+      success: true,
+      data: await shortlistService.collaborators(ref),
+    });
+  });
+
+  // ===========================================================================
+  // SHARING
+  // ===========================================================================
+
+  getShares = asyncHandler(async (req: Request, res: Response) => {
+    const shares = await shortlistService.shares(req.query.userId as string, (req.query.listName as string) || 'default');
+
+    res.status(200).json({
+      success: true,
+      data: shares,
+      count: shares.length,
+    });
+  });
+
+  shareList = asyncHandler(async (req: Request, res: Response) => {
+    const { error, value } = shortlistShareSchema.validate(req.body, { stripUnknown: true });
+    if (error) {
+      throw new AppError(error.details[0].message, 400);
     }
+
+    const share = await shortlistService.share(value.userId, value.listName, value.workspaceId, value.access);
+
+    res.status(200).json({
+      success: true,
+      data: share,
+    });
+  });
+
+  unshareList = asyncHandler(async (req: Request, res: Response) => {
+    const { userId, listName = 'default', workspaceId } = req.body;
+    if (!workspaceId) {
+      throw new AppError('workspaceId is required', 400);
+    }
+
+    const removed = await shortlistService.unshare(userId, listName, workspaceId);
+    if (!removed) {
+      throw new AppError('Share not found', 404);
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Shortlist is no longer shared with this workspace',
+    });
+  });
+
+  // ===========================================================================
+  // COMMENTS
+  // ===========================================================================
+
+  getComments = asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.query.userId as string;
+    const streamerId = req.query.streamerId as string;
+    if (!streamerId) {
+      throw new AppError('streamerId is required', 400);
+    }
+
+    const ref = listRef(userId, req.query.ownerId as string, req.query.listName as string);
+    const threads = await shortlistService.comments(userId, ref, streamerId);
+
+    res.status(200).json({
+      success: true,
+      data: threads,
+      count: threads.length,
+    });
+  });
+
+  addComment = asyncHandler(async (req: Request, res: Response) => {
+    const { error, value } = shortlistCommentSchema.validate(req.body, { stripUnknown: true });
+    if (error) {
+      throw new AppError(error.details[0].message, 400);
+    }
+
+    const ref = listRef(value.userId, value.ownerId, value.listName);
+    const comment = await shortlistService.addComment(value.userId, ref, value.streamerId, value.body, value.parentId);
+
+    res.status(201).json({
+      success: true,
+      data: comment,
+    });
+  });
+
+  updateComment = asyncHandler(async (req: Request, res: Response) => {
+    const { error, value } = shortlistCommentUpdateSchema.validate(req.body, { stripUnknown: true });
+    if (error) {
+      throw new AppError(error.details[0].message, 400);
+    }
+
+    const comment = await shortlistService.editComment(value.userId, req.params.id, value.body);
+
+    res.status(200).json({
+      success: true,
+      data: comment,
+    });
+  });
+
+  deleteComment = asyncHandler(async (req: Request, res: Response) => {
+    await shortlistService.deleteComment(req.query.userId as string, req.params.id);
+
+    res.status(200).json({
+      success: true,
+      message: 'Comment deleted',
+    });
   });
 }
@@ -0,0 +1,243 @@
+import { Request, Response } from 'express';
+import { AppError, asyncHandler } from '../middleware/errorHandler';
+import { shortlistLinkService } from '../services/shortlistLinkService';
+import { shortlistDecisionSchema, shortlistLinkSchema, shortlistLinkUpdateSchema } from '../utils/validation';
+
+const PASSWORD_HEADER = 'x-link-password';
+
+// Avatars come from the platforms' CDNs, so the page allows https images (the API default is 'self')
+const PAGE_CSP = "default-src 'self'; img-src 'self' https: data:; style-src 'self' 'unsafe-inline'; script-src 'self' 'unsafe-inline'";
+
+/**
+ * Client page shell. The inline script loads /share/:token/data (sending the
+ * password from sessionStorage once entered) and posts decisions back; all
+ * values are inserted with textContent.
+ */
+const sharePage = () => `<!doctype html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width,initial-scale=1">
+  <meta name="robots" content="noindex">
+  <title>Creator shortlist</title>
+  <style>
+    * { box-sizing: border-box; margin: 0; padding: 0; }
+    body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; background: #f7f7f8; color: #141C2E; }
+    header { padding: 32px 24px 16px; max-width: 1100px; margin: 0 auto; }
+    header h1 { font-size: 24px; }
+    header p { color: #666; font-size: 13px; margin-top: 4px; }
+    main { max-width: 1100px; margin: 0 auto; padding: 8px 24px 48px; display: grid; grid-template-columns: repeat(auto-fill, minmax(260px, 1fr)); gap: 16px; }
+    .card { background: #fff; border: 1px solid #e6e6e9; border-radius: 14px; padding: 18px; display: flex; flex-direction: column; gap: 12px; }
+    .card.APPROVED { border-color: #22c55e; }
+    .card.REJECTED { opacity: 0.6; }
+    .who { display: flex; align-items: center; gap: 12px; }
+    .who img { width: 48px; height: 48px; border-radius: 50%; object-fit: cover; background: #eee; }
+    .who a { color: #141C2E; font-weight: 600; text-decoration: none; }
+    .who span { display: block; font-size: 12px; color: #999; text-transform: capitalize; }
+    dl { display: grid; grid-template-columns: 1fr 1fr; gap: 8px; }
+    dt { font-size: 11px; color: #999; text-transform: uppercase; letter-spacing: 0.4px; }
+    dd { font-size: 14px; font-weight: 600; }
+    .actions { display: flex; gap: 8px; }
+    button { flex: 1; padding: 8px; border-radius: 8px; border: 1px solid #e0e0e0; background: #f5f5f5; font-weight: 600; cursor: pointer; }
+    button.approve.on { background: #22c55e; border-color: #22c55e; color: #fff; }
+    button.reject.on { background: #ef4444; border-color: #ef4444; color: #fff; }
+    textarea { width: 100%; border: 1px solid #e0e0e0; border-radius: 8px; padding: 6px 8px; font: inherit; font-size: 13px; resize: vertical; }
+    .notice { max-width: 360px; margin: 80px auto; text-align: center; display: flex; flex-direction: column; gap: 12px; }
+    .notice input { padding: 10px; border: 2px solid #e0e0e0; border-radius: 8px; font-size: 14px; }
+    .notice button { background: #FF6B35; border-color: #FF6B35; color: #fff; }
+    .error { color: #ef4444; font-size: 13px; }
+  </style>
+</head>
+<body>
+  <div id="root"></div>
+  <script>
+    (function () {
+      var token = location.pathname.split('/').filter(Boolean).pop();
+      var base = location.pathname.replace(/\\/$/, '');
+      var key = 'shortlist-password:' + token;
+      var root = document.getElementById('root');
+
+      function el(tag, props, children) {
+        var node = document.createElement(tag);
+        Object.keys(props || {}).forEach(function (k) { node[k] = props[k]; });
+        (children || []).forEach(function (c) { if (c) node.appendChild(typeof c === 'string' ? document.createTextNode(c) : c); });
+        return node;
+      }
+
+      function request(path, options) {
+        options = options || {};
+        options.headers = Object.assign({ 'Content-Type': 'application/json' }, options.headers);
+        var password = sessionStorage.getItem(key);
+        if (password) options.headers['X-Link-Password'] = password;
+        return fetch(base + path, options).then(function (res) {
+          return res.json().then(function (body) { return { status: res.status, body: body }; });
+        });
+      }
+
+      function notice(message, askPassword, error) {
+        root.innerHTML = '';
+        var box = el('div', { className: 'notice' }, [el('p', { textContent: message })]);
+        if (askPassword) {
+          var input = el('input', { type: 'password', placeholder: 'Password', autofocus: true });
+          var submit = el('button', { textContent: 'View shortlist' });
+          var unlock = function () { sessionStorage.setItem(key, input.value); load(); };
+          submit.addEventListener('click', unlock);
+          input.addEventListener('keydown', function (e) { if (e.key === 'Enter') unlock(); });
+          box.appendChild(input);
+          box.appendChild(submit);
+          if (error) box.appendChild(el('p', { className: 'error', textContent: error }));
+        }
+        root.appendChild(box);
+      }
+
+      function card(creator, data) {
+        var node = el('div', { className: 'card ' + (creator.decision || '') });
+        var name = creator.profileUrl
+          ? el('a', { href: creator.profileUrl, target: '_blank', rel: 'noopener', textContent: creator.displayName })
+          : el('strong', { textContent: creator.displayName });
+        node.appendChild(el('div', { className: 'who' }, [
+          el('img', { src: creator.avatarUrl || '', alt: '' }),
+          el('div', {}, [name, el('span', { textContent: creator.platform.toLowerCase() })])
+        ]));
+        node.appendChild(el('dl', {}, data.metrics.reduce(function (items, m) {
+          return items.concat([el('dt', { textContent: m.label }), el('dd', { textContent: creator.values[m.key] || '-' })]);
+        }, [])));
+
+        if (data.allowDecisions) {
+          var note = el('textarea', { rows: 2, placeholder: 'Comment (optional)', value: creator.decisionNote || '' });
+          var decide = function (decision) {
+            var next = creator.decision === decision ? null : decision;
+            request('/decisions', { method: 'POST', body: JSON.stringify({ streamerId: creator.streamerId, decision: next, note: note.value }) })
+              .then(function (res) {
+                if (!res.body.success) return alert(res.body.error || 'Could not save');
+                creator.decision = res.body.data.decision;
+                creator.decisionNote = res.body.data.decisionNote;
+                node.replaceWith(card(creator, data));
+              });
+          };
+          var approve = el('button', { className: 'approve' + (creator.decision === 'APPROVED' ? ' on' : ''), textContent: 'Approve' });
+          var reject = el('button', { className: 'reject' + (creator.decision === 'REJECTED' ? ' on' : ''), textContent: 'Reject' });
+          approve.addEventListener('click', function () { decide('APPROVED'); });
+          reject.addEventListener('click', function () { decide('REJECTED'); });
+          node.appendChild(note);
+          node.appendChild(el('div', { className: 'actions' }, [approve, reject]));
+        }
+        return node;
+      }
+
+      function load() {
+        request('/data').then(function (res) {
+          if (res.status === 401) {
+            var tried = !!sessionStorage.getItem(key);
+            sessionStorage.removeItem(key);
+            return notice('This shortlist is password protected.', true, tried ? res.body.error : null);
+          }
+          if (!res.body.success) return notice(res.body.error || 'This shortlist is not available.');
+
+          var data = res.body.data;
+          document.title = data.title;
+          root.innerHTML = '';
+          var meta = data.creators.length + ' creator' + (data.creators.length === 1 ? '' : 's');
+          if (data.expiresAt) meta += ' · available until ' + new Date(data.expiresAt).toLocaleDateString();
+          root.appendChild(el('header', {}, [el('h1', { textContent: data.title }), el('p', { textContent: meta })]));
+          root.appendChild(el('main', {}, data.creators.map(function (c) { return card(c, data); })));
+        }).catch(function () { notice('Could not load this shortlist. Please try again.'); });
+      }
+
+      load();
+    })();
+  </script>
+</body>
+</html>`;
+
+export class ShortlistLinkController {
+  // Links published for one of the user's lists (or a list shared with them)
+  getLinks = asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.query.userId as string;
+    const links = await shortlistLinkService.list(userId, {
+      ownerId: (req.query.ownerId as string) || userId,
+      listName: (req.query.listName as string) || 'default',
+    });
+
+    res.status(200).json({
+      success: true,
+      data: links,
+      count: links.length,
+    });
+  });
+
+  createLink = asyncHandler(async (req: Request, res: Response) => {
+    const { error, value } = shortlistLinkSchema.validate(req.body, { stripUnknown: true });
+    if (error) {
+      throw new AppError(error.details[0].message, 400);
+    }
+
+    const { userId, ownerId, listName, ...input } = value;
+    const link = await shortlistLinkService.create(userId, { ownerId: ownerId || userId, listName }, input);
+
+    res.status(201).json({
+      success: true,
+      data: link,
+    });
+  });
+
+  updateLink = asyncHandler(async (req: Request, res: Response) => {
+    const { error, value } = shortlistLinkUpdateSchema.validate(req.body, { stripUnknown: true });
+    if (error) {
+      throw new AppError(error.details[0].message, 400);
+    }
+
+    const { userId, ...input } = value;
+    const link = await shortlistLinkService.update(userId, req.params.id, input);
+
+    res.status(200).json({
+      success: true,
+      data: link,
+    });
+  });
+
+  revokeLink = asyncHandler(async (req: Request, res: Response) => {
+    const link = await shortlistLinkService.revoke(req.query.userId as string, req.params.id);
+
+    res.status(200).json({
+      success: true,
+      data: link,
+    });
+  });
+
+  // ===========================================================================
+  // PUBLIC
+  // ===========================================================================
+
+  getPage = asyncHandler(async (req: Request, res: Response) => {
+    res
+      .status(200)
+      .set('Content-Security-Policy', PAGE_CSP)
+      .set('Referrer-Policy', 'no-referrer')
+      .type('html')
+      .send(sharePage());
+  });
+
+  getPageData = asyncHandler(async (req: Request, res: Response) => {
+    const data = await shortlistLinkService.view(req.params.token, req.get(PASSWORD_HEADER));
+
+    res.status(200).json({
+      success: true,
+      data,
+    });
+  });
+
+  recordDecision = asyncHandler(async (req: Request, res: Response) => {
+    const { error, value } = shortlistDecisionSchema.validate(req.body, { stripUnknown: true });
+    if (error) {
+      throw new AppError(error.details[0].message, 400);
+    }
+
+    const decision = await shortlistLinkService.decide(req.params.token, req.get(PASSWORD_HEADER), value.streamerId, value.decision, value.note);
+
+    res.status(200).json({
+      success: true,
+      data: decision,
+    });
+  });
+}
@@ -1,10 +1,64 @@
 import { Request, Response } from 'express';
-import { db } from '../utils/database';
+import { Prisma } from '@prisma/client';
+import { db, logger } from '../utils/database';
 import { AppError, asyncHandler } from '../middleware/errorHandler';
 import { seedFromCsvIfEmpty } from '../utils/seedFromCsv';
+import { buildStreamerQuery, matchingIds } from '../utils/streamerFilters';
+import { streamerExportService, ExportFormat } from '../services/streamerExportService';
+import { creatorSearchService } from '../services/creatorSearchService';
+import { outreachService } from '../services/outreachService';
 
 // Removed AuthRequest interface - using basic Request for now
 
+// Columns returned by the creator list
+const LIST_SELECT = {
+  id: true,
+  platform: true,
+  username: true,
+  displayName: true,
+  profileUrl: true,
+  avatarUrl: true,
+  followers: true,
+  currentViewers: true,
+  highestViewers: true,
+  isLive: true,
+  currentGame: true,
+  primaryCategory: true,
+  tags: true,
+  region: true,
+  language: true,
+  totalViews: true,
+  totalLikes: true,
+  totalComments: true,
+  totalShares: true,
+  avgViewers: true,
+  minutesWatched: true,
+  durationMinutes: true,
+  engagementRate: true,
+  followerGrowth7d: true,
+  followerGrowthPct7d: true,
+  lastScrapedAt: true,
+  lastStreamed: true,
+  lastSeenLive: true,
+  // Cross-platform unified demographics
+  inferredCountry: true,
+  inferredCountrySource: true,
+  inferredCategory: true,
+  inferredCategorySource: true,
+  unifiedTags: true,
+  // Contact information
+  email: true,
+  businessEmail: true,
+  emailSource: true,
+  // Best few verified/unchecked contacts for the card
+  contacts: {
+    where: { status: { not: 'INVALID' } },
+    select: { id: true, type: true, value: true, status: true, confidence: true },
+    orderBy: { confidence: 'desc' },
+    take: 5,
+  },
+} satisfies Prisma.StreamerSelect;
+
 export class StreamerController {
   getStreamers = asyncHandler(async (req: Request, res: Response) => {
     try {
@@ -12,303 +66,45 @@ export class StreamerController {
       const limit = Math.min(Math.max(parseInt((req.query.limit as string) || '20', 10), 1), 500);
       const skip = (page - 1) * limit;
 
-      const sort = (String(req.query.sort || '').toLowerCase());
-      const dir = (String(req.query.dir || 'desc').toLowerCase() === 'asc' ? 'asc' : 'desc') as 'asc' | 'desc';
-
-      // Search filter
-      const search = (req.query.search as string | undefined)?.trim();
-
-      // Multi-select filters (comma-separated)
-      const platforms = (req.query.platforms as string | undefined)?.split(',').map(p => p.trim().toUpperCase()).filter(Boolean);
-      const regions = (req.query.regions as string | undefined)?.split(',').map(r => r.trim().toUpperCase()).filter(Boolean);
-      const categories = (req.query.categories as string | undefined)?.split(',').map(c => c.trim()).filter(Boolean);
-
-      // Range filters
-      const minFollowers = parseInt(req.query.minFollowers as string) || 0;
-      const maxFollowers = parseInt(req.query.maxFollowers as string) || undefined;
-      const minViews = parseInt(req.query.minViews as string) || 0;
-      const maxViews = parseInt(req.query.maxViews as string) || undefined;
-      const minEngagement = parseFloat(req.query.minEngagement as string) || 0;
-      const minAvgViewers = parseInt(req.query.minAvgViewers as string) || 0;
-      const maxAvgViewers = parseInt(req.query.maxAvgViewers as string) || undefined;
-      const maxLastActive = parseInt(req.query.maxLastActive as string) || undefined; // days
-
-      // Favorites and discards filter
-      const userId = req.query.userId as string | undefined;
-      const favoritesOnly = req.query.favoritesOnly === 'true';
-      const discardedOnly = req.query.discardedOnly === 'true';
-      const hideDiscarded = req.query.hideDiscarded !== 'false'; // Default to true
-
-      // Contact filter
-      const hasEmail = req.query.hasEmail === 'true';
-
-      // iGaming filters
-      const gamblingCompatible = req.query.gamblingCompatible === 'true' ? true :
-                                  req.query.gamblingCompatible === 'false' ? false : undefined;
-      const minIgamingScore = parseInt(req.query.minIgamingScore as string) || 0;
-      const maxIgamingScore = parseInt(req.query.maxIgamingScore as string) || undefined;
-      const performanceTier = (req.query.performanceTier as string | undefined)?.toUpperCase();
-
-      // Build where clause
-      const where: any = {};
-
-      // Search by name/username
-      if (search) {
-        where.OR = [
-          { displayName: { contains: search, mode: 'insensitive' } },
-          { username: { contains: search, mode: 'insensitive' } },
-        ];
-      }
-
-      // Multi-platform filter
-      if (platforms && platforms.length > 0) {
-        where.platform = { in: platforms };
-      }
-
-      // Multi-region filter
-      if (regions && regions.length > 0) {
-        where.region = { in: regions };
-      }
-
-      // Multi-category filter - uses inferredCategory which properly maps games to categories
-      // e.g., "Gaming" includes all video games, "iGaming" includes slots/casino
-      // "Other" or "Uncategorized" includes profiles with no category
-      if (categories && categories.length > 0) {
-        const hasOther = categories.some(c => c.toLowerCase() === 'other' || c.toLowerCase() === 'uncategorized');
-        const regularCategories = categories.filter(c => c.toLowerCase() !== 'other' && c.toLowerCase() !== 'uncategorized');
-
-        const categoryConditions: any[] = [];
-
-        // Add regular category matches
-        if (regularCategories.length > 0) {
-          categoryConditions.push(
-            { inferredCategory: { in: regularCategories, mode: 'insensitive' } },
-            { primaryCategory: { in: regularCategories, mode: 'insensitive' } }
-          );
-        }
-
-        // Add null/empty category matches for "Other"
-        if (hasOther) {
-          categoryConditions.push(
-            { AND: [{ inferredCategory: null }, { primaryCategory: null }] },
-            { AND: [{ inferredCategory: null }, { primaryCategory: '' }] },
-            { AND: [{ inferredCategory: '' }, { primaryCategory: null }] },
-            { AND: [{ inferredCategory: '' }, { primaryCategory: '' }] },
-            { primaryCategory: { contains: 'unknown', mode: 'insensitive' } }
-          );
-        }
-
-        if (categoryConditions.length > 0) {
-          where.AND = [
-            ...(where.AND || []),
-            { OR: categoryConditions }
-          ];
-        }
-      }
-
-      // Followers range
-      if (minFollowers > 0 || maxFollowers) {
-        where.followers = {};
-        if (minFollowers > 0) where.followers.gte = minFollowers;
-        if (maxFollowers) where.followers.lte = maxFollowers;
-      }
-
-      // Views range
-      if (minViews > 0 || maxViews) {
-        where.totalViews = {};
-        if (minViews > 0) where.totalViews.gte = BigInt(minViews);
-        if (maxViews) where.totalViews.lte = BigInt(maxViews);
-      }
-
-      // Engagement filter
-      if (minEngagement > 0) {
-        where.engagementRate = { gte: minEngagement };
-      }
-
-      // Avg viewers filter (range)
-      if (minAvgViewers > 0 || maxAvgViewers) {
-        where.avgViewers = {};
-        if (minAvgViewers > 0) where.avgViewers.gte = minAvgViewers;
-        if (maxAvgViewers) where.avgViewers.lte = maxAvgViewers;
-      }
+      const query = await buildStreamerQuery(req.query);
+      const { where, orderBy, empty, search } = query;
 
-      // Last active filter (days)
-      if (maxLastActive && maxLastActive < 365) {
-        const cutoffDate = new Date();
-        cutoffDate.setDate(cutoffDate.getDate() - maxLastActive);
-        where.OR = [
-          ...(where.OR || []),
-          { lastScrapedAt: { gte: cutoffDate } },
-          { isLive: true }, // Live creators are always "active"
-        ];
-      }
-
-      // Has email filter (only show creators with contact info)
-      if (hasEmail) {
-        where.email = { not: null };
-      }
-
-      // iGaming compatibility filter
-      if (gamblingCompatible !== undefined) {
-        where.gamblingCompatibility = gamblingCompatible;
-      }
-
-      // iGaming score range filter
-      if (minIgamingScore > 0 || maxIgamingScore) {
-        where.igamingScore = {};
-        if (minIgamingScore > 0) where.igamingScore.gte = minIgamingScore;
-        if (maxIgamingScore) where.igamingScore.lte = maxIgamingScore;
-      }
-
-      // Performance tier filter (S=90+, A=75-89, B=60-74, C=<60)
-      if (performanceTier) {
-        const tierRanges: Record<string, { min: number; max?: number }> = {
-          'S': { min: 90 },
-          'A': { min: 75, max: 89 },
-          'B': { min: 60, max: 74 },
-          'C': { min: 0, max: 59 },
-        };
-        const range = tierRanges[performanceTier];
-        if (range) {
-          where.igamingScore = {
-            ...(where.igamingScore || {}),
-            gte: range.min,
-            ...(range.max !== undefined ? { lte: range.max } : {}),
-          };
-        }
-      }
-
-      // Favorites only filter
-      let favoriteIds: string[] = [];
-      if (favoritesOnly && userId) {
-        const favorites = await db.discoveryFavorite.findMany({
-          where: { userId },
-          select: { streamerId: true },
-        });
-        favoriteIds = favorites.map(f => f.streamerId);
-        if (favoriteIds.length === 0) {
-          // No favorites = no results
-          return res.status(200).json({
-            success: true,
-            data: [],
-            pagination: { page: 1, limit, total: 0, totalPages: 0 },
-          });
-        }
-        where.id = { in: favoriteIds };
-      }
-
-      // Discarded filter
-      let discardedIds: string[] = [];
-      if (userId) {
-        const discarded = await db.discoveryDiscarded.findMany({
-          where: { userId },
-          select: { streamerId: true },
+      if (empty) {
+        return res.status(200).json({
+          success: true,
+          data: [],
+          pagination: { page: 1, limit, total: 0, totalPages: 0 },
         });
-        discardedIds = discarded.map(d => d.streamerId);
       }
 
-      if (discardedOnly && userId) {
-        // Show only discarded
-        if (discardedIds.length === 0) {
-          return res.status(200).json({
-            success: true,
-            data: [],
-            pagination: { page: 1, limit, total: 0, totalPages: 0 },
-          });
-        }
-        where.id = { in: discardedIds };
-      } else if (hideDiscarded && userId && discardedIds.length > 0 && !discardedOnly) {
-        // Hide discarded from general search
-        if (where.id) {
-          // Already filtering by ID (e.g., favorites), intersect with non-discarded
-          where.id = { in: (where.id.in || []).filter((id: string) => !discardedIds.includes(id)) };
-        } else {
-          where.id = { notIn: discardedIds };
-        }
+      // Query database. Searches page through the ordered matches (the search
+      // runs in SQL, outside the Prisma where); everything else pages in the database.
+      let items: Prisma.StreamerGetPayload<{ select: typeof LIST_SELECT }>[];
+      let total: number;
+      if (search) {
+        const ids = await matchingIds(query);
+        const pageIds = ids.slice(skip, skip + limit);
+        const position = new Map(pageIds.map((id, i) => [id, i]));
+        const rows = await db.streamer.findMany({ where: { id: { in: pageIds } }, select: LIST_SELECT });
+        items = rows.sort((a, b) => position.get(a.id)! - position.get(b.id)!);
+        total = ids.length;
+      } else {
+        [items, total] = await Promise.all([
+          db.streamer.findMany({ skip, take: limit, where, orderBy, select: LIST_SELECT }),
+          db.streamer.count({ where }),
+        ]);
       }
 
-      // Build orderBy
-      const orderBy: any[] = [];
-      switch (sort) {
-        case 'name':
-          orderBy.push({ displayName: dir });
-          break;
-        case 'followers':
-          orderBy.push({ followers: dir });
-          break;
-        case 'viewers':
-          orderBy.push({ isLive: 'desc' }, { currentViewers: dir });
-          break;
-        case 'avgviewers':
-          orderBy.push({ avgViewers: dir });
-          break;
-        case 'engagement':
-          orderBy.push({ engagementRate: dir });
-          break;
-        case 'views':
-          orderBy.push({ totalViews: dir });
-          break;
-        case 'lastactive':
-          orderBy.push({ lastSeenLive: { sort: dir, nulls: 'last' } });
-          break;
-        case 'igamingscore':
-          orderBy.push({ igamingScore: dir });
-          break;
-        case 'brandsafety':
-          orderBy.push({ brandSafetyScore: dir });
-          break;
-        default:
-          orderBy.push({ followers: 'desc' });
-      }
+      // Highlighted snippet showing where each creator matched the search
+      const highlights = search
+        ? await creatorSearchService.highlights(search.text, items.map(item => item.id))
+        : undefined;
 
-      // Query database
-      const [items, total] = await Promise.all([
-        db.streamer.findMany({
-          skip,
-          take: limit,
-          where,
-          orderBy,
-          select: {
-            id: true,
-            platform: true,
-            username: true,
-            displayName: true,
-            profileUrl: true,
-            avatarUrl: true,
-            followers: true,
-            currentViewers: true,
-            highestViewers: true,
-            isLive: true,
-            currentGame: true,
-            primaryCategory: true,
-            tags: true,
-            region: true,
-            language: true,
-            totalViews: true,
-            totalLikes: true,
-            totalComments: true,
-            totalShares: true,
-            avgViewers: true,
-            minutesWatched: true,
-            durationMinutes: true,
-            engagementRate: true,
-            lastScrapedAt: true,
-            lastStreamed: true,
-            lastSeenLive: true,
-            // Cross-platform unified demographics
-            inferredCountry: true,
-            inferredCountrySource: true,
-            inferredCategory: true,
-            inferredCategorySource: true,
-            unifiedTags: true,
-            // Contact information
-            email: true,
-            businessEmail: true,
-            emailSource: true,
-          },
-        }),
-        db.streamer.count({ where }),
-      ]);
+      // The requesting user's outreach status on each creator
+      const userId = req.query.userId as string | undefined;
+      const outreach = userId
+        ? await outreachService.currentStatuses(userId, items.map(item => item.id))
+        : undefined;
 
       // Convert BigInt to Number for JSON serialization
       const serializedItems = items.map(item => ({
@@ -318,6 +114,8 @@ export class StreamerController {
         totalComments: Number(item.totalComments),
         totalShares: Number(item.totalShares),
         minutesWatched: Number(item.minutesWatched),
+        ...(highlights ? { searchHighlight: highlights.get(item.id) || null } : {}),
+        ...(outreach ? { outreach: outreach.get(item.id) || null } : {}),
       }));
 
       const totalPages = Math.max(Math.ceil(total / limit), 1);
@@ -437,9 +235,39 @@ export class StreamerController {
   });
 
   exportToCsv = asyncHandler(async (req: Request, res: Response) => {
+    const format = (String(req.query.format || 'csv').toLowerCase()) as ExportFormat;
+    if (format !== 'csv' && format !== 'xlsx') {
+      throw new AppError('Invalid format. Use: csv or xlsx', 400);
+    }
+
+    const columns = streamerExportService.resolveColumns(req.query.columns as string | undefined);
+    if (columns.length === 0) {
+      throw new AppError(`No valid columns selected. Available: ${streamerExportService.getColumnKeys().join(', ')}`, 400);
+    }
+
+    const query = await buildStreamerQuery(req.query);
+    const { where, orderBy, empty } = query;
+    const filename = `creators-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.setHeader('Cache-Control', 'no-store');
+
+    const rows = await streamerExportService.exportRows(res, {
+      format,
+      columns,
+      where: empty ? { id: { in: [] } } : where,
+      orderBy,
+      // The search isn't part of `where`; export its matches in result order
+      ids: query.search && !empty ? await matchingIds(query) : undefined,
+    });
+
+    logger.info(`📤 Exported ${rows} creators as ${format.toUpperCase()}`);
+  });
+
+  getExportColumns = asyncHandler(async (req: Request, res: Response) => {
     res.status(200).json({
       success: true,
-      message: 'CSV export coming soon',
+      data: streamerExportService.describeColumns(),
     });
   });
 
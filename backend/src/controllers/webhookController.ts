@@ -0,0 +1,157 @@
+import { Request, Response } from 'express';
+import { WebhookDeliveryStatus, WebhookEvent } from '@prisma/client';
+import { db, logger } from '../utils/database';
+import { AppError, asyncHandler } from '../middleware/errorHandler';
+import { webhookService } from '../services/webhookService';
+import {
+  webhookCreateSchema,
+  webhookUpdateSchema,
+  webhookTestSchema,
+  webhookDeliveryQuerySchema,
+} from '../utils/validation';
+
+// The signing secret is only returned on create and when rotated
+const maskSecret = <T extends { secret: string }>(subscription: T) => ({
+  ...subscription,
+  secret: `${subscription.secret.slice(0, 10)}…`,
+});
+
+export class WebhookController {
+  getSubscriptions = asyncHandler(async (req: Request, res: Response) => {
+    const subscriptions = await db.discoveryWebhookSubscription.findMany({
+      orderBy: { createdAt: 'desc' },
+    });
+
+    // Failing deliveries per subscription so a broken endpoint stands out
+    const pending = await db.discoveryWebhookDelivery.groupBy({
+      by: ['subscriptionId', 'status'],
+      where: { status: { in: [WebhookDeliveryStatus.PENDING, WebhookDeliveryStatus.FAILED] } },
+      _count: { _all: true },
+    });
+
+    res.status(200).json({
+      success: true,
+      data: subscriptions.map(s => ({
+        ...maskSecret(s),
+        pendingDeliveries: pending.find(p => p.subscriptionId === s.id && p.status === WebhookDeliveryStatus.PENDING)?._count._all ?? 0,
+        failedDeliveries: pending.find(p => p.subscriptionId === s.id && p.status === WebhookDeliveryStatus.FAILED)?._count._all ?? 0,
+      })),
+      count: subscriptions.length,
+    });
+  });
+
+  createSubscription = asyncHandler(async (req: Request, res: Response) => {
+    const { error, value } = webhookCreateSchema.validate(req.body, { stripUnknown: true });
+    if (error) {
+      throw new AppError(error.details[0].message, 400);
+    }
+
+    const user = (req as any).user;
+    const subscription = await db.discoveryWebhookSubscription.create({
+      data: {
+        ...value,
+        events: value.events as WebhookEvent[],
+        secret: webhookService.generateSecret(),
+        createdById: user.isApiKey ? null : user.id,
+      },
+    });
+    webhookService.invalidateCache();
+
+    logger.info(`🪝 Webhook subscription created: ${subscription.name} -> ${subscription.url} [${subscription.events.join(', ')}] by ${user.email}`);
+
+    res.status(201).json({
+      success: true,
+      data: subscription,
+    });
+  });
+
+  updateSubscription = asyncHandler(async (req: Request, res: Response) => {
+    const { error, value } = webhookUpdateSchema.validate(req.body, { stripUnknown: true });
+    if (error) {
+      throw new AppError(error.details[0].message, 400);
+    }
+
+    const { id } = req.params;
+    const existing = await db.discoveryWebhookSubscription.findUnique({ where: { id }, select: { id: true } });
+    if (!existing) {
+      throw new AppError('Webhook subscription not found', 404);
+    }
+
+    const { rotateSecret, ...data } = value;
+    const subscription = await db.discoveryWebhookSubscription.update({
+      where: { id },
+      data: {
+        ...data,
+        ...(rotateSecret ? { secret: webhookService.generateSecret() } : {}),
+      },
+    });
+    webhookService.invalidateCache();
+
+    res.status(200).json({
+      success: true,
+      data: rotateSecret ? subscription : maskSecret(subscription),
+    });
+  });
+
+  deleteSubscription = asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const existing = await db.discoveryWebhookSubscription.findUnique({ where: { id }, select: { id: true, name: true } });
+    if (!existing) {
+      throw new AppError('Webhook subscription not found', 404);
+    }
+
+    await db.discoveryWebhookSubscription.delete({ where: { id } });
+    webhookService.invalidateCache();
+
+    logger.info(`🪝 Webhook subscription deleted: ${existing.name} by ${(req as any).user.email}`);
+
+    res.status(200).json({
+      success: true,
+      message: 'Webhook subscription deleted',
+    });
+  });
+
+  getDeliveries = asyncHandler(async (req: Request, res: Response) => {
+    const { error, value } = webhookDeliveryQuerySchema.validate(req.query, { stripUnknown: true });
+    if (error) {
+      throw new AppError(error.details[0].message, 400);
+    }
+
+    const deliveries = await webhookService.getDeliveries(req.params.id, value);
+
+    res.status(200).json({
+      success: true,
+      data: deliveries,
+      count: deliveries.length,
+    });
+  });
+
+  testSubscription = asyncHandler(async (req: Request, res: Response) => {
+    const { error, value } = webhookTestSchema.validate(req.body || {}, { stripUnknown: true });
+    if (error) {
+      throw new AppError(error.details[0].message, 400);
+    }
+
+    const delivery = await webhookService.testFire(req.params.id, value.event as WebhookEvent);
+    if (!delivery) {
+      throw new AppError('Webhook subscription not found', 404);
+    }
+
+    res.status(200).json({
+      success: delivery.status === WebhookDeliveryStatus.SUCCEEDED,
+      data: delivery,
+    });
+  });
+
+  redeliver = asyncHandler(async (req: Request, res: Response) => {
+    const delivery = await webhookService.redeliver(req.params.deliveryId);
+    if (!delivery) {
+      throw new AppError('Webhook delivery not found', 404);
+    }
+
+    res.status(200).json({
+      success: true,
+      data: delivery,
+    });
+  });
+}
@@ -0,0 +1,98 @@
+import { Request, Response } from 'express';
+import { AppError, asyncHandler } from '../middleware/errorHandler';
+import { workspaceService } from '../services/workspaceService';
+import { workspaceBrandingSchema, workspaceMemberSchema, workspaceSchema } from '../utils/validation';
+
+export class WorkspaceController {
+  // Workspaces the user belongs to, with members and the user's role
+  getWorkspaces = asyncHandler(async (req: Request, res: Response) => {
+    const workspaces = await workspaceService.listForUser(req.query.userId as string);
+
+    res.status(200).json({
+      success: true,
+      data: workspaces,
+      count: workspaces.length,
+    });
+  });
+
+  createWorkspace = asyncHandler(async (req: Request, res: Response) => {
+    const { error, value } = workspaceSchema.validate(req.body, { stripUnknown: true });
+    if (error) {
+      throw new AppError(error.details[0].message, 400);
+    }
+
+    const workspace = await workspaceService.create(value.userId, value.name);
+
+    res.status(201).json({
+      success: true,
+      data: workspace,
+    });
+  });
+
+  renameWorkspace = asyncHandler(async (req: Request, res: Response) => {
+    const { error, value } = workspaceSchema.validate(req.body, { stripUnknown: true });
+    if (error) {
+      throw new AppError(error.details[0].message, 400);
+    }
+
+    const workspace = await workspaceService.rename(value.userId, req.params.id, value.name);
+
+    res.status(200).json({
+      success: true,
+      data: workspace,
+    });
+  });
+
+  // Media kit white-label (owners only)
+  updateBranding = asyncHandler(async (req: Request, res: Response) => {
+    const { error, value } = workspaceBrandingSchema.validate(req.body, { stripUnknown: true });
+    if (error) {
+      throw new AppError(error.details[0].message, 400);
+    }
+
+    const { userId, ...branding } = value;
+    const workspace = await workspaceService.updateBranding(userId, req.params.id, branding);
+
+    res.status(200).json({
+      success: true,
+      data: workspace,
+    });
+  });
+
+  deleteWorkspace = asyncHandler(async (req: Request, res: Response) => {
+    await workspaceService.delete(req.query.userId as string, req.params.id);
+
+    res.status(200).json({
+      success: true,
+      message: 'Workspace deleted',
+    });
+  });
+
+  // Add a member by email (or change their role)
+  addMember = asyncHandler(async (req: Request, res: Response) => {
+    const { error, value } = workspaceMemberSchema.validate(req.body, { stripUnknown: true });
+    if (error) {
+      throw new AppError(error.details[0].message, 400);
+    }
+
+    const member = await workspaceService.addMember(value.userId, req.params.id, value.memberId, value.role);
+
+    res.status(200).json({
+      success: true,
+      data: member,
+    });
+  });
+
+  // Remove a member, or leave when memberId is the caller
+  removeMember = asyncHandler(async (req: Request, res: Response) => {
+    const removed = await workspaceService.removeMember(req.query.userId as string, req.params.id, req.params.memberId);
+    if (!removed) {
+      throw new AppError('Member not found', 404);
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Member removed',
+    });
+  });
+}
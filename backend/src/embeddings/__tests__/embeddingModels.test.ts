@@ -0,0 +1,64 @@
+import { httpFixtures } from '../../test/httpFixtures';
+import { ApiEmbeddingModel } from '../apiModel';
+import { LocalHashingModel, tokenize } from '../localModel';
+import { embeddingModels } from '../registry';
+
+const cosine = (a: number[], b: number[]) => a.reduce((sum, v, i) => sum + v * b[i], 0);
+
+describe('embedding models', () => {
+  afterEach(() => {
+    embeddingModels.use(null);
+  });
+
+  describe('LocalHashingModel', () => {
+    const model = new LocalHashingModel();
+
+    it('returns deterministic unit vectors', async () => {
+      const [first] = await model.embed(['Slots and casino every night']);
+      const [again] = await model.embed(['Slots and casino every night']);
+
+      expect(first).toHaveLength(512);
+      expect(again).toEqual(first);
+      expect(cosine(first, first)).toBeCloseTo(1, 6);
+    });
+
+    it('places texts with shared vocabulary closer together', async () => {
+      const [slots, casino, chess] = await model.embed([
+        'Slots, casino bonus hunts and big wins',
+        'Casino streams: slots bonus buys and big wins',
+        'Chess openings, blitz games and puzzle rush',
+      ]);
+
+      expect(cosine(slots, casino)).toBeGreaterThan(cosine(slots, chess) + 0.3);
+    });
+
+    it('ignores accents, case and stopwords', () => {
+      expect(tokenize('Fútbol Y LAS Apuestas para todos')).toEqual(['futbol', 'apuestas']);
+    });
+  });
+
+  describe('ApiEmbeddingModel', () => {
+    it('posts the batch and returns normalized vectors in input order', async () => {
+      httpFixtures.add({
+        method: 'POST',
+        url: 'https://api.openai.com/v1/embeddings',
+        body: { model: 'text-embedding-3-small', input: ['a', 'b'] },
+        data: { data: [{ index: 1, embedding: [0, 2] }, { index: 0, embedding: [3, 4] }] },
+      });
+      const model = new ApiEmbeddingModel({ baseUrl: 'https://api.openai.com/v1', model: 'text-embedding-3-small', apiKey: 'test' });
+
+      await expect(model.embed(['a', 'b'])).resolves.toEqual([[0.6, 0.8], [0, 1]]);
+      expect(model.id).toBe('api.openai.com:text-embedding-3-small');
+    });
+  });
+
+  describe('registry', () => {
+    it('uses the local model in tests and can be swapped', () => {
+      expect(embeddingModels.current().id).toBe('local-hash-512');
+
+      const swapped = new LocalHashingModel(64);
+      embeddingModels.use(swapped);
+      expect(embeddingModels.current()).toBe(swapped);
+    });
+  });
+});
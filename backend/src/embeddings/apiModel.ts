@@ -0,0 +1,55 @@
+import axios from 'axios';
+import { EmbeddingModel } from './types';
+
+/**
+ * Hosted embedding model behind an OpenAI-compatible /embeddings endpoint
+ *
+ * Covers OpenAI, Voyage and self-hosted servers (Ollama, vLLM, TEI) that
+ * speak the same request/response shape - point EMBEDDING_API_URL at them.
+ */
+
+export interface ApiEmbeddingModelOptions {
+  baseUrl: string;   // e.g. https://api.openai.com/v1
+  model: string;     // e.g. text-embedding-3-small
+  apiKey?: string;
+  maxBatchSize?: number;
+  timeoutMs?: number;
+}
+
+interface EmbeddingsResponse {
+  data: Array<{ index: number; embedding: number[] }>;
+}
+
+const normalize = (vector: number[]): number[] => {
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm > 0 ? vector.map(v => v / norm) : vector;
+};
+
+export class ApiEmbeddingModel implements EmbeddingModel {
+  readonly id: string;
+  readonly maxBatchSize: number;
+
+  constructor(private options: ApiEmbeddingModelOptions) {
+    this.id = `${new URL(options.baseUrl).hostname}:${options.model}`;
+    this.maxBatchSize = options.maxBatchSize || 64;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return [];
+
+    const response = await axios.post<EmbeddingsResponse>(
+      `${this.options.baseUrl.replace(/\/$/, '')}/embeddings`,
+      { model: this.options.model, input: texts },
+      {
+        headers: this.options.apiKey ? { Authorization: `Bearer ${this.options.apiKey}` } : {},
+        timeout: this.options.timeoutMs || 30000,
+      }
+    );
+
+    const data = [...response.data.data].sort((a, b) => a.index - b.index);
+    if (data.length !== texts.length) {
+      throw new Error(`Embedding API returned ${data.length} vectors for ${texts.length} texts`);
+    }
+    return data.map(d => normalize(d.embedding));
+  }
+}
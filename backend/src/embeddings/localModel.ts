@@ -0,0 +1,66 @@
+import crypto from 'crypto';
+import { EmbeddingModel } from './types';
+
+/**
+ * Local hashing embedding model
+ *
+ * Feature-hashed bag of words and word bigrams (lowercased, accents stripped,
+ * log-scaled counts), L2-normalized. No network and fully deterministic, so it
+ * runs offline and in tests; it captures shared vocabulary rather than meaning,
+ * which is enough to group creators by games, topics and language.
+ */
+
+const STOPWORDS = new Set([
+  // en
+  'the', 'and', 'for', 'with', 'you', 'are', 'this', 'that', 'from', 'your', 'our', 'all', 'out', 'not',
+  // es
+  'los', 'las', 'del', 'con', 'por', 'para', 'una', 'que', 'sus', 'mas', 'como', 'muy', 'todo', 'todos',
+  // pt
+  'dos', 'das', 'com', 'uma', 'sou', 'nao', 'mais', 'pra', 'meu', 'minha', 'voce',
+]);
+
+export function tokenize(text: string): string[] {
+  return (text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .match(/[\p{L}\p{N}]+/gu) || [])
+    .filter(token => token.length > 1 && !STOPWORDS.has(token));
+}
+
+export class LocalHashingModel implements EmbeddingModel {
+  readonly id: string;
+  readonly maxBatchSize = 256;
+
+  constructor(private dimensions: number = 512) {
+    this.id = `local-hash-${dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.vectorize(text));
+  }
+
+  private vectorize(text: string): number[] {
+    const counts = new Map<string, number>();
+    const tokens = tokenize(text);
+    tokens.forEach((token, i) => {
+      counts.set(token, (counts.get(token) || 0) + 1);
+      if (i > 0) {
+        const bigram = `${tokens[i - 1]} ${token}`;
+        counts.set(bigram, (counts.get(bigram) || 0) + 0.5);
+      }
+    });
+
+    const vector = new Array<number>(this.dimensions).fill(0);
+    for (const [feature, count] of counts) {
+      const hash = crypto.createHash('md5').update(feature).digest();
+      const bucket = hash.readUInt32LE(0) % this.dimensions;
+      // Signed hashing keeps collisions from only ever adding up
+      const sign = hash[4] & 1 ? 1 : -1;
+      vector[bucket] += sign * (1 + Math.log(count));
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return norm > 0 ? vector.map(v => v / norm) : vector;
+  }
+}
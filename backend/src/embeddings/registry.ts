@@ -0,0 +1,53 @@
+import { logger } from '../utils/database';
+import { EmbeddingModel } from './types';
+import { LocalHashingModel } from './localModel';
+import { ApiEmbeddingModel } from './apiModel';
+
+/**
+ * Embedding model selection
+ *
+ *   EMBEDDING_PROVIDER=local  LocalHashingModel (default; offline, used by tests)
+ *   EMBEDDING_PROVIDER=api    ApiEmbeddingModel with EMBEDDING_API_URL
+ *                             (default https://api.openai.com/v1), EMBEDDING_MODEL
+ *                             (default text-embedding-3-small) and EMBEDDING_API_KEY
+ *
+ * Changing the model changes its id, so existing vectors are re-embedded by
+ * the embedding job instead of being compared across models.
+ */
+
+class EmbeddingModelRegistry {
+  private model: EmbeddingModel | null = null;
+
+  current(): EmbeddingModel {
+    if (!this.model) {
+      this.model = this.fromEnv();
+      logger.info(`Embedding model: ${this.model.id}`);
+    }
+    return this.model;
+  }
+
+  /**
+   * Pin a model instead of the EMBEDDING_PROVIDER one; null goes back to it
+   */
+  use(model: EmbeddingModel | null): void {
+    this.model = model;
+  }
+
+  private fromEnv(): EmbeddingModel {
+    const provider = (process.env.EMBEDDING_PROVIDER || 'local').toLowerCase();
+    switch (provider) {
+      case 'local':
+        return new LocalHashingModel();
+      case 'api':
+        return new ApiEmbeddingModel({
+          baseUrl: process.env.EMBEDDING_API_URL || 'https://api.openai.com/v1',
+          model: process.env.EMBEDDING_MODEL || 'text-embedding-3-small',
+          apiKey: process.env.EMBEDDING_API_KEY,
+        });
+      default:
+        throw new Error(`Unknown EMBEDDING_PROVIDER "${provider}" (expected local or api)`);
+    }
+  }
+}
+
+export const embeddingModels = new EmbeddingModelRegistry();
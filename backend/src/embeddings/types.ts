@@ -0,0 +1,20 @@
+/**
+ * Embedding model contract
+ *
+ * Creator similarity only depends on this interface. Which implementation is
+ * active comes from embeddings/registry.ts (EMBEDDING_PROVIDER), so the model
+ * can be swapped - hosted API in production, the local hashing model offline
+ * and in tests - without touching the similarity code.
+ */
+
+export interface EmbeddingModel {
+  // Stable id stored next to every vector; vectors are only compared within one id
+  readonly id: string;
+  // Largest number of texts per embed() call
+  readonly maxBatchSize: number;
+
+  /**
+   * One L2-normalized vector per input text, in input order
+   */
+  embed(texts: string[]): Promise<number[][]>;
+}
@@ -34,7 +34,6 @@ import { csvSyncStrict } from './utils/csvSyncStrict';
 import { chatRoutes } from './routes/chat';
 import { adminRoutes } from './routes/admin';
 import enrichmentRoutes from './routes/enrichmentRoutes';
-import { dbViewerRoutes } from './routes/dbviewer';
 import { adminPanelRoutes } from './routes/adminPanel';
 import { bootstrapAdminUser } from './utils/bootstrapAdmin';
 import { backfillAvatars } from './utils/avatarBackfill';
@@ -48,6 +47,13 @@ import { avatarBackfillJob } from './jobs/avatarBackfillJob';
 import { influencerSyncJob } from './jobs/influencerSyncJob';
 import { linkedinEnrichJob, enrichLinkedInProfiles } from './jobs/linkedinEnrichJob';
 import { socialSyncJob } from './jobs/socialSync';
+import { streamSessionJob, viewerPollCleanupJob } from './jobs/streamSessionJob';
+import { webhookDeliveryJob, newCreatorWebhookJob } from './jobs/webhookJob';
+import { webhookService } from './services/webhookService';
+import { savedSearchAlertJob } from './jobs/savedSearchAlertJob';
+import { creatorEmbeddingJob } from './jobs/embeddingJob';
+import { contactDiscoveryJob } from './jobs/contactJob';
+import { outreachEmailJob } from './jobs/outreachEmailJob';
 import { twitchExtractionJob, kickExtractionJob, youtubeExtractionJob } from './jobs/socialExtractionJob';
 import { performanceSyncRoutes } from './routes/performanceSync';
 import { discoveryRoutes } from './routes/discovery';
@@ -55,9 +61,19 @@ import { favoritesRoutes } from './routes/favorites';
 import { discardsRoutes } from './routes/discards';
 import { notesRoutes } from './routes/notes';
 import { shortlistRoutes } from './routes/shortlists';
+import { workspaceRoutes } from './routes/workspaces';
+import { shortlistLinkRoutes } from './routes/shortlistLinks';
+import { mediaKitRoutes } from './routes/mediaKits';
 import { accessRoutes } from './routes/access';
-import { influencerSyncRoutes } from './routes/influencerSync';
+import { webhookRoutes } from './routes/webhooks';
+import { savedSearchRoutes } from './routes/savedSearches';
+import { metaRoutes } from './routes/meta';
+import { rateRoutes } from './routes/rates';
+import { contactRoutes } from './routes/contacts';
+import { outreachRoutes } from './routes/outreach';
+import { outreachEmailRoutes } from './routes/outreachEmail';
 import { influencerSyncService } from './services/influencerSyncService';
+import { cacheService } from './services/cacheService';
 
 // Define allowed origins before creating server/socket
 const allowedOrigins = new Set([
@@ -129,6 +145,8 @@ app.use(cors({
     return callback(new Error(`CORS not allowed for origin: ${origin}`), false);
   },
   credentials: true,
+  // Lets the frontend name downloaded files (media kit PDFs)
+  exposedHeaders: ['Content-Disposition'],
 }));
 
 app.use(morgan('combined'));
@@ -182,33 +200,6 @@ app.get('/', (req, res) => {
   });
 });
 
-// Manual seed trigger (temporary)
-app.post('/seed-now', async (req, res) => {
-  try {
-    const { seedFromCsvIfEmpty } = await import('./utils/seedFromCsv');
-    logger.info('🌱 Manual seed triggered via /seed-now endpoint');
-    const result = await seedFromCsvIfEmpty();
-    logger.info(`🌱 Manual seed result: ${JSON.stringify(result)}`);
-    res.json({ success: true, result });
-  } catch (error: any) {
-    logger.error('🌱 Manual seed error:', { message: error?.message, stack: error?.stack });
-    res.status(500).json({ success: false, error: error?.message });
-  }
-});
-
-// Manual live status sync trigger (temporary)
-app.post('/sync-live', async (req, res) => {
-  try {
-    logger.info('🔴 Manual live status sync triggered');
-    const result = await liveStatusService.updateStreamersLiveStatus(500, 100);
-    logger.info(`🔴 Live status sync result: ${JSON.stringify(result)}`);
-    res.json({ success: true, result });
-  } catch (error: any) {
-    logger.error('🔴 Live status sync error:', { message: error?.message, stack: error?.stack });
-    res.status(500).json({ success: false, error: error?.message });
-  }
-});
-
 // API Routes
 app.use('/api/auth', authRoutes);
 app.use('/api/streamers', streamerRoutes);
@@ -222,10 +213,18 @@ app.use('/api/favorites', favoritesRoutes);
 app.use('/api/discards', discardsRoutes);
 app.use('/api/notes', notesRoutes);
 app.use('/api/shortlists', shortlistRoutes);
+app.use('/api/workspaces', workspaceRoutes);
+app.use('/api/media-kits', mediaKitRoutes);
 app.use('/api/access', accessRoutes);
-app.use('/api/influencer-sync', influencerSyncRoutes);
-app.use('/dbviewer', dbViewerRoutes);
+app.use('/api/webhooks', webhookRoutes);
+app.use('/api/saved-searches', savedSearchRoutes);
+app.use('/api/meta', metaRoutes);
+app.use('/api/rates', rateRoutes);
+app.use('/api/contacts', contactRoutes);
+app.use('/api/outreach', outreachRoutes);
+app.use('/api/outreach-email', outreachEmailRoutes);
 app.use('/admin-panel', adminPanelRoutes);
+app.use('/share', shortlistLinkRoutes);
 
 // Socket.IO setup with SocketService
 export const socketService = new SocketService(io);
@@ -284,6 +283,9 @@ server.listen(PORT, () => {
     logger.info(`🧪 Health check: http://localhost:${PORT}/health`);
   }
 
+  // Shared cache (rate limits, dedup sets, tokens, responses); falls back to memory without Redis
+  cacheService.connect();
+
   // Start live status updates (cron job also runs for redundancy)
   //startLiveStatusUpdates();
   // Optional startup data tasks (can be disabled in Render via env)
@@ -355,6 +357,15 @@ server.listen(PORT, () => {
   influencerSyncJob.start();
   linkedinEnrichJob.start();
   socialSyncJob.start();
+  streamSessionJob.start();
+  viewerPollCleanupJob.start();
+  webhookService.installFraudCheckHook();
+  webhookDeliveryJob.start();
+  newCreatorWebhookJob.start();
+  savedSearchAlertJob.start();
+  creatorEmbeddingJob.start();
+  contactDiscoveryJob.start();
+  outreachEmailJob.start();
 
   // Social extraction jobs - extract social links from existing profiles
   twitchExtractionJob.start();
@@ -367,6 +378,10 @@ server.listen(PORT, () => {
   logger.info('✅ Influencer sync: every 5 minutes');
   logger.info('✅ LinkedIn enrich: every 5 minutes');
   logger.info('✅ Social sync queue: every 10 minutes (TikTok, IG, X, FB, LinkedIn)');
+  logger.info('✅ Stream sessions: every 30 minutes (viewer poll cleanup daily)');
+  logger.info('✅ Webhooks: deliveries every minute, new creator scan every 5 minutes');
+  logger.info('✅ Saved search alerts: hourly');
+  logger.info('✅ Creator embeddings: hourly (new and changed creators)');
   logger.info('✅ Social extraction: Twitch/Kick every 2h (YouTube disabled - not on free API)');
   
 });
@@ -378,6 +393,7 @@ process.on('SIGTERM', async () => {
     clearInterval(liveStatusInterval);
     logger.info('Live status scheduler stopped.');
   }
+  await cacheService.disconnect();
   server.close(() => {
     logger.info('HTTP server closed.');
     process.exit(0);
@@ -390,6 +406,7 @@ process.on('SIGINT', async () => {
     clearInterval(liveStatusInterval);
     logger.info('Live status scheduler stopped.');
   }
+  await cacheService.disconnect();
   server.close(() => {
     logger.info('HTTP server closed.');
     process.exit(0);
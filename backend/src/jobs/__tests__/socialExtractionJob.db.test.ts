@@ -0,0 +1,45 @@
+import { Platform } from '@prisma/client';
+import { db } from '../../utils/database';
+import { httpFixtures } from '../../test/httpFixtures';
+import { createTestStreamer } from '../../test/testDatabase';
+import { extractTwitchSocialLinks } from '../socialExtractionJob';
+
+describe('socialExtractionJob (db)', () => {
+  beforeEach(() => {
+    httpFixtures.use('twitch-gql');
+  });
+
+  it('stores Twitch panel links and queues handles on ScrapeCreators platforms', async () => {
+    const streamer = await createTestStreamer({ platform: Platform.TWITCH, username: 'elxokas', followers: 3700000 });
+    // Already has links: skipped
+    await createTestStreamer({ platform: Platform.TWITCH, username: 'ibai', socialLinks: ['https://x.com/ibai'] });
+
+    const result = await extractTwitchSocialLinks(10);
+
+    expect(result).toEqual({ processed: 1, updated: 1, handlesAdded: 2 });
+    expect(httpFixtures.requestsTo('https://gql.twitch.tv/gql')).toHaveLength(1);
+
+    const updated = await db.streamer.findUniqueOrThrow({ where: { id: streamer.id } });
+    expect(updated.socialLinks).toEqual([
+      'https://www.instagram.com/elxokas/',
+      'https://twitter.com/elxokas',
+      'https://www.youtube.com/@elxokas',
+      'https://discord.gg/elxokas',
+    ]);
+    expect(updated.profileDescription).toBe('Streamer de Valladolid. Negocios: negocios@elxokas.com');
+
+    // YouTube is enriched by its own job and discord isn't tracked
+    const queued = await db.socialSyncQueue.findMany({ orderBy: { platform: 'asc' } });
+    expect(queued.map(q => [q.platform, q.username, q.status])).toEqual([
+      [Platform.INSTAGRAM, 'elxokas', 'PENDING'],
+      [Platform.X, 'elxokas', 'PENDING'],
+    ]);
+  });
+
+  it('marks profiles the platform cannot read as checked', async () => {
+    const streamer = await createTestStreamer({ platform: Platform.TWITCH, username: 'doesnotexist_404' });
+
+    await expect(extractTwitchSocialLinks(10)).resolves.toEqual({ processed: 1, updated: 0, handlesAdded: 0 });
+    await expect(db.streamer.findUniqueOrThrow({ where: { id: streamer.id } })).resolves.toMatchObject({ socialLinks: [] });
+  });
+});
@@ -0,0 +1,16 @@
+import cron from 'node-cron';
+import { contactService } from '../services/contactService';
+
+// Every hour at :25 - extract contacts from newly enriched profiles and re-check stale ones
+export const contactDiscoveryJob = cron.schedule('25 * * * *', async () => {
+  console.log('📇 [CRON] Updating creator contacts...');
+  try {
+    const scan = await contactService.discoverPending(200);
+    const rechecked = await contactService.reverifyStale(200);
+    console.log(`✅ [CRON] Contacts: ${scan.creators} creators scanned, ${scan.contacts} contacts, ${rechecked} re-checked`);
+  } catch (error) {
+    console.error('❌ [CRON] Contact update failed:', error);
+  }
+}, {
+  scheduled: false
+});
@@ -10,33 +10,9 @@
 import { db, logger } from '../utils/database';
 import { Platform, Region } from '@prisma/client';
 import { dedupCache, ensureDedupCache } from '../utils/discoveryDeduplication';
+import { cacheService } from '../services/cacheService';
 import { inferCategory } from '../utils/categoryMapper';
-import { getConfig } from '../utils/configFromDb';
-
-// Twitch API config - loaded from env or database
-let TWITCH_CLIENT_ID: string | null = process.env.TWITCH_CLIENT_ID || null;
-let TWITCH_CLIENT_SECRET: string | null = process.env.TWITCH_CLIENT_SECRET || null;
-let twitchCredsLoaded = !!(TWITCH_CLIENT_ID && TWITCH_CLIENT_SECRET);
-
-async function ensureTwitchCreds(): Promise<boolean> {
-  if (twitchCredsLoaded) return true;
-
-  TWITCH_CLIENT_ID = await getConfig('TWITCH_CLIENT_ID');
-  TWITCH_CLIENT_SECRET = await getConfig('TWITCH_CLIENT_SECRET');
-
-  if (TWITCH_CLIENT_ID && TWITCH_CLIENT_SECRET) {
-    twitchCredsLoaded = true;
-    logger.info('Loaded Twitch credentials from database config');
-    return true;
-  }
-
-  logger.error('Twitch credentials not found in env or database');
-  return false;
-}
-const TWITCH_API = 'https://api.twitch.tv/helix';
-
-// Kick API config
-const KICK_API = 'https://kick.com/api/v2';
+import { platformRegistry } from '../platforms/registry';
 
 // Categories to discover creators from (Twitch category IDs)
 const DISCOVERY_CATEGORIES = {
@@ -83,164 +59,73 @@ const DISCOVERY_CATEGORIES = {
   ],
 };
 
-let twitchAccessToken: string | null = null;
-let tokenExpiry: number = 0;
-
-/**
- * Get Twitch access token
- */
-async function getTwitchToken(): Promise<string | null> {
-  if (twitchAccessToken && Date.now() < tokenExpiry) {
-    return twitchAccessToken;
-  }
-
-  // Ensure credentials are loaded from env or database
-  if (!await ensureTwitchCreds()) {
-    logger.warn('Twitch credentials not configured');
-    return null;
-  }
-
-  try {
-    const response = await fetch('https://id.twitch.tv/oauth2/token', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
-      body: new URLSearchParams({
-        client_id: TWITCH_CLIENT_ID!,
-        client_secret: TWITCH_CLIENT_SECRET!,
-        grant_type: 'client_credentials',
-      }),
-    });
-
-    if (response.ok) {
-      const data: any = await response.json();
-      twitchAccessToken = data.access_token;
-      tokenExpiry = Date.now() + (data.expires_in - 300) * 1000; // 5 min buffer
-      return twitchAccessToken;
-    }
-  } catch (error) {
-    logger.error('Failed to get Twitch token:', error);
-  }
-  return null;
-}
+// Creators enriched with a follower lookup per Twitch category (2 API calls each)
+const TWITCH_FOLLOWER_LOOKUPS = 20;
 
 /**
- * Discover streamers from a Twitch category using Helix API
+ * Discover streamers from a Twitch category through the platform adapter
  */
 async function discoverTwitchCategory(
   categoryId: string,
   categoryName: string,
   limit: number = 100
 ): Promise<number> {
-  const token = await getTwitchToken();
-  if (!token || !TWITCH_CLIENT_ID) return 0;
+  const adapter = platformRegistry.get(Platform.TWITCH);
 
   try {
-    // Get live streams in category
-    const response = await fetch(
-      `${TWITCH_API}/streams?game_id=${categoryId}&first=${Math.min(limit, 100)}`,
-      {
-        headers: {
-          'Client-ID': TWITCH_CLIENT_ID,
-          'Authorization': `Bearer ${token}`,
-        },
-      }
-    );
-
-    if (!response.ok) {
-      logger.error(`Twitch API error for ${categoryName}: ${response.status}`);
-      return 0;
-    }
-
-    const data: any = await response.json();
-    const streams = data.data || [];
-
+    const streams = await adapter.discover({ category: categoryId, limit });
     if (streams.length === 0) return 0;
 
-    // Get user details for all streamers
-    const userIds = streams.map((s: any) => s.user_id);
-    const usersResponse = await fetch(
-      `${TWITCH_API}/users?id=${userIds.join('&id=')}`,
-      {
-        headers: {
-          'Client-ID': TWITCH_CLIENT_ID,
-          'Authorization': `Bearer ${token}`,
-        },
-      }
-    );
-
-    const usersData: any = await usersResponse.json();
-    const users = usersData.data || [];
-    const userMap = new Map(users.map((u: any) => [u.id, u]));
-
-    // Get follower counts
-    const followersMap = new Map<string, number>();
-    for (const userId of userIds.slice(0, 20)) { // Limit to avoid rate limits
-      try {
-        const followResponse = await fetch(
-          `${TWITCH_API}/channels/followers?broadcaster_id=${userId}&first=1`,
-          {
-            headers: {
-              'Client-ID': TWITCH_CLIENT_ID,
-              'Authorization': `Bearer ${token}`,
-            },
-          }
-        );
-        if (followResponse.ok) {
-          const followData: any = await followResponse.json();
-          followersMap.set(userId, followData.total || 0);
-        }
-      } catch (e) {
-        // Skip follower count on error
-      }
-    }
-
     let created = 0;
+    let followerLookups = 0;
 
     for (const stream of streams) {
-      const user: any = userMap.get(stream.user_id);
-      if (!user) continue;
-
-      const username = (user.login || '').toLowerCase();
-
       // Check if already exists
       const existing = await db.streamer.findUnique({
         where: {
           platform_username: {
             platform: Platform.TWITCH,
-            username,
+            username: stream.username,
           },
         },
       });
 
       if (existing) continue; // Skip existing
 
+      // Limit follower lookups to avoid rate limits
+      let followers = 0;
+      if (followerLookups < TWITCH_FOLLOWER_LOOKUPS) {
+        followerLookups++;
+        followers = (await adapter.fetchProfile(stream.username))?.followers || 0;
+      }
+
       // Determine region from language
       const langToRegion: Record<string, Region> = {
         en: Region.USA, es: Region.MEXICO, pt: Region.BRAZIL, de: Region.GERMANY, fr: Region.FRANCE,
         it: Region.ITALY, ru: Region.RUSSIA, ja: Region.JAPAN, ko: Region.KOREA, zh: Region.CHINA,
       };
-      const region = langToRegion[stream.language] || Region.OTHER;
+      const region = langToRegion[stream.language || ''] || Region.OTHER;
 
       try {
         await db.streamer.create({
           data: {
             platform: Platform.TWITCH,
-            username,
-            displayName: user.display_name,
-            profileUrl: `https://twitch.tv/${username}`,
-            avatarUrl: user.profile_image_url,
-            followers: followersMap.get(stream.user_id) || 0,
-            currentViewers: stream.viewer_count,
+            username: stream.username,
+            displayName: stream.displayName,
+            profileUrl: stream.profileUrl,
+            avatarUrl: stream.avatarUrl,
+            followers,
+            currentViewers: stream.currentViewers,
             isLive: true,
-            currentGame: stream.game_name,
+            currentGame: stream.currentGame,
             language: stream.language || 'en',
             region,
             tags: stream.tags || [],
             socialLinks: [],
-            streamTitles: [{
+            streamTitles: stream.title ? [{
               title: stream.title,
               date: new Date().toISOString(),
-            }],
+            }] : [],
             lastSeenLive: new Date(),
           },
         });
@@ -259,132 +144,72 @@ async function discoverTwitchCategory(
 }
 
 /**
- * Discover streamers from Kick categories with pagination
+ * Discover streamers from a Kick category through the platform adapter
  */
 async function discoverKickCategory(
   categorySlug: string,
   categoryName: string,
   maxStreamers: number = 200
 ): Promise<number> {
-  let totalCreated = 0;
-  const pageSize = 50;
-  const maxPages = Math.ceil(maxStreamers / pageSize);
-
-  for (let page = 1; page <= maxPages; page++) {
-    try {
-      // Try primary endpoint first
-      let response = await fetch(
-        `${KICK_API}/channels?category=${categorySlug}&sort=viewers&limit=${pageSize}&page=${page}`,
-        {
-          headers: {
-            'Accept': 'application/json',
-            'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-          },
-        }
-      );
+  let created = 0;
 
-      // Fallback to alternative endpoint
-      if (!response.ok) {
-        response = await fetch(
-          `https://kick.com/api/v1/subcategories/${categorySlug}/livestreams?page=${page}&limit=${pageSize}`,
-          {
-            headers: {
-              'Accept': 'application/json',
-              'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-            },
-          }
-        );
-
-        if (!response.ok) {
-          if (page === 1) {
-            logger.warn(`Kick API unavailable for ${categoryName}`);
-          }
-          break;
-        }
-      }
+  try {
+    const streams = await platformRegistry.get(Platform.KICK).discover({ category: categorySlug, limit: maxStreamers });
 
-      const data: any = await response.json();
-      const streams = data.data || data || [];
+    for (const stream of streams) {
+      // Quick check against dedup cache (much faster than DB query)
+      if (await dedupCache.exists(Platform.KICK, stream.username)) {
+        continue;
+      }
 
-      if (streams.length === 0) break;
+      // Quality filter - minimum 200 followers
+      if (stream.followers < 200) continue;
 
-      const created = await processKickStreams(streams, categoryName);
-      totalCreated += created;
+      try {
+        const gameName = stream.currentGame || categoryName;
+        const category = inferCategory(gameName, [], []);
 
-      // If we got fewer results than requested, no more pages
-      if (streams.length < pageSize) break;
+        await db.streamer.create({
+          data: {
+            platform: Platform.KICK,
+            username: stream.username,
+            displayName: stream.displayName,
+            profileUrl: stream.profileUrl,
+            avatarUrl: stream.avatarUrl,
+            followers: stream.followers,
+            currentViewers: stream.currentViewers || 0,
+            isLive: true,
+            currentGame: gameName,
+            language: stream.language || 'en',
+            region: Region.OTHER,
+            tags: [],
+            primaryCategory: category,
+            inferredCategory: category,
+            inferredCategorySource: 'KICK',
+            discoveredVia: `kick:category:${categoryName.toLowerCase().replace(/\s+/g, '-')}`,
+            socialLinks: [],
+            streamTitles: stream.title ? [{
+              title: stream.title,
+              date: new Date().toISOString(),
+            }] : [],
+            lastSeenLive: new Date(),
+          },
+        });
 
-      // Rate limit delay between pages
-      await new Promise(r => setTimeout(r, 1500));
-    } catch (error) {
-      logger.error(`Error discovering Kick ${categoryName} page ${page}:`, error);
-      break;
+        // Add to cache
+        await dedupCache.add(Platform.KICK, stream.username);
+        created++;
+      } catch (error) {
+        // Skip on error (likely duplicate)
+      }
     }
+  } catch (error) {
+    logger.error(`Error discovering Kick ${categoryName}:`, error);
   }
 
-  if (totalCreated > 0) {
-    logger.info(`Discovered ${totalCreated} new Kick streamers from ${categoryName}`);
-  }
-  return totalCreated;
-}
-
-async function processKickStreams(streams: any[], categoryName: string): Promise<number> {
-  let created = 0;
-
-  for (const stream of streams) {
-    const channel = stream.channel || stream;
-    const username = (channel.slug || channel.username || '').toLowerCase();
-
-    if (!username) continue;
-
-    // Quick check against dedup cache (much faster than DB query)
-    if (dedupCache.isInitialized() && dedupCache.exists(Platform.KICK, username)) {
-      continue;
-    }
-
-    // Quality filter - minimum 200 followers
-    const followers = channel.followers_count || channel.followersCount || 0;
-    if (followers < 200) continue;
-
-    try {
-      const gameName = stream.category?.name || categoryName;
-      const category = inferCategory(gameName, [], []);
-
-      await db.streamer.create({
-        data: {
-          platform: Platform.KICK,
-          username,
-          displayName: channel.user?.username || username,
-          profileUrl: `https://kick.com/${username}`,
-          avatarUrl: channel.user?.profile_pic || channel.thumbnail?.url,
-          followers,
-          currentViewers: stream.viewer_count || stream.viewers || 0,
-          isLive: true,
-          currentGame: gameName,
-          language: channel.language || 'en',
-          region: Region.OTHER,
-          tags: [],
-          primaryCategory: category,
-          inferredCategory: category,
-          inferredCategorySource: 'KICK',
-          discoveredVia: `kick:category:${categoryName.toLowerCase().replace(/\s+/g, '-')}`,
-          socialLinks: [],
-          streamTitles: stream.session_title ? [{
-            title: stream.session_title,
-            date: new Date().toISOString(),
-          }] : [],
-          lastSeenLive: new Date(),
-        },
-      });
-
-      // Add to cache
-      dedupCache.add(Platform.KICK, username);
-      created++;
-    } catch (error) {
-      // Skip on error (likely duplicate)
-    }
+  if (created > 0) {
+    logger.info(`Discovered ${created} new Kick streamers from ${categoryName}`);
   }
-
   return created;
 }
 
@@ -451,6 +276,8 @@ export async function runDiscovery(options: {
     }
   }
 
+  if (results.totalDiscovered > 0) await cacheService.invalidateCreators();
+
   logger.info('Discovery job complete', results);
   return results;
 }
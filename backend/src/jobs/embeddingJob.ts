@@ -0,0 +1,15 @@
+import cron from 'node-cron';
+import { creatorEmbeddingService } from '../services/creatorEmbeddingService';
+
+// Every hour at :40 - embed new creators and re-embed ones whose content changed (or after a model swap)
+export const creatorEmbeddingJob = cron.schedule('40 * * * *', async () => {
+  console.log('🧭 [CRON] Updating creator embeddings...');
+  try {
+    const result = await creatorEmbeddingService.embedPending(1000);
+    console.log(`✅ [CRON] Creator embeddings: ${result.embedded} embedded, ${result.unchanged} unchanged, ${result.skipped} skipped`);
+  } catch (error) {
+    console.error('❌ [CRON] Creator embedding update failed:', error);
+  }
+}, {
+  scheduled: false
+});
@@ -11,15 +11,9 @@ import { db, logger } from '../utils/database';
 import { Platform, Region } from '@prisma/client';
 import { dedupCache, ensureDedupCache } from '../utils/discoveryDeduplication';
 import { inferCategory } from '../utils/categoryMapper';
-
-// Twitch API config
-const TWITCH_CLIENT_ID = process.env.TWITCH_CLIENT_ID;
-const TWITCH_CLIENT_SECRET = process.env.TWITCH_CLIENT_SECRET;
-const TWITCH_API = 'https://api.twitch.tv/helix';
-
-// Token management
-let twitchAccessToken: string | null = null;
-let tokenExpiry = 0;
+import { cacheService } from '../services/cacheService';
+import { platformRegistry } from '../platforms/registry';
+import { DiscoveredCreator } from '../platforms/types';
 
 // Quality thresholds
 const MIN_FOLLOWERS = 500;
@@ -122,136 +116,28 @@ const LANG_TO_REGION: Record<string, Region> = {
   ar: Region.OTHER,
 };
 
-/**
- * Get Twitch OAuth token
- */
-async function getTwitchToken(): Promise<string | null> {
-  if (twitchAccessToken && Date.now() < tokenExpiry) {
-    return twitchAccessToken;
-  }
-
-  if (!TWITCH_CLIENT_ID || !TWITCH_CLIENT_SECRET) {
-    logger.warn('Twitch credentials not configured');
-    return null;
-  }
-
-  try {
-    const response = await fetch('https://id.twitch.tv/oauth2/token', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
-      body: new URLSearchParams({
-        client_id: TWITCH_CLIENT_ID,
-        client_secret: TWITCH_CLIENT_SECRET,
-        grant_type: 'client_credentials',
-      }),
-    });
-
-    if (response.ok) {
-      const data: any = await response.json();
-      twitchAccessToken = data.access_token;
-      tokenExpiry = Date.now() + (data.expires_in - 300) * 1000;
-      return twitchAccessToken;
-    }
-
-    logger.error(`Failed to get Twitch token: ${response.status}`);
-  } catch (error) {
-    logger.error('Twitch token error:', error);
-  }
-  return null;
-}
-
-/**
- * Twitch API request helper
- */
-async function twitchApi(endpoint: string): Promise<any> {
-  const token = await getTwitchToken();
-  if (!token || !TWITCH_CLIENT_ID) return null;
-
-  const response = await fetch(`${TWITCH_API}${endpoint}`, {
-    headers: {
-      'Client-ID': TWITCH_CLIENT_ID,
-      'Authorization': `Bearer ${token}`,
-    },
-  });
-
-  if (!response.ok) {
-    logger.error(`Twitch API error: ${response.status} for ${endpoint}`);
-    return null;
-  }
-
-  return response.json();
-}
-
-interface DiscoveredStreamer {
+interface DiscoveredStreamer extends DiscoveredCreator {
   userId: string;
-  username: string;
-  displayName: string;
-  profileUrl: string;
-  avatarUrl?: string;
-  followers: number;
-  currentViewers: number;
-  currentGame?: string;
-  language: string;
-  tags: string[];
-  streamTitle?: string;
 }
 
+const toStreamer = (creator: DiscoveredCreator): DiscoveredStreamer => ({ ...creator, userId: creator.externalId || creator.username });
+
 /**
- * Discover streamers from a category with pagination
+ * Discover live streamers from a category (the adapter pages through /streams)
  */
 async function discoverCategoryPaginated(
   categoryId: string,
   categoryName: string,
   maxStreamers: number = 500
 ): Promise<DiscoveredStreamer[]> {
-  const discovered: DiscoveredStreamer[] = [];
-  let cursor: string | null = null;
-  let attempts = 0;
-  const maxAttempts = Math.ceil(maxStreamers / 100);
-
-  while (discovered.length < maxStreamers && attempts < maxAttempts) {
-    attempts++;
-
-    const endpoint = `/streams?game_id=${categoryId}&first=100${cursor ? `&after=${cursor}` : ''}`;
-    const data = await twitchApi(endpoint);
-
-    if (!data?.data?.length) break;
-
-    const streams = data.data;
-    cursor = data.pagination?.cursor || null;
-
-    // Get user details for all streams
-    const userIds = streams.map((s: any) => s.user_id);
-    const usersData = await twitchApi(`/users?id=${userIds.join('&id=')}`);
-    const userMap = new Map((usersData?.data || []).map((u: any) => [u.id, u]));
-
-    for (const stream of streams) {
-      const user: any = userMap.get(stream.user_id);
-      if (!user) continue;
-
-      discovered.push({
-        userId: stream.user_id,
-        username: user.login.toLowerCase(),
-        displayName: user.display_name,
-        profileUrl: `https://twitch.tv/${user.login}`,
-        avatarUrl: user.profile_image_url,
-        followers: 0, // Will be fetched in bulk later
-        currentViewers: stream.viewer_count,
-        currentGame: stream.game_name,
-        language: stream.language || 'en',
-        tags: stream.tags || [],
-        streamTitle: stream.title,
-      });
-    }
-
-    if (!cursor) break;
-
-    // Rate limit delay
-    await new Promise(r => setTimeout(r, 100));
+  try {
+    const discovered = await platformRegistry.get(Platform.TWITCH).discover({ category: categoryId, limit: maxStreamers });
+    logger.debug(`Found ${discovered.length} streamers in ${categoryName}`);
+    return discovered.map(toStreamer);
+  } catch (error: any) {
+    logger.error(`Twitch category discovery failed for ${categoryName}`, { message: error?.message });
+    return [];
   }
-
-  logger.debug(`Found ${discovered.length} streamers in ${categoryName}`);
-  return discovered;
 }
 
 /**
@@ -261,62 +147,29 @@ async function discoverBySearch(
   keyword: string,
   maxResults: number = 100
 ): Promise<DiscoveredStreamer[]> {
-  const discovered: DiscoveredStreamer[] = [];
-  let cursor: string | null = null;
-  let attempts = 0;
-  const maxAttempts = Math.ceil(maxResults / 20);
-
-  while (discovered.length < maxResults && attempts < maxAttempts) {
-    attempts++;
-
-    const endpoint = `/search/channels?query=${encodeURIComponent(keyword)}&first=20${cursor ? `&after=${cursor}` : ''}`;
-    const data = await twitchApi(endpoint);
-
-    if (!data?.data?.length) break;
-
-    for (const channel of data.data) {
-      discovered.push({
-        userId: channel.id,
-        username: channel.broadcaster_login.toLowerCase(),
-        displayName: channel.display_name,
-        profileUrl: `https://twitch.tv/${channel.broadcaster_login}`,
-        avatarUrl: channel.thumbnail_url,
-        followers: 0,
-        currentViewers: 0,
-        currentGame: channel.game_name,
-        language: channel.broadcaster_language || 'en',
-        tags: channel.tags || [],
-      });
-    }
-
-    cursor = data.pagination?.cursor || null;
-    if (!cursor) break;
-
-    await new Promise(r => setTimeout(r, 100));
+  try {
+    const discovered = await platformRegistry.get(Platform.TWITCH).discover({ query: keyword, limit: maxResults });
+    return discovered.map(toStreamer);
+  } catch (error: any) {
+    logger.error(`Twitch search discovery failed for "${keyword}"`, { message: error?.message });
+    return [];
   }
-
-  return discovered;
 }
 
 /**
- * Get follower counts in batch
+ * Get follower counts, keyed by user id (one profile lookup per streamer)
  */
-async function getFollowerCounts(userIds: string[]): Promise<Map<string, number>> {
+async function getFollowerCounts(streamers: DiscoveredStreamer[]): Promise<Map<string, number>> {
+  const adapter = platformRegistry.get(Platform.TWITCH);
   const followerMap = new Map<string, number>();
 
   // Twitch doesn't support batch follower queries, so we limit to top streamers
-  const limitedIds = userIds.slice(0, 50);
-
-  for (const userId of limitedIds) {
-    try {
-      const data = await twitchApi(`/channels/followers?broadcaster_id=${userId}&first=1`);
-      if (data?.total !== undefined) {
-        followerMap.set(userId, data.total);
-      }
-      await new Promise(r => setTimeout(r, 50)); // Rate limit
-    } catch (error) {
-      // Skip on error
+  for (const streamer of streamers.slice(0, 50)) {
+    const profile = await adapter.fetchProfile(streamer.username);
+    if (profile) {
+      followerMap.set(streamer.userId, profile.followers);
     }
+    await new Promise(r => setTimeout(r, adapter.rateLimit.minIntervalMs));
   }
 
   return followerMap;
@@ -333,21 +186,25 @@ async function saveStreamers(
   let skipped = 0;
 
   for (const streamer of streamers) {
+    const currentViewers = streamer.currentViewers ?? 0;
+    const language = streamer.language || 'en';
+    const tags = streamer.tags || [];
+
     // Skip if already in cache
-    if (dedupCache.exists(Platform.TWITCH, streamer.username)) {
+    if (await dedupCache.exists(Platform.TWITCH, streamer.username)) {
       skipped++;
       continue;
     }
 
     // Quality filter
-    if (streamer.followers < MIN_FOLLOWERS && streamer.currentViewers < MIN_VIEWERS) {
+    if (streamer.followers < MIN_FOLLOWERS && currentViewers < MIN_VIEWERS) {
       skipped++;
       continue;
     }
 
     try {
-      const region = LANG_TO_REGION[streamer.language] || Region.OTHER;
-      const category = inferCategory(streamer.currentGame, [], streamer.tags);
+      const region = LANG_TO_REGION[language] || Region.OTHER;
+      const category = inferCategory(streamer.currentGame, [], tags);
 
       await db.streamer.create({
         data: {
@@ -357,27 +214,27 @@ async function saveStreamers(
           profileUrl: streamer.profileUrl,
           avatarUrl: streamer.avatarUrl,
           followers: streamer.followers,
-          currentViewers: streamer.currentViewers,
-          isLive: streamer.currentViewers > 0,
+          currentViewers,
+          isLive: currentViewers > 0,
           currentGame: streamer.currentGame,
-          language: streamer.language,
+          language,
           region,
-          tags: streamer.tags,
+          tags,
           primaryCategory: category,
           inferredCategory: category,
           inferredCategorySource: 'TWITCH',
           discoveredVia: source,
           socialLinks: [],
-          streamTitles: streamer.streamTitle ? [{
-            title: streamer.streamTitle,
+          streamTitles: streamer.title ? [{
+            title: streamer.title,
             date: new Date().toISOString(),
           }] : [],
-          lastSeenLive: streamer.currentViewers > 0 ? new Date() : undefined,
+          lastSeenLive: currentViewers > 0 ? new Date() : undefined,
         },
       });
 
       // Add to cache
-      dedupCache.add(Platform.TWITCH, streamer.username);
+      await dedupCache.add(Platform.TWITCH, streamer.username);
       created++;
     } catch (error) {
       // Likely duplicate
@@ -385,6 +242,7 @@ async function saveStreamers(
     }
   }
 
+  if (created > 0) await cacheService.invalidateCreators();
   return { created, skipped };
 }
 
@@ -434,12 +292,12 @@ export async function runEnhancedTwitchDiscovery(options: {
     );
 
     // Filter to new only
-    const newStreamers = dedupCache.filterNew(Platform.TWITCH, streamers);
+    const newStreamers = await dedupCache.filterNew(Platform.TWITCH, streamers);
 
     if (newStreamers.length > 0) {
       // Get follower counts for top viewers
-      const sortedByViewers = newStreamers.sort((a, b) => b.currentViewers - a.currentViewers);
-      const followerCounts = await getFollowerCounts(sortedByViewers.slice(0, 30).map(s => s.userId));
+      const sortedByViewers = newStreamers.sort((a, b) => (b.currentViewers ?? 0) - (a.currentViewers ?? 0));
+      const followerCounts = await getFollowerCounts(sortedByViewers.slice(0, 30));
 
       for (const s of newStreamers) {
         s.followers = followerCounts.get(s.userId) || 0;
@@ -464,7 +322,7 @@ export async function runEnhancedTwitchDiscovery(options: {
       if (results.discovered >= targetNew) break;
 
       const streamers = await discoverBySearch(keyword, 50);
-      const newStreamers = dedupCache.filterNew(Platform.TWITCH, streamers);
+      const newStreamers = await dedupCache.filterNew(Platform.TWITCH, streamers);
 
       if (newStreamers.length > 0) {
         const saved = await saveStreamers(newStreamers, `twitch:search:${keyword}`);
@@ -0,0 +1,16 @@
+import cron from 'node-cron';
+import { outreachEmailService } from '../services/outreachEmailService';
+
+// Every minute - send queued outreach emails that are due (per-domain throttle applies)
+export const outreachEmailJob = cron.schedule('* * * * *', async () => {
+  try {
+    const result = await outreachEmailService.processDue();
+    if (result.sent + result.failed > 0) {
+      console.log(`✉️ [CRON] Outreach emails: ${result.sent} sent, ${result.failed} failed, ${result.deferred} throttled`);
+    }
+  } catch (error) {
+    console.error('❌ [CRON] Outreach email sending failed:', error);
+  }
+}, {
+  scheduled: false
+});
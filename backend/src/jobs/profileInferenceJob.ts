@@ -2,21 +2,7 @@ import cron from 'node-cron';
 import { db, logger } from '../utils/database';
 import { claudeService } from '../services/claudeService';
 import { auditService } from '../services/auditService';
-
-// Map ISO country codes to Region enum values
-const countryToRegion: Record<string, string> = {
-  'MX': 'MEXICO', 'CO': 'COLOMBIA', 'AR': 'ARGENTINA', 'CL': 'CHILE', 'PE': 'PERU',
-  'VE': 'VENEZUELA', 'EC': 'ECUADOR', 'BO': 'BOLIVIA', 'PY': 'PARAGUAY', 'UY': 'URUGUAY',
-  'CR': 'COSTA_RICA', 'PA': 'PANAMA', 'GT': 'GUATEMALA', 'SV': 'EL_SALVADOR',
-  'HN': 'HONDURAS', 'NI': 'NICARAGUA', 'DO': 'DOMINICAN_REPUBLIC', 'PR': 'PUERTO_RICO',
-  'BR': 'BRAZIL', 'US': 'USA', 'CA': 'CANADA', 'GB': 'UK', 'UK': 'UK',
-  'ES': 'SPAIN', 'DE': 'GERMANY', 'FR': 'FRANCE', 'IT': 'ITALY', 'PT': 'PORTUGAL',
-  'NL': 'NETHERLANDS', 'BE': 'BELGIUM', 'PL': 'POLAND', 'RU': 'RUSSIA',
-  'JP': 'JAPAN', 'KR': 'KOREA', 'AU': 'AUSTRALIA', 'IN': 'INDIA', 'CN': 'CHINA',
-  'TW': 'TAIWAN', 'PH': 'PHILIPPINES', 'TH': 'THAILAND', 'MY': 'MALAYSIA',
-  'ID': 'INDONESIA', 'SG': 'SINGAPORE', 'TR': 'TURKEY', 'ZA': 'SOUTH_AFRICA',
-  'EG': 'EGYPT', 'SA': 'SAUDI_ARABIA', 'AE': 'UAE', 'IL': 'ISRAEL'
-};
+import { geographyService } from '../services/geographyService';
 
 /**
  * Run profile inference for streamers missing category or country data
@@ -120,7 +106,7 @@ export async function runProfileInference(batchSize: number = 50, minConfidence:
           updateData.inferredCountrySource = 'HAIKU_INFERENCE';
 
           // Also update region if we can map the country
-          const regionValue = countryToRegion[inference.country.toUpperCase()];
+          const regionValue = geographyService.fromCountryCode(inference.country);
           if (regionValue) {
             updateData.region = regionValue;
           }
@@ -211,7 +197,7 @@ export async function inferStreamerMetadata(streamerId: string): Promise<{
       updateData.inferredCountry = inference.country;
       updateData.inferredCountrySource = 'HAIKU_INFERENCE';
 
-      const regionValue = countryToRegion[inference.country.toUpperCase()];
+      const regionValue = geographyService.fromCountryCode(inference.country);
       if (regionValue) {
         updateData.region = regionValue;
       }
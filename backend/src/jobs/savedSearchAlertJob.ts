@@ -0,0 +1,15 @@
+import cron from 'node-cron';
+import { savedSearchService } from '../services/savedSearchService';
+
+// Every hour at :20 - diff saved searches against their previous matches and notify owners of new creators
+export const savedSearchAlertJob = cron.schedule('20 * * * *', async () => {
+  console.log('🔔 [CRON] Checking saved searches for new matches...');
+  try {
+    const result = await savedSearchService.checkAll();
+    console.log(`✅ [CRON] Saved searches: ${result.checked} checked, ${result.notified} with new matches (${result.newMatches} creators), ${result.errors} errors`);
+  } catch (error) {
+    console.error('❌ [CRON] Saved search check failed:', error);
+  }
+}, {
+  scheduled: false
+});
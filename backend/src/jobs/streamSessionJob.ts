@@ -0,0 +1,28 @@
+import cron from 'node-cron';
+import { streamSessionService } from '../services/streamSessionService';
+
+// Every 30 minutes - rebuild stream sessions from viewer polls and refresh avg viewers
+// The 2h lookback overlaps previous runs so late polls are folded into their session
+export const streamSessionJob = cron.schedule('*/30 * * * *', async () => {
+  console.log('\n📺 [CRON] Stream session aggregation triggered');
+  try {
+    const result = await streamSessionService.aggregate(new Date(Date.now() - 2 * 60 * 60 * 1000));
+    console.log(`📺 [CRON] Stream sessions: ${result.streamers} creators, ${result.sessions} sessions, ${result.errors} errors`);
+  } catch (error) {
+    console.error('❌ [CRON] Stream session aggregation failed:', error);
+  }
+}, {
+  scheduled: false
+});
+
+// Daily at 5 AM - drop viewer polls older than the retention window
+export const viewerPollCleanupJob = cron.schedule('0 5 * * *', async () => {
+  try {
+    const deleted = await streamSessionService.prunePolls();
+    console.log(`📺 [CRON] Viewer poll cleanup: ${deleted} polls deleted`);
+  } catch (error) {
+    console.error('❌ [CRON] Viewer poll cleanup failed:', error);
+  }
+}, {
+  scheduled: false
+});
@@ -0,0 +1,30 @@
+import cron from 'node-cron';
+import { webhookService } from '../services/webhookService';
+
+// Every minute - send webhook deliveries that are due (first attempts missed at emit time and retries)
+export const webhookDeliveryJob = cron.schedule('* * * * *', async () => {
+  try {
+    const result = await webhookService.processDue();
+    if (result.sent + result.failed > 0) {
+      console.log(`🪝 [CRON] Webhook deliveries: ${result.sent} sent, ${result.failed} failed`);
+    }
+  } catch (error) {
+    console.error('❌ [CRON] Webhook delivery failed:', error);
+  }
+}, {
+  scheduled: false
+});
+
+// Every 5 minutes - announce creators added since the last run (CREATOR_CREATED)
+export const newCreatorWebhookJob = cron.schedule('*/5 * * * *', async () => {
+  try {
+    const count = await webhookService.emitNewCreators();
+    if (count > 0) {
+      console.log(`🪝 [CRON] New creator webhooks queued for ${count} creators`);
+    }
+  } catch (error) {
+    console.error('❌ [CRON] New creator webhook scan failed:', error);
+  }
+}, {
+  scheduled: false
+});
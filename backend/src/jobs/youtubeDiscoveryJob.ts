@@ -10,10 +10,13 @@
 import { db, logger } from '../utils/database';
 import { Platform, Region } from '@prisma/client';
 import { dedupCache, ensureDedupCache } from '../utils/discoveryDeduplication';
+import { cacheService } from '../services/cacheService';
+import { geographyService } from '../services/geographyService';
 import { inferCategory } from '../utils/categoryMapper';
+import { platformRegistry } from '../platforms/registry';
+import { DiscoveredCreator } from '../platforms/types';
 
 const YOUTUBE_API_KEY = process.env.YOUTUBE_API_KEY;
-const YOUTUBE_API_BASE = 'https://www.googleapis.com/youtube/v3';
 
 // Minimum subscriber threshold
 const MIN_SUBSCRIBERS = 1000;
@@ -42,182 +45,25 @@ const DISCOVERY_KEYWORDS = [
   'gaming live stream', 'fortnite live', 'valorant stream',
 ];
 
-// Country code to Region mapping
-const COUNTRY_TO_REGION: Record<string, Region> = {
-  US: Region.USA,
-  MX: Region.MEXICO,
-  ES: Region.SPAIN,
-  CO: Region.COLOMBIA,
-  AR: Region.ARGENTINA,
-  BR: Region.BRAZIL,
-  CL: Region.CHILE,
-  PE: Region.PERU,
-  CA: Region.CANADA,
-  GB: Region.UK,
-  DE: Region.GERMANY,
-  FR: Region.FRANCE,
-  IT: Region.ITALY,
-  PT: Region.PORTUGAL,
-  RU: Region.RUSSIA,
-  JP: Region.JAPAN,
-  KR: Region.KOREA,
-  AU: Region.AUSTRALIA,
-  SE: Region.SWEDEN,
-  NL: Region.NETHERLANDS,
-  PL: Region.POLAND,
-  TR: Region.OTHER,
-};
-
-interface DiscoveredChannel {
-  channelId: string;
-  username: string;
-  displayName: string;
-  profileUrl: string;
-  avatarUrl?: string;
-  subscribers: number;
-  videoCount: number;
-  viewCount: number;
-  country?: string;
-  description?: string;
-  isLive: boolean;
-  currentViewers: number;
-}
-
-/**
- * YouTube API helper with error handling
- */
-async function youtubeApi(endpoint: string): Promise<any> {
-  if (!YOUTUBE_API_KEY) {
-    logger.warn('YouTube API key not configured');
-    return null;
-  }
-
-  const url = `${YOUTUBE_API_BASE}${endpoint}${endpoint.includes('?') ? '&' : '?'}key=${YOUTUBE_API_KEY}`;
-
-  try {
-    const response = await fetch(url);
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({}));
-      logger.error(`YouTube API error: ${response.status}`, error);
-      return null;
-    }
-
-    return response.json();
-  } catch (error) {
-    logger.error('YouTube API fetch error:', error);
-    return null;
-  }
-}
-
 /**
  * Search for channels by keyword
  */
-async function searchChannelsByKeyword(
-  keyword: string,
-  maxResults: number = 50
-): Promise<DiscoveredChannel[]> {
-  const discovered: DiscoveredChannel[] = [];
-  let pageToken: string | null = null;
-  let fetched = 0;
-
-  while (fetched < maxResults) {
-    const endpoint = `/search?part=snippet&type=channel&q=${encodeURIComponent(keyword)}&maxResults=50${pageToken ? `&pageToken=${pageToken}` : ''}`;
-    const data = await youtubeApi(endpoint);
-
-    if (!data?.items?.length) break;
-
-    const channelIds = data.items.map((item: any) => item.id.channelId);
-
-    // Get detailed channel info
-    const channelsEndpoint = `/channels?part=snippet,statistics&id=${channelIds.join(',')}`;
-    const channelsData = await youtubeApi(channelsEndpoint);
-
-    if (channelsData?.items) {
-      for (const channel of channelsData.items) {
-        const stats = channel.statistics || {};
-        const snippet = channel.snippet || {};
-
-        discovered.push({
-          channelId: channel.id,
-          username: snippet.customUrl?.replace('@', '') || channel.id,
-          displayName: snippet.title,
-          profileUrl: `https://youtube.com/channel/${channel.id}`,
-          avatarUrl: snippet.thumbnails?.high?.url || snippet.thumbnails?.default?.url,
-          subscribers: parseInt(stats.subscriberCount) || 0,
-          videoCount: parseInt(stats.videoCount) || 0,
-          viewCount: parseInt(stats.viewCount) || 0,
-          country: snippet.country,
-          description: snippet.description,
-          isLive: false,
-          currentViewers: 0,
-        });
-      }
-    }
-
-    fetched += data.items.length;
-    pageToken = data.nextPageToken;
-
-    if (!pageToken) break;
-
-    // Rate limit delay
-    await new Promise(r => setTimeout(r, 100));
-  }
-
-  return discovered;
+async function searchChannelsByKeyword(keyword: string, maxResults: number = 50): Promise<DiscoveredCreator[]> {
+  return platformRegistry.get(Platform.YOUTUBE).discover({ query: keyword, limit: maxResults });
 }
 
 /**
  * Find currently live streams by keyword
  */
-async function findLiveStreams(
-  keyword: string,
-  maxResults: number = 25
-): Promise<DiscoveredChannel[]> {
-  const discovered: DiscoveredChannel[] = [];
-
-  const endpoint = `/search?part=snippet&type=video&eventType=live&q=${encodeURIComponent(keyword)}&maxResults=${Math.min(maxResults, 50)}`;
-  const data = await youtubeApi(endpoint);
-
-  if (!data?.items?.length) return discovered;
-
-  // Get channel IDs from live videos
-  const channelIds = [...new Set(data.items.map((item: any) => item.snippet.channelId))];
-
-  // Get detailed channel info
-  const channelsEndpoint = `/channels?part=snippet,statistics&id=${channelIds.join(',')}`;
-  const channelsData = await youtubeApi(channelsEndpoint);
-
-  if (channelsData?.items) {
-    for (const channel of channelsData.items) {
-      const stats = channel.statistics || {};
-      const snippet = channel.snippet || {};
-
-      discovered.push({
-        channelId: channel.id,
-        username: snippet.customUrl?.replace('@', '') || channel.id,
-        displayName: snippet.title,
-        profileUrl: `https://youtube.com/channel/${channel.id}`,
-        avatarUrl: snippet.thumbnails?.high?.url || snippet.thumbnails?.default?.url,
-        subscribers: parseInt(stats.subscriberCount) || 0,
-        videoCount: parseInt(stats.videoCount) || 0,
-        viewCount: parseInt(stats.viewCount) || 0,
-        country: snippet.country,
-        description: snippet.description,
-        isLive: true,
-        currentViewers: 0, // Would need video stats for this
-      });
-    }
-  }
-
-  return discovered;
+async function findLiveStreams(keyword: string, maxResults: number = 25): Promise<DiscoveredCreator[]> {
+  return platformRegistry.get(Platform.YOUTUBE).discover({ query: keyword, limit: maxResults, liveOnly: true });
 }
 
 /**
  * Save discovered channels to database
  */
 async function saveChannels(
-  channels: DiscoveredChannel[],
+  channels: DiscoveredCreator[],
   source: string
 ): Promise<{ created: number; skipped: number }> {
   let created = 0;
@@ -225,25 +71,25 @@ async function saveChannels(
 
   for (const channel of channels) {
     // Skip if already in cache
-    if (dedupCache.exists(Platform.YOUTUBE, channel.username)) {
+    if (await dedupCache.exists(Platform.YOUTUBE, channel.username)) {
       skipped++;
       continue;
     }
 
     // Also check by channel ID
-    if (dedupCache.exists(Platform.YOUTUBE, channel.channelId)) {
+    if (await dedupCache.exists(Platform.YOUTUBE, channel.externalId!)) {
       skipped++;
       continue;
     }
 
     // Quality filter
-    if (channel.subscribers < MIN_SUBSCRIBERS) {
+    if (channel.followers < MIN_SUBSCRIBERS) {
       skipped++;
       continue;
     }
 
     try {
-      const region = channel.country ? (COUNTRY_TO_REGION[channel.country] || Region.OTHER) : Region.OTHER;
+      const region = geographyService.fromCountryCode(channel.country) || Region.OTHER;
       const category = inferCategory(undefined, [], [], channel.description);
 
       await db.streamer.create({
@@ -253,9 +99,9 @@ async function saveChannels(
           displayName: channel.displayName,
           profileUrl: channel.profileUrl,
           avatarUrl: channel.avatarUrl,
-          followers: channel.subscribers,
-          totalViews: BigInt(channel.viewCount),
-          currentViewers: channel.currentViewers,
+          followers: channel.followers,
+          totalViews: BigInt(channel.totalViews || 0),
+          currentViewers: channel.currentViewers || 0,
           isLive: channel.isLive,
           language: 'en', // YouTube API doesn't provide language
           region,
@@ -274,8 +120,7 @@ async function saveChannels(
       });
 
       // Add to cache
-      dedupCache.add(Platform.YOUTUBE, channel.username);
-      dedupCache.add(Platform.YOUTUBE, channel.channelId);
+      await dedupCache.add(Platform.YOUTUBE, channel.username, channel.externalId!);
       created++;
     } catch (error) {
       // Likely duplicate
@@ -283,6 +128,7 @@ async function saveChannels(
     }
   }
 
+  if (created > 0) await cacheService.invalidateCreators();
   return { created, skipped };
 }
 
@@ -337,10 +183,7 @@ export async function runYouTubeDiscovery(options: {
     results.quotaUsed += 100 + Math.ceil(channels.length / 50); // Search + channels API
 
     // Filter to new only
-    const newChannels = channels.filter(c =>
-      !dedupCache.exists(Platform.YOUTUBE, c.username) &&
-      !dedupCache.exists(Platform.YOUTUBE, c.channelId)
-    );
+    const newChannels = await dedupCache.filterNew(Platform.YOUTUBE, channels, c => [c.username, c.externalId!]);
 
     if (newChannels.length > 0) {
       const saved = await saveChannels(newChannels, `youtube:search:${keyword.replace(/\s+/g, '-')}`);
@@ -364,10 +207,7 @@ export async function runYouTubeDiscovery(options: {
       const channels = await findLiveStreams(keyword, 20);
       results.quotaUsed += 100 + Math.ceil(channels.length / 50);
 
-      const newChannels = channels.filter(c =>
-        !dedupCache.exists(Platform.YOUTUBE, c.username) &&
-        !dedupCache.exists(Platform.YOUTUBE, c.channelId)
-      );
+      const newChannels = await dedupCache.filterNew(Platform.YOUTUBE, channels, c => [c.username, c.externalId!]);
 
       if (newChannels.length > 0) {
         const saved = await saveChannels(newChannels, `youtube:live:${keyword.replace(/\s+/g, '-')}`);
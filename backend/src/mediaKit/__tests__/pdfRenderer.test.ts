@@ -0,0 +1,53 @@
+import { Route } from 'playwright';
+import { fetchPublicAsset } from '../pdfRenderer';
+
+const fakeRoute = (url: string, responses: Array<{ status: number; location?: string }> = []) => {
+  const route = {
+    request: () => ({ url: () => url }),
+    fetch: jest.fn(async () => {
+      const { status, location } = responses.shift()!;
+      return { status: () => status, headers: () => (location ? { location } : {}) };
+    }),
+    fulfill: jest.fn(async () => undefined),
+    abort: jest.fn(async () => undefined),
+    continue: jest.fn(async () => undefined),
+  };
+  return route;
+};
+
+describe('fetchPublicAsset', () => {
+  it('serves images from public hosts', async () => {
+    const route = fakeRoute('https://8.8.8.8/logo.png', [{ status: 200 }]);
+    await fetchPublicAsset(route as unknown as Route);
+
+    expect(route.fetch).toHaveBeenCalledWith(expect.objectContaining({ url: 'https://8.8.8.8/logo.png', maxRedirects: 0 }));
+    expect(route.fulfill).toHaveBeenCalled();
+    expect(route.abort).not.toHaveBeenCalled();
+  });
+
+  it('blocks private and metadata addresses without fetching them', async () => {
+    for (const url of ['http://169.254.169.254/latest/meta-data/', 'http://127.0.0.1:3001/api/admin', 'http://[::1]/', 'file:///etc/passwd']) {
+      const route = fakeRoute(url);
+      await fetchPublicAsset(route as unknown as Route);
+
+      expect(route.fetch).not.toHaveBeenCalled();
+      expect(route.abort).toHaveBeenCalledWith('blockedbyclient');
+    }
+  });
+
+  it('blocks a public URL that redirects to a private one', async () => {
+    const route = fakeRoute('https://8.8.8.8/logo.png', [{ status: 302, location: 'http://10.0.0.5/internal.png' }]);
+    await fetchPublicAsset(route as unknown as Route);
+
+    expect(route.fetch).toHaveBeenCalledTimes(1);
+    expect(route.fulfill).not.toHaveBeenCalled();
+    expect(route.abort).toHaveBeenCalledWith('blockedbyclient');
+  });
+
+  it('lets inline data URIs through', async () => {
+    const route = fakeRoute('data:image/png;base64,iVBORw0KGgo=');
+    await fetchPublicAsset(route as unknown as Route);
+
+    expect(route.continue).toHaveBeenCalled();
+  });
+});
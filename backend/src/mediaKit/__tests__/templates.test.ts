@@ -0,0 +1,60 @@
+import { CreatorKit, DEFAULT_BRAND, creatorKitHtml, escapeHtml, resolveBrand, shortlistDeckHtml, sparklinePoints } from '../templates';
+
+const kit = (overrides: Partial<CreatorKit> = {}): CreatorKit => ({
+  displayName: 'Alpha',
+  username: 'alpha',
+  platform: 'TWITCH',
+  avatarUrl: 'https://cdn.example.com/alpha.png',
+  profileUrl: 'https://twitch.tv/alpha',
+  region: 'MEXICO',
+  country: 'MX',
+  language: 'es',
+  category: 'Slots',
+  reach: [{ platform: 'TWITCH', followers: 250000 }, { platform: 'YOUTUBE', followers: 80000 }],
+  totalReach: 330000,
+  avgViewers: 4200,
+  peakViewers: 12000,
+  engagementRate: 6.25,
+  growth: { followersPct: 4.2, avgViewersPct: -1.5, followerTrend: [240000, 245000, 250000] },
+  topGames: [{ name: 'Slots', hours: 120.4 }],
+  scores: { igaming: 82, brandSafety: 64, gamblingCompatible: true },
+  ...overrides,
+});
+
+describe('media kit templates', () => {
+  it('escapes creator-controlled text', () => {
+    const html = creatorKitHtml(kit({ displayName: '<script>alert(1)</script>', category: 'A "B" & C' }), DEFAULT_BRAND);
+
+    expect(escapeHtml(`<a href="x">'&'</a>`)).toBe('&lt;a href=&quot;x&quot;&gt;&#39;&amp;&#39;&lt;/a&gt;');
+    expect(html).not.toContain('<script>');
+    expect(html).toContain('&lt;script&gt;alert(1)&lt;/script&gt;');
+    expect(html).toContain('A &quot;B&quot; &amp; C');
+  });
+
+  it('falls back to default colours that are not #rrggbb', () => {
+    expect(resolveBrand(null)).toEqual(DEFAULT_BRAND);
+    expect(resolveBrand({ name: 'Acme', primaryColor: '#00AA33', accentColor: 'red;}body{' })).toEqual({
+      name: 'Acme',
+      logoUrl: null,
+      primaryColor: '#00AA33',
+      accentColor: DEFAULT_BRAND.accentColor,
+    });
+  });
+
+  it('scales sparklines into the box', () => {
+    expect(sparklinePoints([10, 20, 15], 100, 50)).toBe('0,50 50,0 100,25');
+    expect(sparklinePoints([5, 5], 100, 50)).toBe('0,50 100,50');
+    expect(sparklinePoints([1], 100, 50)).toBe('');
+  });
+
+  it('builds a deck with a cover and one page per creator in the brand colours', () => {
+    const brand = resolveBrand({ name: 'Acme', logoUrl: 'https://acme.test/logo.png', primaryColor: '#112233' });
+    const html = shortlistDeckHtml('Q3 push', [kit(), kit({ displayName: 'Beta', username: 'beta' })], brand);
+
+    expect(html.match(/class="page"/g)).toHaveLength(2);
+    expect(html.match(/class="page cover"/g)).toHaveLength(1);
+    expect(html).toContain('2 creators');
+    expect(html).toContain('background: #112233');
+    expect(html).toContain('src="https://acme.test/logo.png"');
+  });
+});
@@ -0,0 +1,138 @@
+import { Browser, Route, chromium, errors } from 'playwright';
+import { logger } from '../utils/database';
+import { resolvePublicAddress } from '../utils/publicAddress';
+import { AppError } from '../middleware/errorHandler';
+
+/**
+ * HTML -> PDF for media kits
+ *
+ * mediaKitService only hands finished HTML to a PdfRenderer, so the Chromium
+ * renderer can be swapped for a stub in tests and scripts. ChromiumPdfRenderer
+ * keeps one headless browser (launched on first use, closed after a minute
+ * idle) and renders each document in its own page. Renders beyond
+ * MAX_CONCURRENT_RENDERS are refused with 503 rather than queued, since every
+ * page holds a Chromium renderer process.
+ *
+ * Image URLs (brand logos especially) are user-supplied, so the page's requests
+ * go through fetchPublicAsset: anything that doesn't resolve to a public
+ * address, directly or via a redirect, is blocked.
+ */
+
+export interface PdfRenderer {
+  readonly id: string;
+  render(html: string): Promise<Buffer>;
+}
+
+const MAX_CONCURRENT_RENDERS = 2;
+// How long to wait for remote images before printing with whatever has loaded
+const ASSET_TIMEOUT_MS = 10000;
+const MAX_ASSET_REDIRECTS = 3;
+const IDLE_CLOSE_MS = 60000;
+
+/**
+ * page.route handler: fetch the request server-side one hop at a time, checking
+ * every host against resolvePublicAddress, and hand the response to the page
+ */
+export async function fetchPublicAsset(route: Route): Promise<void> {
+  let url = route.request().url();
+  if (url.startsWith('data:')) return route.continue();
+
+  for (let hop = 0; hop <= MAX_ASSET_REDIRECTS; hop++) {
+    const parsed = new URL(url);
+    const allowed = (parsed.protocol === 'http:' || parsed.protocol === 'https:')
+      && await resolvePublicAddress(parsed.hostname.replace(/^\[|\]$/g, '')).then(() => true, () => false);
+    if (!allowed) {
+      logger.warn(`⛔ Blocked media kit asset ${url}`);
+      return route.abort('blockedbyclient');
+    }
+
+    const response = await route.fetch({ url, maxRedirects: 0, timeout: ASSET_TIMEOUT_MS })
+      .catch(() => null);
+    if (!response) return route.abort('failed');
+
+    const location = response.status() >= 300 && response.status() < 400 ? response.headers().location : undefined;
+    if (!location) return route.fulfill({ response });
+    url = new URL(location, url).toString();
+  }
+
+  return route.abort('blockedbyclient');
+}
+
+export class ChromiumPdfRenderer implements PdfRenderer {
+  readonly id = 'chromium';
+  private browser: Promise<Browser> | null = null;
+  private active = 0;
+  private idleTimer: NodeJS.Timeout | null = null;
+
+  async render(html: string): Promise<Buffer> {
+    if (this.active >= MAX_CONCURRENT_RENDERS) {
+      throw new AppError('The PDF renderer is busy, try again in a moment', 503);
+    }
+
+    this.active++;
+    if (this.idleTimer) clearTimeout(this.idleTimer);
+    try {
+      const browser = await this.launch();
+      const page = await browser.newPage();
+      try {
+        await page.route('**/*', fetchPublicAsset);
+        // Avatars and logos are remote images; a host that never answers shouldn't hold the render slot
+        await page.setContent(html, { waitUntil: 'networkidle', timeout: ASSET_TIMEOUT_MS }).catch(error => {
+          if (!(error instanceof errors.TimeoutError)) throw error;
+          logger.warn('Media kit images still loading at the render deadline; printing without them');
+        });
+        return await page.pdf({ format: 'A4', printBackground: true, preferCSSPageSize: true });
+      } finally {
+        await page.close();
+      }
+    } finally {
+      this.active--;
+      if (this.active === 0) {
+        this.idleTimer = setTimeout(() => void this.close(), IDLE_CLOSE_MS);
+        this.idleTimer.unref();
+      }
+    }
+  }
+
+  async close(): Promise<void> {
+    const browser = this.browser;
+    this.browser = null;
+    if (browser) {
+      await (await browser).close().catch(() => undefined);
+    }
+  }
+
+  private launch(): Promise<Browser> {
+    if (!this.browser) {
+      logger.info('📄 Launching Chromium for media kit PDFs');
+      this.browser = chromium.launch({
+        headless: true,
+        args: ['--no-sandbox', '--disable-setuid-sandbox', '--disable-dev-shm-usage', '--disable-gpu'],
+      });
+      // A failed launch shouldn't stick - the next render retries
+      this.browser.catch(() => { this.browser = null; });
+    }
+    return this.browser;
+  }
+}
+
+class PdfRendererRegistry {
+  private renderer: PdfRenderer | null = null;
+
+  current(): PdfRenderer {
+    if (!this.renderer) {
+      this.renderer = new ChromiumPdfRenderer();
+    }
+    return this.renderer;
+  }
+
+  /**
+   * Swap Chromium out, e.g. for a renderer that records the HTML in tests;
+   * null goes back to Chromium
+   */
+  use(renderer: PdfRenderer | null): void {
+    this.renderer = renderer;
+  }
+}
+
+export const pdfRenderers = new PdfRendererRegistry();
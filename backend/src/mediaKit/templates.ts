@@ -0,0 +1,203 @@
+/**
+ * Media kit HTML
+ *
+ * Pure builders for the pages the PDF renderer prints: a one-page kit per
+ * creator and a deck (cover + one page per creator) for a shortlist. Every
+ * value is escaped and brand colours are checked again here, so a bad value
+ * stored on a workspace can't break out of the stylesheet.
+ */
+
+export interface Brand {
+  name: string;
+  logoUrl: string | null;
+  primaryColor: string;
+  accentColor: string;
+}
+
+export const DEFAULT_BRAND: Brand = {
+  name: 'Envisioner',
+  logoUrl: null,
+  primaryColor: '#141C2E',
+  accentColor: '#FF6B35',
+};
+
+export interface CreatorKit {
+  displayName: string;
+  username: string;
+  platform: string;
+  avatarUrl: string | null;
+  profileUrl: string;
+  region: string;
+  country: string | null;
+  language: string;
+  category: string | null;
+  reach: Array<{ platform: string; followers: number }>;
+  totalReach: number;
+  avgViewers: number;
+  peakViewers: number | null;
+  engagementRate: number;
+  growth: {
+    followersPct: number | null;    // 30-day change
+    avgViewersPct: number | null;
+    followerTrend: number[];        // Daily followers, oldest first
+  };
+  topGames: Array<{ name: string; hours: number | null }>;
+  scores: {
+    igaming: number;
+    brandSafety: number;
+    gamblingCompatible: boolean;
+  };
+}
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+export const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]!));
+
+const compact = (value: number) => new Intl.NumberFormat('en-US', { notation: 'compact', maximumFractionDigits: 1 }).format(value);
+
+const label = (value: string) => value.toLowerCase().replace(/(^|_)(\w)/g, (_, sep, c) => (sep ? ' ' : '') + c.toUpperCase());
+
+const pct = (value: number | null) => (value === null ? 'n/a' : `${value > 0 ? '+' : ''}${value.toFixed(1)}%`);
+
+/**
+ * Fill in defaults and drop colours that aren't #rrggbb
+ */
+export function resolveBrand(brand: Partial<Brand> | null | undefined): Brand {
+  return {
+    name: brand?.name || DEFAULT_BRAND.name,
+    logoUrl: brand?.logoUrl || null,
+    primaryColor: brand?.primaryColor && HEX_COLOR.test(brand.primaryColor) ? brand.primaryColor : DEFAULT_BRAND.primaryColor,
+    accentColor: brand?.accentColor && HEX_COLOR.test(brand.accentColor) ? brand.accentColor : DEFAULT_BRAND.accentColor,
+  };
+}
+
+/**
+ * SVG polyline points for a trend line scaled into width x height
+ */
+export function sparklinePoints(values: number[], width: number, height: number): string {
+  if (values.length < 2) return '';
+  const min = Math.min(...values);
+  const range = Math.max(...values) - min || 1;
+  return values
+    .map((value, i) => {
+      const x = (i / (values.length - 1)) * width;
+      const y = height - ((value - min) / range) * height;
+      return `${Math.round(x * 10) / 10},${Math.round(y * 10) / 10}`;
+    })
+    .join(' ');
+}
+
+const styles = (brand: Brand) => `
+  @page { size: A4; margin: 0; }
+  * { box-sizing: border-box; margin: 0; padding: 0; }
+  body { font-family: 'Helvetica Neue', Arial, sans-serif; color: #141C2E; -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+  .page { width: 210mm; height: 297mm; padding: 0 16mm 14mm; display: flex; flex-direction: column; page-break-after: always; overflow: hidden; }
+  .page:last-child { page-break-after: auto; }
+  .band { background: ${brand.primaryColor}; color: #fff; margin: 0 -16mm 10mm; padding: 7mm 16mm; display: flex; align-items: center; justify-content: space-between; }
+  .band img { max-height: 12mm; max-width: 50mm; }
+  .band .brand { font-weight: 700; font-size: 16px; letter-spacing: 0.5px; }
+  .band .kind { font-size: 11px; text-transform: uppercase; letter-spacing: 1px; opacity: 0.8; }
+  .hero { display: flex; align-items: center; gap: 8mm; margin-bottom: 8mm; }
+  .hero img { width: 34mm; height: 34mm; border-radius: 50%; object-fit: cover; border: 3px solid ${brand.accentColor}; }
+  .hero h1 { font-size: 30px; line-height: 1.1; }
+  .hero p { color: #666; font-size: 13px; margin-top: 2mm; }
+  .tiles { display: grid; grid-template-columns: repeat(4, 1fr); gap: 4mm; margin-bottom: 8mm; }
+  .tile { background: #f6f6f8; border-radius: 3mm; padding: 4mm; }
+  .tile b { display: block; font-size: 22px; color: ${brand.accentColor}; }
+  .tile span { font-size: 10px; color: #777; text-transform: uppercase; letter-spacing: 0.5px; }
+  .grid { display: grid; grid-template-columns: 1fr 1fr; gap: 8mm; }
+  h2 { font-size: 12px; text-transform: uppercase; letter-spacing: 1px; color: #888; margin-bottom: 3mm; border-bottom: 2px solid ${brand.accentColor}; padding-bottom: 1.5mm; }
+  table { width: 100%; border-collapse: collapse; font-size: 13px; }
+  td { padding: 1.6mm 0; border-bottom: 1px solid #eee; }
+  td:last-child { text-align: right; font-weight: 600; }
+  section { margin-bottom: 7mm; }
+  .trend svg { width: 100%; height: 22mm; }
+  .trend p { font-size: 12px; color: #555; margin-top: 2mm; }
+  .bar { height: 3mm; background: #eee; border-radius: 2mm; margin: 1mm 0 3mm; }
+  .bar i { display: block; height: 100%; border-radius: 2mm; background: ${brand.accentColor}; }
+  .score { display: flex; justify-content: space-between; font-size: 13px; }
+  .footer { margin-top: auto; font-size: 10px; color: #999; display: flex; justify-content: space-between; }
+  .cover { justify-content: center; background: ${brand.primaryColor}; color: #fff; padding: 24mm; }
+  .cover img { max-height: 20mm; max-width: 80mm; margin-bottom: 16mm; }
+  .cover h1 { font-size: 40px; margin-bottom: 6mm; }
+  .cover p { font-size: 15px; opacity: 0.85; }
+  .cover .rule { width: 30mm; height: 2mm; background: ${brand.accentColor}; margin: 10mm 0; }
+`;
+
+const brandMark = (brand: Brand) =>
+  brand.logoUrl ? `<img src="${escapeHtml(brand.logoUrl)}" alt="${escapeHtml(brand.name)}">` : `<span class="brand">${escapeHtml(brand.name)}</span>`;
+
+const htmlDocument = (title: string, brand: Brand, body: string) =>
+  `<!doctype html><html lang="en"><head><meta charset="utf-8"><title>${escapeHtml(title)}</title><style>${styles(brand)}</style></head><body>${body}</body></html>`;
+
+const creatorPage = (kit: CreatorKit, brand: Brand, generatedOn: string) => {
+  const reachRows = kit.reach
+    .map(r => `<tr><td>${escapeHtml(label(r.platform))}</td><td>${compact(r.followers)}</td></tr>`)
+    .join('');
+  const games = kit.topGames.length > 0
+    ? kit.topGames.map(g => `<tr><td>${escapeHtml(g.name)}</td><td>${g.hours === null ? '' : `${Math.round(g.hours)} h`}</td></tr>`).join('')
+    : '<tr><td>No game data yet</td><td></td></tr>';
+  const points = sparklinePoints(kit.growth.followerTrend, 300, 60);
+  const where = [label(kit.region), kit.country, kit.language.toUpperCase()].filter(Boolean).map(v => escapeHtml(v as string)).join(' · ');
+  const score = (name: string, value: number) =>
+    `<div class="score"><span>${name}</span><b>${value}/100</b></div><div class="bar"><i style="width:${Math.max(0, Math.min(100, value))}%"></i></div>`;
+
+  return `
+  <div class="page">
+    <div class="band">${brandMark(brand)}<span class="kind">Creator media kit</span></div>
+    <div class="hero">
+      ${kit.avatarUrl ? `<img src="${escapeHtml(kit.avatarUrl)}" alt="">` : ''}
+      <div>
+        <h1>${escapeHtml(kit.displayName)}</h1>
+        <p>@${escapeHtml(kit.username)} · ${escapeHtml(label(kit.platform))}${kit.category ? ` · ${escapeHtml(kit.category)}` : ''}</p>
+        <p>${where}</p>
+      </div>
+    </div>
+    <div class="tiles">
+      <div class="tile"><b>${compact(kit.totalReach)}</b><span>Total reach</span></div>
+      <div class="tile"><b>${compact(kit.avgViewers)}</b><span>Avg. viewers</span></div>
+      <div class="tile"><b>${kit.peakViewers ? compact(kit.peakViewers) : 'n/a'}</b><span>Peak viewers</span></div>
+      <div class="tile"><b>${kit.engagementRate.toFixed(1)}%</b><span>Engagement</span></div>
+    </div>
+    <div class="grid">
+      <div>
+        <section><h2>Reach by platform</h2><table>${reachRows}</table></section>
+        <section><h2>Top games</h2><table>${games}</table></section>
+      </div>
+      <div>
+        <section class="trend">
+          <h2>Growth (30 days)</h2>
+          ${points ? `<svg viewBox="0 -2 300 64" preserveAspectRatio="none"><polyline fill="none" stroke="${brand.accentColor}" stroke-width="2.5" points="${points}"/></svg>` : ''}
+          <p>Followers ${pct(kit.growth.followersPct)} · Avg. viewers ${pct(kit.growth.avgViewersPct)}</p>
+        </section>
+        <section>
+          <h2>Audience &amp; brand fit</h2>
+          ${score('iGaming fit', kit.scores.igaming)}
+          ${score('Brand safety', kit.scores.brandSafety)}
+          <div class="score"><span>Gambling content</span><b>${kit.scores.gamblingCompatible ? 'Open to it' : 'Not suitable'}</b></div>
+        </section>
+      </div>
+    </div>
+    <div class="footer"><span>${escapeHtml(kit.profileUrl)}</span><span>Prepared by ${escapeHtml(brand.name)} · ${generatedOn}</span></div>
+  </div>`;
+};
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+export function creatorKitHtml(kit: CreatorKit, brand: Brand): string {
+  return htmlDocument(`${kit.displayName} - media kit`, brand, creatorPage(kit, brand, today()));
+}
+
+export function shortlistDeckHtml(title: string, kits: CreatorKit[], brand: Brand): string {
+  const generatedOn = today();
+  const cover = `
+  <div class="page cover">
+    ${brand.logoUrl ? brandMark(brand) : ''}
+    <h1>${escapeHtml(title)}</h1>
+    <p>${kits.length} creator${kits.length === 1 ? '' : 's'} · ${compact(kits.reduce((sum, k) => sum + k.totalReach, 0))} combined reach</p>
+    <div class="rule"></div>
+    <p>Prepared by ${escapeHtml(brand.name)} · ${generatedOn}</p>
+  </div>`;
+  return htmlDocument(title, brand, cover + kits.map(kit => creatorPage(kit, brand, generatedOn)).join(''));
+}
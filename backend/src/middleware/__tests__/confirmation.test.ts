@@ -0,0 +1,62 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import express, { Request, Response } from 'express';
+import { requireConfirmation } from '../confirmation';
+import { cacheService } from '../../services/cacheService';
+
+describe('requireConfirmation', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let runs: number;
+
+  beforeAll(async () => {
+    const app = express();
+    app.use(express.json());
+    app.post('/purge/:region', requireConfirmation('purge', async req => ({ message: `Delete creators in ${req.params.region}`, affected: 3 })), (req: Request, res: Response) => {
+      runs++;
+      res.json({ success: true });
+    });
+
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    runs = 0;
+  });
+
+  const post = (path: string, body: Record<string, unknown> = {}) => fetch(`${baseUrl}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+  it('runs the operation only when the same request comes back with its token, once', async () => {
+    const first = await post('/purge/MEXICO', { dryRun: false });
+    const { confirmToken, summary } = await first.json();
+    expect(first.status).toBe(428);
+    expect(summary).toEqual({ message: 'Delete creators in MEXICO', affected: 3 });
+
+    expect((await post('/purge/MEXICO', { dryRun: false, confirmToken })).status).toBe(200);
+    expect((await post('/purge/MEXICO', { dryRun: false, confirmToken })).status).toBe(428);
+    expect(runs).toBe(1);
+  });
+
+  it('keeps pending tokens in the shared cache with a TTL', async () => {
+    const { confirmToken } = await (await post('/purge/SPAIN')).json();
+
+    expect(await cacheService.ttl(`confirm:${confirmToken}`)).toBeGreaterThan(4 * 60 * 1000);
+  });
+
+  it('refuses a token issued for a different payload', async () => {
+    const { confirmToken } = await (await post('/purge/SPAIN')).json();
+
+    expect((await post('/purge/MEXICO', { confirmToken })).status).toBe(428);
+    expect(runs).toBe(0);
+  });
+});
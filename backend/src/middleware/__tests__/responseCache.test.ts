@@ -0,0 +1,105 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import express, { Request, Response } from 'express';
+import { cacheResponse } from '../responseCache';
+import { requireSoftr } from '../auth';
+import { cacheService, CACHE_NAMESPACES } from '../../services/cacheService';
+import { EMBED_TOKEN_HEADER, signEmbedToken } from '../../utils/embedToken';
+
+describe('cacheResponse', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let calls: number;
+
+  beforeAll(async () => {
+    process.env.EMBED_TOKEN_SECRET = 'response-cache-test-secret';
+    const app = express();
+    app.get('/streamers', cacheResponse(CACHE_NAMESPACES.STREAMERS, 30), (req: Request, res: Response) => {
+      calls++;
+      res.set('Cache-Control', 'public, max-age=30');
+      res.set('X-Total-Count', '42');
+      res.json({ success: true, data: { call: calls, query: req.query } });
+    });
+    app.get('/mine', requireSoftr, cacheResponse(CACHE_NAMESPACES.STREAMERS, 30), (req: Request, res: Response) => {
+      calls++;
+      res.json({ success: true, data: { userId: req.query.userId } });
+    });
+    app.get('/failing', cacheResponse(CACHE_NAMESPACES.STREAMERS, 30), (req: Request, res: Response) => {
+      calls++;
+      res.status(500).json({ success: false, error: 'boom' });
+    });
+
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+    delete process.env.EMBED_TOKEN_SECRET;
+  });
+
+  beforeEach(() => {
+    calls = 0;
+  });
+
+  // Node's fetch, not axios - axios is answered by the HTTP fixtures
+  const get = async (path: string, headers: Record<string, string> = {}) => {
+    const response = await fetch(`${baseUrl}${path}`, { headers });
+    return { response, body: await response.json() };
+  };
+
+  it('serves repeat requests from the cache with the original headers', async () => {
+    const first = await get('/streamers?page=1');
+    const second = await get('/streamers?page=1');
+
+    expect(first.response.headers.get('x-cache')).toBe('MISS');
+    expect(second.response.headers.get('x-cache')).toBe('HIT');
+    expect(second.body).toEqual(first.body);
+    expect(second.response.headers.get('x-total-count')).toBe('42');
+    expect(second.response.headers.get('cache-control')).toBe('public, max-age=30');
+    expect(calls).toBe(1);
+  });
+
+  it('keys on the query string regardless of parameter order', async () => {
+    await get('/streamers?a=1&b=2');
+    const reordered = await get('/streamers?b=2&a=1');
+    const different = await get('/streamers?a=1&b=3');
+
+    expect(reordered.response.headers.get('x-cache')).toBe('HIT');
+    expect(different.response.headers.get('x-cache')).toBe('MISS');
+    expect(calls).toBe(2);
+  });
+
+  it('keeps embed users apart when the URL leaves out userId', async () => {
+    const asUser = (email: string) => ({ [EMBED_TOKEN_HEADER]: signEmbedToken({ email }) });
+
+    const ana = await get('/mine?favoritesOnly=true', asUser('ana@agency.com'));
+    const ben = await get('/mine?favoritesOnly=true', asUser('ben@agency.com'));
+    const anaAgain = await get('/mine?favoritesOnly=true', asUser('ana@agency.com'));
+
+    expect(ben.response.headers.get('x-cache')).toBe('MISS');
+    expect(ben.body.data.userId).toBe('ben@agency.com');
+    expect(anaAgain.response.headers.get('x-cache')).toBe('HIT');
+    expect(anaAgain.body).toEqual(ana.body);
+    expect(calls).toBe(2);
+  });
+
+  it('misses again after the namespace is invalidated', async () => {
+    await get('/streamers');
+    await cacheService.invalidateCreators();
+    const after = await get('/streamers');
+
+    expect(after.response.headers.get('x-cache')).toBe('MISS');
+    expect(after.body.data.call).toBe(2);
+  });
+
+  it('does not cache failed responses', async () => {
+    await get('/failing');
+    const second = await get('/failing');
+
+    expect(second.response.status).toBe(500);
+    expect(second.response.headers.get('x-cache')).toBe('MISS');
+    expect(calls).toBe(2);
+  });
+});
@@ -3,13 +3,18 @@ import rateLimit from 'express-rate-limit';
 import { AppError, asyncHandler } from './errorHandler';
 import { db } from '../utils/database';
 import { verify as jwtVerify } from 'jsonwebtoken';
+import { ApiKeyScope, UserRole } from '@prisma/client';
+import { EMBED_TOKEN_HEADER, allowUnsignedEmbed, verifyEmbedToken } from '../utils/embedToken';
+import { apiKeyService } from '../services/apiKeyService';
+import { CacheRateLimitStore } from './rateLimitStore';
 
 // =============================================================================
-// RATE LIMITERS (using express-rate-limit)
+// RATE LIMITERS (express-rate-limit, counters in the shared cache)
 // =============================================================================
 
 // General API rate limiter - 100 requests per minute per IP
 export const apiRateLimit = rateLimit({
+  store: new CacheRateLimitStore('api'),
   windowMs: 60 * 1000, // 1 minute
   max: 100,
   message: { success: false, error: 'Too many requests, please try again later' },
@@ -24,6 +29,7 @@ export const apiRateLimit = rateLimit({
 
 // Stricter rate limiter for auth endpoints - 10 requests per 15 minutes
 export const authRateLimit = rateLimit({
+  store: new CacheRateLimitStore('auth'),
   windowMs: 15 * 60 * 1000, // 15 minutes
   max: 10,
   message: { success: false, error: 'Too many authentication attempts, please try again later' },
@@ -31,8 +37,21 @@ export const authRateLimit = rateLimit({
   legacyHeaders: false,
 });
 
+// Password guesses on shared shortlist links - 10 failed attempts per 15 minutes per IP
+export const linkPasswordRateLimit = rateLimit({
+  store: new CacheRateLimitStore('link-password'),
+  windowMs: 15 * 60 * 1000,
+  max: 10,
+  message: { success: false, error: 'Too many password attempts, please try again later' },
+  standardHeaders: true,
+  legacyHeaders: false,
+  skip: (req) => !req.get('x-link-password'),
+  skipSuccessfulRequests: true,
+});
+
 // Stricter rate limiter for data-heavy endpoints - 30 requests per minute
 export const dataRateLimit = rateLimit({
+  store: new CacheRateLimitStore('data'),
   windowMs: 60 * 1000, // 1 minute
   max: 30,
   message: { success: false, error: 'Too many requests, please slow down' },
@@ -46,6 +65,7 @@ export const dataRateLimit = rateLimit({
 
 // Very strict rate limiter for discovery/scraping endpoints - 5 per minute
 export const discoveryRateLimit = rateLimit({
+  store: new CacheRateLimitStore('discovery'),
   windowMs: 60 * 1000,
   max: 5,
   message: { success: false, error: 'Discovery rate limit exceeded' },
@@ -54,38 +74,100 @@ export const discoveryRateLimit = rateLimit({
 });
 
 // =============================================================================
-// SOFTR VALIDATION HELPERS
+// EMBED TOKEN HELPERS
 // =============================================================================
 
-const ALLOWED_DOMAINS = (process.env.ALLOWED_EMBED_DOMAINS || 'softr.app,softr.io,envisioner.io').split(',').map(d => d.trim().toLowerCase());
+function embedUser(email: string) {
+  return {
+    id: email,
+    email,
+    mfaEnabled: false,
+    role: UserRole.VIEWER,
+    isSoftrEmbed: true
+  };
+}
+
+/**
+ * The token is the only source of identity for embed requests. A userId sent
+ * alongside it must be the same user; when none is sent the token email is
+ * filled in so controllers reading req.query.userId / req.body.userId still work.
+ */
+function bindEmbedUserId(req: Request, email: string): void {
+  const requested = [req.query.userId, req.body?.userId].filter(v => typeof v === 'string' && v) as string[];
+  if (requested.some(id => id.toLowerCase().trim() !== email)) {
+    console.warn(`⚠️ Embed token mismatch: token for ${email}, requested ${requested.join(', ')}`);
+    throw new AppError('Access denied - you can only access your own data', 403);
+  }
 
-function isValidSoftrReferrer(referrer: string | undefined): boolean {
-  if (!referrer) return false; // Empty referrer NOT allowed
+  if (!req.query.userId) req.query.userId = email;
+  if (req.body && typeof req.body === 'object' && !Array.isArray(req.body) && !req.body.userId) {
+    req.body.userId = email;
+  }
+}
 
-  const lowerRef = referrer.toLowerCase();
+/**
+ * Resolve the embed user from X-Embed-Token. Returns null when no token was sent;
+ * throws 401 when a token was sent but is invalid or expired.
+ */
+function resolveEmbedUser(req: Request) {
+  const token = req.headers[EMBED_TOKEN_HEADER] as string | undefined;
 
-  // Only allow in development mode with explicit NODE_ENV check
-  if (process.env.NODE_ENV === 'development') {
-    if (lowerRef.includes('localhost') || lowerRef.includes('127.0.0.1')) {
-      return true;
+  if (token) {
+    const payload = verifyEmbedToken(token);
+    if (!payload) {
+      throw new AppError('Invalid or expired embed token', 401);
     }
+    bindEmbedUserId(req, payload.email);
+    return embedUser(payload.email);
+  }
+
+  if (allowUnsignedEmbed()) {
+    const userId = req.query.userId as string || req.body?.userId;
+    return userId ? embedUser(userId.toLowerCase().trim()) : null;
   }
 
-  // Check against allowed Softr domains
-  return ALLOWED_DOMAINS.some(domain => lowerRef.includes(domain));
+  return null;
 }
 
-function isSoftrContext(req: Request): boolean {
-  const referer = req.headers.referer || req.headers.origin || '';
-  const embedReferrer = req.headers['x-embed-referrer'] as string || '';
-  const softrHeader = req.headers['x-softr-app'] as string;
-  const isEmbedMode = req.headers['x-embed-mode'] === 'true';
+// =============================================================================
+// API KEY HELPERS
+// =============================================================================
+
+const API_KEY_HEADER = 'x-api-key';
+
+/**
+ * Resolve a machine client from X-Api-Key. Returns null when no key was sent;
+ * throws 401 for unknown, revoked or expired keys. Usage is recorded once the
+ * response finishes so the status code is known.
+ */
+async function resolveApiKeyUser(req: Request, res: Response) {
+  const existing = (req as any).user;
+  if (existing?.isApiKey) return existing;
+
+  const rawKey = req.headers[API_KEY_HEADER] as string | undefined;
+  if (!rawKey) return null;
 
-  // Must have valid Softr referrer OR softr header
-  const hasValidReferrer = isValidSoftrReferrer(referer) || isValidSoftrReferrer(embedReferrer);
-  const hasSoftrHeader = softrHeader === 'true';
+  const key = await apiKeyService.authenticate(rawKey.trim());
+  if (!key) {
+    throw new AppError('Invalid or revoked API key', 401);
+  }
 
-  return hasValidReferrer || (isEmbedMode && hasSoftrHeader);
+  res.on('finish', () => {
+    const endpoint = `${req.method} ${req.baseUrl}${req.route?.path ?? req.path}`;
+    void apiKeyService.recordUsage(key.id, endpoint, res.statusCode);
+  });
+
+  return {
+    id: `apikey:${key.id}`,
+    email: `${key.name} (${key.prefix})`,
+    mfaEnabled: false,
+    // Admin-scoped keys pass restrictTo('admin'); every other key is treated as a viewer, so
+    // routes behind protect alone must add requireScope or restrictTo to keep keys out
+    role: key.scopes.includes(ApiKeyScope.ADMIN) ? UserRole.ADMIN : UserRole.VIEWER,
+    isApiKey: true,
+    apiKeyId: key.id,
+    scopes: key.scopes,
+  };
 }
 
 // =============================================================================
@@ -93,28 +175,20 @@ function isSoftrContext(req: Request): boolean {
 // =============================================================================
 
 /**
- * Protect middleware - requires valid Softr context OR JWT token
+ * Protect middleware - requires a valid API key, signed embed token OR JWT token.
+ * API keys are not scope-checked here; follow with requireScope or restrictTo.
  */
 export const protect = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
-  // Check if valid Softr embed context
-  const isEmbedMode = req.headers['x-embed-mode'] === 'true';
-
-  if (isEmbedMode) {
-    const referrer = (req.headers['referer'] || req.headers['x-embed-referrer']) as string;
-
-    if (isValidSoftrReferrer(referrer)) {
-      // Valid Softr context - extract user from query/body
-      const userId = req.query.userId as string || req.body?.userId;
-      (req as any).user = {
-        id: userId || 'embed-user',
-        email: userId || 'embed@envisioner.io',
-        mfaEnabled: false,
-        isSoftrEmbed: true
-      };
-      return next();
-    } else {
-      throw new AppError('Invalid embed referrer - access denied', 403);
-    }
+  const apiKeyUser = await resolveApiKeyUser(req, res);
+  if (apiKeyUser) {
+    (req as any).user = apiKeyUser;
+    return next();
+  }
+
+  const embed = resolveEmbedUser(req);
+  if (embed) {
+    (req as any).user = embed;
+    return next();
   }
 
   // JWT auth fallback
@@ -128,7 +202,7 @@ export const protect = asyncHandler(async (req: Request, res: Response, next: Ne
     const decoded = jwtVerify(token, process.env.JWT_SECRET as string) as any;
     const user = await db.user.findUnique({ where: { id: decoded.id } });
     if (!user) throw new AppError('Unauthorized - user not found', 401);
-    (req as any).user = { id: user.id, email: user.email, mfaEnabled: user.mfaEnabled };
+    (req as any).user = { id: user.id, email: user.email, mfaEnabled: user.mfaEnabled, role: user.role };
     next();
   } catch (e) {
     throw new AppError('Unauthorized - invalid token', 401);
@@ -136,48 +210,39 @@ export const protect = asyncHandler(async (req: Request, res: Response, next: Ne
 });
 
 /**
- * Softr-only middleware - strictly requires valid Softr context (no JWT fallback)
- * Does NOT require userId - use validateUserOwnership after this for user-specific endpoints
+ * Softr-only middleware - strictly requires a signed embed token (no JWT fallback).
+ * Machine clients may use an API key with the READ_SEARCH scope instead.
  */
 export const requireSoftr = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
-  if (!isSoftrContext(req)) {
-    throw new AppError('This endpoint can only be accessed through Softr', 403);
+  const apiKeyUser = await resolveApiKeyUser(req, res);
+  if (apiKeyUser) {
+    if (!apiKeyService.hasScope(apiKeyUser.scopes, ApiKeyScope.READ_SEARCH)) {
+      throw new AppError(`API key is missing the ${ApiKeyScope.READ_SEARCH} scope`, 403);
+    }
+    (req as any).user = apiKeyUser;
+    return next();
   }
 
-  // Extract user from Softr context if available
-  const userId = req.query.userId as string || req.body?.userId;
-  (req as any).user = {
-    id: userId || 'softr-user',
-    email: userId || 'softr@envisioner.io',
-    mfaEnabled: false,
-    isSoftrEmbed: true
-  };
+  const embed = resolveEmbedUser(req);
+  if (!embed) {
+    throw new AppError('This endpoint can only be accessed through Softr', 403);
+  }
 
+  (req as any).user = embed;
   next();
 });
 
 /**
- * Softr-only middleware that also requires userId
- * Use for user-specific endpoints like favorites, discards, notes
+ * Softr-only middleware for user-specific endpoints like favorites, discards, notes.
+ * The signed token always carries the user, so req.query.userId is guaranteed afterwards.
  */
 export const requireSoftrWithUser = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
-  if (!isSoftrContext(req)) {
-    throw new AppError('This endpoint can only be accessed through Softr', 403);
-  }
-
-  // Extract user from Softr context - REQUIRED
-  const userId = req.query.userId as string || req.body?.userId;
-  if (!userId) {
+  const embed = resolveEmbedUser(req);
+  if (!embed) {
     throw new AppError('User identification required', 401);
   }
 
-  (req as any).user = {
-    id: userId,
-    email: userId,
-    mfaEnabled: false,
-    isSoftrEmbed: true
-  };
-
+  (req as any).user = embed;
   next();
 });
 
@@ -185,20 +250,15 @@ export const requireSoftrWithUser = asyncHandler(async (req: Request, res: Respo
  * Optional auth - sets user if available but doesn't require it
  */
 export const optionalAuth = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
-  const isEmbedMode = req.headers['x-embed-mode'] === 'true';
-
-  if (isEmbedMode) {
-    const referrer = (req.headers['referer'] || req.headers['x-embed-referrer']) as string;
-
-    if (isValidSoftrReferrer(referrer)) {
-      const userId = req.query.userId as string || req.body?.userId;
-      (req as any).user = {
-        id: userId || 'embed-user',
-        email: userId || 'embed@envisioner.io',
-        mfaEnabled: false,
-        isSoftrEmbed: true
-      };
-    }
+  const apiKeyUser = await resolveApiKeyUser(req, res);
+  if (apiKeyUser) {
+    (req as any).user = apiKeyUser;
+    return next();
+  }
+
+  const embed = resolveEmbedUser(req);
+  if (embed) {
+    (req as any).user = embed;
     return next();
   }
 
@@ -210,7 +270,7 @@ export const optionalAuth = asyncHandler(async (req: Request, res: Response, nex
   try {
     const decoded = jwtVerify(token, process.env.JWT_SECRET as string) as any;
     const user = await db.user.findUnique({ where: { id: decoded.id } });
-    if (user) (req as any).user = { id: user.id, email: user.email, mfaEnabled: user.mfaEnabled };
+    if (user) (req as any).user = { id: user.id, email: user.email, mfaEnabled: user.mfaEnabled, role: user.role };
   } catch {}
   next();
 });
@@ -246,9 +306,57 @@ export const validateUserOwnership = asyncHandler(async (req: Request, res: Resp
   throw new AppError('Access denied - you can only access your own data', 403);
 });
 
+/**
+ * Role gate - use after protect. Roles are matched case-insensitively ('admin' === UserRole.ADMIN).
+ * Softr embed users always resolve to VIEWER, so they can never reach admin-only routes.
+ */
 export const restrictTo = (...roles: string[]) => {
+  const allowed = roles.map(r => r.toUpperCase());
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const user = (req as any).user;
+
+    if (!user) {
+      return next(new AppError('Authentication required', 401));
+    }
+
+    const role = String(user.role || UserRole.VIEWER).toUpperCase();
+    if (!allowed.includes(role)) {
+      console.warn(`⚠️ Role check failed: ${user.email} (${role}) tried ${req.method} ${req.originalUrl}`);
+      return next(new AppError('You do not have permission to perform this action', 403));
+    }
+
+    next();
+  };
+};
+
+/**
+ * Scope gate - use after protect. API keys must carry `scope` (ADMIN covers all);
+ * JWT/embed users are checked against `roles` instead, or pass if none are given.
+ */
+export const requireScope = (scope: ApiKeyScope, ...roles: string[]) => {
+  const allowed = roles.map(r => r.toUpperCase());
+
   return (req: Request, res: Response, next: NextFunction) => {
-    // For now, just allow all requests
+    const user = (req as any).user;
+
+    if (!user) {
+      return next(new AppError('Authentication required', 401));
+    }
+
+    if (user.isApiKey) {
+      if (!apiKeyService.hasScope(user.scopes, scope)) {
+        console.warn(`⚠️ Scope check failed: API key ${user.apiKeyId} lacks ${scope} for ${req.method} ${req.originalUrl}`);
+        return next(new AppError(`API key is missing the ${scope} scope`, 403));
+      }
+      return next();
+    }
+
+    const role = String(user.role || UserRole.VIEWER).toUpperCase();
+    if (allowed.length > 0 && !allowed.includes(role)) {
+      return next(new AppError('You do not have permission to perform this action', 403));
+    }
+
     next();
   };
 };
@@ -0,0 +1,77 @@
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { asyncHandler } from './errorHandler';
+import { cacheService } from '../services/cacheService';
+
+// =============================================================================
+// DESTRUCTIVE OPERATION CONFIRMATION
+// =============================================================================
+//
+// Two-step confirmation for destructive bulk operations. The first request gets
+// 428 with a summary of what would happen and a single-use confirmToken; the
+// client shows the summary and repeats the exact same request with the token
+// (body.confirmToken or X-Confirm-Token). Tokens are bound to the admin, the
+// operation and the request payload, and expire after a few minutes. They live
+// in the shared cache, so the confirming request can land on any instance.
+
+const CONFIRM_HEADER = 'x-confirm-token';
+const CONFIRM_TTL_SECONDS = 5 * 60;
+
+interface PendingConfirmation {
+  userId: string;
+  action: string;
+  fingerprint: string;
+}
+
+const pendingKey = (token: string) => `confirm:${token}`;
+
+// Same operation on the same target: params, query and body without the token itself
+const fingerprint = (req: Request) => {
+  const { confirmToken, ...body } = req.body || {};
+  return crypto
+    .createHash('sha256')
+    .update(JSON.stringify([req.params, req.query, body]))
+    .digest('hex');
+};
+
+export interface ConfirmationSummary {
+  // Human readable, shown verbatim in the confirm dialog
+  message: string;
+  affected?: number;
+  sample?: string[];
+}
+
+/**
+ * Require explicit confirmation before running `action`. `describe` builds the
+ * summary shown to the admin (e.g. how many rows would be deleted).
+ */
+export const requireConfirmation = (
+  action: string,
+  describe: (req: Request) => Promise<ConfirmationSummary>
+) => asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  const userId = (req as any).user?.id || 'anonymous';
+  const token = (req.headers[CONFIRM_HEADER] as string | undefined) || req.body?.confirmToken;
+
+  // Taken rather than read, so a token is spent even if two confirmations race
+  if (typeof token === 'string' && token) {
+    const entry = await cacheService.takeJson<PendingConfirmation>(pendingKey(token));
+    if (entry && entry.userId === userId && entry.action === action && entry.fingerprint === fingerprint(req)) {
+      return next();
+    }
+  }
+
+  const summary = await describe(req);
+  const confirmToken = crypto.randomBytes(18).toString('base64url');
+  const entry: PendingConfirmation = { userId, action, fingerprint: fingerprint(req) };
+  await cacheService.setJson(pendingKey(confirmToken), entry, CONFIRM_TTL_SECONDS);
+
+  res.status(428).json({
+    success: false,
+    error: token ? 'Confirmation token invalid or expired - please confirm again' : 'Confirmation required',
+    confirmationRequired: true,
+    action,
+    summary,
+    confirmToken,
+    expiresInSeconds: CONFIRM_TTL_SECONDS,
+  });
+});
@@ -0,0 +1,49 @@
+import type { Options, Store, IncrementResponse } from 'express-rate-limit';
+import { cacheService } from '../services/cacheService';
+
+/**
+ * express-rate-limit store on the shared cache
+ *
+ * Counters live in Redis when REDIS_URL is set, so a client gets one budget
+ * across all API instances instead of one per instance. Each limiter needs its
+ * own store (and prefix) - express-rate-limit rejects shared store instances.
+ */
+export class CacheRateLimitStore implements Store {
+  private windowMs = 60 * 1000;
+  readonly localKeys = false;
+  readonly prefix: string;
+
+  constructor(name: string) {
+    this.prefix = `ratelimit:${name}:`;
+  }
+
+  init(options: Options): void {
+    this.windowMs = options.windowMs;
+  }
+
+  async get(key: string): Promise<IncrementResponse | undefined> {
+    const raw = await cacheService.get(this.prefix + key);
+    if (raw === null) return undefined;
+    const ttlMs = await cacheService.ttl(this.prefix + key);
+    return {
+      totalHits: parseInt(raw, 10) || 0,
+      resetTime: ttlMs > 0 ? new Date(Date.now() + ttlMs) : undefined,
+    };
+  }
+
+  async increment(key: string): Promise<IncrementResponse> {
+    const { count, ttlMs } = await cacheService.increment(this.prefix + key, this.windowMs);
+    return {
+      totalHits: count,
+      resetTime: new Date(Date.now() + (ttlMs > 0 ? ttlMs : this.windowMs)),
+    };
+  }
+
+  async decrement(key: string): Promise<void> {
+    await cacheService.decrement(this.prefix + key);
+  }
+
+  async resetKey(key: string): Promise<void> {
+    await cacheService.del(this.prefix + key);
+  }
+}
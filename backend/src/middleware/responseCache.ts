@@ -0,0 +1,69 @@
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { cacheService } from '../services/cacheService';
+import { logger } from '../utils/database';
+
+/**
+ * Shared response cache for hot read endpoints
+ *
+ * Caches successful JSON responses per caller, path and query in a cache
+ * namespace, so every instance serves the same copy until the TTL runs out or
+ * the namespace is invalidated (cacheService.invalidateCreators() on live
+ * status and creator changes). Responses carry X-Cache: HIT | MISS.
+ *
+ * Mount it after auth: the key reads the authenticated user and the query as
+ * auth left it (embed auth fills in userId), since listings filter on the
+ * user's favorites, discards and outreach.
+ */
+
+// Headers replayed on a hit; everything else is regenerated per request
+const REPLAYED_HEADERS = ['cache-control', 'x-total-count'];
+
+interface CachedResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+const requestKey = (req: Request): string => {
+  const identity = (req as any).user?.id ?? '';
+  const query = Object.keys(req.query).sort().map(name => [name, req.query[name]]);
+  return crypto.createHash('sha1').update(JSON.stringify([identity, `${req.baseUrl}${req.path}`, query])).digest('hex');
+};
+
+export const cacheResponse = (namespace: string, ttlSeconds: number) =>
+  async (req: Request, res: Response, next: NextFunction) => {
+    if (req.method !== 'GET') return next();
+
+    let key: string;
+    try {
+      key = await cacheService.namespacedKey(namespace, requestKey(req));
+      const hit = await cacheService.getJson<CachedResponse>(key);
+      if (hit) {
+        res.set(hit.headers);
+        res.set('X-Cache', 'HIT');
+        res.status(hit.status).json(hit.body);
+        return;
+      }
+    } catch (error: any) {
+      logger.warn(`Response cache lookup failed for ${req.originalUrl}`, { message: error?.message });
+      return next();
+    }
+
+    res.set('X-Cache', 'MISS');
+    const send = res.json.bind(res);
+    res.json = (body: any) => {
+      if (res.statusCode >= 200 && res.statusCode < 300 && body?.success !== false) {
+        const headers: Record<string, string> = {};
+        for (const name of REPLAYED_HEADERS) {
+          const value = res.getHeader(name);
+          if (value !== undefined) headers[name] = String(value);
+        }
+        cacheService.setJson(key, { status: res.statusCode, headers, body }, ttlSeconds)
+          .catch((error: any) => logger.warn(`Response cache store failed for ${req.originalUrl}`, { message: error?.message }));
+      }
+      return send(body);
+    };
+
+    next();
+  };
@@ -0,0 +1,61 @@
+import { buildBodies, mergeValues, renderTemplate, unknownFields } from '../templates';
+import { classifyInbound } from '../inbound';
+
+const creator = {
+  displayName: 'LaCobra',
+  username: 'lacobra',
+  platform: 'KICK',
+  currentGame: null,
+  topGames: ['Slots'],
+  primaryCategory: 'Gaming',
+  followers: 125000,
+};
+
+describe('outreach templates', () => {
+  it('fills merge fields, with fallbacks for empty values', () => {
+    const values = mergeValues(creator, { campaignName: 'Spring Cup', senderName: null });
+
+    expect(renderTemplate('Hi {{displayName}}, loved your {{ recentGame }} on {{platform}}!', values))
+      .toBe('Hi LaCobra, loved your Slots on Kick!');
+    expect(renderTemplate('{{campaignName}} - {{senderName|The Envisioner team}}', values))
+      .toBe('Spring Cup - The Envisioner team');
+    expect(values.followers).toBe('125,000');
+  });
+
+  it('reports unknown merge fields', () => {
+    expect(unknownFields('Hi {{displayName}} {{budget}} {{ Budget }}')).toEqual(['budget', 'Budget']);
+    expect(unknownFields('Hi {{displayName|there}}')).toEqual([]);
+  });
+
+  it('escapes the HTML body and appends the unsubscribe link', () => {
+    const { text, html } = buildBodies('Hi <b>you</b>\nline two\n\nBye', 'https://api.test/u/abc');
+
+    expect(html).toBe('<p>Hi &lt;b&gt;you&lt;/b&gt;<br>line two</p><p>Bye</p>'
+      + '<p style="font-size:12px;color:#888">Don\'t want these emails? <a href="https://api.test/u/abc">Unsubscribe</a></p>');
+    expect(text).toMatch(/Unsubscribe: https:\/\/api\.test\/u\/abc$/);
+  });
+});
+
+describe('classifyInbound', () => {
+  it('recognizes bounce reports and reads the failed recipient', () => {
+    const event = classifyInbound({
+      from: 'Mail Delivery Subsystem <MAILER-DAEMON@mx.example.net>',
+      subject: 'Undelivered Mail Returned to Sender',
+      text: 'Final-Recipient: rfc822; Gone@Creator.gg\nDiagnostic-Code: smtp; 550 5.1.1 User unknown\n'
+        + 'Message-ID: <abc123@agency.com>',
+    });
+
+    expect(event).toEqual({
+      type: 'bounce',
+      messageIds: ['abc123@agency.com'],
+      recipient: 'gone@creator.gg',
+      detail: 'smtp; 550 5.1.1 User unknown',
+    });
+  });
+
+  it('treats messages answering one of ours as replies', () => {
+    expect(classifyInbound({ from: 'Cobra <Cobra@creator.gg>', subject: 'Re: Spring Cup', inReplyTo: '<ABC123@agency.com>' }))
+      .toMatchObject({ type: 'reply', messageIds: ['abc123@agency.com'], recipient: 'cobra@creator.gg' });
+    expect(classifyInbound({ from: 'someone@else.com', subject: 'Hello' })).toBeNull();
+  });
+});
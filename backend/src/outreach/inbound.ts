@@ -0,0 +1,80 @@
+/**
+ * Inbound mail events for outreach tracking
+ *
+ * Bounces, replies and spam complaints arrive at POST /api/outreach-email/inbound,
+ * either already classified (provider webhooks: { type, messageIds, recipient })
+ * or as a forwarded message (an IMAP poller or mail forwarding service posting
+ * { from, subject, inReplyTo, references, text }), which classifyInbound turns
+ * into an event. Our Message-IDs are "<token@sender domain>", so replies and
+ * bounce reports that quote them are matched to the email that was sent.
+ */
+
+export type InboundEventType = 'bounce' | 'reply' | 'complaint';
+
+export interface InboundEvent {
+  type: InboundEventType;
+  messageIds?: string[];       // Message-IDs the event may refer to (ours is one of them)
+  recipient?: string | null;   // Address the event is about, when no Message-ID
+  detail?: string | null;
+}
+
+export interface InboundMessage {
+  from: string;
+  subject?: string | null;
+  inReplyTo?: string | null;
+  references?: string | null;
+  text?: string | null;
+}
+
+const BOUNCE_SENDERS = /^(?:.*<)?(?:mailer-daemon|postmaster)@/i;
+const BOUNCE_SUBJECTS = /undeliver|delivery status notification|delivery failure|failure notice|returned mail|mail delivery failed|could not be delivered/i;
+const COMPLAINT_SUBJECTS = /abuse report|complaint/i;
+const MESSAGE_ID = /<([^<>\s]+@[^<>\s]+)>/g;
+// DSN body fields (RFC 3464)
+const FINAL_RECIPIENT = /final-recipient:\s*rfc822;\s*([^\s]+)/i;
+const DIAGNOSTIC = /diagnostic-code:\s*([^\n]+)/i;
+
+/**
+ * Message-IDs quoted in headers or a bounce report body, without angle brackets
+ */
+export function quotedMessageIds(...texts: Array<string | null | undefined>): string[] {
+  const ids: string[] = [];
+  for (const text of texts) {
+    for (const match of (text || '').matchAll(MESSAGE_ID)) ids.push(match[1].toLowerCase());
+  }
+  return [...new Set(ids)];
+}
+
+/**
+ * Turn a forwarded message into a tracking event; null when it is neither a
+ * bounce, a complaint nor a reply to one of our emails
+ */
+export function classifyInbound(message: InboundMessage): InboundEvent | null {
+  const subject = message.subject || '';
+
+  if (BOUNCE_SENDERS.test(message.from) || BOUNCE_SUBJECTS.test(subject)) {
+    const body = message.text || '';
+    return {
+      type: 'bounce',
+      // The report quotes the original message's headers in its body
+      messageIds: quotedMessageIds(message.inReplyTo, message.references, body),
+      recipient: FINAL_RECIPIENT.exec(body)?.[1]?.toLowerCase() ?? null,
+      detail: DIAGNOSTIC.exec(body)?.[1]?.trim() || subject || null,
+    };
+  }
+
+  const messageIds = quotedMessageIds(message.inReplyTo, message.references);
+  if (COMPLAINT_SUBJECTS.test(subject) && messageIds.length > 0) {
+    return { type: 'complaint', messageIds, detail: subject };
+  }
+  if (messageIds.length > 0) {
+    return { type: 'reply', messageIds, recipient: extractAddress(message.from), detail: subject || null };
+  }
+  return null;
+}
+
+// "Name <a@b.com>" -> a@b.com
+export function extractAddress(from: string): string | null {
+  const match = /<([^<>]+)>/.exec(from) || /([^\s<>]+@[^\s<>]+)/.exec(from);
+  return match ? match[1].toLowerCase() : null;
+}
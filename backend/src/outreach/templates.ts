@@ -0,0 +1,96 @@
+/**
+ * Outreach email templates
+ *
+ * Subject and body are plain text with {{field}} merge fields, optionally with
+ * a fallback for empty values: "Loved your {{recentGame|streams}}". The body is
+ * sent as text and as escaped HTML with an unsubscribe footer.
+ */
+
+export const MERGE_FIELDS = [
+  'displayName',
+  'username',
+  'platform',
+  'recentGame',
+  'followers',
+  'campaignName',
+  'senderName',
+] as const;
+
+export type MergeField = typeof MERGE_FIELDS[number];
+export type MergeValues = Record<MergeField, string>;
+
+const FIELD_PATTERN = /\{\{\s*([a-zA-Z]+)\s*(?:\|([^}]*))?\}\}/g;
+
+const PLATFORM_NAMES: Record<string, string> = {
+  TWITCH: 'Twitch',
+  KICK: 'Kick',
+  YOUTUBE: 'YouTube',
+  TIKTOK: 'TikTok',
+  INSTAGRAM: 'Instagram',
+  FACEBOOK: 'Facebook',
+  X: 'X',
+  LINKEDIN: 'LinkedIn',
+};
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Merge fields used in a template that don't exist
+ */
+export function unknownFields(text: string): string[] {
+  const unknown = new Set<string>();
+  for (const match of text.matchAll(FIELD_PATTERN)) {
+    if (!(MERGE_FIELDS as readonly string[]).includes(match[1])) unknown.add(match[1]);
+  }
+  return [...unknown];
+}
+
+export function renderTemplate(text: string, values: MergeValues): string {
+  return text.replace(FIELD_PATTERN, (_, field: string, fallback?: string) => {
+    const value = values[field as MergeField];
+    return value || (fallback ?? '').trim();
+  });
+}
+
+/**
+ * Merge values for one creator
+ */
+export function mergeValues(
+  creator: {
+    displayName: string;
+    username: string;
+    platform: string;
+    currentGame: string | null;
+    topGames: string[];
+    primaryCategory: string | null;
+    followers: number;
+  },
+  context: { campaignName?: string | null; senderName?: string | null }
+): MergeValues {
+  return {
+    displayName: creator.displayName || creator.username,
+    username: creator.username,
+    platform: PLATFORM_NAMES[creator.platform] || creator.platform,
+    recentGame: creator.currentGame || creator.topGames[0] || creator.primaryCategory || '',
+    followers: creator.followers.toLocaleString('en-US'),
+    campaignName: context.campaignName || '',
+    senderName: context.senderName || '',
+  };
+}
+
+/**
+ * Text and HTML parts of a rendered body, with the unsubscribe link appended
+ */
+export function buildBodies(body: string, unsubscribeUrl: string): { text: string; html: string } {
+  const paragraphs = body
+    .trim()
+    .split(/\n{2,}/)
+    .map(p => `<p>${escapeHtml(p).replace(/\n/g, '<br>')}</p>`)
+    .join('');
+
+  return {
+    text: `${body.trim()}\n\n--\nDon't want these emails? Unsubscribe: ${unsubscribeUrl}`,
+    html: `${paragraphs}<p style="font-size:12px;color:#888">Don't want these emails? <a href="${escapeHtml(unsubscribeUrl)}">Unsubscribe</a></p>`,
+  };
+}
@@ -0,0 +1,109 @@
+import { Platform } from '@prisma/client';
+import { httpFixtures } from '../../test/httpFixtures';
+import { KickAdapter } from '../kickAdapter';
+
+describe('KickAdapter', () => {
+  let adapter: KickAdapter;
+
+  beforeEach(() => {
+    adapter = new KickAdapter();
+    httpFixtures.use('kick');
+  });
+
+  describe('with public API credentials', () => {
+    it('checks live status in one batched channels call', async () => {
+      const live = await adapter.checkLive([
+        { username: 'westcol' },
+        { username: 'roshtein' },
+        { username: 'offline_guy' },
+      ]);
+
+      expect([...live.keys()]).toEqual(['westcol']);
+      expect(live.get('westcol')).toEqual({
+        isLive: true,
+        viewers: 52013,
+        title: 'JUGANDO CON LOS PANAS',
+        game: 'Just Chatting',
+        startedAt: new Date('2026-10-18T18:00:00Z'),
+      });
+      expect(httpFixtures.requestsTo('https://api.kick.com/public/v1/channels')).toHaveLength(1);
+      expect(httpFixtures.requestsTo('https://kick.com/api/v2/channels/westcol')).toHaveLength(0);
+    });
+
+    it('discovers category livestreams', async () => {
+      const creators = await adapter.discover({ category: 'slots', limit: 2 });
+
+      expect(creators).toEqual([
+        expect.objectContaining({
+          username: 'roshtein',
+          displayName: 'Roshtein',
+          platform: Platform.KICK,
+          followers: 412000,
+          currentViewers: 21044,
+          currentGame: 'Slots & Casino',
+          language: 'en',
+          title: '$100K BONUS HUNT OPENING',
+        }),
+        expect.objectContaining({ username: 'westcol', language: 'es' }),
+      ]);
+    });
+  });
+
+  describe('without credentials', () => {
+    const saved = { id: process.env.KICK_CLIENT_ID, secret: process.env.KICK_CLIENT_SECRET };
+
+    beforeEach(() => {
+      delete process.env.KICK_CLIENT_ID;
+      delete process.env.KICK_CLIENT_SECRET;
+    });
+
+    afterEach(() => {
+      process.env.KICK_CLIENT_ID = saved.id;
+      process.env.KICK_CLIENT_SECRET = saved.secret;
+    });
+
+    it('falls back to one website v2 call per channel', async () => {
+      const live = await adapter.checkLive([{ username: 'westcol' }, { username: 'offline_guy' }, { username: 'ghost_channel' }]);
+
+      expect([...live.keys()]).toEqual(['westcol']);
+      expect(live.get('westcol')).toMatchObject({ viewers: 52013, game: 'Just Chatting' });
+      expect(httpFixtures.requestsTo('https://id.kick.com/oauth/token')).toHaveLength(0);
+    });
+
+    it('falls back to the v1 subcategory listing when the v2 category endpoint is blocked', async () => {
+      const creators = await adapter.discover({ category: 'slots', languages: ['english'] });
+
+      expect(creators.map(c => c.username)).toEqual(['roshtein']);
+      expect(creators[0]).toMatchObject({ title: 'BONUS HUNT', currentViewers: 21044 });
+    });
+  });
+
+  describe('fetchProfile / extractSocials', () => {
+    it('reads the v2 channel', async () => {
+      await expect(adapter.fetchProfile('westcol')).resolves.toEqual({
+        username: 'westcol',
+        displayName: 'Westcol',
+        profileUrl: 'https://kick.com/westcol',
+        avatarUrl: 'https://files.kick.com/images/user/1218471/profile_image/westcol.webp',
+        followers: 1890000,
+        bio: 'Colombiano. Negocios: westcolmanagement@gmail.com',
+        externalId: '1184279',
+      });
+      await expect(adapter.fetchProfile('ghost_channel')).resolves.toBeNull();
+    });
+
+    it('turns the profile handle fields into links, skipping empty ones', async () => {
+      const socials = await adapter.extractSocials('westcol');
+
+      expect(socials?.followers).toBe(1890000);
+      expect(socials?.links).toEqual([
+        { platform: Platform.INSTAGRAM, url: 'https://instagram.com/westcol', handle: 'westcol' },
+        { platform: Platform.X, url: 'https://twitter.com/westcol', handle: 'westcol' },
+        { platform: Platform.YOUTUBE, url: 'https://youtube.com/channel/UCwestcol0000000000000', handle: 'channel/UCwestcol0000000000000' },
+        { platform: Platform.TIKTOK, url: 'https://tiktok.com/@westcol_', handle: 'westcol_' },
+      ]);
+
+      await expect(adapter.extractSocials('offline_guy')).resolves.toEqual({ links: [], followers: 12, description: undefined });
+    });
+  });
+});
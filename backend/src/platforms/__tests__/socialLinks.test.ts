@@ -0,0 +1,49 @@
+import { Platform } from '@prisma/client';
+import { handleLink, toSocialLinkRef } from '../socialLinks';
+
+describe('toSocialLinkRef', () => {
+  it.each([
+    ['https://www.instagram.com/juansguarnizo/', Platform.INSTAGRAM, 'juansguarnizo'],
+    ['https://x.com/auronplay', Platform.X, 'auronplay'],
+    ['twitter.com/ibai', Platform.X, 'ibai'],
+    ['https://www.tiktok.com/@rivers_gg?lang=es', Platform.TIKTOK, 'rivers_gg'],
+    ['https://m.facebook.com/elrubiusOMG', Platform.FACEBOOK, 'elrubiusOMG'],
+    ['https://www.linkedin.com/in/jane-doe-123/', Platform.LINKEDIN, 'jane-doe-123'],
+    ['https://linkedin.com/company/envisioner', Platform.LINKEDIN, 'envisioner'],
+    ['https://www.youtube.com/@Spreen', Platform.YOUTUBE, 'Spreen'],
+    ['https://youtube.com/channel/UC1234567890abcdefghijkl', Platform.YOUTUBE, 'UC1234567890abcdefghijkl'],
+    ['https://youtu.be/dQw4w9WgXcQ', Platform.YOUTUBE, 'dQw4w9WgXcQ'],
+    ['https://www.twitch.tv/elxokas/videos', Platform.TWITCH, 'elxokas'],
+    ['https://kick.com/westcol', Platform.KICK, 'westcol'],
+  ])('%s -> %s/%s', (url, platform, handle) => {
+    expect(toSocialLinkRef(url)).toMatchObject({ platform, handle });
+  });
+
+  it('keeps untracked hosts with a null platform', () => {
+    expect(toSocialLinkRef('https://discord.gg/abcdef')).toEqual({
+      platform: null,
+      url: 'https://discord.gg/abcdef',
+      handle: 'abcdef',
+    });
+  });
+
+  it('adds a scheme to bare hosts', () => {
+    expect(toSocialLinkRef('instagram.com/foo')?.url).toBe('https://instagram.com/foo');
+  });
+
+  it('returns null for unparseable input', () => {
+    expect(toSocialLinkRef('http://exa mple.com/x')).toBeNull();
+  });
+});
+
+describe('handleLink', () => {
+  it('builds canonical profile URLs from bare handles', () => {
+    expect(handleLink(Platform.TIKTOK, '@rivers_gg')).toEqual({
+      platform: Platform.TIKTOK,
+      url: 'https://tiktok.com/@rivers_gg',
+      handle: 'rivers_gg',
+    });
+    expect(handleLink(Platform.LINKEDIN, ' jane-doe ').url).toBe('https://linkedin.com/in/jane-doe');
+    expect(handleLink(Platform.X, 'ibai').url).toBe('https://twitter.com/ibai');
+  });
+});
@@ -0,0 +1,132 @@
+import { Platform } from '@prisma/client';
+import { httpFixtures } from '../../test/httpFixtures';
+import { TwitchAdapter } from '../twitchAdapter';
+
+const HELIX = 'https://api.twitch.tv/helix';
+
+describe('TwitchAdapter', () => {
+  let adapter: TwitchAdapter;
+
+  beforeEach(() => {
+    adapter = new TwitchAdapter();
+    httpFixtures.use('twitch-helix', 'twitch-gql');
+  });
+
+  describe('fetchProfile', () => {
+    it('combines the user and follower total', async () => {
+      await expect(adapter.fetchProfile('elxokas')).resolves.toEqual({
+        username: 'elxokas',
+        displayName: 'elxokas',
+        profileUrl: 'https://twitch.tv/elxokas',
+        avatarUrl: 'https://static-cdn.jtvnw.net/jtv_user_pictures/elxokas-profile_image-300x300.png',
+        followers: 3712405,
+        bio: 'Streamer de Valladolid. Negocios: negocios@elxokas.com',
+        externalId: '31919607',
+      });
+    });
+
+    it('returns null for unknown logins', async () => {
+      await expect(adapter.fetchProfile('doesnotexist_404')).resolves.toBeNull();
+    });
+
+    it('sends the app token and client id to Helix, fetching the token once', async () => {
+      await adapter.fetchProfile('elxokas');
+      await adapter.fetchProfile('elxokas');
+
+      expect(httpFixtures.requestsTo('https://id.twitch.tv/oauth2/token')).toHaveLength(1);
+      expect(httpFixtures.requestsTo(`${HELIX}/users`)).toHaveLength(2);
+    });
+  });
+
+  describe('checkLive', () => {
+    it('keys live streams by lowercased login and leaves offline channels out', async () => {
+      const live = await adapter.checkLive([
+        { username: 'elxokas' },
+        { username: 'ibai' },
+        { username: 'auronplay' },
+      ]);
+
+      expect([...live.keys()].sort()).toEqual(['elxokas', 'ibai']);
+      expect(live.get('ibai')).toEqual({
+        isLive: true,
+        viewers: 95120,
+        title: 'KOI vs G2 - WATCHPARTY',
+        game: 'League of Legends',
+        startedAt: new Date('2026-10-18T16:30:00Z'),
+      });
+    });
+
+    it('throws when Helix fails so the caller can count the batch as errored', async () => {
+      httpFixtures.add({ method: 'GET', url: `${HELIX}/streams`, status: 503, data: { error: 'Service Unavailable' } });
+
+      await expect(adapter.checkLive([{ username: 'elxokas' }])).rejects.toThrow('status code 503');
+    });
+
+    it('drops the cached token after a 401', async () => {
+      httpFixtures.add({ method: 'GET', url: `${HELIX}/streams`, status: 401, data: { message: 'Invalid OAuth token' } });
+      await expect(adapter.checkLive([{ username: 'elxokas' }])).rejects.toThrow();
+
+      httpFixtures.reset();
+      httpFixtures.use('twitch-helix');
+      await adapter.checkLive([{ username: 'elxokas' }, { username: 'ibai' }, { username: 'auronplay' }]);
+
+      expect(httpFixtures.requestsTo('https://id.twitch.tv/oauth2/token')).toHaveLength(1);
+    });
+  });
+
+  describe('discover', () => {
+    it('pages through category streams and fills avatars from /users', async () => {
+      const creators = await adapter.discover({ category: '509658', languages: ['es', 'pt'] });
+
+      expect(creators.map(c => c.username)).toEqual(['elxokas', 'gaules']);
+      expect(creators[1]).toMatchObject({
+        displayName: 'Gaules',
+        platform: Platform.TWITCH,
+        profileUrl: 'https://twitch.tv/gaules',
+        avatarUrl: 'https://static-cdn.jtvnw.net/jtv_user_pictures/gaules-profile_image-300x300.png',
+        isLive: true,
+        currentViewers: 40210,
+        language: 'pt',
+        externalId: '92038375',
+      });
+      expect(httpFixtures.requestsTo(`${HELIX}/streams`)).toHaveLength(2);
+    });
+
+    it('searches channels and filters by broadcaster language', async () => {
+      const creators = await adapter.discover({ query: 'valorant', liveOnly: true, languages: ['es'] });
+
+      expect(creators).toHaveLength(1);
+      expect(creators[0]).toMatchObject({
+        username: 'mixwell',
+        profileUrl: 'https://twitch.tv/Mixwell',
+        currentGame: 'VALORANT',
+        tags: ['Español', 'FPS'],
+        externalId: '51496027',
+      });
+    });
+
+    it('honours the limit', async () => {
+      const creators = await adapter.discover({ category: '509658', languages: ['es', 'pt'], limit: 1 });
+      expect(creators).toHaveLength(1);
+    });
+  });
+
+  describe('extractSocials', () => {
+    it('maps the GQL social panel to social link refs', async () => {
+      const socials = await adapter.extractSocials('elxokas');
+
+      expect(socials?.description).toBe('Streamer de Valladolid. Negocios: negocios@elxokas.com');
+      expect(socials?.links).toEqual([
+        { platform: Platform.INSTAGRAM, url: 'https://www.instagram.com/elxokas/', handle: 'elxokas' },
+        { platform: Platform.X, url: 'https://twitter.com/elxokas', handle: 'elxokas' },
+        { platform: Platform.YOUTUBE, url: 'https://www.youtube.com/@elxokas', handle: 'elxokas' },
+        { platform: null, url: 'https://discord.gg/elxokas', handle: 'elxokas' },
+      ]);
+    });
+
+    it('returns null for unknown users and failed requests', async () => {
+      await expect(adapter.extractSocials('doesnotexist_404')).resolves.toBeNull();
+      await expect(adapter.extractSocials('not_in_fixtures')).resolves.toBeNull();
+    });
+  });
+});
@@ -0,0 +1,133 @@
+import { Platform } from '@prisma/client';
+import { httpFixtures } from '../../test/httpFixtures';
+import { YouTubeAdapter } from '../youtubeAdapter';
+
+const DATA_API = 'https://www.googleapis.com/youtube/v3';
+
+describe('YouTubeAdapter', () => {
+  let adapter: YouTubeAdapter;
+
+  beforeEach(() => {
+    adapter = new YouTubeAdapter();
+    httpFixtures.use('youtube-data-api', 'scrapecreators');
+  });
+
+  describe('checkLive', () => {
+    it('resolves the channel id from the profile URL and reads viewers from the videos endpoint', async () => {
+      const live = await adapter.checkLive([
+        { username: 'RubiusZ', profileUrl: 'https://youtube.com/channel/UCt9H_RK8PfHyQ7gM1g4hPMg' },
+        { username: 'UCofflineChannel000000000' },
+      ]);
+
+      expect([...live.keys()]).toEqual(['rubiusz']);
+      expect(live.get('rubiusz')).toEqual({
+        isLive: true,
+        viewers: 28817,
+        title: 'MINECRAFT EXTREMO DIA 4',
+        game: 'MINECRAFT EXTREMO DIA 4',
+        startedAt: new Date('2026-10-18T19:00:03Z'),
+      });
+    });
+
+    it('rotates to the next API key when one runs out of quota', async () => {
+      httpFixtures.add({
+        method: 'GET',
+        url: `${DATA_API}/search`,
+        status: 403,
+        once: true,
+        data: { error: { code: 403, message: 'The request cannot be completed because you have exceeded your quota.' } },
+      });
+
+      const live = await adapter.checkLive([{ username: 'UCt9H_RK8PfHyQ7gM1g4hPMg' }]);
+
+      expect(live.get('uct9h_rk8pfhyq7gm1g4hpmg')?.viewers).toBe(28817);
+      const searches = httpFixtures.requestsTo(`${DATA_API}/search`);
+      expect(searches).toHaveLength(2);
+      expect(searches[0].query.key).not.toEqual(searches[1].query.key);
+    });
+
+    it('treats other 403s as offline without rotating', async () => {
+      httpFixtures.add({
+        method: 'GET',
+        url: `${DATA_API}/search`,
+        status: 403,
+        data: { error: { code: 403, message: 'API key not valid for this project.' } },
+      });
+
+      const live = await adapter.checkLive([{ username: 'UCt9H_RK8PfHyQ7gM1g4hPMg' }]);
+
+      expect(live.size).toBe(0);
+      expect(httpFixtures.requestsTo(`${DATA_API}/search`)).toHaveLength(1);
+    });
+  });
+
+  describe('discover', () => {
+    it('searches channels and enriches them with statistics', async () => {
+      const creators = await adapter.discover({ query: 'minecraft espanol' });
+
+      expect(creators).toHaveLength(2);
+      expect(creators[0]).toEqual({
+        username: 'rubiusz',
+        displayName: 'Rubius Z',
+        platform: Platform.YOUTUBE,
+        profileUrl: 'https://youtube.com/channel/UCt9H_RK8PfHyQ7gM1g4hPMg',
+        avatarUrl: 'https://yt3.ggpht.com/rubiusz=s800',
+        followers: 11300000,
+        totalViews: 1802334455,
+        isLive: false,
+        currentViewers: 0,
+        country: 'ES',
+        description: 'Canal secundario',
+        externalId: 'UCt9H_RK8PfHyQ7gM1g4hPMg',
+      });
+      // No custom URL: the channel id doubles as username
+      expect(creators[1]).toMatchObject({ username: 'UCam8T03EOFBsNdR0thrFHdQ', avatarUrl: 'https://yt3.ggpht.com/vegetta=s88' });
+    });
+
+    it('returns nothing without a query', async () => {
+      await expect(adapter.discover({})).resolves.toEqual([]);
+      expect(httpFixtures.requests).toHaveLength(0);
+    });
+  });
+
+  describe('fetchProfile', () => {
+    it('uses the largest avatar source', async () => {
+      await expect(adapter.fetchProfile('@AuronPlay')).resolves.toEqual({
+        username: 'AuronPlay',
+        displayName: 'AuronPlay',
+        profileUrl: 'https://www.youtube.com/@AuronPlay',
+        avatarUrl: 'https://yt3.googleusercontent.com/auron=s176',
+        followers: 29700000,
+        bio: 'Vídeos de humor. Contacto: auronplay@gmail.com',
+        location: 'ES',
+        externalId: 'UCKmaL1vFLRdX7V3sBoSmyUQ',
+      });
+    });
+  });
+
+  describe('extractSocials', () => {
+    it('keeps one link per platform, preferring dedicated fields, and skips YouTube', async () => {
+      const socials = await adapter.extractSocials('AuronPlay');
+
+      expect(socials?.links).toEqual([
+        { platform: Platform.INSTAGRAM, url: 'https://instagram.com/auronplay', handle: 'auronplay' },
+        { platform: Platform.X, url: 'https://twitter.com/auronplay', handle: 'auronplay' },
+        { platform: Platform.TIKTOK, url: 'https://www.tiktok.com/@auronplay', handle: 'auronplay' },
+      ]);
+      expect(socials?.followers).toBe(29700000);
+    });
+
+    it('looks channels up by URL when the profile URL has a channel id', async () => {
+      const socials = await adapter.extractSocials('rubiusz', 'https://www.youtube.com/channel/UCt9H_RK8PfHyQ7gM1g4hPMg');
+
+      expect(socials?.links.map(l => [l.platform, l.handle])).toEqual([
+        [Platform.INSTAGRAM, 'elrubius'],
+        [Platform.X, 'Rubiu5'],
+      ]);
+    });
+
+    it('returns null when ScrapeCreators has no channel', async () => {
+      await expect(adapter.extractSocials('ghostchannel')).resolves.toBeNull();
+    });
+  });
+});
@@ -0,0 +1,261 @@
+import axios from 'axios';
+import { Platform } from '@prisma/client';
+import { logger } from '../utils/database';
+import { getConfig } from '../utils/configFromDb';
+import { cacheService } from '../services/cacheService';
+import { handleLink } from './socialLinks';
+import {
+  PlatformAdapter, LiveCheckTarget, LiveStatus, PlatformProfile,
+  DiscoveredCreator, DiscoverOptions, SocialExtraction, SocialLinkRef, RateLimitPolicy,
+} from './types';
+
+/**
+ * Kick adapter
+ *
+ * Prefers the official public API (KICK_CLIENT_ID / KICK_CLIENT_SECRET); without
+ * credentials it falls back to the website's v2 JSON endpoints, which need a
+ * browser User-Agent and only return one channel per request.
+ */
+
+const PUBLIC_API = 'https://api.kick.com/public/v1';
+const SITE_API_V2 = 'https://kick.com/api/v2';
+const SITE_API_V1 = 'https://kick.com/api/v1';
+
+const kickTokenKey = (clientId: string): string => `oauth:kick:${clientId}`;
+const BROWSER_HEADERS = {
+  'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
+  'Accept': 'application/json',
+};
+
+export class KickAdapter implements PlatformAdapter {
+  readonly platform = Platform.KICK;
+  readonly supportsLive = true;
+  // Public API caps channel lookups at 30 slugs per request
+  readonly rateLimit: RateLimitPolicy = { batchSize: 30, concurrency: 5, minIntervalMs: 200 };
+
+  private clientId: string | null = null;
+
+  /**
+   * App token for the public API (shared across instances through the cache),
+   * or null when no credentials are configured
+   */
+  private async getToken(): Promise<string | null> {
+    const clientId = await getConfig('KICK_CLIENT_ID');
+    const clientSecret = await getConfig('KICK_CLIENT_SECRET');
+    if (!clientId || !clientSecret) return null;
+    this.clientId = clientId;
+
+    const cached = await cacheService.get(kickTokenKey(clientId));
+    if (cached) return cached;
+
+    const response = await axios.post(
+      'https://id.kick.com/oauth/token',
+      new URLSearchParams({
+        client_id: clientId,
+        client_secret: clientSecret,
+        grant_type: 'client_credentials'
+      }),
+      { headers: { 'Content-Type': 'application/x-www-form-urlencoded' }, timeout: 10000 }
+    );
+
+    const token: string = response.data.access_token;
+    // Kick tokens last an hour; refresh 5 minutes early
+    await cacheService.set(kickTokenKey(clientId), token, 55 * 60);
+
+    logger.info('✅ Kick token refreshed');
+    return token;
+  }
+
+  private async publicApi(path: string, token: string, params?: any): Promise<any> {
+    try {
+      const response = await axios.get(`${PUBLIC_API}${path}`, {
+        headers: { 'Accept': 'application/json', 'Authorization': `Bearer ${token}` },
+        params,
+        timeout: 15000
+      });
+      return response.data;
+    } catch (error: any) {
+      if (error.response?.status === 401 && this.clientId) {
+        await cacheService.del(kickTokenKey(this.clientId));
+      }
+      throw error;
+    }
+  }
+
+  private async getChannel(username: string): Promise<any | null> {
+    try {
+      const response = await axios.get(`${SITE_API_V2}/channels/${username}`, {
+        headers: BROWSER_HEADERS,
+        timeout: 10000
+      });
+      return response.data || null;
+    } catch {
+      return null;
+    }
+  }
+
+  async fetchProfile(username: string): Promise<PlatformProfile | null> {
+    const channel = await this.getChannel(username);
+    if (!channel?.slug) return null;
+
+    return {
+      username: channel.slug.toLowerCase(),
+      displayName: channel.user?.username || channel.slug,
+      profileUrl: `https://kick.com/${channel.slug}`,
+      avatarUrl: channel.user?.profile_pic || undefined,
+      followers: channel.followers_count || 0,
+      bio: channel.user?.bio || undefined,
+      externalId: channel.id ? String(channel.id) : undefined,
+    };
+  }
+
+  async checkLive(targets: LiveCheckTarget[]): Promise<Map<string, LiveStatus>> {
+    const live = new Map<string, LiveStatus>();
+    const token = await this.getToken();
+
+    if (!token) {
+      for (const target of targets) {
+        const channel = await this.getChannel(target.username);
+        const livestream = channel?.livestream;
+        if (livestream?.is_live) {
+          live.set(target.username.toLowerCase(), {
+            isLive: true,
+            viewers: livestream.viewer_count,
+            title: livestream.session_title || livestream.title,
+            game: livestream.categories?.[0]?.name,
+            startedAt: livestream.start_time || livestream.started_at
+              ? new Date(livestream.start_time || livestream.started_at)
+              : undefined
+          });
+        }
+      }
+      return live;
+    }
+
+    for (let i = 0; i < targets.length; i += this.rateLimit.batchSize) {
+      const params = new URLSearchParams();
+      targets.slice(i, i + this.rateLimit.batchSize).forEach(t => params.append('slug', t.username));
+
+      const response = await this.publicApi(`/channels?${params.toString()}`, token);
+      const channels = Array.isArray(response?.data) ? response.data : [];
+
+      for (const channel of channels) {
+        const stream = channel.stream;
+        if (!channel.slug || !stream?.is_live) continue;
+        live.set(channel.slug.toLowerCase(), {
+          isLive: true,
+          viewers: stream.viewer_count || 0,
+          title: channel.stream_title || '',
+          game: channel.category?.name || '',
+          startedAt: stream.start_time ? new Date(stream.start_time) : undefined
+        });
+      }
+    }
+
+    return live;
+  }
+
+  /**
+   * category = category slug, neither = top live streams by viewers.
+   * Kick has no channel search, so `query` is ignored.
+   */
+  async discover(options: DiscoverOptions = {}): Promise<DiscoveredCreator[]> {
+    const limit = options.limit ?? 100;
+    const token = await this.getToken();
+
+    const streams = token
+      ? await this.discoverPublic(token, options.category, limit)
+      : await this.discoverSite(options.category, limit);
+
+    const discovered: DiscoveredCreator[] = [];
+    for (const stream of streams) {
+      const channel = stream.channel || stream;
+      const slug = (channel.slug || channel.username || '').toLowerCase();
+      if (!slug) continue;
+
+      const language = (stream.language || channel.language || '').toLowerCase();
+      if (options.languages && !options.languages.some(l => language.includes(l))) continue;
+
+      discovered.push({
+        username: slug,
+        displayName: channel.user?.username || channel.slug || slug,
+        platform: Platform.KICK,
+        profileUrl: `https://kick.com/${slug}`,
+        avatarUrl: channel.user?.profile_pic || channel.thumbnail?.url,
+        followers: channel.followers_count || channel.followersCount || 0,
+        isLive: true,
+        currentViewers: stream.viewer_count || stream.viewers || 0,
+        currentGame: stream.category?.name,
+        language: language || undefined,
+        title: stream.session_title || stream.stream_title,
+      });
+    }
+
+    return discovered.slice(0, limit);
+  }
+
+  private async discoverPublic(token: string, category: string | undefined, limit: number): Promise<any[]> {
+    const response = category
+      ? await this.publicApi(`/categories/${category}/livestreams`, token, { limit: Math.min(limit, 100) })
+      : await this.publicApi('/livestreams', token, { limit: Math.min(limit, 100), sort: 'viewers' });
+    return response?.data || [];
+  }
+
+  private async discoverSite(category: string | undefined, limit: number): Promise<any[]> {
+    const pageSize = 50;
+    const streams: any[] = [];
+
+    for (let page = 1; streams.length < limit; page++) {
+      const primary = category
+        ? `${SITE_API_V2}/channels?category=${category}&sort=viewers&limit=${pageSize}&page=${page}`
+        : `${SITE_API_V1}/livestreams?sort=viewers&limit=${pageSize}&page=${page}`;
+
+      let data: any;
+      try {
+        data = (await axios.get(primary, { headers: BROWSER_HEADERS, timeout: 15000 })).data;
+      } catch {
+        if (!category) break;
+        try {
+          data = (await axios.get(
+            `${SITE_API_V1}/subcategories/${category}/livestreams?page=${page}&limit=${pageSize}`,
+            { headers: BROWSER_HEADERS, timeout: 15000 }
+          )).data;
+        } catch {
+          if (page === 1) logger.warn(`Kick API unavailable for category ${category}`);
+          break;
+        }
+      }
+
+      const pageStreams = data?.data || data || [];
+      if (!Array.isArray(pageStreams) || pageStreams.length === 0) break;
+      streams.push(...pageStreams);
+
+      if (pageStreams.length < pageSize) break;
+      await new Promise(r => setTimeout(r, 1500));
+    }
+
+    return streams;
+  }
+
+  async extractSocials(username: string): Promise<SocialExtraction | null> {
+    const channel = await this.getChannel(username);
+    if (!channel?.user) return null;
+
+    const user = channel.user;
+    const links = [
+      user.instagram && handleLink(Platform.INSTAGRAM, user.instagram),
+      user.twitter && handleLink(Platform.X, user.twitter),
+      user.youtube && handleLink(Platform.YOUTUBE, user.youtube),
+      user.tiktok && handleLink(Platform.TIKTOK, user.tiktok),
+      user.facebook && handleLink(Platform.FACEBOOK, user.facebook),
+    ].filter((link): link is SocialLinkRef => !!link);
+
+    return {
+      links,
+      followers: channel.followers_count || 0,
+      description: user.bio || undefined,
+    };
+  }
+}
+
+export const kickAdapter = new KickAdapter();
@@ -0,0 +1,69 @@
+import { Platform } from '@prisma/client';
+import { PlatformAdapter } from './types';
+import { twitchAdapter } from './twitchAdapter';
+import { kickAdapter } from './kickAdapter';
+import { youtubeAdapter } from './youtubeAdapter';
+import { tiktokAdapter, instagramAdapter, xAdapter, facebookAdapter, linkedinAdapter } from './scrapeCreatorsAdapter';
+
+/**
+ * Platform registry
+ *
+ * Single lookup point for platform adapters. Adding a platform = add the enum
+ * value, write its adapter module, register it below.
+ */
+
+class PlatformRegistry {
+  private adapters = new Map<Platform, PlatformAdapter>();
+
+  register(adapter: PlatformAdapter): void {
+    if (this.adapters.has(adapter.platform)) {
+      throw new Error(`Platform adapter already registered for ${adapter.platform}`);
+    }
+    this.adapters.set(adapter.platform, adapter);
+  }
+
+  has(platform: string): boolean {
+    return this.adapters.has(platform.toUpperCase() as Platform);
+  }
+
+  /**
+   * Adapter for a platform (accepts enum values or lowercase names like 'twitch')
+   */
+  get(platform: string): PlatformAdapter {
+    const adapter = this.adapters.get(platform.toUpperCase() as Platform);
+    if (!adapter) {
+      throw new Error(`No platform adapter registered for ${platform}`);
+    }
+    return adapter;
+  }
+
+  list(): PlatformAdapter[] {
+    return [...this.adapters.values()];
+  }
+
+  /**
+   * Adapters whose platform has live streams we poll
+   */
+  liveCapable(): PlatformAdapter[] {
+    return this.list().filter(a => a.supportsLive);
+  }
+}
+
+export const platformRegistry = new PlatformRegistry();
+
+[
+  twitchAdapter,
+  kickAdapter,
+  youtubeAdapter,
+  tiktokAdapter,
+  instagramAdapter,
+  xAdapter,
+  facebookAdapter,
+  linkedinAdapter,
+].forEach(adapter => platformRegistry.register(adapter));
+
+// Fail at startup, not mid-job, if a Platform enum value has no adapter
+const unregistered = Object.values(Platform).filter(p => !platformRegistry.has(p));
+if (unregistered.length > 0) {
+  throw new Error(`Missing platform adapters: ${unregistered.join(', ')}`);
+}
@@ -0,0 +1,81 @@
+import { Platform } from '@prisma/client';
+import { scrapeCreatorsService } from '../services/scrapeCreatorsService';
+import { handleLink } from './socialLinks';
+import {
+  PlatformAdapter, PlatformProfile, LiveStatus, DiscoveredCreator,
+  SocialExtraction, SocialLinkRef, RateLimitPolicy,
+} from './types';
+
+/**
+ * ScrapeCreators-backed adapter for the social (non-streaming) platforms
+ *
+ * One instance per platform. Profiles cost 1 credit each; these platforms have
+ * no live streams we track, and new handles arrive through the social sync
+ * queue (links found on streaming profiles) rather than discover().
+ */
+
+const BIO_HANDLE_PLATFORMS: Array<[keyof ReturnType<typeof scrapeCreatorsService.extractHandlesFromContent>, Platform]> = [
+  ['tiktok', Platform.TIKTOK],
+  ['instagram', Platform.INSTAGRAM],
+  ['x', Platform.X],
+  ['facebook', Platform.FACEBOOK],
+  ['linkedin', Platform.LINKEDIN],
+  ['twitch', Platform.TWITCH],
+  ['youtube', Platform.YOUTUBE],
+];
+
+export class ScrapeCreatorsAdapter implements PlatformAdapter {
+  readonly supportsLive = false;
+  readonly rateLimit: RateLimitPolicy = { batchSize: 1, concurrency: 5, minIntervalMs: 200 };
+
+  constructor(readonly platform: Platform) {}
+
+  async fetchProfile(username: string): Promise<PlatformProfile | null> {
+    const profile = await scrapeCreatorsService.fetchProfile(this.platform, username);
+    if (!profile) return null;
+
+    const data = scrapeCreatorsService.mapProfileToStreamer(this.platform, profile);
+    if (!data.username) return null;
+
+    return {
+      username: data.username,
+      displayName: data.displayName || data.username,
+      profileUrl: data.profileUrl,
+      avatarUrl: data.avatarUrl || undefined,
+      followers: data.followers || 0,
+      bio: data.profileDescription || undefined,
+    };
+  }
+
+  async checkLive(): Promise<Map<string, LiveStatus>> {
+    return new Map();
+  }
+
+  async discover(): Promise<DiscoveredCreator[]> {
+    return [];
+  }
+
+  async extractSocials(username: string): Promise<SocialExtraction | null> {
+    const profile = await this.fetchProfile(username);
+    if (!profile) return null;
+
+    const handles = scrapeCreatorsService.extractHandlesFromContent(profile.bio || '');
+    const links: SocialLinkRef[] = BIO_HANDLE_PLATFORMS
+      .filter(([key, platform]) => handles[key] && platform !== this.platform)
+      .map(([key, platform]) => handleLink(platform, handles[key]!));
+
+    return {
+      links,
+      description: profile.bio,
+      followers: profile.followers,
+      displayName: profile.displayName,
+      avatarUrl: profile.avatarUrl,
+    };
+  }
+}
+
+export const tiktokAdapter = new ScrapeCreatorsAdapter(Platform.TIKTOK);
+export const instagramAdapter = new ScrapeCreatorsAdapter(Platform.INSTAGRAM);
+export const xAdapter = new ScrapeCreatorsAdapter(Platform.X);
+export const facebookAdapter = new ScrapeCreatorsAdapter(Platform.FACEBOOK);
+export const linkedinAdapter = new ScrapeCreatorsAdapter(Platform.LINKEDIN);
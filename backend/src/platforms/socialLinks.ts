@@ -0,0 +1,56 @@
+import { Platform } from '@prisma/client';
+import { SocialLinkRef } from './types';
+
+const HOST_PLATFORMS: Array<[RegExp, Platform]> = [
+  [/(^|\.)instagram\.com$/, Platform.INSTAGRAM],
+  [/(^|\.)(twitter|x)\.com$/, Platform.X],
+  [/(^|\.)tiktok\.com$/, Platform.TIKTOK],
+  [/(^|\.)(facebook|fb)\.com$/, Platform.FACEBOOK],
+  [/(^|\.)linkedin\.com$/, Platform.LINKEDIN],
+  [/(^|\.)(youtube\.com|youtu\.be)$/, Platform.YOUTUBE],
+  [/(^|\.)twitch\.tv$/, Platform.TWITCH],
+  [/(^|\.)kick\.com$/, Platform.KICK],
+];
+
+/**
+ * Normalize a profile URL into { platform, url, handle }
+ * Handles linkedin.com/in/x, youtube.com/@x, /c/x, /channel/x and tiktok.com/@x
+ */
+export function toSocialLinkRef(url: string): SocialLinkRef | null {
+  const withScheme = /^https?:\/\//i.test(url) ? url : `https://${url}`;
+  let parsed: URL;
+  try {
+    parsed = new URL(withScheme);
+  } catch {
+    return null;
+  }
+
+  const host = parsed.hostname.toLowerCase().replace(/^www\.|^m\./, '');
+  const platform = HOST_PLATFORMS.find(([pattern]) => pattern.test(host))?.[1] ?? null;
+
+  const path = parsed.pathname.replace(/^\/+|\/+$/g, '');
+  const handle = path
+    .replace(/^(in|company|c|channel|user)\//, '')
+    .replace(/^@/, '')
+    .split('/')[0] || undefined;
+
+  return { platform, url: withScheme, handle };
+}
+
+/**
+ * Build a link from a bare handle (Kick/YouTube APIs return handles, not URLs)
+ */
+export function handleLink(platform: Platform, handle: string): SocialLinkRef {
+  const clean = handle.trim().replace(/^@/, '');
+  const urls: Partial<Record<Platform, string>> = {
+    INSTAGRAM: `https://instagram.com/${clean}`,
+    X: `https://twitter.com/${clean}`,
+    TIKTOK: `https://tiktok.com/@${clean}`,
+    FACEBOOK: `https://facebook.com/${clean}`,
+    LINKEDIN: `https://linkedin.com/in/${clean}`,
+    YOUTUBE: `https://youtube.com/${clean}`,
+    TWITCH: `https://twitch.tv/${clean}`,
+    KICK: `https://kick.com/${clean}`,
+  };
+  return { platform, url: urls[platform] || clean, handle: clean };
+}
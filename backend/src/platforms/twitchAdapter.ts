@@ -0,0 +1,254 @@
+import axios from 'axios';
+import { Platform } from '@prisma/client';
+import { logger } from '../utils/database';
+import { getConfig } from '../utils/configFromDb';
+import { cacheService } from '../services/cacheService';
+import { toSocialLinkRef } from './socialLinks';
+import {
+  PlatformAdapter, LiveCheckTarget, LiveStatus, PlatformProfile,
+  DiscoveredCreator, DiscoverOptions, SocialExtraction, SocialLinkRef, RateLimitPolicy,
+} from './types';
+
+/**
+ * Twitch adapter
+ *
+ * Helix API with an app access token (TWITCH_CLIENT_ID / TWITCH_CLIENT_SECRET from
+ * env or system config). Social links come from the public GQL endpoint, which
+ * exposes the "socialMedias" panel Helix doesn't.
+ */
+
+const HELIX_API = 'https://api.twitch.tv/helix';
+const GQL_URL = 'https://gql.twitch.tv/gql';
+const GQL_CLIENT_ID = 'kimne78kx3ncx6brgo4mv6wki5h1ko';
+
+// Keyed by client id so a credential change doesn't reuse the old app's token
+export const twitchTokenKey = (clientId: string): string => `oauth:twitch:${clientId}`;
+
+export class TwitchAdapter implements PlatformAdapter {
+  readonly platform = Platform.TWITCH;
+  readonly supportsLive = true;
+  // Helix accepts up to 100 logins per request; 800 req/min app limit
+  readonly rateLimit: RateLimitPolicy = { batchSize: 100, concurrency: 5, minIntervalMs: 100 };
+
+  private clientId: string | null = null;
+
+  /**
+   * App access token, shared across instances through the cache
+   */
+  private async getToken(): Promise<string> {
+    const clientId = await getConfig('TWITCH_CLIENT_ID');
+    const clientSecret = await getConfig('TWITCH_CLIENT_SECRET');
+    if (!clientId || !clientSecret) {
+      throw new Error('Twitch credentials not configured');
+    }
+    this.clientId = clientId;
+
+    const cached = await cacheService.get(twitchTokenKey(clientId));
+    if (cached) return cached;
+
+    const response = await axios.post(
+      'https://id.twitch.tv/oauth2/token',
+      new URLSearchParams({
+        client_id: clientId,
+        client_secret: clientSecret,
+        grant_type: 'client_credentials'
+      }),
+      {
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        timeout: 10000
+      }
+    );
+
+    const token: string = response.data.access_token;
+    await cacheService.set(twitchTokenKey(clientId), token, response.data.expires_in - 300); // 5 min buffer
+
+    logger.info('✅ Twitch token refreshed');
+    return token;
+  }
+
+  private async helix<T = any>(path: string, params: Record<string, any>): Promise<T> {
+    const token = await this.getToken();
+    try {
+      const response = await axios.get(`${HELIX_API}${path}`, {
+        headers: {
+          'Client-ID': this.clientId!,
+          'Authorization': `Bearer ${token}`
+        },
+        params,
+        timeout: 15000
+      });
+      return response.data;
+    } catch (error: any) {
+      // Force a fresh token next time if this one was revoked
+      if (error.response?.status === 401) {
+        await cacheService.del(twitchTokenKey(this.clientId!));
+      }
+      throw error;
+    }
+  }
+
+  async fetchProfile(username: string): Promise<PlatformProfile | null> {
+    try {
+      const users = await this.helix('/users', { login: username });
+      const user = users.data?.[0];
+      if (!user) return null;
+
+      const followers = await this.helix('/channels/followers', { broadcaster_id: user.id, first: 1 });
+
+      return {
+        username: user.login.toLowerCase(),
+        displayName: user.display_name,
+        profileUrl: `https://twitch.tv/${user.login}`,
+        avatarUrl: user.profile_image_url,
+        followers: followers.total || 0,
+        bio: user.description || undefined,
+        externalId: user.id,
+      };
+    } catch (error: any) {
+      logger.error(`Failed to fetch Twitch profile for ${username}:`, { message: error?.message });
+      return null;
+    }
+  }
+
+  async checkLive(targets: LiveCheckTarget[]): Promise<Map<string, LiveStatus>> {
+    const live = new Map<string, LiveStatus>();
+
+    for (let i = 0; i < targets.length; i += this.rateLimit.batchSize) {
+      const logins = targets.slice(i, i + this.rateLimit.batchSize).map(t => t.username);
+      const response = await this.helix('/streams', { user_login: logins });
+
+      for (const stream of response.data || []) {
+        live.set(stream.user_login.toLowerCase(), {
+          isLive: true,
+          viewers: stream.viewer_count,
+          title: stream.title,
+          game: stream.game_name,
+          startedAt: new Date(stream.started_at)
+        });
+      }
+    }
+
+    return live;
+  }
+
+  /**
+   * category = game id (live streams in that game), query = channel search,
+   * neither = top live streams
+   */
+  async discover(options: DiscoverOptions = {}): Promise<DiscoveredCreator[]> {
+    const limit = options.limit ?? 100;
+    const languages = options.languages;
+    const discovered: DiscoveredCreator[] = [];
+    let cursor: string | undefined;
+
+    while (discovered.length < limit) {
+      const params: Record<string, any> = { first: 100 };
+      if (cursor) params.after = cursor;
+
+      if (options.query) {
+        params.query = options.query;
+        params.live_only = !!options.liveOnly;
+
+        const response = await this.helix('/search/channels', params);
+        const channels = response.data || [];
+        if (channels.length === 0) break;
+
+        for (const channel of channels) {
+          if (languages && !languages.includes(channel.broadcaster_language)) continue;
+          discovered.push({
+            username: channel.broadcaster_login.toLowerCase(),
+            displayName: channel.display_name,
+            platform: Platform.TWITCH,
+            profileUrl: `https://twitch.tv/${channel.broadcaster_login}`,
+            avatarUrl: channel.thumbnail_url,
+            followers: 0,
+            isLive: channel.is_live,
+            currentGame: channel.game_name,
+            language: channel.broadcaster_language,
+            tags: channel.tags,
+            externalId: channel.id,
+          });
+        }
+        cursor = response.pagination?.cursor;
+      } else {
+        if (options.category) params.game_id = options.category;
+        if (languages) params.language = languages;
+
+        const response = await this.helix('/streams', params);
+        const streams = response.data || [];
+        if (streams.length === 0) break;
+
+        // Streams don't carry avatars; one /users call per page fills them in
+        const users = await this.helix('/users', { id: streams.map((s: any) => s.user_id) });
+        const avatars = new Map<string, string>((users.data || []).map((u: any) => [u.id, u.profile_image_url]));
+
+        for (const stream of streams) {
+          discovered.push({
+            username: stream.user_login.toLowerCase(),
+            displayName: stream.user_name,
+            platform: Platform.TWITCH,
+            profileUrl: `https://twitch.tv/${stream.user_login}`,
+            avatarUrl: avatars.get(stream.user_id),
+            followers: 0, // Fetched separately (fetchProfile / follower backfill)
+            isLive: true,
+            currentViewers: stream.viewer_count,
+            currentGame: stream.game_name,
+            language: stream.language,
+            title: stream.title,
+            tags: stream.tags,
+            externalId: stream.user_id,
+          });
+        }
+        cursor = response.pagination?.cursor;
+      }
+
+      if (!cursor) break;
+      await new Promise(r => setTimeout(r, 50));
+    }
+
+    return discovered.slice(0, limit);
+  }
+
+  async extractSocials(username: string): Promise<SocialExtraction | null> {
+    try {
+      const query = {
+        query: `
+          query GetChannelSocial($login: String!) {
+            user(login: $login) {
+              description
+              channel {
+                socialMedias {
+                  name
+                  url
+                }
+              }
+            }
+          }
+        `,
+        variables: { login: username }
+      };
+
+      const response = await axios.post(GQL_URL, query, {
+        headers: {
+          'Client-ID': GQL_CLIENT_ID,
+          'Content-Type': 'application/json',
+        },
+        timeout: 10000
+      });
+
+      const user = response.data?.data?.user;
+      if (!user) return null;
+
+      const links = (user.channel?.socialMedias || [])
+        .filter((sm: any) => sm.name && sm.url)
+        .map((sm: any) => toSocialLinkRef(sm.url))
+        .filter((link: SocialLinkRef | null): link is SocialLinkRef => !!link);
+
+      return { links, description: user.description || undefined };
+    } catch {
+      return null;
+    }
+  }
+}
+
+export const twitchAdapter = new TwitchAdapter();
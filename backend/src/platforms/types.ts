@@ -0,0 +1,102 @@
+import { Platform } from '@prisma/client';
+
+/**
+ * Platform adapter contract
+ *
+ * Every Platform enum value has exactly one adapter registered in
+ * platforms/registry.ts. Jobs and services never talk to a platform API
+ * directly - they look the adapter up and call these methods, so adding a
+ * platform (Rumble, Trovo, ...) is one new module plus a registry entry.
+ */
+
+export interface LiveStatus {
+  isLive: boolean;
+  viewers?: number;
+  title?: string;
+  game?: string;
+  startedAt?: Date;
+}
+
+export interface LiveCheckTarget {
+  username: string;
+  profileUrl?: string | null;
+}
+
+export interface PlatformProfile {
+  username: string;
+  displayName: string;
+  profileUrl: string;
+  avatarUrl?: string;
+  followers: number;
+  bio?: string;
+  location?: string;
+  externalId?: string;
+}
+
+export interface DiscoveredCreator {
+  username: string;
+  displayName: string;
+  platform: Platform;
+  profileUrl: string;
+  avatarUrl?: string;
+  followers: number;
+  isLive: boolean;
+  currentViewers?: number;
+  currentGame?: string;
+  language?: string;
+  title?: string;
+  tags?: string[];
+  externalId?: string;     // Platform's stable id (Twitch user id, YouTube channel id)
+  totalViews?: number;
+  country?: string;        // ISO-3166 alpha-2 when the platform exposes it
+  description?: string;
+}
+
+export interface DiscoverOptions {
+  category?: string;       // Platform category id/slug (Twitch game id, Kick category slug)
+  query?: string;          // Free-text channel search
+  liveOnly?: boolean;      // With query: only channels live right now
+  limit?: number;
+  languages?: string[];    // Only keep these broadcast languages (default: any)
+}
+
+export interface SocialLinkRef {
+  platform: Platform | null;  // null for links we don't track (discord, websites)
+  url: string;
+  handle?: string;
+}
+
+export interface SocialExtraction {
+  links: SocialLinkRef[];
+  description?: string;
+  followers?: number;
+  displayName?: string;
+  avatarUrl?: string;
+}
+
+export interface RateLimitPolicy {
+  batchSize: number;      // Max usernames per checkLive request
+  concurrency: number;    // Parallel requests the API tolerates
+  minIntervalMs: number;  // Pause between consecutive requests/batches
+}
+
+export interface PlatformAdapter {
+  readonly platform: Platform;
+  readonly rateLimit: RateLimitPolicy;
+  readonly supportsLive: boolean;
+
+  /** Current profile for a handle, or null when it doesn't exist / can't be fetched */
+  fetchProfile(username: string): Promise<PlatformProfile | null>;
+
+  /**
+   * Live status keyed by lowercased username. Targets missing from the map are offline.
+   * Throws when the platform request itself fails so callers can count the batch as errored.
+   */
+  checkLive(targets: LiveCheckTarget[]): Promise<Map<string, LiveStatus>>;
+
+  /** Find creators on the platform (by category, search query, or top live streams) */
+  discover(options?: DiscoverOptions): Promise<DiscoveredCreator[]>;
+
+  /** Links to the creator's other profiles, or null when the profile can't be read */
+  extractSocials(username: string, profileUrl?: string | null): Promise<SocialExtraction | null>;
+}
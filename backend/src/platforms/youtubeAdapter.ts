@@ -0,0 +1,276 @@
+import axios from 'axios';
+import { Platform } from '@prisma/client';
+import { logger } from '../utils/database';
+import { scrapeCreatorsService } from '../services/scrapeCreatorsService';
+import { handleLink, toSocialLinkRef } from './socialLinks';
+import {
+  PlatformAdapter, LiveCheckTarget, LiveStatus, PlatformProfile,
+  DiscoveredCreator, DiscoverOptions, SocialExtraction, SocialLinkRef, RateLimitPolicy,
+} from './types';
+
+/**
+ * YouTube adapter
+ *
+ * Live checks and discovery use the YouTube Data API v3 (search is 100 quota
+ * units per call, so live checks rotate across the keys in YOUTUBE_API_KEYS,
+ * comma-separated, one per Google project, plus YOUTUBE_API_KEY).
+ * Profiles and social links come from ScrapeCreators, which returns the
+ * channel's "links" section the Data API doesn't expose.
+ */
+
+const DATA_API = 'https://www.googleapis.com/youtube/v3';
+
+export class YouTubeAdapter implements PlatformAdapter {
+  readonly platform = Platform.YOUTUBE;
+  readonly supportsLive = true;
+  // One channel per search call; quota is the real limit
+  readonly rateLimit: RateLimitPolicy = { batchSize: 1, concurrency: 1, minIntervalMs: 200 };
+
+  // API key rotation across projects
+  private currentKeyIndex: number = 0;
+  private keyFailureCounts: Map<number, number> = new Map();
+
+  private apiKeys(): string[] {
+    const keys = [...(process.env.YOUTUBE_API_KEYS || '').split(','), process.env.YOUTUBE_API_KEY || '']
+      .map(key => key.trim())
+      .filter(Boolean);
+    return [...new Set(keys)];
+  }
+
+  private rotateApiKey(): void {
+    const currentCount = this.keyFailureCounts.get(this.currentKeyIndex) || 0;
+    this.keyFailureCounts.set(this.currentKeyIndex, currentCount + 1);
+
+    const count = this.apiKeys().length;
+    this.currentKeyIndex = (this.currentKeyIndex + 1) % count;
+    logger.info(`🔄 Rotated to YouTube API key ${this.currentKeyIndex + 1}/${count}`);
+  }
+
+  async fetchProfile(username: string): Promise<PlatformProfile | null> {
+    const channel = await scrapeCreatorsService.getYouTubeChannel(username);
+    if (!channel) return null;
+
+    const sources = channel.avatar?.image?.sources || [];
+    const largest = [...sources].sort((a, b) => b.width - a.width)[0];
+
+    return {
+      username: channel.channel || username.replace('@', ''),
+      displayName: channel.name || username,
+      profileUrl: `https://www.youtube.com/@${channel.channel || username.replace('@', '')}`,
+      avatarUrl: largest?.url,
+      followers: channel.subscriberCount || 0,
+      bio: channel.description || undefined,
+      location: channel.country || undefined,
+      externalId: channel.channelId,
+    };
+  }
+
+  async checkLive(targets: LiveCheckTarget[]): Promise<Map<string, LiveStatus>> {
+    const live = new Map<string, LiveStatus>();
+    if (this.apiKeys().length === 0) {
+      logger.warn('YouTube API keys not configured (YOUTUBE_API_KEYS / YOUTUBE_API_KEY)');
+      return live;
+    }
+
+    for (const target of targets) {
+      // Stored usernames are often handles; the search endpoint needs the UC... channel id
+      const channelId = target.profileUrl?.match(/\/channel\/(UC[\w-]+)/i)?.[1] || target.username;
+      const status = await this.checkChannel(channelId);
+      if (status.isLive) {
+        live.set(target.username.toLowerCase(), { ...status, game: status.title });
+      }
+    }
+
+    return live;
+  }
+
+  private async checkChannel(channelId: string, retryCount: number = 0): Promise<LiveStatus> {
+    const keys = this.apiKeys();
+    const apiKey = keys[this.currentKeyIndex % keys.length];
+
+    try {
+      // Search for a current live broadcast on the channel
+      const searchResponse = await axios.get(`${DATA_API}/search`, {
+        params: {
+          part: 'snippet',
+          channelId,
+          eventType: 'live',
+          type: 'video',
+          key: apiKey,
+          maxResults: 1
+        },
+        timeout: 10000
+      });
+
+      const liveVideo = searchResponse.data.items?.[0];
+      if (!liveVideo) {
+        return { isLive: false };
+      }
+
+      // Videos endpoint has the exact concurrent viewer count and start time
+      const videoResponse = await axios.get(`${DATA_API}/videos`, {
+        params: {
+          part: 'liveStreamingDetails,statistics,snippet',
+          id: liveVideo.id.videoId,
+          key: apiKey
+        },
+        timeout: 10000
+      });
+
+      const videoData = videoResponse.data.items?.[0];
+      if (!videoData) {
+        return { isLive: false };
+      }
+
+      const liveDetails = videoData.liveStreamingDetails;
+      const viewers = liveDetails?.concurrentViewers ? parseInt(liveDetails.concurrentViewers) : 0;
+      const startedAt = liveDetails?.actualStartTime ? new Date(liveDetails.actualStartTime) : new Date();
+
+      logger.info(`✅ YouTube live stream detected via API: ${channelId}`, {
+        videoId: liveVideo.id.videoId,
+        viewers,
+        title: liveVideo.snippet.title,
+        startedAt: startedAt.toISOString(),
+      });
+
+      return { isLive: true, viewers, title: liveVideo.snippet.title, startedAt };
+    } catch (error: any) {
+      if (error.response?.status === 403) {
+        const errorMessage = error.response?.data?.error?.message || '';
+
+        if (errorMessage.toLowerCase().includes('quota')) {
+          logger.warn(`YouTube API quota exceeded for key ${this.currentKeyIndex + 1}, rotating...`);
+
+          if (retryCount < keys.length - 1) {
+            this.rotateApiKey();
+            return this.checkChannel(channelId, retryCount + 1);
+          }
+          logger.error(`All ${keys.length} YouTube API keys exhausted quota`);
+        } else {
+          logger.error(`YouTube API 403 error: ${errorMessage}`);
+        }
+      } else if (error.response?.status === 404) {
+        logger.debug(`YouTube channel not found: ${channelId}`);
+      } else {
+        logger.debug(`YouTube API error for ${channelId}:`, { message: error?.message });
+      }
+      return { isLive: false };
+    }
+  }
+
+  /**
+   * Keyword channel search (or live videos with liveOnly), enriched with channel statistics.
+   * Uses YOUTUBE_API_KEY; returns [] when it isn't configured.
+   */
+  async discover(options: DiscoverOptions = {}): Promise<DiscoveredCreator[]> {
+    const apiKey = process.env.YOUTUBE_API_KEY;
+    if (!apiKey) {
+      logger.warn('YouTube API key not configured');
+      return [];
+    }
+    if (!options.query) return [];
+
+    const limit = options.limit ?? 50;
+    const discovered: DiscoveredCreator[] = [];
+    let pageToken: string | undefined;
+    let fetched = 0;
+
+    try {
+      while (fetched < limit) {
+        const search = await axios.get(`${DATA_API}/search`, {
+          params: {
+            part: 'snippet',
+            q: options.query,
+            key: apiKey,
+            maxResults: Math.min(50, options.liveOnly ? limit : 50),
+            pageToken,
+            ...(options.liveOnly ? { type: 'video', eventType: 'live' } : { type: 'channel' }),
+          },
+          timeout: 15000
+        });
+
+        const items = search.data.items || [];
+        if (items.length === 0) break;
+
+        const channelIds = [...new Set<string>(items.map((item: any) => item.snippet.channelId || item.id.channelId))];
+        const channels = await axios.get(`${DATA_API}/channels`, {
+          params: { part: 'snippet,statistics', id: channelIds.join(','), key: apiKey },
+          timeout: 15000
+        });
+
+        for (const channel of channels.data.items || []) {
+          const stats = channel.statistics || {};
+          const snippet = channel.snippet || {};
+
+          discovered.push({
+            username: snippet.customUrl?.replace('@', '') || channel.id,
+            displayName: snippet.title,
+            platform: Platform.YOUTUBE,
+            profileUrl: `https://youtube.com/channel/${channel.id}`,
+            avatarUrl: snippet.thumbnails?.high?.url || snippet.thumbnails?.default?.url,
+            followers: parseInt(stats.subscriberCount) || 0,
+            totalViews: parseInt(stats.viewCount) || 0,
+            isLive: !!options.liveOnly,
+            currentViewers: 0, // Would need video stats for this
+            country: snippet.country,
+            description: snippet.description,
+            externalId: channel.id,
+          });
+        }
+
+        fetched += items.length;
+        pageToken = search.data.nextPageToken;
+        if (!pageToken || options.liveOnly) break;
+
+        await new Promise(r => setTimeout(r, 100));
+      }
+    } catch (error: any) {
+      logger.error(`YouTube API error: ${error.response?.status || error.message}`, error.response?.data);
+    }
+
+    return discovered;
+  }
+
+  async extractSocials(username: string, profileUrl?: string | null): Promise<SocialExtraction | null> {
+    const lookup = profileUrl && (profileUrl.includes('/channel/') || profileUrl.includes('/@'))
+      ? profileUrl
+      : username;
+    const channel = await scrapeCreatorsService.getYouTubeChannel(lookup);
+    if (!channel) return null;
+
+    // Dedicated fields may be full URLs or bare handles depending on the channel
+    const fieldLink = (platform: Platform, value?: string | null): SocialLinkRef | null => {
+      if (!value) return null;
+      return /\.com\//i.test(value) ? toSocialLinkRef(value) : handleLink(platform, value);
+    };
+
+    const links: SocialLinkRef[] = [];
+    const seen = new Set<Platform>();
+    const candidates = [
+      fieldLink(Platform.INSTAGRAM, channel.instagram),
+      fieldLink(Platform.FACEBOOK, channel.facebook),
+      fieldLink(Platform.TIKTOK, channel.tik_tok || channel.tiktok),
+      fieldLink(Platform.X, channel.twitter),
+      fieldLink(Platform.LINKEDIN, channel.linkedin),
+      ...(channel.links || []).map(toSocialLinkRef),
+    ];
+    // One link per tracked platform (dedicated field wins over the generic links list)
+    for (const link of candidates) {
+      if (!link?.platform || link.platform === Platform.YOUTUBE || seen.has(link.platform)) continue;
+      seen.add(link.platform);
+      links.push(link);
+    }
+
+    const sources = channel.avatar?.image?.sources || [];
+
+    return {
+      links,
+      followers: channel.subscriberCount || 0,
+      description: channel.description || undefined,
+      displayName: channel.name || undefined,
+      avatarUrl: sources.length > 0 ? sources[sources.length - 1].url : undefined,
+    };
+  }
+}
+
+export const youtubeAdapter = new YouTubeAdapter();
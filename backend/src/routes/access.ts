@@ -1,39 +1,87 @@
+import crypto from 'crypto';
 import express from 'express';
 import { db } from '../utils/database';
-import { authRateLimit } from '../middleware/auth';
+import { apiRateLimit, authRateLimit } from '../middleware/auth';
+import {
+  EMBED_TOKEN_HEADER,
+  allowUnsignedEmbed,
+  getEmbedTokenTtl,
+  isEmbedTokenConfigured,
+  refreshEmbedToken,
+  signEmbedToken,
+  verifyEmbedToken,
+} from '../utils/embedToken';
 
 const router = express.Router();
 
-// Apply strict rate limiting to access validation
-router.use(authRateLimit);
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+function isValidMintSecret(provided: string | undefined): boolean {
+  const expected = process.env.EMBED_MINT_SECRET;
+  if (!expected || !provided) return false;
+  const a = Buffer.from(provided);
+  const b = Buffer.from(expected);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+// Mint an embed token for a signed-in user. Called server-to-server by the
+// Envisioner app (or a Softr webhook) holding EMBED_MINT_SECRET, never from the browser.
+router.post('/embed-token', apiRateLimit, (req, res) => {
+  if (!isEmbedTokenConfigured()) {
+    return res.status(503).json({ success: false, error: 'Embed tokens are not configured' });
+  }
 
-// Validate user access - checks Softr context and auto-creates user if needed
-router.post('/validate', async (req, res) => {
-  try {
-    const { email, softrContext } = req.body;
+  if (!isValidMintSecret(req.headers['x-embed-mint-secret'] as string | undefined)) {
+    console.warn(`⛔ Embed token mint rejected from ${req.ip}`);
+    return res.status(401).json({ success: false, error: 'Invalid mint secret' });
+  }
 
-    // 1. Check if request has Softr context (referer or header)
-    const referer = req.headers.referer || req.headers.origin || '';
-    const softrHeader = req.headers['x-softr-app'] as string;
+  const { email, name } = req.body || {};
+  if (typeof email !== 'string' || !EMAIL_PATTERN.test(email.trim())) {
+    return res.status(400).json({ success: false, error: 'A valid email is required' });
+  }
 
-    // Allow if referer contains softr domain OR has softr header OR softrContext flag
-    const isSoftrContext =
-      referer.includes('.softr.') ||
-      referer.includes('softr.io') ||
-      softrHeader === 'true' ||
-      softrContext === true;
+  const expiresIn = getEmbedTokenTtl();
+  const token = signEmbedToken({ email, name: typeof name === 'string' ? name : undefined }, expiresIn);
 
-    // Only allow localhost in explicit development mode
-    const isDevelopment = process.env.NODE_ENV === 'development' &&
-      (referer.includes('localhost') || referer.includes('127.0.0.1'));
+  res.status(200).json({ success: true, data: { token, expiresIn } });
+});
 
-    if (!isSoftrContext && !isDevelopment) {
-      console.log(`⛔ Access denied - invalid context: ${referer}`);
-      return res.status(403).json({
-        success: false,
-        error: 'ACCESS_DENIED',
-        message: 'This application can only be accessed through Softr'
-      });
+// Exchange a still-valid embed token for a fresh one so long sessions don't expire mid-use.
+// Sessions end 12 hours after the first mint; after that a new token has to be minted.
+router.post('/embed-token/refresh', apiRateLimit, (req, res) => {
+  const payload = verifyEmbedToken(req.headers[EMBED_TOKEN_HEADER] as string | undefined);
+  if (!payload) {
+    return res.status(401).json({ success: false, error: 'Invalid or expired embed token' });
+  }
+
+  const refreshed = refreshEmbedToken(payload);
+  if (!refreshed) {
+    return res.status(401).json({ success: false, error: 'Embed session has expired' });
+  }
+
+  res.status(200).json({ success: true, data: refreshed });
+});
+
+// Validate user access - checks the signed embed token and auto-creates user if needed
+router.post('/validate', authRateLimit, async (req, res) => {
+  try {
+    // 1. The user comes from the signed token, never from the request body
+    const embedToken = req.headers[EMBED_TOKEN_HEADER] as string | undefined;
+    const payload = verifyEmbedToken(embedToken);
+    let email: string | undefined = payload?.email;
+
+    if (!payload) {
+      if (!embedToken && allowUnsignedEmbed()) {
+        email = req.body?.userId || req.body?.email;
+      } else {
+        console.log(`⛔ Access denied - ${embedToken ? 'invalid or expired' : 'missing'} embed token`);
+        return res.status(403).json({
+          success: false,
+          error: 'ACCESS_DENIED',
+          message: 'This application can only be accessed through Softr'
+        });
+      }
     }
 
     // 2. Check if email is provided
@@ -1,6 +1,6 @@
 import express from 'express';
 import { AdminController } from '../controllers/adminController';
-import { protect } from '../middleware/auth';
+import { protect, restrictTo } from '../middleware/auth';
 
 const router = express.Router();
 const adminController = new AdminController();
@@ -8,14 +8,41 @@ const adminController = new AdminController();
 // Require authentication for all admin endpoints
 router.use(protect);
 
-router.get('/system-stats', adminController.getSystemStats);
-router.get('/scraping-logs', adminController.getScrapingLogs);
+// Read-only monitoring - analysts can see it too
+router.get('/system-stats', restrictTo('admin', 'analyst'), adminController.getSystemStats);
+router.get('/scraping-logs', restrictTo('admin', 'analyst'), adminController.getScrapingLogs);
+router.get('/scraping/status', restrictTo('admin', 'analyst'), adminController.getScrapingStatus);
+router.get('/social-sync/stats', restrictTo('admin', 'analyst'), adminController.getSocialSyncStats);
+router.get('/jurisdictions', restrictTo('admin', 'analyst'), adminController.getJurisdictionRules);
+router.get('/recommendation-profiles', restrictTo('admin', 'analyst'), adminController.getRecommendationProfiles);
+router.post('/recommendation-profiles/preview', restrictTo('admin', 'analyst'), adminController.previewRecommendationProfile);
+
+// Everything below mutates data or triggers jobs - admin only
+router.use(restrictTo('admin'));
+
 router.post('/scraping/start', adminController.startScraping);
 router.post('/scraping/stop', adminController.stopScraping);
-router.get('/scraping/status', adminController.getScrapingStatus);
 router.post('/cache/clear', adminController.clearCache);
 router.get('/users', adminController.getUsers);
+router.patch('/users/:id/role', adminController.updateUserRole);
 router.post('/users/:id/disable-mfa', adminController.disableUserMfa);
+
+// API keys for machine clients
+router.get('/api-keys', adminController.getApiKeys);
+router.post('/api-keys', adminController.createApiKey);
+router.post('/api-keys/:id/rotate', adminController.rotateApiKey);
+router.delete('/api-keys/:id', adminController.revokeApiKey);
+router.get('/api-keys/:id/usage', adminController.getApiKeyUsage);
+
+// iGaming jurisdiction rules used by the recommendation endpoints
+router.put('/jurisdictions/:countryCode', adminController.upsertJurisdictionRule);
+router.delete('/jurisdictions/:countryCode', adminController.deleteJurisdictionRule);
+
+// Recommendation profiles (weights, tiers, rate card, exclusions) for /api/discovery/recommend/auto
+router.post('/recommendation-profiles', adminController.createRecommendationProfile);
+router.put('/recommendation-profiles/:id', adminController.updateRecommendationProfile);
+router.delete('/recommendation-profiles/:id', adminController.deleteRecommendationProfile);
+
 router.post('/avatars/dedupe', adminController.dedupeAvatars);
 router.post('/import-csv', adminController.importCsvData);
 router.post('/bulk-import', adminController.bulkImportStreamers);
@@ -24,7 +51,6 @@ router.post('/scrape-tags', adminController.scrapeStreamerTags);
 router.post('/backfill-avatars', adminController.backfillAvatars);
 
 // Social sync (ScrapeCreators API)
-router.get('/social-sync/stats', adminController.getSocialSyncStats);
 router.post('/social-sync/extract-handles', adminController.extractSocialHandles);
 router.post('/social-sync/platform/:platform', adminController.syncSocialPlatform);
 router.post('/social-sync/all', adminController.syncAllSocialPlatforms);
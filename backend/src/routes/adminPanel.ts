@@ -1,9 +1,49 @@
-import { Router } from 'express';
+import { Router, Request, Response, NextFunction } from 'express';
 import { db } from '../utils/database';
-import { Platform, Region, FraudStatus } from '@prisma/client';
+import { Platform, Region, FraudStatus, UserRole } from '@prisma/client';
+import { protect, restrictTo } from '../middleware/auth';
+import { requireConfirmation } from '../middleware/confirmation';
+import { auditService } from '../services/auditService';
+import { liveStatusService } from '../services/liveStatusService';
+import { cacheService } from '../services/cacheService';
+import { influencerSyncRoutes } from './influencerSync';
+import { logger } from '../utils/database';
 
 const router = Router();
 
+// The single admin console. The HTML shell at / is public; every data and
+// operation endpoint under /api requires an admin JWT (the inline script sends
+// the token from localStorage). Every mutation is written to the audit log and
+// destructive bulk operations go through requireConfirmation.
+router.use('/api', protect, restrictTo('admin'));
+
+const actorOf = (req: Request) => (req as any).user.email as string;
+
+const streamerData = (body: any) => ({
+  platform: body.platform,
+  username: body.username.toLowerCase().trim(),
+  displayName: body.displayName.trim(),
+  profileUrl: body.profileUrl,
+  avatarUrl: body.avatarUrl || null,
+  followers: parseInt(body.followers) || 0,
+  region: body.region,
+  language: body.language || 'es',
+  tags: body.tags ? (Array.isArray(body.tags) ? body.tags : body.tags.split(',').map((t: string) => t.trim())) : [],
+  isLive: body.isLive === 'true' || body.isLive === true,
+});
+
+const campaignData = (body: any) => ({
+  name: body.name,
+  description: body.description,
+  budget: body.budget ? parseFloat(body.budget) : null,
+  isActive: body.isActive === 'true' || body.isActive === true,
+  startDate: body.startDate ? new Date(body.startDate) : null,
+  endDate: body.endDate ? new Date(body.endDate) : null,
+});
+
+const pick = (record: Record<string, any>, keys: string[]) =>
+  Object.fromEntries(keys.map(k => [k, record[k]]));
+
 // ==================== STREAMERS API ====================
 
 // GET all streamers with filters, search, and pagination
@@ -77,20 +117,16 @@ router.get('/api/streamers/:id', async (req, res) => {
 // CREATE new streamer
 router.post('/api/streamers', async (req, res) => {
   try {
-    const streamer = await db.streamer.create({
-      data: {
-        platform: req.body.platform,
-        username: req.body.username.toLowerCase().trim(),
-        displayName: req.body.displayName.trim(),
-        profileUrl: req.body.profileUrl,
-        avatarUrl: req.body.avatarUrl || null,
-        followers: parseInt(req.body.followers) || 0,
-        region: req.body.region,
-        language: req.body.language || 'es',
-        tags: req.body.tags ? (Array.isArray(req.body.tags) ? req.body.tags : req.body.tags.split(',').map((t: string) => t.trim())) : [],
-        isLive: req.body.isLive === 'true' || req.body.isLive === true,
-      },
+    const data = streamerData(req.body);
+    const streamer = await db.streamer.create({ data });
+    await auditService.log({
+      tableName: 'discovery_creators',
+      recordId: streamer.id,
+      action: 'INSERT',
+      changedBy: actorOf(req),
+      newValues: data,
     });
+    await cacheService.invalidateCreators();
     res.json(streamer);
   } catch (error: any) {
     res.status(500).json({ error: error.message });
@@ -100,21 +136,18 @@ router.post('/api/streamers', async (req, res) => {
 // UPDATE streamer
 router.put('/api/streamers/:id', async (req, res) => {
   try {
+    const data = streamerData(req.body);
+    const existing = await db.streamer.findUnique({ where: { id: req.params.id } });
+    if (!existing) {
+      return res.status(404).json({ error: 'Streamer not found' });
+    }
+
     const streamer = await db.streamer.update({
       where: { id: req.params.id },
-      data: {
-        platform: req.body.platform,
-        username: req.body.username.toLowerCase().trim(),
-        displayName: req.body.displayName.trim(),
-        profileUrl: req.body.profileUrl,
-        avatarUrl: req.body.avatarUrl || null,
-        followers: parseInt(req.body.followers) || 0,
-        region: req.body.region,
-        language: req.body.language || 'es',
-        tags: req.body.tags ? (Array.isArray(req.body.tags) ? req.body.tags : req.body.tags.split(',').map((t: string) => t.trim())) : [],
-        isLive: req.body.isLive === 'true' || req.body.isLive === true,
-      },
+      data,
     });
+    await auditService.logStreamerUpdate(streamer.id, actorOf(req), pick(existing, Object.keys(data)), data);
+    await cacheService.invalidateCreators();
     res.json(streamer);
   } catch (error: any) {
     res.status(500).json({ error: error.message });
@@ -124,9 +157,17 @@ router.put('/api/streamers/:id', async (req, res) => {
 // DELETE streamer
 router.delete('/api/streamers/:id', async (req, res) => {
   try {
-    await db.streamer.delete({
+    const streamer = await db.streamer.delete({
       where: { id: req.params.id },
     });
+    await auditService.log({
+      tableName: 'discovery_creators',
+      recordId: streamer.id,
+      action: 'DELETE',
+      changedBy: actorOf(req),
+      oldValues: pick(streamer, ['platform', 'username', 'displayName', 'profileUrl', 'followers', 'region']),
+    });
+    await cacheService.invalidateCreators();
     res.json({ success: true });
   } catch (error: any) {
     res.status(500).json({ error: error.message });
@@ -134,13 +175,38 @@ router.delete('/api/streamers/:id', async (req, res) => {
 });
 
 // BULK DELETE streamers
-router.post('/api/streamers/bulk-delete', async (req, res) => {
+router.post('/api/streamers/bulk-delete', requireConfirmation('streamers.bulk-delete', async (req) => {
+  const ids: string[] = Array.isArray(req.body.ids) ? req.body.ids : [];
+  const streamers = await db.streamer.findMany({
+    where: { id: { in: ids } },
+    select: { platform: true, username: true },
+    take: 10,
+  });
+  const affected = await db.streamer.count({ where: { id: { in: ids } } });
+  return {
+    message: `Permanently delete ${affected} streamers and their favorites, notes, shortlist entries and history?`,
+    affected,
+    sample: streamers.map(s => `${s.platform.toLowerCase()}/${s.username}`),
+  };
+}), async (req, res) => {
   try {
-    const { ids } = req.body;
-    await db.streamer.deleteMany({
+    const ids: string[] = Array.isArray(req.body.ids) ? req.body.ids : [];
+    const streamers = await db.streamer.findMany({
+      where: { id: { in: ids } },
+      select: { id: true, platform: true, username: true, displayName: true, followers: true },
+    });
+    const result = await db.streamer.deleteMany({
       where: { id: { in: ids } },
     });
-    res.json({ success: true, deleted: ids.length });
+    await auditService.logBatch(streamers.map(s => ({
+      tableName: 'discovery_creators',
+      recordId: s.id,
+      action: 'DELETE' as const,
+      changedBy: actorOf(req),
+      oldValues: { platform: s.platform, username: s.username, displayName: s.displayName, followers: s.followers, bulk: true },
+    })));
+    await cacheService.invalidateCreators();
+    res.json({ success: true, deleted: result.count });
   } catch (error: any) {
     res.status(500).json({ error: error.message });
   }
@@ -158,6 +224,7 @@ router.get('/api/users', async (req, res) => {
         firstName: true,
         lastName: true,
         mfaEnabled: true,
+        role: true,
         lastLogin: true,
         createdAt: true,
       },
@@ -181,6 +248,7 @@ router.post('/api/users', async (req, res) => {
         password: hashedPassword,
         firstName: req.body.firstName || null,
         lastName: req.body.lastName || null,
+        role: Object.values(UserRole).includes(req.body.role) ? req.body.role : UserRole.VIEWER,
       },
       select: {
         id: true,
@@ -188,10 +256,55 @@ router.post('/api/users', async (req, res) => {
         firstName: true,
         lastName: true,
         mfaEnabled: true,
+        role: true,
         lastLogin: true,
         createdAt: true,
       },
     });
+    await auditService.log({
+      tableName: 'discovery_users',
+      recordId: user.id,
+      action: 'INSERT',
+      changedBy: actorOf(req),
+      newValues: { email: user.email, firstName: user.firstName, lastName: user.lastName, role: user.role },
+    });
+    res.json(user);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// UPDATE user role
+router.patch('/api/users/:id/role', async (req, res) => {
+  try {
+    const role = String(req.body.role || '').toUpperCase() as UserRole;
+    if (!Object.values(UserRole).includes(role)) {
+      return res.status(400).json({ error: `Invalid role. Expected one of: ${Object.values(UserRole).join(', ')}` });
+    }
+
+    // Prevent an admin from locking themselves out
+    if (req.params.id === (req as any).user.id && role !== UserRole.ADMIN) {
+      return res.status(400).json({ error: 'You cannot remove your own admin role' });
+    }
+
+    const existing = await db.user.findUnique({ where: { id: req.params.id }, select: { role: true } });
+    if (!existing) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const user = await db.user.update({
+      where: { id: req.params.id },
+      data: { role },
+      select: { id: true, email: true, role: true },
+    });
+    await auditService.log({
+      tableName: 'discovery_users',
+      recordId: user.id,
+      action: 'UPDATE',
+      changedBy: actorOf(req),
+      oldValues: { role: existing.role },
+      newValues: { role: user.role },
+    });
     res.json(user);
   } catch (error: any) {
     res.status(500).json({ error: error.message });
@@ -201,8 +314,20 @@ router.post('/api/users', async (req, res) => {
 // DELETE user
 router.delete('/api/users/:id', async (req, res) => {
   try {
-    await db.user.delete({
+    if (req.params.id === (req as any).user.id) {
+      return res.status(400).json({ error: 'You cannot delete your own account' });
+    }
+
+    const user = await db.user.delete({
       where: { id: req.params.id },
+      select: { id: true, email: true, role: true },
+    });
+    await auditService.log({
+      tableName: 'discovery_users',
+      recordId: user.id,
+      action: 'DELETE',
+      changedBy: actorOf(req),
+      oldValues: { email: user.email, role: user.role },
     });
     res.json({ success: true });
   } catch (error: any) {
@@ -232,15 +357,14 @@ router.get('/api/campaigns', async (req, res) => {
 // CREATE campaign
 router.post('/api/campaigns', async (req, res) => {
   try {
-    const campaign = await db.campaign.create({
-      data: {
-        name: req.body.name,
-        description: req.body.description,
-        budget: req.body.budget ? parseFloat(req.body.budget) : null,
-        isActive: req.body.isActive === 'true' || req.body.isActive === true,
-        startDate: req.body.startDate ? new Date(req.body.startDate) : null,
-        endDate: req.body.endDate ? new Date(req.body.endDate) : null,
-      },
+    const data = campaignData(req.body);
+    const campaign = await db.campaign.create({ data });
+    await auditService.log({
+      tableName: 'discovery_campaigns',
+      recordId: campaign.id,
+      action: 'INSERT',
+      changedBy: actorOf(req),
+      newValues: data,
     });
     res.json(campaign);
   } catch (error: any) {
@@ -251,16 +375,23 @@ router.post('/api/campaigns', async (req, res) => {
 // UPDATE campaign
 router.put('/api/campaigns/:id', async (req, res) => {
   try {
+    const data = campaignData(req.body);
+    const existing = await db.campaign.findUnique({ where: { id: req.params.id } });
+    if (!existing) {
+      return res.status(404).json({ error: 'Campaign not found' });
+    }
+
     const campaign = await db.campaign.update({
       where: { id: req.params.id },
-      data: {
-        name: req.body.name,
-        description: req.body.description,
-        budget: req.body.budget ? parseFloat(req.body.budget) : null,
-        isActive: req.body.isActive === 'true' || req.body.isActive === true,
-        startDate: req.body.startDate ? new Date(req.body.startDate) : null,
-        endDate: req.body.endDate ? new Date(req.body.endDate) : null,
-      },
+      data,
+    });
+    await auditService.log({
+      tableName: 'discovery_campaigns',
+      recordId: campaign.id,
+      action: 'UPDATE',
+      changedBy: actorOf(req),
+      oldValues: pick(existing, Object.keys(data)),
+      newValues: data,
     });
     res.json(campaign);
   } catch (error: any) {
@@ -271,9 +402,16 @@ router.put('/api/campaigns/:id', async (req, res) => {
 // DELETE campaign
 router.delete('/api/campaigns/:id', async (req, res) => {
   try {
-    await db.campaign.delete({
+    const campaign = await db.campaign.delete({
       where: { id: req.params.id },
     });
+    await auditService.log({
+      tableName: 'discovery_campaigns',
+      recordId: campaign.id,
+      action: 'DELETE',
+      changedBy: actorOf(req),
+      oldValues: pick(campaign, ['name', 'description', 'budget', 'isActive']),
+    });
     res.json({ success: true });
   } catch (error: any) {
     res.status(500).json({ error: error.message });
@@ -306,6 +444,57 @@ router.get('/api/stats', async (req, res) => {
   }
 });
 
+// ==================== OPERATIONS API ====================
+
+// Record every operation (job triggers, resets) once it has run; confirmation prompts aren't operations
+const auditOperation = (prefix: string) => (req: Request, res: Response, next: NextFunction) => {
+  if (req.method === 'GET') return next();
+
+  res.on('finish', () => {
+    if (res.statusCode === 428) return;
+    const { confirmToken, ...body } = req.body || {};
+    auditService.logOperation(`${prefix}${req.path}`, actorOf(req), {
+      method: req.method,
+      query: req.query,
+      body,
+      statusCode: res.statusCode,
+    });
+  });
+  next();
+};
+
+router.use('/api/ops', auditOperation('ops'));
+
+// Seed creators from the bundled CSV (no-op unless the table is empty)
+router.post('/api/ops/seed', async (req, res) => {
+  try {
+    const { seedFromCsvIfEmpty } = await import('../utils/seedFromCsv');
+    logger.info(`🌱 Manual seed triggered by ${actorOf(req)}`);
+    const result = await seedFromCsvIfEmpty();
+    logger.info(`🌱 Manual seed result: ${JSON.stringify(result)}`);
+    res.json({ success: true, result });
+  } catch (error: any) {
+    logger.error('🌱 Manual seed error:', { message: error?.message, stack: error?.stack });
+    res.status(500).json({ success: false, error: error?.message });
+  }
+});
+
+// Run a live status sync now instead of waiting for the cron
+router.post('/api/ops/sync-live', async (req, res) => {
+  try {
+    logger.info(`🔴 Manual live status sync triggered by ${actorOf(req)}`);
+    const result = await liveStatusService.updateStreamersLiveStatus(500, 100);
+    logger.info(`🔴 Live status sync result: ${JSON.stringify(result)}`);
+    res.json({ success: true, result });
+  } catch (error: any) {
+    logger.error('🔴 Live status sync error:', { message: error?.message, stack: error?.stack });
+    res.status(500).json({ success: false, error: error?.message });
+  }
+});
+
+// Influencer sync, enrichment debug and queue reset tools
+router.use('/api/influencer-sync', auditOperation('influencer-sync'), influencerSyncRoutes);
+
 // ==================== HTML ADMIN PANEL ====================
 
 router.get('/', async (req, res) => {
@@ -793,6 +982,7 @@ router.get('/', async (req, res) => {
       <button class="tab active" onclick="switchTab('streamers')">🎮 Streamers</button>
       <button class="tab" onclick="switchTab('users')">👥 Users</button>
       <button class="tab" onclick="switchTab('campaigns')">📢 Campaigns</button>
+      <button class="tab" onclick="switchTab('operations')">🛠️ Operations</button>
     </div>
 
     <!-- Streamers Tab -->
@@ -891,6 +1081,7 @@ router.get('/', async (req, res) => {
               <tr>
                 <th>Email</th>
                 <th>Name</th>
+                <th>Role</th>
                 <th>MFA</th>
                 <th>Last Login</th>
                 <th>Created</th>
@@ -938,6 +1129,43 @@ router.get('/', async (req, res) => {
         </div>
       </div>
     </div>
+
+    <!-- Operations Tab -->
+    <div id="operations-tab" class="tab-content">
+      <div class="toolbar">
+        <div class="toolbar-left">
+          <div class="info-text">Manual jobs and maintenance. Every run is recorded in the audit log.</div>
+        </div>
+      </div>
+
+      <div class="toolbar">
+        <div class="toolbar-left">
+          <button class="btn btn-secondary" onclick="runOperation('/admin-panel/api/ops/sync-live')">🔴 Sync live status</button>
+          <button class="btn btn-secondary" onclick="runOperation('/admin-panel/api/ops/seed')">🌱 Seed from CSV (empty DB only)</button>
+          <button class="btn btn-secondary" onclick="runOperation('/admin-panel/api/influencer-sync/sync')">🔄 Sync influencers</button>
+          <button class="btn btn-secondary" onclick="runOperation('/admin-panel/api/influencer-sync/process-linkedin-queue')">💼 Process LinkedIn queue</button>
+        </div>
+      </div>
+
+      <div class="toolbar">
+        <div class="toolbar-left">
+          <select id="queue-platform">
+            <option value="LINKEDIN">LinkedIn</option>
+            <option value="TIKTOK">TikTok</option>
+            <option value="INSTAGRAM">Instagram</option>
+            <option value="X">X</option>
+            <option value="FACEBOOK">Facebook</option>
+          </select>
+          <button class="btn btn-secondary" onclick="loadQueueStatus()">Queue status</button>
+          <button class="btn btn-danger" onclick="runOperation('/admin-panel/api/influencer-sync/reset-failed-queue?platform=' + document.getElementById('queue-platform').value)">Reset failed queue entries</button>
+          <button class="btn btn-danger" onclick="runOperation('/admin-panel/api/influencer-sync/reset-linkedin')">Reset unenriched LinkedIn profiles</button>
+        </div>
+      </div>
+
+      <div class="table-container">
+        <pre id="operations-output" style="padding: 16px; margin: 0; white-space: pre-wrap; color: #e5e7eb;">No operation run yet.</pre>
+      </div>
+    </div>
   </div>
 
   <!-- Streamer Modal -->
@@ -1053,6 +1281,15 @@ router.get('/', async (req, res) => {
           <input type="text" id="user-lastName" placeholder="Last name">
         </div>
 
+        <div class="form-group">
+          <label>Role</label>
+          <select id="user-role">
+            <option value="VIEWER">Viewer</option>
+            <option value="ANALYST">Analyst</option>
+            <option value="ADMIN">Admin</option>
+          </select>
+        </div>
+
         <div style="display: flex; gap: 12px; justify-content: flex-end; margin-top: 28px;">
           <button type="button" class="btn btn-secondary" onclick="closeModal('user')">Cancel</button>
           <button type="submit" class="btn btn-primary">Create User</button>
@@ -1110,6 +1347,66 @@ router.get('/', async (req, res) => {
   </div>
 
   <script>
+    // ==================== AUTH ====================
+    // All /admin-panel/api calls need an admin JWT; reuse the app's stored token or prompt for login
+    const TOKEN_KEY = 'envisioner_access_token';
+    const nativeFetch = window.fetch.bind(window);
+
+    async function login() {
+      const email = prompt('Admin email');
+      const password = email && prompt('Password');
+      if (!email || !password) return false;
+
+      const res = await nativeFetch('/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email, password }),
+      });
+      const body = await res.json();
+      if (!res.ok || !body.success) {
+        alert('Login failed: ' + (body.error || res.status));
+        return false;
+      }
+      localStorage.setItem(TOKEN_KEY, body.data.tokens.accessToken);
+      return true;
+    }
+
+    window.fetch = async (url, options = {}) => {
+      const withAuth = () => nativeFetch(url, {
+        ...options,
+        headers: { ...(options.headers || {}), Authorization: 'Bearer ' + (localStorage.getItem(TOKEN_KEY) || '') },
+      });
+
+      let res = await withAuth();
+      if (res.status === 401 && await login()) {
+        res = await withAuth();
+      } else if (res.status === 403) {
+        alert('Your account does not have the admin role.');
+      }
+      return res;
+    };
+
+    // Destructive bulk operations answer 428 with a summary and a one-time confirmToken;
+    // show the summary and repeat the same request with the token if the admin agrees
+    async function confirmedPost(url, body = {}) {
+      const post = (payload) => fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+      });
+
+      const res = await post(body);
+      if (res.status !== 428) return res;
+
+      const prompt = await res.json();
+      const sample = prompt.summary.sample && prompt.summary.sample.length
+        ? '\\n\\n' + prompt.summary.sample.join('\\n') + (prompt.summary.affected > prompt.summary.sample.length ? '\\n…' : '')
+        : '';
+      if (!confirm(prompt.summary.message + sample + '\\n\\nThis cannot be undone.')) return null;
+
+      return post({ ...body, confirmToken: prompt.confirmToken });
+    }
+
     let currentPage = 1;
     let currentFilters = {
       search: '',
@@ -1260,12 +1557,17 @@ router.get('/', async (req, res) => {
         const tbody = document.getElementById('users-tbody');
 
         if (users.length === 0) {
-          tbody.innerHTML = '<tr><td colspan="6" class="empty-state"><h3>No users found</h3></td></tr>';
+          tbody.innerHTML = '<tr><td colspan="7" class="empty-state"><h3>No users found</h3></td></tr>';
         } else {
           tbody.innerHTML = users.map(u => \`
             <tr>
               <td>\${u.email}</td>
               <td>\${u.firstName || ''} \${u.lastName || ''}</td>
+              <td>
+                <select onchange="updateUserRole('\${u.id}', this.value)">
+                  \${['ADMIN', 'ANALYST', 'VIEWER'].map(r => \`<option value="\${r}" \${u.role === r ? 'selected' : ''}>\${r.charAt(0) + r.slice(1).toLowerCase()}</option>\`).join('')}
+                </select>
+              </td>
               <td>\${u.mfaEnabled ? '✅ Enabled' : '❌ Disabled'}</td>
               <td>\${u.lastLogin ? new Date(u.lastLogin).toLocaleString() : 'Never'}</td>
               <td>\${new Date(u.createdAt).toLocaleDateString()}</td>
@@ -1279,7 +1581,7 @@ router.get('/', async (req, res) => {
         }
       } catch (error) {
         console.error('Failed to load users:', error);
-        document.getElementById('users-tbody').innerHTML = '<tr><td colspan="6" class="loading">Error loading users</td></tr>';
+        document.getElementById('users-tbody').innerHTML = '<tr><td colspan="7" class="loading">Error loading users</td></tr>';
       }
     }
 
@@ -1388,20 +1690,16 @@ router.get('/', async (req, res) => {
     async function bulkDelete() {
       if (selectedStreamers.size === 0) return;
 
-      if (!confirm(\`Delete \${selectedStreamers.size} streamers? This cannot be undone.\`)) return;
-
       try {
-        const res = await fetch('/admin-panel/api/streamers/bulk-delete', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ ids: Array.from(selectedStreamers) }),
-        });
+        const res = await confirmedPost('/admin-panel/api/streamers/bulk-delete', { ids: Array.from(selectedStreamers) });
+        if (!res) return;
 
         if (res.ok) {
+          const result = await res.json();
           clearSelection();
           loadStreamers(currentPage);
           loadStats();
-          alert(\`Successfully deleted \${selectedStreamers.size} streamers!\`);
+          alert(\`Successfully deleted \${result.deleted} streamers!\`);
         } else {
           const error = await res.json();
           alert('Error: ' + error.error);
@@ -1425,6 +1723,39 @@ router.get('/', async (req, res) => {
       if (tab === 'campaigns') loadCampaigns();
     }
 
+    // ==================== OPERATIONS ====================
+
+    function showOperationResult(label, body) {
+      document.getElementById('operations-output').textContent =
+        new Date().toLocaleTimeString() + '  ' + label + '\\n\\n' + JSON.stringify(body, null, 2);
+    }
+
+    async function runOperation(url) {
+      showOperationResult(url, { status: 'running…' });
+      try {
+        const res = await confirmedPost(url);
+        if (!res) {
+          showOperationResult(url, { status: 'cancelled' });
+          return;
+        }
+        showOperationResult(url, await res.json());
+        loadStats();
+      } catch (error) {
+        showOperationResult(url, { error: error.message });
+      }
+    }
+
+    async function loadQueueStatus() {
+      const platform = document.getElementById('queue-platform').value;
+      const url = '/admin-panel/api/influencer-sync/debug-queue?platform=' + platform;
+      try {
+        const res = await fetch(url);
+        showOperationResult(url, await res.json());
+      } catch (error) {
+        showOperationResult(url, { error: error.message });
+      }
+    }
+
     // ==================== MODALS ====================
 
     function closeModal(type) {
@@ -1525,6 +1856,7 @@ router.get('/', async (req, res) => {
         password: document.getElementById('user-password').value,
         firstName: document.getElementById('user-firstName').value,
         lastName: document.getElementById('user-lastName').value,
+        role: document.getElementById('user-role').value,
       };
 
       try {
@@ -1548,6 +1880,24 @@ router.get('/', async (req, res) => {
       }
     }
 
+    async function updateUserRole(id, role) {
+      try {
+        const res = await fetch(\`/admin-panel/api/users/\${id}/role\`, {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ role }),
+        });
+
+        if (!res.ok) {
+          const error = await res.json();
+          alert('Error: ' + error.error);
+        }
+        loadUsers();
+      } catch (error) {
+        alert('Error: ' + error.message);
+      }
+    }
+
     async function deleteUser(id, email) {
       if (!confirm(\`Delete user "\${email}"? This cannot be undone.\`)) return;
 
@@ -1,20 +1,23 @@
 import express from 'express';
 import { CampaignController } from '../controllers/campaignController';
-import { protect, restrictTo } from '../middleware/auth';
+import { ApiKeyScope } from '@prisma/client';
+import { protect, requireScope, restrictTo } from '../middleware/auth';
 
 const router = express.Router();
 const campaignController = new CampaignController();
 
-// All routes require authentication (simplified for now)
+// All routes require authentication; API keys need the ADMIN scope
+router.use(protect, requireScope(ApiKeyScope.ADMIN));
 
 router.get('/', campaignController.getCampaigns);
 router.get('/stats', campaignController.getCampaignStats);
 router.get('/:id', campaignController.getCampaignById);
-router.post('/', campaignController.createCampaign);
-router.put('/:id', campaignController.updateCampaign);
-router.delete('/:id', campaignController.deleteCampaign);
-router.post('/:id/assign/:streamerId', campaignController.assignStreamerToCampaign);
-router.delete('/:id/unassign/:streamerId', campaignController.unassignStreamerFromCampaign);
+router.post('/', restrictTo('admin', 'analyst'), campaignController.createCampaign);
+router.put('/:id', restrictTo('admin', 'analyst'), campaignController.updateCampaign);
+router.delete('/:id', restrictTo('admin', 'analyst'), campaignController.deleteCampaign);
+router.post('/:id/assign/:streamerId', restrictTo('admin', 'analyst'), campaignController.assignStreamerToCampaign);
+router.delete('/:id/unassign/:streamerId', restrictTo('admin', 'analyst'), campaignController.unassignStreamerFromCampaign);
+router.patch('/:id/streamers/:streamerId/status', restrictTo('admin', 'analyst'), campaignController.updateAssignmentStatus);
 router.get('/:id/streamers', campaignController.getCampaignStreamers);
 
-export { router as campaignRoutes };
\ No newline at end of file
+export { router as campaignRoutes };
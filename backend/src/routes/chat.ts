@@ -1,6 +1,9 @@
 import express from 'express';
+import { ApiKeyScope } from '@prisma/client';
 import { ChatController } from '../controllers/chatController';
-import { protect, requireSoftr, dataRateLimit } from '../middleware/auth';
+import { protect, requireScope, requireSoftr, dataRateLimit } from '../middleware/auth';
+import { cacheResponse } from '../middleware/responseCache';
+import { CACHE_NAMESPACES } from '../services/cacheService';
 
 const router = express.Router();
 const chatController = new ChatController();
@@ -11,18 +14,18 @@ router.use(dataRateLimit);
 // Health check (no auth required)
 router.get('/health', chatController.healthCheck);
 
-// Dashboard endpoints - require Softr context for scrape protection
-router.get('/dashboard/stats', requireSoftr, chatController.getDashboardStats);
-router.get('/dashboard/live', requireSoftr, chatController.getLiveStreamers);
-router.get('/dashboard/top-streamers', requireSoftr, chatController.getTopStreamers);
-router.get('/dashboard/top-categories', requireSoftr, chatController.getTopCategories);
+// Dashboard endpoints - require Softr context for scrape protection; shared response cache (TTL = Cache-Control max-age)
+router.get('/dashboard/stats', requireSoftr, cacheResponse(CACHE_NAMESPACES.DASHBOARD, 30), chatController.getDashboardStats);
+router.get('/dashboard/live', requireSoftr, cacheResponse(CACHE_NAMESPACES.DASHBOARD, 15), chatController.getLiveStreamers);
+router.get('/dashboard/top-streamers', requireSoftr, cacheResponse(CACHE_NAMESPACES.DASHBOARD, 60), chatController.getTopStreamers);
+router.get('/dashboard/top-categories', requireSoftr, cacheResponse(CACHE_NAMESPACES.DASHBOARD, 60), chatController.getTopCategories);
 
 // AI-powered streamer search endpoints - require Softr context
 router.post('/search', requireSoftr, chatController.searchStreamers);
 router.get('/trending', requireSoftr, chatController.getTrendingInsights);
 
-// Protected routes require authentication
-router.use(protect);
+// Protected routes require authentication; API keys need the ADMIN scope
+router.use(protect, requireScope(ApiKeyScope.ADMIN));
 
 // Chat conversation endpoints (protected - user-specific)
 router.post('/message', chatController.sendMessage);
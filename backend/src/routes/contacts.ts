@@ -0,0 +1,17 @@
+import express from 'express';
+import { ContactsController } from '../controllers/contactsController';
+import { requireSoftrWithUser, validateUserOwnership, dataRateLimit } from '../middleware/auth';
+
+const router = express.Router();
+const contactsController = new ContactsController();
+
+router.use(dataRateLimit);
+router.use(requireSoftrWithUser);
+router.use(validateUserOwnership);
+
+router.get('/:streamerId', contactsController.getContacts);
+router.post('/', contactsController.addContact);
+router.post('/:streamerId/refresh', contactsController.refreshContacts);
+router.delete('/:id', contactsController.deleteContact);
+
+export { router as contactRoutes };
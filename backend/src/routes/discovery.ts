@@ -1,7 +1,8 @@
 import { Router, Request, Response } from 'express';
 import { asyncHandler } from '../middleware/errorHandler';
 import { db, logger } from '../utils/database';
-import { Platform, Region, FraudStatus } from '@prisma/client';
+import { geographyService } from '../services/geographyService';
+import { Platform, Region, FraudStatus, UserRole } from '@prisma/client';
 import { discoveryService } from '../services/discoveryService';
 import { runDiscovery, runQuickDiscovery, runFullDiscovery } from '../jobs/discoveryJob';
 import { runSocialDiscovery, runQuickSocialDiscovery, runFullSocialDiscovery, runInfluencerDiscovery, runPlatformDiscovery } from '../jobs/socialDiscoveryJob';
@@ -9,9 +10,15 @@ import { runEnhancedTwitchDiscovery, runQuickTwitchDiscovery } from '../jobs/enh
 import { runYouTubeDiscovery, runQuickYouTubeDiscovery } from '../jobs/youtubeDiscoveryJob';
 import { scrapeCreatorsService } from '../services/scrapeCreatorsService';
 import { autoRecommendationService } from '../services/autoRecommendationService';
+import { recommendationProfileService } from '../services/recommendationProfileService';
+import { RATE_DELIVERABLES, rateEstimationService } from '../services/rateEstimationService';
+import { jurisdictionService } from '../services/jurisdictionService';
+import { metricSnapshotService } from '../services/metricSnapshotService';
+import { streamSessionService } from '../services/streamSessionService';
+import { cacheService } from '../services/cacheService';
 import multer from 'multer';
 import { parse } from 'csv-parse/sync';
-import { protect, requireSoftr, dataRateLimit, discoveryRateLimit } from '../middleware/auth';
+import { protect, restrictTo, requireSoftr, dataRateLimit, discoveryRateLimit } from '../middleware/auth';
 
 const upload = multer({ storage: multer.memoryStorage(), limits: { fileSize: 10 * 1024 * 1024 } });
 
@@ -24,7 +31,8 @@ router.use(dataRateLimit);
  * Discovery API - External Integration Endpoint
  *
  * This API is designed for Envisioner to consume when searching for
- * new creators to add to campaigns.
+ * new creators to add to campaigns. Machine clients authenticate with an
+ * X-Api-Key carrying the READ_SEARCH scope (see requireSoftr).
  */
 
 interface DiscoverySearchParams {
@@ -173,7 +181,9 @@ router.post('/search', requireSoftr, asyncHandler(async (req: Request, res: Resp
 
 /**
  * GET /api/discovery/creator/:id
- * Get detailed creator info for assignment
+ * Get detailed creator info for assignment, including 7/30/90-day growth and sparklines.
+ * Admins and analysts (like /api/rates) also get rate estimates with an 80% interval
+ * per deliverable that has a pricing model; those responses aren't publicly cacheable.
  */
 router.get('/creator/:id', requireSoftr, asyncHandler(async (req: Request, res: Response) => {
   const { id } = req.params;
@@ -208,7 +218,13 @@ router.get('/creator/:id', requireSoftr, asyncHandler(async (req: Request, res:
       avgRoi: true,
       lastPerformanceSync: true,
       panelImages: true,
-      profileDescription: true
+      profileDescription: true,
+      avgViewers: true,
+      totalViews: true,
+      engagementRate: true,
+      inferredCategory: true,
+      followerGrowth7d: true,
+      followerGrowthPct7d: true
     }
   });
 
@@ -219,25 +235,55 @@ router.get('/creator/:id', requireSoftr, asyncHandler(async (req: Request, res:
     });
   }
 
+  const role = String((req as any).user?.role).toUpperCase();
+  const withRates = role === UserRole.ADMIN || role === UserRole.ANALYST;
+
   // Cache creator details for 2 minutes
-  res.set('Cache-Control', 'public, max-age=120, stale-while-revalidate=300');
+  res.set('Cache-Control', `${withRates ? 'private' : 'public'}, max-age=120, stale-while-revalidate=300`);
+
+  const growth = await metricSnapshotService.getGrowthHistory(creator.id, creator);
+  const rateEstimates = withRates
+    ? await rateEstimationService.estimateCreator({ ...creator, category: creator.inferredCategory })
+    : undefined;
 
   res.json({
     success: true,
     data: {
       ...creator,
+      totalViews: Number(creator.totalViews),
       performanceTier: getPerformanceTier(creator),
-      recommendation: generateRecommendation(creator)
+      recommendation: generateRecommendation(creator),
+      growth,
+      ...(rateEstimates ? { rateEstimates } : {})
     }
   });
 }));
 
+/**
+ * GET /api/discovery/creator/:id/sessions
+ * Recent stream sessions reconstructed from viewer polls
+ */
+router.get('/creator/:id/sessions', requireSoftr, asyncHandler(async (req: Request, res: Response) => {
+  const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 20, 1), 100);
+  const sessions = await streamSessionService.getSessions(req.params.id, limit);
+
+  res.set('Cache-Control', 'public, max-age=120, stale-while-revalidate=300');
+
+  res.json({
+    success: true,
+    data: sessions,
+    count: sessions.length
+  });
+}));
+
 /**
  * GET /api/discovery/recommend
- * AI-powered recommendations based on criteria
+ * AI-powered recommendations based on criteria.
+ * Gambling campaign types are screened against the jurisdiction rules of each
+ * creator's primary market; results carry the deciding rule in `compliance`.
  */
 router.post('/recommend', requireSoftr, asyncHandler(async (req: Request, res: Response) => {
-  const { campaignType, budget, targetRegion, preferPlatform } = req.body;
+  const { campaignType, budget, targetRegion, preferPlatform, strictCompliance = false } = req.body;
 
   logger.info('Discovery recommendation request', { campaignType, budget, targetRegion });
 
@@ -278,6 +324,7 @@ router.post('/recommend', requireSoftr, asyncHandler(async (req: Request, res: R
       currentViewers: true,
       isLive: true,
       region: true,
+      inferredCountry: true,
       tags: true,
       igamingScore: true,
       brandSafetyScore: true,
@@ -290,11 +337,14 @@ router.post('/recommend', requireSoftr, asyncHandler(async (req: Request, res: R
       { igamingScore: 'desc' },
       { followers: 'desc' }
     ],
-    take: 10
+    // Headroom for creators dropped by jurisdiction rules
+    take: 30
   });
 
+  const { allowed, excluded } = await jurisdictionService.screen(recommendations, campaignType, { strict: strictCompliance });
+
   // Add recommendation reasons
-  const recommendationsWithReasons = recommendations.map(creator => ({
+  const recommendationsWithReasons = allowed.slice(0, 10).map(creator => ({
     ...creator,
     performanceTier: getPerformanceTier(creator),
     reasons: getRecommendationReasons(creator, campaignType)
@@ -304,27 +354,51 @@ router.post('/recommend', requireSoftr, asyncHandler(async (req: Request, res: R
     success: true,
     data: {
       recommendations: recommendationsWithReasons,
-      criteria: { campaignType, budget, targetRegion, preferPlatform }
+      excluded: excluded.map(c => ({ id: c.id, displayName: c.displayName, platform: c.platform, region: c.region, compliance: c.compliance })),
+      criteria: { campaignType, budget, targetRegion, preferPlatform, strictCompliance }
     }
   });
 }));
 
+/**
+ * GET /api/discovery/recommend/profiles
+ * Recommendation profiles that /recommend/auto and /recommend/quick accept
+ */
+router.get('/recommend/profiles', requireSoftr, asyncHandler(async (req: Request, res: Response) => {
+  const profiles = await recommendationProfileService.list();
+
+  res.json({
+    success: true,
+    data: profiles.map(p => ({
+      id: p.id,
+      slug: p.slug,
+      name: p.name,
+      description: p.description,
+      isDefault: p.isDefault,
+    })),
+  });
+}));
+
 /**
  * POST /api/discovery/recommend/auto
  * Auto-recommend creators with weighted scoring and diversity
  *
- * Scoring weights:
+ * Scoring factors (weights from the recommendation profile; built-in default):
  * - Vertical Fit (30%): iGaming score, tags, gambling compatibility
  * - Historical Performance (25%): CPA, ROI, conversions
  * - Brand Safety (20%): Safety score, TOS compliance
- * - Budget Alignment (15%): Estimated rate vs campaign budget
- * - User History Bonus (10%): Similarity to user's top performers
+ * - Budget Alignment (15%): Estimated rate vs campaign budget - priced from
+ *   negotiated deals for `deliverable` (default INTEGRATION), else the profile rate card
+ * - User History Bonus (10%): Similarity to user's favorites
  *
- * Diversity targets:
+ * Diversity targets (built-in default):
  * - 30% nano (1K-10K followers)
  * - 35% micro (10K-50K)
  * - 30% mid-tier (50K-500K)
  * - 5% macro (500K+)
+ *
+ * `profile` (id or slug) picks a recommendation profile; without it the default
+ * profile applies. Each recommendation carries a per-factor `explanation`.
  */
 router.post('/recommend/auto', requireSoftr, asyncHandler(async (req: Request, res: Response) => {
   const {
@@ -336,11 +410,21 @@ router.post('/recommend/auto', requireSoftr, asyncHandler(async (req: Request, r
     platforms,
     count = 20,
     userId,
+    strictCompliance = false,
+    profile,
+    deliverable,
   } = req.body;
 
-  logger.info('Auto-recommendation request', { vertical, region, budget, count });
+  if (deliverable && !RATE_DELIVERABLES.includes(deliverable)) {
+    return res.status(400).json({
+      success: false,
+      error: `deliverable must be one of ${RATE_DELIVERABLES.join(', ')}`
+    });
+  }
+
+  logger.info('Auto-recommendation request', { vertical, region, budget, count, profile });
 
-  const recommendations = await autoRecommendationService.getRecommendations(
+  const result = await autoRecommendationService.getRecommendations(
     {
       vertical,
       region,
@@ -349,6 +433,9 @@ router.post('/recommend/auto', requireSoftr, asyncHandler(async (req: Request, r
       requireGamblingCompatible,
       platforms,
       totalCount: count,
+      strictCompliance,
+      profile,
+      deliverable,
     },
     userId
   );
@@ -356,8 +443,10 @@ router.post('/recommend/auto', requireSoftr, asyncHandler(async (req: Request, r
   res.json({
     success: true,
     data: {
-      recommendations,
-      count: recommendations.length,
+      recommendations: result.recommendations,
+      count: result.recommendations.length,
+      excluded: result.excluded,
+      profile: result.profile,
       criteria: {
         vertical,
         region,
@@ -365,6 +454,8 @@ router.post('/recommend/auto', requireSoftr, asyncHandler(async (req: Request, r
         minIgamingScore,
         requireGamblingCompatible,
         platforms,
+        strictCompliance,
+        deliverable,
       },
     },
   });
@@ -378,20 +469,24 @@ router.get('/recommend/quick', requireSoftr, asyncHandler(async (req: Request, r
   const vertical = (req.query.vertical as string) || 'igaming';
   const region = req.query.region as string | undefined;
   const count = parseInt(req.query.count as string) || 10;
+  const profile = req.query.profile as string | undefined;
 
-  logger.info('Quick recommendation request', { vertical, region, count });
+  logger.info('Quick recommendation request', { vertical, region, count, profile });
 
-  const recommendations = await autoRecommendationService.getQuickRecommendations(
+  const result = await autoRecommendationService.getQuickRecommendations(
     vertical,
     region,
-    count
+    count,
+    profile
   );
 
   res.json({
     success: true,
     data: {
-      recommendations,
-      count: recommendations.length,
+      recommendations: result.recommendations,
+      count: result.recommendations.length,
+      excluded: result.excluded,
+      profile: result.profile,
       vertical,
       region,
     },
@@ -575,7 +670,7 @@ function getRecommendationReasons(creator: any, campaignType?: string): string[]
  * Run multi-category discovery to populate new creators (Twitch + Kick)
  * Categories: Slots, Poker, Just Chatting, Sports, Gaming, etc.
  */
-router.post('/populate', protect, discoveryRateLimit, asyncHandler(async (req: Request, res: Response) => {
+router.post('/populate', protect, restrictTo('admin'), discoveryRateLimit, asyncHandler(async (req: Request, res: Response) => {
   const { mode = 'quick', platforms, limitPerCategory = 100 } = req.body;
 
   logger.info('Discovery populate requested', { mode, platforms, limitPerCategory });
@@ -625,7 +720,7 @@ router.post('/populate', protect, discoveryRateLimit, asyncHandler(async (req: R
  * Note: YouTube NOT supported via ScrapeCreators (no search API).
  * Use youtubeDiscoveryJob.ts with YouTube Data API instead.
  */
-router.post('/social', protect, discoveryRateLimit, asyncHandler(async (req: Request, res: Response) => {
+router.post('/social', protect, restrictTo('admin'), discoveryRateLimit, asyncHandler(async (req: Request, res: Response) => {
   const {
     mode = 'quick',
     platforms = ['tiktok', 'instagram', 'facebook', 'linkedin'],
@@ -694,7 +789,7 @@ router.post('/social', protect, discoveryRateLimit, asyncHandler(async (req: Req
  * POST /api/discovery/run
  * Run discovery to find new streamers from APIs
  */
-router.post('/run', protect, discoveryRateLimit, asyncHandler(async (req: Request, res: Response) => {
+router.post('/run', protect, restrictTo('admin'), discoveryRateLimit, asyncHandler(async (req: Request, res: Response) => {
   const { type = 'full', gameId, keyword, platform, limit = 100 } = req.body;
 
   logger.info('Discovery run requested', { type, gameId, keyword, platform, limit });
@@ -746,7 +841,7 @@ router.post('/run', protect, discoveryRateLimit, asyncHandler(async (req: Reques
  * POST /api/discovery/enhanced/twitch
  * Run enhanced Twitch discovery with pagination and 50+ categories
  */
-router.post('/enhanced/twitch', protect, discoveryRateLimit, asyncHandler(async (req: Request, res: Response) => {
+router.post('/enhanced/twitch', protect, restrictTo('admin'), discoveryRateLimit, asyncHandler(async (req: Request, res: Response) => {
   const { mode = 'quick', targetNew = 100 } = req.body;
 
   logger.info('Enhanced Twitch discovery requested', { mode, targetNew });
@@ -773,7 +868,7 @@ router.post('/enhanced/twitch', protect, discoveryRateLimit, asyncHandler(async
  * POST /api/discovery/enhanced/youtube
  * Run YouTube discovery using YouTube Data API
  */
-router.post('/enhanced/youtube', protect, discoveryRateLimit, asyncHandler(async (req: Request, res: Response) => {
+router.post('/enhanced/youtube', protect, restrictTo('admin'), discoveryRateLimit, asyncHandler(async (req: Request, res: Response) => {
   const { mode = 'quick', targetNew = 100, keywordsLimit = 10 } = req.body;
 
   logger.info('YouTube discovery requested', { mode, targetNew, keywordsLimit });
@@ -800,7 +895,7 @@ router.post('/enhanced/youtube', protect, discoveryRateLimit, asyncHandler(async
  * POST /api/discovery/enhanced/all
  * Run all enhanced discovery jobs (Twitch + YouTube + Kick + Social)
  */
-router.post('/enhanced/all', protect, discoveryRateLimit, asyncHandler(async (req: Request, res: Response) => {
+router.post('/enhanced/all', protect, restrictTo('admin'), discoveryRateLimit, asyncHandler(async (req: Request, res: Response) => {
   const { targetPerPlatform = 50 } = req.body;
 
   logger.info('Full enhanced discovery requested', { targetPerPlatform });
@@ -854,7 +949,7 @@ router.post('/enhanced/all', protect, discoveryRateLimit, asyncHandler(async (re
  * POST /api/discovery/backfill-followers
  * Backfill missing follower counts from Twitch API
  */
-router.post('/backfill-followers', protect, asyncHandler(async (req: Request, res: Response) => {
+router.post('/backfill-followers', protect, restrictTo('admin'), asyncHandler(async (req: Request, res: Response) => {
   const { limit = 500 } = req.body;
 
   logger.info('Follower backfill requested', { limit });
@@ -873,7 +968,7 @@ router.post('/backfill-followers', protect, asyncHandler(async (req: Request, re
  * POST /api/discovery/import/csv
  * Bulk import streamers from CSV file
  */
-router.post('/import/csv', protect, upload.single('file'), asyncHandler(async (req: Request, res: Response) => {
+router.post('/import/csv', protect, restrictTo('admin'), upload.single('file'), asyncHandler(async (req: Request, res: Response) => {
   const file = (req as any).file;
   if (!file) {
     return res.status(400).json({ success: false, error: 'No file uploaded' });
@@ -896,7 +991,7 @@ router.post('/import/csv', protect, upload.single('file'), asyncHandler(async (r
       const username = (row['Channel name'] || row.Username || row.username || row['Channel Name'] || row.channel_name || '').trim();
       const displayName = row['Display Name'] || row.displayName || row['Channel name'] || username;
       const profileUrl = (row['Channel url'] || row.URL || row.url || row.profileUrl || row['Profile URL'] || '').trim();
-      const region = mapRegion(row.Country || row.Region || row.country || row.region);
+      const region = geographyService.fromName(row.Country || row.Region || row.country || row.region);
       const language = mapLanguage(row.Language || row.language);
       const followers = toInt(row.Followers || row.followers) || 0;
       const peakViewers = toInt(row['Peak Viewers'] || row.peakViewers || row['Highest Viewers']);
@@ -961,6 +1056,7 @@ router.post('/import/csv', protect, upload.single('file'), asyncHandler(async (r
 
   const totalStreamers = await db.streamer.count();
 
+  await cacheService.invalidateCreators();
   logger.info('CSV import complete', { created, updated, skipped, total: totalStreamers });
 
   res.json({
@@ -979,7 +1075,7 @@ router.post('/import/csv', protect, upload.single('file'), asyncHandler(async (r
  * POST /api/discovery/import/json
  * Bulk import streamers from JSON array
  */
-router.post('/import/json', protect, asyncHandler(async (req: Request, res: Response) => {
+router.post('/import/json', protect, restrictTo('admin'), asyncHandler(async (req: Request, res: Response) => {
   const { streamers } = req.body;
 
   if (!Array.isArray(streamers)) {
@@ -1015,7 +1111,7 @@ router.post('/import/json', protect, asyncHandler(async (req: Request, res: Resp
             avatarUrl: s.avatarUrl || s.avatar_url || existing.avatarUrl,
             followers: s.followers || existing.followers,
             highestViewers: s.peakViewers || s.peak_viewers || existing.highestViewers,
-            region: mapRegion(s.region || s.country) || existing.region,
+            region: geographyService.fromName(s.region || s.country) || existing.region,
             language: s.language || existing.language,
             lastScrapedAt: new Date(),
           },
@@ -1032,7 +1128,7 @@ router.post('/import/json', protect, asyncHandler(async (req: Request, res: Resp
             followers: s.followers || 0,
             highestViewers: s.peakViewers || s.peak_viewers,
             isLive: false,
-            region: mapRegion(s.region || s.country) || Region.MEXICO,
+            region: geographyService.fromName(s.region || s.country) || Region.MEXICO,
             language: s.language || 'es',
             tags: s.tags || [],
             usesCamera: false,
@@ -1049,6 +1145,7 @@ router.post('/import/json', protect, asyncHandler(async (req: Request, res: Resp
 
   const totalStreamers = await db.streamer.count();
 
+  await cacheService.invalidateCreators();
   logger.info('JSON import complete', { created, updated, skipped, total: totalStreamers });
 
   res.json({
@@ -1073,33 +1170,6 @@ function mapPlatform(p: string | undefined): Platform | null {
   return null;
 }
 
-function mapRegion(country: string | undefined): Region | null {
-  if (!country) return null;
-  const c = country.toLowerCase();
-  const map: Record<string, Region> = {
-    mexico: Region.MEXICO, méxico: Region.MEXICO,
-    colombia: Region.COLOMBIA,
-    argentina: Region.ARGENTINA,
-    chile: Region.CHILE,
-    peru: Region.PERU, perú: Region.PERU,
-    venezuela: Region.VENEZUELA,
-    ecuador: Region.ECUADOR,
-    bolivia: Region.BOLIVIA,
-    paraguay: Region.PARAGUAY,
-    uruguay: Region.URUGUAY,
-    'costa rica': Region.COSTA_RICA,
-    panama: Region.PANAMA, panamá: Region.PANAMA,
-    guatemala: Region.GUATEMALA,
-    'el salvador': Region.EL_SALVADOR,
-    honduras: Region.HONDURAS,
-    nicaragua: Region.NICARAGUA,
-    'dominican republic': Region.DOMINICAN_REPUBLIC,
-    'puerto rico': Region.PUERTO_RICO,
-    brazil: Region.BRAZIL, brasil: Region.BRAZIL,
-  };
-  return map[c] ?? null;
-}
-
 function mapLanguage(lang: string | undefined): string {
   if (!lang) return 'es';
   const l = lang.toLowerCase();
@@ -1120,7 +1190,7 @@ function toInt(val: string | number | null | undefined): number | null {
  * GET /api/discovery/instagram/related/:username
  * Discover new creators from a user's related profiles
  */
-router.get('/instagram/related/:username', protect, asyncHandler(async (req: Request, res: Response) => {
+router.get('/instagram/related/:username', protect, restrictTo('admin', 'analyst'), asyncHandler(async (req: Request, res: Response) => {
   const { username } = req.params;
   const limit = Math.min(parseInt(req.query.limit as string) || 10, 20);
 
@@ -1210,6 +1280,8 @@ router.get('/instagram/related/:username', protect, asyncHandler(async (req: Req
     await new Promise(r => setTimeout(r, 200));
   }
 
+  if (discovered > 0) await cacheService.invalidateCreators();
+
   res.json({
     success: true,
     data: {
@@ -1227,7 +1299,7 @@ router.get('/instagram/related/:username', protect, asyncHandler(async (req: Req
  * GET /api/discovery/debug/instagram/:username
  * Debug endpoint to test Instagram profile fetching
  */
-router.get('/debug/instagram/:username', protect, asyncHandler(async (req: Request, res: Response) => {
+router.get('/debug/instagram/:username', protect, restrictTo('admin'), asyncHandler(async (req: Request, res: Response) => {
   const { username } = req.params;
 
   logger.info(`Debug: Testing Instagram profile fetch for @${username}`);
@@ -9,65 +9,67 @@ import {
   forceReEnrichPanelsToBunny,
   intelligentReEnrich
 } from '../controllers/enrichmentController';
+import { protect, restrictTo } from '../middleware/auth';
 
 const router = express.Router();
 
-// TODO: Add authentication middleware once available
+// Reads are open to analysts; anything that starts enrichment is admin only
+router.use(protect);
 
 /**
  * @route   POST /api/enrichment/start
  * @desc    Start batch enrichment for all unenriched streamers
  * @access  Private
  */
-router.post('/start', startBatchEnrichment);
+router.post('/start', restrictTo('admin'), startBatchEnrichment);
 
 /**
  * @route   POST /api/enrichment/streamer/:streamerId
  * @desc    Enrich a single streamer by ID
  * @access  Private
  */
-router.post('/streamer/:streamerId', enrichStreamer);
+router.post('/streamer/:streamerId', restrictTo('admin'), enrichStreamer);
 
 /**
  * @route   POST /api/enrichment/streamers
  * @desc    Enrich multiple streamers by IDs
  * @access  Private
  */
-router.post('/streamers', enrichStreamers);
+router.post('/streamers', restrictTo('admin'), enrichStreamers);
 
 /**
  * @route   GET /api/enrichment/status
  * @desc    Get enrichment status and statistics
  * @access  Private
  */
-router.get('/status', getEnrichmentStatus);
+router.get('/status', restrictTo('admin', 'analyst'), getEnrichmentStatus);
 
 /**
  * @route   POST /api/enrichment/re-enrich
  * @desc    Re-enrich streamers that haven't been updated in X days
  * @access  Private
  */
-router.post('/re-enrich', reEnrichStaleStreamers);
+router.post('/re-enrich', restrictTo('admin'), reEnrichStaleStreamers);
 
 /**
  * @route   GET /api/enrichment/streamer/:streamerId
  * @desc    Get enrichment data for a specific streamer
  * @access  Private
  */
-router.get('/streamer/:streamerId', getStreamerEnrichmentData);
+router.get('/streamer/:streamerId', restrictTo('admin', 'analyst'), getStreamerEnrichmentData);
 
 /**
  * @route   POST /api/enrichment/migrate-panels
  * @desc    Migrate existing panel images to Bunny CDN
  * @access  Private
  */
-router.post('/migrate-panels', forceReEnrichPanelsToBunny);
+router.post('/migrate-panels', restrictTo('admin'), forceReEnrichPanelsToBunny);
 
 /**
  * @route   POST /api/enrichment/intelligent
  * @desc    Run intelligent enrichment (includes Bunny CDN uploads)
  * @access  Private
  */
-router.post('/intelligent', intelligentReEnrich);
+router.post('/intelligent', restrictTo('admin'), intelligentReEnrich);
 
 export default router;
@@ -3,7 +3,10 @@ import { influencerSyncService } from '../services/influencerSyncService';
 import { enrichLinkedInProfiles } from '../jobs/linkedinEnrichJob';
 import { db } from '../utils/database';
 import { Platform } from '@prisma/client';
+import { requireConfirmation } from '../middleware/confirmation';
 
+// Mounted inside the admin console at /admin-panel/api/influencer-sync, which
+// requires an admin session and audits every POST
 const router = express.Router();
 
 // Sync influencers from external table to discovery_creators
@@ -159,7 +162,13 @@ router.get('/debug-queue', async (req, res) => {
 });
 
 // Reset failed queue entries to pending
-router.post('/reset-failed-queue', async (req, res) => {
+router.post('/reset-failed-queue', requireConfirmation('influencer-sync.reset-failed-queue', async (req) => {
+  const platform = ((req.query.platform as string)?.toUpperCase() || 'LINKEDIN') as Platform;
+  const affected = await db.socialSyncQueue.count({
+    where: { platform: platform as any, status: 'FAILED' }
+  });
+  return { message: `Reset ${affected} failed ${platform} queue entries to pending?`, affected };
+}), async (req, res) => {
   try {
     const platform = ((req.query.platform as string)?.toUpperCase() || 'LINKEDIN') as Platform;
 
@@ -604,7 +613,12 @@ router.get('/test-youtube-scrape/:username', async (req, res) => {
 });
 
 // Reset LinkedIn profiles to re-enrich them
-router.post('/reset-linkedin', async (req, res) => {
+router.post('/reset-linkedin', requireConfirmation('influencer-sync.reset-linkedin', async () => {
+  const affected = await db.streamer.count({
+    where: { platform: Platform.LINKEDIN, followers: 0 }
+  });
+  return { message: `Clear lastScrapedAt on ${affected} unenriched LinkedIn profiles so they are scraped again?`, affected };
+}), async (req, res) => {
   try {
     const result = await db.streamer.updateMany({
       where: {
@@ -0,0 +1,16 @@
+import express from 'express';
+import { MediaKitController } from '../controllers/mediaKitController';
+import { requireSoftrWithUser, validateUserOwnership, dataRateLimit } from '../middleware/auth';
+
+const router = express.Router();
+const mediaKitController = new MediaKitController();
+
+// Shortlist and workspace access is checked in the service
+router.use(dataRateLimit);
+router.use(requireSoftrWithUser);
+router.use(validateUserOwnership);
+
+router.get('/creators/:streamerId', mediaKitController.getCreatorKit);
+router.get('/shortlist', mediaKitController.getShortlistDeck);
+
+export { router as mediaKitRoutes };
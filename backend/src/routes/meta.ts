@@ -0,0 +1,40 @@
+import express, { Request, Response } from 'express';
+import { asyncHandler } from '../middleware/errorHandler';
+import { apiRateLimit } from '../middleware/auth';
+import { db } from '../utils/database';
+import { geographyService } from '../services/geographyService';
+
+const router = express.Router();
+
+// Per-region creator counts drive which regions the filter offers; they move slowly
+const COUNTS_TTL_MS = 10 * 60 * 1000;
+let countsCache: { counts: Map<string, number>; expiresAt: number } | null = null;
+
+async function regionCounts(): Promise<Map<string, number>> {
+  if (countsCache && countsCache.expiresAt > Date.now()) return countsCache.counts;
+
+  const rows = await db.streamer.groupBy({ by: ['region'], _count: { _all: true } });
+  const counts = new Map(rows.map(r => [r.region as string, r._count._all]));
+  countsCache = { counts, expiresAt: Date.now() + COUNTS_TTL_MS };
+  return counts;
+}
+
+// Canonical region list (ISO codes, continent, languages, localized names, flag)
+// so clients don't keep their own copy of the Region enum
+router.get('/geography', apiRateLimit, asyncHandler(async (req: Request, res: Response) => {
+  const counts = await regionCounts();
+
+  res.set('Cache-Control', 'public, max-age=600');
+  res.json({
+    success: true,
+    data: {
+      regions: geographyService.all().map(r => ({
+        ...r,
+        creatorCount: counts.get(r.region) || 0,
+      })),
+      continents: geographyService.continents(),
+    },
+  });
+}));
+
+export { router as metaRoutes };
@@ -0,0 +1,17 @@
+import express from 'express';
+import { OutreachController } from '../controllers/outreachController';
+import { requireSoftrWithUser, validateUserOwnership, dataRateLimit } from '../middleware/auth';
+
+const router = express.Router();
+const outreachController = new OutreachController();
+
+// Outreach is logged per user
+router.use(dataRateLimit);
+router.use(requireSoftrWithUser);
+router.use(validateUserOwnership);
+
+router.get('/map', outreachController.getOutreachMap);
+router.get('/:streamerId', outreachController.getHistory);
+router.post('/', outreachController.recordOutreach);
+
+export { router as outreachRoutes };
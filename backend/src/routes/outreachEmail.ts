@@ -0,0 +1,37 @@
+import express from 'express';
+import { OutreachEmailController } from '../controllers/outreachEmailController';
+import { requireSoftrWithUser, validateUserOwnership, dataRateLimit, apiRateLimit } from '../middleware/auth';
+
+const router = express.Router();
+const outreachEmailController = new OutreachEmailController();
+
+// Public: unsubscribe links (token-addressed) and the inbound tracking hook (shared secret)
+router.get('/unsubscribe/:token', apiRateLimit, outreachEmailController.confirmUnsubscribe);
+router.post('/unsubscribe/:token', apiRateLimit, outreachEmailController.unsubscribe);
+router.post('/inbound', apiRateLimit, outreachEmailController.inbound);
+
+// Everything else is per user
+router.use(dataRateLimit);
+router.use(requireSoftrWithUser);
+router.use(validateUserOwnership);
+
+router.get('/smtp', outreachEmailController.getSettings);
+router.put('/smtp', outreachEmailController.saveSettings);
+router.delete('/smtp', outreachEmailController.deleteSettings);
+router.post('/smtp/test', outreachEmailController.testSettings);
+
+router.get('/templates', outreachEmailController.getTemplates);
+router.post('/templates', outreachEmailController.createTemplate);
+router.patch('/templates/:id', outreachEmailController.updateTemplate);
+router.delete('/templates/:id', outreachEmailController.deleteTemplate);
+router.post('/templates/:id/preview', outreachEmailController.previewTemplate);
+
+router.post('/send', outreachEmailController.send);
+router.get('/batches', outreachEmailController.getBatches);
+router.get('/batches/:id', outreachEmailController.getBatch);
+
+router.get('/opt-outs', outreachEmailController.getOptOuts);
+router.post('/opt-outs', outreachEmailController.addOptOut);
+router.delete('/opt-outs/:email', outreachEmailController.removeOptOut);
+
+export { router as outreachEmailRoutes };
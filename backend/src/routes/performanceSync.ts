@@ -1,9 +1,16 @@
 import { Router, Request, Response } from 'express';
+import { ApiKeyScope } from '@prisma/client';
 import { asyncHandler } from '../middleware/errorHandler';
+import { protect, requireScope } from '../middleware/auth';
 import { db, logger } from '../utils/database';
+import { performanceCorrectionSchema, performanceReplaySchema, performanceSyncSchema } from '../utils/validation';
+import { performanceLedgerService, PerformancePayload } from '../services/performanceLedgerService';
 
 const router = Router();
 
+// Envisioner authenticates with an API key carrying WRITE_PERFORMANCE; admins can use their JWT
+router.use(protect);
+
 /**
  * Performance Sync API - Receives performance data from Envisioner
  *
@@ -11,128 +18,57 @@ const router = Router();
  * to Discovery, improving future recommendations with historical performance.
  */
 
-interface PerformanceSyncPayload {
-  discoveryCreatorId: string;
-  envisionerInfluencerId?: string;
-  envisionerCampaignId?: string;
-  conversions: number;
-  spent: number;
-  cpa: number;
-  roi?: number;
-  campaignStatus?: 'active' | 'completed' | 'cancelled';
-}
-
-interface BulkPerformanceSyncPayload {
-  updates: PerformanceSyncPayload[];
-}
+const idempotencyKeyFrom = (req: Request, bodyKey?: string) =>
+  (req.headers['idempotency-key'] as string | undefined) || bodyKey || undefined;
 
 /**
  * POST /api/performance-sync
- * Sync single creator performance from Envisioner
+ * Sync single creator performance from Envisioner. Send an Idempotency-Key header
+ * (or idempotencyKey in the body) so retries are recorded once.
  */
-router.post('/', asyncHandler(async (req: Request, res: Response) => {
-  const { discoveryCreatorId, envisionerInfluencerId, envisionerCampaignId, conversions, spent, cpa, roi, campaignStatus } = req.body as PerformanceSyncPayload;
-
-  if (!discoveryCreatorId) {
+router.post('/', requireScope(ApiKeyScope.WRITE_PERFORMANCE, 'admin'), asyncHandler(async (req: Request, res: Response) => {
+  const { error, value } = performanceSyncSchema.validate(req.body, { stripUnknown: true });
+  if (error) {
     return res.status(400).json({
       success: false,
-      error: 'discoveryCreatorId is required'
+      error: error.details[0].message
     });
   }
 
-  logger.info('Performance sync received', { discoveryCreatorId, conversions, spent, cpa });
+  const { idempotencyKey, ...payload } = value as PerformancePayload & { idempotencyKey?: string };
+  logger.info('Performance sync received', { discoveryCreatorId: payload.discoveryCreatorId, conversions: payload.conversions, spent: payload.spent, cpa: payload.cpa });
 
-  try {
-    // Find the creator
-    const creator = await db.streamer.findUnique({
-      where: { id: discoveryCreatorId }
-    });
+  const { entry, duplicate } = await performanceLedgerService.record(payload, {
+    idempotencyKey: idempotencyKeyFrom(req, idempotencyKey),
+    createdBy: (req as any).user?.email,
+  });
 
-    if (!creator) {
-      return res.status(404).json({
-        success: false,
-        error: 'Creator not found'
-      });
-    }
+  const creator = await db.streamer.findUnique({
+    where: { id: payload.discoveryCreatorId },
+    select: { historicalConversions: true, historicalCampaigns: true, historicalCpa: true, avgRoi: true }
+  });
 
-    // Update creator with performance data
-    const updatedCreator = await db.streamer.update({
-      where: { id: discoveryCreatorId },
-      data: {
-        historicalCpa: cpa ? (
-          creator.historicalCpa
-            ? (creator.historicalCpa + cpa) / 2 // Rolling average
-            : cpa
-        ) : creator.historicalCpa,
-        historicalConversions: creator.historicalConversions + (conversions || 0),
-        historicalCampaigns: creator.historicalCampaigns + (campaignStatus === 'completed' ? 1 : 0),
-        avgRoi: roi ? (
-          creator.avgRoi
-            ? (creator.avgRoi + roi) / 2
-            : roi
-        ) : creator.avgRoi,
-        lastPerformanceSync: new Date()
-      }
-    });
+  logger.info('Performance sync completed', { discoveryCreatorId: payload.discoveryCreatorId, entryId: entry.id, duplicate });
 
-    // Update or create assignment record
-    if (envisionerInfluencerId || envisionerCampaignId) {
-      await db.discoveryAssignment.upsert({
-        where: {
-          id: `${discoveryCreatorId}-${envisionerCampaignId || 'default'}`
-        },
-        create: {
-          id: `${discoveryCreatorId}-${envisionerCampaignId || 'default'}`,
-          discoveryCreatorId,
-          envisionerInfluencerId,
-          envisionerCampaignId,
-          totalConversions: conversions || 0,
-          totalSpent: spent || 0,
-          avgCpa: cpa,
-          lastPerformanceSync: new Date()
-        },
-        update: {
-          totalConversions: { increment: conversions || 0 },
-          totalSpent: { increment: spent || 0 },
-          avgCpa: cpa,
-          lastPerformanceSync: new Date()
-        }
-      });
+  res.status(duplicate ? 200 : 201).json({
+    success: true,
+    message: duplicate ? 'Duplicate payload ignored' : 'Performance data synced successfully',
+    data: {
+      creatorId: payload.discoveryCreatorId,
+      entryId: entry.id,
+      idempotencyKey: entry.idempotencyKey,
+      duplicate,
+      ...creator
     }
-
-    logger.info('Performance sync completed', {
-      discoveryCreatorId,
-      newHistoricalConversions: updatedCreator.historicalConversions,
-      newHistoricalCpa: updatedCreator.historicalCpa
-    });
-
-    res.json({
-      success: true,
-      message: 'Performance data synced successfully',
-      data: {
-        creatorId: discoveryCreatorId,
-        historicalConversions: updatedCreator.historicalConversions,
-        historicalCampaigns: updatedCreator.historicalCampaigns,
-        historicalCpa: updatedCreator.historicalCpa,
-        avgRoi: updatedCreator.avgRoi
-      }
-    });
-
-  } catch (error) {
-    logger.error('Performance sync error:', error);
-    res.status(500).json({
-      success: false,
-      error: 'Failed to sync performance data'
-    });
-  }
+  });
 }));
 
 /**
  * POST /api/performance-sync/bulk
- * Bulk sync performance data from Envisioner
+ * Bulk sync performance data from Envisioner. Each update may carry its own idempotencyKey.
  */
-router.post('/bulk', asyncHandler(async (req: Request, res: Response) => {
-  const { updates } = req.body as BulkPerformanceSyncPayload;
+router.post('/bulk', requireScope(ApiKeyScope.WRITE_PERFORMANCE, 'admin'), asyncHandler(async (req: Request, res: Response) => {
+  const { updates } = req.body as { updates: unknown[] };
 
   if (!updates || !Array.isArray(updates) || updates.length === 0) {
     return res.status(400).json({
@@ -145,63 +81,103 @@ router.post('/bulk', asyncHandler(async (req: Request, res: Response) => {
 
   const results = {
     success: 0,
+    duplicates: 0,
     failed: 0,
     errors: [] as string[]
   };
+  const touched = new Set<string>();
 
-  for (const update of updates) {
+  for (const raw of updates) {
+    const { error, value } = performanceSyncSchema.validate(raw, { stripUnknown: true });
+    if (error) {
+      results.failed++;
+      results.errors.push(`Invalid update ${(raw as any)?.discoveryCreatorId ?? ''}: ${error.details[0].message}`);
+      continue;
+    }
+
+    const { idempotencyKey, ...payload } = value as PerformancePayload & { idempotencyKey?: string };
     try {
-      const creator = await db.streamer.findUnique({
-        where: { id: update.discoveryCreatorId }
+      // Aggregates are recomputed once per creator after the loop
+      const { duplicate } = await performanceLedgerService.record(payload, {
+        idempotencyKey,
+        createdBy: (req as any).user?.email,
+        recompute: false,
       });
-
-      if (!creator) {
-        results.failed++;
-        results.errors.push(`Creator not found: ${update.discoveryCreatorId}`);
-        continue;
+      if (duplicate) {
+        results.duplicates++;
+      } else {
+        results.success++;
+        touched.add(payload.discoveryCreatorId);
       }
-
-      await db.streamer.update({
-        where: { id: update.discoveryCreatorId },
-        data: {
-          historicalCpa: update.cpa ? (
-            creator.historicalCpa
-              ? (creator.historicalCpa + update.cpa) / 2
-              : update.cpa
-          ) : creator.historicalCpa,
-          historicalConversions: creator.historicalConversions + (update.conversions || 0),
-          historicalCampaigns: creator.historicalCampaigns + (update.campaignStatus === 'completed' ? 1 : 0),
-          avgRoi: update.roi ? (
-            creator.avgRoi
-              ? (creator.avgRoi + update.roi) / 2
-              : update.roi
-          ) : creator.avgRoi,
-          lastPerformanceSync: new Date()
-        }
-      });
-
-      results.success++;
-
     } catch (error: any) {
       results.failed++;
-      results.errors.push(`Failed to update ${update.discoveryCreatorId}: ${error.message}`);
+      results.errors.push(`Failed to update ${payload.discoveryCreatorId}: ${error.message}`);
     }
   }
 
+  const replay = await performanceLedgerService.replay([...touched]);
+  results.errors.push(...replay.errors);
+
   logger.info('Bulk performance sync completed', results);
 
   res.json({
     success: true,
-    message: `Synced ${results.success} of ${updates.length} updates`,
+    message: `Synced ${results.success} of ${updates.length} updates (${results.duplicates} duplicates)`,
     data: results
   });
 }));
 
+/**
+ * POST /api/performance-sync/corrections
+ * Replace a ledger entry with corrected figures; the original stays in the ledger as superseded
+ */
+router.post('/corrections', requireScope(ApiKeyScope.WRITE_PERFORMANCE, 'admin'), asyncHandler(async (req: Request, res: Response) => {
+  const { error, value } = performanceCorrectionSchema.validate(req.body, { stripUnknown: true });
+  if (error) {
+    return res.status(400).json({
+      success: false,
+      error: error.details[0].message
+    });
+  }
+
+  const { entry, duplicate } = await performanceLedgerService.correct(
+    { ...value, idempotencyKey: idempotencyKeyFrom(req, value.idempotencyKey) },
+    (req as any).user?.email
+  );
+
+  res.status(duplicate ? 200 : 201).json({
+    success: true,
+    data: { entry, duplicate }
+  });
+}));
+
+/**
+ * POST /api/performance-sync/replay
+ * Recompute creator aggregates from the ledger (all creators when creatorIds is omitted)
+ */
+router.post('/replay', requireScope(ApiKeyScope.ADMIN, 'admin'), asyncHandler(async (req: Request, res: Response) => {
+  const { error, value } = performanceReplaySchema.validate(req.body || {}, { stripUnknown: true });
+  if (error) {
+    return res.status(400).json({
+      success: false,
+      error: error.details[0].message
+    });
+  }
+
+  const result = await performanceLedgerService.replay(value.creatorIds);
+
+  res.json({
+    success: true,
+    message: `Recomputed ${result.creators} creators`,
+    data: result
+  });
+}));
+
 /**
  * GET /api/performance-sync/stats
  * Get performance sync statistics
  */
-router.get('/stats', asyncHandler(async (req: Request, res: Response) => {
+router.get('/stats', requireScope(ApiKeyScope.WRITE_PERFORMANCE, 'admin', 'analyst'), asyncHandler(async (req: Request, res: Response) => {
   const totalSynced = await db.streamer.count({
     where: {
       lastPerformanceSync: { not: null }
@@ -266,7 +242,7 @@ router.get('/stats', asyncHandler(async (req: Request, res: Response) => {
  * GET /api/performance-sync/creator/:id
  * Get performance data for a specific creator
  */
-router.get('/creator/:id', asyncHandler(async (req: Request, res: Response) => {
+router.get('/creator/:id', requireScope(ApiKeyScope.WRITE_PERFORMANCE, 'admin', 'analyst'), asyncHandler(async (req: Request, res: Response) => {
   const { id } = req.params;
 
   const creator = await db.streamer.findUnique({
@@ -321,6 +297,20 @@ router.get('/creator/:id', asyncHandler(async (req: Request, res: Response) => {
   });
 }));
 
+/**
+ * GET /api/performance-sync/creator/:id/ledger
+ * Every ledger entry for a creator, including superseded ones
+ */
+router.get('/creator/:id/ledger', requireScope(ApiKeyScope.WRITE_PERFORMANCE, 'admin', 'analyst'), asyncHandler(async (req: Request, res: Response) => {
+  const entries = await performanceLedgerService.getEntries(req.params.id);
+
+  res.json({
+    success: true,
+    data: entries,
+    count: entries.length
+  });
+}));
+
 /**
  * Calculate performance rating based on historical data
  */
@@ -0,0 +1,18 @@
+import express from 'express';
+import { RateController } from '../controllers/rateController';
+import { protect, restrictTo } from '../middleware/auth';
+
+const router = express.Router();
+const rateController = new RateController();
+
+// Negotiated rates are commercial data - account team only
+router.use(protect);
+router.use(restrictTo('admin', 'analyst'));
+
+router.get('/', rateController.getRates);
+router.post('/', rateController.recordRate);
+router.delete('/:id', rateController.deleteRate);
+router.get('/models', rateController.getModels);
+router.post('/models/refit', restrictTo('admin'), rateController.refitModels);
+
+export { router as rateRoutes };
@@ -0,0 +1,19 @@
+import express from 'express';
+import { SavedSearchController } from '../controllers/savedSearchController';
+import { requireSoftrWithUser, validateUserOwnership, dataRateLimit } from '../middleware/auth';
+
+const router = express.Router();
+const savedSearchController = new SavedSearchController();
+
+router.use(dataRateLimit);
+router.use(requireSoftrWithUser);
+router.use(validateUserOwnership);
+
+router.get('/', savedSearchController.getSavedSearches);
+router.post('/', savedSearchController.createSavedSearch);
+router.patch('/:id', savedSearchController.updateSavedSearch);
+router.delete('/:id', savedSearchController.deleteSavedSearch);
+router.get('/:id/new-matches', savedSearchController.getNewMatches);
+router.post('/:id/seen', savedSearchController.markSeen);
+
+export { router as savedSearchRoutes };
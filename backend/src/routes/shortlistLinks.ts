@@ -0,0 +1,15 @@
+import express from 'express';
+import { ShortlistLinkController } from '../controllers/shortlistLinkController';
+import { apiRateLimit, linkPasswordRateLimit } from '../middleware/auth';
+
+const router = express.Router();
+const shortlistLinkController = new ShortlistLinkController();
+
+// Public client pages: the token (plus the link password, when set) is the only credential
+router.use(apiRateLimit);
+
+router.get('/:token', shortlistLinkController.getPage);
+router.get('/:token/data', linkPasswordRateLimit, shortlistLinkController.getPageData);
+router.post('/:token/decisions', linkPasswordRateLimit, shortlistLinkController.recordDecision);
+
+export { router as shortlistLinkRoutes };
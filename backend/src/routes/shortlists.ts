@@ -1,9 +1,11 @@
 import express from 'express';
 import { ShortlistController } from '../controllers/shortlistController';
+import { ShortlistLinkController } from '../controllers/shortlistLinkController';
 import { requireSoftrWithUser, validateUserOwnership, dataRateLimit } from '../middleware/auth';
 
 const router = express.Router();
 const shortlistController = new ShortlistController();
+const shortlistLinkController = new ShortlistLinkController();
 
 // Apply rate limiting and Softr auth with userId validation to all routes
 router.use(dataRateLimit);
@@ -19,6 +21,32 @@ router.get('/ids', shortlistController.getShortlistIds);
 // Get all list names for user
 router.get('/lists', shortlistController.getListNames);
 
+// Lists shared with the user through their workspaces
+router.get('/shared', shortlistController.getSharedLists);
+
+// Workspaces one of the user's lists is shared with / share / stop sharing
+router.get('/shares', shortlistController.getShares);
+router.put('/shares', shortlistController.shareList);
+router.delete('/shares', shortlistController.unshareList);
+
+// Who added, changed or removed creators
+router.get('/activity', shortlistController.getActivity);
+
+// People who can be @mentioned in comments
+router.get('/collaborators', shortlistController.getCollaborators);
+
+// Public client links (served under /share/:token)
+router.get('/links', shortlistLinkController.getLinks);
+router.post('/links', shortlistLinkController.createLink);
+router.patch('/links/:id', shortlistLinkController.updateLink);
+router.delete('/links/:id', shortlistLinkController.revokeLink);
+
+// Comment threads on an entry
+router.get('/comments', shortlistController.getComments);
+router.post('/comments', shortlistController.addComment);
+router.patch('/comments/:id', shortlistController.updateComment);
+router.delete('/comments/:id', shortlistController.deleteComment);
+
 // Add to shortlist
 router.post('/', shortlistController.addToShortlist);
 
@@ -28,7 +56,7 @@ router.delete('/', shortlistController.removeFromShortlist);
 // Update shortlist entry (priority, notes)
 router.patch('/', shortlistController.updateShortlistEntry);
 
-// Reorder shortlist (bulk update priorities)
+// Reorder shortlist (move one entry next to another, or bulk update priorities)
 router.post('/reorder', shortlistController.reorderShortlist);
 
 // Toggle shortlist (add/remove)
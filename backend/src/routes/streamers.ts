@@ -1,8 +1,11 @@
 import express from 'express';
+import { ApiKeyScope } from '@prisma/client';
 import { StreamerController } from '../controllers/streamerController';
-import { protect, requireSoftr, dataRateLimit } from '../middleware/auth';
+import { protect, restrictTo, requireScope, requireSoftr, dataRateLimit } from '../middleware/auth';
 import { StreamerService } from '../services/streamerService';
 import { db } from '../utils/database';
+import { cacheResponse } from '../middleware/responseCache';
+import { CACHE_NAMESPACES } from '../services/cacheService';
 
 const router = express.Router();
 const streamerController = new StreamerController();
@@ -11,11 +14,12 @@ const streamerController = new StreamerController();
 router.use(dataRateLimit);
 
 // Public routes - require Softr context for scrape protection
-router.get('/', requireSoftr, streamerController.getStreamers);
-router.get('/stats', requireSoftr, streamerController.getStats);
+// Shared response cache (TTL = each handler's Cache-Control max-age)
+router.get('/', requireSoftr, cacheResponse(CACHE_NAMESPACES.STREAMERS, 30), streamerController.getStreamers);
+router.get('/stats', requireSoftr, cacheResponse(CACHE_NAMESPACES.STREAMERS, 60), streamerController.getStats);
 
 // Backfill avatars - protected admin route
-router.post('/backfill-avatars', protect, async (req, res) => {
+router.post('/backfill-avatars', protect, restrictTo('admin'), async (req, res) => {
   try {
     const limit = parseInt(req.query.limit as string) || 100;
     const platform = (req.query.platform as string)?.toUpperCase() || 'ALL';
@@ -63,7 +67,7 @@ router.post('/backfill-avatars', protect, async (req, res) => {
 });
 
 // Backfill YouTube handles - protected admin route
-router.post('/backfill-youtube-handles', protect, async (req, res) => {
+router.post('/backfill-youtube-handles', protect, restrictTo('admin'), async (req, res) => {
   try {
     const limit = parseInt(req.query.limit as string) || 100;
 
@@ -89,16 +93,20 @@ router.post('/backfill-youtube-handles', protect, async (req, res) => {
   }
 });
 
+// Export routes must be registered before /:id so they are not shadowed
+// The export carries contact emails, so it's limited to the internal team
+router.get('/export', protect, requireScope(ApiKeyScope.ADMIN, 'admin', 'analyst'), streamerController.exportToCsv);
+router.get('/export/columns', protect, requireScope(ApiKeyScope.ADMIN), streamerController.getExportColumns);
+
 router.get('/:id', requireSoftr, streamerController.getStreamerById);
 
 // Protected routes (require authentication)
-router.get('/export', protect, streamerController.exportToCsv);
-router.post('/scrape-now', protect, streamerController.scrapeNow);
-router.post('/cache-stats', protect, streamerController.cacheStats);
-router.post('/seed-csv', protect, streamerController.seedFromCsv);
-router.post('/', protect, streamerController.createStreamer);
-router.put('/:id', protect, streamerController.updateStreamer);
-router.delete('/:id', protect, streamerController.deleteStreamer);
-router.post('/bulk-update', protect, streamerController.bulkUpdateStreamers);
+router.post('/scrape-now', protect, restrictTo('admin'), streamerController.scrapeNow);
+router.post('/cache-stats', protect, restrictTo('admin'), streamerController.cacheStats);
+router.post('/seed-csv', protect, restrictTo('admin'), streamerController.seedFromCsv);
+router.post('/', protect, restrictTo('admin', 'analyst'), streamerController.createStreamer);
+router.put('/:id', protect, restrictTo('admin', 'analyst'), streamerController.updateStreamer);
+router.delete('/:id', protect, restrictTo('admin'), streamerController.deleteStreamer);
+router.post('/bulk-update', protect, restrictTo('admin'), streamerController.bulkUpdateStreamers);
 
 export { router as streamerRoutes };
@@ -0,0 +1,19 @@
+import express from 'express';
+import { WebhookController } from '../controllers/webhookController';
+import { protect, restrictTo } from '../middleware/auth';
+
+const router = express.Router();
+const webhookController = new WebhookController();
+
+// Subscriptions hold signing secrets and point at external URLs - admin only (JWT or ADMIN-scoped API key)
+router.use(protect, restrictTo('admin'));
+
+router.get('/', webhookController.getSubscriptions);
+router.post('/', webhookController.createSubscription);
+router.patch('/:id', webhookController.updateSubscription);
+router.delete('/:id', webhookController.deleteSubscription);
+router.get('/:id/deliveries', webhookController.getDeliveries);
+router.post('/:id/test', webhookController.testSubscription);
+router.post('/deliveries/:deliveryId/redeliver', webhookController.redeliver);
+
+export { router as webhookRoutes };
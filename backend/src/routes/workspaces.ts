@@ -0,0 +1,21 @@
+import express from 'express';
+import { WorkspaceController } from '../controllers/workspaceController';
+import { requireSoftrWithUser, validateUserOwnership, dataRateLimit } from '../middleware/auth';
+
+const router = express.Router();
+const workspaceController = new WorkspaceController();
+
+// Owner checks happen in the service
+router.use(dataRateLimit);
+router.use(requireSoftrWithUser);
+router.use(validateUserOwnership);
+
+router.get('/', workspaceController.getWorkspaces);
+router.post('/', workspaceController.createWorkspace);
+router.patch('/:id', workspaceController.renameWorkspace);
+router.delete('/:id', workspaceController.deleteWorkspace);
+router.put('/:id/branding', workspaceController.updateBranding);
+router.post('/:id/members', workspaceController.addMember);
+router.delete('/:id/members/:memberId', workspaceController.removeMember);
+
+export { router as workspaceRoutes };
@@ -0,0 +1,113 @@
+import { loadHtmlFixture } from '../../test/htmlFixtures';
+import {
+  parseAbbreviatedCount,
+  parseKickCategoryPage,
+  parseKickChannelPage,
+  parseTwitchChannelPage,
+  parseTwitchDirectoryPage,
+  parseYouTubeChannelPage,
+  parseYouTubeSearchPage,
+} from '../pageParsers';
+
+describe('parseAbbreviatedCount', () => {
+  it.each([
+    ['1,234', 1234],
+    ['12.5K', 12500],
+    ['29.7M subscribers', 29700000],
+    ['1.2B', 1200000000],
+    ['no digits', 0],
+    [undefined, 0],
+  ])('%s -> %d', (text, expected) => {
+    expect(parseAbbreviatedCount(text)).toBe(expected);
+  });
+});
+
+describe('Twitch pages', () => {
+  it('parses a live channel page', () => {
+    expect(parseTwitchChannelPage(loadHtmlFixture('twitch-channel-live'))).toEqual({
+      followers: 3700000,
+      currentViewers: 18342,
+      isLive: true,
+      currentGame: 'Just Chatting',
+      displayName: 'elxokas',
+      avatarUrl: 'https://static-cdn.jtvnw.net/jtv_user_pictures/elxokas-profile_image-70x70.png',
+      description: 'Streamer de Valladolid. Negocios: negocios@elxokas.com',
+    });
+  });
+
+  it('falls back to body text for followers and resolves relative avatars', () => {
+    expect(parseTwitchChannelPage(loadHtmlFixture('twitch-channel-offline'))).toEqual({
+      followers: 12480,
+      currentViewers: 0,
+      isLive: false,
+      currentGame: undefined,
+      displayName: 'NicoEdits',
+      avatarUrl: 'https://www.twitch.tv/images/nicoedits-70x70.png',
+      description: '',
+    });
+  });
+
+  it('lists directory channels up to the limit, skipping cards without links', () => {
+    const html = loadHtmlFixture('twitch-directory');
+
+    expect(parseTwitchDirectoryPage(html, 50)).toEqual(['elxokas', 'gaules', 'ibai', 'auronplay']);
+    expect(parseTwitchDirectoryPage(html, 2)).toEqual(['elxokas', 'gaules']);
+  });
+});
+
+describe('Kick pages', () => {
+  it('parses a live channel page (including the :contains selectors)', () => {
+    expect(parseKickChannelPage(loadHtmlFixture('kick-channel-live'))).toEqual({
+      followers: 1890000,
+      currentViewers: 52013,
+      isLive: true,
+      currentGame: 'Just Chatting',
+      displayName: 'Westcol',
+      avatarUrl: 'https://files.kick.com/images/user/1218471/profile_image/conversion/westcol-medium.webp',
+      bio: 'Colombiano. Negocios: westcolmanagement@gmail.com',
+      streamTitle: 'JUGANDO CON LOS PANAS',
+    });
+  });
+
+  it('returns empty values for a page with none of the selectors', () => {
+    expect(parseKickChannelPage('<html><body><p>Loading…</p></body></html>')).toEqual({
+      followers: 0,
+      currentViewers: 0,
+      isLive: false,
+      currentGame: undefined,
+      displayName: '',
+      avatarUrl: undefined,
+      bio: '',
+      streamTitle: '',
+    });
+  });
+
+  it('lists category channels once each, ignoring pagination links', () => {
+    expect(parseKickCategoryPage(loadHtmlFixture('kick-category'), 20)).toEqual(['westcol', 'roshtein', 'casinero_mx']);
+  });
+});
+
+describe('YouTube pages', () => {
+  it('parses a channel page and unwraps redirect links', () => {
+    expect(parseYouTubeChannelPage(loadHtmlFixture('youtube-channel'))).toEqual({
+      followers: 29700000,
+      isLive: true,
+      displayName: 'AuronPlay',
+      avatarUrl: 'https://yt3.googleusercontent.com/auron=s176-c-k-c0x00ffffff-no-rj',
+      description: 'Vídeos de humor. Contacto: auronplay@gmail.com',
+      currentViewers: 12345,
+      socialLinks: [
+        'https://www.instagram.com/auronplay/',
+        'https://twitter.com/auronplay',
+        'https://www.tiktok.com/@auronplay',
+      ],
+    });
+  });
+
+  it('collects channel handles and ids from live search results', () => {
+    const html = loadHtmlFixture('youtube-search-live');
+
+    expect(parseYouTubeSearchPage(html, 30)).toEqual(['@elrubiusOMG', 'UCam8T03EOFBsNdR0thrFHdQ', '@TheGrefg']);
+    expect(parseYouTubeSearchPage(html, 1)).toEqual(['@elrubiusOMG']);
+  });
+});
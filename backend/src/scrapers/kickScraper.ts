@@ -1,5 +1,6 @@
 import { Browser, Page, chromium } from 'playwright';
 import { logger } from '../utils/database';
+import { parseKickChannelPage, parseKickCategoryPage } from './pageParsers';
 import { Platform, Region, FraudStatus } from '@prisma/client';
 
 interface KickStreamData {
@@ -132,76 +133,7 @@ export class KickScraper {
 
       await page.waitForTimeout(3000);
 
-      const pageData = await page.evaluate(() => {
-        const extractFollowers = (): number => {
-          const followersText = document.querySelector('[data-testid="followers-count"]')?.textContent ||
-                                document.querySelector('.text-alt-2:contains("Followers")')?.textContent;
-          if (!followersText) return 0;
-
-          const match = followersText.match(/([\d,]+\.?\d*[KMB]?)/i);
-          if (!match) return 0;
-
-          const value = match[1].replace(/,/g, '');
-          const num = parseFloat(value);
-
-          if (value.includes('K')) return Math.floor(num * 1000);
-          if (value.includes('M')) return Math.floor(num * 1000000);
-          if (value.includes('B')) return Math.floor(num * 1000000000);
-
-          return Math.floor(num);
-        };
-
-        const extractViewers = (): number => {
-          const viewersText = document.querySelector('[data-testid="viewer-count"]')?.textContent ||
-                             document.querySelector('.text-danger')?.textContent;
-          if (!viewersText) return 0;
-
-          const match = viewersText.match(/([\d,]+)/);
-          return match ? parseInt(match[1].replace(/,/g, ''), 10) : 0;
-        };
-
-        const isLive = (): boolean => {
-          return document.querySelector('[data-testid="live-indicator"]') !== null ||
-                 document.querySelector('.bg-danger') !== null ||
-                 document.querySelector('.text-danger:contains("LIVE")') !== null;
-        };
-
-        const getGameName = (): string | undefined => {
-          return document.querySelector('[data-testid="category-name"]')?.textContent?.trim() ||
-                 document.querySelector('.category-link')?.textContent?.trim() || undefined;
-        };
-
-        const getDisplayName = (): string => {
-          return document.querySelector('[data-testid="channel-name"] h1')?.textContent?.trim() ||
-                 document.querySelector('.channel-header h1')?.textContent?.trim() || '';
-        };
-
-        const getAvatarUrl = (): string | undefined => {
-          const img = document.querySelector('[data-testid="channel-avatar"] img, .avatar img') as HTMLImageElement;
-          return img?.src;
-        };
-
-        const getBio = (): string => {
-          return document.querySelector('[data-testid="channel-bio"]')?.textContent?.trim() ||
-                 document.querySelector('.channel-description')?.textContent?.trim() || '';
-        };
-
-        const getStreamTitle = (): string => {
-          return document.querySelector('[data-testid="stream-title"]')?.textContent?.trim() ||
-                 document.querySelector('.stream-title')?.textContent?.trim() || '';
-        };
-
-        return {
-          followers: extractFollowers(),
-          currentViewers: extractViewers(),
-          isLive: isLive(),
-          currentGame: getGameName(),
-          displayName: getDisplayName(),
-          avatarUrl: getAvatarUrl(),
-          bio: getBio(),
-          streamTitle: getStreamTitle()
-        };
-      });
+      const pageData = parseKickChannelPage(await page.content(), this.BASE_URL);
 
       return pageData;
     } catch (error) {
@@ -361,23 +293,7 @@ export class KickScraper {
 
       await page.waitForTimeout(3000);
 
-      const streamers = await page.evaluate((limit) => {
-        const channelElements = document.querySelectorAll('[data-testid="channel-card"], .channel-card');
-        const results: string[] = [];
-
-        for (let i = 0; i < Math.min(channelElements.length, limit); i++) {
-          const element = channelElements[i];
-          const link = element.querySelector('a[href*="/"]')?.getAttribute('href');
-          if (link) {
-            const username = link.split('/').pop();
-            if (username && !username.includes('?') && !username.includes('#')) {
-              results.push(username);
-            }
-          }
-        }
-
-        return [...new Set(results)];
-      }, limit);
+      const streamers = parseKickCategoryPage(await page.content(), limit);
 
       await context.close();
 
@@ -0,0 +1,279 @@
+import * as cheerio from 'cheerio';
+
+/**
+ * Page parsers for the Playwright scrapers
+ *
+ * The scrapers render a page, grab page.content() and hand the HTML to these
+ * functions, so the selector logic runs (and is tested) without a browser.
+ */
+
+export interface TwitchChannelPage {
+  followers: number;
+  currentViewers: number;
+  isLive: boolean;
+  currentGame?: string;
+  displayName: string;
+  avatarUrl?: string;
+  description: string;
+}
+
+export interface KickChannelPage {
+  followers: number;
+  currentViewers: number;
+  isLive: boolean;
+  currentGame?: string;
+  displayName: string;
+  avatarUrl?: string;
+  bio: string;
+  streamTitle: string;
+}
+
+export interface YouTubeChannelPage {
+  followers: number;
+  isLive: boolean;
+  displayName: string;
+  avatarUrl?: string;
+  description: string;
+  currentViewers: number;
+  socialLinks: string[];
+}
+
+const firstText = ($: cheerio.CheerioAPI, selectors: string[]): string => {
+  for (const selector of selectors) {
+    const text = $(selector).first().text().trim();
+    if (text) return text;
+  }
+  return '';
+};
+
+const absoluteUrl = (href: string | undefined, baseUrl: string): string | undefined => {
+  if (!href) return undefined;
+  try {
+    return new URL(href, baseUrl).toString();
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * "12.5K" / "1,234" / "3M subscribers" -> number (K/M/B suffix, case-sensitive as rendered)
+ */
+export function parseAbbreviatedCount(text: string | undefined): number {
+  if (!text) return 0;
+
+  const match = text.match(/([\d,]+\.?\d*[KMB]?)/i);
+  if (!match) return 0;
+
+  const value = match[1].replace(/,/g, '');
+  const num = parseFloat(value);
+
+  if (value.includes('K')) return Math.floor(num * 1000);
+  if (value.includes('M')) return Math.floor(num * 1000000);
+  if (value.includes('B')) return Math.floor(num * 1000000000);
+
+  return Math.floor(num);
+}
+
+const parseTwitchStat = (text: string, noun: string): number | null => {
+  const lower = text.toLowerCase();
+  const match = lower.match(new RegExp(`([\\d,\\.]+)\\s*[km]?\\s*${noun}`, 'i')) || lower.match(/([\d,\.]+)\s*[km]?/);
+  if (!match) return null;
+
+  let number = parseFloat(match[1].replace(/,/g, ''));
+  if (lower.includes('k')) number *= 1000;
+  if (lower.includes('m')) number *= 1000000;
+  return Math.floor(number);
+};
+
+export function parseTwitchChannelPage(html: string, baseUrl: string = 'https://www.twitch.tv'): TwitchChannelPage {
+  const $ = cheerio.load(html);
+  const bodyText = $('body').text();
+
+  const extractFollowers = (): number => {
+    const selectors = [
+      '[data-test-selector="followers-count"]',
+      '[data-a-target="followers-count"]',
+      '.followers-count',
+      '[aria-label*="follower"]',
+      '.tw-stat-value',
+      '[data-test-selector="channel-info-content"] p'
+    ];
+
+    for (const selector of selectors) {
+      const text = $(selector).first().text();
+      if (!text) continue;
+      const count = parseTwitchStat(text, 'follower');
+      if (count !== null) return count;
+    }
+
+    // Fallback: any text containing a follower count pattern
+    const followerMatch = bodyText.match(/(\d{1,3}(?:,\d{3})*|\d+(?:\.\d+)?[km]?)\s*followers?/i);
+    if (followerMatch) {
+      let number = parseFloat(followerMatch[1].replace(/,/g, ''));
+      const text = followerMatch[0].toLowerCase();
+      if (text.includes('k')) number *= 1000;
+      if (text.includes('m')) number *= 1000000;
+      return Math.floor(number);
+    }
+
+    return 0;
+  };
+
+  const extractViewers = (): number => {
+    const selectors = [
+      '[data-test-selector="viewers-count"]',
+      '[data-a-target="viewers-count"]',
+      '.viewer-count',
+      '[aria-label*="viewer"]',
+      '.tw-stat-value'
+    ];
+
+    for (const selector of selectors) {
+      const text = $(selector).first().text();
+      if (!text) continue;
+      const count = parseTwitchStat(text, 'viewer');
+      if (count !== null) return count;
+    }
+
+    return 0;
+  };
+
+  const isLive = (): boolean => {
+    const liveSelectors = [
+      '[data-test-selector="live-indicator"]',
+      '[data-a-target="live-indicator"]',
+      '.live-indicator',
+      '[aria-label*="live"]',
+      '.tw-channel-status-indicator--live',
+      '.stream-type-indicator'
+    ];
+
+    const lowerBody = bodyText.toLowerCase();
+    return liveSelectors.some(selector => $(selector).length > 0) ||
+           (lowerBody.includes('live') && !lowerBody.includes('offline'));
+  };
+
+  return {
+    followers: extractFollowers(),
+    currentViewers: extractViewers(),
+    isLive: isLive(),
+    currentGame: firstText($, ['[data-test-selector="stream-game-link"]']) || undefined,
+    displayName: firstText($, ['[data-test-selector="channel-display-name"]']),
+    avatarUrl: absoluteUrl($('[data-test-selector="channel-avatar"] img').first().attr('src'), baseUrl),
+    description: firstText($, ['[data-test-selector="channel-description"]']),
+  };
+}
+
+/**
+ * Channel logins from a Twitch directory page (stream thumbnails), in page order
+ */
+export function parseTwitchDirectoryPage(html: string, limit: number): string[] {
+  const $ = cheerio.load(html);
+  const results: string[] = [];
+
+  $('[data-test-selector="stream-thumbnail"]').slice(0, limit).each((_, element) => {
+    const link = $(element).find('a[href*="/"]').first().attr('href');
+    const username = link?.split('/').pop();
+    if (username) results.push(username);
+  });
+
+  return results;
+}
+
+export function parseKickChannelPage(html: string, baseUrl: string = 'https://kick.com'): KickChannelPage {
+  const $ = cheerio.load(html);
+
+  const followersText = firstText($, ['[data-testid="followers-count"]', '.text-alt-2:contains("Followers")']);
+  const viewersText = firstText($, ['[data-testid="viewer-count"]', '.text-danger']);
+  const viewersMatch = viewersText.match(/([\d,]+)/);
+
+  return {
+    followers: parseAbbreviatedCount(followersText),
+    currentViewers: viewersMatch ? parseInt(viewersMatch[1].replace(/,/g, ''), 10) : 0,
+    isLive: $('[data-testid="live-indicator"]').length > 0 ||
+            $('.bg-danger').length > 0 ||
+            $('.text-danger:contains("LIVE")').length > 0,
+    currentGame: firstText($, ['[data-testid="category-name"]', '.category-link']) || undefined,
+    displayName: firstText($, ['[data-testid="channel-name"] h1', '.channel-header h1']),
+    avatarUrl: absoluteUrl($('[data-testid="channel-avatar"] img, .avatar img').first().attr('src'), baseUrl),
+    bio: firstText($, ['[data-testid="channel-bio"]', '.channel-description']),
+    streamTitle: firstText($, ['[data-testid="stream-title"]', '.stream-title']),
+  };
+}
+
+/**
+ * Channel slugs from a Kick category page (channel cards), deduplicated
+ */
+export function parseKickCategoryPage(html: string, limit: number): string[] {
+  const $ = cheerio.load(html);
+  const results: string[] = [];
+
+  $('[data-testid="channel-card"], .channel-card').slice(0, limit).each((_, element) => {
+    const link = $(element).find('a[href*="/"]').first().attr('href');
+    const username = link?.split('/').pop();
+    if (username && !username.includes('?') && !username.includes('#')) {
+      results.push(username);
+    }
+  });
+
+  return [...new Set(results)];
+}
+
+export function parseYouTubeChannelPage(html: string, baseUrl: string = 'https://www.youtube.com'): YouTubeChannelPage {
+  const $ = cheerio.load(html);
+
+  const viewersMatch = $('[class*="watching"]').first().text().match(/([\d,]+)/);
+
+  const getSocialLinks = (): string[] => {
+    const links: string[] = [];
+    $('a[href*="linkedin.com"], a[href*="instagram.com"], a[href*="twitter.com"], a[href*="x.com"], a[href*="tiktok.com"], a[href*="facebook.com"]')
+      .not('[href*="youtube.com/redirect"]')
+      .each((_, el) => {
+        const href = absoluteUrl($(el).attr('href'), baseUrl);
+        if (href && !links.includes(href)) links.push(href);
+      });
+    // YouTube wraps external links in youtube.com/redirect?q=<target>
+    $('a[href*="youtube.com/redirect"]').each((_, el) => {
+      const href = absoluteUrl($(el).attr('href'), baseUrl);
+      if (!href) return;
+      const q = new URL(href).searchParams.get('q');
+      if (q && (q.includes('linkedin') || q.includes('instagram') || q.includes('twitter') || q.includes('tiktok') || q.includes('facebook'))) {
+        if (!links.includes(q)) links.push(q);
+      }
+    });
+    return links;
+  };
+
+  return {
+    followers: parseAbbreviatedCount($('#subscriber-count').first().text()),
+    isLive: $('[aria-label*="LIVE"]').length > 0 || $('.badge-style-type-live-now').length > 0,
+    displayName: firstText($, ['#channel-name', '.ytd-channel-name h1']),
+    avatarUrl: absoluteUrl($('#avatar img, .ytd-c4-tabbed-header-renderer img').first().attr('src'), baseUrl),
+    description: firstText($, ['#description-container', '.about-description']),
+    currentViewers: viewersMatch ? parseInt(viewersMatch[1].replace(/,/g, ''), 10) : 0,
+    socialLinks: getSocialLinks(),
+  };
+}
+
+/**
+ * Channel handles (@name) or UC... ids from a YouTube search results page, deduplicated
+ */
+export function parseYouTubeSearchPage(html: string, limit: number): string[] {
+  const $ = cheerio.load(html);
+  const results: string[] = [];
+
+  $('ytd-video-renderer, ytd-grid-video-renderer').slice(0, limit).each((_, element) => {
+    const channelLink = $(element).find('a[href*="/channel/"], a[href*="/@"]').first().attr('href');
+    if (!channelLink) return;
+
+    if (channelLink.includes('/@')) {
+      const handle = channelLink.split('/@')[1]?.split('/')[0];
+      if (handle) results.push(`@${handle}`);
+    } else if (channelLink.includes('/channel/')) {
+      const channelId = channelLink.split('/channel/')[1]?.split('/')[0];
+      if (channelId) results.push(channelId);
+    }
+  });
+
+  return [...new Set(results)];
+}
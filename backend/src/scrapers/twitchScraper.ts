@@ -1,5 +1,6 @@
 import { Browser, Page, chromium } from 'playwright';
 import { logger } from '../utils/database';
+import { parseTwitchChannelPage, parseTwitchDirectoryPage } from './pageParsers';
 import { Platform, Region, FraudStatus } from '@prisma/client';
 
 interface TwitchStreamData {
@@ -151,115 +152,7 @@ export class TwitchScraper {
 
       await page.waitForTimeout(2000);
 
-      const pageData = await page.evaluate(() => {
-        const extractFollowers = (): number => {
-          // Try multiple selectors for followers count
-          const selectors = [
-            '[data-test-selector="followers-count"]',
-            '[data-a-target="followers-count"]',
-            '.followers-count',
-            '[aria-label*="follower"]',
-            '.tw-stat-value',
-            '[data-test-selector="channel-info-content"] p'
-          ];
-
-          for (const selector of selectors) {
-            const element = document.querySelector(selector);
-            if (element?.textContent) {
-              const text = element.textContent.toLowerCase();
-              const match = text.match(/([\d,\.]+)\s*[km]?\s*follower/i) || text.match(/([\d,\.]+)\s*[km]?/);
-              if (match) {
-                let number = parseFloat(match[1].replace(/,/g, ''));
-                if (text.includes('k')) number *= 1000;
-                if (text.includes('m')) number *= 1000000;
-                return Math.floor(number);
-              }
-            }
-          }
-
-          // Fallback: look for any text containing follower count patterns
-          const bodyText = document.body.textContent || '';
-          const followerMatch = bodyText.match(/(\d{1,3}(?:,\d{3})*|\d+(?:\.\d+)?[km]?)\s*followers?/i);
-          if (followerMatch) {
-            let number = parseFloat(followerMatch[1].replace(/,/g, ''));
-            const text = followerMatch[0].toLowerCase();
-            if (text.includes('k')) number *= 1000;
-            if (text.includes('m')) number *= 1000000;
-            return Math.floor(number);
-          }
-
-          return 0;
-        };
-
-        const extractViewers = (): number => {
-          // Try multiple selectors for viewer count
-          const selectors = [
-            '[data-test-selector="viewers-count"]',
-            '[data-a-target="viewers-count"]',
-            '.viewer-count',
-            '[aria-label*="viewer"]',
-            '.tw-stat-value'
-          ];
-
-          for (const selector of selectors) {
-            const element = document.querySelector(selector);
-            if (element?.textContent) {
-              const text = element.textContent.toLowerCase();
-              const match = text.match(/([\d,\.]+)\s*[km]?\s*viewer/i) || text.match(/([\d,\.]+)\s*[km]?/);
-              if (match) {
-                let number = parseFloat(match[1].replace(/,/g, ''));
-                if (text.includes('k')) number *= 1000;
-                if (text.includes('m')) number *= 1000000;
-                return Math.floor(number);
-              }
-            }
-          }
-
-          return 0;
-        };
-
-        const isLive = (): boolean => {
-          const liveSelectors = [
-            '[data-test-selector="live-indicator"]',
-            '[data-a-target="live-indicator"]',
-            '.live-indicator',
-            '[aria-label*="live"]',
-            '.tw-channel-status-indicator--live',
-            '.stream-type-indicator'
-          ];
-
-          return liveSelectors.some(selector => document.querySelector(selector) !== null) ||
-                 (document.body.textContent || '').toLowerCase().includes('live') &&
-                 !(document.body.textContent || '').toLowerCase().includes('offline');
-        };
-
-        const getGameName = (): string | undefined => {
-          return document.querySelector('[data-test-selector="stream-game-link"]')?.textContent?.trim() || undefined;
-        };
-
-        const getDisplayName = (): string => {
-          return document.querySelector('[data-test-selector="channel-display-name"]')?.textContent?.trim() || '';
-        };
-
-        const getAvatarUrl = (): string | undefined => {
-          const img = document.querySelector('[data-test-selector="channel-avatar"] img') as HTMLImageElement;
-          return img?.src;
-        };
-
-        const getDescription = (): string => {
-          return document.querySelector('[data-test-selector="channel-description"]')?.textContent?.trim() || '';
-        };
-
-        return {
-          followers: extractFollowers(),
-          currentViewers: extractViewers(),
-          isLive: isLive(),
-          currentGame: getGameName(),
-          displayName: getDisplayName(),
-          avatarUrl: getAvatarUrl(),
-          description: getDescription()
-        };
-      });
+      const pageData = parseTwitchChannelPage(await page.content(), this.BASE_URL);
 
       return pageData;
     } catch (error) {
@@ -403,23 +296,7 @@ export class TwitchScraper {
 
       await page.waitForTimeout(3000);
 
-      const streamers = await page.evaluate((limit) => {
-        const streamElements = document.querySelectorAll('[data-test-selector="stream-thumbnail"]');
-        const results: string[] = [];
-
-        for (let i = 0; i < Math.min(streamElements.length, limit); i++) {
-          const element = streamElements[i];
-          const link = element.querySelector('a[href*="/"]')?.getAttribute('href');
-          if (link) {
-            const username = link.split('/').pop();
-            if (username) {
-              results.push(username);
-            }
-          }
-        }
-
-        return results;
-      }, limit);
+      const streamers = parseTwitchDirectoryPage(await page.content(), limit);
 
       await context.close();
 
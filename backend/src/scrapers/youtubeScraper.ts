@@ -1,6 +1,8 @@
 import { Browser, Page, chromium } from 'playwright';
 import { logger } from '../utils/database';
+import { parseYouTubeChannelPage, parseYouTubeSearchPage } from './pageParsers';
 import { Platform, Region, FraudStatus } from '@prisma/client';
+import { geographyService } from '../services/geographyService';
 
 interface YouTubeStreamData {
   username: string;
@@ -164,85 +166,7 @@ export class YouTubeScraper {
 
       await page.waitForTimeout(3000);
 
-      const pageData = await page.evaluate(() => {
-        const extractSubscribers = (): number => {
-          const subsText = document.querySelector('#subscriber-count')?.textContent;
-          if (!subsText) return 0;
-
-          const match = subsText.match(/([\d,]+\.?\d*[KMB]?)/i);
-          if (!match) return 0;
-
-          const value = match[1].replace(/,/g, '');
-          const num = parseFloat(value);
-
-          if (value.includes('K')) return Math.floor(num * 1000);
-          if (value.includes('M')) return Math.floor(num * 1000000);
-          if (value.includes('B')) return Math.floor(num * 1000000000);
-
-          return Math.floor(num);
-        };
-
-        const isLive = (): boolean => {
-          return document.querySelector('[aria-label*="LIVE"]') !== null ||
-                 document.querySelector('.badge-style-type-live-now') !== null;
-        };
-
-        const getDisplayName = (): string => {
-          return document.querySelector('#channel-name')?.textContent?.trim() ||
-                 document.querySelector('.ytd-channel-name h1')?.textContent?.trim() || '';
-        };
-
-        const getAvatarUrl = (): string | undefined => {
-          const img = document.querySelector('#avatar img, .ytd-c4-tabbed-header-renderer img') as HTMLImageElement;
-          return img?.src;
-        };
-
-        const getDescription = (): string => {
-          return document.querySelector('#description-container')?.textContent?.trim() ||
-                 document.querySelector('.about-description')?.textContent?.trim() || '';
-        };
-
-        const getCurrentViewers = (): number => {
-          const viewersText = document.querySelector('[class*="watching"]')?.textContent;
-          if (!viewersText) return 0;
-
-          const match = viewersText.match(/([\d,]+)/);
-          return match ? parseInt(match[1].replace(/,/g, ''), 10) : 0;
-        };
-
-        const getSocialLinks = (): string[] => {
-          const links: string[] = [];
-          // Look for links in the About page section
-          const linkElements = document.querySelectorAll('a[href*="linkedin.com"], a[href*="instagram.com"], a[href*="twitter.com"], a[href*="x.com"], a[href*="tiktok.com"], a[href*="facebook.com"]');
-          linkElements.forEach(el => {
-            const href = (el as HTMLAnchorElement).href;
-            if (href && !links.includes(href)) links.push(href);
-          });
-          // Also check redirect links (YouTube uses redirect URLs)
-          const redirectLinks = document.querySelectorAll('a[href*="youtube.com/redirect"]');
-          redirectLinks.forEach(el => {
-            const href = (el as HTMLAnchorElement).href;
-            try {
-              const url = new URL(href);
-              const q = url.searchParams.get('q');
-              if (q && (q.includes('linkedin') || q.includes('instagram') || q.includes('twitter') || q.includes('tiktok') || q.includes('facebook'))) {
-                if (!links.includes(q)) links.push(q);
-              }
-            } catch {}
-          });
-          return links;
-        };
-
-        return {
-          followers: extractSubscribers(),
-          isLive: isLive(),
-          displayName: getDisplayName(),
-          avatarUrl: getAvatarUrl(),
-          description: getDescription(),
-          currentViewers: getCurrentViewers(),
-          socialLinks: getSocialLinks()
-        };
-      });
+      const pageData = parseYouTubeChannelPage(await page.content(), this.BASE_URL);
 
       return pageData;
     } catch (error) {
@@ -252,29 +176,9 @@ export class YouTubeScraper {
   }
 
   private detectRegionFromCountry(country?: string, description?: string): Region {
-    const countryRegionMap: Record<string, Region> = {
-      'MX': Region.MEXICO,
-      'CO': Region.COLOMBIA,
-      'AR': Region.ARGENTINA,
-      'CL': Region.CHILE,
-      'PE': Region.PERU,
-      'VE': Region.VENEZUELA,
-      'EC': Region.ECUADOR,
-      'BO': Region.BOLIVIA,
-      'PY': Region.PARAGUAY,
-      'UY': Region.URUGUAY,
-      'CR': Region.COSTA_RICA,
-      'PA': Region.PANAMA,
-      'GT': Region.GUATEMALA,
-      'SV': Region.EL_SALVADOR,
-      'HN': Region.HONDURAS,
-      'NI': Region.NICARAGUA,
-      'DO': Region.DOMINICAN_REPUBLIC,
-      'PR': Region.PUERTO_RICO,
-    };
-
-    if (country && countryRegionMap[country]) {
-      return countryRegionMap[country];
+    const fromCode = geographyService.fromCountryCode(country);
+    if (fromCode) {
+      return fromCode;
     }
 
     if (description) {
@@ -414,26 +318,7 @@ export class YouTubeScraper {
 
       await page.waitForTimeout(3000);
 
-      const channels = await page.evaluate((limit) => {
-        const channelElements = document.querySelectorAll('ytd-video-renderer, ytd-grid-video-renderer');
-        const results: string[] = [];
-
-        for (let i = 0; i < Math.min(channelElements.length, limit); i++) {
-          const element = channelElements[i];
-          const channelLink = element.querySelector('a[href*="/channel/"], a[href*="/@"]')?.getAttribute('href');
-          if (channelLink) {
-            if (channelLink.includes('/@')) {
-              const handle = channelLink.split('/@')[1]?.split('/')[0];
-              if (handle) results.push(`@${handle}`);
-            } else if (channelLink.includes('/channel/')) {
-              const channelId = channelLink.split('/channel/')[1]?.split('/')[0];
-              if (channelId) results.push(channelId);
-            }
-          }
-        }
-
-        return [...new Set(results)];
-      }, limit);
+      const channels = parseYouTubeSearchPage(await page.content(), limit);
 
       await context.close();
 
@@ -0,0 +1,74 @@
+import { Platform } from '@prisma/client';
+import { createTestStreamer } from '../../test/testDatabase';
+import { autoRecommendationService } from '../autoRecommendationService';
+import { recommendationProfileService } from '../recommendationProfileService';
+
+describe('AutoRecommendationService (db)', () => {
+  const seed = async () => {
+    // Engaging but less brand safe vs. brand safe but quiet
+    const engaging = await createTestStreamer({ platform: Platform.TWITCH, username: 'engaging', followers: 20000, engagementRate: 10, brandSafetyScore: 50 });
+    const safe = await createTestStreamer({ platform: Platform.TWITCH, username: 'safe', followers: 20000, engagementRate: 1, brandSafetyScore: 80 });
+    return { engaging, safe };
+  };
+
+  it('explains every factor of each recommendation', async () => {
+    const { engaging } = await seed();
+
+    const result = await autoRecommendationService.getRecommendations({ totalCount: 2 });
+    const top = result.recommendations[0];
+
+    expect(result.profile.slug).toBe('default');
+    expect(top.id).toBe(engaging.id);
+    expect(top.explanation.map(e => e.factor)).toEqual(['verticalFit', 'historicalPerformance', 'brandSafety', 'budgetAlignment', 'userHistoryBonus']);
+    expect(top.explanation.reduce((sum, e) => sum + e.contribution, 0)).toBeCloseTo(top.score, 5);
+    expect(top.explanation.find(e => e.factor === 'brandSafety')!.reasons).toContain('Fraud check clean (+10)');
+  });
+
+  it('previews how a weight change reorders results', async () => {
+    const { engaging, safe } = await seed();
+
+    const preview = await autoRecommendationService.previewProfile(
+      { totalCount: 2 },
+      { weights: { verticalFit: 0.1, brandSafety: 0.6 } }
+    );
+
+    expect(preview.changes).toEqual([
+      { id: safe.id, displayName: 'safe', currentRank: 2, proposedRank: 1, movement: 1 },
+      { id: engaging.id, displayName: 'engaging', currentRank: 1, proposedRank: 2, movement: -1 },
+    ]);
+  });
+
+  it('scores with the named profile and applies its exclusions', async () => {
+    const { engaging, safe } = await seed();
+    await recommendationProfileService.create({
+      slug: 'safety-first',
+      name: 'Safety first',
+      weights: { verticalFit: 0.1, brandSafety: 0.6 },
+      exclusions: { minBrandSafetyScore: 60 },
+    }, 'test');
+
+    const result = await autoRecommendationService.getRecommendations({ totalCount: 2, profile: 'safety-first' });
+
+    expect(result.profile.slug).toBe('safety-first');
+    expect(result.recommendations.map(r => r.id)).toEqual([safe.id]);
+    expect(result.recommendations.map(r => r.id)).not.toContain(engaging.id);
+  });
+
+  it('places creators by the profile\'s tier minimums', async () => {
+    const { engaging } = await seed();
+    const tiny = await createTestStreamer({ platform: Platform.KICK, username: 'tiny', followers: 500 });
+    await recommendationProfileService.create({
+      slug: 'mid-up',
+      name: 'Mid and up',
+      tierRanges: { micro: { min: 30000, max: 50000 } },
+    }, 'test');
+
+    const defaults = await autoRecommendationService.getRecommendations({ totalCount: 5 });
+    const midUp = await autoRecommendationService.getRecommendations({ totalCount: 5, profile: 'mid-up' });
+
+    expect(defaults.recommendations.map(r => r.id)).not.toContain(tiny.id);
+    expect(defaults.recommendations.find(r => r.id === engaging.id)!.tier).toBe('micro');
+    // 20k is now between nano (up to 10k) and micro (from 30k)
+    expect(midUp.recommendations.find(r => r.id === engaging.id)!.tier).toBe('nano');
+  });
+});
@@ -0,0 +1,77 @@
+import { cacheService } from '../cacheService';
+
+// No REDIS_URL in tests, so these exercise the in-process fallback
+describe('cacheService (in-process fallback)', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('reports that it is not sharing state without Redis', () => {
+    expect(cacheService.isShared).toBe(false);
+  });
+
+  it('expires values after their TTL', async () => {
+    jest.useFakeTimers();
+    await cacheService.set('token', 'abc', 60);
+    expect(await cacheService.get('token')).toBe('abc');
+
+    jest.advanceTimersByTime(61 * 1000);
+    expect(await cacheService.get('token')).toBeNull();
+  });
+
+  it('round-trips JSON and ignores unparseable values', async () => {
+    await cacheService.setJson('json', { a: 1, b: ['x'] });
+    expect(await cacheService.getJson('json')).toEqual({ a: 1, b: ['x'] });
+
+    await cacheService.set('broken', '{nope');
+    expect(await cacheService.getJson('broken')).toBeNull();
+  });
+
+  it('hands a taken value to one caller only', async () => {
+    await cacheService.setJson('once', { a: 1 }, 60);
+    const [first, second] = await Promise.all([cacheService.takeJson('once'), cacheService.takeJson('once')]);
+
+    expect([first, second]).toEqual([{ a: 1 }, null]);
+    expect(await cacheService.get('once')).toBeNull();
+  });
+
+  it('lets only the first caller claim a key until it expires', async () => {
+    jest.useFakeTimers();
+    expect(await cacheService.setIfAbsent('slot', 'a', 1000)).toBe(true);
+    expect(await cacheService.setIfAbsent('slot', 'b', 1000)).toBe(false);
+
+    jest.advanceTimersByTime(1001);
+    expect(await cacheService.setIfAbsent('slot', 'b', 1000)).toBe(true);
+  });
+
+  it('counts hits in a fixed window that starts with the first hit', async () => {
+    jest.useFakeTimers();
+    expect((await cacheService.increment('hits', 60000)).count).toBe(1);
+    jest.advanceTimersByTime(30000);
+    const second = await cacheService.increment('hits', 60000);
+    expect(second.count).toBe(2);
+    expect(second.ttlMs).toBe(30000);
+
+    jest.advanceTimersByTime(30001);
+    expect((await cacheService.increment('hits', 60000)).count).toBe(1);
+  });
+
+  it('answers set membership in bulk and swaps whole sets', async () => {
+    await cacheService.addToSet('names', ['a', 'b']);
+    expect(await cacheService.areMembers('names', ['a', 'c', 'b'])).toEqual([true, false, true]);
+
+    await cacheService.replaceSet('names', ['c']);
+    expect(await cacheService.isMember('names', 'a')).toBe(false);
+    expect(await cacheService.setSize('names')).toBe(1);
+  });
+
+  it('moves a namespace to fresh keys when invalidated', async () => {
+    const before = await cacheService.namespacedKey('streamers', 'list');
+    const other = await cacheService.namespacedKey('billing', 'list');
+
+    await cacheService.invalidateCreators();
+
+    expect(await cacheService.namespacedKey('streamers', 'list')).not.toBe(before);
+    expect(await cacheService.namespacedKey('billing', 'list')).toBe(other);
+  });
+});
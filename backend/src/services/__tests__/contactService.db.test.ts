@@ -0,0 +1,83 @@
+import { Platform } from '@prisma/client';
+import { db } from '../../utils/database';
+import { createTestStreamer } from '../../test/testDatabase';
+import { buildStreamerQuery } from '../../utils/streamerFilters';
+import { mxResolvers, StubMxResolver } from '../../contacts/mxResolver';
+import { contactService } from '../contactService';
+import { outreachService } from '../outreachService';
+
+describe('ContactService (db)', () => {
+  beforeEach(() => {
+    mxResolvers.use(new StubMxResolver({ 'dead.io': [] }));
+  });
+
+  afterAll(() => {
+    mxResolvers.use(null);
+  });
+
+  it('stores and checks extracted contacts once per enrichment', async () => {
+    const creator = await createTestStreamer({
+      platform: Platform.TWITCH,
+      username: 'reachable',
+      profileDescription: 'Business: team@reachable.tv | old: me@dead.io | https://discord.gg/reach',
+    });
+
+    const contacts = await contactService.discoverForCreator(creator.id);
+
+    expect(contacts.map(c => [c.type, c.value, c.status])).toEqual([
+      ['EMAIL', 'team@reachable.tv', 'VALID'],
+      ['DISCORD', 'https://discord.gg/reach', 'VALID'],
+      ['EMAIL', 'me@dead.io', 'INVALID'],
+    ]);
+    await expect(contactService.discoverPending()).resolves.toEqual({ creators: 0, contacts: 0 });
+  });
+
+  it('confirms a typed-in contact that was already extracted', async () => {
+    const creator = await createTestStreamer({ platform: Platform.KICK, username: 'typed', email: 'hi@typed.gg' });
+    await contactService.discoverForCreator(creator.id);
+
+    const contact = await contactService.add(creator.id, { type: 'EMAIL', value: 'HI@typed.gg', label: 'Agent' }, 'user-1');
+
+    expect(contact).toMatchObject({ source: 'manual', label: 'Agent', createdBy: 'user-1', status: 'VALID' });
+    await expect(db.discoveryCreatorContact.count()).resolves.toBe(1);
+    await expect(contactService.add(creator.id, { type: 'TELEGRAM', value: '@no' }, 'user-1')).rejects.toThrow('not a valid telegram');
+  });
+
+  it('keeps a removed contact invalid through re-scans and audits the removal', async () => {
+    const creator = await createTestStreamer({ platform: Platform.TWITCH, username: 'removed', email: 'old@removed.gg' });
+    const [contact] = await contactService.discoverForCreator(creator.id);
+
+    await expect(contactService.remove(contact.id, 'user-1')).resolves.toBe(true);
+    await expect(contactService.remove(contact.id, 'user-1')).resolves.toBe(false);
+    await expect(contactService.discoverForCreator(creator.id, { recheck: true })).resolves.toEqual([]);
+    await expect(db.discoveryCreatorContact.findUnique({ where: { id: contact.id } })).resolves.toMatchObject({ status: 'INVALID', removedBy: 'user-1' });
+    await expect(db.auditLog.findFirst({ where: { recordId: contact.id } })).resolves.toMatchObject({ action: 'UPDATE', changedBy: 'user-1' });
+
+    // Adding it back by hand restores it
+    await contactService.add(creator.id, { type: 'EMAIL', value: 'old@removed.gg' }, 'user-2');
+    await expect(contactService.list(creator.id)).resolves.toEqual([expect.objectContaining({ id: contact.id, status: 'VALID' })]);
+  });
+
+  it('filters the creator list by channel and by the user\'s outreach status', async () => {
+    const [contacted, signed, untouched] = await Promise.all(['contacted', 'signed', 'untouched'].map(username =>
+      createTestStreamer({ platform: Platform.TWITCH, username, panelTexts: [`${username}@agency.com`] })
+    ));
+    await Promise.all([contacted, signed, untouched].map(c => contactService.discoverForCreator(c.id)));
+    await outreachService.record('user-1', contacted.id, { status: 'CONTACTED' });
+    await outreachService.record('user-1', signed.id, { status: 'NEGOTIATING' });
+    await outreachService.record('user-1', signed.id, { status: 'SIGNED', note: 'Two streams in May' });
+    await outreachService.record('user-2', untouched.id, { status: 'DECLINED' });
+
+    const ids = async (query: Record<string, string>) => {
+      const { where } = await buildStreamerQuery(query);
+      const rows = await db.streamer.findMany({ where, select: { username: true }, orderBy: { username: 'asc' } });
+      return rows.map(r => r.username);
+    };
+
+    await expect(ids({ contactTypes: 'email' })).resolves.toEqual(['contacted', 'signed', 'untouched']);
+    await expect(ids({ contactTypes: 'discord' })).resolves.toEqual([]);
+    await expect(ids({ userId: 'user-1', outreachStatus: 'SIGNED' })).resolves.toEqual(['signed']);
+    await expect(ids({ userId: 'user-1', outreachStatus: 'CONTACTED,NONE' })).resolves.toEqual(['contacted', 'untouched']);
+    await expect(buildStreamerQuery({ userId: 'user-1', outreachStatus: 'DECLINED' })).resolves.toMatchObject({ empty: true });
+  });
+});
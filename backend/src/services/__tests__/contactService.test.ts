@@ -0,0 +1,73 @@
+import { StubMxResolver } from '../../contacts/mxResolver';
+import { checkContact, extractContacts, MANUAL_SOURCE, normalizeContact } from '../contactService';
+
+describe('normalizeContact', () => {
+  it('canonicalizes each channel', () => {
+    expect(normalizeContact('EMAIL', ' mailto:Biz@Creator.GG ')).toBe('biz@creator.gg');
+    expect(normalizeContact('DISCORD', 'https://discord.com/invite/abc123')).toBe('https://discord.gg/abc123');
+    expect(normalizeContact('TELEGRAM', 'https://t.me/CreatorTeam')).toBe('@creatorteam');
+    expect(normalizeContact('WHATSAPP', '+52 (55) 1234-5678')).toBe('+525512345678');
+  });
+
+  it('rejects malformed values', () => {
+    expect(normalizeContact('EMAIL', 'logo@2x.png')).toBeNull();
+    expect(normalizeContact('EMAIL', 'a..b@creator.gg')).toBeNull();
+    expect(normalizeContact('TELEGRAM', '@abc')).toBeNull();
+    expect(normalizeContact('WHATSAPP', '12345')).toBeNull();
+  });
+});
+
+describe('extractContacts', () => {
+  it('finds emails, manager addresses and chat links in texts and external links', () => {
+    const contacts = extractContacts({
+      profileDescription: 'Negocios: biz@creator.gg\nManagement: ana@talentco.com\nWhatsApp: +52 55 1234 5678',
+      panelTexts: ['Join us https://discord.gg/creatorfam'],
+      externalLinks: { social: ['https://t.me/creatorteam'], external: ['mailto:ana@talentco.com'] },
+      email: 'biz@creator.gg',
+    });
+
+    expect(contacts).toEqual(expect.arrayContaining([
+      expect.objectContaining({ type: 'EMAIL', value: 'biz@creator.gg', source: 'profile_description' }),
+      expect.objectContaining({ type: 'MANAGER', value: 'ana@talentco.com' }),
+      expect.objectContaining({ type: 'WHATSAPP', value: '+525512345678' }),
+      expect.objectContaining({ type: 'DISCORD', value: 'https://discord.gg/creatorfam', source: 'panel_text' }),
+      expect.objectContaining({ type: 'TELEGRAM', value: '@creatorteam', source: 'external_links' }),
+    ]));
+    // The manager's address isn't listed again as a plain email, nor the email field twice
+    expect(contacts.filter(c => c.value === 'ana@talentco.com')).toHaveLength(1);
+    expect(contacts.filter(c => c.value === 'biz@creator.gg')).toHaveLength(1);
+  });
+});
+
+describe('checkContact', () => {
+  const resolver = new StubMxResolver({ 'creator.gg': ['mx1.creator.gg'], 'flaky.io': null }, 'none');
+
+  it('scores emails by mail server, context and handle', async () => {
+    const business = await checkContact(
+      { type: 'EMAIL', value: 'creator@creator.gg', source: 'about_section', context: 'for business inquiries' },
+      'creator',
+      resolver
+    );
+    const plain = await checkContact({ type: 'EMAIL', value: 'fan@creator.gg', source: 'about_section' }, 'someoneelse', resolver);
+
+    expect(business).toEqual({ status: 'VALID', detail: 'Mail server mx1.creator.gg', confidence: 95 });
+    expect(plain.confidence).toBe(70);
+  });
+
+  it('marks domains without a mail server invalid and failed lookups risky', async () => {
+    await expect(checkContact({ type: 'EMAIL', value: 'x@nowhere.zz', source: 'email_field' }, null, resolver))
+      .resolves.toMatchObject({ status: 'INVALID', confidence: 0 });
+    await expect(checkContact({ type: 'EMAIL', value: 'x@mailinator.com', source: 'email_field' }, null, resolver))
+      .resolves.toMatchObject({ status: 'INVALID', detail: 'Disposable domain mailinator.com' });
+    await expect(checkContact({ type: 'EMAIL', value: 'x@flaky.io', source: MANUAL_SOURCE }, null, resolver))
+      .resolves.toMatchObject({ status: 'RISKY', confidence: 55 });
+  });
+
+  it('treats well-formed chat contacts as valid', async () => {
+    const invite = await checkContact({ type: 'DISCORD', value: 'https://discord.gg/creatorfam', source: 'panel_text' }, null, resolver);
+    const group = await checkContact({ type: 'WHATSAPP', value: 'https://chat.whatsapp.com/abc', source: 'panel_text' }, null, resolver);
+
+    expect(invite).toMatchObject({ status: 'VALID', confidence: 55 });
+    expect(group.confidence).toBe(40);
+  });
+});
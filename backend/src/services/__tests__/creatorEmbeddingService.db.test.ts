@@ -0,0 +1,44 @@
+import { Platform } from '@prisma/client';
+import { db } from '../../utils/database';
+import { createTestStreamer } from '../../test/testDatabase';
+import { creatorEmbeddingService } from '../creatorEmbeddingService';
+
+const CASINO_BIO = 'Slots, casino bonus hunts and big wins every night';
+
+describe('CreatorEmbeddingService (db)', () => {
+  it('finds lookalikes on other platforms within the audience band', async () => {
+    const target = await createTestStreamer({ platform: Platform.KICK, username: 'roshtein', followers: 400000, profileDescription: CASINO_BIO });
+    const kickLookalike = await createTestStreamer({ platform: Platform.KICK, username: 'casinodaddy', followers: 300000, profileDescription: 'Casino bonus hunts, slots and big wins' });
+    const youtubeLookalike = await createTestStreamer({ platform: Platform.YOUTUBE, username: 'slotwins', followers: 500000, profileDescription: 'Big wins on slots and casino bonus buys' });
+    await createTestStreamer({ platform: Platform.TWITCH, username: 'chessbrah', followers: 400000, profileDescription: 'Chess openings, blitz and puzzle rush' });
+    // Same content but far outside the audience band
+    const tiny = await createTestStreamer({ platform: Platform.TWITCH, username: 'tinyslots', followers: 900, profileDescription: CASINO_BIO });
+    // Same handle on another platform - the same person
+    const sameHandle = await createTestStreamer({ platform: Platform.YOUTUBE, username: 'Roshtein', followers: 400000, profileDescription: CASINO_BIO });
+
+    await creatorEmbeddingService.embedPending();
+    const similar = (await creatorEmbeddingService.findSimilar(target.id, { limit: 3 }))!;
+    const ids = similar.map(s => s.id);
+
+    expect(ids.slice(0, 2).sort()).toEqual([kickLookalike.id, youtubeLookalike.id].sort());
+    expect(ids).not.toContain(tiny.id);
+    expect(ids).not.toContain(sameHandle.id);
+    expect(similar[0].similarity).toBeGreaterThan(0.3);
+  });
+
+  it('returns null when the creator has nothing to embed', async () => {
+    const target = await createTestStreamer({ platform: Platform.TIKTOK, username: 'newcreator' });
+
+    await expect(creatorEmbeddingService.findSimilar(target.id)).resolves.toBeNull();
+  });
+
+  it('only re-embeds creators whose content changed', async () => {
+    const creator = await createTestStreamer({ platform: Platform.TWITCH, username: 'variety', profileDescription: 'Just chatting' });
+
+    await expect(creatorEmbeddingService.embedCreators([creator.id])).resolves.toEqual({ embedded: 1, unchanged: 0, skipped: 0 });
+    await expect(creatorEmbeddingService.embedCreators([creator.id])).resolves.toEqual({ embedded: 0, unchanged: 1, skipped: 0 });
+
+    await db.streamer.update({ where: { id: creator.id }, data: { profileDescription: 'Just chatting and Valorant' } });
+    await expect(creatorEmbeddingService.embedCreators([creator.id])).resolves.toEqual({ embedded: 1, unchanged: 0, skipped: 0 });
+  });
+});
@@ -0,0 +1,58 @@
+import { audienceFit, creatorDocument } from '../creatorEmbeddingService';
+
+const emptyCreator = {
+  currentGame: null,
+  topGames: [],
+  tags: [],
+  unifiedTags: [],
+  profileDescription: null,
+  aboutSection: null,
+  panelTexts: [],
+  streamTitles: null,
+  contentAnalysis: null,
+};
+
+describe('creatorEmbeddingService helpers', () => {
+  describe('creatorDocument', () => {
+    it('combines games, tags, bio, panels, stream titles and content analysis', () => {
+      const document = creatorDocument({
+        ...emptyCreator,
+        currentGame: 'Slots & Casino',
+        topGames: ['Slots & Casino', 'Poker'],
+        tags: ['SPANISH'],
+        unifiedTags: ['spanish', 'gambling'],
+        profileDescription: 'Streams de casino desde Madrid',
+        panelTexts: ['Horario: 20h'],
+        streamTitles: [{ title: 'Bonus hunt 🎰' }, 'Raw string title', { game: 'no title' }],
+        contentAnalysis: { summary: 'High-energy casino content', themes: ['slots', 'poker'], score: 7 },
+      });
+
+      expect(document).toBe([
+        'Games: Slots & Casino, Poker',
+        'Tags: spanish, gambling',
+        'Streams de casino desde Madrid',
+        'Horario: 20h',
+        'Stream titles: Bonus hunt 🎰 | Raw string title',
+        'High-energy casino content\nslots\npoker',
+      ].join('\n'));
+    });
+
+    it('is empty when there is nothing to compare on', () => {
+      expect(creatorDocument({ ...emptyCreator, profileDescription: '   ', streamTitles: [] })).toBe('');
+    });
+  });
+
+  describe('audienceFit', () => {
+    it('is 1 for the same audience and 0 at the edge of the band', () => {
+      expect(audienceFit(10000, 10000)).toBe(1);
+      expect(audienceFit(10000, 50000, 5)).toBeCloseTo(0, 6);
+      expect(audienceFit(10000, 2000, 5)).toBeCloseTo(0, 6);
+      expect(audienceFit(10000, 1000000, 5)).toBe(0);
+    });
+
+    it('falls off symmetrically on a log scale', () => {
+      expect(audienceFit(10000, 20000)).toBeCloseTo(audienceFit(10000, 5000), 6);
+      expect(audienceFit(10000, 20000)).toBeGreaterThan(audienceFit(10000, 40000));
+    });
+  });
+});
@@ -0,0 +1,81 @@
+import { Platform, Region } from '@prisma/client';
+import { db } from '../../utils/database';
+import { createTestStreamer } from '../../test/testDatabase';
+import { buildStreamerQuery, matchingIds } from '../../utils/streamerFilters';
+import { creatorSearchService } from '../creatorSearchService';
+
+describe('CreatorSearchService (db)', () => {
+  it('finds misspelled handles through trigram matching', async () => {
+    const elxokas = await createTestStreamer({ platform: Platform.TWITCH, username: 'elxokas', displayName: 'ElXokas' });
+    await createTestStreamer({ platform: Platform.TWITCH, username: 'auronplay', displayName: 'AuronPlay' });
+
+    await expect(creatorSearchService.rankedIds('@elxocas')).resolves.toEqual([elxokas.id]);
+  });
+
+  it('stems descriptions in the creator language', async () => {
+    const spanish = await createTestStreamer({
+      platform: Platform.KICK,
+      username: 'casinero',
+      language: 'es',
+      profileDescription: 'Apuestas deportivas y tragamonedas todas las noches',
+    });
+    await createTestStreamer({ platform: Platform.KICK, username: 'speedrunner', language: 'en', profileDescription: 'Speedrunning retro games' });
+
+    await expect(creatorSearchService.rankedIds('apuesta deportiva')).resolves.toEqual([spanish.id]);
+  });
+
+  it('ranks name matches above matches in stream titles', async () => {
+    const titleOnly = await createTestStreamer({
+      platform: Platform.TWITCH,
+      username: 'variety',
+      followers: 900000,
+      streamTitles: [{ title: 'Minecraft hardcore day 12' }],
+    });
+    const named = await createTestStreamer({ platform: Platform.TWITCH, username: 'minecraftpro', displayName: 'Minecraft Pro', followers: 1000 });
+
+    await expect(creatorSearchService.rankedIds('minecraft')).resolves.toEqual([named.id, titleOnly.id]);
+  });
+
+  it('applies the filters to every match, however far down it ranks', async () => {
+    // 1200 better-ranked matches on Twitch, one weak match on Kick
+    await db.streamer.createMany({
+      data: Array.from({ length: 1200 }, (_, i) => ({
+        platform: Platform.TWITCH,
+        username: `poker${i}`,
+        displayName: `Poker ${i}`,
+        profileUrl: `https://example.com/twitch/poker${i}`,
+        region: Region.MEXICO,
+      })),
+    });
+    const kick = await createTestStreamer({ platform: Platform.KICK, username: 'cardroom', streamTitles: [{ title: 'Late night poker' }] });
+
+    const query = await buildStreamerQuery({ search: 'poker', platforms: 'kick' });
+    await expect(matchingIds(query)).resolves.toEqual([kick.id]);
+    await expect(matchingIds(await buildStreamerQuery({ search: 'poker' }))).resolves.toHaveLength(1201);
+  });
+
+  it('matches topics on games and tags by prefix', async () => {
+    const slots = await createTestStreamer({ platform: Platform.KICK, username: 'roshtein', currentGame: 'Slots & Casino' });
+    const betting = await createTestStreamer({ platform: Platform.KICK, username: 'tipster', tags: ['sportsbetting'] });
+    await createTestStreamer({ platform: Platform.KICK, username: 'chess', topGames: ['Chess'], profileDescription: 'No slots here' });
+
+    const ids = await creatorSearchService.idsByTopics(['slot', 'sports betting']);
+    expect(ids.sort()).toEqual([slots.id, betting.id].sort());
+  });
+
+  it('returns escaped snippets from the field that matched', async () => {
+    const creator = await createTestStreamer({
+      platform: Platform.YOUTUBE,
+      username: 'futbolero',
+      language: 'pt',
+      aboutSection: 'Análises & futebol brasileiro',
+    });
+
+    const highlights = await creatorSearchService.highlights('futebol', [creator.id]);
+
+    expect(highlights.get(creator.id)).toEqual({
+      field: 'aboutSection',
+      snippet: 'Análises &amp; <mark>futebol</mark> brasileiro',
+    });
+  });
+});
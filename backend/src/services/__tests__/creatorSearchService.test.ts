@@ -0,0 +1,30 @@
+import { toHighlightHtml, topicTsQuery } from '../creatorSearchService';
+
+describe('creatorSearchService helpers', () => {
+  describe('toHighlightHtml', () => {
+    it('wraps ts_headline markers in <mark>', () => {
+      expect(toHighlightHtml('jugando \u0002tragamonedas\u0003 en vivo')).toBe('jugando <mark>tragamonedas</mark> en vivo');
+    });
+
+    it('escapes creator text before adding markup', () => {
+      expect(toHighlightHtml('<script>"x" & \u0002slots\u0003</script>'))
+        .toBe('&lt;script&gt;&quot;x&quot; &amp; <mark>slots</mark>&lt;/script&gt;');
+    });
+  });
+
+  describe('topicTsQuery', () => {
+    it('builds a prefix query on the games/tags weight for every significant word', () => {
+      expect(topicTsQuery(['Sports Betting', 'slots'])).toBe('sports:*B | betting:*B | slots:*B');
+    });
+
+    it('keeps short topics that stand alone and drops short filler in phrases', () => {
+      expect(topicTsQuery(['CS', 'the big game'])).toBe('cs:*B | the:*B | big:*B | game:*B');
+      expect(topicTsQuery(['lo de hoy'])).toBe('hoy:*B');
+    });
+
+    it('strips tsquery operators and keeps accented letters', () => {
+      expect(topicTsQuery(["fútbol & (casino)|'x'"])).toBe('fútbol:*B | casino:*B');
+      expect(topicTsQuery(['!!', ''])).toBeNull();
+    });
+  });
+});
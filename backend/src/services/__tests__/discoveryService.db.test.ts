@@ -0,0 +1,42 @@
+import { Platform } from '@prisma/client';
+import { db } from '../../utils/database';
+import { httpFixtures } from '../../test/httpFixtures';
+import { createTestStreamer } from '../../test/testDatabase';
+import { discoveryService } from '../discoveryService';
+
+describe('DiscoveryService (db)', () => {
+  beforeEach(() => {
+    httpFixtures.use('kick');
+  });
+
+  it('adds new Kick creators and refreshes live status of known ones', async () => {
+    await createTestStreamer({ platform: Platform.KICK, username: 'westcol', followers: 1500000 });
+
+    const result = await discoveryService.discoverKickByCategory('slots', 2);
+
+    expect(result).toEqual({ discovered: 2, added: 1, existing: 1 });
+
+    const roshtein = await db.streamer.findFirst({ where: { platform: Platform.KICK, username: 'roshtein' } });
+    expect(roshtein).toMatchObject({
+      displayName: 'Roshtein',
+      profileUrl: 'https://kick.com/roshtein',
+      followers: 412000,
+      isLive: true,
+      currentViewers: 21044,
+      currentGame: 'Slots & Casino',
+      language: 'en',
+    });
+    expect(roshtein?.lastSeenLive).toBeInstanceOf(Date);
+
+    const westcol = await db.streamer.findFirst({ where: { platform: Platform.KICK, username: 'westcol' } });
+    // Existing rows only get live fields; follower counts come from the sync jobs
+    expect(westcol).toMatchObject({ isLive: true, currentViewers: 52013, followers: 1500000 });
+  });
+
+  it('saves nothing when the platform request fails', async () => {
+    httpFixtures.add({ method: 'GET', url: 'https://api.kick.com/public/v1/categories/slots/livestreams', status: 500, data: {} });
+
+    await expect(discoveryService.discoverKickByCategory('slots', 2)).resolves.toEqual({ discovered: 0, added: 0, existing: 0 });
+    await expect(db.streamer.count()).resolves.toBe(0);
+  });
+});
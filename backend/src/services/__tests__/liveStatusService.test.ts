@@ -0,0 +1,64 @@
+import { httpFixtures } from '../../test/httpFixtures';
+import { liveStatusService } from '../liveStatusService';
+
+describe('LiveStatusService.checkStreamerLiveStatus', () => {
+  beforeEach(() => {
+    httpFixtures.use('twitch-helix', 'kick', 'youtube-data-api');
+  });
+
+  it('routes Twitch streamers through the Twitch adapter', async () => {
+    httpFixtures.add({
+      method: 'GET',
+      url: 'https://api.twitch.tv/helix/streams',
+      query: { user_login: 'ElXokas' },
+      data: {
+        data: [{
+          user_login: 'elxokas',
+          viewer_count: 18342,
+          title: 'CHARLANDO UN RATO !sorteo',
+          game_name: 'Just Chatting',
+          started_at: '2026-10-18T15:02:11Z',
+        }],
+      },
+    });
+
+    await expect(liveStatusService.checkStreamerLiveStatus({ id: 's1', username: 'ElXokas', platform: 'TWITCH' }))
+      .resolves.toMatchObject({ isLive: true, viewers: 18342, game: 'Just Chatting' });
+  });
+
+  it('accepts lowercase platform names', async () => {
+    httpFixtures.add({
+      method: 'GET',
+      url: 'https://api.kick.com/public/v1/channels',
+      query: { slug: 'westcol' },
+      data: { data: [{ slug: 'westcol', stream_title: 'EN VIVO', category: { name: 'Slots & Casino' }, stream: { is_live: true, viewer_count: 100 } }] },
+    });
+
+    await expect(liveStatusService.checkStreamerLiveStatus({ id: 's2', username: 'westcol', platform: 'kick' }))
+      .resolves.toMatchObject({ isLive: true, viewers: 100, title: 'EN VIVO' });
+  });
+
+  it('passes the profile URL so YouTube handles resolve to channel ids', async () => {
+    await expect(liveStatusService.checkStreamerLiveStatus({
+      id: 's3',
+      username: 'rubiusz',
+      platform: 'YOUTUBE',
+      profileUrl: 'https://youtube.com/channel/UCt9H_RK8PfHyQ7gM1g4hPMg',
+    })).resolves.toMatchObject({ isLive: true, viewers: 28817 });
+  });
+
+  it('reports offline without calling anything for platforms that have no live streams', async () => {
+    await expect(liveStatusService.checkStreamerLiveStatus({ id: 's4', username: 'rivers_gg', platform: 'TIKTOK' }))
+      .resolves.toEqual({ isLive: false });
+    expect(httpFixtures.requests).toHaveLength(0);
+  });
+
+  it('reports offline for unknown platforms and failed requests', async () => {
+    await expect(liveStatusService.checkStreamerLiveStatus({ id: 's5', username: 'x', platform: 'RUMBLE' }))
+      .resolves.toEqual({ isLive: false });
+
+    httpFixtures.add({ method: 'GET', url: 'https://api.twitch.tv/helix/streams', status: 500, data: {} });
+    await expect(liveStatusService.checkStreamerLiveStatus({ id: 's6', username: 'elxokas', platform: 'TWITCH' }))
+      .resolves.toEqual({ isLive: false });
+  });
+});
@@ -0,0 +1,73 @@
+import { Platform } from '@prisma/client';
+import { db } from '../../utils/database';
+import { createTestStreamer } from '../../test/testDatabase';
+import { PdfRenderer, pdfRenderers } from '../../mediaKit/pdfRenderer';
+import { mediaKitService } from '../mediaKitService';
+import { shortlistService } from '../shortlistService';
+import { workspaceService } from '../workspaceService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const owner = 'ana@agency.com';
+
+// Hands back the HTML so tests can check what would be printed
+const renderer: PdfRenderer = { id: 'stub', render: async html => Buffer.from(html) };
+
+describe('MediaKitService (db)', () => {
+  beforeAll(() => pdfRenderers.use(renderer));
+  afterAll(() => pdfRenderers.use(null));
+
+  it('assembles reach, growth and top games for a creator', async () => {
+    const creator = await createTestStreamer({ platform: Platform.TWITCH, username: 'alpha', followers: 110000, avgViewers: 900, topGames: ['Chess'] });
+    await db.influencer.create({
+      data: {
+        displayName: 'Alpha',
+        country: 'MX',
+        twitchFollowers: 110000,
+        youtubeFollowers: 250000,
+        totalReach: BigInt(360000),
+        sourceStreamerIds: [creator.id],
+      },
+    });
+    const today = new Date(new Date().toISOString().slice(0, 10));
+    await db.discoveryMetricSnapshot.create({
+      data: { streamerId: creator.id, snapshotDate: new Date(today.getTime() - 30 * DAY_MS), followers: 100000, avgViewers: 1000, totalViews: BigInt(0), engagementRate: 0 },
+    });
+    await db.discoveryStreamSession.createMany({
+      data: [
+        { streamerId: creator.id, startedAt: new Date(Date.now() - 2 * DAY_MS), durationMinutes: 240, game: 'Slots' },
+        { streamerId: creator.id, startedAt: new Date(Date.now() - 3 * DAY_MS), durationMinutes: 60, game: 'Poker' },
+        { streamerId: creator.id, startedAt: new Date(Date.now() - 200 * DAY_MS), durationMinutes: 900, game: 'Minecraft' },
+      ],
+    });
+
+    const kit = await mediaKitService.creatorKit(creator.id);
+
+    expect(kit.reach).toEqual([{ platform: 'YOUTUBE', followers: 250000 }, { platform: 'TWITCH', followers: 110000 }]);
+    expect(kit.totalReach).toBe(360000);
+    expect(kit.growth).toMatchObject({ followersPct: 10, avgViewersPct: -10 });
+    expect(kit.topGames).toEqual([{ name: 'Slots', hours: 4 }, { name: 'Poker', hours: 1 }]);
+    await expect(mediaKitService.creatorKit('missing')).rejects.toMatchObject({ statusCode: 404 });
+  });
+
+  it('brands a shortlist deck and leaves internal notes out', async () => {
+    const [alpha, beta] = await Promise.all(['alpha', 'beta'].map(username =>
+      createTestStreamer({ platform: Platform.TWITCH, username, historicalCpa: 42 })
+    ));
+    const list = { ownerId: owner, listName: 'Brand X' };
+    await shortlistService.add(owner, list, alpha.id, { notes: 'Internal: asks for 2x rate' });
+    await shortlistService.add(owner, list, beta.id, { priority: 5 });
+    const workspace = await workspaceService.create(owner, 'Agency');
+    await workspaceService.updateBranding(owner, workspace.id, { brandName: 'Agency Co', brandPrimaryColor: '#123456' });
+
+    const { filename, pdf } = await mediaKitService.shortlistPdf(owner, list, workspace.id);
+    const html = pdf.toString();
+
+    expect(filename).toBe('Brand-X-shortlist.pdf');
+    expect(html.indexOf('@beta')).toBeLessThan(html.indexOf('@alpha'));
+    expect(html).toContain('Prepared by Agency Co');
+    expect(html).toContain('#123456');
+    expect(html).not.toMatch(/Internal|historicalCpa/);
+    await expect(mediaKitService.shortlistPdf('eve@other.com', list)).rejects.toMatchObject({ statusCode: 404 });
+    await expect(mediaKitService.creatorPdf('eve@other.com', alpha.id, workspace.id)).rejects.toMatchObject({ statusCode: 404 });
+  });
+});
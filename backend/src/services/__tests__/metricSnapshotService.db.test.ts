@@ -0,0 +1,38 @@
+import { Platform } from '@prisma/client';
+import { db } from '../../utils/database';
+import { createTestStreamer } from '../../test/testDatabase';
+import { metricSnapshotService } from '../metricSnapshotService';
+
+describe('MetricSnapshotService (db)', () => {
+  const daysAgo = (days: number) => {
+    const date = new Date();
+    date.setUTCHours(0, 0, 0, 0);
+    return new Date(date.getTime() - days * 24 * 60 * 60 * 1000);
+  };
+
+  it('computes 7-day growth from the baseline and clears it for creators without one', async () => {
+    const [growing, stale] = await Promise.all([
+      createTestStreamer({ platform: Platform.TWITCH, username: 'growing', followers: 1200 }),
+      // Growth left over from an earlier run, with only an old snapshot outside the window
+      createTestStreamer({ platform: Platform.KICK, username: 'stale', followers: 900, followerGrowth7d: 400, followerGrowthPct7d: 80 }),
+    ]);
+    await db.discoveryMetricSnapshot.createMany({
+      data: [
+        { streamerId: growing.id, snapshotDate: daysAgo(8), followers: 1000 },
+        { streamerId: stale.id, snapshotDate: daysAgo(30), followers: 500 },
+      ],
+    });
+
+    await metricSnapshotService.recordSnapshots([growing.id, stale.id]);
+
+    const rows = await db.streamer.findMany({
+      where: { id: { in: [growing.id, stale.id] } },
+      select: { username: true, followerGrowth7d: true, followerGrowthPct7d: true },
+      orderBy: { username: 'asc' },
+    });
+    expect(rows).toEqual([
+      { username: 'growing', followerGrowth7d: 200, followerGrowthPct7d: 20 },
+      { username: 'stale', followerGrowth7d: null, followerGrowthPct7d: null },
+    ]);
+  });
+});
@@ -0,0 +1,145 @@
+import { Platform } from '@prisma/client';
+import { db } from '../../utils/database';
+import { createTestStreamer } from '../../test/testDatabase';
+import { emailService } from '../emailService';
+import { outreachEmailService } from '../outreachEmailService';
+import { outreachService } from '../outreachService';
+
+describe('OutreachEmailService (db)', () => {
+  const userId = 'seller@agency.com';
+  let sendVia: jest.SpyInstance;
+
+  beforeEach(async () => {
+    process.env.OUTREACH_DOMAIN_MIN_GAP_SECONDS = '0';
+    sendVia = jest.spyOn(emailService, 'sendVia').mockImplementation(async (_account, message) => message.messageId!);
+    await outreachEmailService.saveSettings(userId, {
+      host: 'smtp.agency.com', port: 587, secure: false, username: userId, password: 's3cret', fromName: 'Ana', fromEmail: userId,
+    });
+  });
+
+  afterEach(() => {
+    sendVia.mockRestore();
+    delete process.env.OUTREACH_DOMAIN_MIN_GAP_SECONDS;
+  });
+
+  // queue() kicks off sending in the background; tests send explicitly instead
+  const queue = async (templateId: string, streamerIds: string[]) => {
+    jest.spyOn(outreachEmailService, 'processDue').mockResolvedValueOnce({ sent: 0, failed: 0, deferred: 0 });
+    return outreachEmailService.queue(userId, { templateId, streamerIds, campaignName: 'Spring Cup' });
+  };
+
+  it('stores the SMTP password encrypted and never returns it', async () => {
+    const row = await db.discoverySmtpSettings.findUniqueOrThrow({ where: { userId } });
+    const settings = await outreachEmailService.getSettings(userId);
+
+    expect(row.passwordEncrypted).not.toContain('s3cret');
+    expect(settings).toMatchObject({ host: 'smtp.agency.com', hasPassword: true });
+    expect(settings).not.toHaveProperty('passwordEncrypted');
+  });
+
+  it('renders, skips opt-outs and creators without email, and sends through the user\'s account', async () => {
+    const [withEmail, optedOut, noEmail] = await Promise.all([
+      createTestStreamer({ platform: Platform.KICK, username: 'cobra', displayName: 'LaCobra', businessEmail: 'biz@cobra.gg', currentGame: 'Slots' }),
+      createTestStreamer({ platform: Platform.TWITCH, username: 'gone', email: 'gone@creator.gg' }),
+      createTestStreamer({ platform: Platform.TWITCH, username: 'quiet' }),
+    ]);
+    await outreachEmailService.optOut('GONE@creator.gg', 'manual', userId);
+    const template = await outreachEmailService.createTemplate(userId, {
+      name: 'Intro', subject: '{{campaignName}} x {{displayName}}', body: 'Hi {{displayName}}, loved your {{recentGame}} streams.\n\n{{senderName}}',
+    });
+
+    const result = await queue(template.id, [withEmail.id, optedOut.id, noEmail.id]);
+    expect(result.queued).toBe(1);
+    expect(result.skipped).toEqual([
+      { streamerId: optedOut.id, reason: 'opted_out' },
+      { streamerId: noEmail.id, reason: 'no_email' },
+    ]);
+
+    await expect(outreachEmailService.processDue()).resolves.toEqual({ sent: 1, failed: 0, deferred: 0 });
+    const [account, message] = sendVia.mock.calls[0];
+    expect(account).toMatchObject({ host: 'smtp.agency.com', user: userId, pass: 's3cret' });
+    expect(message).toMatchObject({ to: 'biz@cobra.gg', subject: 'Spring Cup x LaCobra', from: `"Ana" <${userId}>` });
+    expect(message.text).toContain('Hi LaCobra, loved your Slots streams.\n\nAna');
+    expect(message.headers['List-Unsubscribe']).toMatch(/\/api\/outreach-email\/unsubscribe\/[0-9a-f]{32}>$/);
+
+    const statuses = await outreachService.currentStatuses(userId, [withEmail.id]);
+    expect(statuses.get(withEmail.id)?.status).toBe('CONTACTED');
+  });
+
+  it('throttles sends per sender domain', async () => {
+    process.env.OUTREACH_DOMAIN_HOURLY_LIMIT = '2';
+    try {
+      const creators = await Promise.all([1, 2, 3].map(i =>
+        createTestStreamer({ platform: Platform.KICK, username: `c${i}`, email: `c${i}@creator.gg` })
+      ));
+      const template = await outreachEmailService.createTemplate(userId, { name: 'Short', subject: 'Hi', body: 'Hello {{displayName}}' });
+      await queue(template.id, creators.map(c => c.id));
+
+      await expect(outreachEmailService.processDue()).resolves.toEqual({ sent: 2, failed: 0, deferred: 1 });
+      const deferred = await db.discoveryOutreachEmail.findFirstOrThrow({ where: { status: 'QUEUED' } });
+      expect(deferred.nextAttemptAt!.getTime()).toBeGreaterThan(Date.now() + 50 * 60 * 1000);
+    } finally {
+      delete process.env.OUTREACH_DOMAIN_HOURLY_LIMIT;
+    }
+  });
+
+  it('sends each email once when several instances work the queue', async () => {
+    const creators = await Promise.all([1, 2, 3].map(i =>
+      createTestStreamer({ platform: Platform.KICK, username: `c${i}`, email: `c${i}@creator.gg` })
+    ));
+    const template = await outreachEmailService.createTemplate(userId, { name: 'Short', subject: 'Hi', body: 'Hello {{displayName}}' });
+    await queue(template.id, creators.map(c => c.id));
+    // A sender that died mid-send leaves its claim behind; once it lapses the email goes out again
+    const abandoned = await db.discoveryOutreachEmail.findFirstOrThrow({ where: { streamerId: creators[2].id } });
+    await db.discoveryOutreachEmail.update({ where: { id: abandoned.id }, data: { status: 'SENDING', nextAttemptAt: new Date(Date.now() - 1000) } });
+
+    const otherInstance = new (outreachEmailService.constructor as new () => typeof outreachEmailService)();
+    const results = await Promise.all([outreachEmailService.processDue(), otherInstance.processDue()]);
+
+    expect(results[0].sent + results[1].sent).toBe(3);
+    expect(sendVia.mock.calls.map(([, message]) => message.to).sort()).toEqual(['c1@creator.gg', 'c2@creator.gg', 'c3@creator.gg']);
+    await expect(db.discoveryOutreachEmail.count({ where: { status: 'SENT' } })).resolves.toBe(3);
+  });
+
+  it('tracks replies and bounces from inbound mail', async () => {
+    const creator = await createTestStreamer({ platform: Platform.KICK, username: 'cobra', panelTexts: ['Business: biz@cobra.gg'] });
+    const contact = await db.discoveryCreatorContact.create({
+      data: { streamerId: creator.id, type: 'EMAIL', value: 'biz@cobra.gg', source: 'panel_text', status: 'VALID', confidence: 80 },
+    });
+    const template = await outreachEmailService.createTemplate(userId, { name: 'Intro', subject: 'Hi', body: 'Hello' });
+    await queue(template.id, [creator.id]);
+    await outreachEmailService.processDue();
+    const sent = await db.discoveryOutreachEmail.findFirstOrThrow({ where: { streamerId: creator.id } });
+
+    await outreachEmailService.handleInbound({ type: 'reply', messageIds: [`<${sent.messageId!.toUpperCase()}>`], detail: 'Re: Hi' });
+    await expect(outreachService.currentStatuses(userId, [creator.id])).resolves.toEqual(
+      new Map([[creator.id, expect.objectContaining({ status: 'REPLIED' })]])
+    );
+
+    const bounced = await outreachEmailService.handleInbound({ type: 'bounce', recipient: 'BIZ@cobra.gg', detail: '550 User unknown' });
+    expect(bounced).toMatchObject({ id: sent.id, status: 'BOUNCED' });
+    await expect(db.discoveryCreatorContact.findUniqueOrThrow({ where: { id: contact.id } }))
+      .resolves.toMatchObject({ status: 'INVALID', statusDetail: 'Bounced: 550 User unknown', confidence: 0 });
+  });
+
+  it('scopes the opt-out list and only lets users lift their own manual entries', async () => {
+    const creator = await createTestStreamer({ platform: Platform.KICK, username: 'cobra', email: 'biz@cobra.gg' });
+    const template = await outreachEmailService.createTemplate(userId, { name: 'Intro', subject: 'Hi', body: 'Hello' });
+    await queue(template.id, [creator.id]);
+    const sent = await db.discoveryOutreachEmail.findFirstOrThrow({ where: { streamerId: creator.id } });
+    // Opening the link only checks it; the opt-out waits for the confirmation POST
+    await expect(outreachEmailService.isUnsubscribeToken(sent.token)).resolves.toBe(true);
+    await expect(db.discoveryEmailOptOut.count()).resolves.toBe(0);
+    await outreachEmailService.unsubscribe(sent.token);
+    await outreachEmailService.optOut('mine@creator.gg', 'manual', userId);
+    await outreachEmailService.optOut('theirs@creator.gg', 'manual', 'other@agency.com');
+
+    const listed = await outreachEmailService.listOptOuts(userId);
+    expect(listed.map(o => o.email).sort()).toEqual(['biz@cobra.gg', 'mine@creator.gg']);
+
+    await expect(outreachEmailService.removeOptOut(userId, 'biz@cobra.gg')).rejects.toMatchObject({ statusCode: 403 });
+    await expect(outreachEmailService.removeOptOut(userId, 'theirs@creator.gg')).rejects.toMatchObject({ statusCode: 403 });
+    await expect(outreachEmailService.removeOptOut(userId, 'mine@creator.gg')).resolves.toBe(true);
+    await expect(outreachEmailService.removeOptOut('admin@envisioner.io', 'biz@cobra.gg', true)).resolves.toBe(true);
+  });
+});
@@ -0,0 +1,21 @@
+import { throttleDelay } from '../outreachEmailService';
+
+describe('throttleDelay', () => {
+  const now = new Date('2026-05-01T12:00:00Z');
+  const ago = (seconds: number) => new Date(now.getTime() - seconds * 1000);
+  const limits = { perHour: 3, minGapMs: 20_000 };
+
+  it('lets a quiet domain send now', () => {
+    expect(throttleDelay([], now, limits)).toBe(0);
+    expect(throttleDelay([ago(30), ago(600)], now, limits)).toBe(0);
+  });
+
+  it('keeps the minimum gap between sends', () => {
+    expect(throttleDelay([ago(5)], now, limits)).toBe(15_000);
+  });
+
+  it('waits for the hourly window once the cap is reached', () => {
+    // Oldest counted send was 50 minutes ago: 10 minutes until it leaves the window
+    expect(throttleDelay([ago(60), ago(1200), ago(3000)], now, limits)).toBe(600_000);
+  });
+});
@@ -0,0 +1,56 @@
+import { PerformanceEntryKind, Platform } from '@prisma/client';
+import { db } from '../../utils/database';
+import { createTestStreamer } from '../../test/testDatabase';
+import { performanceLedgerService } from '../performanceLedgerService';
+
+describe('PerformanceLedgerService (db)', () => {
+  it('counts repeated delta syncs and only dedupes on an idempotency key', async () => {
+    const creator = await createTestStreamer({ platform: Platform.TWITCH, username: 'steady' });
+    const delta = { discoveryCreatorId: creator.id, envisionerCampaignId: 'camp-1', conversions: 10, spent: 100 };
+
+    await performanceLedgerService.record(delta);
+    await performanceLedgerService.record(delta);
+
+    const first = await performanceLedgerService.record(delta, { idempotencyKey: 'sync-3' });
+    const retry = await performanceLedgerService.record(delta, { idempotencyKey: 'sync-3' });
+    expect(retry).toMatchObject({ duplicate: true, entry: { id: first.entry.id } });
+    await expect(performanceLedgerService.record({ ...delta, conversions: 11 }, { idempotencyKey: 'sync-3' })).rejects.toThrow('different payload');
+
+    await expect(db.streamer.findUnique({ where: { id: creator.id } })).resolves.toMatchObject({ historicalConversions: 30, historicalCpa: 10 });
+    await expect(db.discoveryAssignment.findFirst({ where: { discoveryCreatorId: creator.id } })).resolves.toMatchObject({
+      envisionerCampaignId: 'camp-1',
+      totalConversions: 30,
+      totalSpent: 300,
+    });
+  });
+
+  it('adds syncs to the baseline carried over for an existing assignment', async () => {
+    const creator = await createTestStreamer({ platform: Platform.KICK, username: 'veteran' });
+    const assignment = await db.discoveryAssignment.create({
+      data: { discoveryCreatorId: creator.id, envisionerCampaignId: 'camp-old', totalConversions: 50, totalSpent: 1000, avgCpa: 20 },
+    });
+    // What the ledger migration writes for assignments that existed before it
+    await db.discoveryPerformanceEntry.create({
+      data: {
+        idempotencyKey: `baseline:assignment:${assignment.id}`,
+        streamerId: creator.id,
+        envisionerCampaignId: 'camp-old',
+        kind: PerformanceEntryKind.BASELINE,
+        conversions: 50,
+        spent: 1000,
+        reportedCpa: 20,
+        payloadHash: 'baseline',
+        createdBy: 'migration',
+      },
+    });
+
+    await performanceLedgerService.record({ discoveryCreatorId: creator.id, envisionerCampaignId: 'camp-old', conversions: 5, spent: 50 });
+
+    await expect(db.discoveryAssignment.findUnique({ where: { id: assignment.id } })).resolves.toMatchObject({
+      totalConversions: 55,
+      totalSpent: 1050,
+      avgCpa: 19.09,
+    });
+    await expect(db.streamer.findUnique({ where: { id: creator.id } })).resolves.toMatchObject({ historicalConversions: 55 });
+  });
+});
@@ -0,0 +1,64 @@
+import { Platform } from '@prisma/client';
+import { db } from '../../utils/database';
+import { createTestStreamer } from '../../test/testDatabase';
+import { MIN_DEALS_TO_FIT, rateEstimationService } from '../rateEstimationService';
+
+describe('RateEstimationService (db)', () => {
+  let created = 0;
+  beforeEach(() => { created = 0; });
+
+  const recordDeals = async (count: number) => {
+    for (let i = 0; i < count; i++) {
+      const avgViewers = 200 + created * 300;
+      const creator = await createTestStreamer({
+        platform: Platform.KICK,
+        username: `dealcreator${created++}`,
+        followers: avgViewers * 50,
+        avgViewers,
+        engagementRate: 3,
+      });
+      await rateEstimationService.recordRate({ streamerId: creator.id, deliverable: 'INTEGRATION', amount: avgViewers * 1.5 }, 'test');
+    }
+  };
+
+  it('fits a model once a deliverable has enough deals', async () => {
+    await recordDeals(MIN_DEALS_TO_FIT - 1);
+    await expect(db.discoveryRateModel.count()).resolves.toBe(0);
+
+    await recordDeals(1);
+    const models = await rateEstimationService.modelSummaries();
+
+    expect(models.find(m => m.deliverable === 'INTEGRATION')).toMatchObject({ fitted: true, deals: MIN_DEALS_TO_FIT, sampleSize: MIN_DEALS_TO_FIT });
+    expect(models.find(m => m.deliverable === 'POST')).toMatchObject({ fitted: false, deals: 0 });
+  });
+
+  it('snapshots the audience at the deal date', async () => {
+    const creator = await createTestStreamer({ platform: Platform.TWITCH, username: 'grown', followers: 90000, avgViewers: 3000 });
+
+    const rate = await rateEstimationService.recordRate(
+      { streamerId: creator.id, deliverable: 'STREAM_HOUR', amount: 400, followers: 20000, avgViewers: 500 },
+      'test'
+    );
+
+    expect(rate).toMatchObject({ platform: Platform.TWITCH, region: 'MEXICO', followers: 20000, avgViewers: 500, engagementRate: 0 });
+  });
+
+  it('estimates creators with an interval and drops the model when deals are removed', async () => {
+    await recordDeals(MIN_DEALS_TO_FIT);
+    const [estimate] = await rateEstimationService.estimateCreator({
+      platform: 'KICK', region: 'MEXICO', category: null, followers: 75000, avgViewers: 1500, engagementRate: 3,
+    });
+
+    expect(estimate.deliverable).toBe('INTEGRATION');
+    expect(estimate.estimate).toBeGreaterThan(1500);
+    expect(estimate.estimate).toBeLessThan(3000);
+    expect(estimate.low).toBeLessThanOrEqual(estimate.estimate);
+    expect(estimate.high).toBeGreaterThanOrEqual(estimate.estimate);
+
+    const [first] = await rateEstimationService.listRates({ deliverable: 'INTEGRATION' });
+    await rateEstimationService.removeRate(first.id, 'test');
+    await expect(rateEstimationService.estimateCreator({
+      platform: 'KICK', region: 'MEXICO', category: null, followers: 75000, avgViewers: 1500, engagementRate: 3,
+    })).resolves.toEqual([]);
+  });
+});
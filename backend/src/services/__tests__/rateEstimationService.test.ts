@@ -0,0 +1,63 @@
+import { fitRateModel, predictRate, RateFeatures } from '../rateEstimationService';
+
+// Deterministic "negotiated" rates: price grows with average viewers, Kick pays
+// a 50% premium, plus a little noise
+const deals = Array.from({ length: 40 }, (_, i) => {
+  const avgViewers = 100 + i * 150;
+  const platform = i % 2 === 0 ? 'TWITCH' : 'KICK';
+  const noise = 1 + ((i * 7) % 5 - 2) / 50;
+  return {
+    platform,
+    region: 'MEXICO',
+    category: 'iGaming',
+    followers: avgViewers * 40,
+    avgViewers,
+    engagementRate: 4,
+    amount: 2 * avgViewers * (platform === 'KICK' ? 1.5 : 1) * noise,
+  };
+});
+
+const creator = (overrides: Partial<RateFeatures> = {}): RateFeatures => ({
+  platform: 'TWITCH',
+  region: 'MEXICO',
+  category: 'iGaming',
+  followers: 80000,
+  avgViewers: 2000,
+  engagementRate: 4,
+  ...overrides,
+});
+
+describe('rate estimation model', () => {
+  const model = fitRateModel(deals);
+
+  it('recovers the price from audience size and platform', () => {
+    const twitch = predictRate(model, creator());
+    const kick = predictRate(model, creator({ platform: 'KICK' }));
+
+    expect(twitch.estimate).toBeGreaterThan(3400);
+    expect(twitch.estimate).toBeLessThan(4600);
+    expect(kick.estimate / twitch.estimate).toBeGreaterThan(1.3);
+    expect(kick.estimate / twitch.estimate).toBeLessThan(1.7);
+  });
+
+  it('brackets the estimate with a prediction interval', () => {
+    const { estimate, low, high } = predictRate(model, creator());
+
+    expect(low).toBeLessThan(estimate);
+    expect(high).toBeGreaterThan(estimate);
+  });
+
+  it('widens the interval for creators unlike the deals it was fit on', () => {
+    const typical = predictRate(model, creator());
+    const unusual = predictRate(model, creator({ followers: 5000000, avgViewers: 60000, engagementRate: 30 }));
+
+    expect(unusual.high / unusual.low).toBeGreaterThan(typical.high / typical.low);
+  });
+
+  it('falls back to the overall estimate for segments without deals', () => {
+    const unseen = predictRate(model, creator({ platform: 'YOUTUBE', region: 'CHILE', category: null }));
+
+    expect(unseen.estimate).toBeGreaterThan(0);
+    expect(Number.isFinite(unseen.high)).toBe(true);
+  });
+});
@@ -0,0 +1,32 @@
+import { DEFAULT_PROFILE_CONFIG, normalizeProfileConfig } from '../recommendationProfileService';
+
+describe('normalizeProfileConfig', () => {
+  it('fills missing settings from the built-in defaults', () => {
+    expect(normalizeProfileConfig({})).toEqual(DEFAULT_PROFILE_CONFIG);
+  });
+
+  it('scales weights and diversity targets to add up to 1', () => {
+    const config = normalizeProfileConfig({
+      weights: { verticalFit: 2, historicalPerformance: 1, brandSafety: 1, budgetAlignment: 0, userHistoryBonus: 0 },
+      diversityTargets: { nano: 1, micro: 1, mid: 1, macro: 1 },
+    });
+
+    expect(config.weights).toEqual({ verticalFit: 0.5, historicalPerformance: 0.25, brandSafety: 0.25, budgetAlignment: 0, userHistoryBonus: 0 });
+    expect(config.diversityTargets).toEqual({ nano: 0.25, micro: 0.25, mid: 0.25, macro: 0.25 });
+  });
+
+  it('sorts the rate card and keeps an open-ended last bracket', () => {
+    const config = normalizeProfileConfig({
+      rateCard: [
+        { maxFollowers: 100000, rate: 800 },
+        { maxFollowers: 20000, rate: 150 },
+      ],
+    });
+
+    expect(config.rateCard).toEqual([
+      { maxFollowers: 20000, rate: 150 },
+      { maxFollowers: 100000, rate: 800 },
+      { maxFollowers: null, rate: 800 },
+    ]);
+  });
+});
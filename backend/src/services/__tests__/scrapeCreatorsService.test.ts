@@ -0,0 +1,96 @@
+import { Platform } from '@prisma/client';
+import { httpFixtures } from '../../test/httpFixtures';
+import { scrapeCreatorsService } from '../scrapeCreatorsService';
+
+describe('ScrapeCreatorsService', () => {
+  beforeEach(() => {
+    httpFixtures.use('scrapecreators');
+  });
+
+  describe('fetchProfile + mapProfileToStreamer', () => {
+    it('merges TikTok user and stats', async () => {
+      const profile = await scrapeCreatorsService.fetchProfile(Platform.TIKTOK, '@rivers_gg');
+      const streamer = scrapeCreatorsService.mapProfileToStreamer(Platform.TIKTOK, profile!);
+
+      expect(streamer).toMatchObject({
+        username: 'rivers_gg',
+        displayName: 'Rivers',
+        profileUrl: 'https://tiktok.com/@rivers_gg',
+        avatarUrl: 'https://p16-sign.tiktokcdn.com/rivers~c5_1080x1080.jpeg',
+        followers: 8100000,
+        totalLikes: BigInt(402000000),
+        profileDescription: '🇲🇽 streamer | twitch.tv/rivers_gg | ig: rivers.gg',
+      });
+      expect(streamer.engagementRate).toBeCloseTo((402000000 / 1200 / 8100000) * 100);
+    });
+
+    it('reads Instagram counts from the GraphQL edge fields', async () => {
+      const profile = await scrapeCreatorsService.fetchProfile(Platform.INSTAGRAM, 'juansguarnizo');
+      const streamer = scrapeCreatorsService.mapProfileToStreamer(Platform.INSTAGRAM, profile!);
+
+      expect(streamer).toMatchObject({
+        username: 'juansguarnizo',
+        displayName: 'JuanSGuarnizo',
+        avatarUrl: 'https://scontent.cdninstagram.com/juan_1080.jpg',
+        followers: 9400000,
+      });
+    });
+
+    it('handles the nested X payload and upgrades the avatar size', async () => {
+      const profile = await scrapeCreatorsService.fetchProfile(Platform.X, 'ibai');
+      const streamer = scrapeCreatorsService.mapProfileToStreamer(Platform.X, profile!);
+
+      expect(streamer).toMatchObject({
+        username: 'ibai',
+        displayName: 'Ibai',
+        profileUrl: 'https://x.com/ibai',
+        avatarUrl: 'https://pbs.twimg.com/profile_images/ibai_400x400.jpg',
+        followers: 14800000,
+        profileDescription: 'KOI | La Velada del Año | twitch.tv/ibai',
+      });
+    });
+
+    it('builds YouTube profiles with social links from the channel fields', async () => {
+      const profile = await scrapeCreatorsService.fetchProfile(Platform.YOUTUBE, 'AuronPlay');
+      const streamer = scrapeCreatorsService.mapProfileToStreamer(Platform.YOUTUBE, profile!);
+
+      expect(streamer).toMatchObject({
+        username: 'AuronPlay',
+        followers: 29700000,
+        avatarUrl: 'https://yt3.googleusercontent.com/auron=s176',
+      });
+      expect(streamer.socialLinks).toContain('https://www.tiktok.com/@auronplay');
+    });
+
+    it('returns null on API errors and unknown channels', async () => {
+      await expect(scrapeCreatorsService.fetchProfile(Platform.X, 'rate_limited')).resolves.toBeNull();
+      await expect(scrapeCreatorsService.fetchProfile(Platform.YOUTUBE, 'ghostchannel')).resolves.toBeNull();
+      await expect(scrapeCreatorsService.fetchProfile(Platform.TWITCH, 'elxokas')).resolves.toBeNull();
+    });
+  });
+
+  describe('extractHandlesFromContent', () => {
+    it('finds handles in URLs and "platform: handle" mentions', () => {
+      expect(scrapeCreatorsService.extractHandlesFromContent(
+        'Negocios: x@y.com | instagram.com/westcol | tiktok: @westcol_ | twitter.com/WestCOL | youtube.com/@westcolYT | linkedin.com/in/west-col'
+      )).toEqual({
+        instagram: 'westcol',
+        tiktok: 'westcol_',
+        x: 'WestCOL',
+        youtube: 'westcolYT',
+        linkedin: 'west-col',
+      });
+    });
+
+    it('reads "ig:" shorthand and twitch links', () => {
+      expect(scrapeCreatorsService.extractHandlesFromContent('🇲🇽 streamer | twitch.tv/rivers_gg | ig: rivers.gg')).toEqual({
+        instagram: 'rivers.gg',
+        twitch: 'rivers_gg',
+      });
+    });
+
+    it('returns an empty object when nothing matches', () => {
+      expect(scrapeCreatorsService.extractHandlesFromContent('just vibes')).toEqual({});
+    });
+  });
+});
@@ -0,0 +1,70 @@
+import { Platform } from '@prisma/client';
+import { db } from '../../utils/database';
+import { createTestStreamer } from '../../test/testDatabase';
+import { shortlistLinkService } from '../shortlistLinkService';
+import { shortlistService } from '../shortlistService';
+
+const owner = 'ana@agency.com';
+const list = { ownerId: owner, listName: 'Brand X' };
+
+async function listedCreators() {
+  const creators = await Promise.all(['alpha', 'beta', 'gamma'].map((username, i) =>
+    createTestStreamer({ platform: Platform.TWITCH, username, followers: (i + 1) * 150000, avgViewers: 1200, historicalCpa: 42 })
+  ));
+  for (const creator of creators) {
+    await shortlistService.add(owner, list, creator.id, { notes: 'Internal: asks for 2x rate' });
+  }
+  return creators;
+}
+
+describe('ShortlistLinkService (db)', () => {
+  it('shows the chosen creators with whitelisted metrics only', async () => {
+    const [alpha, beta] = await listedCreators();
+    const link = await shortlistLinkService.create(owner, list, { title: 'Brand X - May', metrics: ['followers', 'region'], streamerIds: [alpha.id, beta.id] });
+
+    const page = await shortlistLinkService.view(link.token);
+
+    expect(page.title).toBe('Brand X - May');
+    expect(page.metrics.map(m => m.key)).toEqual(['followers', 'region']);
+    expect(page.creators.map(c => c.displayName).sort()).toEqual(['alpha', 'beta']);
+    expect(page.creators.find(c => c.streamerId === beta.id)!.values).toEqual({ followers: '300K', region: 'Mexico' });
+    expect(JSON.stringify(page)).not.toMatch(/historicalCpa|Internal/);
+    await expect(db.discoveryShortlistLink.findUnique({ where: { id: link.id } })).resolves.toMatchObject({ viewCount: 1 });
+  });
+
+  it('enforces password, expiry and revocation', async () => {
+    await listedCreators();
+    const link = await shortlistLinkService.create(owner, list, { password: 'open sesame' });
+
+    expect(link).toMatchObject({ hasPassword: true });
+    expect(link).not.toHaveProperty('passwordHash');
+    await expect(shortlistLinkService.view(link.token)).rejects.toMatchObject({ statusCode: 401, message: 'Password required' });
+    await expect(shortlistLinkService.view(link.token, 'guess')).rejects.toMatchObject({ statusCode: 401, message: 'Incorrect password' });
+    await expect(shortlistLinkService.view(link.token, 'open sesame')).resolves.toMatchObject({ creators: expect.any(Array) });
+
+    await db.discoveryShortlistLink.update({ where: { id: link.id }, data: { expiresAt: new Date(Date.now() - 1000) } });
+    await expect(shortlistLinkService.view(link.token, 'open sesame')).rejects.toMatchObject({ statusCode: 410 });
+
+    const other = await shortlistLinkService.create(owner, list, {});
+    await shortlistLinkService.revoke(owner, other.id);
+    await expect(shortlistLinkService.view(other.token)).rejects.toMatchObject({ statusCode: 410 });
+    await expect(shortlistLinkService.view('nope')).rejects.toMatchObject({ statusCode: 404 });
+  });
+
+  it('writes client decisions back to the entry and its trail', async () => {
+    const [alpha, , gamma] = await listedCreators();
+    const link = await shortlistLinkService.create(owner, list, { streamerIds: [alpha.id] });
+
+    await shortlistLinkService.decide(link.token, undefined, alpha.id, 'REJECTED', 'Audience too young');
+    await expect(shortlistLinkService.decide(link.token, undefined, gamma.id, 'APPROVED')).rejects.toMatchObject({ statusCode: 404 });
+
+    const entry = await db.discoveryShortlist.findFirst({ where: { userId: owner, listName: list.listName, streamerId: alpha.id } });
+    expect(entry).toMatchObject({ clientDecision: 'REJECTED', clientDecisionNote: 'Audience too young', notes: 'Internal: asks for 2x rate' });
+
+    const [event] = await shortlistService.events(owner, list, alpha.id);
+    expect(event).toMatchObject({ action: 'CLIENT_DECISION', userId: `client:${link.id}`, detail: expect.objectContaining({ decision: 'REJECTED' }) });
+
+    const viewOnly = await shortlistLinkService.update(owner, link.id, { allowDecisions: false });
+    await expect(shortlistLinkService.decide(viewOnly.token, undefined, alpha.id, null)).rejects.toMatchObject({ statusCode: 403 });
+  });
+});
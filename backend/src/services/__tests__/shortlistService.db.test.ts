@@ -0,0 +1,79 @@
+import { Platform } from '@prisma/client';
+import { db } from '../../utils/database';
+import { createTestStreamer } from '../../test/testDatabase';
+import { shortlistService } from '../shortlistService';
+import { workspaceService } from '../workspaceService';
+
+const owner = 'ana@agency.com';
+const editor = 'bruno@agency.com';
+const viewer = 'carla@client.io';
+const list = { ownerId: owner, listName: 'Q3 casino' };
+
+async function sharedList() {
+  const [team, client] = await Promise.all([workspaceService.create(owner, 'Agency'), workspaceService.create(owner, 'Client')]);
+  await workspaceService.addMember(owner, team.id, editor);
+  await workspaceService.addMember(owner, client.id, viewer);
+  await shortlistService.share(owner, list.listName, team.id, 'EDIT');
+  await shortlistService.share(owner, list.listName, client.id, 'READ');
+  return { team, client };
+}
+
+describe('ShortlistService (db)', () => {
+  it('lets workspace members read or edit a shared list and records who did what', async () => {
+    const creator = await createTestStreamer({ platform: Platform.TWITCH, username: 'shared' });
+    await sharedList();
+
+    await expect(shortlistService.add(editor, list, creator.id, { notes: 'Great fit' })).resolves.toMatchObject({ userId: owner, addedBy: editor });
+    await expect(shortlistService.add(viewer, list, creator.id)).rejects.toThrow('read-only');
+    await expect(shortlistService.add('stranger@else.com', list, creator.id)).rejects.toThrow('Shortlist not found');
+
+    await expect(shortlistService.sharedWith(viewer)).resolves.toEqual([
+      expect.objectContaining({ ownerId: owner, listName: 'Q3 casino', access: 'READ', count: 1 }),
+    ]);
+
+    await shortlistService.remove(owner, list, creator.id);
+    const trail = await shortlistService.events(viewer, list);
+    expect(trail.map(e => [e.action, e.userId])).toEqual([['REMOVED', owner], ['ADDED', editor]]);
+  });
+
+  it('threads comments and resolves @mentions against collaborators', async () => {
+    const creator = await createTestStreamer({ platform: Platform.KICK, username: 'discussed' });
+    await sharedList();
+    await shortlistService.add(owner, list, creator.id);
+
+    const question = await shortlistService.addComment(viewer, list, creator.id, '@bruno is the rate confirmed? cc @dora');
+    const answer = await shortlistService.addComment(editor, list, creator.id, 'Yes, @carla', question.id);
+    await shortlistService.addComment(owner, list, creator.id, 'Thanks!', answer.id);
+
+    expect(question.mentions).toEqual([editor]);
+    expect(answer.mentions).toEqual([viewer]);
+
+    await expect(shortlistService.deleteComment(editor, question.id)).rejects.toThrow('your own comments');
+    await shortlistService.deleteComment(owner, question.id);
+
+    const threads = await shortlistService.comments(editor, list, creator.id);
+    expect(threads).toHaveLength(1);
+    expect(threads[0]).toMatchObject({ body: '', mentions: [] });
+    expect(threads[0].replies.map(r => r.body)).toEqual(['Yes, @carla', 'Thanks!']);
+  });
+
+  it('keeps both of two concurrent moves', async () => {
+    const creators = await Promise.all(['one', 'two', 'three', 'four'].map(username =>
+      createTestStreamer({ platform: Platform.YOUTUBE, username })
+    ));
+    const [one, two, three, four] = creators;
+    await sharedList();
+    for (const creator of [...creators].reverse()) {
+      await shortlistService.add(owner, list, creator.id);
+    }
+    await shortlistService.setPriorities(owner, list, creators.map((c, i) => ({ streamerId: c.id, priority: (4 - i) * 1024 })));
+
+    await Promise.all([
+      shortlistService.move(owner, list, four.id),
+      shortlistService.move(editor, list, one.id, { afterStreamerId: three.id }),
+    ]);
+
+    const rows = await db.discoveryShortlist.findMany({ where: { userId: owner, listName: list.listName }, orderBy: { priority: 'desc' } });
+    expect(rows.map(r => r.streamerId)).toEqual([four.id, two.id, three.id, one.id]);
+  });
+});
@@ -0,0 +1,53 @@
+import { placeEntry, resolveMentions } from '../shortlistService';
+
+const list = (...entries: Array<[string, number]>) => entries.map(([streamerId, priority]) => ({ streamerId, priority }));
+
+describe('placeEntry', () => {
+  it('takes the midpoint between the new neighbours', () => {
+    const entries = list(['a', 3072], ['b', 2048], ['c', 1024]);
+
+    expect(placeEntry(entries, 'c', { beforeStreamerId: 'b' })).toEqual([{ streamerId: 'c', priority: 2560 }]);
+    expect(placeEntry(entries, 'a', { afterStreamerId: 'b' })).toEqual([{ streamerId: 'a', priority: 1536 }]);
+  });
+
+  it('moves past the ends of the list', () => {
+    const entries = list(['a', 3072], ['b', 2048], ['c', 1024]);
+
+    expect(placeEntry(entries, 'c')).toEqual([{ streamerId: 'c', priority: 4096 }]);
+    expect(placeEntry(entries, 'a', { afterStreamerId: 'c' })).toEqual([{ streamerId: 'a', priority: 0 }]);
+  });
+
+  it('renumbers when the neighbours leave no room', () => {
+    // Never-reordered lists are all priority 0
+    const entries = list(['a', 0], ['b', 0], ['c', 0], ['d', 0]);
+
+    expect(placeEntry(entries, 'd', { beforeStreamerId: 'b' })).toEqual(list(['a', 4096], ['d', 3072], ['b', 2048], ['c', 1024]));
+  });
+
+  it('changes nothing when the entry is already in place', () => {
+    const entries = list(['a', 3072], ['b', 2048], ['c', 1024]);
+
+    expect(placeEntry(entries, 'b', { afterStreamerId: 'a' })).toEqual([]);
+  });
+
+  it('rejects entries and anchors that are not on the list', () => {
+    const entries = list(['a', 0], ['b', 0]);
+
+    expect(() => placeEntry(entries, 'x')).toThrow('Shortlist entry not found');
+    expect(() => placeEntry(entries, 'a', { beforeStreamerId: 'x' })).toThrow('not on this shortlist');
+  });
+});
+
+describe('resolveMentions', () => {
+  const people = ['ana@agency.com', 'bruno@agency.com', 'ana@client.io', 'carla@client.io'];
+
+  it('matches unambiguous handles and full addresses', () => {
+    expect(resolveMentions('@bruno can you check? cc @Carla.', people, 'ana@agency.com')).toEqual(['bruno@agency.com', 'carla@client.io']);
+    expect(resolveMentions('@ana@client.io thoughts?', people, 'bruno@agency.com')).toEqual(['ana@client.io']);
+  });
+
+  it('skips ambiguous handles, strangers, emails in text and the author', () => {
+    expect(resolveMentions('@ana @dora write to team@agency.com', people, 'bruno@agency.com')).toEqual([]);
+    expect(resolveMentions('note to self @bruno', people, 'BRUNO@agency.com')).toEqual([]);
+  });
+});
@@ -0,0 +1,38 @@
+import { PassThrough } from 'stream';
+import { Response } from 'express';
+import { Platform, Region } from '@prisma/client';
+import { db } from '../../utils/database';
+import { streamerExportService } from '../streamerExportService';
+
+describe('StreamerExportService (db)', () => {
+  const exportCsv = async (orderBy: any[]) => {
+    const res = Object.assign(new PassThrough(), { setHeader: jest.fn() });
+    const chunks: Buffer[] = [];
+    res.on('data', chunk => chunks.push(chunk));
+
+    const written = await streamerExportService.exportRows(res as unknown as Response, {
+      format: 'csv', columns: ['username'], where: {}, orderBy,
+    });
+    return { written, lines: Buffer.concat(chunks).toString('utf8').trim().split('\n').slice(1) };
+  };
+
+  it('exports every row when a batch ends on a creator with a NULL sort key', async () => {
+    // 300 with growth and 400 without, so the first batch of 500 ends inside the NULLs
+    await db.streamer.createMany({
+      data: Array.from({ length: 700 }, (_, i) => ({
+        platform: Platform.TWITCH,
+        username: `creator${i}`,
+        displayName: `creator${i}`,
+        profileUrl: `https://twitch.tv/creator${i}`,
+        region: Region.MEXICO,
+        followerGrowthPct7d: i < 300 ? i : null,
+      })),
+    });
+
+    const { written, lines } = await exportCsv([{ followerGrowthPct7d: { sort: 'desc', nulls: 'last' } }]);
+
+    expect(written).toBe(700);
+    expect(new Set(lines).size).toBe(700);
+    expect(lines[0]).toBe('creator299');
+  });
+});
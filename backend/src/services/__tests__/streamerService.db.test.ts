@@ -0,0 +1,55 @@
+import { Platform } from '@prisma/client';
+import { db } from '../../utils/database';
+import { httpFixtures } from '../../test/httpFixtures';
+import { createTestStreamer } from '../../test/testDatabase';
+import { StreamerService } from '../streamerService';
+
+describe('StreamerService live sync (db)', () => {
+  const service = new StreamerService();
+
+  beforeEach(() => {
+    httpFixtures.use('twitch-helix');
+  });
+
+  it('marks live Twitch streamers from one batched Helix call and resets the rest', async () => {
+    const elxokas = await createTestStreamer({ platform: Platform.TWITCH, username: 'elxokas' });
+    const ibai = await createTestStreamer({ platform: Platform.TWITCH, username: 'ibai', highestViewers: 150000 });
+    const auronplay = await createTestStreamer({
+      platform: Platform.TWITCH,
+      username: 'auronplay',
+      isLive: true,
+      currentViewers: 900,
+    });
+    await createTestStreamer({ platform: Platform.KICK, username: 'westcol' });
+
+    const result = await service.syncTwitchStreamers();
+
+    expect(result).toMatchObject({ total: 3, live: 2, errors: 0 });
+    expect(httpFixtures.requestsTo('https://api.twitch.tv/helix/streams')).toHaveLength(1);
+
+    const [xokas, ibaiRow, auron] = await Promise.all([elxokas, ibai, auronplay].map(s =>
+      db.streamer.findUniqueOrThrow({ where: { id: s.id } })
+    ));
+
+    expect(xokas).toMatchObject({
+      isLive: true,
+      currentViewers: 18342,
+      currentGame: 'Just Chatting',
+      highestViewers: 18342,
+      lastStreamed: new Date('2026-10-18T15:02:11Z'),
+    });
+    expect((xokas.streamTitles as any[])[0].title).toBe('CHARLANDO UN RATO !sorteo');
+    // Below the stored peak: peak untouched
+    expect(ibaiRow).toMatchObject({ isLive: true, currentViewers: 95120, highestViewers: 150000 });
+    expect(auron).toMatchObject({ isLive: false, currentViewers: 0 });
+  });
+
+  it('counts the whole batch as errored when Helix fails', async () => {
+    await createTestStreamer({ platform: Platform.TWITCH, username: 'elxokas', isLive: true });
+    httpFixtures.add({ method: 'GET', url: 'https://api.twitch.tv/helix/streams', status: 503, data: {} });
+
+    await expect(service.syncTwitchStreamers()).resolves.toMatchObject({ total: 1, live: 0, errors: 1 });
+    // Left as it was rather than flipped offline
+    await expect(db.streamer.findFirst({ where: { username: 'elxokas' } })).resolves.toMatchObject({ isLive: true });
+  });
+});
@@ -0,0 +1,54 @@
+import axios from 'axios';
+import { Platform, Region, WebhookDeliveryStatus, WebhookEvent } from '@prisma/client';
+import { db } from '../../utils/database';
+import { webhookService } from '../webhookService';
+
+describe('WebhookService (db)', () => {
+  let post: jest.SpyInstance;
+
+  beforeEach(() => {
+    post = jest.spyOn(axios, 'post').mockResolvedValue({ status: 200 });
+    webhookService.invalidateCache();
+  });
+
+  afterEach(() => {
+    post.mockRestore();
+  });
+
+  const subscribe = (events: WebhookEvent[]) => db.discoveryWebhookSubscription.create({
+    data: { name: 'Envisioner', url: 'https://hooks.envisioner.io/discovery', secret: webhookService.generateSecret(), events },
+  });
+
+  it('sends each due delivery once when several instances work the queue', async () => {
+    const subscription = await subscribe([WebhookEvent.PING]);
+    await db.discoveryWebhookDelivery.createMany({
+      data: [1, 2, 3].map(n => ({ subscriptionId: subscription.id, event: WebhookEvent.PING, payload: { n }, nextAttemptAt: new Date() })),
+    });
+    const other = new (webhookService.constructor as new () => typeof webhookService)();
+
+    const results = await Promise.all([webhookService.processDue(), other.processDue()]);
+
+    expect(post).toHaveBeenCalledTimes(3);
+    expect(results[0].sent + results[1].sent).toBe(3);
+    expect(await db.discoveryWebhookDelivery.count({ where: { status: WebhookDeliveryStatus.SUCCEEDED } })).toBe(3);
+  });
+
+  it('announces every new creator even when a batch ends inside a shared createdAt', async () => {
+    await subscribe([WebhookEvent.CREATOR_CREATED]);
+    const enqueued = jest.spyOn(webhookService, 'processDue').mockResolvedValue({ sent: 0, failed: 0 });
+    await webhookService.emitNewCreators();
+
+    const at = new Date(Date.now() + 1000);
+    await db.streamer.createMany({
+      data: Array.from({ length: 501 }, (_, i) => ({
+        platform: Platform.TWITCH, username: `batch${i}`, displayName: `batch${i}`, profileUrl: `https://twitch.tv/batch${i}`, region: Region.MEXICO, createdAt: at,
+      })),
+    });
+
+    await expect(webhookService.emitNewCreators()).resolves.toBe(500);
+    await expect(webhookService.emitNewCreators()).resolves.toBe(1);
+    await expect(webhookService.emitNewCreators()).resolves.toBe(0);
+    expect(await db.discoveryWebhookDelivery.count({ where: { event: WebhookEvent.CREATOR_CREATED } })).toBe(501);
+    enqueued.mockRestore();
+  });
+});
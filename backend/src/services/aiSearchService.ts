@@ -1,6 +1,9 @@
 import { db, logger } from '../utils/database';
 import { Platform, Region, FraudStatus, Streamer } from '@prisma/client';
 import { claudeService } from './claudeService';
+import { creatorSearchService } from './creatorSearchService';
+import { creatorEmbeddingService, SimilarCreatorOptions } from './creatorEmbeddingService';
+import { AppError } from '../middleware/errorHandler';
 
 interface StreamerSearchParams {
   platforms?: Platform[];
@@ -265,100 +268,22 @@ export class AISearchService {
         whereClause.region = { in: params.regions.map(r => r.toUpperCase()) };
       }
 
-      // Tag filtering - Search in currentGame, tags, and topGames
+      // Tag filtering - indexed search over currentGame, topGames and tags
       if (params.tags?.length) {
-        const tagSearchTerms = params.tags.map(t => t.toUpperCase());
+        logger.info('🔍 Tag/Game search initiated', { searchTerms: params.tags });
 
-        logger.info('🔍 Tag/Game search initiated', {
-          searchTerms: tagSearchTerms,
-          originalParams: params.tags
-        });
-
-        // Get all streamers and search in currentGame, tags, and topGames
-        const streamersWithMatchingContent = await db.streamer.findMany({
-          where: whereClause,
-          select: { id: true, tags: true, currentGame: true, topGames: true, username: true }
-        });
-
-        logger.info('📊 Found streamers to check', {
-          totalStreamers: streamersWithMatchingContent.length,
-          sampleData: streamersWithMatchingContent.slice(0, 3).map(s => ({
-            username: s.username,
-            currentGame: s.currentGame,
-            topGames: s.topGames,
-            tags: s.tags
-          }))
-        });
-
-        // Filter streamers that match in currentGame, topGames, or tags
-        const matchingStreamerIds = streamersWithMatchingContent
-          .filter(s => {
-            const currentGame = s.currentGame ? String(s.currentGame).toUpperCase() : '';
-            const topGames = (s.topGames || []).map((g: string) => String(g).toUpperCase());
-            const tags = (s.tags || []).map((t: string) => String(t).toUpperCase());
-
-            const hasMatch = tagSearchTerms.some(searchTerm => {
-              // Exact match in currentGame
-              if (currentGame === searchTerm) return true;
-              // Exact match in any topGame
-              if (topGames.some(game => game === searchTerm)) return true;
-              // Exact match in any tag
-              if (tags.some(tag => tag === searchTerm)) return true;
-
-              // IMPROVED: Handle multi-word search terms (e.g., "sports betting", "online casino")
-              // Split into words and check if all words are present
-              const searchWords = searchTerm.split(/\s+/).filter(w => w.length > 2); // Only words longer than 2 chars
-
-              if (searchWords.length > 1) {
-                // Check if all words from the search term appear in the content
-                const allWordsMatch = searchWords.every(word => {
-                  return currentGame.includes(word) ||
-                         topGames.some(game => game.includes(word)) ||
-                         tags.some(tag => tag.includes(word));
-                });
-                if (allWordsMatch) return true;
-
-                // Also try matching any individual word (more lenient)
-                const anyWordMatches = searchWords.some(word => {
-                  return currentGame.includes(word) ||
-                         topGames.some(game => game.includes(word)) ||
-                         tags.some(tag => tag.includes(word));
-                });
-                if (anyWordMatches) return true;
-              }
-
-              // IMPROVED: Partial matching for single words
-              const hasPartialMatch =
-                currentGame.includes(searchTerm) ||
-                topGames.some(game => game.includes(searchTerm)) ||
-                tags.some(tag => tag.includes(searchTerm));
-
-              return hasPartialMatch;
-            });
-
-            if (hasMatch) {
-              logger.info('✅ Match found', {
-                username: s.username,
-                currentGame: s.currentGame,
-                topGames: s.topGames,
-                tags: s.tags,
-                matchedAgainst: tagSearchTerms
-              });
-            }
-            return hasMatch;
-          })
-          .map(s => s.id);
+        const matchingStreamerIds = await creatorSearchService.idsByTopics(params.tags);
 
         logger.info('🎯 Search matching complete', {
           matchedStreamers: matchingStreamerIds.length,
-          searchTerms: tagSearchTerms
+          searchTerms: params.tags
         });
 
         if (matchingStreamerIds.length > 0) {
           whereClause.id = { in: matchingStreamerIds };
         } else {
           // No matches found - return empty result
-          logger.warn('⚠️  No matches found for search terms', { searchTerms: tagSearchTerms });
+          logger.warn('⚠️  No matches found for search terms', { searchTerms: params.tags });
           whereClause.id = { in: [] };
         }
       }
@@ -620,45 +545,63 @@ export class AISearchService {
   }
 
   /**
-   * Get similar streamers using AI
+   * Creators whose content is most like the given one (embedding similarity,
+   * any platform, within an audience-size band). Creators without content to
+   * embed fall back to same platform/region, overlapping tags and 0.5-2x followers.
    */
-  async findSimilarStreamers(streamerId: string, limit: number = 5): Promise<Streamer[]> {
+  async findSimilarStreamers(
+    streamerId: string,
+    limit: number = 5,
+    options: Omit<SimilarCreatorOptions, 'limit'> = {}
+  ): Promise<Array<Streamer & { similarity?: number; audienceFit?: number }>> {
     try {
-      const targetStreamer = await db.streamer.findUnique({
-        where: { id: streamerId }
-      });
-
-      if (!targetStreamer) {
-        throw new Error('Streamer not found');
+      const similar = await creatorEmbeddingService.findSimilar(streamerId, { ...options, limit });
+      if (similar) {
+        const streamers = await db.streamer.findMany({
+          where: { id: { in: similar.map(s => s.id) } }
+        });
+        const byId = new Map(streamers.map(s => [s.id, s]));
+        return similar
+          .filter(s => byId.has(s.id))
+          .map(s => ({ ...byId.get(s.id)!, similarity: s.similarity, audienceFit: s.audienceFit }));
       }
 
-      // Find similar streamers based on multiple factors
-      const similarStreamers = await db.streamer.findMany({
-        where: {
-          id: { not: streamerId },
-          platform: targetStreamer.platform,
-          region: targetStreamer.region,
-          tags: { hasSome: targetStreamer.tags },
-          followers: {
-            gte: targetStreamer.followers * 0.5,  // 50% to 200% of follower count
-            lte: targetStreamer.followers * 2
-          },
-          fraudCheck: { not: 'FLAGGED' }
-        },
-        orderBy: [
-          { followers: 'desc' }
-        ],
-        take: limit
-      });
-
-      return similarStreamers;
-
+      logger.info('No content to embed, falling back to attribute matching', { streamerId });
+      return this.findSimilarByAttributes(streamerId, limit);
     } catch (error) {
       logger.error('Error finding similar streamers:', error);
       throw error;
     }
   }
 
+  private async findSimilarByAttributes(streamerId: string, limit: number): Promise<Streamer[]> {
+    const targetStreamer = await db.streamer.findUnique({
+      where: { id: streamerId }
+    });
+
+    if (!targetStreamer) {
+      throw new AppError('Streamer not found', 404);
+    }
+
+    return db.streamer.findMany({
+      where: {
+        id: { not: streamerId },
+        platform: targetStreamer.platform,
+        region: targetStreamer.region,
+        tags: { hasSome: targetStreamer.tags },
+        followers: {
+          gte: targetStreamer.followers * 0.5,  // 50% to 200% of follower count
+          lte: targetStreamer.followers * 2
+        },
+        fraudCheck: { not: 'FLAGGED' }
+      },
+      orderBy: [
+        { followers: 'desc' }
+      ],
+      take: limit
+    });
+  }
+
   /**
    * Store chat interaction in database
    */
@@ -0,0 +1,213 @@
+import crypto from 'crypto';
+import { ApiKeyScope, DiscoveryApiKey } from '@prisma/client';
+import { db, logger } from '../utils/database';
+
+/**
+ * ApiKeyService
+ *
+ * Per-client API keys for machine consumers of the Discovery API (Envisioner,
+ * partner integrations). Keys look like `dsk_<prefix>_<secret>`; only the
+ * SHA-256 hash is stored, so the plaintext is returned exactly once on
+ * create/rotate. Each authenticated request is written to api_usage with the
+ * key id so usage can be reported per client.
+ */
+
+export const API_USAGE_PROVIDER = 'discovery-api';
+
+const KEY_PREFIX = 'dsk';
+// Keep a rotated key working for a while so clients can deploy the new one
+const DEFAULT_ROTATION_GRACE_HOURS = 24;
+// lastUsedAt is only written once per minute per key to avoid a write on every request
+const LAST_USED_THROTTLE_MS = 60 * 1000;
+
+const publicSelect = {
+  id: true,
+  name: true,
+  prefix: true,
+  scopes: true,
+  createdById: true,
+  rotatedFromId: true,
+  lastUsedAt: true,
+  expiresAt: true,
+  revokedAt: true,
+  createdAt: true,
+} as const;
+
+const hashKey = (key: string) => crypto.createHash('sha256').update(key).digest('hex');
+
+class ApiKeyService {
+  private lastUsedWrites = new Map<string, number>();
+
+  /**
+   * Create a key. The returned `key` is the only time the plaintext is available.
+   */
+  async createKey(input: {
+    name: string;
+    scopes: ApiKeyScope[];
+    createdById?: string | null;
+    expiresAt?: Date | null;
+    rotatedFromId?: string | null;
+  }) {
+    const prefix = crypto.randomBytes(4).toString('hex');
+    const secret = crypto.randomBytes(24).toString('base64url');
+    const key = `${KEY_PREFIX}_${prefix}_${secret}`;
+
+    const record = await db.discoveryApiKey.create({
+      data: {
+        name: input.name,
+        prefix,
+        keyHash: hashKey(key),
+        scopes: [...new Set(input.scopes)],
+        createdById: input.createdById ?? null,
+        expiresAt: input.expiresAt ?? null,
+        rotatedFromId: input.rotatedFromId ?? null,
+      },
+      select: publicSelect,
+    });
+
+    return { key, record };
+  }
+
+  /**
+   * All keys, newest first, without hashes
+   */
+  async listKeys() {
+    return db.discoveryApiKey.findMany({
+      orderBy: { createdAt: 'desc' },
+      select: publicSelect,
+    });
+  }
+
+  /**
+   * Revoke immediately. Returns null if the key doesn't exist.
+   */
+  async revokeKey(id: string) {
+    const existing = await db.discoveryApiKey.findUnique({ where: { id }, select: { id: true, revokedAt: true } });
+    if (!existing) return null;
+    if (existing.revokedAt) {
+      return db.discoveryApiKey.findUnique({ where: { id }, select: publicSelect });
+    }
+
+    return db.discoveryApiKey.update({
+      where: { id },
+      data: { revokedAt: new Date() },
+      select: publicSelect,
+    });
+  }
+
+  /**
+   * Issue a replacement key with the same name and scopes. The old key keeps
+   * working for `graceHours` (0 revokes it immediately).
+   */
+  async rotateKey(id: string, createdById: string | null, graceHours: number = DEFAULT_ROTATION_GRACE_HOURS) {
+    const existing = await db.discoveryApiKey.findUnique({ where: { id } });
+    if (!existing || existing.revokedAt) return null;
+
+    const created = await this.createKey({
+      name: existing.name,
+      scopes: existing.scopes,
+      createdById,
+      expiresAt: existing.expiresAt,
+      rotatedFromId: existing.id,
+    });
+
+    const graceEnd = new Date(Date.now() + graceHours * 60 * 60 * 1000);
+    await db.discoveryApiKey.update({
+      where: { id },
+      data: graceHours > 0
+        ? { expiresAt: existing.expiresAt && existing.expiresAt < graceEnd ? existing.expiresAt : graceEnd }
+        : { revokedAt: new Date() },
+    });
+
+    return created;
+  }
+
+  /**
+   * Resolve a plaintext key to an active key record, or null if unknown, revoked or expired
+   */
+  async authenticate(rawKey: string): Promise<DiscoveryApiKey | null> {
+    if (!rawKey.startsWith(`${KEY_PREFIX}_`)) return null;
+
+    const key = await db.discoveryApiKey.findUnique({ where: { keyHash: hashKey(rawKey) } });
+    if (!key || key.revokedAt) return null;
+    if (key.expiresAt && key.expiresAt.getTime() <= Date.now()) return null;
+
+    this.touchLastUsed(key.id);
+    return key;
+  }
+
+  /**
+   * ADMIN implies every other scope
+   */
+  hasScope(scopes: ApiKeyScope[], required: ApiKeyScope): boolean {
+    return scopes.includes(ApiKeyScope.ADMIN) || scopes.includes(required);
+  }
+
+  /**
+   * Record one API call made with a key. Never throws.
+   */
+  async recordUsage(apiKeyId: string, endpoint: string, statusCode: number): Promise<void> {
+    try {
+      await db.apiUsage.create({
+        data: {
+          provider: API_USAGE_PROVIDER,
+          endpoint,
+          creditsUsed: 1,
+          project: 'discovery',
+          success: statusCode < 400,
+          errorCode: statusCode >= 400 ? String(statusCode) : null,
+          apiKeyId,
+        },
+      });
+    } catch (error: any) {
+      logger.error('API key usage tracking failed', { apiKeyId, message: error?.message });
+    }
+  }
+
+  /**
+   * Calls per day and per endpoint for one key over the last `days` days
+   */
+  async getUsage(apiKeyId: string, days: number = 30) {
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+    const [daily, byEndpoint] = await Promise.all([
+      db.$queryRaw<Array<{ day: Date; calls: bigint; errors: bigint }>>`
+        SELECT date_trunc('day', recorded_at) AS day,
+               COUNT(*) AS calls,
+               COUNT(*) FILTER (WHERE NOT success) AS errors
+        FROM api_usage
+        WHERE api_key_id = ${apiKeyId} AND recorded_at >= ${since}
+        GROUP BY 1
+        ORDER BY 1
+      `,
+      db.apiUsage.groupBy({
+        by: ['endpoint'],
+        where: { apiKeyId, recordedAt: { gte: since } },
+        _count: { _all: true },
+        orderBy: { _count: { endpoint: 'desc' } },
+      }),
+    ]);
+
+    return {
+      since: since.toISOString(),
+      totalCalls: daily.reduce((sum, d) => sum + Number(d.calls), 0),
+      daily: daily.map(d => ({
+        date: d.day.toISOString().slice(0, 10),
+        calls: Number(d.calls),
+        errors: Number(d.errors),
+      })),
+      byEndpoint: byEndpoint.map(e => ({ endpoint: e.endpoint, calls: e._count._all })),
+    };
+  }
+
+  private touchLastUsed(id: string): void {
+    const now = Date.now();
+    if (now - (this.lastUsedWrites.get(id) || 0) < LAST_USED_THROTTLE_MS) return;
+    this.lastUsedWrites.set(id, now);
+
+    db.discoveryApiKey.update({ where: { id }, data: { lastUsedAt: new Date(now) } })
+      .catch((error: any) => logger.error('Failed to update API key lastUsedAt', { id, message: error?.message }));
+  }
+}
+
+export const apiKeyService = new ApiKeyService();
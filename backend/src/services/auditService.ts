@@ -1,6 +1,7 @@
 import { db, logger } from '../utils/database';
 
-export type AuditAction = 'INSERT' | 'UPDATE' | 'DELETE';
+// EXECUTE records admin operations (job triggers, bulk resets) rather than a single row change
+export type AuditAction = 'INSERT' | 'UPDATE' | 'DELETE' | 'EXECUTE';
 export type AuditActor = 'AI_HAIKU' | 'AI_TAG_INFERENCE' | 'SYSTEM' | 'SCRAPER' | 'SYNC' | string; // string for user emails
 
 interface AuditEntry {
@@ -89,6 +90,23 @@ class AuditService {
     });
   }
 
+  /**
+   * Helper to log an admin operation that isn't a single-row change
+   */
+  async logOperation(
+    operation: string,
+    changedBy: AuditActor,
+    details: Record<string, any>
+  ): Promise<void> {
+    await this.log({
+      tableName: 'admin_operations',
+      recordId: operation,
+      action: 'EXECUTE',
+      changedBy,
+      newValues: details,
+    });
+  }
+
   /**
    * Get recent audit logs with filtering
    */
@@ -1,32 +1,38 @@
 import { db, logger } from '../utils/database';
+import { RateDeliverable } from '@prisma/client';
+import { ComplianceDecision, jurisdictionService } from './jurisdictionService';
+import { RateEstimate, rateEstimationService } from './rateEstimationService';
+import {
+  CREATOR_TIERS,
+  CreatorTier,
+  RecommendationFactor,
+  RecommendationProfileConfig,
+  RecommendationProfileInput,
+  ResolvedProfile,
+  normalizeProfileConfig,
+  recommendationProfileService,
+} from './recommendationProfileService';
 
 /**
  * AutoRecommendationService
  *
  * Automatically recommends creators for campaigns using weighted scoring:
- * - Vertical Fit (30%): iGaming score, tags, gambling compatibility
- * - Historical Performance (25%): CPA, ROI, conversions
- * - Brand Safety (20%): Safety score, TOS compliance
- * - Budget Alignment (15%): Estimated rate vs campaign budget
- * - User History Bonus (10%): Similarity to user's top performers
+ * - Vertical Fit: iGaming score, tags, gambling compatibility
+ * - Historical Performance: CPA, ROI, conversions
+ * - Brand Safety: Safety score, TOS compliance
+ * - Budget Alignment: Estimated rate vs campaign budget - from the pricing model
+ *   fit on negotiated deals (rateEstimationService), else the profile rate card
+ * - User History Bonus: Similarity to user's favorites
+ *
+ * Weights, follower tiers, the tier mix, rate card and exclusions come from a
+ * recommendation profile (see recommendationProfileService; the built-in
+ * defaults are 30/25/20/15/10). Every recommendation explains each factor's
+ * score and what it contributed to the total.
+ *
+ * Gambling campaigns are screened against the jurisdiction rules for each
+ * creator's primary market first; every result carries the deciding rule.
  */
 
-// Tier follower ranges
-const TIER_RANGES = {
-  nano: { min: 1000, max: 10000 },
-  micro: { min: 10000, max: 50000 },
-  mid: { min: 50000, max: 500000 },
-  macro: { min: 500000, max: Infinity },
-};
-
-// Target diversity ratios
-const DIVERSITY_TARGETS = {
-  nano: 0.30,
-  micro: 0.35,
-  mid: 0.30,
-  macro: 0.05,
-};
-
 interface CampaignCriteria {
   vertical?: string;
   region?: string;
@@ -35,6 +41,25 @@ interface CampaignCriteria {
   requireGamblingCompatible?: boolean;
   platforms?: string[];
   totalCount?: number;
+  // Also drop creators whose market is unknown or has no jurisdiction rule
+  strictCompliance?: boolean;
+  // Recommendation profile id or slug (default profile when omitted)
+  profile?: string;
+  // What the budget buys per creator, for rate estimates (default INTEGRATION)
+  deliverable?: RateDeliverable;
+}
+
+interface FactorResult {
+  score: number;        // 0-100
+  reasons: string[];
+}
+
+export interface FactorExplanation {
+  factor: RecommendationFactor;
+  score: number;        // 0-100
+  weight: number;       // Share of the total from the profile (0-1)
+  contribution: number; // Points this factor added to the total score
+  reasons: string[];
 }
 
 interface RecommendedCreator {
@@ -49,151 +74,212 @@ interface RecommendedCreator {
   gamblingCompatibility: boolean;
   brandSafetyScore: number;
   score: number;
-  tier: string;
-  scoreBreakdown: {
-    verticalFit: number;
-    historicalPerformance: number;
-    brandSafety: number;
-    budgetAlignment: number;
-    userHistoryBonus: number;
-  };
+  tier: CreatorTier;
+  scoreBreakdown: Record<RecommendationFactor, number>;
+  explanation: FactorExplanation[];
+  compliance: ComplianceDecision;
+}
+
+interface ExcludedCreator {
+  id: string;
+  displayName: string;
+  platform: string;
+  region: string | null;
+  compliance: ComplianceDecision;
+}
+
+export interface RecommendationResult {
+  profile: { id: string | null; slug: string; name: string };
+  recommendations: RecommendedCreator[];
+  excluded: ExcludedCreator[];
+}
+
+export interface ProfilePreview {
+  current: RecommendationResult;
+  proposed: RecommendationResult;
+  // Every creator in either list; ranks are 1-based, null = not recommended
+  changes: Array<{
+    id: string;
+    displayName: string;
+    currentRank: number | null;
+    proposedRank: number | null;
+    movement: number | null;   // Positive = moved up; null when entering or leaving
+  }>;
 }
 
-// Weight constants
-const WEIGHTS = {
-  verticalFit: 0.30,
-  historicalPerformance: 0.25,
-  brandSafety: 0.20,
-  budgetAlignment: 0.15,
-  userHistoryBonus: 0.10,
-};
+interface FavoriteProfile {
+  platform: string;
+  region: string | null;
+  inferredCategory: string | null;
+}
+
+const round = (value: number, places: number = 0) => Math.round(value * 10 ** places) / 10 ** places;
 
 class AutoRecommendationService {
   /**
-   * Get tier based on follower count
+   * Get tier based on follower count. Candidates start at the lowest tier
+   * minimum (see recommend); one that falls between two configured ranges
+   * counts toward the lower tier.
    */
-  private getTier(followers: number): string {
-    if (followers < TIER_RANGES.nano.max) return 'nano';
-    if (followers < TIER_RANGES.micro.max) return 'micro';
-    if (followers < TIER_RANGES.mid.max) return 'mid';
-    return 'macro';
+  private getTier(followers: number, config: RecommendationProfileConfig): CreatorTier {
+    const reached = CREATOR_TIERS.filter(t => followers >= config.tierRanges[t].min);
+    const tier = reached.find(t => {
+      const max = config.tierRanges[t].max;
+      return max === null || followers < max;
+    });
+    return tier || reached[reached.length - 1] || CREATOR_TIERS[0];
   }
 
   /**
    * Calculate vertical fit score (0-100)
    */
-  private calculateVerticalFitScore(creator: any, criteria: CampaignCriteria): number {
+  private calculateVerticalFitScore(creator: any, criteria: CampaignCriteria): FactorResult {
     let score = 0;
+    const reasons: string[] = [];
 
     // iGaming score contributes 60% of vertical fit
     if (criteria.vertical === 'igaming' || criteria.requireGamblingCompatible) {
-      score += (creator.igamingScore / 100) * 60;
+      const fromIgaming = (creator.igamingScore / 100) * 60;
+      score += fromIgaming;
+      reasons.push(`iGaming score ${creator.igamingScore}/100 (+${round(fromIgaming)})`);
 
       // Gambling compatibility bonus
       if (creator.gamblingCompatibility) {
         score += 20;
+        reasons.push('Gambling compatible (+20)');
+      } else {
+        reasons.push('Not marked gambling compatible');
       }
     } else {
       // Non-iGaming campaigns get base score from engagement
-      score += Math.min(50, creator.engagementRate * 10);
+      const fromEngagement = Math.min(50, creator.engagementRate * 10);
+      score += fromEngagement;
+      reasons.push(`Engagement rate ${round(creator.engagementRate, 2)}% (+${round(fromEngagement)})`);
     }
 
     // Category match bonus
     if (criteria.vertical && creator.inferredCategory?.toLowerCase() === criteria.vertical.toLowerCase()) {
       score += 20;
+      reasons.push(`Category matches ${criteria.vertical} (+20)`);
     }
 
-    return Math.min(100, score);
+    return { score: Math.min(100, score), reasons };
   }
 
   /**
    * Calculate historical performance score (0-100)
    */
-  private calculateHistoricalPerformanceScore(creator: any): number {
+  private calculateHistoricalPerformanceScore(creator: any): FactorResult {
     let score = 0;
+    const reasons: string[] = [];
 
     // Historical conversions (40%)
     if (creator.historicalConversions > 0) {
-      score += Math.min(40, (creator.historicalConversions / 100) * 40);
+      const fromConversions = Math.min(40, (creator.historicalConversions / 100) * 40);
+      score += fromConversions;
+      reasons.push(`${creator.historicalConversions} historical conversions (+${round(fromConversions)})`);
     }
 
     // Average ROI (30%)
     if (creator.avgRoi > 0) {
-      score += Math.min(30, (creator.avgRoi / 500) * 30);
+      const fromRoi = Math.min(30, (creator.avgRoi / 500) * 30);
+      score += fromRoi;
+      reasons.push(`Average ROI ${round(creator.avgRoi)}% (+${round(fromRoi)})`);
     }
 
     // Historical CPA - lower is better (30%)
     if (creator.historicalCpa > 0 && creator.historicalCpa < 200) {
-      score += Math.max(0, 30 - (creator.historicalCpa / 200) * 30);
+      const fromCpa = Math.max(0, 30 - (creator.historicalCpa / 200) * 30);
+      score += fromCpa;
+      reasons.push(`Historical CPA $${round(creator.historicalCpa, 2)} (+${round(fromCpa)})`);
     } else if (creator.historicalCpa === 0) {
       // No history, give neutral score
       score += 15;
+      reasons.push('No CPA history (neutral +15)');
+    } else if (creator.historicalCpa >= 200) {
+      reasons.push(`Historical CPA $${round(creator.historicalCpa, 2)} is above $200 (+0)`);
     }
 
-    return Math.min(100, score);
+    if (reasons.length === 0) {
+      reasons.push('No campaign history');
+    }
+
+    return { score: Math.min(100, score), reasons };
   }
 
   /**
    * Calculate brand safety score (0-100)
    */
-  private calculateBrandSafetyScore(creator: any): number {
+  private calculateBrandSafetyScore(creator: any): FactorResult {
+    const reasons: string[] = [];
+
     // Direct use of brand safety score
     let score = creator.brandSafetyScore || 50;
+    reasons.push(creator.brandSafetyScore
+      ? `Brand safety score ${creator.brandSafetyScore}/100`
+      : 'No brand safety score (neutral 50)');
 
     // Fraud check bonus
-    if (creator.fraudCheck === false) {
+    if (creator.fraudCheck === 'CLEAN') {
       score += 10;
+      reasons.push('Fraud check clean (+10)');
     }
 
-    return Math.min(100, score);
+    return { score: Math.min(100, score), reasons };
   }
 
   /**
    * Calculate budget alignment score (0-100)
    */
-  private calculateBudgetAlignmentScore(creator: any, budget?: number): number {
-    if (!budget) return 50; // Neutral if no budget specified
-
-    // Estimate creator rate based on followers (rough heuristic)
-    const estimatedRate = this.estimateCreatorRate(creator.followers);
+  private calculateBudgetAlignmentScore(
+    creator: any,
+    config: RecommendationProfileConfig,
+    budget: number | undefined,
+    rateEstimate: RateEstimate | null
+  ): FactorResult {
+    if (!budget) return { score: 50, reasons: ['No budget given (neutral 50)'] }; // Neutral if no budget specified
+
+    // Priced from negotiated deals when there is a model, else the profile's rate card
+    const estimatedRate = rateEstimate?.estimate ?? this.estimateCreatorRate(creator.followers, config);
+    const basis = rateEstimate
+      ? `Estimated ${rateEstimate.deliverable.toLowerCase().replace('_', ' ')} rate $${estimatedRate} ` +
+        `(${round(rateEstimate.confidenceLevel * 100)}% range $${rateEstimate.low}-$${rateEstimate.high}, ${rateEstimate.sampleSize} deals)`
+      : `Rate card rate $${estimatedRate}`;
 
     // Perfect alignment = rate is 20-50% of budget
     const ratio = estimatedRate / budget;
+    const share = `${basis} is ${round(ratio * 100)}% of the $${budget} budget`;
 
     if (ratio >= 0.2 && ratio <= 0.5) {
-      return 100;
+      return { score: 100, reasons: [`${share} (ideal 20-50%)`] };
     } else if (ratio < 0.2) {
       // Under budget - good but may be too small
-      return 70 + (ratio / 0.2) * 30;
+      return { score: 70 + (ratio / 0.2) * 30, reasons: [`${share} (room for more creators)`] };
     } else if (ratio <= 1.0) {
       // Within budget but expensive
-      return 100 - ((ratio - 0.5) / 0.5) * 50;
+      return { score: 100 - ((ratio - 0.5) / 0.5) * 50, reasons: [`${share} (expensive)`] };
     } else {
       // Over budget
-      return Math.max(0, 50 - (ratio - 1) * 50);
+      return { score: Math.max(0, 50 - (ratio - 1) * 50), reasons: [`${share} (over budget)`] };
     }
   }
 
   /**
-   * Estimate creator rate based on followers
+   * Estimate creator rate from the rate card bracket for their follower count
    */
-  private estimateCreatorRate(followers: number): number {
-    if (followers < 10000) return 100;
-    if (followers < 50000) return 250;
-    if (followers < 100000) return 500;
-    if (followers < 500000) return 1500;
-    return 5000;
+  private estimateCreatorRate(followers: number, config: RecommendationProfileConfig): number {
+    const bracket = config.rateCard.find(r => r.maxFollowers === null || followers < r.maxFollowers);
+    return (bracket || config.rateCard[config.rateCard.length - 1]).rate;
   }
 
   /**
-   * Calculate user history bonus (0-100)
+   * Favorites the user history bonus compares against
    */
-  private async calculateUserHistoryBonus(creator: any, userId?: string): Promise<number> {
-    if (!userId) return 0;
+  private async loadFavorites(userId?: string): Promise<FavoriteProfile[] | null> {
+    if (!userId) return null;
 
     try {
-      // Check if user has favorited similar creators
-      const userFavorites = await db.discoveryFavorite.findMany({
+      const favorites = await db.discoveryFavorite.findMany({
         where: { userId },
         include: {
           streamer: {
@@ -205,28 +291,42 @@ class AutoRecommendationService {
           },
         },
       });
+      return favorites.map(f => f.streamer);
+    } catch (error) {
+      logger.error('Error loading favorites for user history bonus:', error);
+      return null;
+    }
+  }
 
-      if (userFavorites.length === 0) return 0;
+  /**
+   * Calculate user history bonus (0-100)
+   */
+  private calculateUserHistoryBonus(creator: any, favorites: FavoriteProfile[] | null): FactorResult {
+    if (!favorites) return { score: 0, reasons: ['No user to compare with'] };
+    if (favorites.length === 0) return { score: 0, reasons: ['User has no favorites yet'] };
 
-      let matchScore = 0;
+    const reasons: string[] = [];
+    let matchScore = 0;
 
-      // Platform match
-      const platformMatch = userFavorites.filter(f => f.streamer.platform === creator.platform).length;
-      matchScore += (platformMatch / userFavorites.length) * 40;
+    // Platform match
+    const platformMatch = favorites.filter(f => f.platform === creator.platform).length;
+    matchScore += (platformMatch / favorites.length) * 40;
 
-      // Region match
-      const regionMatch = userFavorites.filter(f => f.streamer.region === creator.region).length;
-      matchScore += (regionMatch / userFavorites.length) * 30;
+    // Region match
+    const regionMatch = favorites.filter(f => f.region === creator.region).length;
+    matchScore += (regionMatch / favorites.length) * 30;
 
-      // Category match
-      const categoryMatch = userFavorites.filter(f => f.streamer.inferredCategory === creator.inferredCategory).length;
-      matchScore += (categoryMatch / userFavorites.length) * 30;
+    // Category match
+    const categoryMatch = favorites.filter(f => f.inferredCategory === creator.inferredCategory).length;
+    matchScore += (categoryMatch / favorites.length) * 30;
 
-      return Math.min(100, matchScore);
-    } catch (error) {
-      logger.error('Error calculating user history bonus:', error);
-      return 0;
-    }
+    reasons.push(
+      `Same platform as ${platformMatch}/${favorites.length} favorites`,
+      `Same region as ${regionMatch}/${favorites.length}`,
+      `Same category as ${categoryMatch}/${favorites.length}`
+    );
+
+    return { score: Math.min(100, matchScore), reasons };
   }
 
   /**
@@ -235,11 +335,69 @@ class AutoRecommendationService {
   async getRecommendations(
     criteria: CampaignCriteria,
     userId?: string
-  ): Promise<RecommendedCreator[]> {
+  ): Promise<RecommendationResult> {
+    const profile = await recommendationProfileService.resolve(criteria.profile);
+    return this.recommend(criteria, profile, userId);
+  }
+
+  /**
+   * Recommendations under the current profile and under a proposed (unsaved)
+   * version of it, with how each creator's rank would move
+   */
+  async previewProfile(
+    criteria: CampaignCriteria,
+    proposed: RecommendationProfileInput,
+    userId?: string
+  ): Promise<ProfilePreview> {
+    const baseline = await recommendationProfileService.resolve(criteria.profile);
+    const proposedProfile: ResolvedProfile = {
+      ...baseline,
+      name: `${baseline.name} (proposed)`,
+      config: normalizeProfileConfig({
+        weights: { ...baseline.config.weights, ...(proposed.weights || {}) },
+        tierRanges: { ...baseline.config.tierRanges, ...(proposed.tierRanges || {}) },
+        diversityTargets: { ...baseline.config.diversityTargets, ...(proposed.diversityTargets || {}) },
+        rateCard: proposed.rateCard ?? baseline.config.rateCard,
+        exclusions: proposed.exclusions ?? baseline.config.exclusions,
+      }),
+    };
+
+    const [current, next] = await Promise.all([
+      this.recommend(criteria, baseline, userId),
+      this.recommend(criteria, proposedProfile, userId),
+    ]);
+
+    const currentRanks = new Map(current.recommendations.map((r, i) => [r.id, i + 1]));
+    const proposedRanks = new Map(next.recommendations.map((r, i) => [r.id, i + 1]));
+    const names = new Map([...current.recommendations, ...next.recommendations].map(r => [r.id, r.displayName]));
+
+    const changes = [...names.keys()].map(id => {
+      const currentRank = currentRanks.get(id) ?? null;
+      const proposedRank = proposedRanks.get(id) ?? null;
+      return {
+        id,
+        displayName: names.get(id)!,
+        currentRank,
+        proposedRank,
+        movement: currentRank !== null && proposedRank !== null ? currentRank - proposedRank : null,
+      };
+    }).sort((a, b) => (a.proposedRank ?? Infinity) - (b.proposedRank ?? Infinity) || (a.currentRank ?? Infinity) - (b.currentRank ?? Infinity));
+
+    return { current, proposed: next, changes };
+  }
+
+  private async recommend(
+    criteria: CampaignCriteria,
+    profile: ResolvedProfile,
+    userId?: string
+  ): Promise<RecommendationResult> {
     const totalCount = criteria.totalCount || 20;
+    const { config } = profile;
+    const { exclusions } = config;
 
     // Build base query
     const where: any = {};
+    const and: any[] = [];
 
     if (criteria.region) {
       where.region = criteria.region.toUpperCase();
@@ -257,6 +415,32 @@ class AutoRecommendationService {
       where.igamingScore = { gte: criteria.minIgamingScore };
     }
 
+    // Creators below every tier are too small for the profile
+    where.followers = { gte: Math.min(...CREATOR_TIERS.map(t => config.tierRanges[t].min)) };
+
+    // Profile exclusions
+    if (exclusions.platforms?.length) {
+      and.push({ platform: { notIn: exclusions.platforms.map(p => p.toUpperCase()) } });
+    }
+    if (exclusions.regions?.length) {
+      and.push({ region: { notIn: exclusions.regions.map(r => r.toUpperCase()) } });
+    }
+    if (exclusions.categories?.length) {
+      and.push({ OR: [{ inferredCategory: null }, { inferredCategory: { notIn: exclusions.categories } }] });
+    }
+    if (exclusions.streamerIds?.length) {
+      and.push({ id: { notIn: exclusions.streamerIds } });
+    }
+    if (exclusions.minBrandSafetyScore) {
+      and.push({ brandSafetyScore: { gte: exclusions.minBrandSafetyScore } });
+    }
+    if (exclusions.excludeFlagged) {
+      and.push({ fraudCheck: { not: 'FLAGGED' } });
+    }
+    if (and.length > 0) {
+      where.AND = and;
+    }
+
     // Fetch candidates (more than needed for diversity selection)
     const candidates = await db.streamer.findMany({
       where,
@@ -267,7 +451,9 @@ class AutoRecommendationService {
         username: true,
         avatarUrl: true,
         followers: true,
+        avgViewers: true,
         region: true,
+        inferredCountry: true,
         inferredCategory: true,
         igamingScore: true,
         gamblingCompatibility: true,
@@ -285,48 +471,74 @@ class AutoRecommendationService {
       take: totalCount * 5, // Fetch more for diversity selection
     });
 
+    // Never recommend creators whose primary market forbids the campaign vertical
+    const complianceVertical = criteria.vertical || (criteria.requireGamblingCompatible ? 'igaming' : undefined);
+    const { allowed, excluded } = await jurisdictionService.screen(candidates, complianceVertical, {
+      strict: criteria.strictCompliance,
+    });
+
+    const favorites = await this.loadFavorites(userId);
+    const estimateRate = criteria.budget ? await rateEstimationService.estimator() : null;
+    const deliverable = criteria.deliverable || 'INTEGRATION';
+
     // Score all candidates
-    const scoredCandidates = await Promise.all(
-      candidates.map(async (creator) => {
-        const verticalFit = this.calculateVerticalFitScore(creator, criteria);
-        const historicalPerformance = this.calculateHistoricalPerformanceScore(creator);
-        const brandSafety = this.calculateBrandSafetyScore(creator);
-        const budgetAlignment = this.calculateBudgetAlignmentScore(creator, criteria.budget);
-        const userHistoryBonus = await this.calculateUserHistoryBonus(creator, userId);
-
-        const totalScore =
-          verticalFit * WEIGHTS.verticalFit +
-          historicalPerformance * WEIGHTS.historicalPerformance +
-          brandSafety * WEIGHTS.brandSafety +
-          budgetAlignment * WEIGHTS.budgetAlignment +
-          userHistoryBonus * WEIGHTS.userHistoryBonus;
-
-        return {
-          id: creator.id,
-          displayName: creator.displayName,
-          platform: creator.platform,
-          username: creator.username,
-          avatarUrl: creator.avatarUrl,
-          followers: creator.followers,
-          region: creator.region,
-          igamingScore: creator.igamingScore,
-          gamblingCompatibility: creator.gamblingCompatibility,
-          brandSafetyScore: creator.brandSafetyScore,
-          score: Math.round(totalScore * 100) / 100,
-          tier: this.getTier(creator.followers),
-          scoreBreakdown: {
-            verticalFit: Math.round(verticalFit),
-            historicalPerformance: Math.round(historicalPerformance),
-            brandSafety: Math.round(brandSafety),
-            budgetAlignment: Math.round(budgetAlignment),
-            userHistoryBonus: Math.round(userHistoryBonus),
-          },
-        };
-      })
-    );
+    const scoredCandidates = allowed.map((creator): RecommendedCreator => {
+      const factors: Record<RecommendationFactor, FactorResult> = {
+        verticalFit: this.calculateVerticalFitScore(creator, criteria),
+        historicalPerformance: this.calculateHistoricalPerformanceScore(creator),
+        brandSafety: this.calculateBrandSafetyScore(creator),
+        budgetAlignment: this.calculateBudgetAlignmentScore(
+          creator,
+          config,
+          criteria.budget,
+          estimateRate?.({ ...creator, category: creator.inferredCategory }, deliverable) ?? null
+        ),
+        userHistoryBonus: this.calculateUserHistoryBonus(creator, favorites),
+      };
+
+      const explanation = (Object.keys(factors) as RecommendationFactor[]).map(factor => ({
+        factor,
+        score: Math.round(factors[factor].score),
+        weight: round(config.weights[factor], 4),
+        contribution: round(factors[factor].score * config.weights[factor], 2),
+        reasons: factors[factor].reasons,
+      }));
+      const totalScore = explanation.reduce(
+        (sum, e) => sum + factors[e.factor].score * config.weights[e.factor],
+        0
+      );
+
+      return {
+        id: creator.id,
+        displayName: creator.displayName,
+        platform: creator.platform,
+        username: creator.username,
+        avatarUrl: creator.avatarUrl,
+        followers: creator.followers,
+        region: creator.region,
+        igamingScore: creator.igamingScore,
+        gamblingCompatibility: creator.gamblingCompatibility,
+        brandSafetyScore: creator.brandSafetyScore,
+        score: round(totalScore, 2),
+        tier: this.getTier(creator.followers, config),
+        scoreBreakdown: Object.fromEntries(explanation.map(e => [e.factor, e.score])) as Record<RecommendationFactor, number>,
+        explanation,
+        compliance: creator.compliance,
+      };
+    });
 
     // Apply diversity selection
-    return this.applyDiversitySelection(scoredCandidates, totalCount);
+    return {
+      profile: { id: profile.id, slug: profile.slug, name: profile.name },
+      recommendations: this.applyDiversitySelection(scoredCandidates, totalCount, config),
+      excluded: excluded.map(c => ({
+        id: c.id,
+        displayName: c.displayName,
+        platform: c.platform,
+        region: c.region,
+        compliance: c.compliance,
+      })),
+    };
   }
 
   /**
@@ -334,10 +546,11 @@ class AutoRecommendationService {
    */
   private applyDiversitySelection(
     candidates: RecommendedCreator[],
-    totalCount: number
+    totalCount: number,
+    config: RecommendationProfileConfig
   ): RecommendedCreator[] {
     // Group by tier
-    const byTier: Record<string, RecommendedCreator[]> = {
+    const byTier: Record<CreatorTier, RecommendedCreator[]> = {
       nano: [],
       micro: [],
       mid: [],
@@ -349,23 +562,15 @@ class AutoRecommendationService {
     });
 
     // Sort each tier by score
-    Object.keys(byTier).forEach((tier) => {
+    CREATOR_TIERS.forEach((tier) => {
       byTier[tier].sort((a, b) => b.score - a.score);
     });
 
-    // Select according to diversity targets
+    // First pass: fill each tier's share of the diversity targets
     const result: RecommendedCreator[] = [];
-    const targetCounts = {
-      nano: Math.round(totalCount * DIVERSITY_TARGETS.nano),
-      micro: Math.round(totalCount * DIVERSITY_TARGETS.micro),
-      mid: Math.round(totalCount * DIVERSITY_TARGETS.mid),
-      macro: Math.round(totalCount * DIVERSITY_TARGETS.macro),
-    };
-
-    // First pass: fill targets
-    Object.entries(targetCounts).forEach(([tier, target]) => {
-      const available = byTier[tier].slice(0, target);
-      result.push(...available);
+    CREATOR_TIERS.forEach((tier) => {
+      const target = Math.round(totalCount * config.diversityTargets[tier]);
+      result.push(...byTier[tier].slice(0, target));
     });
 
     // Second pass: fill remaining slots with highest scoring from any tier
@@ -388,14 +593,16 @@ class AutoRecommendationService {
   async getQuickRecommendations(
     vertical: string,
     region?: string,
-    count: number = 10
-  ): Promise<RecommendedCreator[]> {
+    count: number = 10,
+    profile?: string
+  ): Promise<RecommendationResult> {
     const criteria: CampaignCriteria = {
       vertical,
       region,
       totalCount: count,
       requireGamblingCompatible: vertical.toLowerCase() === 'igaming',
       minIgamingScore: vertical.toLowerCase() === 'igaming' ? 60 : undefined,
+      profile,
     };
 
     return this.getRecommendations(criteria);
@@ -407,7 +614,7 @@ class AutoRecommendationService {
   async getRecommendationsForCampaign(
     campaignId: string,
     userId: string
-  ): Promise<RecommendedCreator[]> {
+  ): Promise<RecommendationResult> {
     const campaign = await db.campaign.findUnique({
       where: { id: campaignId },
     });
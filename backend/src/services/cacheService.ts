@@ -0,0 +1,456 @@
+import { createClient } from 'redis';
+import { logger } from '../utils/database';
+
+/**
+ * CacheService
+ *
+ * Shared state that has to agree across API instances: rate-limit counters,
+ * discovery dedup sets, platform OAuth tokens and cached API responses.
+ *
+ * Backed by REDIS_URL (the Redis Bull already uses) when it's set. Without it,
+ * and whenever Redis is unreachable, every call falls back to an in-process
+ * store - a single instance keeps working, it just stops sharing.
+ *
+ * Response caches are grouped in namespaces ('streamers', 'dashboard').
+ * invalidate() bumps the namespace version, so every cached response in it
+ * misses at once without scanning keys; old entries age out on their TTL.
+ */
+
+type RedisClient = ReturnType<typeof createClient>;
+
+export interface CounterResult {
+  count: number;
+  ttlMs: number;
+}
+
+export const CACHE_NAMESPACES = {
+  STREAMERS: 'streamers',
+  DASHBOARD: 'dashboard',
+} as const;
+
+const KEY_PREFIX = 'discovery:';
+const SET_CHUNK_SIZE = 1000;
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+interface MemoryEntry {
+  value: string | Set<string>;
+  expiresAt: number | null;
+}
+
+/**
+ * In-process stand-in with the same semantics as the Redis commands used below
+ */
+class MemoryStore {
+  private entries = new Map<string, MemoryEntry>();
+  private sweepTimer: NodeJS.Timeout | null = null;
+
+  private read(key: string): MemoryEntry | undefined {
+    const entry = this.entries.get(key);
+    if (entry && entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  private write(key: string, value: string | Set<string>, ttlMs?: number): void {
+    this.entries.set(key, { value, expiresAt: ttlMs ? Date.now() + ttlMs : null });
+    this.scheduleSweep();
+  }
+
+  // Expired keys are otherwise only dropped when read again
+  private scheduleSweep(): void {
+    if (this.sweepTimer) return;
+    this.sweepTimer = setInterval(() => {
+      const now = Date.now();
+      for (const [key, entry] of this.entries) {
+        if (entry.expiresAt !== null && entry.expiresAt <= now) this.entries.delete(key);
+      }
+    }, SWEEP_INTERVAL_MS);
+    this.sweepTimer.unref();
+  }
+
+  private getSet(key: string): Set<string> | undefined {
+    const entry = this.read(key);
+    return entry && entry.value instanceof Set ? entry.value : undefined;
+  }
+
+  get(key: string): string | null {
+    const entry = this.read(key);
+    return entry && typeof entry.value === 'string' ? entry.value : null;
+  }
+
+  set(key: string, value: string, ttlMs?: number): void {
+    this.write(key, value, ttlMs);
+  }
+
+  setIfAbsent(key: string, value: string, ttlMs: number): boolean {
+    if (this.read(key)) return false;
+    this.write(key, value, ttlMs);
+    return true;
+  }
+
+  take(key: string): string | null {
+    const value = this.get(key);
+    this.entries.delete(key);
+    return value;
+  }
+
+  del(keys: string[]): void {
+    for (const key of keys) this.entries.delete(key);
+  }
+
+  ttl(key: string): number {
+    const entry = this.read(key);
+    if (!entry) return -2;
+    return entry.expiresAt === null ? -1 : entry.expiresAt - Date.now();
+  }
+
+  increment(key: string, windowMs?: number): CounterResult {
+    const entry = this.read(key);
+    const count = (entry && typeof entry.value === 'string' ? parseInt(entry.value, 10) || 0 : 0) + 1;
+    if (entry) {
+      entry.value = String(count);
+    } else {
+      this.write(key, String(count), windowMs);
+    }
+    return { count, ttlMs: this.ttl(key) };
+  }
+
+  decrement(key: string): void {
+    const entry = this.read(key);
+    if (entry && typeof entry.value === 'string') {
+      entry.value = String((parseInt(entry.value, 10) || 0) - 1);
+    }
+  }
+
+  addToSet(key: string, members: string[]): void {
+    const existing = this.getSet(key);
+    if (existing) {
+      members.forEach(m => existing.add(m));
+    } else {
+      this.write(key, new Set(members));
+    }
+  }
+
+  replaceSet(key: string, members: string[]): void {
+    this.write(key, new Set(members));
+  }
+
+  membersOf(key: string, members: string[]): boolean[] {
+    const existing = this.getSet(key);
+    return members.map(m => existing?.has(m) ?? false);
+  }
+
+  setSize(key: string): number {
+    return this.getSet(key)?.size ?? 0;
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+export class CacheService {
+  private memory = new MemoryStore();
+  private client: RedisClient | null = null;
+  private connecting: Promise<void> | null = null;
+  private redisDown = false;
+
+  /**
+   * True while commands are going to Redis (false = in-process fallback)
+   */
+  get isShared(): boolean {
+    return !!this.client?.isReady;
+  }
+
+  /**
+   * Connect to REDIS_URL if configured. Safe to call repeatedly; commands
+   * issued before the connection is ready use the in-process store.
+   */
+  connect(): Promise<void> {
+    const url = process.env.REDIS_URL;
+    if (this.connecting) return this.connecting;
+    if (!url) return Promise.resolve();
+
+    const client = createClient({
+      url,
+      // Fail fast during an outage (and fall back) rather than queue until Redis returns
+      disableOfflineQueue: true,
+      socket: {
+        connectTimeout: 5000,
+        // Keep retrying in the background; the fallback covers the gap
+        reconnectStrategy: (retries) => Math.min(retries * 500, 10000),
+      },
+    });
+
+    client.on('ready', () => {
+      if (this.redisDown) logger.info('✅ Cache: Redis connection restored');
+      this.redisDown = false;
+    });
+    client.on('error', (error: Error) => {
+      // Logged once per outage, not once per reconnect attempt
+      if (!this.redisDown) {
+        logger.warn(`Cache: Redis unavailable, using in-process fallback (${error.message})`);
+        this.redisDown = true;
+      }
+    });
+
+    this.client = client;
+    // client.connect() keeps retrying while Redis is down, so settle on the
+    // first ready/error instead of waiting for it
+    this.connecting = new Promise<void>(resolve => {
+      client.once('ready', () => {
+        logger.info('✅ Cache: connected to Redis');
+        resolve();
+      });
+      client.once('error', () => resolve());
+      client.connect().catch(() => resolve());
+    });
+
+    return this.connecting;
+  }
+
+  async disconnect(): Promise<void> {
+    const client = this.client;
+    if (!client) return;
+    this.client = null;
+    this.connecting = null;
+    try {
+      if (client.isReady) {
+        await client.quit();
+      } else {
+        await client.disconnect();
+      }
+    } catch {
+      // already closed
+    }
+  }
+
+  /**
+   * Run a Redis command, or the in-process equivalent when Redis isn't ready
+   */
+  private async run<T>(redisOp: (client: RedisClient) => Promise<T>, memoryOp: (store: MemoryStore) => T): Promise<T> {
+    if (!this.connecting) void this.connect();
+
+    const client = this.client;
+    if (client?.isReady) {
+      try {
+        return await redisOp(client);
+      } catch (error: any) {
+        logger.debug(`Cache: Redis command failed, using in-process fallback (${error?.message})`);
+      }
+    }
+    return memoryOp(this.memory);
+  }
+
+  private key(key: string): string {
+    return KEY_PREFIX + key;
+  }
+
+  // ==================== STRINGS ====================
+
+  async get(key: string): Promise<string | null> {
+    const k = this.key(key);
+    return this.run(c => c.get(k), m => m.get(k));
+  }
+
+  async set(key: string, value: string, ttlSeconds?: number): Promise<void> {
+    const k = this.key(key);
+    const ttlMs = ttlSeconds ? Math.round(ttlSeconds * 1000) : undefined;
+    await this.run(
+      async c => { await c.set(k, value, ttlMs ? { PX: ttlMs } : undefined); },
+      m => m.set(k, value, ttlMs)
+    );
+  }
+
+  /**
+   * SET NX - true if this caller claimed the key
+   */
+  async setIfAbsent(key: string, value: string, ttlMs: number): Promise<boolean> {
+    const k = this.key(key);
+    return this.run(
+      async c => (await c.set(k, value, { PX: ttlMs, NX: true })) === 'OK',
+      m => m.setIfAbsent(k, value, ttlMs)
+    );
+  }
+
+  /**
+   * GETDEL - read and remove in one step, so only one caller gets the value
+   */
+  async take(key: string): Promise<string | null> {
+    const k = this.key(key);
+    return this.run(c => c.getDel(k), m => m.take(k));
+  }
+
+  async del(...keys: string[]): Promise<void> {
+    const ks = keys.map(k => this.key(k));
+    if (ks.length === 0) return;
+    await this.run(async c => { await c.del(ks); }, m => m.del(ks));
+  }
+
+  /**
+   * Milliseconds until the key expires (-1 = no expiry, -2 = missing)
+   */
+  async ttl(key: string): Promise<number> {
+    const k = this.key(key);
+    return this.run(c => c.pTTL(k), m => m.ttl(k));
+  }
+
+  async getJson<T>(key: string): Promise<T | null> {
+    const raw = await this.get(key);
+    if (raw === null) return null;
+    try {
+      return JSON.parse(raw) as T;
+    } catch {
+      return null;
+    }
+  }
+
+  async takeJson<T>(key: string): Promise<T | null> {
+    const raw = await this.take(key);
+    if (raw === null) return null;
+    try {
+      return JSON.parse(raw) as T;
+    } catch {
+      return null;
+    }
+  }
+
+  async setJson(key: string, value: unknown, ttlSeconds?: number): Promise<void> {
+    await this.set(key, JSON.stringify(value), ttlSeconds);
+  }
+
+  // ==================== COUNTERS ====================
+
+  /**
+   * Increment a fixed-window counter. The window starts with the first hit
+   * and the key expires with it.
+   */
+  async increment(key: string, windowMs: number): Promise<CounterResult> {
+    const k = this.key(key);
+    return this.run(
+      async c => {
+        const [, count, ttlMs] = await c.multi()
+          .set(k, '0', { PX: windowMs, NX: true })
+          .incr(k)
+          .pTTL(k)
+          .exec();
+        return { count: Number(count), ttlMs: Number(ttlMs) };
+      },
+      m => m.increment(k, windowMs)
+    );
+  }
+
+  async decrement(key: string): Promise<void> {
+    const k = this.key(key);
+    await this.run(
+      async c => {
+        // Only touch live windows; DECR on a missing key would create one with no TTL
+        if (await c.exists(k)) await c.decr(k);
+      },
+      m => m.decrement(k)
+    );
+  }
+
+  // ==================== SETS ====================
+
+  async addToSet(key: string, members: string[]): Promise<void> {
+    const k = this.key(key);
+    if (members.length === 0) return;
+    await this.run(
+      async c => {
+        for (let i = 0; i < members.length; i += SET_CHUNK_SIZE) {
+          await c.sAdd(k, members.slice(i, i + SET_CHUNK_SIZE));
+        }
+      },
+      m => m.addToSet(k, members)
+    );
+  }
+
+  /**
+   * Swap in a new set atomically (built under a temp key, then renamed), so
+   * readers never see it half-loaded
+   */
+  async replaceSet(key: string, members: string[]): Promise<void> {
+    const k = this.key(key);
+    const tmp = `${k}:loading:${process.pid}:${Date.now()}`;
+    await this.run(
+      async c => {
+        if (members.length === 0) {
+          await c.del(k);
+          return;
+        }
+        for (let i = 0; i < members.length; i += SET_CHUNK_SIZE) {
+          await c.sAdd(tmp, members.slice(i, i + SET_CHUNK_SIZE));
+        }
+        await c.rename(tmp, k);
+      },
+      m => m.replaceSet(k, members)
+    );
+  }
+
+  async isMember(key: string, member: string): Promise<boolean> {
+    return (await this.areMembers(key, [member]))[0];
+  }
+
+  async areMembers(key: string, members: string[]): Promise<boolean[]> {
+    const k = this.key(key);
+    if (members.length === 0) return [];
+    return this.run(
+      async c => (await c.smIsMember(k, members)).map(Boolean),
+      m => m.membersOf(k, members)
+    );
+  }
+
+  async setSize(key: string): Promise<number> {
+    const k = this.key(key);
+    return this.run(c => c.sCard(k), m => m.setSize(k));
+  }
+
+  // ==================== RESPONSE CACHE ====================
+
+  private versionKey(namespace: string): string {
+    return `cache:version:${namespace}`;
+  }
+
+  /**
+   * Key for a cached entry in a namespace, under its current version
+   */
+  async namespacedKey(namespace: string, key: string): Promise<string> {
+    const version = (await this.get(this.versionKey(namespace))) || '0';
+    return `cache:${namespace}:v${version}:${key}`;
+  }
+
+  /**
+   * Drop every cached entry in the given namespaces. Never throws - a failed
+   * invalidation must not fail the write that triggered it.
+   */
+  async invalidate(...namespaces: string[]): Promise<void> {
+    for (const namespace of namespaces) {
+      const k = this.key(this.versionKey(namespace));
+      try {
+        await this.run(async c => { await c.incr(k); }, m => { m.increment(k); });
+      } catch (error: any) {
+        logger.warn(`Cache: failed to invalidate ${namespace}`, { message: error?.message });
+      }
+    }
+  }
+
+  /**
+   * Creator data changed (live status, profile fields, rows added/removed),
+   * or a user's favorites, discards or outreach that listings filter on
+   */
+  async invalidateCreators(): Promise<void> {
+    await this.invalidate(CACHE_NAMESPACES.STREAMERS, CACHE_NAMESPACES.DASHBOARD);
+  }
+
+  /**
+   * Empty the in-process store (tests)
+   */
+  clearLocal(): void {
+    this.memory.clear();
+  }
+}
+
+export const cacheService = new CacheService();
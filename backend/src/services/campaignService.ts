@@ -0,0 +1,218 @@
+import { CampaignStatus, Prisma } from '@prisma/client';
+import { db, logger } from '../utils/database';
+import { AppError } from '../middleware/errorHandler';
+
+/**
+ * CampaignService
+ *
+ * Campaign lifecycle helpers shared by the campaign routes:
+ * - Budget/date window checks (a campaign only accepts creators while open)
+ * - Rule evaluation against a creator before assignment
+ * - Assignment status transitions (PENDING -> ACTIVE -> COMPLETED, CANCELLED)
+ */
+
+export type CampaignRuleOperator = 'equals' | 'gt' | 'gte' | 'lt' | 'lte' | 'contains' | 'in';
+
+export interface CampaignRule {
+  field: string;
+  operator: CampaignRuleOperator;
+  value: any;
+}
+
+export interface RuleResult {
+  rule: CampaignRule;
+  passed: boolean;
+  actual: any;
+}
+
+// Allowed assignment status transitions
+const STATUS_TRANSITIONS: Record<CampaignStatus, CampaignStatus[]> = {
+  PENDING: ['ACTIVE', 'CANCELLED'],
+  ACTIVE: ['COMPLETED', 'CANCELLED'],
+  COMPLETED: [],
+  CANCELLED: ['PENDING'],
+};
+
+// Live metrics returned for each assigned creator
+export const ASSIGNED_STREAMER_SELECT = {
+  id: true,
+  platform: true,
+  username: true,
+  displayName: true,
+  profileUrl: true,
+  avatarUrl: true,
+  region: true,
+  followers: true,
+  isLive: true,
+  currentViewers: true,
+  currentGame: true,
+  highestViewers: true,
+  avgViewers: true,
+  engagementRate: true,
+  lastSeenLive: true,
+  lastStreamed: true,
+  igamingScore: true,
+  brandSafetyScore: true,
+} satisfies Prisma.StreamerSelect;
+
+class CampaignService {
+  /**
+   * Validate that startDate/endDate form a proper window
+   */
+  assertValidWindow(startDate?: Date | null, endDate?: Date | null): void {
+    if (startDate && endDate && new Date(endDate) < new Date(startDate)) {
+      throw new AppError('endDate must be on or after startDate', 400);
+    }
+  }
+
+  /**
+   * Whether a campaign is currently accepting creators
+   */
+  isOpen(campaign: { isActive: boolean; startDate: Date | null; endDate: Date | null }, at: Date = new Date()): boolean {
+    if (!campaign.isActive) return false;
+    if (campaign.startDate && campaign.startDate > at) return false;
+    if (campaign.endDate && campaign.endDate < at) return false;
+    return true;
+  }
+
+  /**
+   * Evaluate campaign rules against a creator
+   */
+  evaluateRules(rules: CampaignRule[], streamer: Record<string, any>): RuleResult[] {
+    return rules.map(rule => {
+      const actual = streamer[rule.field];
+      return { rule, passed: this.matchRule(rule, actual), actual };
+    });
+  }
+
+  private matchRule(rule: CampaignRule, actual: any): boolean {
+    if (actual === undefined || actual === null) return false;
+
+    const normalize = (v: any) => (typeof v === 'string' ? v.toLowerCase() : v);
+
+    switch (rule.operator) {
+      case 'equals':
+        return normalize(actual) === normalize(rule.value);
+      case 'gt':
+        return Number(actual) > Number(rule.value);
+      case 'gte':
+        return Number(actual) >= Number(rule.value);
+      case 'lt':
+        return Number(actual) < Number(rule.value);
+      case 'lte':
+        return Number(actual) <= Number(rule.value);
+      case 'contains':
+        if (Array.isArray(actual)) {
+          return actual.some(v => normalize(v) === normalize(rule.value));
+        }
+        return String(actual).toLowerCase().includes(String(rule.value).toLowerCase());
+      case 'in':
+        if (!Array.isArray(rule.value)) return false;
+        return rule.value.map(normalize).includes(normalize(actual));
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Assign a creator to a campaign, enforcing the window and rules
+   */
+  async assignStreamer(params: {
+    campaignId: string;
+    streamerId: string;
+    assignedBy: string;
+    notes?: string | null;
+    force?: boolean;
+  }) {
+    const { campaignId, streamerId, assignedBy, notes, force = false } = params;
+
+    const [campaign, streamer] = await Promise.all([
+      db.campaign.findUnique({ where: { id: campaignId } }),
+      db.streamer.findUnique({ where: { id: streamerId } }),
+    ]);
+
+    if (!campaign) throw new AppError('Campaign not found', 404);
+    if (!streamer) throw new AppError('Streamer not found', 404);
+
+    if (!this.isOpen(campaign)) {
+      throw new AppError('Campaign is not accepting creators (inactive, not started or ended)', 400);
+    }
+
+    const rules = (Array.isArray(campaign.rules) ? campaign.rules : []) as unknown as CampaignRule[];
+    const ruleResults = this.evaluateRules(rules, streamer);
+    const failed = ruleResults.filter(r => !r.passed);
+
+    // Caller decides how to surface rule failures (force overrides them)
+    if (failed.length > 0 && !force) {
+      return { assignment: null, ruleResults, failedRules: failed };
+    }
+
+    const existing = await db.streamerCampaign.findUnique({
+      where: { streamerId_campaignId: { streamerId, campaignId } },
+    });
+
+    if (existing) {
+      throw new AppError('Creator is already assigned to this campaign', 409);
+    }
+
+    // New assignments always start PENDING; later moves go through transitionStatus
+    const assignment = await db.streamerCampaign.create({
+      data: { campaignId, streamerId, assignedBy, status: CampaignStatus.PENDING, notes: notes || null },
+      include: { streamer: { select: ASSIGNED_STREAMER_SELECT } },
+    });
+
+    logger.info('Creator assigned to campaign', { campaignId, streamerId, assignedBy, forced: failed.length > 0 });
+
+    return { assignment, ruleResults, failedRules: failed };
+  }
+
+  /**
+   * Move an assignment to a new status, enforcing allowed transitions
+   */
+  async transitionStatus(campaignId: string, streamerId: string, nextStatus: CampaignStatus, notes?: string | null) {
+    const assignment = await db.streamerCampaign.findUnique({
+      where: { streamerId_campaignId: { streamerId, campaignId } },
+    });
+
+    if (!assignment) throw new AppError('Assignment not found', 404);
+
+    if (assignment.status !== nextStatus && !STATUS_TRANSITIONS[assignment.status].includes(nextStatus)) {
+      throw new AppError(`Cannot move assignment from ${assignment.status} to ${nextStatus}`, 400);
+    }
+
+    return db.streamerCampaign.update({
+      where: { id: assignment.id },
+      data: {
+        status: nextStatus,
+        ...(notes !== undefined ? { notes: notes || null } : {}),
+      },
+      include: { streamer: { select: ASSIGNED_STREAMER_SELECT } },
+    });
+  }
+
+  /**
+   * Allowed next statuses for an assignment
+   */
+  getAllowedTransitions(status: CampaignStatus): CampaignStatus[] {
+    return STATUS_TRANSITIONS[status];
+  }
+
+  /**
+   * Status counts for one campaign (or all campaigns)
+   */
+  async getStatusCounts(campaignId?: string): Promise<Record<CampaignStatus, number>> {
+    const groups = await db.streamerCampaign.groupBy({
+      by: ['status'],
+      where: campaignId ? { campaignId } : undefined,
+      _count: { _all: true },
+    });
+
+    const counts: Record<CampaignStatus, number> = { ACTIVE: 0, PENDING: 0, COMPLETED: 0, CANCELLED: 0 };
+    for (const g of groups) {
+      counts[g.status] = g._count._all;
+    }
+    return counts;
+  }
+}
+
+export const campaignService = new CampaignService();
@@ -0,0 +1,388 @@
+import { ContactStatus, ContactType, DiscoveryCreatorContact, Prisma } from '@prisma/client';
+import { db, logger } from '../utils/database';
+import { AppError } from '../middleware/errorHandler';
+import { mxResolvers, MxResolver } from '../contacts/mxResolver';
+import { auditService } from './auditService';
+
+/**
+ * ContactService
+ *
+ * Collects every way to reach a creator into discovery_creator_contacts: emails
+ * and manager/agency emails from profile texts, Discord, Telegram and WhatsApp
+ * from texts and external links, plus the email fields the web enrichment
+ * fills. Each contact is checked (syntax, disposable/placeholder domains and,
+ * for emails, whether the domain has a mail server via the MX resolver) and
+ * gets a 0-100 confidence that it reaches the creator's team.
+ *
+ * The contact job scans creators whose enrichment changed since their last
+ * scan and re-checks contacts that haven't been verified for a while.
+ *
+ * Contacts are shared by every user, so removing one only marks it INVALID
+ * (audited); the row stays so the next scan doesn't extract it again.
+ */
+
+export interface ExtractedContact {
+  type: ContactType;
+  value: string;
+  source: string;
+  context: string | null;
+}
+
+export interface ContactCheck {
+  status: ContactStatus;
+  detail: string;
+  confidence: number;
+}
+
+export interface ContactInput {
+  type: ContactType;
+  value: string;
+  label?: string | null;
+}
+
+// Source of a contact that was typed in by the team rather than extracted
+export const MANUAL_SOURCE = 'manual';
+const REVERIFY_AFTER_DAYS = 30;
+const CONTEXT_CHARS = 80;
+
+const EMAIL_PATTERN = /[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}/g;
+const DISCORD_PATTERN = /(?:https?:\/\/)?(?:www\.)?(?:discord\.gg|discord(?:app)?\.com\/invite)\/[a-zA-Z0-9-]+/gi;
+const TELEGRAM_PATTERN = /(?:https?:\/\/)?(?:www\.)?(?:t\.me|telegram\.me)\/[a-zA-Z0-9_+]+/gi;
+const WHATSAPP_LINK_PATTERN = /(?:https?:\/\/)?(?:wa\.me\/\+?\d{6,15}|api\.whatsapp\.com\/send\/?\?phone=\+?\d{6,15}|chat\.whatsapp\.com\/[a-zA-Z0-9]+)/gi;
+// "WhatsApp: +52 55 1234 5678" and similar
+const WHATSAPP_NUMBER_PATTERN = /(?:whats\s?app|wpp|wsp)\W{0,6}(\+?\d[\d\s().-]{6,20}\d)/gi;
+
+const MANAGER_KEYWORDS = ['manager', 'management', 'mgmt', 'agency', 'agencia', 'agência', 'representa', 'talent', 'booking'];
+const BUSINESS_KEYWORDS = [
+  'business', 'inquir', 'contact', 'collab', 'sponsor', 'partner', 'promo', 'deal', 'work with',
+  'negocio', 'contacto', 'contato', 'parcer', 'patrocin', 'comercial', 'publicidad', 'publicidade',
+];
+
+const PLACEHOLDER_DOMAINS = new Set(['example.com', 'email.com', 'test.com', 'domain.com', 'yourmail.com', 'sample.com']);
+const DISPOSABLE_DOMAINS = new Set([
+  'mailinator.com', 'guerrillamail.com', '10minutemail.com', 'yopmail.com', 'tempmail.com', 'trashmail.com',
+  'sharklasers.com', 'getnada.com', 'dispostable.com', 'maildrop.cc',
+]);
+const FREE_MAIL_DOMAINS = new Set([
+  'gmail.com', 'googlemail.com', 'hotmail.com', 'hotmail.es', 'outlook.com', 'outlook.es', 'live.com',
+  'yahoo.com', 'yahoo.es', 'yahoo.com.mx', 'yahoo.com.ar', 'icloud.com', 'me.com', 'aol.com',
+  'protonmail.com', 'proton.me', 'gmx.com', 'uol.com.br', 'bol.com.br',
+]);
+const IMAGE_EXTENSIONS = ['.png', '.jpg', '.jpeg', '.gif', '.webp', '.svg'];
+
+const around = (text: string, index: number, length: number) =>
+  text
+    .slice(Math.max(0, index - CONTEXT_CHARS), index + length + CONTEXT_CHARS)
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const mentions = (text: string | null, keywords: string[]) => {
+  const lower = (text || '').toLowerCase();
+  return keywords.some(k => lower.includes(k));
+};
+
+// externalLinks / socialLinks come in several shapes (arrays, {social, external}, objects)
+const jsonStrings = (value: unknown): string[] => {
+  if (typeof value === 'string') return [value];
+  if (Array.isArray(value)) return value.flatMap(jsonStrings);
+  if (value && typeof value === 'object') return Object.values(value).flatMap(jsonStrings);
+  return [];
+};
+
+/**
+ * Canonical form of a contact value, or null when it is malformed
+ */
+export function normalizeContact(type: ContactType, raw: string): string | null {
+  const value = raw.trim();
+  switch (type) {
+    case 'EMAIL':
+    case 'MANAGER': {
+      const email = value.toLowerCase().replace(/^mailto:/, '');
+      if (email.length > 254 || IMAGE_EXTENSIONS.some(ext => email.endsWith(ext))) return null;
+      const match = /^([a-z0-9._%+-]+)@((?:[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,})$/.exec(email);
+      if (!match) return null;
+      const local = match[1];
+      if (local.length > 64 || local.startsWith('.') || local.endsWith('.') || local.includes('..')) return null;
+      return email;
+    }
+    case 'DISCORD': {
+      const invite = /(?:discord\.gg|discord(?:app)?\.com\/invite)\/([a-zA-Z0-9-]{2,})/i.exec(value);
+      if (invite) return `https://discord.gg/${invite[1]}`;
+      // Usernames: 2-32 of lowercase letters, digits, _ and . (legacy name#1234 accepted)
+      const username = value.replace(/^@/, '');
+      if (/^[a-z0-9_.]{2,32}$/i.test(username) || /^[^#@:]{2,32}#\d{4}$/.test(username)) return username.toLowerCase();
+      return null;
+    }
+    case 'TELEGRAM': {
+      const link = /(?:t\.me|telegram\.me)\/([a-zA-Z0-9_+]+)/i.exec(value);
+      const handle = (link ? link[1] : value.replace(/^@/, '')).toLowerCase();
+      // Public usernames are 5-32 characters; t.me/+... are private invite links
+      if (handle.startsWith('+') && handle.length > 5) return `https://t.me/${handle}`;
+      return /^[a-z][a-z0-9_]{4,31}$/.test(handle) ? `@${handle}` : null;
+    }
+    case 'WHATSAPP': {
+      const group = /chat\.whatsapp\.com\/([a-zA-Z0-9]+)/i.exec(value);
+      if (group) return `https://chat.whatsapp.com/${group[1]}`;
+      const digits = value.replace(/^.*(?:wa\.me\/|phone=)/i, '').replace(/[^\d]/g, '');
+      return digits.length >= 8 && digits.length <= 15 ? `+${digits}` : null;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Contacts mentioned in a creator's profile texts, links and email fields
+ */
+export function extractContacts(creator: {
+  profileDescription?: string | null;
+  aboutSection?: string | null;
+  panelTexts?: string[];
+  externalLinks?: unknown;
+  socialLinks?: unknown;
+  email?: string | null;
+  businessEmail?: string | null;
+}): ExtractedContact[] {
+  const found = new Map<string, ExtractedContact>();
+  const add = (type: ContactType, raw: string, source: string, context: string | null) => {
+    const value = normalizeContact(type, raw);
+    if (!value) return;
+    // An address named as the manager's wins over the same address as a plain email
+    const emailKey = `EMAIL:${value}`;
+    if (type === 'MANAGER') found.delete(emailKey);
+    if (type === 'EMAIL' && found.has(`MANAGER:${value}`)) return;
+    const key = `${type}:${value}`;
+    if (!found.has(key)) found.set(key, { type, value, source, context });
+  };
+
+  const texts = [
+    { text: creator.profileDescription || '', source: 'profile_description' },
+    { text: creator.aboutSection || '', source: 'about_section' },
+    ...(creator.panelTexts || []).map(text => ({ text, source: 'panel_text' })),
+  ];
+  for (const { text, source } of texts) {
+    if (!text) continue;
+
+    for (const match of text.matchAll(EMAIL_PATTERN)) {
+      const context = around(text, match.index!, match[0].length);
+      // Manager keyword on the same line as the address
+      const lineEnd = text.indexOf('\n', match.index!);
+      const line = text.slice(text.lastIndexOf('\n', match.index!) + 1, lineEnd === -1 ? undefined : lineEnd);
+      add(mentions(line, MANAGER_KEYWORDS) ? 'MANAGER' : 'EMAIL', match[0], source, context);
+    }
+    for (const match of text.matchAll(DISCORD_PATTERN)) add('DISCORD', match[0], source, around(text, match.index!, match[0].length));
+    for (const match of text.matchAll(TELEGRAM_PATTERN)) add('TELEGRAM', match[0], source, around(text, match.index!, match[0].length));
+    for (const match of text.matchAll(WHATSAPP_LINK_PATTERN)) add('WHATSAPP', match[0], source, around(text, match.index!, match[0].length));
+    for (const match of text.matchAll(WHATSAPP_NUMBER_PATTERN)) add('WHATSAPP', match[1], source, around(text, match.index!, match[0].length));
+  }
+
+  const links = [
+    ...jsonStrings(creator.externalLinks).map(url => ({ url, source: 'external_links' })),
+    ...jsonStrings(creator.socialLinks).map(url => ({ url, source: 'social_links' })),
+  ];
+  for (const { url, source } of links) {
+    if (/^mailto:/i.test(url)) add('EMAIL', url, source, null);
+    else if (/discord/i.test(url)) add('DISCORD', url, source, null);
+    else if (/t\.me\/|telegram\.me\//i.test(url)) add('TELEGRAM', url, source, null);
+    else if (/wa\.me\/|whatsapp\.com\//i.test(url)) add('WHATSAPP', url, source, null);
+  }
+
+  for (const email of [creator.businessEmail, creator.email]) {
+    if (email) add('EMAIL', email, 'email_field', email === creator.businessEmail ? 'business email' : null);
+  }
+
+  return [...found.values()];
+}
+
+/**
+ * Check a normalized contact and score how likely it reaches the creator's team
+ */
+export async function checkContact(
+  contact: { type: ContactType; value: string; source: string; context?: string | null },
+  handle: string | null,
+  resolver: MxResolver = mxResolvers.current()
+): Promise<ContactCheck> {
+  const manual = contact.source === MANUAL_SOURCE;
+  const businessContext = mentions(contact.context ?? null, BUSINESS_KEYWORDS) || contact.context === 'business email';
+
+  if (contact.type === 'EMAIL' || contact.type === 'MANAGER') {
+    const [local, domain] = contact.value.split('@');
+    if (PLACEHOLDER_DOMAINS.has(domain)) return { status: 'INVALID', detail: `Placeholder domain ${domain}`, confidence: 0 };
+    if (DISPOSABLE_DOMAINS.has(domain)) return { status: 'INVALID', detail: `Disposable domain ${domain}`, confidence: 0 };
+
+    const mx = await resolver.lookup(domain);
+    if (mx.status === 'none') return { status: 'INVALID', detail: `${domain} has no mail server`, confidence: 0 };
+
+    let confidence = 30;
+    if (mx.status === 'found') confidence += 35;
+    if (businessContext || contact.type === 'MANAGER') confidence += 15;
+    if (!FREE_MAIL_DOMAINS.has(domain)) confidence += 5;
+    const name = (handle || '').toLowerCase().replace(/[^a-z0-9]/g, '');
+    if (name.length >= 4 && (local.replace(/[^a-z0-9]/g, '').includes(name) || domain.replace(/[^a-z0-9]/g, '').includes(name))) {
+      confidence += 10;
+    }
+    if (manual) confidence += 20;
+
+    return mx.status === 'found'
+      ? { status: 'VALID', detail: `Mail server ${mx.hosts[0]}`, confidence: Math.min(confidence, 100) }
+      : { status: 'RISKY', detail: `Mail server lookup failed (${mx.message})`, confidence: Math.min(confidence, 100) };
+  }
+
+  // Chat handles can't be verified without the platforms' APIs; well-formed is all we know
+  let confidence = 40;
+  if (contact.value.startsWith('https://')) confidence += 15;                   // Invite/link rather than a bare name
+  if (contact.value.startsWith('https://chat.whatsapp.com/')) confidence -= 15; // Group chat, not a person
+  if (businessContext) confidence += 10;
+  if (manual) confidence += 20;
+  return { status: 'VALID', detail: 'Well-formed', confidence: Math.min(confidence, 100) };
+}
+
+const PROFILE_SELECT = {
+  id: true,
+  username: true,
+  profileDescription: true,
+  aboutSection: true,
+  panelTexts: true,
+  externalLinks: true,
+  socialLinks: true,
+  email: true,
+  businessEmail: true,
+} satisfies Prisma.StreamerSelect;
+
+class ContactService {
+  /**
+   * Extract a creator's contacts from their profile, store new ones and check
+   * any that haven't been checked yet (all of them with recheck)
+   */
+  async discoverForCreator(streamerId: string, options: { recheck?: boolean } = {}): Promise<DiscoveryCreatorContact[]> {
+    const creator = await db.streamer.findUnique({ where: { id: streamerId }, select: PROFILE_SELECT });
+    if (!creator) {
+      throw new AppError('Streamer not found', 404);
+    }
+
+    const extracted = extractContacts(creator);
+    if (extracted.length > 0) {
+      await db.discoveryCreatorContact.createMany({
+        data: extracted.map(c => ({ streamerId, type: c.type, value: c.value, source: c.source, context: c.context })),
+        skipDuplicates: true,
+      });
+    }
+    await db.streamer.update({ where: { id: streamerId }, data: { contactsCheckedAt: new Date() } });
+
+    const toCheck = await db.discoveryCreatorContact.findMany({
+      where: { streamerId, removedAt: null, ...(options.recheck ? {} : { status: 'PENDING' }) },
+    });
+    await this.verifyContacts(toCheck, creator.username);
+
+    return this.list(streamerId);
+  }
+
+  /**
+   * Scan creators never scanned or enriched since their last scan, biggest first
+   */
+  async discoverPending(limit: number = 200): Promise<{ creators: number; contacts: number }> {
+    const rows = await db.$queryRaw<Array<{ id: string }>>`
+      SELECT id FROM discovery_creators
+      WHERE (contacts_checked_at IS NULL OR last_enrichment_update > contacts_checked_at)
+        AND (
+          coalesce(profile_description, '') <> '' OR coalesce(about_section, '') <> ''
+          OR cardinality(panel_texts) > 0 OR external_links IS NOT NULL
+          OR email IS NOT NULL OR "socialLinks" <> '[]'::jsonb
+        )
+      ORDER BY followers DESC
+      LIMIT ${limit}
+    `;
+
+    let contacts = 0;
+    for (const { id } of rows) {
+      contacts += (await this.discoverForCreator(id)).length;
+    }
+    logger.info(`📇 Contact scan: ${rows.length} creators, ${contacts} contacts`);
+    return { creators: rows.length, contacts };
+  }
+
+  /**
+   * Re-check contacts not verified in the last REVERIFY_AFTER_DAYS days
+   */
+  async reverifyStale(limit: number = 500): Promise<number> {
+    const cutoff = new Date(Date.now() - REVERIFY_AFTER_DAYS * 24 * 60 * 60 * 1000);
+    const stale = await db.discoveryCreatorContact.findMany({
+      where: { removedAt: null, OR: [{ verifiedAt: null }, { verifiedAt: { lt: cutoff } }] },
+      include: { streamer: { select: { username: true } } },
+      orderBy: { verifiedAt: { sort: 'asc', nulls: 'first' } },
+      take: limit,
+    });
+    for (const contact of stale) {
+      await this.verifyContacts([contact], contact.streamer.username);
+    }
+    return stale.length;
+  }
+
+  /**
+   * A creator's contacts (except removed ones), most promising first
+   */
+  async list(streamerId: string): Promise<DiscoveryCreatorContact[]> {
+    return db.discoveryCreatorContact.findMany({
+      where: { streamerId, removedAt: null },
+      orderBy: [{ confidence: 'desc' }, { createdAt: 'asc' }],
+    });
+  }
+
+  async add(streamerId: string, input: ContactInput, createdBy: string): Promise<DiscoveryCreatorContact> {
+    const creator = await db.streamer.findUnique({ where: { id: streamerId }, select: { username: true } });
+    if (!creator) {
+      throw new AppError('Streamer not found', 404);
+    }
+    const value = normalizeContact(input.type, input.value);
+    if (!value) {
+      throw new AppError(`"${input.value}" is not a valid ${input.type.toLowerCase()} contact`, 400);
+    }
+
+    // Typing in a contact we already extracted (or removed) confirms it
+    const contact = await db.discoveryCreatorContact.upsert({
+      where: { streamerId_type_value: { streamerId, type: input.type, value } },
+      create: { streamerId, type: input.type, value, label: input.label ?? null, source: MANUAL_SOURCE, createdBy },
+      update: { label: input.label ?? undefined, source: MANUAL_SOURCE, createdBy, removedBy: null, removedAt: null },
+    });
+    const [checked] = await this.verifyContacts([contact], creator.username);
+    logger.info(`📇 Contact added for ${creator.username}: ${input.type} by ${createdBy}`);
+    return checked;
+  }
+
+  /**
+   * Mark a contact INVALID and hide it; adding it again by hand restores it
+   */
+  async remove(id: string, removedBy: string): Promise<boolean> {
+    const contact = await db.discoveryCreatorContact.findFirst({ where: { id, removedAt: null } });
+    if (!contact) return false;
+
+    await db.discoveryCreatorContact.update({
+      where: { id },
+      data: { status: 'INVALID', statusDetail: 'Removed by hand', confidence: 0, removedBy, removedAt: new Date() },
+    });
+    await auditService.log({
+      tableName: 'discovery_creator_contacts',
+      recordId: id,
+      action: 'UPDATE',
+      changedBy: removedBy,
+      oldValues: { type: contact.type, value: contact.value, status: contact.status, confidence: contact.confidence },
+      newValues: { status: 'INVALID', removed: true },
+    });
+    logger.info(`📇 Contact ${contact.type} removed from ${contact.streamerId} by ${removedBy}`);
+    return true;
+  }
+
+  private async verifyContacts(contacts: DiscoveryCreatorContact[], handle: string): Promise<DiscoveryCreatorContact[]> {
+    const updated: DiscoveryCreatorContact[] = [];
+    for (const contact of contacts) {
+      const check = await checkContact(contact, handle);
+      updated.push(await db.discoveryCreatorContact.update({
+        where: { id: contact.id },
+        data: { status: check.status, statusDetail: check.detail, confidence: check.confidence, verifiedAt: new Date() },
+      }));
+    }
+    return updated;
+  }
+}
+
+export const contactService = new ContactService();
@@ -0,0 +1,285 @@
+import crypto from 'crypto';
+import { Platform, Prisma } from '@prisma/client';
+import { db, logger } from '../utils/database';
+import { AppError } from '../middleware/errorHandler';
+import { embeddingModels } from '../embeddings/registry';
+
+/**
+ * CreatorEmbeddingService
+ *
+ * Embeds every creator from what they talk about - bio, about section, panel
+ * texts, recent stream titles, games, tags and the enrichment content
+ * analysis - and stores one vector per creator in discovery_creator_embeddings
+ * (pgvector). Names, platform and region are left out on purpose, so
+ * lookalikes come from content and can be on any platform.
+ *
+ * findSimilar() ranks creators by cosine similarity to a target within an
+ * audience-size band around the target's followers, then mixes in how close
+ * their audience size is. The embedding job keeps vectors current; a target
+ * without a current vector is embedded on demand.
+ */
+
+export interface SimilarCreatorOptions {
+  limit?: number;
+  // Audience band around the target's followers (default 0.2x - 5x)
+  minFollowersRatio?: number;
+  maxFollowersRatio?: number;
+  // Absolute bounds override the ratios
+  minFollowers?: number;
+  maxFollowers?: number;
+  platforms?: Platform[];
+}
+
+export interface SimilarCreator {
+  id: string;
+  similarity: number;    // Cosine similarity of the content embeddings (-1..1)
+  audienceFit: number;   // 1 = same follower count, 0 = at the edge of the band
+  score: number;         // What results are ordered by
+}
+
+export interface EmbedResult {
+  embedded: number;
+  unchanged: number;
+  skipped: number;       // No content to embed
+}
+
+const DEFAULT_MIN_RATIO = 0.2;
+const DEFAULT_MAX_RATIO = 5;
+// Share of the final score given to audience-size closeness
+const AUDIENCE_WEIGHT = 0.2;
+// Nearest neighbours pulled from the index before re-scoring
+const CANDIDATE_MULTIPLIER = 10;
+const MAX_DOCUMENT_CHARS = 8000;
+const MAX_STREAM_TITLES = 20;
+
+const DOCUMENT_SELECT = {
+  id: true,
+  currentGame: true,
+  topGames: true,
+  tags: true,
+  unifiedTags: true,
+  profileDescription: true,
+  aboutSection: true,
+  panelTexts: true,
+  streamTitles: true,
+  contentAnalysis: true,
+} satisfies Prisma.StreamerSelect;
+
+// SQL mirror of "creatorDocument() is not empty", so creators with nothing to
+// embed don't stay at the head of the pending queue
+const HAS_CONTENT = Prisma.sql`AND (
+  coalesce(c."currentGame", '') <> '' OR cardinality(c."topGames") > 0 OR cardinality(c.tags) > 0
+  OR cardinality(c.unified_tags) > 0 OR coalesce(c.profile_description, '') <> ''
+  OR coalesce(c.about_section, '') <> '' OR cardinality(c.panel_texts) > 0
+  OR CASE WHEN jsonb_typeof(c.stream_titles) = 'array' THEN jsonb_array_length(c.stream_titles) > 0 ELSE false END
+  OR c.content_analysis IS NOT NULL
+)`;
+
+type DocumentSource = Prisma.StreamerGetPayload<{ select: typeof DOCUMENT_SELECT }>;
+
+// contentAnalysis is free-form JSON from the enrichment services - keep its text
+const jsonText = (value: unknown): string[] => {
+  if (typeof value === 'string') return [value];
+  if (Array.isArray(value)) return value.flatMap(jsonText);
+  if (value && typeof value === 'object') return Object.values(value).flatMap(jsonText);
+  return [];
+};
+
+/**
+ * Text a creator is embedded from; empty when there is nothing to compare on
+ */
+export function creatorDocument(creator: Omit<DocumentSource, 'id'>): string {
+  const titles = Array.isArray(creator.streamTitles)
+    ? creator.streamTitles
+        .map((t: any) => (typeof t === 'string' ? t : t?.title))
+        .filter((t): t is string => typeof t === 'string' && t.trim().length > 0)
+        .slice(0, MAX_STREAM_TITLES)
+    : [];
+  const games = [...new Set([creator.currentGame, ...creator.topGames].filter(Boolean))];
+  const tags = [...new Set([...creator.tags, ...creator.unifiedTags].map(t => t.toLowerCase()))];
+
+  const sections = [
+    games.length ? `Games: ${games.join(', ')}` : '',
+    tags.length ? `Tags: ${tags.join(', ')}` : '',
+    creator.profileDescription || '',
+    creator.aboutSection || '',
+    creator.panelTexts.join('\n'),
+    titles.length ? `Stream titles: ${titles.join(' | ')}` : '',
+    jsonText(creator.contentAnalysis).join('\n'),
+  ];
+  return sections.map(s => s.trim()).filter(Boolean).join('\n').slice(0, MAX_DOCUMENT_CHARS);
+}
+
+/**
+ * 1 when follower counts match, falling off with the log of the ratio to 0 at
+ * the edge of the audience band
+ */
+export function audienceFit(targetFollowers: number, followers: number, maxRatio: number = DEFAULT_MAX_RATIO): number {
+  const distance = Math.abs(Math.log10(Math.max(followers, 1) / Math.max(targetFollowers, 1)));
+  return Math.max(0, 1 - distance / Math.log10(Math.max(maxRatio, 1.01)));
+}
+
+const contentHash = (modelId: string, document: string) =>
+  crypto.createHash('sha1').update(`${modelId}\n${document}`).digest('hex');
+
+const toVectorLiteral = (vector: number[]) => `[${vector.join(',')}]`;
+
+class CreatorEmbeddingService {
+  /**
+   * Embed the given creators with the current model. Creators whose document
+   * hasn't changed since their last embedding are left as they are.
+   */
+  async embedCreators(ids: string[]): Promise<EmbedResult> {
+    const result: EmbedResult = { embedded: 0, unchanged: 0, skipped: 0 };
+    if (ids.length === 0) return result;
+
+    const model = embeddingModels.current();
+    const creators = await db.streamer.findMany({ where: { id: { in: ids } }, select: DOCUMENT_SELECT });
+    const existing = await db.$queryRaw<Array<{ streamerId: string; contentHash: string }>>`
+      SELECT streamer_id AS "streamerId", content_hash AS "contentHash"
+      FROM discovery_creator_embeddings
+      WHERE streamer_id IN (${Prisma.join(ids)})
+    `;
+    const hashes = new Map(existing.map(e => [e.streamerId, e.contentHash]));
+
+    const pending: Array<{ id: string; document: string; hash: string }> = [];
+    const unchanged: string[] = [];
+    for (const creator of creators) {
+      const document = creatorDocument(creator);
+      if (!document) {
+        result.skipped++;
+        continue;
+      }
+      const hash = contentHash(model.id, document);
+      if (hashes.get(creator.id) === hash) {
+        unchanged.push(creator.id);
+      } else {
+        pending.push({ id: creator.id, document, hash });
+      }
+    }
+
+    // Mark unchanged rows as checked so the job moves on to other creators
+    if (unchanged.length > 0) {
+      await db.$executeRaw`
+        UPDATE discovery_creator_embeddings SET updated_at = NOW()
+        WHERE streamer_id IN (${Prisma.join(unchanged)})
+      `;
+      result.unchanged = unchanged.length;
+    }
+
+    for (let i = 0; i < pending.length; i += model.maxBatchSize) {
+      const batch = pending.slice(i, i + model.maxBatchSize);
+      const vectors = await model.embed(batch.map(p => p.document));
+      // A zero vector has no direction to compare (e.g. only stopwords)
+      const embeddable = batch
+        .map((item, j) => ({ ...item, vector: vectors[j] }))
+        .filter(item => item.vector.some(v => v !== 0));
+      result.skipped += batch.length - embeddable.length;
+
+      await db.$transaction(embeddable.map(item => db.$executeRaw`
+        INSERT INTO discovery_creator_embeddings (streamer_id, model, dimensions, embedding, content_hash, created_at, updated_at)
+        VALUES (${item.id}, ${model.id}, ${item.vector.length}, ${toVectorLiteral(item.vector)}::vector, ${item.hash}, NOW(), NOW())
+        ON CONFLICT (streamer_id) DO UPDATE SET
+          model = EXCLUDED.model,
+          dimensions = EXCLUDED.dimensions,
+          embedding = EXCLUDED.embedding,
+          content_hash = EXCLUDED.content_hash,
+          updated_at = NOW()
+      `));
+      result.embedded += embeddable.length;
+    }
+
+    return result;
+  }
+
+  /**
+   * Embed creators that have no vector from the current model or changed since
+   * their last check, new creators first
+   */
+  async embedPending(limit: number = 500): Promise<EmbedResult> {
+    const model = embeddingModels.current();
+    const rows = await db.$queryRaw<Array<{ id: string }>>`
+      SELECT c.id
+      FROM discovery_creators c
+      LEFT JOIN discovery_creator_embeddings e ON e.streamer_id = c.id
+      WHERE (e.streamer_id IS NULL OR e.model <> ${model.id} OR c."updatedAt" > e.updated_at)
+        ${HAS_CONTENT}
+      ORDER BY (e.streamer_id IS NULL) DESC, c.followers DESC
+      LIMIT ${limit}
+    `;
+    const result = await this.embedCreators(rows.map(r => r.id));
+    logger.info(`Creator embeddings (${model.id}): ${result.embedded} embedded, ${result.unchanged} unchanged, ${result.skipped} without content`);
+    return result;
+  }
+
+  /**
+   * Whether the creator has a vector from the current model (embedding it now
+   * if it is missing or stale). False when the creator has no content.
+   */
+  async ensureEmbedded(streamerId: string): Promise<boolean> {
+    await this.embedCreators([streamerId]);
+    const rows = await db.$queryRaw<Array<{ found: number }>>`
+      SELECT 1 AS found FROM discovery_creator_embeddings
+      WHERE streamer_id = ${streamerId} AND model = ${embeddingModels.current().id}
+    `;
+    return rows.length > 0;
+  }
+
+  /**
+   * Creators whose content is most like the target's, on any platform, within
+   * the audience band. Null when the target has no content to compare on.
+   */
+  async findSimilar(streamerId: string, options: SimilarCreatorOptions = {}): Promise<SimilarCreator[] | null> {
+    const target = await db.streamer.findUnique({
+      where: { id: streamerId },
+      select: { id: true, username: true, followers: true },
+    });
+    if (!target) {
+      throw new AppError('Streamer not found', 404);
+    }
+    if (!(await this.ensureEmbedded(streamerId))) {
+      return null;
+    }
+
+    const limit = Math.min(Math.max(options.limit || 5, 1), 100);
+    const minRatio = options.minFollowersRatio ?? DEFAULT_MIN_RATIO;
+    const maxRatio = options.maxFollowersRatio ?? DEFAULT_MAX_RATIO;
+    const minFollowers = options.minFollowers ?? Math.floor(target.followers * minRatio);
+    const maxFollowers = options.maxFollowers ?? Math.ceil(Math.max(target.followers, 1) * maxRatio);
+    const platformFilter = options.platforms?.length
+      ? Prisma.sql`AND c.platform::text IN (${Prisma.join(options.platforms)})`
+      : Prisma.empty;
+
+    const candidates = await db.$queryRaw<Array<{ id: string; followers: number; similarity: number }>>`
+      SELECT c.id, c.followers, 1 - (e.embedding <=> t.embedding) AS similarity
+      FROM discovery_creator_embeddings e
+      JOIN discovery_creators c ON c.id = e.streamer_id
+      JOIN discovery_creator_embeddings t ON t.streamer_id = ${streamerId}
+      WHERE e.model = t.model
+        AND e.streamer_id <> t.streamer_id
+        -- Same handle elsewhere is usually the same person, not a lookalike
+        AND lower(c.username) <> lower(${target.username})
+        AND c."fraudCheck" <> 'FLAGGED'
+        AND c.followers BETWEEN ${minFollowers} AND ${maxFollowers}
+        ${platformFilter}
+      ORDER BY e.embedding <=> t.embedding
+      LIMIT ${limit * CANDIDATE_MULTIPLIER}
+    `;
+
+    return candidates
+      .map(c => {
+        const fit = audienceFit(target.followers, c.followers, maxRatio);
+        const similarity = Number(c.similarity);
+        return {
+          id: c.id,
+          similarity,
+          audienceFit: fit,
+          score: similarity * (1 - AUDIENCE_WEIGHT) + fit * AUDIENCE_WEIGHT,
+        };
+      })
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+}
+
+export const creatorEmbeddingService = new CreatorEmbeddingService();
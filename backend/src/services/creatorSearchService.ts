@@ -0,0 +1,162 @@
+import { Prisma } from '@prisma/client';
+import { db } from '../utils/database';
+
+/**
+ * CreatorSearchService
+ *
+ * Indexed creator search on Postgres. Each creator row carries a tsvector
+ * (search_vector, kept current by a trigger) built from:
+ *
+ *   A  displayName, username
+ *   B  currentGame, topGames, tags
+ *   C  profileDescription, aboutSection   (stemmed in the creator's language)
+ *   D  panelTexts, streamTitles           (stemmed in the creator's language)
+ *
+ * Descriptions are stemmed with the creator's language (es/pt/en, anything
+ * else unstemmed), so queries are parsed in all of them and OR-ed together.
+ * Names also get pg_trgm fuzzy matching for misspelled handles.
+ */
+
+export interface SearchHighlight {
+  field: 'profileDescription' | 'aboutSection' | 'panelTexts' | 'streamTitles' | 'displayName';
+  // HTML-escaped text with matches wrapped in <mark>
+  snippet: string;
+}
+
+// Topic (game/tag) matches for the AI search, most-followed first
+export const TOPIC_CANDIDATE_LIMIT = 10000;
+
+// Control characters can't appear in creator text, so they're safe match markers
+const MARK_START = '\u0002';
+const MARK_STOP = '\u0003';
+const HEADLINE_OPTIONS = `StartSel=${MARK_START}, StopSel=${MARK_STOP}, MaxWords=25, MinWords=8, MaxFragments=2, FragmentDelimiter=" … "`;
+
+const HIGHLIGHT_FIELDS: SearchHighlight['field'][] = ['profileDescription', 'aboutSection', 'panelTexts', 'streamTitles', 'displayName'];
+
+const textQuery = (text: string): Prisma.Sql => Prisma.sql`(
+  websearch_to_tsquery('simple', unaccent(${text})) ||
+  websearch_to_tsquery('english', unaccent(${text})) ||
+  websearch_to_tsquery('spanish', unaccent(${text})) ||
+  websearch_to_tsquery('portuguese', unaccent(${text}))
+)`;
+
+const escapeLike = (value: string): string => value.replace(/[\\%_]/g, ch => `\\${ch}`);
+
+const escapeHtml = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+
+/**
+ * ts_headline output -> safe HTML with <mark> around matches
+ */
+export function toHighlightHtml(headline: string): string {
+  return escapeHtml(headline)
+    .split(MARK_START).join('<mark>')
+    .split(MARK_STOP).join('</mark>');
+}
+
+/**
+ * Topics ("sports betting", "CS2") -> prefix tsquery on the games/tags weight,
+ * matching any word: 'sports:*B | betting:*B | cs2:*B'
+ */
+export function topicTsQuery(topics: string[]): string | null {
+  const words = new Set<string>();
+  for (const topic of topics) {
+    const parts = topic.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+    // Short filler words only count when they're the whole topic ("cs", "lol")
+    const significant = parts.length > 1 ? parts.filter(w => w.length > 2) : parts;
+    significant.forEach(w => words.add(w));
+  }
+  if (words.size === 0) return null;
+  return [...words].map(w => `${w}:*B`).join(' | ');
+}
+
+class CreatorSearchService {
+  /**
+   * Creator ids matching free text, best first: full-text hits in any
+   * field, fuzzy (trigram) name matches and name substrings.
+   *
+   * `within` limits the search to ids the other filters allow (passed as one
+   * array, so any number fits); with `keepOrder` the matches keep the order of
+   * `within` instead of relevance order.
+   */
+  async rankedIds(text: string, options: { within?: string[]; keepOrder?: boolean } = {}): Promise<string[]> {
+    const query = text.trim();
+    if (!query || options.within?.length === 0) return [];
+
+    const handle = query.replace(/^@/, '').toLowerCase();
+    const like = `%${escapeLike(handle)}%`;
+    const within = options.within
+      ? Prisma.sql`JOIN unnest(${options.within}::text[]) WITH ORDINALITY AS allowed(id, position) ON allowed.id = c.id`
+      : Prisma.empty;
+    const relevance = Prisma.sql`
+      ts_rank(c.search_vector, query.q)
+        + GREATEST(similarity(c.username, ${handle}), similarity(c."displayName", ${query})) DESC,
+      c.followers DESC`;
+
+    const rows = await db.$queryRaw<Array<{ id: string }>>`
+      SELECT c.id
+      FROM discovery_creators c
+      ${within}
+      CROSS JOIN (SELECT ${textQuery(query)} AS q) query
+      WHERE c.search_vector @@ query.q
+         OR c.username % ${handle}
+         OR c."displayName" % ${query}
+         OR c.username ILIKE ${like}
+         OR c."displayName" ILIKE ${like}
+      ORDER BY ${options.within && options.keepOrder ? Prisma.sql`allowed.position` : relevance}
+    `;
+    return rows.map(r => r.id);
+  }
+
+  /**
+   * Creator ids whose current game, top games or tags match any topic word
+   * (prefix match, so "slot" finds "Slots")
+   */
+  async idsByTopics(topics: string[], limit: number = TOPIC_CANDIDATE_LIMIT): Promise<string[]> {
+    const tsquery = topicTsQuery(topics);
+    if (!tsquery) return [];
+
+    const rows = await db.$queryRaw<Array<{ id: string }>>`
+      SELECT c.id
+      FROM discovery_creators c
+      WHERE c.search_vector @@ to_tsquery('simple', unaccent(${tsquery}))
+      ORDER BY c.followers DESC
+      LIMIT ${limit}
+    `;
+    return rows.map(r => r.id);
+  }
+
+  /**
+   * Best highlighted snippet per creator for a page of results. Creators that
+   * only matched fuzzily on their name have no entry.
+   */
+  async highlights(text: string, ids: string[]): Promise<Map<string, SearchHighlight>> {
+    const result = new Map<string, SearchHighlight>();
+    const query = text.trim();
+    if (!query || ids.length === 0) return result;
+
+    const rows = await db.$queryRaw<Array<Record<SearchHighlight['field'], string | null> & { id: string }>>`
+      SELECT c.id,
+        ts_headline('simple', c."displayName", query.q, ${HEADLINE_OPTIONS}) AS "displayName",
+        ts_headline(discovery_search_config(c.language), coalesce(c.profile_description, ''), query.q, ${HEADLINE_OPTIONS}) AS "profileDescription",
+        ts_headline(discovery_search_config(c.language), coalesce(c.about_section, ''), query.q, ${HEADLINE_OPTIONS}) AS "aboutSection",
+        ts_headline(discovery_search_config(c.language), array_to_string(coalesce(c.panel_texts, '{}'), ' · '), query.q, ${HEADLINE_OPTIONS}) AS "panelTexts",
+        ts_headline(discovery_search_config(c.language), coalesce((
+          SELECT string_agg(coalesce(t->>'title', t #>> '{}'), ' · ')
+          FROM jsonb_array_elements(CASE WHEN jsonb_typeof(c.stream_titles) = 'array' THEN c.stream_titles ELSE '[]'::jsonb END) AS t
+        ), ''), query.q, ${HEADLINE_OPTIONS}) AS "streamTitles"
+      FROM discovery_creators c, (SELECT ${textQuery(query)} AS q) query
+      WHERE c.id IN (${Prisma.join(ids)})
+    `;
+
+    for (const row of rows) {
+      const field = HIGHLIGHT_FIELDS.find(f => row[f]?.includes(MARK_START));
+      if (field) {
+        result.set(row.id, { field, snippet: toHighlightHtml(row[field]!) });
+      }
+    }
+    return result;
+  }
+}
+
+export const creatorSearchService = new CreatorSearchService();
@@ -1,19 +1,8 @@
-import axios from 'axios';
 import { db, logger } from '../utils/database';
 import { Platform, Region, FraudStatus } from '@prisma/client';
-
-interface DiscoveredStreamer {
-  username: string;
-  displayName: string;
-  platform: Platform;
-  profileUrl: string;
-  avatarUrl?: string;
-  followers: number;
-  isLive: boolean;
-  currentViewers?: number;
-  currentGame?: string;
-  language?: string;
-}
+import { platformRegistry } from '../platforms/registry';
+import { DiscoveredCreator } from '../platforms/types';
+import { cacheService } from './cacheService';
 
 // iGaming related game IDs on Twitch
 const IGAMING_GAME_IDS = [
@@ -36,61 +25,6 @@ const IGAMING_KEYWORDS = [
 ];
 
 export class DiscoveryService {
-  private twitchToken: string | null = null;
-  private twitchTokenExpiry: number = 0;
-  private kickToken: string | null = null;
-  private kickTokenExpiry: number = 0;
-
-  // ==================== TWITCH TOKEN ====================
-
-  private async getTwitchToken(): Promise<string> {
-    const now = Date.now();
-
-    if (this.twitchToken && this.twitchTokenExpiry > now) {
-      return this.twitchToken;
-    }
-
-    const response = await axios.post('https://id.twitch.tv/oauth2/token', null, {
-      params: {
-        client_id: process.env.TWITCH_CLIENT_ID,
-        client_secret: process.env.TWITCH_CLIENT_SECRET,
-        grant_type: 'client_credentials'
-      }
-    });
-
-    this.twitchToken = response.data.access_token;
-    this.twitchTokenExpiry = now + (response.data.expires_in * 1000) - 60000;
-
-    logger.info('✅ Discovery: Twitch token refreshed');
-    return this.twitchToken!;
-  }
-
-  // ==================== KICK TOKEN ====================
-
-  private async getKickToken(): Promise<string> {
-    const now = Date.now();
-
-    if (this.kickToken && this.kickTokenExpiry > now) {
-      return this.kickToken;
-    }
-
-    const response = await axios.post(
-      'https://id.kick.com/oauth/token',
-      new URLSearchParams({
-        client_id: process.env.KICK_CLIENT_ID!,
-        client_secret: process.env.KICK_CLIENT_SECRET!,
-        grant_type: 'client_credentials'
-      }),
-      { headers: { 'Content-Type': 'application/x-www-form-urlencoded' } }
-    );
-
-    this.kickToken = response.data.access_token;
-    this.kickTokenExpiry = now + (55 * 60 * 1000);
-
-    logger.info('✅ Discovery: Kick token refreshed');
-    return this.kickToken!;
-  }
-
   // ==================== TWITCH DISCOVERY ====================
 
   /**
@@ -104,52 +38,13 @@ export class DiscoveryService {
   }> {
     logger.info(`🔍 [TWITCH] Discovering streamers for game ${gameId}...`);
 
-    const token = await this.getTwitchToken();
-    const discovered: DiscoveredStreamer[] = [];
-    let cursor: string | undefined;
-
-    // Paginate through streams (100 per page, max 800 req/min)
-    while (discovered.length < maxStreamers) {
-      const params: any = {
-        game_id: gameId,
-        first: 100,
-        language: ['es', 'pt', 'en'] // LATAM languages
-      };
-      if (cursor) params.after = cursor;
-
-      const response = await axios.get('https://api.twitch.tv/helix/streams', {
-        headers: {
-          'Client-ID': process.env.TWITCH_CLIENT_ID!,
-          'Authorization': `Bearer ${token}`
-        },
-        params
-      });
-
-      const streams = response.data.data;
-      if (streams.length === 0) break;
-
-      for (const stream of streams) {
-        discovered.push({
-          username: stream.user_login.toLowerCase(),
-          displayName: stream.user_name,
-          platform: Platform.TWITCH,
-          profileUrl: `https://twitch.tv/${stream.user_login}`,
-          followers: 0, // Will be fetched separately
-          isLive: true,
-          currentViewers: stream.viewer_count,
-          currentGame: stream.game_name,
-          language: stream.language
-        });
-      }
-
-      cursor = response.data.pagination?.cursor;
-      if (!cursor) break;
-
-      // Rate limit delay
-      await new Promise(r => setTimeout(r, 50));
-    }
+    const discovered = await platformRegistry.get(Platform.TWITCH).discover({
+      category: gameId,
+      limit: maxStreamers,
+      languages: ['es', 'pt', 'en'] // LATAM languages
+    });
 
-    return this.saveDiscoveredStreamers(discovered.slice(0, maxStreamers), Platform.TWITCH);
+    return this.saveDiscoveredStreamers(discovered, Platform.TWITCH);
   }
 
   /**
@@ -163,53 +58,13 @@ export class DiscoveryService {
   }> {
     logger.info(`🔍 [TWITCH] Searching for "${keyword}"...`);
 
-    const token = await this.getTwitchToken();
-    const discovered: DiscoveredStreamer[] = [];
-    let cursor: string | undefined;
-
-    while (discovered.length < maxStreamers) {
-      const params: any = {
-        query: keyword,
-        first: 100,
-        live_only: false // Get both live and offline
-      };
-      if (cursor) params.after = cursor;
-
-      const response = await axios.get('https://api.twitch.tv/helix/search/channels', {
-        headers: {
-          'Client-ID': process.env.TWITCH_CLIENT_ID!,
-          'Authorization': `Bearer ${token}`
-        },
-        params
-      });
-
-      const channels = response.data.data;
-      if (channels.length === 0) break;
-
-      for (const channel of channels) {
-        // Filter for Spanish/Portuguese content
-        if (['es', 'pt', 'en'].includes(channel.broadcaster_language)) {
-          discovered.push({
-            username: channel.broadcaster_login.toLowerCase(),
-            displayName: channel.display_name,
-            platform: Platform.TWITCH,
-            profileUrl: `https://twitch.tv/${channel.broadcaster_login}`,
-            avatarUrl: channel.thumbnail_url,
-            followers: 0,
-            isLive: channel.is_live,
-            currentGame: channel.game_name,
-            language: channel.broadcaster_language
-          });
-        }
-      }
-
-      cursor = response.data.pagination?.cursor;
-      if (!cursor) break;
-
-      await new Promise(r => setTimeout(r, 50));
-    }
+    const discovered = await platformRegistry.get(Platform.TWITCH).discover({
+      query: keyword,
+      limit: maxStreamers,
+      languages: ['es', 'pt', 'en']
+    });
 
-    return this.saveDiscoveredStreamers(discovered.slice(0, maxStreamers), Platform.TWITCH);
+    return this.saveDiscoveredStreamers(discovered, Platform.TWITCH);
   }
 
   /**
@@ -222,49 +77,12 @@ export class DiscoveryService {
   }> {
     logger.info(`🔍 [TWITCH] Discovering top live streams...`);
 
-    const token = await this.getTwitchToken();
-    const discovered: DiscoveredStreamer[] = [];
-    let cursor: string | undefined;
-
-    while (discovered.length < maxStreamers) {
-      const params: any = {
-        first: 100,
-        language: ['es', 'pt'] // LATAM languages only
-      };
-      if (cursor) params.after = cursor;
-
-      const response = await axios.get('https://api.twitch.tv/helix/streams', {
-        headers: {
-          'Client-ID': process.env.TWITCH_CLIENT_ID!,
-          'Authorization': `Bearer ${token}`
-        },
-        params
-      });
-
-      const streams = response.data.data;
-      if (streams.length === 0) break;
-
-      for (const stream of streams) {
-        discovered.push({
-          username: stream.user_login.toLowerCase(),
-          displayName: stream.user_name,
-          platform: Platform.TWITCH,
-          profileUrl: `https://twitch.tv/${stream.user_login}`,
-          followers: 0,
-          isLive: true,
-          currentViewers: stream.viewer_count,
-          currentGame: stream.game_name,
-          language: stream.language
-        });
-      }
-
-      cursor = response.data.pagination?.cursor;
-      if (!cursor) break;
-
-      await new Promise(r => setTimeout(r, 50));
-    }
+    const discovered = await platformRegistry.get(Platform.TWITCH).discover({
+      limit: maxStreamers,
+      languages: ['es', 'pt'] // LATAM languages only
+    });
 
-    return this.saveDiscoveredStreamers(discovered.slice(0, maxStreamers), Platform.TWITCH);
+    return this.saveDiscoveredStreamers(discovered, Platform.TWITCH);
   }
 
   /**
@@ -290,78 +108,29 @@ export class DiscoveryService {
       return { updated: 0, errors: 0 };
     }
 
-    const token = await this.getTwitchToken();
+    const adapter = platformRegistry.get(Platform.TWITCH);
     let updated = 0;
     let errors = 0;
 
-    // Batch by 100 (Twitch API limit)
-    const BATCH_SIZE = 100;
-    const batches = Math.ceil(streamers.length / BATCH_SIZE);
-
-    for (let i = 0; i < batches; i++) {
-      const batch = streamers.slice(i * BATCH_SIZE, (i + 1) * BATCH_SIZE);
-      const usernames = batch.map(s => s.username);
-
+    for (const streamer of streamers) {
       try {
-        // Get user info
-        const response = await axios.get('https://api.twitch.tv/helix/users', {
-          headers: {
-            'Client-ID': process.env.TWITCH_CLIENT_ID!,
-            'Authorization': `Bearer ${token}`
-          },
-          params: { login: usernames }
-        });
-
-        const userIds = response.data.data.map((u: any) => u.id);
-        const userMap = new Map(response.data.data.map((u: any) => [u.login.toLowerCase(), u]));
-
-        // Get follower counts (requires separate calls per user in new API)
-        // Using channels endpoint which includes follower count
-        for (const streamer of batch) {
-          const userData: any = userMap.get(streamer.username.toLowerCase());
-          if (userData) {
-            try {
-              // Get channel info which includes follower count
-              const channelResponse = await axios.get('https://api.twitch.tv/helix/channels', {
-                headers: {
-                  'Client-ID': process.env.TWITCH_CLIENT_ID!,
-                  'Authorization': `Bearer ${token}`
-                },
-                params: { broadcaster_id: userData.id }
-              });
-
-              // Get follower count
-              const followerResponse = await axios.get('https://api.twitch.tv/helix/channels/followers', {
-                headers: {
-                  'Client-ID': process.env.TWITCH_CLIENT_ID!,
-                  'Authorization': `Bearer ${token}`
-                },
-                params: { broadcaster_id: userData.id }
-              });
-
-              const followers = followerResponse.data.total || 0;
-
-              await db.streamer.update({
-                where: { id: streamer.id },
-                data: {
-                  followers,
-                  avatarUrl: userData.profile_image_url,
-                  lastScrapedAt: new Date()
-                }
-              });
-              updated++;
-            } catch (e) {
-              errors++;
-            }
+        const profile = await adapter.fetchProfile(streamer.username);
+        if (!profile) continue;
+
+        await db.streamer.update({
+          where: { id: streamer.id },
+          data: {
+            followers: profile.followers,
+            avatarUrl: profile.avatarUrl,
+            lastScrapedAt: new Date()
           }
-        }
-
-        logger.info(`✅ [TWITCH] Follower batch ${i + 1}/${batches} complete`);
-        await new Promise(r => setTimeout(r, 100));
-      } catch (error: any) {
-        logger.error(`❌ [TWITCH] Follower batch ${i + 1} failed:`, error.message);
-        errors += batch.length;
+        });
+        updated++;
+      } catch (e) {
+        errors++;
       }
+
+      await new Promise(r => setTimeout(r, adapter.rateLimit.minIntervalMs));
     }
 
     logger.info(`🎉 [TWITCH] Follower backfill complete: ${updated} updated, ${errors} errors`);
@@ -380,37 +149,9 @@ export class DiscoveryService {
   }> {
     logger.info(`🔍 [KICK] Discovering streamers in category ${categorySlug}...`);
 
-    const token = await this.getKickToken();
-    const discovered: DiscoveredStreamer[] = [];
-
+    let discovered: DiscoveredCreator[] = [];
     try {
-      const response = await axios.get(
-        `https://api.kick.com/public/v1/categories/${categorySlug}/livestreams`,
-        {
-          headers: {
-            'Accept': 'application/json',
-            'Authorization': `Bearer ${token}`
-          },
-          params: { limit: Math.min(maxStreamers, 100) }
-        }
-      );
-
-      const streams = response.data?.data || [];
-
-      for (const stream of streams) {
-        discovered.push({
-          username: stream.channel?.slug?.toLowerCase() || '',
-          displayName: stream.channel?.user?.username || stream.channel?.slug || '',
-          platform: Platform.KICK,
-          profileUrl: `https://kick.com/${stream.channel?.slug}`,
-          avatarUrl: stream.channel?.user?.profile_pic,
-          followers: stream.channel?.followers_count || 0,
-          isLive: true,
-          currentViewers: stream.viewer_count || 0,
-          currentGame: stream.category?.name,
-          language: stream.language || 'es'
-        });
-      }
+      discovered = await platformRegistry.get(Platform.KICK).discover({ category: categorySlug, limit: maxStreamers });
     } catch (error: any) {
       logger.error(`❌ [KICK] Category discovery failed:`, error.message);
     }
@@ -428,46 +169,13 @@ export class DiscoveryService {
   }> {
     logger.info(`🔍 [KICK] Discovering top live streams...`);
 
-    const token = await this.getKickToken();
-    const discovered: DiscoveredStreamer[] = [];
-
+    let discovered: DiscoveredCreator[] = [];
     try {
-      const response = await axios.get(
-        'https://api.kick.com/public/v1/livestreams',
-        {
-          headers: {
-            'Accept': 'application/json',
-            'Authorization': `Bearer ${token}`
-          },
-          params: {
-            limit: Math.min(maxStreamers, 100),
-            sort: 'viewers'
-          }
-        }
-      );
-
-      const streams = response.data?.data || [];
-
-      for (const stream of streams) {
-        // Filter for Spanish/Portuguese/English
-        const lang = (stream.language || '').toLowerCase();
-        if (!['es', 'pt', 'en', 'spanish', 'portuguese', 'english'].some(l => lang.includes(l))) {
-          continue;
-        }
-
-        discovered.push({
-          username: stream.channel?.slug?.toLowerCase() || '',
-          displayName: stream.channel?.user?.username || stream.channel?.slug || '',
-          platform: Platform.KICK,
-          profileUrl: `https://kick.com/${stream.channel?.slug}`,
-          avatarUrl: stream.channel?.user?.profile_pic,
-          followers: stream.channel?.followers_count || 0,
-          isLive: true,
-          currentViewers: stream.viewer_count || 0,
-          currentGame: stream.category?.name,
-          language: lang
-        });
-      }
+      discovered = await platformRegistry.get(Platform.KICK).discover({
+        limit: maxStreamers,
+        // Spanish/Portuguese/English
+        languages: ['es', 'pt', 'en', 'spanish', 'portuguese', 'english']
+      });
     } catch (error: any) {
       logger.error(`❌ [KICK] Top streams discovery failed:`, error.message);
     }
@@ -478,7 +186,7 @@ export class DiscoveryService {
   // ==================== SAVE HELPERS ====================
 
   private async saveDiscoveredStreamers(
-    streamers: DiscoveredStreamer[],
+    streamers: DiscoveredCreator[],
     platform: Platform
   ): Promise<{ discovered: number; added: number; existing: number }> {
     let added = 0;
@@ -539,6 +247,8 @@ export class DiscoveryService {
       }
     }
 
+    if (added > 0) await cacheService.invalidateCreators();
+
     logger.info(`📊 Discovery results: ${streamers.length} found, ${added} added, ${existing} existing`);
     return { discovered: streamers.length, added, existing };
   }
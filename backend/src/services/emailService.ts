@@ -0,0 +1,133 @@
+import nodemailer, { Transporter } from 'nodemailer';
+import { logger } from '../utils/database';
+import { resolvePublicAddress } from '../utils/publicAddress';
+
+/**
+ * EmailService
+ *
+ * Thin wrapper around a single nodemailer SMTP transport configured from
+ * SMTP_HOST / SMTP_PORT / SMTP_USER / SMTP_PASS. When SMTP isn't configured
+ * sends are skipped (logged once) so features that email degrade to in-app only.
+ *
+ * Outreach email goes out through each user's own SMTP account instead
+ * (sendVia), and reports failures to the caller so its queue can retry. Those
+ * hosts are user-supplied, so they're only reached on a public address.
+ */
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text?: string;
+  from?: string;
+  replyTo?: string;
+  messageId?: string;
+  headers?: Record<string, string>;
+}
+
+export interface SmtpAccount {
+  host: string;
+  port: number;
+  secure: boolean;
+  user: string;
+  pass: string;
+}
+
+const SMTP_TIMEOUT_MS = 20 * 1000;
+
+class EmailService {
+  private transporter: Transporter | null = null;
+  private warnedUnconfigured = false;
+
+  isConfigured(): boolean {
+    return !!process.env.SMTP_HOST;
+  }
+
+  /**
+   * Send one message. Returns false when SMTP is not configured or sending failed. Never throws.
+   */
+  async send(message: MailMessage): Promise<boolean> {
+    const transporter = this.getTransporter();
+    if (!transporter) return false;
+
+    try {
+      await transporter.sendMail({
+        from: process.env.EMAIL_FROM || process.env.SMTP_USER,
+        to: message.to,
+        subject: message.subject,
+        html: message.html,
+        text: message.text,
+      });
+      return true;
+    } catch (error: any) {
+      logger.error('Email send failed', { to: message.to, subject: message.subject, message: error?.message });
+      return false;
+    }
+  }
+
+  /**
+   * Send one message through the given account. Returns the Message-ID; throws on failure.
+   */
+  async sendVia(account: SmtpAccount, message: MailMessage): Promise<string> {
+    const transport = await this.accountTransport(account);
+    const info = await transport.sendMail({
+      from: message.from || account.user,
+      to: message.to,
+      replyTo: message.replyTo,
+      subject: message.subject,
+      html: message.html,
+      text: message.text,
+      messageId: message.messageId,
+      headers: message.headers,
+    });
+    return info.messageId;
+  }
+
+  /**
+   * Connect and authenticate without sending. Throws with the server's error.
+   */
+  async verify(account: SmtpAccount): Promise<void> {
+    await (await this.accountTransport(account)).verify();
+  }
+
+  private async accountTransport(account: SmtpAccount): Promise<Transporter> {
+    // Connect to the checked address; the certificate is still verified against the host name
+    const address = await resolvePublicAddress(account.host);
+    return nodemailer.createTransport({
+      host: address,
+      port: account.port,
+      secure: account.secure,
+      tls: { servername: account.host },
+      auth: { user: account.user, pass: account.pass },
+      connectionTimeout: SMTP_TIMEOUT_MS,
+      greetingTimeout: SMTP_TIMEOUT_MS,
+      socketTimeout: SMTP_TIMEOUT_MS,
+    });
+  }
+
+  private getTransporter(): Transporter | null {
+    if (this.transporter) return this.transporter;
+
+    if (!this.isConfigured()) {
+      if (!this.warnedUnconfigured) {
+        logger.warn('SMTP_HOST not set - emails are disabled');
+        this.warnedUnconfigured = true;
+      }
+      return null;
+    }
+
+    const port = parseInt(process.env.SMTP_PORT || '587', 10);
+    this.transporter = nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port,
+      secure: port === 465,
+      auth: process.env.SMTP_USER
+        ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+        : undefined,
+    });
+
+    return this.transporter;
+  }
+}
+
+export const emailService = new EmailService();
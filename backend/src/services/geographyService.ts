@@ -0,0 +1,349 @@
+import { Region } from '@prisma/client';
+
+/**
+ * GeographyService
+ *
+ * The single source of truth for creator geography: every `Region` enum value
+ * with its ISO-3166 codes, continent grouping, primary languages and names in
+ * the languages the product is used in (en/es/pt). Importers, inference jobs,
+ * the /api/streamers region filter and /api/meta/geography all resolve through
+ * here instead of keeping their own country maps.
+ */
+
+export type Continent =
+  | 'LATIN_AMERICA'
+  | 'NORTH_AMERICA'
+  | 'EUROPE'
+  | 'MIDDLE_EAST'
+  | 'ASIA'
+  | 'AFRICA'
+  | 'OCEANIA'
+  | 'GLOBAL';
+
+export type GeoLocale = 'en' | 'es' | 'pt';
+
+export interface RegionInfo {
+  region: Region;
+  // null for WORLDWIDE / OTHER
+  iso2: string | null;
+  iso3: string | null;
+  continent: Continent;
+  // ISO 639-1, most spoken first
+  languages: string[];
+  names: Record<GeoLocale, string>;
+  flag: string;
+}
+
+type RegionRow = [Region, string | null, string | null, Continent, string[], string, string, string];
+
+// region, iso2, iso3, continent, languages, en, es, pt
+const REGION_ROWS: RegionRow[] = [
+  // Latin America
+  [Region.MEXICO, 'MX', 'MEX', 'LATIN_AMERICA', ['es'], 'Mexico', 'México', 'México'],
+  [Region.COLOMBIA, 'CO', 'COL', 'LATIN_AMERICA', ['es'], 'Colombia', 'Colombia', 'Colômbia'],
+  [Region.ARGENTINA, 'AR', 'ARG', 'LATIN_AMERICA', ['es'], 'Argentina', 'Argentina', 'Argentina'],
+  [Region.CHILE, 'CL', 'CHL', 'LATIN_AMERICA', ['es'], 'Chile', 'Chile', 'Chile'],
+  [Region.PERU, 'PE', 'PER', 'LATIN_AMERICA', ['es', 'qu'], 'Peru', 'Perú', 'Peru'],
+  [Region.VENEZUELA, 'VE', 'VEN', 'LATIN_AMERICA', ['es'], 'Venezuela', 'Venezuela', 'Venezuela'],
+  [Region.ECUADOR, 'EC', 'ECU', 'LATIN_AMERICA', ['es'], 'Ecuador', 'Ecuador', 'Equador'],
+  [Region.BOLIVIA, 'BO', 'BOL', 'LATIN_AMERICA', ['es', 'qu', 'ay'], 'Bolivia', 'Bolivia', 'Bolívia'],
+  [Region.PARAGUAY, 'PY', 'PRY', 'LATIN_AMERICA', ['es', 'gn'], 'Paraguay', 'Paraguay', 'Paraguai'],
+  [Region.URUGUAY, 'UY', 'URY', 'LATIN_AMERICA', ['es'], 'Uruguay', 'Uruguay', 'Uruguai'],
+  [Region.COSTA_RICA, 'CR', 'CRI', 'LATIN_AMERICA', ['es'], 'Costa Rica', 'Costa Rica', 'Costa Rica'],
+  [Region.PANAMA, 'PA', 'PAN', 'LATIN_AMERICA', ['es'], 'Panama', 'Panamá', 'Panamá'],
+  [Region.GUATEMALA, 'GT', 'GTM', 'LATIN_AMERICA', ['es'], 'Guatemala', 'Guatemala', 'Guatemala'],
+  [Region.EL_SALVADOR, 'SV', 'SLV', 'LATIN_AMERICA', ['es'], 'El Salvador', 'El Salvador', 'El Salvador'],
+  [Region.HONDURAS, 'HN', 'HND', 'LATIN_AMERICA', ['es'], 'Honduras', 'Honduras', 'Honduras'],
+  [Region.NICARAGUA, 'NI', 'NIC', 'LATIN_AMERICA', ['es'], 'Nicaragua', 'Nicaragua', 'Nicarágua'],
+  [Region.DOMINICAN_REPUBLIC, 'DO', 'DOM', 'LATIN_AMERICA', ['es'], 'Dominican Republic', 'República Dominicana', 'República Dominicana'],
+  [Region.PUERTO_RICO, 'PR', 'PRI', 'LATIN_AMERICA', ['es', 'en'], 'Puerto Rico', 'Puerto Rico', 'Porto Rico'],
+  [Region.BRAZIL, 'BR', 'BRA', 'LATIN_AMERICA', ['pt'], 'Brazil', 'Brasil', 'Brasil'],
+  [Region.CUBA, 'CU', 'CUB', 'LATIN_AMERICA', ['es'], 'Cuba', 'Cuba', 'Cuba'],
+  [Region.JAMAICA, 'JM', 'JAM', 'LATIN_AMERICA', ['en'], 'Jamaica', 'Jamaica', 'Jamaica'],
+  [Region.TRINIDAD_TOBAGO, 'TT', 'TTO', 'LATIN_AMERICA', ['en'], 'Trinidad and Tobago', 'Trinidad y Tobago', 'Trinidad e Tobago'],
+  [Region.HAITI, 'HT', 'HTI', 'LATIN_AMERICA', ['fr', 'ht'], 'Haiti', 'Haití', 'Haiti'],
+
+  // North America
+  [Region.USA, 'US', 'USA', 'NORTH_AMERICA', ['en', 'es'], 'United States', 'Estados Unidos', 'Estados Unidos'],
+  [Region.CANADA, 'CA', 'CAN', 'NORTH_AMERICA', ['en', 'fr'], 'Canada', 'Canadá', 'Canadá'],
+
+  // Europe
+  [Region.UK, 'GB', 'GBR', 'EUROPE', ['en'], 'United Kingdom', 'Reino Unido', 'Reino Unido'],
+  [Region.SPAIN, 'ES', 'ESP', 'EUROPE', ['es', 'ca'], 'Spain', 'España', 'Espanha'],
+  [Region.GERMANY, 'DE', 'DEU', 'EUROPE', ['de'], 'Germany', 'Alemania', 'Alemanha'],
+  [Region.FRANCE, 'FR', 'FRA', 'EUROPE', ['fr'], 'France', 'Francia', 'França'],
+  [Region.ITALY, 'IT', 'ITA', 'EUROPE', ['it'], 'Italy', 'Italia', 'Itália'],
+  [Region.PORTUGAL, 'PT', 'PRT', 'EUROPE', ['pt'], 'Portugal', 'Portugal', 'Portugal'],
+  [Region.NETHERLANDS, 'NL', 'NLD', 'EUROPE', ['nl'], 'Netherlands', 'Países Bajos', 'Países Baixos'],
+  [Region.SWEDEN, 'SE', 'SWE', 'EUROPE', ['sv'], 'Sweden', 'Suecia', 'Suécia'],
+  [Region.NORWAY, 'NO', 'NOR', 'EUROPE', ['no'], 'Norway', 'Noruega', 'Noruega'],
+  [Region.DENMARK, 'DK', 'DNK', 'EUROPE', ['da'], 'Denmark', 'Dinamarca', 'Dinamarca'],
+  [Region.FINLAND, 'FI', 'FIN', 'EUROPE', ['fi', 'sv'], 'Finland', 'Finlandia', 'Finlândia'],
+  [Region.POLAND, 'PL', 'POL', 'EUROPE', ['pl'], 'Poland', 'Polonia', 'Polônia'],
+  [Region.RUSSIA, 'RU', 'RUS', 'EUROPE', ['ru'], 'Russia', 'Rusia', 'Rússia'],
+  [Region.AUSTRIA, 'AT', 'AUT', 'EUROPE', ['de'], 'Austria', 'Austria', 'Áustria'],
+  [Region.BELGIUM, 'BE', 'BEL', 'EUROPE', ['nl', 'fr', 'de'], 'Belgium', 'Bélgica', 'Bélgica'],
+  [Region.SWITZERLAND, 'CH', 'CHE', 'EUROPE', ['de', 'fr', 'it'], 'Switzerland', 'Suiza', 'Suíça'],
+  [Region.IRELAND, 'IE', 'IRL', 'EUROPE', ['en', 'ga'], 'Ireland', 'Irlanda', 'Irlanda'],
+  [Region.GREECE, 'GR', 'GRC', 'EUROPE', ['el'], 'Greece', 'Grecia', 'Grécia'],
+  [Region.UKRAINE, 'UA', 'UKR', 'EUROPE', ['uk', 'ru'], 'Ukraine', 'Ucrania', 'Ucrânia'],
+  [Region.CZECH_REPUBLIC, 'CZ', 'CZE', 'EUROPE', ['cs'], 'Czech Republic', 'República Checa', 'República Tcheca'],
+  [Region.ROMANIA, 'RO', 'ROU', 'EUROPE', ['ro'], 'Romania', 'Rumania', 'Romênia'],
+  [Region.HUNGARY, 'HU', 'HUN', 'EUROPE', ['hu'], 'Hungary', 'Hungría', 'Hungria'],
+  [Region.TURKEY, 'TR', 'TUR', 'EUROPE', ['tr'], 'Turkey', 'Turquía', 'Turquia'],
+
+  // Middle East
+  [Region.UAE, 'AE', 'ARE', 'MIDDLE_EAST', ['ar', 'en'], 'United Arab Emirates', 'Emiratos Árabes Unidos', 'Emirados Árabes Unidos'],
+  [Region.SAUDI_ARABIA, 'SA', 'SAU', 'MIDDLE_EAST', ['ar'], 'Saudi Arabia', 'Arabia Saudita', 'Arábia Saudita'],
+  [Region.ISRAEL, 'IL', 'ISR', 'MIDDLE_EAST', ['he', 'ar'], 'Israel', 'Israel', 'Israel'],
+  [Region.QATAR, 'QA', 'QAT', 'MIDDLE_EAST', ['ar'], 'Qatar', 'Catar', 'Catar'],
+  [Region.KUWAIT, 'KW', 'KWT', 'MIDDLE_EAST', ['ar'], 'Kuwait', 'Kuwait', 'Kuwait'],
+  [Region.EGYPT, 'EG', 'EGY', 'MIDDLE_EAST', ['ar'], 'Egypt', 'Egipto', 'Egito'],
+  [Region.JORDAN, 'JO', 'JOR', 'MIDDLE_EAST', ['ar'], 'Jordan', 'Jordania', 'Jordânia'],
+  [Region.LEBANON, 'LB', 'LBN', 'MIDDLE_EAST', ['ar', 'fr'], 'Lebanon', 'Líbano', 'Líbano'],
+  [Region.IRAQ, 'IQ', 'IRQ', 'MIDDLE_EAST', ['ar', 'ku'], 'Iraq', 'Irak', 'Iraque'],
+  [Region.IRAN, 'IR', 'IRN', 'MIDDLE_EAST', ['fa'], 'Iran', 'Irán', 'Irã'],
+
+  // Asia
+  [Region.JAPAN, 'JP', 'JPN', 'ASIA', ['ja'], 'Japan', 'Japón', 'Japão'],
+  // KOREA is the value existing data uses for South Korea; SOUTH_KOREA is kept as an alias
+  [Region.KOREA, 'KR', 'KOR', 'ASIA', ['ko'], 'South Korea', 'Corea del Sur', 'Coreia do Sul'],
+  [Region.SOUTH_KOREA, 'KR', 'KOR', 'ASIA', ['ko'], 'South Korea', 'Corea del Sur', 'Coreia do Sul'],
+  [Region.CHINA, 'CN', 'CHN', 'ASIA', ['zh'], 'China', 'China', 'China'],
+  [Region.TAIWAN, 'TW', 'TWN', 'ASIA', ['zh'], 'Taiwan', 'Taiwán', 'Taiwan'],
+  [Region.HONG_KONG, 'HK', 'HKG', 'ASIA', ['zh', 'en'], 'Hong Kong', 'Hong Kong', 'Hong Kong'],
+  [Region.INDIA, 'IN', 'IND', 'ASIA', ['hi', 'en'], 'India', 'India', 'Índia'],
+  [Region.PAKISTAN, 'PK', 'PAK', 'ASIA', ['ur', 'en'], 'Pakistan', 'Pakistán', 'Paquistão'],
+  [Region.BANGLADESH, 'BD', 'BGD', 'ASIA', ['bn'], 'Bangladesh', 'Bangladés', 'Bangladesh'],
+  [Region.SRI_LANKA, 'LK', 'LKA', 'ASIA', ['si', 'ta'], 'Sri Lanka', 'Sri Lanka', 'Sri Lanka'],
+  [Region.INDONESIA, 'ID', 'IDN', 'ASIA', ['id'], 'Indonesia', 'Indonesia', 'Indonésia'],
+  [Region.PHILIPPINES, 'PH', 'PHL', 'ASIA', ['tl', 'en'], 'Philippines', 'Filipinas', 'Filipinas'],
+  [Region.THAILAND, 'TH', 'THA', 'ASIA', ['th'], 'Thailand', 'Tailandia', 'Tailândia'],
+  [Region.VIETNAM, 'VN', 'VNM', 'ASIA', ['vi'], 'Vietnam', 'Vietnam', 'Vietnã'],
+  [Region.MALAYSIA, 'MY', 'MYS', 'ASIA', ['ms', 'en'], 'Malaysia', 'Malasia', 'Malásia'],
+  [Region.SINGAPORE, 'SG', 'SGP', 'ASIA', ['en', 'zh', 'ms'], 'Singapore', 'Singapur', 'Singapura'],
+  [Region.MYANMAR, 'MM', 'MMR', 'ASIA', ['my'], 'Myanmar', 'Birmania', 'Mianmar'],
+  [Region.CAMBODIA, 'KH', 'KHM', 'ASIA', ['km'], 'Cambodia', 'Camboya', 'Camboja'],
+  [Region.NEPAL, 'NP', 'NPL', 'ASIA', ['ne'], 'Nepal', 'Nepal', 'Nepal'],
+
+  // Africa
+  [Region.SOUTH_AFRICA, 'ZA', 'ZAF', 'AFRICA', ['en', 'zu', 'af'], 'South Africa', 'Sudáfrica', 'África do Sul'],
+  [Region.NIGERIA, 'NG', 'NGA', 'AFRICA', ['en'], 'Nigeria', 'Nigeria', 'Nigéria'],
+  [Region.MOROCCO, 'MA', 'MAR', 'AFRICA', ['ar', 'fr'], 'Morocco', 'Marruecos', 'Marrocos'],
+  [Region.KENYA, 'KE', 'KEN', 'AFRICA', ['sw', 'en'], 'Kenya', 'Kenia', 'Quênia'],
+  [Region.GHANA, 'GH', 'GHA', 'AFRICA', ['en'], 'Ghana', 'Ghana', 'Gana'],
+  [Region.ALGERIA, 'DZ', 'DZA', 'AFRICA', ['ar', 'fr'], 'Algeria', 'Argelia', 'Argélia'],
+  [Region.TUNISIA, 'TN', 'TUN', 'AFRICA', ['ar', 'fr'], 'Tunisia', 'Túnez', 'Tunísia'],
+
+  // Oceania
+  [Region.AUSTRALIA, 'AU', 'AUS', 'OCEANIA', ['en'], 'Australia', 'Australia', 'Austrália'],
+  [Region.NEW_ZEALAND, 'NZ', 'NZL', 'OCEANIA', ['en', 'mi'], 'New Zealand', 'Nueva Zelanda', 'Nova Zelândia'],
+
+  // Other
+  [Region.WORLDWIDE, null, null, 'GLOBAL', [], 'Worldwide', 'Global', 'Global'],
+  [Region.OTHER, null, null, 'GLOBAL', [], 'Other', 'Otro', 'Outro'],
+];
+
+// Spellings seen in CSV imports, platform APIs and AI inference that aren't one of the names above
+const ALIASES: Record<string, Region> = {
+  'usa': Region.USA,
+  'us': Region.USA,
+  'united states of america': Region.USA,
+  'america': Region.USA,
+  'eeuu': Region.USA,
+  'eua': Region.USA,
+  'uk': Region.UK,
+  'great britain': Region.UK,
+  'britain': Region.UK,
+  'england': Region.UK,
+  'scotland': Region.UK,
+  'wales': Region.UK,
+  'venezuela (bolivarian republic of)': Region.VENEZUELA,
+  'dominican republic (republica dominicana)': Region.DOMINICAN_REPUBLIC,
+  'trinidad & tobago': Region.TRINIDAD_TOBAGO,
+  'holland': Region.NETHERLANDS,
+  'deutschland': Region.GERMANY,
+  'czechia': Region.CZECH_REPUBLIC,
+  'turkiye': Region.TURKEY,
+  'uae': Region.UAE,
+  'emirates': Region.UAE,
+  'korea': Region.KOREA,
+  'republic of korea': Region.KOREA,
+  'korea, republic of': Region.KOREA,
+  'viet nam': Region.VIETNAM,
+  'hong kong sar': Region.HONG_KONG,
+  'russian federation': Region.RUSSIA,
+  'iran, islamic republic of': Region.IRAN,
+  'bolivia (plurinational state of)': Region.BOLIVIA,
+  'global': Region.WORLDWIDE,
+  'international': Region.WORLDWIDE,
+};
+
+const CONTINENT_NAMES: Record<Continent, Record<GeoLocale, string>> = {
+  LATIN_AMERICA: { en: 'Latin America', es: 'Latinoamérica', pt: 'América Latina' },
+  NORTH_AMERICA: { en: 'North America', es: 'Norteamérica', pt: 'América do Norte' },
+  EUROPE: { en: 'Europe', es: 'Europa', pt: 'Europa' },
+  MIDDLE_EAST: { en: 'Middle East', es: 'Oriente Medio', pt: 'Oriente Médio' },
+  ASIA: { en: 'Asia', es: 'Asia', pt: 'Ásia' },
+  AFRICA: { en: 'Africa', es: 'África', pt: 'África' },
+  OCEANIA: { en: 'Oceania', es: 'Oceanía', pt: 'Oceania' },
+  GLOBAL: { en: 'Global', es: 'Global', pt: 'Global' },
+};
+
+// Shorthands accepted wherever a continent can be named (e.g. ?regions=LATAM)
+const CONTINENT_ALIASES: Record<string, Continent> = {
+  latam: 'LATIN_AMERICA',
+  mena: 'MIDDLE_EAST',
+  apac: 'ASIA',
+};
+
+// Regional indicator symbols: 'MX' -> 🇲🇽
+const flagFromIso2 = (iso2: string | null) =>
+  iso2 ? String.fromCodePoint(...[...iso2.toUpperCase()].map(c => 0x1f1e6 + c.charCodeAt(0) - 65)) : '🌎';
+
+// Case, accent and separator insensitive lookup key
+const normalize = (value: string) =>
+  value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[_-]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+class GeographyService {
+  private readonly regions: RegionInfo[];
+  private readonly byRegion = new Map<Region, RegionInfo>();
+  private readonly byIso = new Map<string, RegionInfo>();
+  private readonly byName = new Map<string, Region>();
+
+  constructor() {
+    this.regions = REGION_ROWS.map(([region, iso2, iso3, continent, languages, en, es, pt]) => ({
+      region,
+      iso2,
+      iso3,
+      continent,
+      languages,
+      names: { en, es, pt },
+      flag: flagFromIso2(iso2),
+    }));
+
+    for (const info of this.regions) {
+      this.byRegion.set(info.region, info);
+      // First row wins, so KR resolves to KOREA rather than SOUTH_KOREA
+      if (info.iso2 && !this.byIso.has(info.iso2)) this.byIso.set(info.iso2, info);
+      if (info.iso3 && !this.byIso.has(info.iso3)) this.byIso.set(info.iso3, info);
+
+      for (const name of [info.region, ...Object.values(info.names)]) {
+        const key = normalize(name);
+        if (!this.byName.has(key)) this.byName.set(key, info.region);
+      }
+    }
+    for (const [alias, region] of Object.entries(ALIASES)) {
+      this.byName.set(normalize(alias), region);
+    }
+    // Legacy two-letter code used by some sources instead of GB
+    this.byIso.set('UK', this.byRegion.get(Region.UK)!);
+  }
+
+  /**
+   * Every region in enum order
+   */
+  all(): RegionInfo[] {
+    return this.regions;
+  }
+
+  get(region: Region | string): RegionInfo | null {
+    return this.byRegion.get(String(region).toUpperCase() as Region) ?? null;
+  }
+
+  /**
+   * ISO-3166 alpha-2 or alpha-3 code -> Region, or null if the country isn't one we track
+   */
+  fromCountryCode(code: string | null | undefined): Region | null {
+    if (!code) return null;
+    return this.byIso.get(code.trim().toUpperCase())?.region ?? null;
+  }
+
+  /**
+   * Region -> ISO-3166 alpha-2 code (null for WORLDWIDE / OTHER)
+   */
+  toCountryCode(region: Region | string | null | undefined): string | null {
+    if (!region) return null;
+    return this.get(region)?.iso2 ?? null;
+  }
+
+  /**
+   * Free-text country (English/Spanish/Portuguese name, alias, enum value or ISO code) -> Region
+   */
+  fromName(value: string | null | undefined): Region | null {
+    if (!value) return null;
+    const trimmed = value.trim();
+    if (!trimmed) return null;
+
+    const byName = this.byName.get(normalize(trimmed));
+    if (byName) return byName;
+
+    if (/^[A-Za-z]{2,3}$/.test(trimmed)) return this.fromCountryCode(trimmed);
+    return null;
+  }
+
+  /**
+   * Continent key (or shorthand like LATAM) -> Continent
+   */
+  toContinent(value: string): Continent | null {
+    const key = normalize(value).replace(/ /g, '_').toUpperCase();
+    if (key in CONTINENT_NAMES) return key as Continent;
+    return CONTINENT_ALIASES[key.toLowerCase()] ?? null;
+  }
+
+  regionsIn(continent: Continent): Region[] {
+    return this.regions.filter(r => r.continent === continent).map(r => r.region);
+  }
+
+  /**
+   * Expand filter tokens (regions, ISO codes, country names or continents) into
+   * Region values. Unknown tokens are dropped.
+   */
+  resolveRegions(tokens: string[]): Region[] {
+    const resolved = new Set<Region>();
+    for (const token of tokens) {
+      const continent = this.toContinent(token);
+      if (continent) {
+        this.regionsIn(continent).forEach(r => resolved.add(r));
+        continue;
+      }
+      const region = this.fromName(token);
+      if (region) {
+        resolved.add(region);
+        // KOREA and SOUTH_KOREA are the same country
+        if (region === Region.KOREA) resolved.add(Region.SOUTH_KOREA);
+        if (region === Region.SOUTH_KOREA) resolved.add(Region.KOREA);
+      }
+    }
+    return [...resolved];
+  }
+
+  /**
+   * Primary language (ISO 639-1) for a region, or null when unknown
+   */
+  primaryLanguage(region: Region | string | null | undefined): string | null {
+    if (!region) return null;
+    return this.get(region)?.languages[0] ?? null;
+  }
+
+  localizedName(region: Region | string, locale: GeoLocale = 'en'): string {
+    const info = this.get(region);
+    return info ? info.names[locale] : String(region);
+  }
+
+  continents(): Array<{ key: Continent; names: Record<GeoLocale, string>; regions: Region[] }> {
+    return (Object.keys(CONTINENT_NAMES) as Continent[]).map(key => ({
+      key,
+      names: CONTINENT_NAMES[key],
+      regions: this.regionsIn(key),
+    }));
+  }
+}
+
+export const geographyService = new GeographyService();
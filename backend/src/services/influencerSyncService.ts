@@ -2,6 +2,7 @@ import { db, logger } from '../utils/database';
 import { Platform } from '@prisma/client';
 import { scrapeCreatorsService } from './scrapeCreatorsService';
 import { bunnyService } from './bunnyService';
+import { cacheService } from './cacheService';
 
 interface ExternalInfluencer {
   id: number;
@@ -197,6 +198,7 @@ async syncInfluencersToDiscovery(): Promise<{
       throw error;
     }
 
+    if (synced > 0) await cacheService.invalidateCreators();
     logger.info(`\n🔄 Sync complete! Synced: ${synced}, Skipped: ${skipped}, Errors: ${errors}`);
     return { synced, skipped, errors };
   }
@@ -1,5 +1,6 @@
 import { db, logger } from '../utils/database';
 import { Platform } from '@prisma/client';
+import { geographyService } from './geographyService';
 
 interface StreamerData {
   id: string;
@@ -301,7 +302,7 @@ export class InfluencerUnificationService {
       }
 
       // Fall back to region-based country for this platform
-      const regionCountry = this.regionToCountry(streamer.region);
+      const regionCountry = geographyService.toCountryCode(streamer.region);
       if (regionCountry) {
         const priority = this.COUNTRY_SOURCE_PRIORITY[streamer.platform] || 0;
         // Only use if we don't have a better source already
@@ -564,7 +565,7 @@ export class InfluencerUnificationService {
   ): Promise<UnifiedInfluencer | null> {
     const unified: UnifiedInfluencer = {
       displayName: baseStreamer.displayName,
-      country: this.regionToCountry(baseStreamer.region),
+      country: geographyService.toCountryCode(baseStreamer.region),
       countrySource: baseStreamer.platform,
       language: baseStreamer.language,
       primaryCategory: baseStreamer.primaryCategory,
@@ -613,7 +614,7 @@ export class InfluencerUnificationService {
 
   private createStandaloneInfluencer(streamer: StreamerData): UnifiedInfluencer {
     // Use inferredCountry if available (from YouTube API), otherwise fall back to region
-    const country = streamer.inferredCountry || this.regionToCountry(streamer.region);
+    const country = streamer.inferredCountry || geographyService.toCountryCode(streamer.region);
     const countrySource = streamer.inferredCountrySource || (country ? streamer.platform : null);
 
     const unified: UnifiedInfluencer = {
@@ -905,30 +906,6 @@ export class InfluencerUnificationService {
     }
   }
 
-  private regionToCountry(region: string): string | null {
-    const regionMap: Record<string, string | null> = {
-      'MEXICO': 'MX',
-      'COLOMBIA': 'CO',
-      'ARGENTINA': 'AR',
-      'CHILE': 'CL',
-      'PERU': 'PE',
-      'VENEZUELA': 'VE',
-      'ECUADOR': 'EC',
-      'BRAZIL': 'BR',
-      'USA': 'US',
-      'CANADA': 'CA',
-      'UK': 'GB',
-      'SPAIN': 'ES',
-      'GERMANY': 'DE',
-      'FRANCE': 'FR',
-      'JAPAN': 'JP',
-      'KOREA': 'KR',
-      'WORLDWIDE': null,
-      'OTHER': null,
-    };
-    return regionMap[region] ?? null;
-  }
-
   private parseSocialLink(url: string): { platform: Platform; username: string } | null {
     const patterns: { pattern: RegExp; platform: Platform }[] = [
       { pattern: /tiktok\.com\/@?([a-zA-Z0-9_.]+)/i, platform: 'TIKTOK' },
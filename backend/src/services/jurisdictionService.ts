@@ -0,0 +1,249 @@
+import { DiscoveryJurisdictionRule, GamblingVertical } from '@prisma/client';
+import { db, logger } from '../utils/database';
+import { auditService } from './auditService';
+import { geographyService } from './geographyService';
+
+/**
+ * JurisdictionService
+ *
+ * Decides whether a creator can be offered for a gambling campaign based on the
+ * rules for their primary market (discovery_jurisdiction_rules). The market is
+ * the creator's inferredCountry, falling back to the country of their region.
+ * Every decision names the rule that produced it so recommendation results can
+ * show why a creator was kept or dropped.
+ */
+
+const RULES_TTL_MS = 5 * 60 * 1000;
+
+// Free-text campaign verticals -> regulated gambling vertical
+const VERTICAL_ALIASES: Record<string, GamblingVertical> = {
+  igaming: GamblingVertical.CASINO,
+  casino: GamblingVertical.CASINO,
+  slots: GamblingVertical.CASINO,
+  gambling: GamblingVertical.CASINO,
+  betting: GamblingVertical.SPORTS_BETTING,
+  sports_betting: GamblingVertical.SPORTS_BETTING,
+  sportsbook: GamblingVertical.SPORTS_BETTING,
+  poker: GamblingVertical.POKER,
+  lottery: GamblingVertical.LOTTERY,
+  bingo: GamblingVertical.LOTTERY,
+  sweepstakes: GamblingVertical.LOTTERY,
+};
+
+export type ComplianceRule =
+  | 'NOT_REGULATED'           // Campaign vertical isn't gambling
+  | 'MARKET_ALLOWED'          // Market rule allows the vertical
+  | 'MARKET_BLACKLISTED'      // Market forbids gambling promotion entirely
+  | 'VERTICAL_NOT_ALLOWED'    // Market allows gambling, but not this vertical
+  | 'UNKNOWN_MARKET'          // Creator has no country or region we can resolve
+  | 'NO_RULE_FOR_MARKET';     // Market known but not in the rules table
+
+export interface ComplianceDecision {
+  allowed: boolean;
+  rule: ComplianceRule;
+  reason: string;
+  vertical: GamblingVertical | null;
+  market: string | null;
+  marketSource: 'inferredCountry' | 'region' | null;
+  requirements?: {
+    minAge: number;
+    ageGateRequired: boolean;
+    disclosureRequired: boolean;
+    disclosureText: string | null;
+  };
+}
+
+export interface ComplianceOptions {
+  // Drop creators whose market is unknown or has no rule (default: keep them, flagged)
+  strict?: boolean;
+}
+
+export interface JurisdictionRuleInput {
+  blacklisted?: boolean;
+  allowedVerticals?: GamblingVertical[];
+  minAge?: number;
+  ageGateRequired?: boolean;
+  disclosureRequired?: boolean;
+  disclosureText?: string | null;
+  notes?: string | null;
+}
+
+interface MarketCreator {
+  inferredCountry?: string | null;
+  region?: string | null;
+}
+
+class JurisdictionService {
+  private cache: { rules: Map<string, DiscoveryJurisdictionRule>; expiresAt: number } | null = null;
+
+  /**
+   * Campaign vertical (igaming, casino, betting, ...) -> GamblingVertical, or null for non-gambling campaigns
+   */
+  toVertical(value: string | null | undefined): GamblingVertical | null {
+    if (!value) return null;
+    const key = value.trim().toLowerCase().replace(/[\s-]+/g, '_');
+    if (key.toUpperCase() in GamblingVertical) return key.toUpperCase() as GamblingVertical;
+    return VERTICAL_ALIASES[key] ?? null;
+  }
+
+  /**
+   * Primary audience market as ISO-3166 alpha-2
+   */
+  primaryMarket(creator: MarketCreator): { market: string | null; source: ComplianceDecision['marketSource'] } {
+    const inferred = creator.inferredCountry?.trim().toUpperCase();
+    if (inferred && geographyService.fromCountryCode(inferred)) {
+      return { market: inferred === 'UK' ? 'GB' : inferred, source: 'inferredCountry' };
+    }
+    const fromRegion = geographyService.toCountryCode(creator.region);
+    if (fromRegion) return { market: fromRegion, source: 'region' };
+    return { market: null, source: null };
+  }
+
+  async getRules(): Promise<Map<string, DiscoveryJurisdictionRule>> {
+    if (this.cache && this.cache.expiresAt > Date.now()) return this.cache.rules;
+
+    const rows = await db.discoveryJurisdictionRule.findMany();
+    const rules = new Map(rows.map(r => [r.countryCode, r]));
+    this.cache = { rules, expiresAt: Date.now() + RULES_TTL_MS };
+    return rules;
+  }
+
+  /**
+   * Decide whether one creator may be offered for `vertical`
+   */
+  evaluate(
+    creator: MarketCreator,
+    vertical: GamblingVertical | null,
+    rules: Map<string, DiscoveryJurisdictionRule>,
+    options: ComplianceOptions = {}
+  ): ComplianceDecision {
+    const { market, source } = this.primaryMarket(creator);
+    const base = { vertical, market, marketSource: source };
+
+    if (!vertical) {
+      return { ...base, allowed: true, rule: 'NOT_REGULATED', reason: 'Campaign vertical is not subject to gambling rules' };
+    }
+
+    if (!market) {
+      return {
+        ...base,
+        allowed: !options.strict,
+        rule: 'UNKNOWN_MARKET',
+        reason: 'Primary market unknown - verify audience location before booking',
+      };
+    }
+
+    const rule = rules.get(market);
+    if (!rule) {
+      return {
+        ...base,
+        allowed: !options.strict,
+        rule: 'NO_RULE_FOR_MARKET',
+        reason: `No jurisdiction rule for ${market} - needs compliance review`,
+      };
+    }
+
+    const requirements = {
+      minAge: rule.minAge,
+      ageGateRequired: rule.ageGateRequired,
+      disclosureRequired: rule.disclosureRequired,
+      disclosureText: rule.disclosureText,
+    };
+
+    if (rule.blacklisted) {
+      return {
+        ...base,
+        allowed: false,
+        rule: 'MARKET_BLACKLISTED',
+        reason: `${market} forbids gambling promotion${rule.notes ? ` (${rule.notes})` : ''}`,
+      };
+    }
+
+    if (!rule.allowedVerticals.includes(vertical)) {
+      return {
+        ...base,
+        allowed: false,
+        rule: 'VERTICAL_NOT_ALLOWED',
+        reason: `${vertical} is not permitted in ${market}${rule.notes ? ` (${rule.notes})` : ''}`,
+      };
+    }
+
+    return {
+      ...base,
+      allowed: true,
+      rule: 'MARKET_ALLOWED',
+      reason: `${vertical} permitted in ${market} (${rule.minAge}+${rule.disclosureRequired ? ', disclosure required' : ''})`,
+      requirements,
+    };
+  }
+
+  /**
+   * Split creators into those allowed for the campaign vertical and those excluded, each with its decision
+   */
+  async screen<T extends MarketCreator>(
+    creators: T[],
+    verticalInput: string | null | undefined,
+    options: ComplianceOptions = {}
+  ): Promise<{ allowed: Array<T & { compliance: ComplianceDecision }>; excluded: Array<T & { compliance: ComplianceDecision }> }> {
+    const vertical = this.toVertical(verticalInput);
+    const rules = vertical ? await this.getRules() : new Map<string, DiscoveryJurisdictionRule>();
+
+    const allowed: Array<T & { compliance: ComplianceDecision }> = [];
+    const excluded: Array<T & { compliance: ComplianceDecision }> = [];
+    for (const creator of creators) {
+      const compliance = this.evaluate(creator, vertical, rules, options);
+      (compliance.allowed ? allowed : excluded).push({ ...creator, compliance });
+    }
+    return { allowed, excluded };
+  }
+
+  async list() {
+    return db.discoveryJurisdictionRule.findMany({ orderBy: { countryCode: 'asc' } });
+  }
+
+  async upsert(countryCode: string, input: JurisdictionRuleInput, changedBy: string) {
+    const code = countryCode.toUpperCase();
+    const existing = await db.discoveryJurisdictionRule.findUnique({ where: { countryCode: code } });
+
+    const rule = await db.discoveryJurisdictionRule.upsert({
+      where: { countryCode: code },
+      create: { countryCode: code, ...input, allowedVerticals: input.allowedVerticals ?? [], updatedBy: changedBy },
+      update: { ...input, updatedBy: changedBy },
+    });
+    this.cache = null;
+
+    await auditService.log({
+      tableName: 'discovery_jurisdiction_rules',
+      recordId: code,
+      action: existing ? 'UPDATE' : 'INSERT',
+      changedBy,
+      oldValues: existing,
+      newValues: rule,
+    });
+    logger.info(`⚖️ Jurisdiction rule ${existing ? 'updated' : 'created'}: ${code} by ${changedBy}`);
+
+    return rule;
+  }
+
+  async remove(countryCode: string, changedBy: string): Promise<boolean> {
+    const code = countryCode.toUpperCase();
+    const existing = await db.discoveryJurisdictionRule.findUnique({ where: { countryCode: code } });
+    if (!existing) return false;
+
+    await db.discoveryJurisdictionRule.delete({ where: { countryCode: code } });
+    this.cache = null;
+
+    await auditService.log({
+      tableName: 'discovery_jurisdiction_rules',
+      recordId: code,
+      action: 'DELETE',
+      changedBy,
+      oldValues: existing,
+    });
+    logger.info(`⚖️ Jurisdiction rule removed: ${code} by ${changedBy}`);
+
+    return true;
+  }
+}
+
+export const jurisdictionService = new JurisdictionService();
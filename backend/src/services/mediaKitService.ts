@@ -0,0 +1,184 @@
+import { Prisma } from '@prisma/client';
+import { db, logger } from '../utils/database';
+import { AppError } from '../middleware/errorHandler';
+import { CreatorKit, creatorKitHtml, shortlistDeckHtml } from '../mediaKit/templates';
+import { pdfRenderers } from '../mediaKit/pdfRenderer';
+import { metricSnapshotService } from './metricSnapshotService';
+import { SHORTLIST_ORDER, ShortlistRef, shortlistService } from './shortlistService';
+import { workspaceService } from './workspaceService';
+
+/**
+ * MediaKitService
+ *
+ * Branded PDF media kits: one page per creator, or a deck for a whole
+ * shortlist (cover + one page per creator, in list order). Reach across
+ * platforms comes from the creator's Influencer record when one has been
+ * built, growth from the daily metric snapshots and top games from the last
+ * 90 days of tracked streams. A workspace id white-labels the PDF with that
+ * workspace's logo and colours.
+ *
+ * Kits are built from public profile data and scores only - shortlist notes,
+ * comments and historicalCpa never end up in a PDF handed to a client.
+ */
+
+const TOP_GAMES = 5;
+const TOP_GAMES_DAYS = 90;
+const MAX_DECK_CREATORS = 100;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const creatorSelect = {
+  id: true,
+  platform: true,
+  username: true,
+  displayName: true,
+  avatarUrl: true,
+  profileUrl: true,
+  region: true,
+  countryCode: true,
+  inferredCountry: true,
+  language: true,
+  primaryCategory: true,
+  followers: true,
+  avgViewers: true,
+  highestViewers: true,
+  totalViews: true,
+  engagementRate: true,
+  topGames: true,
+  igamingScore: true,
+  brandSafetyScore: true,
+  gamblingCompatibility: true,
+} as const;
+
+type Creator = Prisma.StreamerGetPayload<{ select: typeof creatorSelect }>;
+
+const REACH_FIELDS = [
+  ['TWITCH', 'twitchFollowers'],
+  ['YOUTUBE', 'youtubeFollowers'],
+  ['KICK', 'kickFollowers'],
+  ['TIKTOK', 'tiktokFollowers'],
+  ['INSTAGRAM', 'instagramFollowers'],
+  ['X', 'xFollowers'],
+  ['FACEBOOK', 'facebookFollowers'],
+  ['LINKEDIN', 'linkedinFollowers'],
+] as const;
+
+const safeFilename = (value: string) => value.replace(/[^a-z0-9-_]+/gi, '-').replace(/^-+|-+$/g, '').slice(0, 80) || 'media-kit';
+
+class MediaKitService {
+  /**
+   * Everything a kit page shows for one creator
+   */
+  async creatorKit(streamerId: string): Promise<CreatorKit> {
+    const creator = await db.streamer.findUnique({ where: { id: streamerId }, select: creatorSelect });
+    if (!creator) {
+      throw new AppError('Creator not found', 404);
+    }
+    return this.buildKit(creator);
+  }
+
+  async creatorPdf(userId: string, streamerId: string, workspaceId?: string): Promise<{ filename: string; pdf: Buffer }> {
+    const brand = await workspaceService.brandFor(userId, workspaceId);
+    const kit = await this.creatorKit(streamerId);
+    const pdf = await pdfRenderers.current().render(creatorKitHtml(kit, brand));
+
+    logger.info(`📄 Media kit for ${kit.username} generated by ${userId}`);
+    return { filename: `${safeFilename(kit.username)}-media-kit.pdf`, pdf };
+  }
+
+  /**
+   * Deck for a shortlist the user can read (own or shared), capped at MAX_DECK_CREATORS
+   */
+  async shortlistPdf(userId: string, ref: ShortlistRef, workspaceId?: string): Promise<{ filename: string; pdf: Buffer }> {
+    await shortlistService.requireAccess(userId, ref, 'read');
+    const brand = await workspaceService.brandFor(userId, workspaceId);
+
+    const entries = await db.discoveryShortlist.findMany({
+      where: { userId: ref.ownerId, listName: ref.listName },
+      select: { streamer: { select: creatorSelect } },
+      orderBy: SHORTLIST_ORDER,
+      take: MAX_DECK_CREATORS,
+    });
+    if (entries.length === 0) {
+      throw new AppError('This shortlist has no creators yet', 400);
+    }
+
+    const kits: CreatorKit[] = [];
+    for (const { streamer } of entries) {
+      kits.push(await this.buildKit(streamer));
+    }
+    const pdf = await pdfRenderers.current().render(shortlistDeckHtml(ref.listName, kits, brand));
+
+    logger.info(`📄 Shortlist deck ${ref.ownerId}/${ref.listName} (${kits.length} creators) generated by ${userId}`);
+    return { filename: `${safeFilename(ref.listName)}-shortlist.pdf`, pdf };
+  }
+
+  private async buildKit(creator: Creator): Promise<CreatorKit> {
+    const [influencer, growth, topGames] = await Promise.all([
+      db.influencer.findFirst({ where: { sourceStreamerIds: { has: creator.id } } }),
+      metricSnapshotService.getGrowthHistory(creator.id, {
+        followers: creator.followers,
+        avgViewers: creator.avgViewers,
+        totalViews: creator.totalViews,
+        engagementRate: creator.engagementRate,
+      }),
+      this.topGames(creator),
+    ]);
+
+    // The Influencer record merges the creator's profiles across platforms; without one it's just this profile
+    const reach = influencer
+      ? REACH_FIELDS
+          .map(([platform, field]) => ({ platform, followers: influencer[field] ?? 0 }))
+          .filter(r => r.followers > 0)
+          .sort((a, b) => b.followers - a.followers)
+      : [{ platform: creator.platform, followers: creator.followers }];
+    const month = growth.windows['30d'];
+
+    return {
+      displayName: creator.displayName,
+      username: creator.username,
+      platform: creator.platform,
+      avatarUrl: creator.avatarUrl,
+      profileUrl: creator.profileUrl,
+      region: creator.region,
+      country: creator.countryCode || creator.inferredCountry || influencer?.country || null,
+      language: creator.language,
+      category: creator.primaryCategory,
+      reach,
+      totalReach: influencer ? Number(influencer.totalReach) : creator.followers,
+      avgViewers: creator.avgViewers,
+      peakViewers: creator.highestViewers,
+      engagementRate: creator.engagementRate,
+      growth: {
+        followersPct: month?.followers.pct ?? null,
+        avgViewersPct: month?.avgViewers.pct ?? null,
+        followerTrend: growth.sparklines.followers.slice(-30).map(p => p.value),
+      },
+      topGames,
+      scores: {
+        igaming: creator.igamingScore,
+        brandSafety: creator.brandSafetyScore,
+        gamblingCompatible: creator.gamblingCompatibility,
+      },
+    };
+  }
+
+  /**
+   * Most-streamed games by hours over the last 90 days, falling back to the profile's top games
+   */
+  private async topGames(creator: Creator): Promise<CreatorKit['topGames']> {
+    const sessions = await db.discoveryStreamSession.groupBy({
+      by: ['game'],
+      where: { streamerId: creator.id, game: { not: null }, startedAt: { gte: new Date(Date.now() - TOP_GAMES_DAYS * DAY_MS) } },
+      _sum: { durationMinutes: true },
+      orderBy: { _sum: { durationMinutes: 'desc' } },
+      take: TOP_GAMES,
+    });
+
+    if (sessions.length > 0) {
+      return sessions.map(s => ({ name: s.game!, hours: (s._sum.durationMinutes ?? 0) / 60 }));
+    }
+    return creator.topGames.slice(0, TOP_GAMES).map(name => ({ name, hours: null }));
+  }
+}
+
+export const mediaKitService = new MediaKitService();
@@ -0,0 +1,190 @@
+import { Prisma, WebhookEvent } from '@prisma/client';
+import { db, logger } from '../utils/database';
+import { webhookService, FollowerChange } from './webhookService';
+
+/**
+ * MetricSnapshotService
+ *
+ * Keeps one row per creator per day in discovery_metric_snapshots with the
+ * followers / avgViewers / totalViews / engagementRate values at that time.
+ * Sync jobs call recordSnapshots() after writing fresh metrics; repeated calls
+ * on the same day overwrite that day's row, so the snapshot reflects the last
+ * sync of the day. The 7-day follower growth used for the "fastest growing"
+ * sort is denormalised onto the creator row at the same time, and follower
+ * milestones crossed since the previous snapshot are sent to webhook subscribers.
+ */
+
+export type SnapshotMetric = 'followers' | 'avgViewers' | 'totalViews' | 'engagementRate';
+
+export interface MetricDelta {
+  from: number;
+  to: number;
+  change: number;
+  pct: number | null;
+}
+
+export interface GrowthHistory {
+  windows: Record<string, Record<SnapshotMetric, MetricDelta> | null>;
+  sparklines: Record<SnapshotMetric, Array<{ date: string; value: number }>>;
+  historyFrom: string | null;
+}
+
+const METRICS: SnapshotMetric[] = ['followers', 'avgViewers', 'totalViews', 'engagementRate'];
+const GROWTH_WINDOWS = [7, 30, 90];
+// A baseline may be up to this many days older than the window start (covers missed syncs)
+const BASELINE_TOLERANCE_DAYS = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const startOfUtcDay = (date: Date) => new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+class MetricSnapshotService {
+  /**
+   * Upsert today's snapshot for the given creators and refresh their growth fields.
+   * Never throws: a failed snapshot must not fail the sync that triggered it.
+   */
+  async recordSnapshots(streamerIds: string[]): Promise<number> {
+    const ids = [...new Set(streamerIds.filter(Boolean))];
+    if (ids.length === 0) return 0;
+
+    try {
+      // Read before the upsert overwrites today's row, which may be the previous value
+      const followerChanges = await webhookService.hasSubscribers(WebhookEvent.FOLLOWER_THRESHOLD)
+        ? await this.getFollowerIncreases(ids)
+        : [];
+
+      const written = await db.$executeRaw`
+        INSERT INTO discovery_metric_snapshots
+          (id, streamer_id, snapshot_date, followers, avg_viewers, total_views, engagement_rate, created_at, updated_at)
+        SELECT gen_random_uuid()::text, c.id, CURRENT_DATE, c.followers, c.avg_viewers, c.total_views, c.engagement_rate, NOW(), NOW()
+        FROM discovery_creators c
+        WHERE c.id IN (${Prisma.join(ids)})
+        ON CONFLICT (streamer_id, snapshot_date) DO UPDATE SET
+          followers = EXCLUDED.followers,
+          avg_viewers = EXCLUDED.avg_viewers,
+          total_views = EXCLUDED.total_views,
+          engagement_rate = EXCLUDED.engagement_rate,
+          updated_at = NOW()
+      `;
+
+      await this.refreshGrowth(ids);
+      await webhookService.emitFollowerCrossings(followerChanges);
+      return written;
+    } catch (error: any) {
+      logger.error('Failed to record metric snapshots', { count: ids.length, message: error?.message });
+      return 0;
+    }
+  }
+
+  /**
+   * Creators whose current followers exceed their most recent snapshot
+   */
+  private async getFollowerIncreases(ids: string[]): Promise<FollowerChange[]> {
+    return db.$queryRaw<FollowerChange[]>`
+      SELECT c.id AS "streamerId", s.followers AS previous, c.followers AS current
+      FROM discovery_creators c
+      JOIN LATERAL (
+        SELECT followers FROM discovery_metric_snapshots
+        WHERE streamer_id = c.id
+        ORDER BY snapshot_date DESC
+        LIMIT 1
+      ) s ON true
+      WHERE c.id IN (${Prisma.join(ids)}) AND c.followers > s.followers
+    `;
+  }
+
+  /**
+   * Recompute followerGrowth7d / followerGrowthPct7d from the snapshot closest to 7 days ago.
+   * Creators without a snapshot in that window get NULL rather than keeping a stale value.
+   */
+  private async refreshGrowth(ids: string[]): Promise<void> {
+    await db.$executeRaw`
+      UPDATE discovery_creators c
+      SET follower_growth_7d = c.followers - s.followers,
+          follower_growth_pct_7d = CASE WHEN s.followers > 0
+            THEN ((c.followers - s.followers)::double precision / s.followers) * 100
+            ELSE NULL END
+      FROM discovery_creators t
+      LEFT JOIN LATERAL (
+        SELECT followers
+        FROM discovery_metric_snapshots
+        WHERE streamer_id = t.id
+          AND snapshot_date <= CURRENT_DATE - 7
+          AND snapshot_date >= CURRENT_DATE - ${7 + BASELINE_TOLERANCE_DAYS}::int
+        ORDER BY snapshot_date DESC
+        LIMIT 1
+      ) s ON true
+      WHERE t.id IN (${Prisma.join(ids)}) AND c.id = t.id
+    `;
+  }
+
+  /**
+   * 7/30/90-day deltas and 90-day sparklines for one creator
+   */
+  async getGrowthHistory(
+    streamerId: string,
+    current: { followers: number; avgViewers: number; totalViews: bigint | number; engagementRate: number }
+  ): Promise<GrowthHistory> {
+    const today = startOfUtcDay(new Date());
+    const maxWindow = Math.max(...GROWTH_WINDOWS);
+    const since = new Date(today.getTime() - (maxWindow + BASELINE_TOLERANCE_DAYS) * DAY_MS);
+
+    const snapshots = await db.discoveryMetricSnapshot.findMany({
+      where: { streamerId, snapshotDate: { gte: since } },
+      orderBy: { snapshotDate: 'asc' },
+      select: { snapshotDate: true, followers: true, avgViewers: true, totalViews: true, engagementRate: true },
+    });
+
+    const now: Record<SnapshotMetric, number> = {
+      followers: current.followers,
+      avgViewers: current.avgViewers,
+      totalViews: Number(current.totalViews),
+      engagementRate: current.engagementRate,
+    };
+
+    const windows: GrowthHistory['windows'] = {};
+    for (const days of GROWTH_WINDOWS) {
+      const cutoff = today.getTime() - days * DAY_MS;
+      const earliest = cutoff - BASELINE_TOLERANCE_DAYS * DAY_MS;
+      const baseline = [...snapshots].reverse().find(s => {
+        const t = s.snapshotDate.getTime();
+        return t <= cutoff && t >= earliest;
+      });
+
+      if (!baseline) {
+        windows[`${days}d`] = null;
+        continue;
+      }
+
+      const deltas = {} as Record<SnapshotMetric, MetricDelta>;
+      for (const metric of METRICS) {
+        const from = Number(baseline[metric]);
+        const to = now[metric];
+        deltas[metric] = {
+          from,
+          to,
+          change: to - from,
+          pct: from > 0 ? Math.round(((to - from) / from) * 10000) / 100 : null,
+        };
+      }
+      windows[`${days}d`] = deltas;
+    }
+
+    const sparkStart = today.getTime() - maxWindow * DAY_MS;
+    const recent = snapshots.filter(s => s.snapshotDate.getTime() >= sparkStart);
+    const sparklines = {} as GrowthHistory['sparklines'];
+    for (const metric of METRICS) {
+      sparklines[metric] = recent.map(s => ({
+        date: s.snapshotDate.toISOString().slice(0, 10),
+        value: Number(s[metric]),
+      }));
+    }
+
+    return {
+      windows,
+      sparklines,
+      historyFrom: snapshots.length > 0 ? snapshots[0].snapshotDate.toISOString().slice(0, 10) : null,
+    };
+  }
+}
+
+export const metricSnapshotService = new MetricSnapshotService();
@@ -0,0 +1,692 @@
+import crypto from 'crypto';
+import {
+  DiscoveryOutreachEmail,
+  DiscoveryOutreachTemplate,
+  DiscoverySmtpSettings,
+  OutreachEmailStatus,
+  Prisma,
+} from '@prisma/client';
+import { db, logger } from '../utils/database';
+import { AppError } from '../middleware/errorHandler';
+import { decryptSecret, encryptSecret, isSecretBoxConfigured } from '../utils/secretBox';
+import { emailService, SmtpAccount } from './emailService';
+import { outreachService } from './outreachService';
+import { buildBodies, mergeValues, renderTemplate, unknownFields } from '../outreach/templates';
+import { InboundEvent } from '../outreach/inbound';
+
+/**
+ * OutreachEmailService
+ *
+ * Templated bulk outreach email. A send renders the user's template for each
+ * creator (to their best validated email or manager contact) and queues one
+ * discovery_outreach_emails row per creator; outreachEmailJob sends the queue
+ * through the user's own SMTP account:
+ *
+ * - opt-outs (unsubscribe link, complaints, manual) are skipped at queue and send time
+ * - sends are throttled per sender domain (hourly cap plus a minimum gap)
+ * - each email is claimed (QUEUED -> SENDING) before it goes out, so several
+ *   instances working the queue never send it twice
+ * - failed sends retry after 5m and 30m, then fail
+ * - a sent email logs CONTACTED in the outreach log; bounces (which also mark
+ *   the contact invalid) and replies come back through handleInbound
+ */
+
+export interface SmtpSettingsInput {
+  host: string;
+  port: number;
+  secure: boolean;
+  username: string;
+  password?: string;
+  fromName?: string | null;
+  fromEmail: string;
+  replyTo?: string | null;
+}
+
+export interface TemplateInput {
+  name: string;
+  subject: string;
+  body: string;
+}
+
+export interface SendRequest {
+  templateId: string;
+  streamerIds: string[];
+  campaignName?: string | null;
+}
+
+export type SkipReason = 'not_found' | 'no_email' | 'opted_out' | 'already_queued';
+
+export interface ThrottleLimits {
+  perHour: number;
+  minGapMs: number;
+}
+
+const RETRY_DELAYS_MS = [5 * 60 * 1000, 30 * 60 * 1000];
+const MAX_ATTEMPTS = RETRY_DELAYS_MS.length + 1;
+const SEND_BATCH_SIZE = 50;
+// A claim outlives any SMTP send; after it lapses the sender is assumed dead and the email is retried
+const SEND_CLAIM_MS = 10 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+const creatorSelect = {
+  id: true,
+  displayName: true,
+  username: true,
+  platform: true,
+  currentGame: true,
+  topGames: true,
+  primaryCategory: true,
+  followers: true,
+  email: true,
+  businessEmail: true,
+  contacts: {
+    where: { type: { in: ['EMAIL', 'MANAGER'] }, status: { not: 'INVALID' } },
+    orderBy: { confidence: 'desc' },
+    select: { id: true, value: true },
+  },
+} satisfies Prisma.StreamerSelect;
+
+type OutreachCreator = Prisma.StreamerGetPayload<{ select: typeof creatorSelect }>;
+
+/**
+ * How long to wait before the next send from a domain, given when it last sent
+ * (newest first, within the past hour); 0 when it can send now
+ */
+export function throttleDelay(recentSends: Date[], now: Date, limits: ThrottleLimits): number {
+  let wait = 0;
+  if (recentSends.length > 0) {
+    wait = Math.max(wait, recentSends[0].getTime() + limits.minGapMs - now.getTime());
+  }
+  if (recentSends.length >= limits.perHour) {
+    // The window frees up when the oldest send that counts towards the cap is an hour old
+    const oldestCounted = recentSends[limits.perHour - 1];
+    wait = Math.max(wait, oldestCounted.getTime() + HOUR_MS - now.getTime());
+  }
+  return Math.max(wait, 0);
+}
+
+const throttleLimits = (): ThrottleLimits => ({
+  perHour: parseInt(process.env.OUTREACH_DOMAIN_HOURLY_LIMIT || '40', 10),
+  minGapMs: parseInt(process.env.OUTREACH_DOMAIN_MIN_GAP_SECONDS || '20', 10) * 1000,
+});
+
+const domainOf = (email: string) => email.split('@')[1]?.toLowerCase() || '';
+
+const publicUrl = () => (process.env.PUBLIC_API_URL || `http://localhost:${process.env.PORT || 5001}`).replace(/\/$/, '');
+
+export const unsubscribeUrl = (token: string) => `${publicUrl()}/api/outreach-email/unsubscribe/${token}`;
+
+class OutreachEmailService {
+  private processing = false;
+
+  // ---------------------------------------------------------------------------
+  // SMTP settings
+
+  /**
+   * A user's SMTP settings without the password
+   */
+  async getSettings(userId: string) {
+    const settings = await db.discoverySmtpSettings.findUnique({ where: { userId } });
+    return settings ? this.publicSettings(settings) : null;
+  }
+
+  async saveSettings(userId: string, input: SmtpSettingsInput) {
+    if (!isSecretBoxConfigured()) {
+      throw new AppError('Outreach email is not configured on this server (CREDENTIALS_ENCRYPTION_KEY)', 503);
+    }
+    const existing = await db.discoverySmtpSettings.findUnique({ where: { userId } });
+    if (!existing && !input.password) {
+      throw new AppError('password is required', 400);
+    }
+
+    const { password, ...fields } = input;
+    const data = {
+      ...fields,
+      fromName: fields.fromName || null,
+      replyTo: fields.replyTo || null,
+      // A changed account has to be tested again
+      verifiedAt: null,
+      ...(password ? { passwordEncrypted: encryptSecret(password) } : {}),
+    };
+    const settings = await db.discoverySmtpSettings.upsert({
+      where: { userId },
+      create: { userId, ...data, passwordEncrypted: data.passwordEncrypted! },
+      update: data,
+    });
+    logger.info(`✉️ SMTP settings saved for ${userId} (${settings.host})`);
+    return this.publicSettings(settings);
+  }
+
+  async deleteSettings(userId: string): Promise<boolean> {
+    const { count } = await db.discoverySmtpSettings.deleteMany({ where: { userId } });
+    return count > 0;
+  }
+
+  /**
+   * Log in to the user's SMTP server without sending anything
+   */
+  async testSettings(userId: string) {
+    const settings = await db.discoverySmtpSettings.findUnique({ where: { userId } });
+    if (!settings) {
+      throw new AppError('SMTP settings not found', 404);
+    }
+
+    try {
+      await emailService.verify(this.account(settings));
+    } catch (error: any) {
+      // The raw error can describe whatever answered on that host and port, so it stays in the logs
+      logger.warn(`✉️ SMTP test failed for ${userId} (${settings.host}:${settings.port})`, { message: error?.message });
+      throw new AppError('Could not connect to the SMTP server - check the host, port and credentials', 400);
+    }
+    const updated = await db.discoverySmtpSettings.update({ where: { userId }, data: { verifiedAt: new Date() } });
+    return this.publicSettings(updated);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Templates
+
+  async listTemplates(userId: string): Promise<DiscoveryOutreachTemplate[]> {
+    return db.discoveryOutreachTemplate.findMany({ where: { userId }, orderBy: { name: 'asc' } });
+  }
+
+  async createTemplate(userId: string, input: TemplateInput): Promise<DiscoveryOutreachTemplate> {
+    this.checkFields(input);
+    return this.withUniqueName(() => db.discoveryOutreachTemplate.create({ data: { userId, ...input } }));
+  }
+
+  async updateTemplate(userId: string, id: string, input: Partial<TemplateInput>): Promise<DiscoveryOutreachTemplate> {
+    await this.getTemplate(userId, id);
+    this.checkFields(input);
+    return this.withUniqueName(() => db.discoveryOutreachTemplate.update({ where: { id }, data: input }));
+  }
+
+  async deleteTemplate(userId: string, id: string): Promise<boolean> {
+    const { count } = await db.discoveryOutreachTemplate.deleteMany({ where: { id, userId } });
+    return count > 0;
+  }
+
+  /**
+   * The template rendered for one creator, as it would be sent
+   */
+  async preview(userId: string, templateId: string, streamerId: string, campaignName?: string | null) {
+    const [template, settings, creator] = await Promise.all([
+      this.getTemplate(userId, templateId),
+      db.discoverySmtpSettings.findUnique({ where: { userId } }),
+      db.streamer.findUnique({ where: { id: streamerId }, select: creatorSelect }),
+    ]);
+    if (!creator) {
+      throw new AppError('Streamer not found', 404);
+    }
+
+    const { subject, body } = this.render(template, creator, campaignName, settings);
+    return { to: this.recipient(creator)?.email ?? null, subject, body };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Sending
+
+  /**
+   * Render a template for each creator and queue the emails
+   */
+  async queue(userId: string, request: SendRequest) {
+    const template = await this.getTemplate(userId, request.templateId);
+    const settings = await db.discoverySmtpSettings.findUnique({ where: { userId } });
+    if (!settings) {
+      throw new AppError('Set up your SMTP account before sending outreach', 400);
+    }
+
+    const streamerIds = [...new Set(request.streamerIds)];
+    const [creators, alreadyQueued] = await Promise.all([
+      db.streamer.findMany({ where: { id: { in: streamerIds } }, select: creatorSelect }),
+      db.discoveryOutreachEmail.findMany({
+        where: { userId, streamerId: { in: streamerIds }, status: { in: [OutreachEmailStatus.QUEUED, OutreachEmailStatus.SENDING] } },
+        select: { streamerId: true },
+      }),
+    ]);
+    const byId = new Map(creators.map(c => [c.id, c]));
+    const queued = new Set(alreadyQueued.map(e => e.streamerId));
+    const recipients = new Map(creators.map(c => [c.id, this.recipient(c)]));
+    const optedOut = await this.optedOut([...recipients.values()].flatMap(r => r ? [r.email] : []));
+
+    const skipped: Array<{ streamerId: string; reason: SkipReason }> = [];
+    const rows: Array<Omit<Prisma.DiscoveryOutreachEmailCreateManyInput, 'batchId'>> = [];
+    for (const streamerId of streamerIds) {
+      const creator = byId.get(streamerId);
+      const recipient = recipients.get(streamerId);
+      const reason: SkipReason | null = !creator ? 'not_found'
+        : !recipient ? 'no_email'
+        : optedOut.has(recipient.email) ? 'opted_out'
+        : queued.has(streamerId) ? 'already_queued'
+        : null;
+      if (reason) {
+        skipped.push({ streamerId, reason });
+        continue;
+      }
+
+      const { subject, body } = this.render(template, creator!, request.campaignName, settings);
+      rows.push({
+        userId,
+        streamerId,
+        contactId: recipient!.contactId,
+        toEmail: recipient!.email,
+        subject,
+        body,
+        senderDomain: domainOf(settings.fromEmail),
+        token: crypto.randomBytes(16).toString('hex'),
+        nextAttemptAt: new Date(),
+      });
+    }
+
+    const batch = await db.discoveryOutreachBatch.create({
+      data: {
+        userId,
+        templateId: template.id,
+        campaignName: request.campaignName || null,
+        emails: { createMany: { data: rows } },
+      },
+    });
+    logger.info(`✉️ Outreach batch ${batch.id} by ${userId}: ${rows.length} queued, ${skipped.length} skipped`);
+
+    if (rows.length > 0) void this.processDue();
+    return { batch, queued: rows.length, skipped };
+  }
+
+  /**
+   * Send every queued email that is due, within the per-domain throttle.
+   * Runs from the cron job and after each queue().
+   */
+  async processDue(): Promise<{ sent: number; failed: number; deferred: number }> {
+    const result = { sent: 0, failed: 0, deferred: 0 };
+    if (this.processing) return result;
+    this.processing = true;
+
+    try {
+      while (true) {
+        const due = await db.discoveryOutreachEmail.findMany({
+          where: {
+            status: { in: [OutreachEmailStatus.QUEUED, OutreachEmailStatus.SENDING] },
+            nextAttemptAt: { lte: new Date() },
+          },
+          orderBy: { nextAttemptAt: 'asc' },
+          take: SEND_BATCH_SIZE,
+        });
+        if (due.length === 0) break;
+
+        for (const email of due) {
+          // Another instance got to it first
+          if (!(await this.claim(email))) continue;
+          const outcome = await this.attempt(email);
+          if (outcome === 'SENT') result.sent++;
+          else if (outcome === 'DEFERRED') result.deferred++;
+          else if (outcome === 'FAILED') result.failed++;
+        }
+
+        if (due.length < SEND_BATCH_SIZE) break;
+      }
+    } catch (error: any) {
+      logger.error('Outreach email processing failed', { message: error?.message });
+    } finally {
+      this.processing = false;
+    }
+
+    return result;
+  }
+
+  async listBatches(userId: string, limit: number = 50) {
+    const batches = await db.discoveryOutreachBatch.findMany({
+      where: { userId },
+      include: { template: { select: { id: true, name: true } } },
+      orderBy: { createdAt: 'desc' },
+      take: Math.min(limit, 200),
+    });
+    const counts = await db.discoveryOutreachEmail.groupBy({
+      by: ['batchId', 'status'],
+      where: { batchId: { in: batches.map(b => b.id) } },
+      _count: { _all: true },
+    });
+
+    return batches.map(batch => ({
+      ...batch,
+      counts: Object.fromEntries(counts.filter(c => c.batchId === batch.id).map(c => [c.status, c._count._all])),
+    }));
+  }
+
+  async getBatch(userId: string, batchId: string) {
+    const batch = await db.discoveryOutreachBatch.findFirst({
+      where: { id: batchId, userId },
+      include: {
+        template: { select: { id: true, name: true } },
+        emails: {
+          select: {
+            id: true, streamerId: true, toEmail: true, subject: true, status: true, attempts: true,
+            lastError: true, sentAt: true, bouncedAt: true, repliedAt: true,
+            streamer: { select: { displayName: true, platform: true } },
+          },
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+    });
+    if (!batch) {
+      throw new AppError('Outreach batch not found', 404);
+    }
+    return batch;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Tracking and opt-outs
+
+  /**
+   * Apply a bounce, reply or complaint to the email it refers to. Returns the
+   * email, or null when it doesn't match one of ours.
+   */
+  async handleInbound(event: InboundEvent): Promise<DiscoveryOutreachEmail | null> {
+    const email = await this.findSent(event);
+    if (!email) return null;
+
+    switch (event.type) {
+      case 'bounce': {
+        const updated = await db.discoveryOutreachEmail.update({
+          where: { id: email.id },
+          data: { status: OutreachEmailStatus.BOUNCED, bouncedAt: new Date(), lastError: event.detail || 'Bounced' },
+        });
+        if (email.contactId) {
+          await db.discoveryCreatorContact.update({
+            where: { id: email.contactId },
+            data: { status: 'INVALID', statusDetail: `Bounced: ${event.detail || 'undeliverable'}`, confidence: 0, verifiedAt: new Date() },
+          });
+        }
+        logger.info(`✉️ Outreach email to ${email.toEmail} bounced`);
+        return updated;
+      }
+      case 'reply': {
+        const updated = await db.discoveryOutreachEmail.update({
+          where: { id: email.id },
+          data: { status: OutreachEmailStatus.REPLIED, repliedAt: new Date() },
+        });
+        const current = (await outreachService.currentStatuses(email.userId, [email.streamerId])).get(email.streamerId);
+        // Don't move a creator back from negotiating/signed to replied
+        if (!current || current.status === 'CONTACTED') {
+          await outreachService.record(email.userId, email.streamerId, {
+            status: 'REPLIED',
+            contactId: email.contactId,
+            note: event.detail ? `Email reply: ${event.detail}` : 'Email reply',
+          });
+        }
+        return updated;
+      }
+      case 'complaint':
+        await this.optOut(email.toEmail, 'complaint');
+        return email;
+    }
+  }
+
+  /**
+   * Whether an unsubscribe token belongs to one of our emails (read-only, for the confirmation page)
+   */
+  async isUnsubscribeToken(token: string): Promise<boolean> {
+    return (await db.discoveryOutreachEmail.count({ where: { token } })) > 0;
+  }
+
+  /**
+   * Unsubscribe link from an outreach email. Returns the address, or null for an unknown token.
+   */
+  async unsubscribe(token: string): Promise<string | null> {
+    const email = await db.discoveryOutreachEmail.findUnique({ where: { token }, select: { toEmail: true } });
+    if (!email) return null;
+    await this.optOut(email.toEmail, 'unsubscribe');
+    return email.toEmail;
+  }
+
+  async optOut(address: string, source: string, createdBy?: string) {
+    const email = address.trim().toLowerCase();
+    const optOut = await db.discoveryEmailOptOut.upsert({
+      where: { email },
+      create: { email, source, createdBy: createdBy ?? null },
+      update: {},
+    });
+    // Anything still queued for the address stays unsent
+    await db.discoveryOutreachEmail.updateMany({
+      where: { toEmail: email, status: OutreachEmailStatus.QUEUED },
+      data: { status: OutreachEmailStatus.SKIPPED, lastError: 'Opted out', nextAttemptAt: null },
+    });
+    logger.info(`✉️ ${email} opted out of outreach (${source})`);
+    return optOut;
+  }
+
+  /**
+   * Users can only lift manual opt-outs they added themselves; unsubscribes and
+   * complaints come from the recipient and stay (admins can remove any entry)
+   */
+  async removeOptOut(userId: string, address: string, isAdmin = false): Promise<boolean> {
+    const optOut = await db.discoveryEmailOptOut.findUnique({ where: { email: address.trim().toLowerCase() } });
+    if (!optOut) return false;
+    if (!isAdmin && (optOut.source !== 'manual' || optOut.createdBy !== userId)) {
+      throw new AppError('Only manual opt-outs you added yourself can be removed', 403);
+    }
+
+    await db.discoveryEmailOptOut.delete({ where: { email: optOut.email } });
+    logger.info(`✉️ Opt-out for ${optOut.email} removed by ${userId}`);
+    return true;
+  }
+
+  /**
+   * The caller's own manual entries plus any opt-out covering an address they have emailed
+   */
+  async listOptOuts(userId: string, search?: string) {
+    const recipients = await db.discoveryOutreachEmail.findMany({
+      where: { userId },
+      select: { toEmail: true },
+      distinct: ['toEmail'],
+    });
+
+    return db.discoveryEmailOptOut.findMany({
+      where: {
+        OR: [
+          { source: 'manual', createdBy: userId },
+          { email: { in: recipients.map(r => r.toEmail) } },
+        ],
+        ...(search ? { email: { contains: search.toLowerCase() } } : {}),
+      },
+      orderBy: { createdAt: 'desc' },
+      take: 500,
+    });
+  }
+
+  // ---------------------------------------------------------------------------
+
+  // Atomically claim a due email - returns false when another sender already took it
+  private async claim(email: DiscoveryOutreachEmail): Promise<boolean> {
+    const result = await db.discoveryOutreachEmail.updateMany({
+      where: { id: email.id, status: email.status, nextAttemptAt: email.nextAttemptAt },
+      data: { status: OutreachEmailStatus.SENDING, nextAttemptAt: new Date(Date.now() + SEND_CLAIM_MS) },
+    });
+    return result.count > 0;
+  }
+
+  private async attempt(email: DiscoveryOutreachEmail): Promise<'SENT' | 'FAILED' | 'RETRY' | 'DEFERRED' | 'SKIPPED'> {
+    if ((await this.optedOut([email.toEmail])).size > 0) {
+      await this.finish(email, OutreachEmailStatus.SKIPPED, 'Opted out');
+      return 'SKIPPED';
+    }
+
+    const settings = await db.discoverySmtpSettings.findUnique({ where: { userId: email.userId } });
+    const password = settings ? decryptSecret(settings.passwordEncrypted) : null;
+    if (!settings || password === null) {
+      await this.finish(email, OutreachEmailStatus.FAILED, settings ? 'SMTP password can no longer be decrypted' : 'No SMTP settings');
+      return 'FAILED';
+    }
+
+    const senderDomain = domainOf(settings.fromEmail);
+    const recent = await db.discoveryOutreachEmail.findMany({
+      where: { senderDomain, sentAt: { gte: new Date(Date.now() - HOUR_MS) } },
+      select: { sentAt: true },
+      orderBy: { sentAt: 'desc' },
+    });
+    const wait = throttleDelay(recent.map(r => r.sentAt!), new Date(), throttleLimits());
+    if (wait > 0) {
+      await db.discoveryOutreachEmail.update({
+        where: { id: email.id },
+        data: { status: OutreachEmailStatus.QUEUED, senderDomain, nextAttemptAt: new Date(Date.now() + wait) },
+      });
+      return 'DEFERRED';
+    }
+
+    const attempts = email.attempts + 1;
+    const { text, html } = buildBodies(email.body, unsubscribeUrl(email.token));
+    try {
+      const messageId = await emailService.sendVia(this.account(settings, password), {
+        to: email.toEmail,
+        from: settings.fromName ? `"${settings.fromName.replace(/"/g, '')}" <${settings.fromEmail}>` : settings.fromEmail,
+        replyTo: settings.replyTo || undefined,
+        subject: email.subject,
+        text,
+        html,
+        messageId: `<${email.token}@${senderDomain}>`,
+        headers: {
+          'List-Unsubscribe': `<${unsubscribeUrl(email.token)}>`,
+          'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+        },
+      });
+
+      await db.discoveryOutreachEmail.update({
+        where: { id: email.id },
+        data: {
+          status: OutreachEmailStatus.SENT,
+          attempts,
+          senderDomain,
+          sentAt: new Date(),
+          messageId: messageId.replace(/^<|>$/g, '').toLowerCase(),
+          lastError: null,
+          nextAttemptAt: null,
+        },
+      });
+      await this.logContacted(email);
+      return 'SENT';
+    } catch (error: any) {
+      const message = error?.response || error?.message || 'Send failed';
+      if (attempts >= MAX_ATTEMPTS) {
+        await this.finish(email, OutreachEmailStatus.FAILED, message, attempts);
+        logger.warn(`Outreach email ${email.id} to ${email.toEmail} failed after ${attempts} attempts: ${message}`);
+        return 'FAILED';
+      }
+      await db.discoveryOutreachEmail.update({
+        where: { id: email.id },
+        data: {
+          status: OutreachEmailStatus.QUEUED,
+          attempts,
+          senderDomain,
+          lastError: message,
+          nextAttemptAt: new Date(Date.now() + RETRY_DELAYS_MS[attempts - 1]),
+        },
+      });
+      return 'RETRY';
+    }
+  }
+
+  private async finish(email: DiscoveryOutreachEmail, status: OutreachEmailStatus, error: string, attempts = email.attempts) {
+    await db.discoveryOutreachEmail.update({
+      where: { id: email.id },
+      data: { status, attempts, lastError: error, nextAttemptAt: null },
+    });
+  }
+
+  // First contact starts the creator's outreach log; later sends leave the status alone
+  private async logContacted(email: DiscoveryOutreachEmail) {
+    const current = await outreachService.currentStatuses(email.userId, [email.streamerId]);
+    if (current.has(email.streamerId)) return;
+    await outreachService.record(email.userId, email.streamerId, {
+      status: 'CONTACTED',
+      contactId: email.contactId,
+      note: `Email: ${email.subject}`,
+    });
+  }
+
+  private async findSent(event: InboundEvent): Promise<DiscoveryOutreachEmail | null> {
+    const sent = { status: { in: [OutreachEmailStatus.SENT, OutreachEmailStatus.REPLIED, OutreachEmailStatus.BOUNCED] } };
+    if (event.messageIds && event.messageIds.length > 0) {
+      const byId = await db.discoveryOutreachEmail.findFirst({
+        where: { ...sent, messageId: { in: event.messageIds.map(id => id.replace(/^<|>$/g, '').toLowerCase()) } },
+      });
+      if (byId) return byId;
+    }
+    if (event.recipient) {
+      return db.discoveryOutreachEmail.findFirst({
+        where: { ...sent, toEmail: event.recipient.toLowerCase() },
+        orderBy: { sentAt: 'desc' },
+      });
+    }
+    return null;
+  }
+
+  private recipient(creator: OutreachCreator): { email: string; contactId: string | null } | null {
+    const [contact] = creator.contacts;
+    if (contact) return { email: contact.value, contactId: contact.id };
+    // Creators whose contacts haven't been scanned yet
+    const fallback = creator.businessEmail || creator.email;
+    return fallback ? { email: fallback.trim().toLowerCase(), contactId: null } : null;
+  }
+
+  private render(
+    template: Pick<DiscoveryOutreachTemplate, 'subject' | 'body'>,
+    creator: OutreachCreator,
+    campaignName: string | null | undefined,
+    settings: DiscoverySmtpSettings | null
+  ) {
+    const values = mergeValues(creator, { campaignName, senderName: settings?.fromName });
+    return {
+      // Subjects are a single line
+      subject: renderTemplate(template.subject, values).replace(/\s+/g, ' ').trim(),
+      body: renderTemplate(template.body, values),
+    };
+  }
+
+  private async optedOut(addresses: string[]): Promise<Set<string>> {
+    if (addresses.length === 0) return new Set();
+    const rows = await db.discoveryEmailOptOut.findMany({
+      where: { email: { in: addresses.map(a => a.toLowerCase()) } },
+      select: { email: true },
+    });
+    return new Set(rows.map(r => r.email));
+  }
+
+  private async getTemplate(userId: string, id: string): Promise<DiscoveryOutreachTemplate> {
+    const template = await db.discoveryOutreachTemplate.findFirst({ where: { id, userId } });
+    if (!template) {
+      throw new AppError('Template not found', 404);
+    }
+    return template;
+  }
+
+  private checkFields(input: Partial<TemplateInput>) {
+    const unknown = unknownFields(`${input.subject || ''}\n${input.body || ''}`);
+    if (unknown.length > 0) {
+      throw new AppError(`Unknown merge field${unknown.length === 1 ? '' : 's'}: ${unknown.map(f => `{{${f}}}`).join(', ')}`, 400);
+    }
+  }
+
+  private account(settings: DiscoverySmtpSettings, password?: string | null): SmtpAccount {
+    const pass = password ?? decryptSecret(settings.passwordEncrypted);
+    if (pass === null) {
+      throw new AppError('Stored SMTP password can no longer be decrypted - save it again', 400);
+    }
+    return { host: settings.host, port: settings.port, secure: settings.secure, user: settings.username, pass };
+  }
+
+  private publicSettings(settings: DiscoverySmtpSettings) {
+    const { passwordEncrypted, ...rest } = settings;
+    return { ...rest, hasPassword: !!passwordEncrypted };
+  }
+
+  private async withUniqueName<T>(write: () => Promise<T>): Promise<T> {
+    try {
+      return await write();
+    } catch (error: any) {
+      if (error?.code === 'P2002') {
+        throw new AppError('A template with this name already exists', 409);
+      }
+      throw error;
+    }
+  }
+}
+
+export const outreachEmailService = new OutreachEmailService();
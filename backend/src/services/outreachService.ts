@@ -0,0 +1,83 @@
+import { DiscoveryOutreachEvent, OutreachStatus, Prisma } from '@prisma/client';
+import { db } from '../utils/database';
+import { AppError } from '../middleware/errorHandler';
+import { cacheService } from './cacheService';
+
+/**
+ * OutreachService
+ *
+ * Per-user outreach log for creators (discovery_outreach_events). Every status
+ * change - contacted, replied, negotiating, declined, signed - is a new row, so
+ * the history stays intact; a creator's current status for a user is their
+ * latest row.
+ */
+
+export const OUTREACH_STATUSES: OutreachStatus[] = ['CONTACTED', 'REPLIED', 'NEGOTIATING', 'DECLINED', 'SIGNED'];
+
+export interface OutreachState {
+  status: OutreachStatus;
+  at: Date;
+}
+
+export interface OutreachInput {
+  status: OutreachStatus;
+  contactId?: string | null;
+  note?: string | null;
+}
+
+class OutreachService {
+  async record(userId: string, streamerId: string, input: OutreachInput): Promise<DiscoveryOutreachEvent> {
+    const creator = await db.streamer.findUnique({ where: { id: streamerId }, select: { id: true } });
+    if (!creator) {
+      throw new AppError('Streamer not found', 404);
+    }
+    if (input.contactId) {
+      const contact = await db.discoveryCreatorContact.findFirst({ where: { id: input.contactId, streamerId } });
+      if (!contact) {
+        throw new AppError('Contact does not belong to this creator', 400);
+      }
+    }
+
+    const event = await db.discoveryOutreachEvent.create({
+      data: {
+        userId,
+        streamerId,
+        status: input.status,
+        contactId: input.contactId ?? null,
+        note: input.note ?? null,
+      },
+    });
+    // Listings filtered by outreach status are cached
+    await cacheService.invalidateCreators();
+    return event;
+  }
+
+  /**
+   * A user's outreach history with a creator, newest first
+   */
+  async history(userId: string, streamerId: string) {
+    return db.discoveryOutreachEvent.findMany({
+      where: { userId, streamerId },
+      include: { contact: { select: { id: true, type: true, value: true } } },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * Current status per creator for a user (optionally only the given creators)
+   */
+  async currentStatuses(userId: string, streamerIds?: string[]): Promise<Map<string, OutreachState>> {
+    if (streamerIds && streamerIds.length === 0) return new Map();
+
+    const rows = await db.$queryRaw<Array<{ streamerId: string; status: OutreachStatus; at: Date }>>`
+      SELECT DISTINCT ON (streamer_id) streamer_id AS "streamerId", status, created_at AS at
+      FROM discovery_outreach_events
+      WHERE user_id = ${userId}
+        ${streamerIds ? Prisma.sql`AND streamer_id IN (${Prisma.join(streamerIds)})` : Prisma.empty}
+      ORDER BY streamer_id, created_at DESC
+    `;
+    return new Map(rows.map(r => [r.streamerId, { status: r.status, at: r.at }]));
+  }
+}
+
+export const outreachService = new OutreachService();
@@ -0,0 +1,363 @@
+import crypto from 'crypto';
+import { DiscoveryPerformanceEntry, PerformanceEntryKind, Prisma } from '@prisma/client';
+import { AppError } from '../middleware/errorHandler';
+import { db, logger } from '../utils/database';
+
+/**
+ * PerformanceLedgerService
+ *
+ * Every payload Envisioner sends to /api/performance-sync is stored as an
+ * immutable ledger row; payloads sent with an idempotency key are recorded
+ * once, so retries are no-ops.
+ * Creator aggregates (historicalCpa, avgRoi, historicalConversions,
+ * historicalCampaigns) and per-campaign DiscoveryAssignment totals are then
+ * recomputed from the effective rows rather than patched incrementally:
+ *
+ *   conversions = Σ conversions
+ *   cpa         = Σ spend / Σ conversions
+ *   roi         = spend-weighted mean of reported ROI
+ *   campaigns   = campaigns whose latest status is 'completed'
+ *
+ * A correction is a new row that supersedes an earlier one; the original is
+ * kept for audit but no longer counts. BASELINE rows carry the figures that
+ * existed before the ledger was introduced: one per campaign assignment with
+ * its totals, plus one per creator with the rest of the creator's aggregates.
+ */
+
+export interface PerformancePayload {
+  discoveryCreatorId: string;
+  envisionerInfluencerId?: string | null;
+  envisionerCampaignId?: string | null;
+  conversions?: number;
+  spent?: number;
+  cpa?: number | null;
+  roi?: number | null;
+  campaignStatus?: 'active' | 'completed' | 'cancelled' | null;
+}
+
+export interface CorrectionInput {
+  entryId: string;
+  idempotencyKey?: string;
+  conversions?: number;
+  spent?: number;
+  cpa?: number | null;
+  roi?: number | null;
+  campaignStatus?: 'active' | 'completed' | 'cancelled' | null;
+  reason: string;
+}
+
+export interface CreatorPerformanceAggregates {
+  creatorId: string;
+  historicalConversions: number;
+  historicalCampaigns: number;
+  historicalCpa: number | null;
+  avgRoi: number | null;
+  totalSpent: number;
+  entries: number;
+}
+
+export interface RecordResult {
+  entry: DiscoveryPerformanceEntry;
+  duplicate: boolean;
+}
+
+type EntryFields = Pick<DiscoveryPerformanceEntry,
+  'envisionerInfluencerId' | 'envisionerCampaignId' | 'conversions' | 'spent' | 'reportedCpa' | 'roi' | 'campaignStatus'>;
+
+const round = (value: number, places: number = 2) => Math.round(value * 10 ** places) / 10 ** places;
+
+function hashFields(streamerId: string, fields: EntryFields): string {
+  const canonical = JSON.stringify([
+    streamerId,
+    fields.envisionerInfluencerId,
+    fields.envisionerCampaignId,
+    fields.conversions,
+    fields.spent,
+    fields.reportedCpa,
+    fields.roi,
+    fields.campaignStatus,
+  ]);
+  return crypto.createHash('sha256').update(canonical).digest('hex');
+}
+
+function toFields(payload: Omit<PerformancePayload, 'discoveryCreatorId'>): EntryFields {
+  return {
+    envisionerInfluencerId: payload.envisionerInfluencerId || null,
+    envisionerCampaignId: payload.envisionerCampaignId || null,
+    conversions: Math.max(Math.round(payload.conversions || 0), 0),
+    spent: Math.max(payload.spent || 0, 0),
+    reportedCpa: payload.cpa ?? null,
+    roi: payload.roi ?? null,
+    campaignStatus: payload.campaignStatus || null,
+  };
+}
+
+// Spend as reported, or implied from CPA when Envisioner only sent CPA
+const effectiveSpend = (e: Pick<DiscoveryPerformanceEntry, 'spent' | 'reportedCpa' | 'conversions'>) =>
+  e.spent > 0 ? e.spent : (e.reportedCpa ?? 0) * e.conversions;
+
+class PerformanceLedgerService {
+  /**
+   * Append a payload to the ledger. Replaying the same idempotency key with the same
+   * payload returns the original entry; with a different payload it is a 409.
+   * Without a key every call is a new entry - delta syncs can legitimately repeat
+   * an earlier payload, so identical figures alone are not treated as a retry.
+   */
+  async record(
+    payload: PerformancePayload,
+    options: { idempotencyKey?: string; createdBy?: string; recompute?: boolean } = {}
+  ): Promise<RecordResult> {
+    const streamerId = payload.discoveryCreatorId;
+    const fields = toFields(payload);
+    const payloadHash = hashFields(streamerId, fields);
+    const idempotencyKey = options.idempotencyKey || `auto:${crypto.randomUUID()}`;
+
+    if (options.idempotencyKey) {
+      const existing = await this.findByKey(idempotencyKey, payloadHash);
+      if (existing) return { entry: existing, duplicate: true };
+    }
+
+    const creator = await db.streamer.findUnique({ where: { id: streamerId }, select: { id: true } });
+    if (!creator) throw new AppError(`Creator not found: ${streamerId}`, 404);
+
+    let entry: DiscoveryPerformanceEntry;
+    try {
+      entry = await db.discoveryPerformanceEntry.create({
+        data: {
+          ...fields,
+          idempotencyKey,
+          streamerId,
+          kind: PerformanceEntryKind.SYNC,
+          payloadHash,
+          createdBy: options.createdBy ?? null,
+        },
+      });
+    } catch (error) {
+      // Concurrent retry with the same key won the insert
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        const raced = await this.findByKey(idempotencyKey, payloadHash);
+        if (raced) return { entry: raced, duplicate: true };
+      }
+      throw error;
+    }
+
+    if (options.recompute !== false) {
+      await this.recompute(streamerId);
+    }
+
+    return { entry, duplicate: false };
+  }
+
+  /**
+   * Replace an entry with corrected figures. Fields not given are copied from the
+   * entry being corrected. Only the latest entry in a correction chain can be corrected.
+   */
+  async correct(input: CorrectionInput, createdBy?: string): Promise<RecordResult> {
+    const original = await db.discoveryPerformanceEntry.findUnique({
+      where: { id: input.entryId },
+      include: { supersededBy: { select: { id: true } } },
+    });
+    if (!original) throw new AppError('Ledger entry not found', 404);
+
+    const fields = toFields({
+      envisionerInfluencerId: original.envisionerInfluencerId,
+      envisionerCampaignId: original.envisionerCampaignId,
+      conversions: input.conversions ?? original.conversions,
+      spent: input.spent ?? original.spent,
+      cpa: input.cpa !== undefined ? input.cpa : original.reportedCpa,
+      roi: input.roi !== undefined ? input.roi : original.roi,
+      campaignStatus: (input.campaignStatus !== undefined ? input.campaignStatus : original.campaignStatus) as PerformancePayload['campaignStatus'],
+    });
+    const payloadHash = hashFields(original.streamerId, fields);
+    const idempotencyKey = input.idempotencyKey || `correction:${original.id}:${payloadHash}`;
+
+    // A retried correction is a duplicate, not an attempt to correct an already-corrected entry
+    const existing = await this.findByKey(idempotencyKey, payloadHash);
+    if (existing) return { entry: existing, duplicate: true };
+
+    if (original.supersededBy) {
+      throw new AppError(`Entry was already corrected by ${original.supersededBy.id}; correct that entry instead`, 409);
+    }
+
+    let entry: DiscoveryPerformanceEntry;
+    try {
+      entry = await db.discoveryPerformanceEntry.create({
+        data: {
+          ...fields,
+          idempotencyKey,
+          streamerId: original.streamerId,
+          kind: PerformanceEntryKind.CORRECTION,
+          // Corrections of baseline rows keep the imported campaign count
+          baselineCampaigns: original.baselineCampaigns,
+          supersedesId: original.id,
+          reason: input.reason,
+          payloadHash,
+          createdBy: createdBy ?? null,
+        },
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new AppError('Entry was corrected concurrently; reload the ledger and retry', 409);
+      }
+      throw error;
+    }
+
+    logger.info('Performance ledger correction', { entryId: original.id, correctionId: entry.id, reason: input.reason, createdBy });
+    await this.recompute(original.streamerId);
+
+    return { entry, duplicate: false };
+  }
+
+  /**
+   * Recompute creator aggregates and assignment totals from the effective ledger rows
+   */
+  async recompute(streamerId: string): Promise<CreatorPerformanceAggregates> {
+    const entries = await db.discoveryPerformanceEntry.findMany({
+      where: { streamerId, supersededBy: null },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const aggregates = this.aggregate(streamerId, entries);
+
+    await db.streamer.update({
+      where: { id: streamerId },
+      data: {
+        historicalConversions: aggregates.historicalConversions,
+        historicalCampaigns: aggregates.historicalCampaigns,
+        historicalCpa: aggregates.historicalCpa,
+        avgRoi: aggregates.avgRoi,
+        lastPerformanceSync: new Date(),
+      },
+    });
+
+    await this.syncAssignments(streamerId, entries);
+    return aggregates;
+  }
+
+  /**
+   * Recompute the given creators, or every creator with ledger rows
+   */
+  async replay(streamerIds?: string[]): Promise<{ creators: number; errors: string[] }> {
+    const ids = streamerIds && streamerIds.length > 0
+      ? [...new Set(streamerIds)]
+      : (await db.discoveryPerformanceEntry.findMany({ distinct: ['streamerId'], select: { streamerId: true } }))
+        .map(e => e.streamerId);
+
+    const errors: string[] = [];
+    for (const id of ids) {
+      try {
+        await this.recompute(id);
+      } catch (error: any) {
+        errors.push(`${id}: ${error?.message}`);
+      }
+    }
+
+    logger.info(`📒 Performance ledger replay: ${ids.length - errors.length}/${ids.length} creators recomputed`);
+    return { creators: ids.length - errors.length, errors };
+  }
+
+  /**
+   * Full ledger for a creator, including superseded rows, newest first
+   */
+  async getEntries(streamerId: string) {
+    return db.discoveryPerformanceEntry.findMany({
+      where: { streamerId },
+      orderBy: { createdAt: 'desc' },
+      include: { supersededBy: { select: { id: true } } },
+    });
+  }
+
+  private async findByKey(idempotencyKey: string, payloadHash: string): Promise<DiscoveryPerformanceEntry | null> {
+    const existing = await db.discoveryPerformanceEntry.findUnique({ where: { idempotencyKey } });
+    if (!existing) return null;
+    if (existing.payloadHash !== payloadHash) {
+      throw new AppError('Idempotency key was already used with a different payload', 409);
+    }
+    return existing;
+  }
+
+  private aggregate(streamerId: string, entries: DiscoveryPerformanceEntry[]): CreatorPerformanceAggregates {
+    let conversions = 0;
+    let spend = 0;
+    let roiWeighted = 0;
+    let roiWeight = 0;
+    const unweightedRois: number[] = [];
+    let baselineCampaigns = 0;
+    // Latest status per campaign; entries without a campaign id count on their own
+    const campaignStatus = new Map<string, string>();
+
+    for (const e of entries) {
+      const entrySpend = effectiveSpend(e);
+      conversions += e.conversions;
+      spend += entrySpend;
+
+      if (e.roi !== null) {
+        if (entrySpend > 0) {
+          roiWeighted += e.roi * entrySpend;
+          roiWeight += entrySpend;
+        } else {
+          unweightedRois.push(e.roi);
+        }
+      }
+
+      if (e.baselineCampaigns) baselineCampaigns += e.baselineCampaigns;
+      if (e.campaignStatus) campaignStatus.set(e.envisionerCampaignId || `entry:${e.id}`, e.campaignStatus);
+    }
+
+    let avgRoi: number | null = null;
+    if (roiWeight > 0) avgRoi = roiWeighted / roiWeight;
+    else if (unweightedRois.length > 0) avgRoi = unweightedRois.reduce((a, b) => a + b, 0) / unweightedRois.length;
+
+    const completed = [...campaignStatus.values()].filter(s => s === 'completed').length;
+
+    return {
+      creatorId: streamerId,
+      historicalConversions: conversions,
+      historicalCampaigns: baselineCampaigns + completed,
+      historicalCpa: conversions > 0 && spend > 0 ? round(spend / conversions) : null,
+      avgRoi: avgRoi === null ? null : round(avgRoi, 4),
+      totalSpent: round(spend),
+      entries: entries.length,
+    };
+  }
+
+  private async syncAssignments(streamerId: string, entries: DiscoveryPerformanceEntry[]): Promise<void> {
+    const groups = new Map<string | null, DiscoveryPerformanceEntry[]>();
+    for (const e of entries) {
+      // Creator-level rows (incl. the creator's baseline) have neither id and belong to no assignment
+      if (!e.envisionerCampaignId && !e.envisionerInfluencerId) continue;
+      const group = groups.get(e.envisionerCampaignId) || [];
+      group.push(e);
+      groups.set(e.envisionerCampaignId, group);
+    }
+
+    for (const [campaignId, group] of groups) {
+      const totalConversions = group.reduce((sum, e) => sum + e.conversions, 0);
+      const totalSpent = group.reduce((sum, e) => sum + effectiveSpend(e), 0);
+      const influencerId = [...group].reverse().find(e => e.envisionerInfluencerId)?.envisionerInfluencerId ?? null;
+
+      const data = {
+        envisionerInfluencerId: influencerId,
+        totalConversions,
+        totalSpent: round(totalSpent),
+        avgCpa: totalConversions > 0 && totalSpent > 0 ? round(totalSpent / totalConversions) : null,
+        lastPerformanceSync: new Date(),
+      };
+
+      const assignment = await db.discoveryAssignment.findFirst({
+        where: { discoveryCreatorId: streamerId, envisionerCampaignId: campaignId },
+        select: { id: true },
+      });
+
+      if (assignment) {
+        await db.discoveryAssignment.update({ where: { id: assignment.id }, data });
+      } else {
+        await db.discoveryAssignment.create({
+          data: { ...data, discoveryCreatorId: streamerId, envisionerCampaignId: campaignId },
+        });
+      }
+    }
+  }
+}
+
+export const performanceLedgerService = new PerformanceLedgerService();
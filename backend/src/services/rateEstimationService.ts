@@ -0,0 +1,333 @@
+import { DiscoveryCreatorRate, DiscoveryRateModel, Platform, Prisma, RateDeliverable, Region } from '@prisma/client';
+import { db, logger } from '../utils/database';
+import { AppError } from '../middleware/errorHandler';
+import { auditService } from './auditService';
+
+/**
+ * RateEstimationService
+ *
+ * Prices creators from what we actually paid. Negotiated rates are recorded per
+ * deliverable (discovery_creator_rates) together with the creator's audience at
+ * the deal date; for each deliverable a ridge regression of log(rate) on
+ * log followers, log average viewers and engagement, plus platform, region and
+ * category offsets, is refit whenever its deals change (discovery_rate_models).
+ *
+ * The ridge penalty pulls offsets for segments with few deals towards the
+ * overall estimate, so a region with two deals nudges the price rather than
+ * setting it. Estimates come with an 80% prediction interval that widens for
+ * creators unlike the ones we have deals for.
+ */
+
+export const RATE_DELIVERABLES: RateDeliverable[] = ['STREAM_HOUR', 'INTEGRATION', 'POST', 'STORY'];
+
+// Deals needed before a deliverable gets a model
+export const MIN_DEALS_TO_FIT = 10;
+const RIDGE_LAMBDA = 1;
+const CONFIDENCE_LEVEL = 0.8;
+const Z_80 = 1.2816;
+const MODELS_TTL_MS = 5 * 60 * 1000;
+
+export interface RateFeatures {
+  platform: Platform | string;
+  region: Region | string;
+  category: string | null;
+  followers: number;
+  avgViewers: number;
+  engagementRate: number;
+}
+
+export interface FittedRateModel {
+  features: string[];
+  coefficients: number[];
+  covariance: number[][];
+  residualStd: number;
+  sampleSize: number;
+}
+
+export interface RateEstimate {
+  deliverable: RateDeliverable;
+  estimate: number;            // Median USD per deliverable
+  low: number;                 // Prediction interval at confidenceLevel
+  high: number;
+  confidenceLevel: number;
+  sampleSize: number;          // Deals the model was fit on
+  fittedAt: Date;
+}
+
+export interface RecordRateInput {
+  streamerId: string;
+  deliverable: RateDeliverable;
+  amount: number;
+  agreedAt?: Date;
+  campaignRef?: string | null;
+  notes?: string | null;
+  // Audience at the deal date; defaults to the creator's current figures
+  followers?: number;
+  avgViewers?: number;
+  engagementRate?: number;
+}
+
+const NUMERIC_FEATURES = ['intercept', 'logFollowers', 'logAvgViewers', 'engagement'];
+
+const numericValues = (f: RateFeatures) => [
+  1,
+  Math.log1p(Math.max(f.followers, 0)),
+  Math.log1p(Math.max(f.avgViewers, 0)),
+  // Engagement is a percentage; cap outliers from tiny audiences
+  Math.min(Math.max(f.engagementRate, 0), 50) / 10,
+];
+
+const segmentKeys = (f: RateFeatures) => [
+  `platform:${f.platform}`,
+  `region:${f.region}`,
+  ...(f.category ? [`category:${f.category.toLowerCase()}`] : []),
+];
+
+/**
+ * Feature vector in the model's feature order. Segments the model never saw
+ * get no offset, i.e. the overall estimate.
+ */
+export function featureVector(features: string[], f: RateFeatures): number[] {
+  const numeric = numericValues(f);
+  const segments = new Set(segmentKeys(f));
+  return features.map((name, i) => (i < NUMERIC_FEATURES.length ? numeric[i] : segments.has(name) ? 1 : 0));
+}
+
+// Gauss-Jordan inverse of a symmetric positive definite matrix
+function invert(matrix: number[][]): number[][] {
+  const n = matrix.length;
+  const a = matrix.map((row, i) => [...row, ...row.map((_, j) => (i === j ? 1 : 0))]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) {
+      if (Math.abs(a[r][col]) > Math.abs(a[pivot][col])) pivot = r;
+    }
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    const p = a[col][col];
+    for (let c = 0; c < 2 * n; c++) a[col][c] /= p;
+    for (let r = 0; r < n; r++) {
+      if (r === col) continue;
+      const factor = a[r][col];
+      if (factor === 0) continue;
+      for (let c = 0; c < 2 * n; c++) a[r][c] -= factor * a[col][c];
+    }
+  }
+  return a.map(row => row.slice(n));
+}
+
+const dot = (a: number[], b: number[]) => a.reduce((sum, v, i) => sum + v * b[i], 0);
+const matVec = (m: number[][], v: number[]) => m.map(row => dot(row, v));
+
+/**
+ * Ridge regression of log(amount) on the rate features. The intercept is not
+ * penalized; everything else shrinks towards the overall average.
+ */
+export function fitRateModel(deals: Array<RateFeatures & { amount: number }>): FittedRateModel {
+  const usable = deals.filter(d => d.amount > 0);
+  const segments = [...new Set(usable.flatMap(segmentKeys))].sort();
+  const features = [...NUMERIC_FEATURES, ...segments];
+  const p = features.length;
+
+  const X = usable.map(d => featureVector(features, d));
+  const y = usable.map(d => Math.log(d.amount));
+
+  const xtx = Array.from({ length: p }, (_, i) => Array.from({ length: p }, (_, j) =>
+    X.reduce((sum, row) => sum + row[i] * row[j], 0) + (i === j && i > 0 ? RIDGE_LAMBDA : 0)
+  ));
+  const xty = Array.from({ length: p }, (_, i) => X.reduce((sum, row, k) => sum + row[i] * y[k], 0));
+  const covariance = invert(xtx);
+  const coefficients = matVec(covariance, xty);
+
+  // Effective degrees of freedom of a ridge fit: trace(X (X'X + λI)^-1 X')
+  const dof = X.reduce((sum, row) => sum + dot(row, matVec(covariance, row)), 0);
+  const ssr = X.reduce((sum, row, k) => sum + (y[k] - dot(row, coefficients)) ** 2, 0);
+  const residualStd = Math.sqrt(ssr / Math.max(usable.length - dof, 1));
+
+  return { features, coefficients, covariance, residualStd, sampleSize: usable.length };
+}
+
+/**
+ * Median estimate and 80% prediction interval for one creator
+ */
+export function predictRate(model: FittedRateModel, creator: RateFeatures): { estimate: number; low: number; high: number } {
+  const x = featureVector(model.features, creator);
+  const mean = dot(x, model.coefficients);
+  const leverage = dot(x, matVec(model.covariance, x));
+  const spread = Z_80 * model.residualStd * Math.sqrt(1 + leverage);
+
+  const money = (v: number) => Math.round(Math.exp(v));
+  return { estimate: money(mean), low: money(mean - spread), high: money(mean + spread) };
+}
+
+const toFitted = (row: DiscoveryRateModel): FittedRateModel => ({
+  features: row.features as string[],
+  coefficients: row.coefficients as number[],
+  covariance: row.covariance as number[][],
+  residualStd: row.residualStd,
+  sampleSize: row.sampleSize,
+});
+
+class RateEstimationService {
+  private cache: { models: Map<RateDeliverable, DiscoveryRateModel>; expiresAt: number } | null = null;
+
+  private async models(): Promise<Map<RateDeliverable, DiscoveryRateModel>> {
+    if (this.cache && this.cache.expiresAt > Date.now()) return this.cache.models;
+
+    const rows = await db.discoveryRateModel.findMany();
+    const models = new Map(rows.map(r => [r.deliverable, r]));
+    this.cache = { models, expiresAt: Date.now() + MODELS_TTL_MS };
+    return models;
+  }
+
+  /**
+   * Estimates for every deliverable that has a model. Synchronous once the
+   * models are loaded, so recommendation scoring can price many creators.
+   */
+  async estimator(): Promise<(creator: RateFeatures, deliverable: RateDeliverable) => RateEstimate | null> {
+    const models = await this.models();
+    return (creator, deliverable) => {
+      const row = models.get(deliverable);
+      if (!row) return null;
+      return {
+        deliverable,
+        ...predictRate(toFitted(row), creator),
+        confidenceLevel: CONFIDENCE_LEVEL,
+        sampleSize: row.sampleSize,
+        fittedAt: row.fittedAt,
+      };
+    };
+  }
+
+  async estimateCreator(creator: RateFeatures): Promise<RateEstimate[]> {
+    const estimate = await this.estimator();
+    return RATE_DELIVERABLES
+      .map(deliverable => estimate(creator, deliverable))
+      .filter((e): e is RateEstimate => e !== null);
+  }
+
+  async listRates(filters: { streamerId?: string; deliverable?: RateDeliverable; limit?: number }) {
+    return db.discoveryCreatorRate.findMany({
+      where: {
+        streamerId: filters.streamerId,
+        deliverable: filters.deliverable,
+      },
+      include: { streamer: { select: { id: true, platform: true, username: true, displayName: true } } },
+      orderBy: { agreedAt: 'desc' },
+      take: filters.limit || 100,
+    });
+  }
+
+  async recordRate(input: RecordRateInput, changedBy: string): Promise<DiscoveryCreatorRate> {
+    const creator = await db.streamer.findUnique({
+      where: { id: input.streamerId },
+      select: { platform: true, region: true, inferredCategory: true, followers: true, avgViewers: true, engagementRate: true },
+    });
+    if (!creator) {
+      throw new AppError('Streamer not found', 404);
+    }
+
+    const rate = await db.discoveryCreatorRate.create({
+      data: {
+        streamerId: input.streamerId,
+        deliverable: input.deliverable,
+        amount: input.amount,
+        platform: creator.platform,
+        region: creator.region,
+        category: creator.inferredCategory,
+        followers: input.followers ?? creator.followers,
+        avgViewers: input.avgViewers ?? creator.avgViewers,
+        engagementRate: input.engagementRate ?? creator.engagementRate,
+        agreedAt: input.agreedAt,
+        campaignRef: input.campaignRef ?? null,
+        notes: input.notes ?? null,
+        createdBy: changedBy,
+      },
+    });
+
+    await auditService.log({
+      tableName: 'discovery_creator_rates',
+      recordId: rate.id,
+      action: 'INSERT',
+      changedBy,
+      newValues: rate,
+    });
+    logger.info(`💵 Rate recorded: ${input.deliverable} $${input.amount} for ${input.streamerId} by ${changedBy}`);
+
+    await this.refit(input.deliverable);
+    return rate;
+  }
+
+  async removeRate(id: string, changedBy: string): Promise<boolean> {
+    const existing = await db.discoveryCreatorRate.findUnique({ where: { id } });
+    if (!existing) return false;
+
+    await db.discoveryCreatorRate.delete({ where: { id } });
+    await auditService.log({
+      tableName: 'discovery_creator_rates',
+      recordId: id,
+      action: 'DELETE',
+      changedBy,
+      oldValues: existing,
+    });
+
+    await this.refit(existing.deliverable);
+    return true;
+  }
+
+  /**
+   * Refit the model for a deliverable (all when omitted) from its recorded
+   * deals. Deliverables below MIN_DEALS_TO_FIT lose their model.
+   */
+  async refit(deliverable?: RateDeliverable): Promise<Array<{ deliverable: RateDeliverable; sampleSize: number; residualStd: number | null }>> {
+    const results = [];
+    for (const d of deliverable ? [deliverable] : RATE_DELIVERABLES) {
+      const deals = await db.discoveryCreatorRate.findMany({
+        where: { deliverable: d },
+        select: { amount: true, platform: true, region: true, category: true, followers: true, avgViewers: true, engagementRate: true },
+      });
+
+      if (deals.length < MIN_DEALS_TO_FIT) {
+        await db.discoveryRateModel.deleteMany({ where: { deliverable: d } });
+        results.push({ deliverable: d, sampleSize: deals.length, residualStd: null });
+        continue;
+      }
+
+      const model = fitRateModel(deals);
+      const data = {
+        features: model.features as Prisma.InputJsonValue,
+        coefficients: model.coefficients as Prisma.InputJsonValue,
+        covariance: model.covariance as Prisma.InputJsonValue,
+        residualStd: model.residualStd,
+        sampleSize: model.sampleSize,
+        fittedAt: new Date(),
+      };
+      await db.discoveryRateModel.upsert({
+        where: { deliverable: d },
+        create: { deliverable: d, ...data },
+        update: data,
+      });
+      results.push({ deliverable: d, sampleSize: model.sampleSize, residualStd: model.residualStd });
+      logger.info(`💵 Rate model ${d} refit on ${model.sampleSize} deals (residual σ ${model.residualStd.toFixed(2)})`);
+    }
+    this.cache = null;
+    return results;
+  }
+
+  async modelSummaries() {
+    const models = await this.models();
+    const counts = await db.discoveryCreatorRate.groupBy({ by: ['deliverable'], _count: { _all: true } });
+    return RATE_DELIVERABLES.map(d => {
+      const row = models.get(d);
+      return {
+        deliverable: d,
+        fitted: !!row,
+        deals: counts.find(c => c.deliverable === d)?._count._all ?? 0,
+        sampleSize: row?.sampleSize ?? 0,
+        residualStd: row?.residualStd ?? null,
+        fittedAt: row?.fittedAt ?? null,
+      };
+    });
+  }
+}
+
+export const rateEstimationService = new RateEstimationService();
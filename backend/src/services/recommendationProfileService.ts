@@ -0,0 +1,294 @@
+import { DiscoveryRecommendationProfile, Prisma } from '@prisma/client';
+import { db, logger } from '../utils/database';
+import { AppError } from '../middleware/errorHandler';
+import { auditService } from './auditService';
+
+/**
+ * RecommendationProfileService
+ *
+ * Recommendation profiles are the playbooks account managers run
+ * auto-recommendations with (discovery_recommendation_profiles): how much each
+ * scoring factor counts, follower tiers and the tier mix to aim for, the rate
+ * card used for budget fit, and creators to leave out. A request names a
+ * profile by id or slug; otherwise the default profile applies, and without
+ * one the built-in DEFAULT_PROFILE_CONFIG.
+ */
+
+export type RecommendationFactor = 'verticalFit' | 'historicalPerformance' | 'brandSafety' | 'budgetAlignment' | 'userHistoryBonus';
+export type CreatorTier = 'nano' | 'micro' | 'mid' | 'macro';
+
+export const RECOMMENDATION_FACTORS: RecommendationFactor[] = ['verticalFit', 'historicalPerformance', 'brandSafety', 'budgetAlignment', 'userHistoryBonus'];
+export const CREATOR_TIERS: CreatorTier[] = ['nano', 'micro', 'mid', 'macro'];
+
+export interface RateCardEntry {
+  // Applies below this follower count; null = everyone above the previous entry
+  maxFollowers: number | null;
+  rate: number;
+}
+
+export interface RecommendationExclusions {
+  platforms?: string[];
+  regions?: string[];
+  categories?: string[];        // inferredCategory values
+  streamerIds?: string[];
+  minBrandSafetyScore?: number;
+  excludeFlagged?: boolean;     // Drop creators whose fraud check is FLAGGED
+}
+
+export interface RecommendationProfileConfig {
+  weights: Record<RecommendationFactor, number>;              // Normalized to sum to 1
+  tierRanges: Record<CreatorTier, { min: number; max: number | null }>;
+  diversityTargets: Record<CreatorTier, number>;             // Share of results per tier
+  rateCard: RateCardEntry[];                                 // Ascending by maxFollowers
+  exclusions: RecommendationExclusions;
+}
+
+export interface ResolvedProfile {
+  id: string | null;            // null = built-in defaults
+  slug: string;
+  name: string;
+  config: RecommendationProfileConfig;
+}
+
+export interface RecommendationProfileInput {
+  slug?: string;
+  name?: string;
+  description?: string | null;
+  isDefault?: boolean;
+  weights?: Partial<Record<RecommendationFactor, number>>;
+  tierRanges?: Partial<Record<CreatorTier, { min: number; max: number | null }>>;
+  diversityTargets?: Partial<Record<CreatorTier, number>>;
+  rateCard?: RateCardEntry[];
+  exclusions?: RecommendationExclusions;
+}
+
+export const DEFAULT_PROFILE_CONFIG: RecommendationProfileConfig = {
+  weights: {
+    verticalFit: 0.30,
+    historicalPerformance: 0.25,
+    brandSafety: 0.20,
+    budgetAlignment: 0.15,
+    userHistoryBonus: 0.10,
+  },
+  tierRanges: {
+    nano: { min: 1000, max: 10000 },
+    micro: { min: 10000, max: 50000 },
+    mid: { min: 50000, max: 500000 },
+    macro: { min: 500000, max: null },
+  },
+  diversityTargets: {
+    nano: 0.30,
+    micro: 0.35,
+    mid: 0.30,
+    macro: 0.05,
+  },
+  rateCard: [
+    { maxFollowers: 10000, rate: 100 },
+    { maxFollowers: 50000, rate: 250 },
+    { maxFollowers: 100000, rate: 500 },
+    { maxFollowers: 500000, rate: 1500 },
+    { maxFollowers: null, rate: 5000 },
+  ],
+  exclusions: {},
+};
+
+const BUILT_IN: ResolvedProfile = { id: null, slug: 'default', name: 'Built-in default', config: DEFAULT_PROFILE_CONFIG };
+const PROFILES_TTL_MS = 5 * 60 * 1000;
+
+const scaleToOne = <K extends string>(values: Record<K, number>): Record<K, number> => {
+  const total = Object.values<number>(values).reduce((sum, v) => sum + v, 0);
+  if (total <= 0) return values;
+  return Object.fromEntries(Object.entries<number>(values).map(([k, v]) => [k, v / total])) as Record<K, number>;
+};
+
+/**
+ * Fill a partial profile from the defaults and normalize it: weights and
+ * diversity targets scaled to sum to 1, rate card sorted with an open-ended
+ * last entry.
+ */
+export function normalizeProfileConfig(input: RecommendationProfileInput | Partial<RecommendationProfileConfig>): RecommendationProfileConfig {
+  const weights = { ...DEFAULT_PROFILE_CONFIG.weights, ...(input.weights || {}) };
+  const diversityTargets = { ...DEFAULT_PROFILE_CONFIG.diversityTargets, ...(input.diversityTargets || {}) };
+  const tierRanges = { ...DEFAULT_PROFILE_CONFIG.tierRanges, ...(input.tierRanges || {}) };
+
+  const rateCard = [...(input.rateCard?.length ? input.rateCard : DEFAULT_PROFILE_CONFIG.rateCard)]
+    .sort((a, b) => (a.maxFollowers ?? Infinity) - (b.maxFollowers ?? Infinity));
+  if (rateCard[rateCard.length - 1].maxFollowers !== null) {
+    // Everyone above the last bracket pays the last bracket's rate
+    rateCard.push({ maxFollowers: null, rate: rateCard[rateCard.length - 1].rate });
+  }
+
+  return {
+    weights: scaleToOne(weights),
+    tierRanges,
+    diversityTargets: scaleToOne(diversityTargets),
+    rateCard,
+    exclusions: input.exclusions || {},
+  };
+}
+
+const toResolved = (row: DiscoveryRecommendationProfile): ResolvedProfile => ({
+  id: row.id,
+  slug: row.slug,
+  name: row.name,
+  // The JSON columns hold what save() wrote from a normalized config
+  config: normalizeProfileConfig({
+    weights: row.weights as RecommendationProfileInput['weights'],
+    tierRanges: row.tierRanges as RecommendationProfileInput['tierRanges'],
+    diversityTargets: row.diversityTargets as RecommendationProfileInput['diversityTargets'],
+    rateCard: row.rateCard as unknown as RateCardEntry[],
+    exclusions: row.exclusions as RecommendationExclusions,
+  }),
+});
+
+class RecommendationProfileService {
+  private cache: { profiles: DiscoveryRecommendationProfile[]; expiresAt: number } | null = null;
+
+  private async all(): Promise<DiscoveryRecommendationProfile[]> {
+    if (this.cache && this.cache.expiresAt > Date.now()) return this.cache.profiles;
+
+    const profiles = await db.discoveryRecommendationProfile.findMany({ orderBy: { name: 'asc' } });
+    this.cache = { profiles, expiresAt: Date.now() + PROFILES_TTL_MS };
+    return profiles;
+  }
+
+  /**
+   * Profile to score with: the one named (id or slug), else the default
+   */
+  async resolve(idOrSlug?: string | null): Promise<ResolvedProfile> {
+    const profiles = await this.all();
+    if (idOrSlug) {
+      const profile = profiles.find(p => p.id === idOrSlug || p.slug === idOrSlug.toLowerCase());
+      if (!profile) {
+        throw new AppError(`Recommendation profile "${idOrSlug}" not found`, 404);
+      }
+      return toResolved(profile);
+    }
+    const fallback = profiles.find(p => p.isDefault);
+    return fallback ? toResolved(fallback) : BUILT_IN;
+  }
+
+  async list() {
+    return this.all();
+  }
+
+  async create(input: RecommendationProfileInput & { slug: string; name: string }, changedBy: string) {
+    const existing = await db.discoveryRecommendationProfile.findUnique({ where: { slug: input.slug } });
+    if (existing) {
+      throw new AppError(`Recommendation profile "${input.slug}" already exists`, 409);
+    }
+
+    const config = normalizeProfileConfig(input);
+    const profile = await db.$transaction(async (tx) => {
+      if (input.isDefault) {
+        await tx.discoveryRecommendationProfile.updateMany({ where: { isDefault: true }, data: { isDefault: false } });
+      }
+      return tx.discoveryRecommendationProfile.create({
+        data: {
+          slug: input.slug,
+          name: input.name,
+          description: input.description ?? null,
+          isDefault: input.isDefault ?? false,
+          ...this.toData(config),
+          updatedBy: changedBy,
+        },
+      });
+    });
+    this.cache = null;
+
+    await auditService.log({
+      tableName: 'discovery_recommendation_profiles',
+      recordId: profile.id,
+      action: 'INSERT',
+      changedBy,
+      newValues: profile,
+    });
+    logger.info(`🎯 Recommendation profile created: ${profile.slug} by ${changedBy}`);
+
+    return profile;
+  }
+
+  async update(id: string, input: RecommendationProfileInput, changedBy: string) {
+    const existing = await db.discoveryRecommendationProfile.findUnique({ where: { id } });
+    if (!existing) {
+      throw new AppError('Recommendation profile not found', 404);
+    }
+    if (input.slug && input.slug !== existing.slug) {
+      const taken = await db.discoveryRecommendationProfile.findUnique({ where: { slug: input.slug } });
+      if (taken) {
+        throw new AppError(`Recommendation profile "${input.slug}" already exists`, 409);
+      }
+    }
+
+    // Partial updates merge into the stored config, not into the defaults
+    const current = toResolved(existing).config;
+    const config = normalizeProfileConfig({
+      weights: { ...current.weights, ...(input.weights || {}) },
+      tierRanges: { ...current.tierRanges, ...(input.tierRanges || {}) },
+      diversityTargets: { ...current.diversityTargets, ...(input.diversityTargets || {}) },
+      rateCard: input.rateCard ?? current.rateCard,
+      exclusions: input.exclusions ?? current.exclusions,
+    });
+
+    const profile = await db.$transaction(async (tx) => {
+      if (input.isDefault) {
+        await tx.discoveryRecommendationProfile.updateMany({ where: { isDefault: true, id: { not: id } }, data: { isDefault: false } });
+      }
+      return tx.discoveryRecommendationProfile.update({
+        where: { id },
+        data: {
+          slug: input.slug,
+          name: input.name,
+          description: input.description,
+          isDefault: input.isDefault,
+          ...this.toData(config),
+          updatedBy: changedBy,
+        },
+      });
+    });
+    this.cache = null;
+
+    await auditService.log({
+      tableName: 'discovery_recommendation_profiles',
+      recordId: id,
+      action: 'UPDATE',
+      changedBy,
+      oldValues: existing,
+      newValues: profile,
+    });
+    logger.info(`🎯 Recommendation profile updated: ${profile.slug} by ${changedBy}`);
+
+    return profile;
+  }
+
+  async remove(id: string, changedBy: string): Promise<boolean> {
+    const existing = await db.discoveryRecommendationProfile.findUnique({ where: { id } });
+    if (!existing) return false;
+
+    await db.discoveryRecommendationProfile.delete({ where: { id } });
+    this.cache = null;
+
+    await auditService.log({
+      tableName: 'discovery_recommendation_profiles',
+      recordId: id,
+      action: 'DELETE',
+      changedBy,
+      oldValues: existing,
+    });
+    logger.info(`🎯 Recommendation profile removed: ${existing.slug} by ${changedBy}`);
+
+    return true;
+  }
+
+  private toData(config: RecommendationProfileConfig) {
+    return {
+      weights: config.weights as unknown as Prisma.InputJsonValue,
+      tierRanges: config.tierRanges as unknown as Prisma.InputJsonValue,
+      diversityTargets: config.diversityTargets as unknown as Prisma.InputJsonValue,
+      rateCard: config.rateCard as unknown as Prisma.InputJsonValue,
+      exclusions: config.exclusions as unknown as Prisma.InputJsonValue,
+    };
+  }
+}
+
+export const recommendationProfileService = new RecommendationProfileService();
@@ -0,0 +1,302 @@
+import { DiscoverySavedSearch, Prisma } from '@prisma/client';
+import { db, logger } from '../utils/database';
+import { AppError } from '../middleware/errorHandler';
+import { buildStreamerQuery, matchingIds } from '../utils/streamerFilters';
+import { emailService } from './emailService';
+import { socketService } from './socketService';
+
+/**
+ * SavedSearchService
+ *
+ * Named filter sets per user (the frontend FetchCreatorsParams, minus paging).
+ * The alert job re-runs every search with alerts enabled, records creators it
+ * hasn't matched before in discovery_saved_search_matches and notifies the
+ * owner in-app (socket `savedSearch:new_matches`) and by email. The first run
+ * after a search is created or its filters change only records a baseline.
+ */
+
+// Newest creators first, so a very broad search still catches fresh matches
+const MAX_TRACKED_MATCHES = 2000;
+const NOTIFY_PREVIEW_LIMIT = 10;
+
+const creatorSelect = {
+  id: true,
+  platform: true,
+  username: true,
+  displayName: true,
+  avatarUrl: true,
+  profileUrl: true,
+  followers: true,
+  region: true,
+  isLive: true,
+} as const;
+
+export interface SavedSearchInput {
+  name?: string;
+  filters?: Record<string, any>;
+  alertsEnabled?: boolean;
+  emailAlerts?: boolean;
+}
+
+export interface SavedSearchRunResult {
+  savedSearchId: string;
+  matched: number;
+  newMatches: number;
+  baseline: boolean;
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]!));
+
+class SavedSearchService {
+  private checking = false;
+
+  /**
+   * Translate stored filters into the /api/streamers query shape understood by buildStreamerQuery
+   */
+  toQuery(filters: Record<string, any>, userId: string): Record<string, string> {
+    const query: Record<string, string> = {};
+    for (const [key, value] of Object.entries(filters || {})) {
+      if (value === undefined || value === null || value === '') continue;
+      if (Array.isArray(value)) {
+        if (value.length > 0) query[key] = value.join(',');
+      } else {
+        query[key] = String(value);
+      }
+    }
+    // Favorites/discards filters are scoped to the owner
+    query.userId = userId;
+    return query;
+  }
+
+  async list(userId: string) {
+    return db.discoverySavedSearch.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  async create(userId: string, input: Required<Pick<SavedSearchInput, 'name' | 'filters'>> & SavedSearchInput) {
+    const savedSearch = await this.withUniqueName(() =>
+      db.discoverySavedSearch.create({
+        data: {
+          userId,
+          name: input.name,
+          filters: input.filters as Prisma.InputJsonValue,
+          alertsEnabled: input.alertsEnabled ?? true,
+          emailAlerts: input.emailAlerts ?? true,
+        },
+      })
+    );
+
+    await this.run(savedSearch, { notify: false });
+    return db.discoverySavedSearch.findUniqueOrThrow({ where: { id: savedSearch.id } });
+  }
+
+  /**
+   * Update a search owned by userId. Returns null if it doesn't exist.
+   */
+  async update(id: string, userId: string, input: SavedSearchInput) {
+    const existing = await db.discoverySavedSearch.findFirst({ where: { id, userId } });
+    if (!existing) return null;
+
+    const filtersChanged = input.filters !== undefined &&
+      JSON.stringify(input.filters) !== JSON.stringify(existing.filters);
+
+    const savedSearch = await this.withUniqueName(() =>
+      db.discoverySavedSearch.update({
+        where: { id },
+        data: {
+          name: input.name,
+          filters: input.filters as Prisma.InputJsonValue | undefined,
+          alertsEnabled: input.alertsEnabled,
+          emailAlerts: input.emailAlerts,
+        },
+      })
+    );
+
+    // Different filters are a different result set - start a new baseline
+    if (filtersChanged) {
+      await db.discoverySavedSearchMatch.deleteMany({ where: { savedSearchId: id } });
+      await db.discoverySavedSearch.update({ where: { id }, data: { unseenCount: 0 } });
+      await this.run(savedSearch, { notify: false });
+    }
+
+    return db.discoverySavedSearch.findUniqueOrThrow({ where: { id } });
+  }
+
+  async remove(id: string, userId: string): Promise<boolean> {
+    const { count } = await db.discoverySavedSearch.deleteMany({ where: { id, userId } });
+    return count > 0;
+  }
+
+  /**
+   * Creators behind the unseen counter (first matched since the search was last viewed), newest first
+   */
+  async getNewMatches(id: string, userId: string, limit: number = 50) {
+    const savedSearch = await db.discoverySavedSearch.findFirst({ where: { id, userId } });
+    if (!savedSearch) return null;
+    if (savedSearch.unseenCount === 0) return [];
+
+    // Baseline rows are never counted as unseen, so the newest unseenCount rows are exactly the new ones
+    const matches = await db.discoverySavedSearchMatch.findMany({
+      where: { savedSearchId: id },
+      orderBy: { firstMatchedAt: 'desc' },
+      take: Math.min(savedSearch.unseenCount, limit),
+      include: { streamer: { select: creatorSelect } },
+    });
+
+    return matches.map(m => ({ ...m.streamer, firstMatchedAt: m.firstMatchedAt }));
+  }
+
+  /**
+   * Clear the unseen counter when the user reapplies or opens the search
+   */
+  async markSeen(id: string, userId: string) {
+    const { count } = await db.discoverySavedSearch.updateMany({
+      where: { id, userId },
+      data: { unseenCount: 0, lastViewedAt: new Date() },
+    });
+    return count > 0;
+  }
+
+  /**
+   * Run one saved search, record first-time matches and optionally notify the owner
+   */
+  async run(savedSearch: DiscoverySavedSearch, options: { notify: boolean }): Promise<SavedSearchRunResult> {
+    const baseline = savedSearch.lastRunAt === null;
+    const query = await buildStreamerQuery(this.toQuery(savedSearch.filters as Record<string, any>, savedSearch.userId));
+
+    const matchedIds = query.empty ? []
+      : query.search ? (await matchingIds(query, [{ createdAt: 'desc' }])).slice(0, MAX_TRACKED_MATCHES)
+      : (await db.streamer.findMany({
+        where: query.where,
+        select: { id: true },
+        orderBy: { createdAt: 'desc' },
+        take: MAX_TRACKED_MATCHES,
+      })).map(s => s.id);
+
+    const known = new Set((await db.discoverySavedSearchMatch.findMany({
+      where: { savedSearchId: savedSearch.id, streamerId: { in: matchedIds } },
+      select: { streamerId: true },
+    })).map(m => m.streamerId));
+
+    const newIds = matchedIds.filter(id => !known.has(id));
+    if (newIds.length > 0) {
+      await db.discoverySavedSearchMatch.createMany({
+        data: newIds.map(streamerId => ({ savedSearchId: savedSearch.id, streamerId })),
+        skipDuplicates: true,
+      });
+    }
+
+    const shouldNotify = options.notify && !baseline && newIds.length > 0;
+    const updated = await db.discoverySavedSearch.update({
+      where: { id: savedSearch.id },
+      data: {
+        lastRunAt: new Date(),
+        lastMatchCount: matchedIds.length,
+        ...(shouldNotify ? { unseenCount: { increment: newIds.length } } : {}),
+      },
+    });
+
+    if (shouldNotify) {
+      await this.notify(updated, newIds);
+    }
+
+    return { savedSearchId: savedSearch.id, matched: matchedIds.length, newMatches: shouldNotify ? newIds.length : 0, baseline };
+  }
+
+  /**
+   * Run every search with alerts enabled. Skips if a previous run is still going.
+   */
+  async checkAll(): Promise<{ checked: number; notified: number; newMatches: number; errors: number }> {
+    const summary = { checked: 0, notified: 0, newMatches: 0, errors: 0 };
+    if (this.checking) return summary;
+    this.checking = true;
+
+    try {
+      const searches = await db.discoverySavedSearch.findMany({ where: { alertsEnabled: true } });
+      for (const savedSearch of searches) {
+        try {
+          const result = await this.run(savedSearch, { notify: true });
+          summary.checked++;
+          if (result.newMatches > 0) {
+            summary.notified++;
+            summary.newMatches += result.newMatches;
+          }
+        } catch (error: any) {
+          summary.errors++;
+          logger.error('Saved search check failed', { savedSearchId: savedSearch.id, message: error?.message });
+        }
+      }
+    } finally {
+      this.checking = false;
+    }
+
+    return summary;
+  }
+
+  private async notify(savedSearch: DiscoverySavedSearch, newIds: string[]) {
+    const creators = await db.streamer.findMany({
+      where: { id: { in: newIds.slice(0, NOTIFY_PREVIEW_LIMIT) } },
+      select: creatorSelect,
+      orderBy: { followers: 'desc' },
+    });
+
+    const payload = {
+      savedSearchId: savedSearch.id,
+      name: savedSearch.name,
+      newMatches: newIds.length,
+      unseenCount: savedSearch.unseenCount,
+      creators,
+      timestamp: new Date().toISOString(),
+    };
+
+    socketService?.notifyUser(savedSearch.userId, 'savedSearch:new_matches', payload);
+
+    if (savedSearch.emailAlerts) {
+      const to = await this.resolveEmail(savedSearch.userId);
+      if (to) {
+        await emailService.send(this.buildEmail(to, savedSearch, newIds.length, creators));
+      }
+    }
+  }
+
+  // Embed users are keyed by email; JWT users by id
+  private async resolveEmail(userId: string): Promise<string | null> {
+    if (userId.includes('@')) return userId;
+    const user = await db.user.findUnique({ where: { id: userId }, select: { email: true } });
+    return user?.email ?? null;
+  }
+
+  private buildEmail(to: string, savedSearch: DiscoverySavedSearch, total: number, creators: Array<{ displayName: string; platform: string; followers: number; profileUrl: string }>) {
+    const appUrl = process.env.FRONTEND_URL || 'https://discovery.envisioner.io';
+    const name = escapeHtml(savedSearch.name);
+    const rows = creators.map(c =>
+      `<li><a href="${escapeHtml(c.profileUrl)}">${escapeHtml(c.displayName)}</a> - ${c.platform} - ${c.followers.toLocaleString('en-US')} followers</li>`
+    ).join('');
+    const more = total > creators.length ? `<p>…and ${total - creators.length} more.</p>` : '';
+
+    return {
+      to,
+      subject: `${total} new creator${total === 1 ? '' : 's'} match "${savedSearch.name}"`,
+      html: `<p>Your saved search <strong>${name}</strong> has ${total} new match${total === 1 ? '' : 'es'}:</p><ul>${rows}</ul>${more}<p><a href="${appUrl}">Open Envisioner Discovery</a></p>`,
+      text: `Your saved search "${savedSearch.name}" has ${total} new matches:\n` +
+        creators.map(c => `- ${c.displayName} (${c.platform}, ${c.followers} followers) ${c.profileUrl}`).join('\n') +
+        `\n\n${appUrl}`,
+    };
+  }
+
+  private async withUniqueName<T>(write: () => Promise<T>): Promise<T> {
+    try {
+      return await write();
+    } catch (error: any) {
+      if (error?.code === 'P2002') {
+        throw new AppError('A saved search with this name already exists', 409);
+      }
+      throw error;
+    }
+  }
+}
+
+export const savedSearchService = new SavedSearchService();
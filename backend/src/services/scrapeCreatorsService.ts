@@ -3,6 +3,8 @@ import { db, logger } from '../utils/database';
 import { Platform, Region } from '@prisma/client';
 import { getConfig } from '../utils/configFromDb';
 import { bunnyService } from './bunnyService';
+import { metricSnapshotService } from './metricSnapshotService';
+import { geographyService } from './geographyService';
 
 // API Response interfaces
 interface TikTokProfile {
@@ -138,6 +140,8 @@ interface YouTubeChannel {
   instagram?: string | null;
   linkedin?: string | null;
   tiktok?: string | null;
+  tik_tok?: string | null;
+  facebook?: string | null;
   links?: string[];
   country?: string;
 }
@@ -155,7 +159,7 @@ interface YouTubeProfile {
   socialLinks?: string[];
 }
 
-type SocialProfile = TikTokProfile | InstagramProfile | XProfile | FacebookProfile | LinkedInProfile | YouTubeProfile;
+export type SocialProfile = TikTokProfile | InstagramProfile | XProfile | FacebookProfile | LinkedInProfile | YouTubeProfile;
 
 interface SyncQueueItem {
   id: string;
@@ -690,12 +694,12 @@ export class ScrapeCreatorsService {
     try {
       if (!await this.ensureApiKey()) return null;
 
-      // Clean handle - remove @ if present
-      const cleanHandle = handle.replace('@', '');
+      // Channel URLs (/channel/UC..., /@handle) are passed through as-is
+      const params = /youtube\.com\//i.test(handle)
+        ? { url: handle }
+        : { handle: handle.replace('@', '') };
 
-      const response = await this.client.get('/v1/youtube/channel', {
-        params: { handle: cleanHandle }
-      });
+      const response = await this.client.get('/v1/youtube/channel', { params });
 
       const data = response.data;
       if (!data || !data.channelId) {
@@ -948,7 +952,10 @@ export class ScrapeCreatorsService {
     return { processed, found, notFound, credits };
   }
 
-  private async fetchProfile(platform: Platform, username: string): Promise<SocialProfile | null> {
+  /**
+   * Raw profile for any ScrapeCreators-backed platform (1 credit)
+   */
+  async fetchProfile(platform: Platform, username: string): Promise<SocialProfile | null> {
     switch (platform) {
       case 'TIKTOK':
         return this.getTikTokProfile(username);
@@ -1066,7 +1073,7 @@ export class ScrapeCreatorsService {
     const apiLinks = (data.socialLinks as string[]) || [];
     const allLinks = [...new Set([...apiLinks, ...discoveredLinks])]; // dedupe
 
-    await db.streamer.upsert({
+    const saved = await db.streamer.upsert({
       where: {
         platform_username: {
           platform,
@@ -1089,6 +1096,8 @@ export class ScrapeCreatorsService {
       }
     });
 
+    await metricSnapshotService.recordSnapshots([saved.id]);
+
     // Log discovered links
     if (allLinks.length > 0) {
       logger.info(`🔗 [${platform}] ${allLinks.length} social links for @${data.username} (${apiLinks.length} from API, ${discoveredLinks.length} from bio)`);
@@ -1136,7 +1145,10 @@ export class ScrapeCreatorsService {
     }
   }
 
-  private mapProfileToStreamer(platform: Platform, profile: SocialProfile): any {
+  /**
+   * Raw API profile -> streamer fields (username, displayName, followers, profileDescription, ...)
+   */
+  mapProfileToStreamer(platform: Platform, profile: SocialProfile): any {
     switch (platform) {
       case 'TIKTOK': {
         const p = profile as TikTokProfile;
@@ -1301,58 +1313,15 @@ export class ScrapeCreatorsService {
     const code = toString(countryCode).toUpperCase();
     const countryStr = toString(country || location).toLowerCase();
 
-    // Country code mapping
-    const codeMap: Record<string, Region> = {
-      'US': Region.USA, 'USA': Region.USA,
-      'CA': Region.CANADA, 'CAN': Region.CANADA,
-      'MX': Region.MEXICO, 'MEX': Region.MEXICO,
-      'GB': Region.UK, 'UK': Region.UK, 'GBR': Region.UK,
-      'ES': Region.SPAIN, 'ESP': Region.SPAIN,
-      'DE': Region.GERMANY, 'DEU': Region.GERMANY,
-      'FR': Region.FRANCE, 'FRA': Region.FRANCE,
-      'IT': Region.ITALY, 'ITA': Region.ITALY,
-      'PT': Region.PORTUGAL, 'PRT': Region.PORTUGAL,
-      'NL': Region.NETHERLANDS, 'NLD': Region.NETHERLANDS,
-      'SE': Region.SWEDEN, 'SWE': Region.SWEDEN,
-      'NO': Region.NORWAY, 'NOR': Region.NORWAY,
-      'DK': Region.DENMARK, 'DNK': Region.DENMARK,
-      'FI': Region.FINLAND, 'FIN': Region.FINLAND,
-      'PL': Region.POLAND, 'POL': Region.POLAND,
-      'RU': Region.RUSSIA, 'RUS': Region.RUSSIA,
-      'JP': Region.JAPAN, 'JPN': Region.JAPAN,
-      'KR': Region.KOREA, 'KOR': Region.KOREA,
-      'CN': Region.CHINA, 'CHN': Region.CHINA,
-      'IN': Region.INDIA, 'IND': Region.INDIA,
-      'ID': Region.INDONESIA, 'IDN': Region.INDONESIA,
-      'PH': Region.PHILIPPINES, 'PHL': Region.PHILIPPINES,
-      'TH': Region.THAILAND, 'THA': Region.THAILAND,
-      'VN': Region.VIETNAM, 'VNM': Region.VIETNAM,
-      'MY': Region.MALAYSIA, 'MYS': Region.MALAYSIA,
-      'SG': Region.SINGAPORE, 'SGP': Region.SINGAPORE,
-      'AU': Region.AUSTRALIA, 'AUS': Region.AUSTRALIA,
-      'NZ': Region.NEW_ZEALAND, 'NZL': Region.NEW_ZEALAND,
-      'BR': Region.BRAZIL, 'BRA': Region.BRAZIL,
-      'CO': Region.COLOMBIA, 'COL': Region.COLOMBIA,
-      'AR': Region.ARGENTINA, 'ARG': Region.ARGENTINA,
-      'CL': Region.CHILE, 'CHL': Region.CHILE,
-      'PE': Region.PERU, 'PER': Region.PERU,
-      'VE': Region.VENEZUELA, 'VEN': Region.VENEZUELA,
-      'EC': Region.ECUADOR, 'ECU': Region.ECUADOR,
-      'DO': Region.DOMINICAN_REPUBLIC, 'DOM': Region.DOMINICAN_REPUBLIC,
-      'PR': Region.PUERTO_RICO, 'PRI': Region.PUERTO_RICO,
-      'UY': Region.URUGUAY, 'URY': Region.URUGUAY,
-      'PA': Region.PANAMA, 'PAN': Region.PANAMA,
-      'CR': Region.COSTA_RICA, 'CRI': Region.COSTA_RICA,
-      'GT': Region.GUATEMALA, 'GTM': Region.GUATEMALA,
-      'SV': Region.EL_SALVADOR, 'SLV': Region.EL_SALVADOR,
-      'HN': Region.HONDURAS, 'HND': Region.HONDURAS,
-      'NI': Region.NICARAGUA, 'NIC': Region.NICARAGUA,
-      'BO': Region.BOLIVIA, 'BOL': Region.BOLIVIA,
-      'PY': Region.PARAGUAY, 'PRY': Region.PARAGUAY,
-    };
+    const fromCode = geographyService.fromCountryCode(code);
+    if (fromCode) {
+      return fromCode;
+    }
 
-    if (code && codeMap[code]) {
-      return codeMap[code];
+    // Exact country name in any supported language
+    const fromName = geographyService.fromName(countryStr);
+    if (fromName) {
+      return fromName;
     }
 
     // Country name mapping (partial match)
@@ -1519,7 +1488,10 @@ export class ScrapeCreatorsService {
     return counts;
   }
 
-  private extractHandlesFromContent(content: string): {
+  /**
+   * Social handles mentioned in a bio/description (URLs or "ig: handle" style mentions)
+   */
+  extractHandlesFromContent(content: string): {
     tiktok?: string;
     instagram?: string;
     x?: string;
@@ -1,5 +1,6 @@
 import { db, logger } from '../utils/database';
 import { Platform, Region, FraudStatus } from '@prisma/client';
+import { metricSnapshotService } from './metricSnapshotService';
 
 interface ScrapedStreamer {
   platform: Platform;
@@ -99,10 +100,11 @@ export class ScraperService {
   private async saveStreamers(streamers: ScrapedStreamer[]): Promise<{ scraped: number; errors: number }> {
     let scraped = 0;
     let errors = 0;
+    const savedIds: string[] = [];
 
     for (const streamer of streamers) {
       try {
-        await db.streamer.upsert({
+        const saved = await db.streamer.upsert({
           where: {
             platform_username: {
               platform: streamer.platform,
@@ -137,6 +139,7 @@ export class ScraperService {
             lastScrapedAt: new Date(),
           }
         });
+        savedIds.push(saved.id);
         scraped++;
       } catch (error) {
         logger.warn('Failed to save streamer', { streamer: streamer.username, error });
@@ -144,6 +147,8 @@ export class ScraperService {
       }
     }
 
+    await metricSnapshotService.recordSnapshots(savedIds);
+
     return { scraped, errors };
   }
 
@@ -0,0 +1,259 @@
+import crypto from 'crypto';
+import bcrypt from 'bcryptjs';
+import { DiscoveryShortlistLink, Prisma, ShortlistClientDecision, ShortlistEventAction } from '@prisma/client';
+import { db, logger } from '../utils/database';
+import { AppError } from '../middleware/errorHandler';
+import { SHORTLIST_ORDER, ShortlistRef, shortlistService } from './shortlistService';
+import { normalizeUserId } from './workspaceService';
+
+/**
+ * ShortlistLinkService
+ *
+ * Tokenized read-only links that show a shortlist to a brand client without an
+ * account. A link covers a whole list or a chosen set of its creators, can
+ * expire, can require a password and can let the client approve or reject each
+ * creator - the answer is written to the shortlist entry and its activity trail.
+ *
+ * Public payloads are built from the LINK_METRICS whitelist only, so internal
+ * fields (entry notes, comments, historicalCpa, scores) never leave the API.
+ */
+
+type Creator = Prisma.StreamerGetPayload<{ select: typeof creatorSelect }>;
+
+const creatorSelect = {
+  id: true,
+  platform: true,
+  displayName: true,
+  avatarUrl: true,
+  profileUrl: true,
+  followers: true,
+  avgViewers: true,
+  highestViewers: true,
+  engagementRate: true,
+  totalViews: true,
+  primaryCategory: true,
+  region: true,
+  language: true,
+  lastStreamed: true,
+} as const;
+
+const compact = (value: number) => new Intl.NumberFormat('en-US', { notation: 'compact', maximumFractionDigits: 1 }).format(value);
+const titleCase = (value: string) => value.toLowerCase().replace(/(^|_)(\w)/g, (_, sep, c) => (sep ? ' ' : '') + c.toUpperCase());
+
+export const LINK_METRICS: Record<string, { label: string; value: (creator: Creator) => string | null }> = {
+  followers: { label: 'Followers', value: c => compact(c.followers) },
+  avgViewers: { label: 'Avg. viewers', value: c => (c.avgViewers ? compact(c.avgViewers) : null) },
+  peakViewers: { label: 'Peak viewers', value: c => (c.highestViewers ? compact(c.highestViewers) : null) },
+  engagementRate: { label: 'Engagement', value: c => (c.engagementRate ? `${c.engagementRate.toFixed(1)}%` : null) },
+  totalViews: { label: 'Total views', value: c => (c.totalViews ? compact(Number(c.totalViews)) : null) },
+  category: { label: 'Category', value: c => c.primaryCategory },
+  region: { label: 'Region', value: c => titleCase(c.region) },
+  language: { label: 'Language', value: c => c.language.toUpperCase() },
+  lastStreamed: { label: 'Last stream', value: c => (c.lastStreamed ? c.lastStreamed.toISOString().slice(0, 10) : null) },
+};
+
+export const DEFAULT_LINK_METRICS = ['followers', 'avgViewers', 'engagementRate', 'region'];
+
+export interface ShortlistLinkInput {
+  title?: string | null;
+  metrics?: string[];
+  streamerIds?: string[];
+  allowDecisions?: boolean;
+  expiresAt?: Date | null;
+  password?: string | null;
+}
+
+const publicUrl = () => (process.env.PUBLIC_API_URL || `http://localhost:${process.env.PORT || 5001}`).replace(/\/$/, '');
+
+export const shortlistLinkUrl = (token: string) => `${publicUrl()}/share/${token}`;
+
+const present = (link: DiscoveryShortlistLink) => {
+  const { passwordHash, ...rest } = link;
+  return { ...rest, hasPassword: !!passwordHash, url: shortlistLinkUrl(link.token) };
+};
+
+class ShortlistLinkService {
+  async list(userId: string, ref: ShortlistRef) {
+    await shortlistService.requireAccess(userId, ref, 'read');
+    const links = await db.discoveryShortlistLink.findMany({
+      where: { ownerId: ref.ownerId, listName: ref.listName },
+      orderBy: { createdAt: 'desc' },
+    });
+    return links.map(present);
+  }
+
+  /**
+   * Anyone who can edit the list can publish it
+   */
+  async create(userId: string, ref: ShortlistRef, input: ShortlistLinkInput) {
+    await shortlistService.requireAccess(userId, ref, 'edit');
+    this.checkMetrics(input.metrics);
+    await this.checkCreators(ref, input.streamerIds);
+
+    const link = await db.discoveryShortlistLink.create({
+      data: {
+        ownerId: ref.ownerId,
+        listName: ref.listName,
+        token: crypto.randomBytes(24).toString('base64url'),
+        title: input.title || null,
+        metrics: input.metrics ?? DEFAULT_LINK_METRICS,
+        streamerIds: input.streamerIds ?? [],
+        allowDecisions: input.allowDecisions ?? true,
+        passwordHash: input.password ? await bcrypt.hash(input.password, 10) : null,
+        expiresAt: input.expiresAt ?? null,
+        createdBy: normalizeUserId(userId),
+      },
+    });
+    logger.info(`🔗 Shortlist link created for ${ref.ownerId}/${ref.listName} by ${userId}`);
+    return present(link);
+  }
+
+  /**
+   * A null password removes it; leaving it out keeps the current one
+   */
+  async update(userId: string, id: string, input: ShortlistLinkInput) {
+    const link = await this.findOwned(userId, id);
+    this.checkMetrics(input.metrics);
+    await this.checkCreators({ ownerId: link.ownerId, listName: link.listName }, input.streamerIds);
+
+    const data: Prisma.DiscoveryShortlistLinkUpdateInput = {};
+    if (input.title !== undefined) data.title = input.title || null;
+    if (input.metrics !== undefined) data.metrics = input.metrics;
+    if (input.streamerIds !== undefined) data.streamerIds = input.streamerIds;
+    if (input.allowDecisions !== undefined) data.allowDecisions = input.allowDecisions;
+    if (input.expiresAt !== undefined) data.expiresAt = input.expiresAt;
+    if (input.password !== undefined) data.passwordHash = input.password ? await bcrypt.hash(input.password, 10) : null;
+
+    return present(await db.discoveryShortlistLink.update({ where: { id }, data }));
+  }
+
+  async revoke(userId: string, id: string) {
+    await this.findOwned(userId, id);
+    return present(await db.discoveryShortlistLink.update({ where: { id }, data: { revokedAt: new Date() } }));
+  }
+
+  // ===========================================================================
+  // PUBLIC
+  // ===========================================================================
+
+  /**
+   * What the client sees: the chosen creators with the link's metrics and their own decisions
+   */
+  async view(token: string, password?: string) {
+    const link = await this.open(token, password);
+    await db.discoveryShortlistLink.update({
+      where: { id: link.id },
+      data: { viewCount: { increment: 1 }, lastViewedAt: new Date() },
+    });
+
+    const entries = await db.discoveryShortlist.findMany({
+      where: {
+        userId: link.ownerId,
+        listName: link.listName,
+        ...(link.streamerIds.length > 0 ? { streamerId: { in: link.streamerIds } } : {}),
+      },
+      select: { clientDecision: true, clientDecisionNote: true, streamer: { select: creatorSelect } },
+      orderBy: SHORTLIST_ORDER,
+    });
+
+    const metrics = link.metrics.filter(key => LINK_METRICS[key]);
+    return {
+      title: link.title || link.listName,
+      expiresAt: link.expiresAt,
+      allowDecisions: link.allowDecisions,
+      metrics: metrics.map(key => ({ key, label: LINK_METRICS[key].label })),
+      creators: entries.map(({ streamer, clientDecision, clientDecisionNote }) => ({
+        streamerId: streamer.id,
+        displayName: streamer.displayName,
+        platform: streamer.platform,
+        avatarUrl: streamer.avatarUrl,
+        profileUrl: streamer.profileUrl,
+        values: Object.fromEntries(metrics.map(key => [key, LINK_METRICS[key].value(streamer)])),
+        decision: clientDecision,
+        decisionNote: clientDecisionNote,
+      })),
+    };
+  }
+
+  /**
+   * Record the client's approve/reject (null clears it) on the shortlist entry
+   */
+  async decide(token: string, password: string | undefined, streamerId: string, decision: ShortlistClientDecision | null, note?: string | null) {
+    const link = await this.open(token, password);
+    if (!link.allowDecisions) {
+      throw new AppError('This link is view-only', 403);
+    }
+    if (link.streamerIds.length > 0 && !link.streamerIds.includes(streamerId)) {
+      throw new AppError('Creator not found on this shortlist', 404);
+    }
+
+    const { count } = await db.discoveryShortlist.updateMany({
+      where: { userId: link.ownerId, listName: link.listName, streamerId },
+      data: {
+        clientDecision: decision,
+        clientDecisionNote: decision ? note || null : null,
+        clientDecisionAt: decision ? new Date() : null,
+      },
+    });
+    if (count === 0) {
+      throw new AppError('Creator not found on this shortlist', 404);
+    }
+
+    await db.discoveryShortlistEvent.create({
+      data: {
+        ownerId: link.ownerId,
+        listName: link.listName,
+        streamerId,
+        userId: `client:${link.id}`,
+        action: ShortlistEventAction.CLIENT_DECISION,
+        detail: { decision, note: note || null, linkId: link.id },
+      },
+    });
+    return { streamerId, decision, decisionNote: decision ? note || null : null };
+  }
+
+  /**
+   * 404 for unknown tokens, 410 once expired or revoked, 401 when the password is missing or wrong
+   */
+  private async open(token: string, password?: string): Promise<DiscoveryShortlistLink> {
+    const link = await db.discoveryShortlistLink.findUnique({ where: { token } });
+    if (!link) {
+      throw new AppError('Shortlist link not found', 404);
+    }
+    if (link.revokedAt || (link.expiresAt && link.expiresAt <= new Date())) {
+      throw new AppError('This shortlist link has expired', 410);
+    }
+    if (link.passwordHash && !(password && await bcrypt.compare(password, link.passwordHash))) {
+      throw new AppError(password ? 'Incorrect password' : 'Password required', 401);
+    }
+    return link;
+  }
+
+  private async findOwned(userId: string, id: string): Promise<DiscoveryShortlistLink> {
+    const link = await db.discoveryShortlistLink.findUnique({ where: { id } });
+    if (!link) {
+      throw new AppError('Shortlist link not found', 404);
+    }
+    await shortlistService.requireAccess(userId, { ownerId: link.ownerId, listName: link.listName }, 'edit');
+    return link;
+  }
+
+  private checkMetrics(metrics?: string[]): void {
+    const unknown = (metrics ?? []).filter(key => !LINK_METRICS[key]);
+    if (unknown.length > 0) {
+      throw new AppError(`Unknown metrics: ${unknown.join(', ')} (available: ${Object.keys(LINK_METRICS).join(', ')})`, 400);
+    }
+  }
+
+  private async checkCreators(ref: ShortlistRef, streamerIds?: string[]): Promise<void> {
+    if (!streamerIds || streamerIds.length === 0) return;
+    const listed = await db.discoveryShortlist.count({
+      where: { userId: ref.ownerId, listName: ref.listName, streamerId: { in: streamerIds } },
+    });
+    if (listed !== new Set(streamerIds).size) {
+      throw new AppError('Some creators are not on this shortlist', 400);
+    }
+  }
+}
+
+export const shortlistLinkService = new ShortlistLinkService();
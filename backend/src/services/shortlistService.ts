@@ -0,0 +1,486 @@
+import { Prisma, ShortlistAccess, ShortlistEventAction } from '@prisma/client';
+import { db, logger } from '../utils/database';
+import { AppError } from '../middleware/errorHandler';
+import { normalizeUserId } from './workspaceService';
+import { socketService } from './socketService';
+
+/**
+ * ShortlistService
+ *
+ * A shortlist is identified by its owner and list name (discovery_shortlists
+ * rows share user_id + list_name). Owners share a list with a workspace for
+ * READ or EDIT; every member then sees it, editors can change its entries and
+ * every collaborator can comment. Entries remember who added them and each
+ * add / update / remove is written to discovery_shortlist_events, so the trail
+ * survives an entry being removed.
+ *
+ * Ordering is priority desc (then newest first). Moves are relative to a
+ * neighbour ("put X before Y") and run under a row lock on the list, so two
+ * people reordering different creators at the same time both keep their move
+ * instead of the last full-order write winning.
+ */
+
+export type ShortlistRole = 'OWNER' | ShortlistAccess;
+export type AccessLevel = 'read' | 'edit' | 'owner';
+
+export interface ShortlistRef {
+  ownerId: string;
+  listName: string;
+}
+
+export interface MoveAnchor {
+  beforeStreamerId?: string;
+  afterStreamerId?: string;
+}
+
+export interface EntryInput {
+  priority?: number;
+  notes?: string | null;
+}
+
+interface RankedEntry {
+  streamerId: string;
+  priority: number;
+}
+
+// Gap left between neighbours when a list is renumbered
+const PRIORITY_STEP = 1024;
+const MAX_PRIORITY = 2147483647;
+const EVENT_LIMIT = 200;
+
+export const SHORTLIST_ORDER: Prisma.DiscoveryShortlistOrderByWithRelationInput[] = [
+  { priority: 'desc' },
+  { createdAt: 'desc' },
+];
+
+const ROLE_RANK: Record<ShortlistRole, number> = { READ: 1, EDIT: 2, OWNER: 3 };
+const LEVEL_RANK: Record<AccessLevel, number> = { read: 1, edit: 2, owner: 3 };
+
+const isSameUser = (a: string, b: string) => normalizeUserId(a) === normalizeUserId(b);
+
+/**
+ * Priority changes that put streamerId directly before/after an anchor entry
+ * (or at the top without one). entries must be in display order. Takes the
+ * midpoint between the new neighbours when there is room, otherwise renumbers
+ * the whole list PRIORITY_STEP apart.
+ */
+export function placeEntry(entries: RankedEntry[], streamerId: string, anchor: MoveAnchor = {}): RankedEntry[] {
+  const moving = entries.find(e => e.streamerId === streamerId);
+  if (!moving) {
+    throw new AppError('Shortlist entry not found', 404);
+  }
+
+  const rest = entries.filter(e => e.streamerId !== streamerId);
+  const anchorId = anchor.beforeStreamerId ?? anchor.afterStreamerId;
+  let index = 0;
+  if (anchorId) {
+    const anchorIndex = rest.findIndex(e => e.streamerId === anchorId);
+    if (anchorIndex === -1) {
+      throw new AppError('The entry to move next to is not on this shortlist', 400);
+    }
+    index = anchor.beforeStreamerId ? anchorIndex : anchorIndex + 1;
+  }
+
+  const above = rest[index - 1];
+  const below = rest[index];
+  let priority: number | null = moving.priority;
+  if (above && below) {
+    priority = above.priority - below.priority >= 2 ? Math.floor((above.priority + below.priority) / 2) : null;
+  } else if (below) {
+    priority = below.priority + PRIORITY_STEP;
+  } else if (above) {
+    priority = above.priority - PRIORITY_STEP;
+  }
+
+  if (priority !== null && Math.abs(priority) <= MAX_PRIORITY) {
+    return priority === moving.priority ? [] : [{ streamerId, priority }];
+  }
+
+  const order = [...rest.slice(0, index), moving, ...rest.slice(index)];
+  return order
+    .map((entry, i) => ({ streamerId: entry.streamerId, priority: (order.length - i) * PRIORITY_STEP }))
+    .filter((entry, i) => entry.priority !== order[i].priority);
+}
+
+/**
+ * Collaborators mentioned in a comment. "@jane" matches a collaborator whose
+ * email starts with "jane@" when only one does; "@jane@agency.com" matches the
+ * full address. The author is never mentioned.
+ */
+export function resolveMentions(body: string, collaborators: string[], authorId: string): string[] {
+  const people = collaborators.map(normalizeUserId);
+  const mentioned = new Set<string>();
+
+  for (const match of body.matchAll(/(?:^|[^\w.@])@([\w.+-]+(?:@[\w-]+(?:\.[\w-]+)+)?)/g)) {
+    const handle = match[1].replace(/\.+$/, '').toLowerCase();
+    const candidates = handle.includes('@')
+      ? people.filter(p => p === handle)
+      : people.filter(p => p.split('@')[0] === handle);
+    if (candidates.length === 1) mentioned.add(candidates[0]);
+  }
+
+  mentioned.delete(normalizeUserId(authorId));
+  return [...mentioned];
+}
+
+class ShortlistService {
+  /**
+   * The user's role on a shortlist, or null when they can't see it
+   */
+  async access(userId: string, ref: ShortlistRef): Promise<ShortlistRole | null> {
+    if (isSameUser(userId, ref.ownerId)) return 'OWNER';
+
+    const shares = await db.discoveryShortlistShare.findMany({
+      where: { ownerId: ref.ownerId, listName: ref.listName, workspace: { members: { some: { userId: normalizeUserId(userId) } } } },
+      select: { access: true },
+    });
+    if (shares.length === 0) return null;
+    return shares.some(s => s.access === ShortlistAccess.EDIT) ? ShortlistAccess.EDIT : ShortlistAccess.READ;
+  }
+
+  /**
+   * Throws 404 when the list isn't visible to the user and 403 when their role is too low
+   */
+  async requireAccess(userId: string, ref: ShortlistRef, level: AccessLevel): Promise<ShortlistRole> {
+    const role = await this.access(userId, ref);
+    if (!role) {
+      throw new AppError('Shortlist not found', 404);
+    }
+    if (ROLE_RANK[role] < LEVEL_RANK[level]) {
+      throw new AppError(level === 'owner' ? 'Only the shortlist owner can do this' : 'This shortlist is shared with you read-only', 403);
+    }
+    return role;
+  }
+
+  // ===========================================================================
+  // ENTRIES
+  // ===========================================================================
+
+  async add(userId: string, ref: ShortlistRef, streamerId: string, input: EntryInput = {}) {
+    await this.requireAccess(userId, ref, 'edit');
+    const streamer = await db.streamer.findUnique({ where: { id: streamerId }, select: { id: true } });
+    if (!streamer) {
+      throw new AppError('Streamer not found', 404);
+    }
+
+    const key = { userId: ref.ownerId, streamerId, listName: ref.listName };
+    const existing = await db.discoveryShortlist.findUnique({ where: { userId_streamerId_listName: key }, select: { id: true } });
+    const priority = input.priority ?? 0;
+    const entry = await db.discoveryShortlist.upsert({
+      where: { userId_streamerId_listName: key },
+      create: { ...key, priority, notes: input.notes, addedBy: isSameUser(userId, ref.ownerId) ? null : normalizeUserId(userId) },
+      update: { priority, notes: input.notes },
+      include: { streamer: { select: { id: true, displayName: true, platform: true, avatarUrl: true } } },
+    });
+
+    await this.logEvent(ref, streamerId, userId, existing ? ShortlistEventAction.UPDATED : ShortlistEventAction.ADDED, { priority, notes: input.notes ?? null });
+    return entry;
+  }
+
+  async update(userId: string, ref: ShortlistRef, streamerId: string, input: EntryInput) {
+    await this.requireAccess(userId, ref, 'edit');
+    const data: Prisma.DiscoveryShortlistUpdateInput = {};
+    if (input.priority !== undefined) data.priority = input.priority;
+    if (input.notes !== undefined) data.notes = input.notes;
+
+    try {
+      const entry = await db.discoveryShortlist.update({
+        where: { userId_streamerId_listName: { userId: ref.ownerId, streamerId, listName: ref.listName } },
+        data,
+      });
+      await this.logEvent(ref, streamerId, userId, ShortlistEventAction.UPDATED, { ...input });
+      return entry;
+    } catch (e) {
+      if (e instanceof Prisma.PrismaClientKnownRequestError && e.code === 'P2025') {
+        throw new AppError('Shortlist entry not found', 404);
+      }
+      throw e;
+    }
+  }
+
+  /**
+   * Returns false when the creator wasn't on the list
+   */
+  async remove(userId: string, ref: ShortlistRef, streamerId: string): Promise<boolean> {
+    await this.requireAccess(userId, ref, 'edit');
+    const { count } = await db.discoveryShortlist.deleteMany({
+      where: { userId: ref.ownerId, streamerId, listName: ref.listName },
+    });
+    if (count > 0) {
+      await this.logEvent(ref, streamerId, userId, ShortlistEventAction.REMOVED);
+    }
+    return count > 0;
+  }
+
+  async isListed(ref: ShortlistRef, streamerId: string): Promise<boolean> {
+    const entry = await db.discoveryShortlist.findUnique({
+      where: { userId_streamerId_listName: { userId: ref.ownerId, streamerId, listName: ref.listName } },
+      select: { id: true },
+    });
+    return !!entry;
+  }
+
+  /**
+   * Move one creator next to another (or to the top). Returns the list order afterwards.
+   */
+  async move(userId: string, ref: ShortlistRef, streamerId: string, anchor: MoveAnchor = {}): Promise<RankedEntry[]> {
+    await this.requireAccess(userId, ref, 'edit');
+
+    return db.$transaction(async (tx) => {
+      // Concurrent moves on this list wait here and then see the priorities this one wrote
+      await tx.$queryRaw`
+        SELECT id FROM discovery_shortlists
+        WHERE user_id = ${ref.ownerId} AND list_name = ${ref.listName}
+        FOR UPDATE
+      `;
+      const entries = await tx.discoveryShortlist.findMany({
+        where: { userId: ref.ownerId, listName: ref.listName },
+        select: { streamerId: true, priority: true },
+        orderBy: SHORTLIST_ORDER,
+      });
+
+      const updates = placeEntry(entries, streamerId, anchor);
+      for (const update of updates) {
+        await tx.discoveryShortlist.update({
+          where: { userId_streamerId_listName: { userId: ref.ownerId, streamerId: update.streamerId, listName: ref.listName } },
+          data: { priority: update.priority },
+        });
+      }
+
+      const changed = new Map(updates.map(u => [u.streamerId, u.priority]));
+      return entries
+        .map(e => ({ streamerId: e.streamerId, priority: changed.get(e.streamerId) ?? e.priority }))
+        .sort((a, b) => b.priority - a.priority);
+    });
+  }
+
+  /**
+   * Set explicit priorities (the original full-order reorder)
+   */
+  async setPriorities(userId: string, ref: ShortlistRef, order: RankedEntry[]): Promise<void> {
+    await this.requireAccess(userId, ref, 'edit');
+    await db.$transaction(order.map(item =>
+      db.discoveryShortlist.updateMany({
+        where: { userId: ref.ownerId, streamerId: item.streamerId, listName: ref.listName },
+        data: { priority: item.priority },
+      })
+    ));
+  }
+
+  /**
+   * Who added, changed or removed creators, newest first
+   */
+  async events(userId: string, ref: ShortlistRef, streamerId?: string) {
+    await this.requireAccess(userId, ref, 'read');
+    return db.discoveryShortlistEvent.findMany({
+      where: { ownerId: ref.ownerId, listName: ref.listName, ...(streamerId ? { streamerId } : {}) },
+      include: { streamer: { select: { id: true, displayName: true, platform: true } } },
+      orderBy: { createdAt: 'desc' },
+      take: EVENT_LIMIT,
+    });
+  }
+
+  private async logEvent(ref: ShortlistRef, streamerId: string, userId: string, action: ShortlistEventAction, detail?: Record<string, unknown>) {
+    await db.discoveryShortlistEvent.create({
+      data: {
+        ownerId: ref.ownerId,
+        listName: ref.listName,
+        streamerId,
+        userId: normalizeUserId(userId),
+        action,
+        detail: detail ? (detail as Prisma.InputJsonValue) : undefined,
+      },
+    });
+  }
+
+  // ===========================================================================
+  // SHARING
+  // ===========================================================================
+
+  /**
+   * Lists other people shared with the user, with the best access any of their workspaces grants
+   */
+  async sharedWith(userId: string) {
+    const shares = await db.discoveryShortlistShare.findMany({
+      where: { workspace: { members: { some: { userId: normalizeUserId(userId) } } } },
+      include: { workspace: { select: { id: true, name: true } } },
+      orderBy: [{ ownerId: 'asc' }, { listName: 'asc' }],
+    });
+
+    const lists = new Map<string, { ownerId: string; listName: string; access: ShortlistAccess; workspaces: Array<{ id: string; name: string }> }>();
+    for (const share of shares) {
+      if (isSameUser(share.ownerId, userId)) continue;
+      const key = `${share.ownerId}\u0000${share.listName}`;
+      const list = lists.get(key) ?? { ownerId: share.ownerId, listName: share.listName, access: share.access, workspaces: [] };
+      if (share.access === ShortlistAccess.EDIT) list.access = ShortlistAccess.EDIT;
+      list.workspaces.push(share.workspace);
+      lists.set(key, list);
+    }
+
+    return Promise.all([...lists.values()].map(async list => ({
+      ...list,
+      count: await db.discoveryShortlist.count({ where: { userId: list.ownerId, listName: list.listName } }),
+    })));
+  }
+
+  async shares(userId: string, listName: string) {
+    return db.discoveryShortlistShare.findMany({
+      where: { ownerId: userId, listName },
+      include: { workspace: { select: { id: true, name: true } } },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  /**
+   * Share one of the user's lists with a workspace they belong to (or change its access)
+   */
+  async share(userId: string, listName: string, workspaceId: string, access: ShortlistAccess) {
+    const member = await db.discoveryWorkspaceMember.findUnique({
+      where: { workspaceId_userId: { workspaceId, userId: normalizeUserId(userId) } },
+      select: { id: true },
+    });
+    if (!member) {
+      throw new AppError('Workspace not found', 404);
+    }
+
+    return db.discoveryShortlistShare.upsert({
+      where: { ownerId_listName_workspaceId: { ownerId: userId, listName, workspaceId } },
+      create: { ownerId: userId, listName, workspaceId, access },
+      update: { access },
+      include: { workspace: { select: { id: true, name: true } } },
+    });
+  }
+
+  async unshare(userId: string, listName: string, workspaceId: string): Promise<boolean> {
+    const { count } = await db.discoveryShortlistShare.deleteMany({ where: { ownerId: userId, listName, workspaceId } });
+    return count > 0;
+  }
+
+  /**
+   * The owner plus every member of a workspace the list is shared with
+   */
+  async collaborators(ref: ShortlistRef): Promise<string[]> {
+    const members = await db.discoveryWorkspaceMember.findMany({
+      where: { workspace: { shortlistShares: { some: { ownerId: ref.ownerId, listName: ref.listName } } } },
+      select: { userId: true },
+    });
+    return [...new Set([normalizeUserId(ref.ownerId), ...members.map(m => m.userId)])].sort();
+  }
+
+  // ===========================================================================
+  // COMMENTS
+  // ===========================================================================
+
+  /**
+   * Threads on an entry: top-level comments oldest first, each with its replies
+   */
+  async comments(userId: string, ref: ShortlistRef, streamerId: string) {
+    await this.requireAccess(userId, ref, 'read');
+    const entry = await this.findEntry(ref, streamerId);
+
+    const threads = await db.discoveryShortlistComment.findMany({
+      where: { shortlistId: entry.id, parentId: null },
+      include: { replies: { orderBy: { createdAt: 'asc' } } },
+      orderBy: { createdAt: 'asc' },
+    });
+    return threads.map(thread => ({ ...this.visible(thread), replies: thread.replies.map(reply => this.visible(reply)) }));
+  }
+
+  /**
+   * Anyone who can see the list can comment. Replies to a reply join the same thread.
+   */
+  async addComment(userId: string, ref: ShortlistRef, streamerId: string, body: string, parentId?: string | null) {
+    await this.requireAccess(userId, ref, 'read');
+    const entry = await this.findEntry(ref, streamerId);
+
+    let threadId: string | null = null;
+    if (parentId) {
+      const parent = await db.discoveryShortlistComment.findFirst({ where: { id: parentId, shortlistId: entry.id } });
+      if (!parent) {
+        throw new AppError('Comment to reply to not found', 404);
+      }
+      threadId = parent.parentId ?? parent.id;
+    }
+
+    const mentions = resolveMentions(body, await this.collaborators(ref), userId);
+    const comment = await db.discoveryShortlistComment.create({
+      data: { shortlistId: entry.id, parentId: threadId, userId: normalizeUserId(userId), body, mentions },
+    });
+
+    this.notifyMentions(mentions, ref, streamerId, comment.id, comment.userId, body);
+    return comment;
+  }
+
+  async editComment(userId: string, commentId: string, body: string) {
+    const comment = await this.findComment(commentId);
+    const ref = { ownerId: comment.shortlist.userId, listName: comment.shortlist.listName };
+    await this.requireAccess(userId, ref, 'read');
+    if (!isSameUser(comment.userId, userId)) {
+      throw new AppError('You can only edit your own comments', 403);
+    }
+
+    const mentions = resolveMentions(body, await this.collaborators(ref), userId);
+    const updated = await db.discoveryShortlistComment.update({ where: { id: commentId }, data: { body, mentions } });
+
+    this.notifyMentions(mentions.filter(m => !comment.mentions.includes(m)), ref, comment.shortlist.streamerId, commentId, updated.userId, body);
+    return updated;
+  }
+
+  /**
+   * Authors and the list owner can delete; the comment is blanked so its replies stay threaded
+   */
+  async deleteComment(userId: string, commentId: string): Promise<void> {
+    const comment = await this.findComment(commentId);
+    const ref = { ownerId: comment.shortlist.userId, listName: comment.shortlist.listName };
+    const role = await this.requireAccess(userId, ref, 'read');
+    if (!isSameUser(comment.userId, userId) && role !== 'OWNER') {
+      throw new AppError('You can only delete your own comments', 403);
+    }
+
+    await db.discoveryShortlistComment.update({ where: { id: commentId }, data: { deletedAt: new Date() } });
+  }
+
+  private async findEntry(ref: ShortlistRef, streamerId: string) {
+    const entry = await db.discoveryShortlist.findUnique({
+      where: { userId_streamerId_listName: { userId: ref.ownerId, streamerId, listName: ref.listName } },
+      select: { id: true },
+    });
+    if (!entry) {
+      throw new AppError('Shortlist entry not found', 404);
+    }
+    return entry;
+  }
+
+  private async findComment(commentId: string) {
+    const comment = await db.discoveryShortlistComment.findUnique({
+      where: { id: commentId },
+      include: { shortlist: { select: { userId: true, listName: true, streamerId: true } } },
+    });
+    if (!comment || comment.deletedAt) {
+      throw new AppError('Comment not found', 404);
+    }
+    return comment;
+  }
+
+  private visible<T extends { body: string; mentions: string[]; deletedAt: Date | null }>(comment: T): T {
+    return comment.deletedAt ? { ...comment, body: '', mentions: [] } : comment;
+  }
+
+  private notifyMentions(mentions: string[], ref: ShortlistRef, streamerId: string, commentId: string, authorId: string, body: string) {
+    if (mentions.length === 0) return;
+    const payload = {
+      ...ref,
+      streamerId,
+      commentId,
+      authorId,
+      excerpt: body.slice(0, 200),
+      timestamp: new Date().toISOString(),
+    };
+    for (const userId of mentions) {
+      socketService?.notifyUser(userId, 'shortlist:mention', payload);
+    }
+    logger.info(`💬 Shortlist comment mentions ${mentions.length} collaborator(s) on ${ref.ownerId}/${ref.listName}`);
+  }
+}
+
+export const shortlistService = new ShortlistService();
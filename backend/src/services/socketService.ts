@@ -1,6 +1,7 @@
 import { Server, Socket } from 'socket.io';
 import { verify as jwtVerify } from 'jsonwebtoken';
 import { db, logger } from '../utils/database';
+import { allowUnsignedEmbed, verifyEmbedToken } from '../utils/embedToken';
 
 interface AuthenticatedSocket extends Socket {
   user?: {
@@ -18,6 +19,7 @@ export class SocketService {
   }
 
   initialize() {
+    socketService = this;
     this.io.use(this.authenticateSocket.bind(this));
 
     this.io.on('connection', (socket: AuthenticatedSocket) => {
@@ -27,6 +29,23 @@ export class SocketService {
 
   private async authenticateSocket(socket: AuthenticatedSocket, next: Function) {
     try {
+      // Softr embed: the same signed embed token the HTTP API accepts
+      const embedToken = socket.handshake.auth.embedToken;
+      if (embedToken) {
+        const payload = verifyEmbedToken(embedToken);
+        if (!payload) {
+          return next(new Error('Authentication error: Invalid embed token'));
+        }
+        socket.user = { id: payload.email, email: payload.email };
+        return next();
+      }
+
+      if (allowUnsignedEmbed() && socket.handshake.auth.userId) {
+        const email = String(socket.handshake.auth.userId).toLowerCase().trim();
+        socket.user = { id: email, email };
+        return next();
+      }
+
       const token = socket.handshake.auth.token || socket.handshake.headers.authorization?.split(' ')[1];
 
       if (!token) {
@@ -58,8 +77,9 @@ export class SocketService {
 
     logger.info(`User ${socket.user.email} connected via Socket.IO`);
 
-    // Join user to their personal room
+    // Join user to their personal room (by id and by email, since embed users are keyed by email)
     socket.join(`user:${userId}`);
+    socket.join(`user:${socket.user.email.toLowerCase()}`);
 
     // Handle disconnection
     socket.on('disconnect', () => {
@@ -125,6 +145,11 @@ export class SocketService {
     return false;
   }
 
+  // Send to every socket of a user, keyed by user id or email
+  notifyUser(userKey: string, event: string, data: any) {
+    this.io.to(`user:${userKey.toLowerCase()}`).emit(event, data);
+  }
+
   // Broadcast streamer updates
   broadcastStreamerUpdate(streamer: any) {
     this.io.emit('streamer:updated', streamer);
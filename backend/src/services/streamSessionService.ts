@@ -0,0 +1,255 @@
+import { db, logger } from '../utils/database';
+
+/**
+ * StreamSessionService
+ *
+ * Turns the raw viewer polls written by LiveStatusService into stream
+ * sessions and derives the creator's viewing metrics from them:
+ *
+ *   polls (every ~2 min while live) -> sessions (start, end, peak, avg, game, title)
+ *   sessions (last 30 days)         -> avgViewers, durationMinutes, minutesWatched
+ *   sessions (all time)             -> highestViewers (only ever raised)
+ *
+ * Polls further apart than SESSION_GAP_MINUTES start a new session.
+ */
+
+export interface ViewerPollInput {
+  streamerId: string;
+  viewerCount: number;
+  game?: string | null;
+  title?: string | null;
+}
+
+interface PollRow {
+  viewerCount: number;
+  game: string | null;
+  title: string | null;
+  polledAt: Date;
+}
+
+interface SessionDraft {
+  startedAt: Date;
+  endedAt: Date | null;
+  peakViewers: number;
+  avgViewers: number;
+  durationMinutes: number;
+  minutesWatched: bigint;
+  pollCount: number;
+  game: string | null;
+  title: string | null;
+}
+
+const SESSION_GAP_MINUTES = 15;
+const METRICS_WINDOW_DAYS = 30;
+const POLL_RETENTION_DAYS = 30;
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+class StreamSessionService {
+  /**
+   * Store one poll per live creator. Never throws so a failed insert cannot break the live check.
+   */
+  async recordPolls(polls: ViewerPollInput[]): Promise<number> {
+    if (polls.length === 0) return 0;
+
+    try {
+      const result = await db.discoveryViewerPoll.createMany({
+        data: polls.map(p => ({
+          streamerId: p.streamerId,
+          viewerCount: p.viewerCount,
+          game: p.game || null,
+          title: p.title || null,
+        })),
+      });
+      return result.count;
+    } catch (error: any) {
+      logger.error('Failed to record viewer polls', { count: polls.length, message: error?.message });
+      return 0;
+    }
+  }
+
+  /**
+   * Rebuild sessions for every creator polled since `since` and refresh their metrics
+   */
+  async aggregate(since: Date = new Date(Date.now() - 2 * 60 * MINUTE_MS)): Promise<{
+    streamers: number;
+    sessions: number;
+    errors: number;
+  }> {
+    const polled = await db.discoveryViewerPoll.findMany({
+      where: { polledAt: { gte: since } },
+      distinct: ['streamerId'],
+      select: { streamerId: true },
+    });
+
+    let sessions = 0;
+    let errors = 0;
+
+    for (const { streamerId } of polled) {
+      try {
+        sessions += await this.rebuildSessions(streamerId, since);
+        await this.refreshStreamerMetrics(streamerId);
+      } catch (error: any) {
+        logger.error(`Failed to aggregate stream sessions for ${streamerId}`, { message: error?.message });
+        errors++;
+      }
+    }
+
+    logger.info(`📺 Stream session aggregation: ${polled.length} creators, ${sessions} sessions, ${errors} errors`);
+    return { streamers: polled.length, sessions, errors };
+  }
+
+  /**
+   * Delete polls past the retention window; sessions keep the summary
+   */
+  async prunePolls(): Promise<number> {
+    const cutoff = new Date(Date.now() - POLL_RETENTION_DAYS * DAY_MS);
+    const result = await db.discoveryViewerPoll.deleteMany({ where: { polledAt: { lt: cutoff } } });
+    return result.count;
+  }
+
+  /**
+   * Most recent sessions for a creator
+   */
+  async getSessions(streamerId: string, limit: number = 20) {
+    const sessions = await db.discoveryStreamSession.findMany({
+      where: { streamerId },
+      orderBy: { startedAt: 'desc' },
+      take: limit,
+    });
+
+    return sessions.map(s => ({ ...s, minutesWatched: Number(s.minutesWatched) }));
+  }
+
+  private async rebuildSessions(streamerId: string, since: Date): Promise<number> {
+    // Extend the rebuild range back to the start of any session still open at `since`,
+    // otherwise a long stream would be split at the aggregation boundary
+    const overlapping = await db.discoveryStreamSession.findFirst({
+      where: {
+        streamerId,
+        OR: [
+          { endedAt: null },
+          { endedAt: { gte: new Date(since.getTime() - SESSION_GAP_MINUTES * MINUTE_MS) } },
+        ],
+      },
+      orderBy: { startedAt: 'asc' },
+      select: { startedAt: true },
+    });
+
+    const rebuildFrom = overlapping && overlapping.startedAt < since ? overlapping.startedAt : since;
+
+    const [polls, streamer] = await Promise.all([
+      db.discoveryViewerPoll.findMany({
+        where: { streamerId, polledAt: { gte: rebuildFrom } },
+        orderBy: { polledAt: 'asc' },
+        select: { viewerCount: true, game: true, title: true, polledAt: true },
+      }),
+      db.streamer.findUnique({ where: { id: streamerId }, select: { isLive: true } }),
+    ]);
+
+    const drafts = this.buildSessions(polls, streamer?.isLive ?? false);
+
+    await db.$transaction([
+      db.discoveryStreamSession.deleteMany({ where: { streamerId, startedAt: { gte: rebuildFrom } } }),
+      db.discoveryStreamSession.createMany({ data: drafts.map(d => ({ ...d, streamerId })) }),
+    ]);
+
+    return drafts.length;
+  }
+
+  private buildSessions(polls: PollRow[], isLive: boolean): SessionDraft[] {
+    const groups: PollRow[][] = [];
+    for (const poll of polls) {
+      const current = groups[groups.length - 1];
+      const last = current?.[current.length - 1];
+      if (last && poll.polledAt.getTime() - last.polledAt.getTime() <= SESSION_GAP_MINUTES * MINUTE_MS) {
+        current.push(poll);
+      } else {
+        groups.push([poll]);
+      }
+    }
+
+    const now = Date.now();
+    return groups.map((group, index) => {
+      const first = group[0];
+      const last = group[group.length - 1];
+
+      // Time-weighted (trapezoid) viewer-minutes between consecutive polls
+      let minutesWatched = 0;
+      for (let i = 1; i < group.length; i++) {
+        const minutes = (group[i].polledAt.getTime() - group[i - 1].polledAt.getTime()) / MINUTE_MS;
+        minutesWatched += ((group[i].viewerCount + group[i - 1].viewerCount) / 2) * minutes;
+      }
+
+      const durationMinutes = Math.round((last.polledAt.getTime() - first.polledAt.getTime()) / MINUTE_MS);
+      const avgViewers = durationMinutes > 0
+        ? Math.round(minutesWatched / durationMinutes)
+        : Math.round(group.reduce((sum, p) => sum + p.viewerCount, 0) / group.length);
+
+      const isOngoing = index === groups.length - 1 && isLive
+        && now - last.polledAt.getTime() <= SESSION_GAP_MINUTES * MINUTE_MS;
+
+      return {
+        startedAt: first.polledAt,
+        endedAt: isOngoing ? null : last.polledAt,
+        peakViewers: Math.max(...group.map(p => p.viewerCount)),
+        avgViewers,
+        durationMinutes,
+        minutesWatched: BigInt(Math.round(minutesWatched)),
+        pollCount: group.length,
+        game: this.mostFrequent(group.map(p => p.game)),
+        title: [...group].reverse().find(p => p.title)?.title ?? null,
+      };
+    });
+  }
+
+  private async refreshStreamerMetrics(streamerId: string): Promise<void> {
+    const windowStart = new Date(Date.now() - METRICS_WINDOW_DAYS * DAY_MS);
+
+    const [recent, allTime, streamer] = await Promise.all([
+      db.discoveryStreamSession.aggregate({
+        where: { streamerId, startedAt: { gte: windowStart } },
+        _sum: { durationMinutes: true, minutesWatched: true },
+      }),
+      db.discoveryStreamSession.aggregate({
+        where: { streamerId },
+        _max: { peakViewers: true },
+      }),
+      db.streamer.findUnique({ where: { id: streamerId }, select: { highestViewers: true } }),
+    ]);
+
+    const durationMinutes = recent._sum.durationMinutes ?? 0;
+    const minutesWatched = recent._sum.minutesWatched ?? BigInt(0);
+
+    const data: any = { durationMinutes, minutesWatched };
+    // Single-poll sessions have no duration; leave avgViewers alone rather than zero it
+    if (durationMinutes > 0) {
+      data.avgViewers = Math.round(Number(minutesWatched) / durationMinutes);
+    }
+    // Peaks imported from platform data before polling began are kept if higher
+    const sessionPeak = allTime._max.peakViewers ?? 0;
+    if (sessionPeak > (streamer?.highestViewers ?? 0)) {
+      data.highestViewers = sessionPeak;
+    }
+
+    await db.streamer.update({ where: { id: streamerId }, data });
+  }
+
+  private mostFrequent(values: Array<string | null>): string | null {
+    const counts = new Map<string, number>();
+    for (const v of values) {
+      if (v) counts.set(v, (counts.get(v) || 0) + 1);
+    }
+    let best: string | null = null;
+    let bestCount = 0;
+    for (const [value, count] of counts) {
+      if (count > bestCount) {
+        best = value;
+        bestCount = count;
+      }
+    }
+    return best;
+  }
+}
+
+export const streamSessionService = new StreamSessionService();
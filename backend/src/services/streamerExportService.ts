@@ -0,0 +1,223 @@
+import { Writable } from 'stream';
+import { Response } from 'express';
+import ExcelJS from 'exceljs';
+import { db, logger } from '../utils/database';
+
+/**
+ * StreamerExportService
+ *
+ * Streams filtered creator searches as CSV or XLSX. Rows are read from the
+ * database in batches and written straight to the response,
+ * so memory stays flat regardless of how many creators match.
+ */
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+interface ExportColumn {
+  header: string;
+  group: 'profile' | 'metrics' | 'contact' | 'tags' | 'performance';
+  // Prisma fields needed to render this column
+  fields: string[];
+  value: (row: Record<string, any>) => string | number | boolean | null;
+}
+
+const BATCH_SIZE = 500;
+
+const joinList = (v: unknown) => (Array.isArray(v) ? v.join('; ') : '');
+const toNumber = (v: unknown) => (v === null || v === undefined ? null : Number(v));
+const toIso = (v: unknown) => (v instanceof Date ? v.toISOString() : null);
+// Spreadsheet apps run text cells starting with these as formulas (CSV injection)
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const EXPORT_COLUMNS: Record<string, ExportColumn> = {
+  id: { header: 'ID', group: 'profile', fields: ['id'], value: r => r.id },
+  platform: { header: 'Platform', group: 'profile', fields: ['platform'], value: r => r.platform },
+  username: { header: 'Username', group: 'profile', fields: ['username'], value: r => r.username },
+  displayName: { header: 'Display Name', group: 'profile', fields: ['displayName'], value: r => r.displayName },
+  profileUrl: { header: 'Profile URL', group: 'profile', fields: ['profileUrl'], value: r => r.profileUrl },
+  region: { header: 'Region', group: 'profile', fields: ['region'], value: r => r.region },
+  country: { header: 'Country', group: 'profile', fields: ['inferredCountry', 'countryCode'], value: r => r.inferredCountry || r.countryCode || null },
+  language: { header: 'Language', group: 'profile', fields: ['language'], value: r => r.language },
+  category: { header: 'Category', group: 'profile', fields: ['inferredCategory', 'primaryCategory'], value: r => r.inferredCategory || r.primaryCategory || null },
+  currentGame: { header: 'Current Game', group: 'profile', fields: ['currentGame'], value: r => r.currentGame },
+  topGames: { header: 'Top Games', group: 'profile', fields: ['topGames'], value: r => joinList(r.topGames) },
+
+  followers: { header: 'Followers', group: 'metrics', fields: ['followers'], value: r => r.followers },
+  isLive: { header: 'Live', group: 'metrics', fields: ['isLive'], value: r => r.isLive },
+  currentViewers: { header: 'Current Viewers', group: 'metrics', fields: ['currentViewers'], value: r => r.currentViewers },
+  highestViewers: { header: 'Peak Viewers', group: 'metrics', fields: ['highestViewers'], value: r => r.highestViewers },
+  avgViewers: { header: 'Avg Viewers', group: 'metrics', fields: ['avgViewers'], value: r => r.avgViewers },
+  totalViews: { header: 'Total Views', group: 'metrics', fields: ['totalViews'], value: r => toNumber(r.totalViews) },
+  totalLikes: { header: 'Total Likes', group: 'metrics', fields: ['totalLikes'], value: r => toNumber(r.totalLikes) },
+  engagementRate: { header: 'Engagement Rate', group: 'metrics', fields: ['engagementRate'], value: r => r.engagementRate },
+  minutesWatched: { header: 'Minutes Watched', group: 'metrics', fields: ['minutesWatched'], value: r => toNumber(r.minutesWatched) },
+  followerGrowth7d: { header: 'Follower Growth (7d)', group: 'metrics', fields: ['followerGrowth7d'], value: r => r.followerGrowth7d },
+  followerGrowthPct7d: { header: 'Follower Growth % (7d)', group: 'metrics', fields: ['followerGrowthPct7d'], value: r => r.followerGrowthPct7d },
+  lastSeenLive: { header: 'Last Seen Live', group: 'metrics', fields: ['lastSeenLive'], value: r => toIso(r.lastSeenLive) },
+
+  email: { header: 'Email', group: 'contact', fields: ['email'], value: r => r.email },
+  businessEmail: { header: 'Business Email', group: 'contact', fields: ['businessEmail'], value: r => r.businessEmail },
+  emailSource: { header: 'Email Source', group: 'contact', fields: ['emailSource'], value: r => r.emailSource },
+
+  tags: { header: 'Tags', group: 'tags', fields: ['tags'], value: r => joinList(r.tags) },
+  unifiedTags: { header: 'Unified Tags', group: 'tags', fields: ['unifiedTags'], value: r => joinList(r.unifiedTags) },
+
+  igamingScore: { header: 'iGaming Score', group: 'performance', fields: ['igamingScore'], value: r => r.igamingScore },
+  brandSafetyScore: { header: 'Brand Safety Score', group: 'performance', fields: ['brandSafetyScore'], value: r => r.brandSafetyScore },
+  gamblingCompatibility: { header: 'Gambling Compatible', group: 'performance', fields: ['gamblingCompatibility'], value: r => r.gamblingCompatibility },
+  historicalCpa: { header: 'Historical CPA', group: 'performance', fields: ['historicalCpa'], value: r => r.historicalCpa },
+  historicalConversions: { header: 'Historical Conversions', group: 'performance', fields: ['historicalConversions'], value: r => r.historicalConversions },
+  historicalCampaigns: { header: 'Historical Campaigns', group: 'performance', fields: ['historicalCampaigns'], value: r => r.historicalCampaigns },
+  avgRoi: { header: 'Avg ROI', group: 'performance', fields: ['avgRoi'], value: r => r.avgRoi },
+};
+
+const DEFAULT_COLUMNS = [
+  'platform', 'username', 'displayName', 'profileUrl', 'region', 'language', 'category',
+  'followers', 'avgViewers', 'engagementRate', 'email', 'businessEmail',
+];
+
+class StreamerExportService {
+  getColumnKeys(): string[] {
+    return Object.keys(EXPORT_COLUMNS);
+  }
+
+  /**
+   * Column catalogue for the export picker
+   */
+  describeColumns() {
+    return Object.entries(EXPORT_COLUMNS).map(([key, col]) => ({
+      key,
+      header: col.header,
+      group: col.group,
+      default: DEFAULT_COLUMNS.includes(key),
+    }));
+  }
+
+  /**
+   * Parse a comma-separated column list, dropping unknown keys
+   */
+  resolveColumns(columns?: string): string[] {
+    if (!columns) return DEFAULT_COLUMNS;
+    return columns.split(',').map(c => c.trim()).filter(c => c in EXPORT_COLUMNS);
+  }
+
+  /**
+   * Stream every creator matching `where` to the response, or the creators in
+   * `ids` in that order when given (searches). Returns rows written.
+   */
+  async exportRows(res: Response, options: {
+    format: ExportFormat;
+    columns: string[];
+    where: any;
+    orderBy: any[];
+    ids?: string[];
+  }): Promise<number> {
+    const { format, columns, where, orderBy, ids } = options;
+    const cols = columns.map(key => EXPORT_COLUMNS[key]);
+
+    // id is always selected so search results can be put back in ranked order
+    const select: Record<string, true> = { id: true };
+    for (const col of cols) {
+      for (const field of col.fields) select[field] = true;
+    }
+
+    const writer = format === 'xlsx'
+      ? this.createXlsxWriter(res, cols)
+      : this.createCsvWriter(res, cols);
+
+    let written = 0;
+
+    try {
+      if (ids) {
+        for (let offset = 0; offset < ids.length; offset += BATCH_SIZE) {
+          const batchIds = ids.slice(offset, offset + BATCH_SIZE);
+          const position = new Map(batchIds.map((id, i) => [id, i]));
+          const batch: Record<string, any>[] = await db.streamer.findMany({ where: { id: { in: batchIds } }, select });
+          batch.sort((a, b) => position.get(a.id)! - position.get(b.id)!);
+
+          for (const row of batch) {
+            await writer.write(cols.map(col => col.value(row)));
+          }
+          written += batch.length;
+        }
+      } else {
+        while (true) {
+          // Offset over the stable order rather than a cursor, whose row comparison on the
+          // nullable sort keys (nulls last) can cut the export short after a NULL row
+          const batch: Record<string, any>[] = await db.streamer.findMany({
+            where,
+            // id tie-breaker keeps the order stable across equal sort keys
+            orderBy: [...orderBy, { id: 'asc' }],
+            select,
+            skip: written,
+            take: BATCH_SIZE,
+          });
+
+          if (batch.length === 0) break;
+
+          for (const row of batch) {
+            await writer.write(cols.map(col => col.value(row)));
+          }
+
+          written += batch.length;
+
+          if (batch.length < BATCH_SIZE) break;
+        }
+      }
+
+      await writer.finish();
+    } catch (error: any) {
+      logger.error('Creator export failed', { message: error?.message, written });
+      // Headers are already sent once streaming starts, so the only option is to abort
+      res.destroy(error);
+    }
+
+    return written;
+  }
+
+  private createCsvWriter(res: Response, cols: ExportColumn[]) {
+    const escape = (v: string | number | boolean | null) => {
+      if (v === null || v === undefined) return '';
+      const s = typeof v === 'string' && FORMULA_PREFIX.test(v) ? `'${v}` : String(v);
+      return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+    };
+
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    // BOM so Excel opens UTF-8 names correctly
+    res.write('﻿' + cols.map(c => escape(c.header)).join(',') + '\n');
+
+    return {
+      write: (values: Array<string | number | boolean | null>) => this.writeWithBackpressure(res, values.map(escape).join(',') + '\n'),
+      finish: async () => { res.end(); },
+    };
+  }
+
+  private createXlsxWriter(res: Response, cols: ExportColumn[]) {
+    res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+
+    const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({
+      stream: res as unknown as Writable,
+      useStyles: false,
+      useSharedStrings: false,
+    });
+    const sheet = workbook.addWorksheet('Creators');
+    sheet.columns = cols.map(c => ({ header: c.header, width: Math.max(12, c.header.length + 2) }));
+
+    return {
+      write: async (values: Array<string | number | boolean | null>) => {
+        sheet.addRow(values).commit();
+      },
+      finish: async () => {
+        sheet.commit();
+        await workbook.commit();
+      },
+    };
+  }
+
+  private writeWithBackpressure(res: Response, chunk: string): Promise<void> {
+    if (res.write(chunk)) return Promise.resolve();
+    return new Promise(resolve => res.once('drain', () => resolve()));
+  }
+}
+
+export const streamerExportService = new StreamerExportService();
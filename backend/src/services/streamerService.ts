@@ -1,5 +1,9 @@
+import { Platform } from '@prisma/client';
 import { db } from '../utils/database';
 import { processBatch } from '../utils/rateLimiter';
+import { platformRegistry } from '../platforms/registry';
+import { metricSnapshotService } from './metricSnapshotService';
+import { cacheService } from './cacheService';
 import axios from 'axios';
 
 interface StreamerData {
@@ -21,53 +25,33 @@ interface StreamStatus {
 }
 
 export class StreamerService {
-  private twitchToken: string | null = null;
-  private twitchTokenExpiry: number = 0;
-  
-  private kickToken: string | null = null;
-  private kickTokenExpiry: number = 0;
-
-  // ==================== TWITCH ====================
-  
-  private async getTwitchToken(): Promise<string|null> {
-    const now = Date.now();
-    
-    if (this.twitchToken && this.twitchTokenExpiry > now) {
-      return this.twitchToken;
-    }
+  // ==================== LIVE SYNC ====================
 
-    try {
-      const response = await axios.post('https://id.twitch.tv/oauth2/token', null, {
-        params: {
-          client_id: process.env.TWITCH_CLIENT_ID,
-          client_secret: process.env.TWITCH_CLIENT_SECRET,
-          grant_type: 'client_credentials'
-        }
-      });
+  async syncTwitchStreamers() {
+    return this.syncLiveStatus(Platform.TWITCH, '🟣');
+  }
 
-      this.twitchToken = response.data.access_token;
-      this.twitchTokenExpiry = now + (response.data.expires_in * 1000) - 60000;
-      
-      console.log('✅ Twitch token refreshed');
-      return this.twitchToken;
-    } catch (error) {
-      console.error('❌ Failed to get Twitch token:', error);
-      throw error;
-    }
+  async syncKickStreamers() {
+    return this.syncLiveStatus(Platform.KICK, '🟢');
   }
 
-  async syncTwitchStreamers(): Promise<{
+  /**
+   * Poll live status for every creator on a platform through its adapter,
+   * in batches sized by the adapter's rate-limit policy
+   */
+  private async syncLiveStatus(platform: Platform, emoji: string): Promise<{
     total: number;
     live: number;
     errors: number;
     duration: number;
   }> {
     const startTime = Date.now();
-    console.log('🟣 [TWITCH] Starting sync...');
+    const adapter = platformRegistry.get(platform);
+    console.log(`${emoji} [${platform}] Starting sync...`);
 
     try {
       const streamers = await db.streamer.findMany({
-        where: { platform: 'TWITCH' },
+        where: { platform },
         select: {
           id: true,
           username: true,
@@ -79,53 +63,23 @@ export class StreamerService {
         }
       });
 
-      console.log(`📊 [TWITCH] Found ${streamers.length} streamers`);
+      console.log(`📊 [${platform}] Found ${streamers.length} streamers`);
 
-      const token = await this.getTwitchToken();
       let liveCount = 0;
       let errors = 0;
 
-      const BATCH_SIZE = 100;
-      const batches = Math.ceil(streamers.length / BATCH_SIZE);
+      const { batchSize, concurrency, minIntervalMs } = adapter.rateLimit;
+      const batches = Math.ceil(streamers.length / batchSize);
 
       for (let i = 0; i < batches; i++) {
-        const batch = streamers.slice(i * BATCH_SIZE, (i + 1) * BATCH_SIZE);
-        const usernames = batch.map(s => s.username);
+        const batch = streamers.slice(i * batchSize, (i + 1) * batchSize);
 
         try {
-          const response = await axios.get('https://api.twitch.tv/helix/streams', {
-            headers: {
-              'Client-ID': process.env.TWITCH_CLIENT_ID!,
-              'Authorization': `Bearer ${token}`
-            },
-            params: {
-              user_login: usernames
-            }
-          });
-
-          const liveStreams = response.data.data;
-          const liveMap = new Map(
-            liveStreams.map((stream: any) => [
-              stream.user_login.toLowerCase(),
-              stream
-            ])
-          );
+          const liveMap = await adapter.checkLive(batch);
 
           const updates = batch.map(streamer => {
-            const liveData:any = liveMap.get(streamer.username.toLowerCase());
-            const status: StreamStatus = liveData ? {
-              isLive: true,
-              viewers: liveData.viewer_count,
-              title: liveData.title,
-              game: liveData.game_name,
-              startedAt: new Date(liveData.started_at)
-            } : {
-              isLive: false,
-              viewers: 0
-            };
-
+            const status: StreamStatus = liveMap.get(streamer.username.toLowerCase()) || { isLive: false, viewers: 0 };
             if (status.isLive) liveCount++;
-
             return this.buildUpdateData(streamer, status);
           });
 
@@ -142,198 +96,28 @@ export class StreamerService {
                 errors++;
               }
             },
-            5
+            concurrency
           );
 
-          console.log(`✅ [TWITCH] Batch ${i + 1}/${batches} complete (${batch.length} streamers)`);
-
-          if (i < batches - 1) {
-            await new Promise(resolve => setTimeout(resolve, 100));
-          }
-
-        } catch (error: any) {
-          console.error(`❌ [TWITCH] Batch ${i + 1} failed:`, error.message);
-          errors += batch.length;
-        }
-      }
-
-      const duration = ((Date.now() - startTime) / 1000).toFixed(1);
-      console.log(`🎉 [TWITCH] Sync complete: ${streamers.length} total, ${liveCount} live, ${errors} errors in ${duration}s`);
-
-      return {
-        total: streamers.length,
-        live: liveCount,
-        errors,
-        duration: parseFloat(duration)
-      };
-
-    } catch (error) {
-      console.error('💥 [TWITCH] Sync failed:', error);
-      throw error;
-    }
-  }
-
-  // ==================== KICK ====================
-
-  private async getKickToken(): Promise<string|null> {
-    const now = Date.now();
-    
-    if (this.kickToken && this.kickTokenExpiry > now) {
-      return this.kickToken;
-    }
-
-    try {
-      const response = await axios.post(
-        'https://id.kick.com/oauth/token',
-        new URLSearchParams({
-          client_id: process.env.KICK_CLIENT_ID!,
-          client_secret: process.env.KICK_CLIENT_SECRET!,
-          grant_type: 'client_credentials'
-        }),
-        {
-          headers: {
-            'Content-Type': 'application/x-www-form-urlencoded'
-          }
-        }
-      );
+          await metricSnapshotService.recordSnapshots(batch.map(s => s.id));
 
-      this.kickToken = response.data.access_token;
-      // Kick tokens suelen durar 1 hora, restamos 5 min de margen
-      this.kickTokenExpiry = now + (55 * 60 * 1000);
-      
-      console.log('✅ Kick token refreshed');
-      return this.kickToken;
-    } catch (error: any) {
-      console.error('❌ Failed to get Kick token:', error.response?.data || error.message);
-      throw error;
-    }
-  }
+          console.log(`✅ [${platform}] Batch ${i + 1}/${batches} complete (${batch.length} streamers, ${liveCount} live so far)`);
 
-  async syncKickStreamers(): Promise<{
-    total: number;
-    live: number;
-    errors: number;
-    duration: number;
-  }> {
-    const startTime = Date.now();
-    console.log('🟢 [KICK] Starting sync...');
-
-    try {
-      const streamers = await db.streamer.findMany({
-        where: { platform: 'KICK' },
-        select: {
-          id: true,
-          username: true,
-          platform: true,
-          profileUrl: true,
-          highestViewers: true,
-          avgViewers: true,
-          streamTitles: true
-        }
-      });
-
-      console.log(`📊 [KICK] Found ${streamers.length} streamers`);
-
-      const token = await this.getKickToken();
-      let liveCount = 0;
-      let errors = 0;
-
-      // Batch de 30 streamers (límite de Kick API)
-      const BATCH_SIZE = 30;
-      const batches = Math.ceil(streamers.length / BATCH_SIZE);
-
-      for (let i = 0; i < batches; i++) {
-        const batch = streamers.slice(i * BATCH_SIZE, (i + 1) * BATCH_SIZE);
-        const slugs = batch.map(s => s.username);
-
-        try {
-          // Construir URL con múltiples parámetros slug
-          const params = new URLSearchParams();
-          slugs.forEach(slug => params.append('slug', slug));
-          const url = `https://api.kick.com/public/v1/channels?${params.toString()}`; 
-          const response = await axios.get(
-            url,
-            {
-              headers: {
-                'Accept': 'application/json',
-                'Authorization': `Bearer ${token}`
-              },
-              timeout: 15000
-            }
-          );
-
-          // La respuesta debería ser un array de canales
-          const channels = Array.isArray(response.data?.data) ? response.data.data : [];
-          // Crear mapa de slug -> channel data
-          const channelMap = new Map(
-            channels.map((channel: any) => [
-              channel.slug.toLowerCase(),
-              channel
-            ])
-          );
-
-          const updates = batch.map(streamer => {
-            const channelData:any = channelMap.get(streamer.username.toLowerCase());
-            
-            let status: StreamStatus = { isLive: false, viewers: 0 };
-
-            if (channelData) {
-              const livestream = channelData.stream;
-              const isLive = livestream?.is_live || false;
-
-              if (isLive) {
-                status = {
-                  isLive: true,
-                  viewers: livestream.viewer_count || 0,
-                  title: channelData.stream_title || '',
-                  game: channelData.category?.name || '',
-                  startedAt: livestream.created_at ? new Date(livestream.start_time) : undefined
-                };
-                liveCount++;
-              }
-            }
-
-            return this.buildUpdateData(streamer, status);
-          });
-
-          // Actualizar DB con concurrencia controlada
-          await processBatch(
-            updates,
-            async (update:any) => {
-              try {
-                await db.streamer.update({
-                  where: { id: update.id },
-                  data: update.data
-                });
-              } catch (error) {
-                console.error(`Error updating ${update.id}:`, error);
-                errors++;
-              }
-            },
-            5
-          );
-
-          console.log(`✅ [KICK] Batch ${i + 1}/${batches} complete (${batch.length} streamers, ${liveCount} live so far)`);
-
-          // Delay conservador entre batches (100ms)
           if (i < batches - 1) {
-            await new Promise(resolve => setTimeout(resolve, 100));
+            await new Promise(resolve => setTimeout(resolve, minIntervalMs));
           }
 
         } catch (error: any) {
-          console.error(`❌ [KICK] Batch ${i + 1} failed:`, error.response?.data || error.message);
+          console.error(`❌ [${platform}] Batch ${i + 1} failed:`, error.response?.data || error.message);
           errors += batch.length;
-          
-          // Si falla el token, invalidarlo para que se renueve
-          if (error.response?.status === 401) {
-            this.kickToken = null;
-            this.kickTokenExpiry = 0;
-          }
         }
       }
 
+      // Cached creator lists and dashboards carry live status
+      await cacheService.invalidateCreators();
+
       const duration = ((Date.now() - startTime) / 1000).toFixed(1);
-      console.log(`🎉 [KICK] Sync complete: ${streamers.length} total, ${liveCount} live, ${errors} errors in ${duration}s`);
+      console.log(`🎉 [${platform}] Sync complete: ${streamers.length} total, ${liveCount} live, ${errors} errors in ${duration}s`);
 
       return {
         total: streamers.length,
@@ -343,7 +127,7 @@ export class StreamerService {
       };
 
     } catch (error) {
-      console.error('💥 [KICK] Sync failed:', error);
+      console.error(`💥 [${platform}] Sync failed:`, error);
       throw error;
     }
   }
@@ -414,110 +198,32 @@ export class StreamerService {
     };
   }
 
-  // ==================== BACKFILL TWITCH AVATARS ====================
+  // ==================== BACKFILL AVATARS ====================
 
   async backfillTwitchAvatars(limit: number = 100): Promise<{ updated: number; errors: number }> {
-    console.log(`🖼️ [TWITCH] Backfilling avatars for ${limit} streamers...`);
-
-    try {
-      // Get streamers without avatars
-      const streamers = await db.streamer.findMany({
-        where: {
-          platform: 'TWITCH',
-          avatarUrl: null
-        },
-        select: { id: true, username: true },
-        take: limit
-      });
-
-      if (streamers.length === 0) {
-        console.log('✅ All Twitch streamers have avatars');
-        return { updated: 0, errors: 0 };
-      }
-
-      const token = await this.getTwitchToken();
-      let updated = 0;
-      let errors = 0;
-
-      // Batch by 100 (Twitch API limit)
-      const BATCH_SIZE = 100;
-      const batches = Math.ceil(streamers.length / BATCH_SIZE);
-
-      for (let i = 0; i < batches; i++) {
-        const batch = streamers.slice(i * BATCH_SIZE, (i + 1) * BATCH_SIZE);
-        const usernames = batch.map(s => s.username);
-
-        try {
-          // Get user info including profile image
-          const response = await axios.get('https://api.twitch.tv/helix/users', {
-            headers: {
-              'Client-ID': process.env.TWITCH_CLIENT_ID!,
-              'Authorization': `Bearer ${token}`
-            },
-            params: { login: usernames }
-          });
-
-          const userMap = new Map(
-            response.data.data.map((user: any) => [
-              user.login.toLowerCase(),
-              user
-            ])
-          );
-
-          for (const streamer of batch) {
-            const userData: any = userMap.get(streamer.username.toLowerCase());
-            if (userData && userData.profile_image_url) {
-              try {
-                await db.streamer.update({
-                  where: { id: streamer.id },
-                  data: {
-                    avatarUrl: userData.profile_image_url,
-                    lastScrapedAt: new Date()
-                  }
-                });
-                updated++;
-              } catch (e) {
-                errors++;
-              }
-            }
-          }
-
-          console.log(`✅ [TWITCH] Avatar batch ${i + 1}/${batches} complete`);
-
-          if (i < batches - 1) {
-            await new Promise(resolve => setTimeout(resolve, 100));
-          }
-        } catch (error: any) {
-          console.error(`❌ [TWITCH] Avatar batch ${i + 1} failed:`, error.message);
-          errors += batch.length;
-        }
-      }
-
-      console.log(`🎉 [TWITCH] Avatar backfill complete: ${updated} updated, ${errors} errors`);
-      return { updated, errors };
-    } catch (error) {
-      console.error('💥 [TWITCH] Avatar backfill failed:', error);
-      throw error;
-    }
+    return this.backfillAvatars(Platform.TWITCH, limit);
   }
 
-  // ==================== BACKFILL KICK AVATARS ====================
-
   async backfillKickAvatars(limit: number = 100): Promise<{ updated: number; errors: number }> {
-    console.log(`🖼️ [KICK] Backfilling avatars for ${limit} streamers...`);
+    return this.backfillAvatars(Platform.KICK, limit);
+  }
+
+  /**
+   * Fill in missing avatars from the platform adapter's profile lookup, paced by its rate limit
+   */
+  private async backfillAvatars(platform: Platform, limit: number): Promise<{ updated: number; errors: number }> {
+    const adapter = platformRegistry.get(platform);
+    console.log(`🖼️ [${platform}] Backfilling avatars for ${limit} streamers...`);
 
     try {
       const streamers = await db.streamer.findMany({
-        where: {
-          platform: 'KICK',
-          avatarUrl: null
-        },
+        where: { platform, avatarUrl: null },
         select: { id: true, username: true },
         take: limit
       });
 
       if (streamers.length === 0) {
-        console.log('✅ All Kick streamers have avatars');
+        console.log(`✅ All ${platform} streamers have avatars`);
         return { updated: 0, errors: 0 };
       }
 
@@ -526,33 +232,28 @@ export class StreamerService {
 
       for (const streamer of streamers) {
         try {
-          // Kick public API for channel info
-          const response = await axios.get(`https://kick.com/api/v2/channels/${streamer.username}`, {
-            timeout: 5000
-          });
-
-          if (response.data?.user?.profile_pic) {
+          const profile = await adapter.fetchProfile(streamer.username);
+          if (profile?.avatarUrl) {
             await db.streamer.update({
               where: { id: streamer.id },
               data: {
-                avatarUrl: response.data.user.profile_pic,
+                avatarUrl: profile.avatarUrl,
                 lastScrapedAt: new Date()
               }
             });
             updated++;
           }
-
-          // Rate limit: 1 request per 200ms
-          await new Promise(resolve => setTimeout(resolve, 200));
         } catch (e) {
           errors++;
         }
+
+        await new Promise(resolve => setTimeout(resolve, adapter.rateLimit.minIntervalMs));
       }
 
-      console.log(`🎉 [KICK] Avatar backfill complete: ${updated} updated, ${errors} errors`);
+      console.log(`🎉 [${platform}] Avatar backfill complete: ${updated} updated, ${errors} errors`);
       return { updated, errors };
     } catch (error) {
-      console.error('💥 [KICK] Avatar backfill failed:', error);
+      console.error(`💥 [${platform}] Avatar backfill failed:`, error);
       throw error;
     }
   }
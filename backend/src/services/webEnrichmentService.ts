@@ -1,7 +1,9 @@
 import axios from 'axios';
 import * as cheerio from 'cheerio';
 import { db, logger } from '../utils/database';
-import { Platform } from '@prisma/client';
+import { Platform, WebhookEvent } from '@prisma/client';
+import { webhookService, WebhookEventItem } from './webhookService';
+import { contactService } from './contactService';
 
 interface EnrichedData {
   profileDescription?: string;
@@ -564,6 +566,8 @@ export class WebEnrichmentService {
         break;
       }
 
+      const foundInBatch: WebhookEventItem[] = [];
+
       for (const streamer of streamers) {
         const textsToSearch = [
           { text: streamer.profileDescription || '', source: 'profile_description' },
@@ -584,12 +588,21 @@ export class WebEnrichmentService {
           });
 
           found++;
+          foundInBatch.push({
+            streamerId: streamer.id,
+            data: { email: emailResult.email, isBusiness: emailResult.isBusiness, emailSource: emailResult.source }
+          });
           logger.info(`Extracted email for ${streamer.username}: ${emailResult.email}`);
+
+          // Store and check it (with any other contacts in the profile) right away
+          await contactService.discoverForCreator(streamer.id);
         }
 
         processed++;
       }
 
+      await webhookService.emit(WebhookEvent.EMAIL_FOUND, foundInBatch);
+
       skip += batchSize;
       logger.info(`Processed ${processed} streamers, found ${found} emails so far...`);
     }
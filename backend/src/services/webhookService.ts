@@ -0,0 +1,457 @@
+import crypto from 'crypto';
+import axios from 'axios';
+import {
+  DiscoveryWebhookDelivery,
+  DiscoveryWebhookSubscription,
+  FraudStatus,
+  Prisma,
+  WebhookDeliveryStatus,
+  WebhookEvent,
+} from '@prisma/client';
+import { db, logger } from '../utils/database';
+
+/**
+ * WebhookService
+ *
+ * Signed outbound callbacks for creator events, so Envisioner no longer has
+ * to poll Discovery. Event sources call emit(); one delivery row is written
+ * per matching subscription and sent straight away, with failed deliveries
+ * retried by webhookDeliveryJob on a backoff schedule:
+ *
+ *   attempt 1 now -> +1m -> +5m -> +30m -> +2h -> +6h -> FAILED
+ *
+ * Each request carries X-Discovery-Signature: t=<unix>,v1=<hex HMAC-SHA256
+ * of "<t>.<raw body>" keyed by the subscription secret>, so receivers can
+ * verify origin and reject replays.
+ */
+
+export interface WebhookEventItem {
+  streamerId: string;
+  data?: Record<string, unknown>;
+}
+
+export interface FollowerChange {
+  streamerId: string;
+  previous: number;
+  current: number;
+}
+
+const RETRY_DELAYS_MS = [60 * 1000, 5 * 60 * 1000, 30 * 60 * 1000, 2 * 60 * 60 * 1000, 6 * 60 * 60 * 1000];
+const MAX_ATTEMPTS = RETRY_DELAYS_MS.length + 1;
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+const DELIVERY_BATCH_SIZE = 50;
+// A claimed delivery is pushed this far ahead so other instances skip it; if the sender dies it is retried after this
+const DELIVERY_CLAIM_MS = 5 * 60 * 1000;
+const SUBSCRIBER_CACHE_MS = 60 * 1000;
+const DEFAULT_FOLLOWER_THRESHOLDS = [10_000, 50_000, 100_000, 250_000, 500_000, 1_000_000];
+const CREATOR_WATERMARK_KEY = 'webhook_creator_watermark';
+const NEW_CREATOR_BATCH_SIZE = 500;
+
+const creatorSummarySelect = {
+  id: true,
+  platform: true,
+  username: true,
+  displayName: true,
+  profileUrl: true,
+  avatarUrl: true,
+  followers: true,
+  region: true,
+  language: true,
+  isLive: true,
+  currentViewers: true,
+  currentGame: true,
+  fraudCheck: true,
+} as const;
+
+class WebhookService {
+  private subscriberCache: { at: number; subscriptions: DiscoveryWebhookSubscription[] } | null = null;
+  private processing = false;
+
+  /**
+   * Generate a signing secret for a new subscription
+   */
+  generateSecret(): string {
+    return `whsec_${crypto.randomBytes(24).toString('base64url')}`;
+  }
+
+  /**
+   * Drop the cached subscriber list after subscriptions change
+   */
+  invalidateCache(): void {
+    this.subscriberCache = null;
+  }
+
+  /**
+   * True when at least one active subscription listens for the event.
+   * Event sources check this first so they skip extra queries when nobody listens.
+   */
+  async hasSubscribers(event: WebhookEvent): Promise<boolean> {
+    return (await this.getSubscriptions(event)).length > 0;
+  }
+
+  /**
+   * Queue and send one delivery per creator per subscribed endpoint. Never throws.
+   */
+  async emit(event: WebhookEvent, items: WebhookEventItem[]): Promise<number> {
+    if (items.length === 0) return 0;
+
+    try {
+      const subscriptions = await this.getSubscriptions(event);
+      if (subscriptions.length === 0) return 0;
+
+      const creators = await this.loadCreators(items.map(i => i.streamerId));
+      const rows: Prisma.DiscoveryWebhookDeliveryCreateManyInput[] = [];
+
+      for (const item of items) {
+        const creator = creators.get(item.streamerId);
+        if (!creator) continue;
+        for (const subscription of subscriptions) {
+          rows.push({
+            subscriptionId: subscription.id,
+            event,
+            payload: { creator, ...(item.data || {}) } as Prisma.InputJsonValue,
+            nextAttemptAt: new Date(),
+          });
+        }
+      }
+
+      return await this.enqueue(rows);
+    } catch (error: any) {
+      logger.error('Failed to emit webhook event', { event, count: items.length, message: error?.message });
+      return 0;
+    }
+  }
+
+  /**
+   * FOLLOWER_THRESHOLD: fire once per subscription for the highest milestone crossed upwards
+   */
+  async emitFollowerCrossings(changes: FollowerChange[]): Promise<number> {
+    const rising = changes.filter(c => c.current > c.previous);
+    if (rising.length === 0) return 0;
+
+    try {
+      const subscriptions = await this.getSubscriptions(WebhookEvent.FOLLOWER_THRESHOLD);
+      if (subscriptions.length === 0) return 0;
+
+      const creators = await this.loadCreators(rising.map(c => c.streamerId));
+      const rows: Prisma.DiscoveryWebhookDeliveryCreateManyInput[] = [];
+
+      for (const change of rising) {
+        const creator = creators.get(change.streamerId);
+        if (!creator) continue;
+
+        for (const subscription of subscriptions) {
+          const thresholds = subscription.followerThresholds.length > 0
+            ? subscription.followerThresholds
+            : DEFAULT_FOLLOWER_THRESHOLDS;
+          const crossed = thresholds.filter(t => change.previous < t && change.current >= t);
+          if (crossed.length === 0) continue;
+
+          rows.push({
+            subscriptionId: subscription.id,
+            event: WebhookEvent.FOLLOWER_THRESHOLD,
+            payload: {
+              creator,
+              threshold: Math.max(...crossed),
+              previousFollowers: change.previous,
+              followers: change.current,
+            },
+            nextAttemptAt: new Date(),
+          });
+        }
+      }
+
+      return await this.enqueue(rows);
+    } catch (error: any) {
+      logger.error('Failed to emit follower threshold webhooks', { count: rising.length, message: error?.message });
+      return 0;
+    }
+  }
+
+  /**
+   * CREATOR_CREATED: creators are added by many import and discovery paths, so new rows
+   * are picked up by createdAt watermark instead of hooking each one.
+   */
+  async emitNewCreators(): Promise<number> {
+    const watermarkRow = await db.cachedStats.findUnique({ where: { key: CREATOR_WATERMARK_KEY } });
+    const now = new Date();
+
+    // First run starts from now rather than announcing the whole catalogue
+    if (!watermarkRow) {
+      await this.saveWatermark({ createdAt: now, id: '' });
+      return 0;
+    }
+
+    if (!(await this.hasSubscribers(WebhookEvent.CREATOR_CREATED))) {
+      await this.saveWatermark({ createdAt: now, id: '' });
+      return 0;
+    }
+
+    // Keyset on (createdAt, id) so creators sharing the timestamp a batch ends on aren't skipped
+    const since = this.parseWatermark(watermarkRow.value);
+    const created = await db.streamer.findMany({
+      where: {
+        OR: [
+          { createdAt: { gt: since.createdAt } },
+          ...(since.id !== null ? [{ createdAt: since.createdAt, id: { gt: since.id } }] : []),
+        ],
+      },
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+      select: { id: true, createdAt: true },
+      take: NEW_CREATOR_BATCH_SIZE,
+    });
+
+    if (created.length === 0) return 0;
+
+    await this.emit(WebhookEvent.CREATOR_CREATED, created.map(c => ({ streamerId: c.id })));
+    await this.saveWatermark(created[created.length - 1]);
+    return created.length;
+  }
+
+  /**
+   * Prisma middleware: emits FRAUD_CHECK_CHANGED for any update that changes fraudCheck,
+   * wherever it happens. Installed once at startup.
+   */
+  installFraudCheckHook(): void {
+    db.$use(async (params, next) => {
+      const isFraudUpdate = params.model === 'Streamer'
+        && (params.action === 'update' || params.action === 'updateMany')
+        && params.args?.data?.fraudCheck !== undefined;
+
+      if (!isFraudUpdate || !(await this.hasSubscribers(WebhookEvent.FRAUD_CHECK_CHANGED))) {
+        return next(params);
+      }
+
+      // update takes a unique where (possibly compound), updateMany a regular filter
+      const before = params.action === 'update'
+        ? [await db.streamer.findUnique({ where: params.args.where, select: { id: true, fraudCheck: true } })].filter(Boolean) as Array<{ id: string; fraudCheck: FraudStatus }>
+        : await db.streamer.findMany({ where: params.args.where ?? {}, select: { id: true, fraudCheck: true } });
+
+      const result = await next(params);
+
+      const value = params.args.data.fraudCheck;
+      const newStatus: FraudStatus = typeof value === 'object' && value !== null ? value.set : value;
+      const changed = before.filter(s => s.fraudCheck !== newStatus);
+      if (changed.length > 0) {
+        void this.emit(WebhookEvent.FRAUD_CHECK_CHANGED, changed.map(s => ({
+          streamerId: s.id,
+          data: { previousFraudCheck: s.fraudCheck, fraudCheck: newStatus },
+        })));
+      }
+
+      return result;
+    });
+  }
+
+  /**
+   * Send every delivery that is due. Runs from the cron job and after each emit.
+   */
+  async processDue(): Promise<{ sent: number; failed: number }> {
+    if (this.processing) return { sent: 0, failed: 0 };
+    this.processing = true;
+
+    let sent = 0;
+    let failed = 0;
+
+    try {
+      while (true) {
+        const due = await db.discoveryWebhookDelivery.findMany({
+          where: { status: WebhookDeliveryStatus.PENDING, nextAttemptAt: { lte: new Date() } },
+          orderBy: { nextAttemptAt: 'asc' },
+          take: DELIVERY_BATCH_SIZE,
+          include: { subscription: true },
+        });
+
+        if (due.length === 0) break;
+
+        for (const delivery of due) {
+          // Another instance may have picked the same rows; only the one that claims a delivery sends it
+          if (!(await this.claim(delivery))) continue;
+          const result = await this.attempt(delivery, delivery.subscription);
+          if (result.status === WebhookDeliveryStatus.SUCCEEDED) sent++;
+          else failed++;
+        }
+
+        if (due.length < DELIVERY_BATCH_SIZE) break;
+      }
+    } catch (error: any) {
+      logger.error('Webhook delivery processing failed', { message: error?.message });
+    } finally {
+      this.processing = false;
+    }
+
+    return { sent, failed };
+  }
+
+  /**
+   * Send a PING (or a sample of another event) to one subscription right now and return the result
+   */
+  async testFire(subscriptionId: string, event: WebhookEvent = WebhookEvent.PING) {
+    const subscription = await db.discoveryWebhookSubscription.findUnique({ where: { id: subscriptionId } });
+    if (!subscription) return null;
+
+    const sample = await db.streamer.findFirst({ orderBy: { followers: 'desc' }, select: creatorSummarySelect });
+    const delivery = await db.discoveryWebhookDelivery.create({
+      data: {
+        subscriptionId,
+        event,
+        payload: { test: true, message: 'Test delivery from Envisioner Discovery', creator: sample },
+        isTest: true,
+        nextAttemptAt: new Date(Date.now() + DELIVERY_CLAIM_MS),
+      },
+    });
+
+    // Test fires are single-shot: no retries
+    return this.attempt(delivery, subscription, { retry: false });
+  }
+
+  /**
+   * Re-queue a delivery (e.g. after fixing the receiving endpoint)
+   */
+  async redeliver(deliveryId: string) {
+    const delivery = await db.discoveryWebhookDelivery.findUnique({ where: { id: deliveryId }, include: { subscription: true } });
+    if (!delivery) return null;
+
+    const reset = await db.discoveryWebhookDelivery.update({
+      where: { id: deliveryId },
+      data: { status: WebhookDeliveryStatus.PENDING, attempts: 0, nextAttemptAt: new Date(Date.now() + DELIVERY_CLAIM_MS), lastError: null },
+    });
+    return this.attempt(reset, delivery.subscription);
+  }
+
+  /**
+   * Delivery log for one subscription, newest first
+   */
+  async getDeliveries(subscriptionId: string, options: { status?: WebhookDeliveryStatus; limit?: number } = {}) {
+    return db.discoveryWebhookDelivery.findMany({
+      where: { subscriptionId, ...(options.status ? { status: options.status } : {}) },
+      orderBy: { createdAt: 'desc' },
+      take: Math.min(options.limit || 50, 200),
+    });
+  }
+
+  /**
+   * Sign a raw body the way receivers are expected to verify it
+   */
+  sign(secret: string, body: string, timestamp: number): string {
+    const digest = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+    return `t=${timestamp},v1=${digest}`;
+  }
+
+  private async attempt(
+    delivery: DiscoveryWebhookDelivery,
+    subscription: DiscoveryWebhookSubscription,
+    options: { retry?: boolean } = {}
+  ): Promise<DiscoveryWebhookDelivery> {
+    const body = JSON.stringify({
+      id: delivery.id,
+      event: delivery.event,
+      createdAt: delivery.createdAt.toISOString(),
+      data: delivery.payload,
+    });
+    const timestamp = Math.floor(Date.now() / 1000);
+    const attempts = delivery.attempts + 1;
+
+    let statusCode: number | null = null;
+    let error: string | null = null;
+
+    try {
+      const response = await axios.post(subscription.url, body, {
+        timeout: REQUEST_TIMEOUT_MS,
+        maxRedirects: 0,
+        validateStatus: () => true,
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'Envisioner-Discovery-Webhooks/1.0',
+          'X-Discovery-Event': delivery.event,
+          'X-Discovery-Delivery': delivery.id,
+          'X-Discovery-Signature': this.sign(subscription.secret, body, timestamp),
+        },
+      });
+      statusCode = response.status;
+      if (statusCode < 200 || statusCode >= 300) error = `HTTP ${statusCode}`;
+    } catch (e: any) {
+      error = e?.code || e?.message || 'Request failed';
+    }
+
+    const succeeded = error === null;
+    const canRetry = options.retry !== false && attempts < MAX_ATTEMPTS;
+
+    const updated = await db.discoveryWebhookDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        attempts,
+        lastStatusCode: statusCode,
+        lastError: error,
+        status: succeeded
+          ? WebhookDeliveryStatus.SUCCEEDED
+          : canRetry ? WebhookDeliveryStatus.PENDING : WebhookDeliveryStatus.FAILED,
+        deliveredAt: succeeded ? new Date() : null,
+        nextAttemptAt: !succeeded && canRetry ? new Date(Date.now() + this.backoff(attempts)) : null,
+      },
+    });
+
+    if (succeeded) {
+      await db.discoveryWebhookSubscription.update({ where: { id: subscription.id }, data: { lastDeliveryAt: new Date() } });
+    } else {
+      logger.warn(`Webhook delivery ${delivery.id} to ${subscription.name} failed (attempt ${attempts}/${MAX_ATTEMPTS}): ${error}`);
+    }
+
+    return updated;
+  }
+
+  private async claim(delivery: DiscoveryWebhookDelivery): Promise<boolean> {
+    const { count } = await db.discoveryWebhookDelivery.updateMany({
+      where: { id: delivery.id, status: WebhookDeliveryStatus.PENDING, nextAttemptAt: delivery.nextAttemptAt },
+      data: { nextAttemptAt: new Date(Date.now() + DELIVERY_CLAIM_MS) },
+    });
+    return count > 0;
+  }
+
+  // Scheduled delay plus up to 10% jitter so retries from one outage don't arrive together
+  private backoff(attempts: number): number {
+    const base = RETRY_DELAYS_MS[Math.min(attempts - 1, RETRY_DELAYS_MS.length - 1)];
+    return base + Math.floor(Math.random() * base * 0.1);
+  }
+
+  private async enqueue(rows: Prisma.DiscoveryWebhookDeliveryCreateManyInput[]): Promise<number> {
+    if (rows.length === 0) return 0;
+    const { count } = await db.discoveryWebhookDelivery.createMany({ data: rows });
+    void this.processDue();
+    return count;
+  }
+
+  private async getSubscriptions(event: WebhookEvent): Promise<DiscoveryWebhookSubscription[]> {
+    if (!this.subscriberCache || Date.now() - this.subscriberCache.at > SUBSCRIBER_CACHE_MS) {
+      const subscriptions = await db.discoveryWebhookSubscription.findMany({ where: { isActive: true } });
+      this.subscriberCache = { at: Date.now(), subscriptions };
+    }
+    return this.subscriberCache.subscriptions.filter(s => s.events.includes(event));
+  }
+
+  private async loadCreators(ids: string[]) {
+    const creators = await db.streamer.findMany({
+      where: { id: { in: [...new Set(ids)] } },
+      select: creatorSummarySelect,
+    });
+    return new Map(creators.map(c => [c.id, c]));
+  }
+
+  // Older watermarks were a bare ISO timestamp and every creator at that instant had already been sent
+  private parseWatermark(value: Prisma.JsonValue): { createdAt: Date; id: string | null } {
+    if (typeof value === 'string') return { createdAt: new Date(value), id: null };
+    const { createdAt, id } = value as { createdAt: string; id: string };
+    return { createdAt: new Date(createdAt), id };
+  }
+
+  private async saveWatermark(last: { createdAt: Date; id: string }): Promise<void> {
+    const value = { createdAt: last.createdAt.toISOString(), id: last.id };
+    await db.cachedStats.upsert({
+      where: { key: CREATOR_WATERMARK_KEY },
+      create: { key: CREATOR_WATERMARK_KEY, value },
+      update: { value },
+    });
+  }
+}
+
+export const webhookService = new WebhookService();
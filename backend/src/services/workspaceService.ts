@@ -0,0 +1,160 @@
+import { WorkspaceRole } from '@prisma/client';
+import { db } from '../utils/database';
+import { AppError } from '../middleware/errorHandler';
+import { Brand, resolveBrand } from '../mediaKit/templates';
+
+/**
+ * WorkspaceService
+ *
+ * Team workspaces: a named group of users (keyed like every other per-user
+ * table - the embed user's email) that shortlists can be shared with. The
+ * creator is the first OWNER; owners rename the workspace and manage members,
+ * and a workspace always keeps at least one owner. Owners can also set the
+ * workspace's branding, which white-labels the media kits its members export.
+ */
+
+export interface WorkspaceBranding {
+  brandName?: string | null;
+  brandLogoUrl?: string | null;
+  brandPrimaryColor?: string | null;
+  brandAccentColor?: string | null;
+}
+
+const memberSelect = { id: true, userId: true, role: true, addedBy: true, createdAt: true } as const;
+
+export const normalizeUserId = (userId: string) => userId.toLowerCase().trim();
+
+class WorkspaceService {
+  /**
+   * Workspaces the user belongs to, with their members
+   */
+  async listForUser(userId: string) {
+    const workspaces = await db.discoveryWorkspace.findMany({
+      where: { members: { some: { userId: normalizeUserId(userId) } } },
+      include: { members: { select: memberSelect, orderBy: { createdAt: 'asc' } } },
+      orderBy: { name: 'asc' },
+    });
+    return workspaces.map(w => ({ ...w, role: w.members.find(m => m.userId === normalizeUserId(userId))!.role }));
+  }
+
+  async create(userId: string, name: string) {
+    const owner = normalizeUserId(userId);
+    return db.discoveryWorkspace.create({
+      data: { name, createdBy: owner, members: { create: { userId: owner, role: WorkspaceRole.OWNER } } },
+      include: { members: { select: memberSelect } },
+    });
+  }
+
+  async rename(userId: string, workspaceId: string, name: string) {
+    await this.requireOwner(userId, workspaceId);
+    return db.discoveryWorkspace.update({ where: { id: workspaceId }, data: { name } });
+  }
+
+  async delete(userId: string, workspaceId: string): Promise<void> {
+    await this.requireOwner(userId, workspaceId);
+    await db.discoveryWorkspace.delete({ where: { id: workspaceId } });
+  }
+
+  /**
+   * Fields left out keep their value; null or '' resets them to the defaults
+   */
+  async updateBranding(userId: string, workspaceId: string, branding: WorkspaceBranding) {
+    await this.requireOwner(userId, workspaceId);
+    const data = Object.fromEntries(
+      Object.entries(branding)
+        .filter(([, value]) => value !== undefined)
+        .map(([key, value]) => [key, value || null])
+    );
+    return db.discoveryWorkspace.update({ where: { id: workspaceId }, data });
+  }
+
+  /**
+   * Brand for a member's media kits; no workspace means the Envisioner defaults
+   */
+  async brandFor(userId: string, workspaceId?: string): Promise<Brand> {
+    if (!workspaceId) return resolveBrand(null);
+    if (!(await this.role(userId, workspaceId))) {
+      throw new AppError('Workspace not found', 404);
+    }
+
+    const workspace = await db.discoveryWorkspace.findUniqueOrThrow({ where: { id: workspaceId } });
+    return resolveBrand({
+      name: workspace.brandName || workspace.name,
+      logoUrl: workspace.brandLogoUrl,
+      primaryColor: workspace.brandPrimaryColor ?? undefined,
+      accentColor: workspace.brandAccentColor ?? undefined,
+    });
+  }
+
+  /**
+   * Add a member (or change their role when already in the workspace)
+   */
+  async addMember(userId: string, workspaceId: string, memberId: string, role: WorkspaceRole = WorkspaceRole.MEMBER) {
+    await this.requireOwner(userId, workspaceId);
+    const member = normalizeUserId(memberId);
+    if (role !== WorkspaceRole.OWNER && member === normalizeUserId(userId)) {
+      await this.ensureAnotherOwner(workspaceId, member);
+    }
+
+    return db.discoveryWorkspaceMember.upsert({
+      where: { workspaceId_userId: { workspaceId, userId: member } },
+      create: { workspaceId, userId: member, role, addedBy: normalizeUserId(userId) },
+      update: { role },
+      select: memberSelect,
+    });
+  }
+
+  /**
+   * Owners can remove anyone; members can only leave
+   */
+  async removeMember(userId: string, workspaceId: string, memberId: string): Promise<boolean> {
+    const caller = normalizeUserId(userId);
+    const member = normalizeUserId(memberId);
+    if (member !== caller) {
+      await this.requireOwner(caller, workspaceId);
+    }
+
+    const existing = await db.discoveryWorkspaceMember.findUnique({
+      where: { workspaceId_userId: { workspaceId, userId: member } },
+    });
+    if (!existing) return false;
+    if (existing.role === WorkspaceRole.OWNER) {
+      await this.ensureAnotherOwner(workspaceId, member);
+    }
+
+    await db.discoveryWorkspaceMember.delete({ where: { id: existing.id } });
+    return true;
+  }
+
+  async role(userId: string, workspaceId: string): Promise<WorkspaceRole | null> {
+    const member = await db.discoveryWorkspaceMember.findUnique({
+      where: { workspaceId_userId: { workspaceId, userId: normalizeUserId(userId) } },
+      select: { role: true },
+    });
+    return member?.role ?? null;
+  }
+
+  /**
+   * Throws 404 for non-members (so workspace ids don't leak) and 403 for plain members
+   */
+  async requireOwner(userId: string, workspaceId: string): Promise<void> {
+    const role = await this.role(userId, workspaceId);
+    if (!role) {
+      throw new AppError('Workspace not found', 404);
+    }
+    if (role !== WorkspaceRole.OWNER) {
+      throw new AppError('Only workspace owners can do this', 403);
+    }
+  }
+
+  private async ensureAnotherOwner(workspaceId: string, userId: string): Promise<void> {
+    const others = await db.discoveryWorkspaceMember.count({
+      where: { workspaceId, role: WorkspaceRole.OWNER, userId: { not: userId } },
+    });
+    if (others === 0) {
+      throw new AppError('A workspace needs at least one other owner first', 400);
+    }
+  }
+}
+
+export const workspaceService = new WorkspaceService();
@@ -0,0 +1,11 @@
+import { execSync } from 'child_process';
+
+/**
+ * Brings the test database up to the current schema once per run
+ */
+export default function globalSetupDb(): void {
+  execSync('npx prisma migrate deploy', {
+    env: { ...process.env, DATABASE_URL: process.env.TEST_DATABASE_URL },
+    stdio: 'inherit',
+  });
+}
@@ -0,0 +1,12 @@
+import fs from 'fs';
+import path from 'path';
+
+const FIXTURES_DIR = path.resolve(__dirname, 'fixtures', 'html');
+
+/**
+ * Saved page HTML (src/test/fixtures/html/<name>.html) for the scraper parsers.
+ * Capture new pages with src/test/saveHtmlFixture.ts.
+ */
+export function loadHtmlFixture(name: string): string {
+  return fs.readFileSync(path.join(FIXTURES_DIR, `${name}.html`), 'utf8');
+}
@@ -0,0 +1,240 @@
+import fs from 'fs';
+import path from 'path';
+import axios, { AxiosAdapter, AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+
+/**
+ * Recorded-fixture HTTP layer for tests
+ *
+ * Installed as axios' default adapter (before any service creates a client), so
+ * every axios call - global or axios.create() instance - is answered from JSON
+ * fixtures in src/test/fixtures/http/. Unmatched requests fail instead of going
+ * to the network.
+ *
+ * RECORD_FIXTURES=1 passes unmatched requests through to the real network and
+ * writes the responses back to the first fixture file named in use(), with
+ * credentials stripped. Record with real API keys in the env, review the diff,
+ * then commit the fixture.
+ */
+
+export interface HttpFixture {
+  method: string;
+  url: string;                                   // Absolute URL without the query string
+  query?: Record<string, string | string[]>;     // Must all be present on the request
+  body?: Record<string, any>;                    // Must be a subset of the JSON/form body
+  status?: number;                               // Default 200
+  once?: boolean;                                // Answer a single request, then drop out (retry/rotation flows)
+  data: any;
+}
+
+export interface RecordedRequest {
+  method: string;
+  url: string;
+  query: Record<string, string | string[]>;
+  body: any;
+}
+
+const FIXTURES_DIR = path.resolve(__dirname, 'fixtures', 'http');
+const CREDENTIAL_KEYS = ['key', 'client_id', 'client_secret', 'access_token', 'api_key'];
+
+const isSubset = (expected: any, actual: any): boolean => {
+  if (expected === null || typeof expected !== 'object') {
+    return String(expected) === String(actual);
+  }
+  if (actual === null || typeof actual !== 'object') return false;
+  return Object.keys(expected).every(key => isSubset(expected[key], actual[key]));
+};
+
+// Credentials are dropped rather than masked so replays match whatever test keys are set
+const redact = <T extends Record<string, any>>(values: T): T => {
+  const copy: Record<string, any> = { ...values };
+  for (const key of CREDENTIAL_KEYS) delete copy[key];
+  return copy as T;
+};
+
+class HttpFixtures {
+  private fixtures: HttpFixture[] = [];
+  private recordTarget: string | null = null;
+  private recorded: HttpFixture[] = [];
+
+  /** Every request seen since the last reset(), in order */
+  readonly requests: RecordedRequest[] = [];
+  /** Requests no fixture answered (rejected with ERR_NO_FIXTURE unless recording) */
+  readonly unmatched: RecordedRequest[] = [];
+
+  get recording(): boolean {
+    return process.env.RECORD_FIXTURES === '1';
+  }
+
+  install(): void {
+    axios.defaults.adapter = this.adapter;
+  }
+
+  /**
+   * Load fixture files by name (src/test/fixtures/http/<name>.json)
+   */
+  use(...names: string[]): void {
+    for (const name of names) {
+      const file = path.join(FIXTURES_DIR, `${name}.json`);
+      if (fs.existsSync(file)) {
+        this.fixtures.push(...JSON.parse(fs.readFileSync(file, 'utf8')));
+      } else if (!this.recording) {
+        throw new Error(`HTTP fixture file not found: ${file}`);
+      }
+    }
+    if (this.recording && !this.recordTarget) {
+      this.recordTarget = names[0];
+    }
+  }
+
+  /**
+   * Inline fixtures, matched before file fixtures
+   */
+  add(...fixtures: HttpFixture[]): void {
+    this.fixtures.unshift(...fixtures);
+  }
+
+  /**
+   * Requests to a URL (query string ignored), for assertions
+   */
+  requestsTo(url: string): RecordedRequest[] {
+    return this.requests.filter(r => r.url === url);
+  }
+
+  reset(): void {
+    if (this.recording && this.recordTarget && this.recorded.length > 0) {
+      const file = path.join(FIXTURES_DIR, `${this.recordTarget}.json`);
+      const existing: HttpFixture[] = fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, 'utf8')) : [];
+      fs.mkdirSync(FIXTURES_DIR, { recursive: true });
+      fs.writeFileSync(file, JSON.stringify([...existing, ...this.recorded], null, 2) + '\n');
+    }
+
+    this.fixtures = [];
+    this.recorded = [];
+    this.recordTarget = null;
+    this.requests.length = 0;
+    this.unmatched.length = 0;
+  }
+
+  private describe(config: InternalAxiosRequestConfig): RecordedRequest {
+    const full = new URL(axios.getUri(config));
+    const query: Record<string, string | string[]> = {};
+    full.searchParams.forEach((value, rawKey) => {
+      // axios serializes arrays as key[]=a&key[]=b
+      const key = rawKey.replace(/\[\]$/, '');
+      const current = query[key];
+      query[key] = current === undefined ? value : [...(Array.isArray(current) ? current : [current]), value];
+    });
+
+    let body: any = config.data;
+    if (typeof body === 'string') {
+      try {
+        body = JSON.parse(body);
+      } catch {
+        body = Object.fromEntries(new URLSearchParams(body));
+      }
+    } else if (body instanceof URLSearchParams) {
+      body = Object.fromEntries(body);
+    }
+
+    return {
+      method: (config.method || 'get').toUpperCase(),
+      url: `${full.origin}${full.pathname}`,
+      query,
+      body,
+    };
+  }
+
+  private matches(fixture: HttpFixture, request: RecordedRequest): boolean {
+    if (fixture.method.toUpperCase() !== request.method || fixture.url !== request.url) return false;
+
+    for (const [key, expected] of Object.entries(fixture.query || {})) {
+      const actual = request.query[key];
+      if (actual === undefined) return false;
+      const expectedValues = (Array.isArray(expected) ? expected : [expected]).map(String);
+      const actualValues = Array.isArray(actual) ? actual : [actual];
+      if (expectedValues.length !== actualValues.length ||
+          !expectedValues.every(v => actualValues.includes(v))) {
+        return false;
+      }
+    }
+
+    return !fixture.body || isSubset(fixture.body, request.body);
+  }
+
+  private respond(config: InternalAxiosRequestConfig, status: number, data: any): AxiosResponse {
+    const response: AxiosResponse = {
+      data,
+      status,
+      statusText: String(status),
+      headers: {},
+      config,
+      request: {},
+    };
+
+    const validateStatus = config.validateStatus;
+    if (!validateStatus || validateStatus(status)) {
+      return response;
+    }
+
+    throw new AxiosError(
+      `Request failed with status code ${status}`,
+      status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+      config,
+      response.request,
+      response
+    );
+  }
+
+  private adapter: AxiosAdapter = async (config) => {
+    const request = this.describe(config);
+    this.requests.push(request);
+
+    const fixture = this.fixtures.find(f => this.matches(f, request));
+    if (fixture) {
+      if (fixture.once) this.fixtures.splice(this.fixtures.indexOf(fixture), 1);
+      return this.respond(config, fixture.status ?? 200, JSON.parse(JSON.stringify(fixture.data)));
+    }
+
+    this.unmatched.push(request);
+    if (!this.recording) {
+      const query = new URLSearchParams(request.query as Record<string, string>).toString();
+      throw new AxiosError(
+        `No HTTP fixture for ${request.method} ${request.url}${query ? `?${query}` : ''}`,
+        'ERR_NO_FIXTURE',
+        config
+      );
+    }
+
+    const httpAdapter = axios.getAdapter('http');
+    try {
+      const response = await httpAdapter(config);
+      this.record(request, response.status, response.data);
+      return response;
+    } catch (error: any) {
+      if (error.response) this.record(request, error.response.status, error.response.data);
+      throw error;
+    }
+  };
+
+  private record(request: RecordedRequest, status: number, data: any): void {
+    let parsed = data;
+    if (typeof data === 'string') {
+      try {
+        parsed = JSON.parse(data);
+      } catch {
+        // keep raw body
+      }
+    }
+
+    this.recorded.push({
+      method: request.method,
+      url: request.url,
+      ...(Object.keys(request.query).length > 0 ? { query: redact(request.query) } : {}),
+      ...(request.body && typeof request.body === 'object' ? { body: redact(request.body) } : {}),
+      ...(status !== 200 ? { status } : {}),
+      data: parsed,
+    });
+  }
+}
+
+export const httpFixtures = new HttpFixtures();
@@ -0,0 +1,35 @@
+import fs from 'fs';
+import path from 'path';
+import { chromium } from 'playwright';
+
+/**
+ * Save a rendered page as an HTML fixture for the scraper parser tests
+ *
+ * Usage: npx ts-node src/test/saveHtmlFixture.ts <url> <fixture-name>
+ */
+
+async function main(): Promise<void> {
+  const [url, name] = process.argv.slice(2);
+  if (!url || !name) {
+    console.error('Usage: npx ts-node src/test/saveHtmlFixture.ts <url> <fixture-name>');
+    process.exit(1);
+  }
+
+  const browser = await chromium.launch({ headless: true });
+  try {
+    const page = await browser.newPage();
+    await page.goto(url, { waitUntil: 'networkidle', timeout: 30000 });
+    await page.waitForTimeout(3000);
+
+    const file = path.resolve(__dirname, 'fixtures', 'html', `${name}.html`);
+    fs.writeFileSync(file, await page.content());
+    console.log(`Saved ${url} -> ${path.relative(process.cwd(), file)}`);
+  } finally {
+    await browser.close();
+  }
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
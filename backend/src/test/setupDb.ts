@@ -0,0 +1,17 @@
+import { db } from '../utils/database';
+import { cacheService } from '../services/cacheService';
+import { httpFixtures } from './httpFixtures';
+import { resetTestDatabase } from './testDatabase';
+
+beforeEach(async () => {
+  await resetTestDatabase();
+});
+
+afterEach(() => {
+  httpFixtures.reset();
+  cacheService.clearLocal();
+});
+
+afterAll(async () => {
+  await db.$disconnect();
+});
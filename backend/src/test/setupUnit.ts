@@ -0,0 +1,32 @@
+import { httpFixtures } from './httpFixtures';
+import { cacheService } from '../services/cacheService';
+
+/**
+ * Unit tests never reach Postgres: utils/database is replaced by a silent
+ * logger and a db whose every model call throws. Tests that need real rows
+ * belong in *.db.test.ts (see testDatabase.ts).
+ */
+
+jest.mock('../utils/database', () => {
+  const winston = jest.requireActual('winston');
+
+  // TEST_LOG=1 to see service logs while debugging a test
+  const logger = winston.createLogger({
+    level: process.env.TEST_LOG ? 'debug' : 'error',
+    transports: [new winston.transports.Console({ format: winston.format.simple(), silent: !process.env.TEST_LOG })],
+  });
+
+  const unavailable = (name: PropertyKey): never => {
+    throw new Error(`db.${String(name)} used in a unit test - move it to a *.db.test.ts file`);
+  };
+  const db = new Proxy({}, {
+    get: (_target, model) => new Proxy({}, { get: (_m, method) => () => unavailable(`${String(model)}.${String(method)}`) }),
+  });
+
+  return { db, logger };
+});
+
+afterEach(() => {
+  httpFixtures.reset();
+  cacheService.clearLocal();
+});
@@ -0,0 +1,39 @@
+import { Platform, Prisma, Region } from '@prisma/client';
+import { db } from '../utils/database';
+
+/**
+ * Helpers for *.db.test.ts suites
+ *
+ * These run against a real Postgres given by TEST_DATABASE_URL (migrated once
+ * per run by globalSetupDb.ts) and only when it is set - `npm test` without it
+ * runs the unit suites alone. Never point TEST_DATABASE_URL at a shared database:
+ * every test starts by truncating all tables.
+ */
+
+/**
+ * Empty every application table (keeps the migration history)
+ */
+export async function resetTestDatabase(): Promise<void> {
+  const tables = await db.$queryRaw<Array<{ tablename: string }>>`
+    SELECT tablename FROM pg_tables
+    WHERE schemaname = 'public' AND tablename <> '_prisma_migrations'
+  `;
+  if (tables.length === 0) return;
+
+  const list = tables.map(t => `"public"."${t.tablename}"`).join(', ');
+  await db.$executeRawUnsafe(`TRUNCATE TABLE ${list} RESTART IDENTITY CASCADE`);
+}
+
+/**
+ * Insert a streamer with the minimum required fields
+ */
+export async function createTestStreamer(data: Partial<Prisma.StreamerUncheckedCreateInput> & { platform: Platform; username: string }) {
+  return db.streamer.create({
+    data: {
+      displayName: data.username,
+      profileUrl: `https://example.com/${data.platform.toLowerCase()}/${data.username}`,
+      region: Region.MEXICO,
+      ...data,
+    },
+  });
+}
@@ -0,0 +1,43 @@
+import { refreshEmbedToken, signEmbedToken, verifyEmbedToken } from '../embedToken';
+
+describe('refreshEmbedToken', () => {
+  const hour = 60 * 60 * 1000;
+
+  beforeAll(() => {
+    process.env.EMBED_TOKEN_SECRET = 'test-embed-secret';
+  });
+
+  afterAll(() => {
+    delete process.env.EMBED_TOKEN_SECRET;
+    jest.useRealTimers();
+  });
+
+  it('keeps the original session start and stops refreshing after 12 hours', () => {
+    jest.useFakeTimers({ now: new Date('2026-10-18T08:00:00Z') });
+    const sessionStart = Math.floor(Date.now() / 1000);
+    let payload = verifyEmbedToken(signEmbedToken({ email: 'seller@agency.com' }, 15 * 60))!;
+
+    for (let i = 0; i < 11; i++) {
+      jest.setSystemTime(Date.now() + hour - 60 * 1000);
+      const refreshed = refreshEmbedToken(payload)!;
+      payload = verifyEmbedToken(refreshed.token)!;
+      expect(payload.sessionStart).toBe(sessionStart);
+    }
+
+    // The last refresh is cut to the end of the session
+    jest.setSystemTime(new Date('2026-10-18T19:55:00Z'));
+    expect(refreshEmbedToken(payload)?.expiresIn).toBe(5 * 60);
+
+    jest.setSystemTime(new Date('2026-10-18T20:00:00Z'));
+    expect(refreshEmbedToken(payload)).toBeNull();
+  });
+
+  it('treats tokens minted before session tracking as starting at iat', () => {
+    jest.useFakeTimers({ now: new Date('2026-10-18T08:00:00Z') });
+    const payload = verifyEmbedToken(signEmbedToken({ email: 'seller@agency.com' }))!;
+    delete payload.sessionStart;
+
+    jest.setSystemTime(new Date('2026-10-18T20:00:01Z'));
+    expect(refreshEmbedToken(payload)).toBeNull();
+  });
+});
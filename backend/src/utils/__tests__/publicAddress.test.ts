@@ -0,0 +1,26 @@
+import { isPublicAddress, resolvePublicAddress } from '../publicAddress';
+
+describe('isPublicAddress', () => {
+  it('accepts public IPv4 and IPv6 addresses', () => {
+    for (const address of ['8.8.8.8', '1.1.1.1', '2001:4860:4860::8888', '::ffff:8.8.8.8']) {
+      expect(isPublicAddress(address)).toBe(true);
+    }
+  });
+
+  it('rejects loopback, private, link-local and metadata addresses', () => {
+    for (const address of ['127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.1', '169.254.169.254', '0.0.0.0', '::1', 'fe80::1', 'fd00::1', '::ffff:127.0.0.1']) {
+      expect(isPublicAddress(address)).toBe(false);
+    }
+  });
+
+  it('rejects anything that is not an address', () => {
+    expect(isPublicAddress('smtp.example.com')).toBe(false);
+  });
+});
+
+describe('resolvePublicAddress', () => {
+  it('passes public literals through and refuses private ones', async () => {
+    await expect(resolvePublicAddress('8.8.8.8')).resolves.toBe('8.8.8.8');
+    await expect(resolvePublicAddress('10.0.0.5')).rejects.toThrow('does not resolve to a public address');
+  });
+});
@@ -1,4 +1,5 @@
 import bcrypt from 'bcryptjs';
+import { UserRole } from '@prisma/client';
 import { db, logger } from './database';
 
 export async function bootstrapAdminUser() {
@@ -30,12 +31,19 @@ export async function bootstrapAdminUser() {
           email,
           password: hash,
           mfaEnabled: false,
+          role: UserRole.ADMIN,
         },
       });
       logger.info('Admin user created', { email: user.email });
       return;
     }
 
+    // The bootstrap admin must always keep the admin role, otherwise nobody can assign roles
+    if (existing.role !== UserRole.ADMIN) {
+      await db.user.update({ where: { email }, data: { role: UserRole.ADMIN } });
+      logger.info('Admin user promoted to ADMIN role', { email });
+    }
+
     if (reset && password) {
       const hash = await bcrypt.hash(password, 10);
       await db.user.update({ where: { email }, data: { password: hash } });
@@ -2,6 +2,7 @@ import fs from 'fs';
 import path from 'path';
 import { parse } from 'csv-parse/sync';
 import { db, logger } from './database';
+import { geographyService } from '../services/geographyService';
 import { Platform, Region, FraudStatus } from '@prisma/client';
 import { deriveUsernameFromUrl } from './username';
 
@@ -33,33 +34,6 @@ const mapPlatform = (p: string | undefined): Platform | null => {
   return null;
 };
 
-const mapRegion = (country: string | undefined): Region | null => {
-  if (!country) return null;
-  const c = country.toLowerCase();
-  const map: Record<string, Region> = {
-    mexico: Region.MEXICO,
-    colombia: Region.COLOMBIA,
-    argentina: Region.ARGENTINA,
-    chile: Region.CHILE,
-    peru: Region.PERU,
-    venezuela: Region.VENEZUELA,
-    ecuador: Region.ECUADOR,
-    bolivia: Region.BOLIVIA,
-    paraguay: Region.PARAGUAY,
-    uruguay: Region.URUGUAY,
-    'costa rica': Region.COSTA_RICA,
-    panama: Region.PANAMA,
-    guatemala: Region.GUATEMALA,
-    'el salvador': Region.EL_SALVADOR,
-    honduras: Region.HONDURAS,
-    nicaragua: Region.NICARAGUA,
-    'dominican republic': Region.DOMINICAN_REPUBLIC,
-    'puerto rico': Region.PUERTO_RICO,
-    brazil: Region.BRAZIL,
-  };
-  return map[c] ?? null;
-};
-
 const mapLanguage = (lang: string | undefined): string => {
   if (!lang) return 'es';
   const l = lang.toLowerCase();
@@ -128,7 +102,7 @@ export async function csvSyncStrict(csvRelativePath: string = path.resolve(__dir
     const row = item.row;
     const displayName = row['Channel name']?.trim() || item.username;
     const profileUrl = row['Channel url']?.trim() || '';
-    const region = mapRegion(row.Country);
+    const region = geographyService.fromName(row.Country);
     const language = mapLanguage(row.Language);
     const followers = toInt(row.Followers) ?? 0;
     const topGame = row['Top Game']?.trim();
@@ -86,30 +86,13 @@ class DatabaseService extends PrismaClient {
     try {
       await this.$connect();
       logger.info('PostgreSQL connected successfully');
-      // Redis removed for production performance - caching handled by HTTP headers
+      // Shared caching lives in services/cacheService (Redis when REDIS_URL is set)
     } catch (error) {
       logger.error('Database initialization error:', error);
       throw error; // Re-throw DB errors since they're critical
     }
   }
 
-  // Cache methods removed - using HTTP caching instead for better performance
-  async cacheGet(key: string): Promise<string | null> {
-    return null;
-  }
-
-  async cacheSet(key: string, value: string, ttl: number = 3600): Promise<void> {
-    return;
-  }
-
-  async cacheDel(key: string): Promise<void> {
-    return;
-  }
-
-  async cacheFlushPattern(pattern: string): Promise<void> {
-    return;
-  }
-
   async disconnect() {
     try {
       await this.$disconnect();
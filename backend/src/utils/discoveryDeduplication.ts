@@ -1,23 +1,31 @@
 /**
  * Discovery Deduplication Cache
  *
- * In-memory cache of existing usernames for fast lookup.
+ * Existing usernames per platform, for fast lookup.
  * Prevents wasted API calls on streamers already in the database.
+ *
+ * The sets live in the shared cache (Redis when configured), so discovery
+ * jobs on different instances see each other's additions. Lookups read the
+ * sets as they are; the load marker only decides when ensureDedupCache()
+ * reloads them from the database (at most hourly, across all instances).
  */
 
 import { db, logger } from './database';
 import { Platform } from '@prisma/client';
+import { cacheService } from '../services/cacheService';
 
-class DiscoveryDeduplicationCache {
-  private cache: Map<Platform, Set<string>> = new Map();
-  private initialized = false;
-  private lastRefresh: Date | null = null;
+const LOADED_KEY = 'dedup:loaded-at';
+const REFRESH_INTERVAL_SECONDS = 60 * 60;
 
+const setKey = (platform: Platform): string => `dedup:${platform}`;
+
+class DiscoveryDeduplicationCache {
   /**
-   * Initialize cache with all existing usernames from database
+   * Load all existing usernames from the database (skipped if another
+   * instance loaded them within the last hour)
    */
   async initialize(): Promise<void> {
-    if (this.initialized) {
+    if (await this.isInitialized()) {
       logger.debug('Dedup cache already initialized, skipping');
       return;
     }
@@ -26,26 +34,26 @@ class DiscoveryDeduplicationCache {
     const startTime = Date.now();
 
     try {
-      // Clear existing cache
-      this.cache.clear();
-
       // Load all existing usernames grouped by platform
       const streamers = await db.streamer.findMany({
         select: { platform: true, username: true }
       });
 
+      const byPlatform = new Map<Platform, string[]>();
       for (const s of streamers) {
-        if (!this.cache.has(s.platform)) {
-          this.cache.set(s.platform, new Set());
+        if (!byPlatform.has(s.platform)) {
+          byPlatform.set(s.platform, []);
         }
-        this.cache.get(s.platform)!.add(s.username.toLowerCase());
+        byPlatform.get(s.platform)!.push(s.username.toLowerCase());
       }
 
-      this.initialized = true;
-      this.lastRefresh = new Date();
+      for (const platform of Object.values(Platform)) {
+        await cacheService.replaceSet(setKey(platform), byPlatform.get(platform) || []);
+      }
+      await cacheService.set(LOADED_KEY, new Date().toISOString(), REFRESH_INTERVAL_SECONDS);
 
       const duration = Date.now() - startTime;
-      const stats = this.getStats();
+      const stats = await this.getStats();
 
       logger.info(`Dedup cache initialized in ${duration}ms`, stats);
     } catch (error) {
@@ -57,100 +65,89 @@ class DiscoveryDeduplicationCache {
   /**
    * Check if a streamer already exists in the database
    */
-  exists(platform: Platform, username: string): boolean {
-    if (!this.initialized) {
-      logger.warn('Dedup cache not initialized, returning false');
-      return false;
-    }
-    return this.cache.get(platform)?.has(username.toLowerCase()) ?? false;
+  async exists(platform: Platform, username: string): Promise<boolean> {
+    return cacheService.isMember(setKey(platform), username.toLowerCase());
   }
 
   /**
-   * Add a newly discovered streamer to the cache
+   * Add newly discovered usernames (or channel ids) to the cache
    */
-  add(platform: Platform, username: string): void {
-    if (!this.cache.has(platform)) {
-      this.cache.set(platform, new Set());
-    }
-    this.cache.get(platform)!.add(username.toLowerCase());
+  async add(platform: Platform, ...usernames: string[]): Promise<void> {
+    await cacheService.addToSet(setKey(platform), usernames.map(u => u.toLowerCase()));
   }
 
   /**
    * Filter out existing streamers from a list
-   * Returns only NEW streamers not in the cache
+   * Returns only NEW streamers not in the cache. keysOf lists the identifiers
+   * to check per item (default: username); any match counts as existing.
    */
-  filterNew<T extends { username: string }>(
+  async filterNew<T extends { username: string }>(
     platform: Platform,
-    streamers: T[]
-  ): T[] {
-    if (!this.initialized) {
-      logger.warn('Dedup cache not initialized, returning all');
-      return streamers;
-    }
-
-    const platformCache = this.cache.get(platform);
-    if (!platformCache) {
-      return streamers;
-    }
-
-    return streamers.filter(s => !platformCache.has(s.username.toLowerCase()));
+    streamers: T[],
+    keysOf: (streamer: T) => string[] = s => [s.username]
+  ): Promise<T[]> {
+    const keys = streamers.map(s => keysOf(s).filter(Boolean).map(k => k.toLowerCase()));
+    const found = await cacheService.areMembers(setKey(platform), keys.flat());
+
+    let offset = 0;
+    return streamers.filter((_, i) => {
+      const isKnown = found.slice(offset, offset + keys[i].length).some(Boolean);
+      offset += keys[i].length;
+      return !isKnown;
+    });
   }
 
   /**
    * Get count of new streamers without filtering
    */
-  countNew(platform: Platform, usernames: string[]): number {
-    if (!this.initialized) return usernames.length;
-
-    const platformCache = this.cache.get(platform);
-    if (!platformCache) return usernames.length;
-
-    return usernames.filter(u => !platformCache.has(u.toLowerCase())).length;
+  async countNew(platform: Platform, usernames: string[]): Promise<number> {
+    const found = await cacheService.areMembers(setKey(platform), usernames.map(u => u.toLowerCase()));
+    return found.filter(known => !known).length;
   }
 
   /**
    * Refresh the cache from database
    */
   async refresh(): Promise<void> {
-    this.initialized = false;
+    await cacheService.del(LOADED_KEY);
     await this.initialize();
   }
 
   /**
    * Get cache statistics
    */
-  getStats(): Record<string, number> {
+  async getStats(): Promise<Record<string, number>> {
     const stats: Record<string, number> = { total: 0 };
 
-    for (const [platform, usernames] of this.cache) {
-      stats[platform] = usernames.size;
-      stats.total += usernames.size;
+    for (const platform of Object.values(Platform)) {
+      const size = await this.size(platform);
+      if (size === 0) continue;
+      stats[platform] = size;
+      stats.total += size;
     }
 
     return stats;
   }
 
   /**
-   * Check if cache needs refresh (older than 1 hour)
+   * Check if cache needs refresh (not loaded in the last hour)
    */
-  needsRefresh(): boolean {
-    if (!this.lastRefresh) return true;
-    const hourAgo = new Date(Date.now() - 60 * 60 * 1000);
-    return this.lastRefresh < hourAgo;
+  async needsRefresh(): Promise<boolean> {
+    return !(await this.isInitialized());
   }
 
   /**
    * Get size for a specific platform
    */
-  size(platform: Platform): number {
-    return this.cache.get(platform)?.size ?? 0;
+  async size(platform: Platform): Promise<number> {
+    return cacheService.setSize(setKey(platform));
   }
 
   /**
    * Check if initialized
    */
-  isInitialized(): boolean {
-    return this.initialized;
+  async isInitialized(): Promise<boolean> {
+    return (await cacheService.get(LOADED_KEY)) !== null;
   }
 }
 
@@ -159,7 +156,7 @@ export const dedupCache = new DiscoveryDeduplicationCache();
 
 // Helper function to ensure cache is ready
 export async function ensureDedupCache(): Promise<void> {
-  if (!dedupCache.isInitialized() || dedupCache.needsRefresh()) {
+  if (await dedupCache.needsRefresh()) {
     await dedupCache.initialize();
   }
 }
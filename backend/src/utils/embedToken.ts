@@ -0,0 +1,141 @@
+import crypto from 'crypto';
+
+/**
+ * Signed embed tokens
+ *
+ * The Softr embed used to be trusted on Referer / X-Embed-Referrer / X-Softr-App
+ * headers, all of which a client can set. Instead, a trusted backend (the
+ * Envisioner app, or Softr holding EMBED_MINT_SECRET) mints a short-lived token
+ * for the signed-in user and the embed sends it back as X-Embed-Token:
+ *
+ *   base64url(JSON payload) + "." + base64url(HMAC-SHA256(payload, EMBED_TOKEN_SECRET))
+ */
+
+export interface EmbedTokenPayload {
+  email: string;
+  name?: string;
+  iat: number; // seconds since epoch
+  exp: number; // seconds since epoch
+  sessionStart?: number; // iat of the originally minted token, carried through refreshes
+}
+
+export const EMBED_TOKEN_HEADER = 'x-embed-token';
+
+const DEFAULT_TTL_SECONDS = 15 * 60;
+const MAX_TTL_SECONDS = 12 * 60 * 60;
+// Refreshes stop this long after the token was first minted, so a leaked token can't be kept alive
+const MAX_SESSION_SECONDS = 12 * 60 * 60;
+// Tolerate small clock differences between the minting backend and this one
+const CLOCK_SKEW_SECONDS = 30;
+
+const base64url = (input: Buffer | string) => Buffer.from(input).toString('base64url');
+
+function getSecret(): string | null {
+  return process.env.EMBED_TOKEN_SECRET || null;
+}
+
+function sign(encodedPayload: string, secret: string): string {
+  return base64url(crypto.createHmac('sha256', secret).update(encodedPayload).digest());
+}
+
+/**
+ * True when tokens can be minted and verified
+ */
+export function isEmbedTokenConfigured(): boolean {
+  return getSecret() !== null;
+}
+
+let warnedUnsigned = false;
+
+/**
+ * Local development without EMBED_TOKEN_SECRET keeps the old behaviour of taking
+ * the user from the request so the embed can be run without a minting backend.
+ */
+export function allowUnsignedEmbed(): boolean {
+  if (process.env.NODE_ENV !== 'development' || isEmbedTokenConfigured()) return false;
+  if (!warnedUnsigned) {
+    console.warn('⚠️ EMBED_TOKEN_SECRET not set - accepting unsigned embed requests (development only)');
+    warnedUnsigned = true;
+  }
+  return true;
+}
+
+/**
+ * Token lifetime from EMBED_TOKEN_TTL_SECONDS, clamped to 12 hours
+ */
+export function getEmbedTokenTtl(): number {
+  const ttl = parseInt(process.env.EMBED_TOKEN_TTL_SECONDS || '', 10);
+  if (!Number.isFinite(ttl) || ttl <= 0) return DEFAULT_TTL_SECONDS;
+  return Math.min(ttl, MAX_TTL_SECONDS);
+}
+
+/**
+ * Mint a token for the given user. Throws if EMBED_TOKEN_SECRET is not set.
+ */
+export function signEmbedToken(
+  claims: { email: string; name?: string; sessionStart?: number },
+  ttlSeconds: number = getEmbedTokenTtl()
+): string {
+  const secret = getSecret();
+  if (!secret) throw new Error('EMBED_TOKEN_SECRET is not configured');
+
+  const now = Math.floor(Date.now() / 1000);
+  const payload: EmbedTokenPayload = {
+    email: claims.email.toLowerCase().trim(),
+    ...(claims.name ? { name: claims.name } : {}),
+    iat: now,
+    exp: now + ttlSeconds,
+    sessionStart: claims.sessionStart ?? now,
+  };
+
+  const encoded = base64url(JSON.stringify(payload));
+  return `${encoded}.${sign(encoded, secret)}`;
+}
+
+/**
+ * Verify signature and expiry. Returns null for anything invalid, expired or unsigned.
+ */
+export function verifyEmbedToken(token: string | undefined | null): EmbedTokenPayload | null {
+  const secret = getSecret();
+  if (!secret || !token) return null;
+
+  const [encoded, signature, ...rest] = token.split('.');
+  if (!encoded || !signature || rest.length > 0) return null;
+
+  const expected = Buffer.from(sign(encoded, secret));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) return null;
+
+  let payload: EmbedTokenPayload;
+  try {
+    payload = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+  } catch {
+    return null;
+  }
+
+  if (!payload || typeof payload.email !== 'string' || !payload.email || typeof payload.exp !== 'number') {
+    return null;
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  if (payload.exp + CLOCK_SKEW_SECONDS < now) return null;
+  if (typeof payload.iat === 'number' && payload.iat - CLOCK_SKEW_SECONDS > now) return null;
+
+  return payload;
+}
+
+/**
+ * Re-sign a verified token with a fresh TTL, keeping its session start. Returns null once
+ * the session is older than 12 hours; the expiry never runs past that limit either.
+ */
+export function refreshEmbedToken(payload: EmbedTokenPayload): { token: string; expiresIn: number } | null {
+  const sessionStart = payload.sessionStart ?? payload.iat;
+  if (typeof sessionStart !== 'number') return null;
+
+  const remaining = sessionStart + MAX_SESSION_SECONDS - Math.floor(Date.now() / 1000);
+  if (remaining <= 0) return null;
+
+  const expiresIn = Math.min(getEmbedTokenTtl(), remaining);
+  const token = signEmbedToken({ email: payload.email, name: payload.name, sessionStart }, expiresIn);
+  return { token, expiresIn };
+}
@@ -0,0 +1,44 @@
+import { BlockList, isIP } from 'net';
+import { promises as dns } from 'dns';
+
+/**
+ * Guard for user-supplied hosts the server connects to (per-user SMTP servers)
+ *
+ * A host is only usable when every address it resolves to is public, so a
+ * user can't point the server at loopback, the private network or the cloud
+ * metadata endpoint. Callers connect to the returned address rather than the
+ * name, so the DNS answer can't change between the check and the connection.
+ */
+
+const blocked = new BlockList();
+for (const [net, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3],
+] as const) {
+  blocked.addSubnet(net, prefix, 'ipv4');
+}
+for (const [net, prefix] of [
+  ['::', 127], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) {
+  blocked.addSubnet(net, prefix, 'ipv6');
+}
+
+export function isPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) return false;
+  // IPv4-mapped IPv6 (::ffff:10.0.0.1) is checked as the IPv4 address it maps to
+  const mapped = family === 6 ? address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i)?.[1] : undefined;
+  return mapped ? !blocked.check(mapped, 'ipv4') : !blocked.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Resolve a host to an address to connect to; throws when it doesn't resolve
+ * or any of its addresses is not public
+ */
+export async function resolvePublicAddress(host: string): Promise<string> {
+  const addresses = isIP(host) ? [{ address: host }] : await dns.lookup(host, { all: true });
+  if (addresses.length === 0 || !addresses.every(a => isPublicAddress(a.address))) {
+    throw new Error(`${host} does not resolve to a public address`);
+  }
+  return addresses[0].address;
+}
@@ -1,10 +1,19 @@
+import { cacheService } from '../services/cacheService';
+
+/**
+ * Serial queue spacing calls delayMs apart. With a sharedKey the spacing is
+ * enforced through the shared cache, so every limiter using that key - in
+ * this process or another instance - takes turns.
+ */
 export class RateLimiter {
   private queue: Array<() => Promise<any>> = [];
   private processing = false;
   private delayMs: number;
+  private sharedKey?: string;
 
-  constructor(delayMs: number) {
+  constructor(delayMs: number, sharedKey?: string) {
     this.delayMs = delayMs;
+    this.sharedKey = sharedKey;
   }
 
   async execute<T>(fn: () => Promise<T>): Promise<T> {
@@ -30,9 +39,14 @@ export class RateLimiter {
     while (this.queue.length > 0) {
       const fn = this.queue.shift();
       if (fn) {
-        await fn();
-        if (this.queue.length > 0) {
-          await this.delay(this.delayMs);
+        if (this.sharedKey) {
+          await this.claimSharedSlot(this.sharedKey);
+          await fn();
+        } else {
+          await fn();
+          if (this.queue.length > 0) {
+            await this.delay(this.delayMs);
+          }
         }
       }
     }
@@ -40,6 +54,15 @@ export class RateLimiter {
     this.processing = false;
   }
 
+  // The slot key expires after delayMs; whoever sets it next goes next
+  private async claimSharedSlot(key: string): Promise<void> {
+    const slotKey = `ratelimit:slot:${key}`;
+    while (!(await cacheService.setIfAbsent(slotKey, String(process.pid), this.delayMs))) {
+      const remaining = await cacheService.ttl(slotKey);
+      await this.delay(remaining > 0 ? remaining : 10);
+    }
+  }
+
   private delay(ms: number): Promise<void> {
     return new Promise(resolve => setTimeout(resolve, ms));
   }
@@ -0,0 +1,51 @@
+import crypto from 'crypto';
+
+/**
+ * Encryption for stored credentials (per-user SMTP passwords)
+ *
+ * AES-256-GCM with a key derived from CREDENTIALS_ENCRYPTION_KEY; the stored
+ * form is "v1.<iv>.<auth tag>.<ciphertext>" (base64url parts). Rotating the key
+ * makes existing secrets undecryptable - users re-enter them.
+ */
+
+const VERSION = 'v1';
+const IV_BYTES = 12;
+
+function getKey(): Buffer | null {
+  const secret = process.env.CREDENTIALS_ENCRYPTION_KEY;
+  return secret ? crypto.createHash('sha256').update(secret).digest() : null;
+}
+
+/**
+ * True when secrets can be stored
+ */
+export function isSecretBoxConfigured(): boolean {
+  return getKey() !== null;
+}
+
+export function encryptSecret(plaintext: string): string {
+  const key = getKey();
+  if (!key) throw new Error('CREDENTIALS_ENCRYPTION_KEY is not set');
+
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  return [VERSION, iv, cipher.getAuthTag(), ciphertext].map(p => typeof p === 'string' ? p : p.toString('base64url')).join('.');
+}
+
+/**
+ * Decrypt a value from encryptSecret; null when it can't be (wrong key, tampered)
+ */
+export function decryptSecret(stored: string): string | null {
+  const key = getKey();
+  const [version, iv, tag, ciphertext] = stored.split('.');
+  if (!key || version !== VERSION || !iv || !tag || ciphertext === undefined) return null;
+
+  try {
+    const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(iv, 'base64url'));
+    decipher.setAuthTag(Buffer.from(tag, 'base64url'));
+    return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64url')), decipher.final()]).toString('utf8');
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,325 @@
+import { Request } from 'express';
+import { ContactType, OutreachStatus } from '@prisma/client';
+import { db } from './database';
+import { geographyService } from '../services/geographyService';
+import { creatorSearchService } from '../services/creatorSearchService';
+import { outreachService } from '../services/outreachService';
+
+/**
+ * Shared filter builder for creator searches.
+ *
+ * Translates the /api/streamers query string (platforms, regions, categories,
+ * follower/engagement/iGaming ranges, favoritesOnly, hasEmail, contactTypes,
+ * outreachStatus, ...) into a
+ * Prisma where/orderBy pair, so listing and export return exactly the same set.
+ *
+ * Free-text search can't be written as a Prisma filter, so it stays out of
+ * the where clause: matchingIds() runs it in SQL over every id the other
+ * filters allow (creatorSearchService) and returns the matches in order.
+ */
+
+export interface StreamerQuery {
+  where: any;
+  orderBy: any[];
+  // True when a filter (search, favorites, discards) is known to match nothing
+  empty: boolean;
+  // Present when a free-text search was given; `where` doesn't include it
+  search?: {
+    text: string;
+    // No explicit sort requested, so results follow search relevance
+    byRelevance: boolean;
+  };
+}
+
+/**
+ * Every id matching the filters and the free-text search, in result order:
+ * search relevance when no sort was requested, otherwise `orderBy` (the
+ * query's own sort unless overridden).
+ */
+export async function matchingIds(query: StreamerQuery, orderBy?: any[]): Promise<string[]> {
+  const { search } = query;
+  const byRelevance = !orderBy && !!search?.byRelevance;
+  const allowed = (await db.streamer.findMany({
+    where: query.where,
+    select: { id: true },
+    ...(byRelevance ? {} : { orderBy: [...(orderBy || query.orderBy), { id: 'asc' }] }),
+  })).map(a => a.id);
+  if (!search) return allowed;
+  return creatorSearchService.rankedIds(search.text, { within: allowed, keepOrder: !byRelevance });
+}
+
+export async function buildStreamerQuery(query: Request['query']): Promise<StreamerQuery> {
+  const sort = (String(query.sort || '').toLowerCase());
+  const dir = (String(query.dir || 'desc').toLowerCase() === 'asc' ? 'asc' : 'desc') as 'asc' | 'desc';
+
+  // Search filter
+  const search = (query.search as string | undefined)?.trim();
+
+  // Multi-select filters (comma-separated)
+  const platforms = (query.platforms as string | undefined)?.split(',').map(p => p.trim().toUpperCase()).filter(Boolean);
+  // Region enum values, ISO codes, country names or continents (e.g. LATIN_AMERICA)
+  const regions = (query.regions as string | undefined)?.split(',').map(r => r.trim()).filter(Boolean);
+  const categories = (query.categories as string | undefined)?.split(',').map(c => c.trim()).filter(Boolean);
+
+  // Range filters
+  const minFollowers = parseInt(query.minFollowers as string) || 0;
+  const maxFollowers = parseInt(query.maxFollowers as string) || undefined;
+  const minViews = parseInt(query.minViews as string) || 0;
+  const maxViews = parseInt(query.maxViews as string) || undefined;
+  const minEngagement = parseFloat(query.minEngagement as string) || 0;
+  const minAvgViewers = parseInt(query.minAvgViewers as string) || 0;
+  const maxAvgViewers = parseInt(query.maxAvgViewers as string) || undefined;
+  const maxLastActive = parseInt(query.maxLastActive as string) || undefined; // days
+
+  // Favorites and discards filter
+  const userId = query.userId as string | undefined;
+  const favoritesOnly = query.favoritesOnly === 'true';
+  const discardedOnly = query.discardedOnly === 'true';
+  const hideDiscarded = query.hideDiscarded !== 'false'; // Default to true
+
+  // Contact filters
+  const hasEmail = query.hasEmail === 'true';
+  const contactTypes = (query.contactTypes as string | undefined)?.split(',')
+    .map(t => t.trim().toUpperCase())
+    .filter((t): t is ContactType => t in ContactType);
+  // Outreach status for userId; NONE = not contacted yet
+  const outreachStatuses = (query.outreachStatus as string | undefined)?.split(',')
+    .map(s => s.trim().toUpperCase())
+    .filter((s): s is OutreachStatus | 'NONE' => s === 'NONE' || s in OutreachStatus);
+
+  // iGaming filters
+  const gamblingCompatible = query.gamblingCompatible === 'true' ? true :
+                              query.gamblingCompatible === 'false' ? false : undefined;
+  const minIgamingScore = parseInt(query.minIgamingScore as string) || 0;
+  const maxIgamingScore = parseInt(query.maxIgamingScore as string) || undefined;
+  const performanceTier = (query.performanceTier as string | undefined)?.toUpperCase();
+
+  // Build where clause
+  const where: any = {};
+
+  // Full-text search over names, descriptions, panels and stream titles,
+  // with fuzzy handle matching (applied by matchingIds)
+  const searchResult: StreamerQuery['search'] = search ? { text: search, byRelevance: !sort } : undefined;
+
+  // Multi-platform filter
+  if (platforms && platforms.length > 0) {
+    where.platform = { in: platforms };
+  }
+
+  // Multi-region filter
+  if (regions && regions.length > 0) {
+    where.region = { in: geographyService.resolveRegions(regions) };
+  }
+
+  // Multi-category filter - uses inferredCategory which properly maps games to categories
+  // e.g., "Gaming" includes all video games, "iGaming" includes slots/casino
+  // "Other" or "Uncategorized" includes profiles with no category
+  if (categories && categories.length > 0) {
+    const hasOther = categories.some(c => c.toLowerCase() === 'other' || c.toLowerCase() === 'uncategorized');
+    const regularCategories = categories.filter(c => c.toLowerCase() !== 'other' && c.toLowerCase() !== 'uncategorized');
+
+    const categoryConditions: any[] = [];
+
+    // Add regular category matches
+    if (regularCategories.length > 0) {
+      categoryConditions.push(
+        { inferredCategory: { in: regularCategories, mode: 'insensitive' } },
+        { primaryCategory: { in: regularCategories, mode: 'insensitive' } }
+      );
+    }
+
+    // Add null/empty category matches for "Other"
+    if (hasOther) {
+      categoryConditions.push(
+        { AND: [{ inferredCategory: null }, { primaryCategory: null }] },
+        { AND: [{ inferredCategory: null }, { primaryCategory: '' }] },
+        { AND: [{ inferredCategory: '' }, { primaryCategory: null }] },
+        { AND: [{ inferredCategory: '' }, { primaryCategory: '' }] },
+        { primaryCategory: { contains: 'unknown', mode: 'insensitive' } }
+      );
+    }
+
+    if (categoryConditions.length > 0) {
+      where.AND = [
+        ...(where.AND || []),
+        { OR: categoryConditions }
+      ];
+    }
+  }
+
+  // Followers range
+  if (minFollowers > 0 || maxFollowers) {
+    where.followers = {};
+    if (minFollowers > 0) where.followers.gte = minFollowers;
+    if (maxFollowers) where.followers.lte = maxFollowers;
+  }
+
+  // Views range
+  if (minViews > 0 || maxViews) {
+    where.totalViews = {};
+    if (minViews > 0) where.totalViews.gte = BigInt(minViews);
+    if (maxViews) where.totalViews.lte = BigInt(maxViews);
+  }
+
+  // Engagement filter
+  if (minEngagement > 0) {
+    where.engagementRate = { gte: minEngagement };
+  }
+
+  // Avg viewers filter (range)
+  if (minAvgViewers > 0 || maxAvgViewers) {
+    where.avgViewers = {};
+    if (minAvgViewers > 0) where.avgViewers.gte = minAvgViewers;
+    if (maxAvgViewers) where.avgViewers.lte = maxAvgViewers;
+  }
+
+  // Last active filter (days)
+  if (maxLastActive && maxLastActive < 365) {
+    const cutoffDate = new Date();
+    cutoffDate.setDate(cutoffDate.getDate() - maxLastActive);
+    where.OR = [
+      ...(where.OR || []),
+      { lastScrapedAt: { gte: cutoffDate } },
+      { isLive: true }, // Live creators are always "active"
+    ];
+  }
+
+  // Has email filter (only show creators with contact info)
+  if (hasEmail) {
+    where.email = { not: null };
+  }
+
+  // Reachable on any of the given channels (contacts that didn't fail validation)
+  if (contactTypes && contactTypes.length > 0) {
+    // A manager contact is an email address too
+    const types = contactTypes.includes('EMAIL') ? [...new Set<ContactType>([...contactTypes, 'MANAGER'])] : contactTypes;
+    where.AND = [
+      ...(where.AND || []),
+      { contacts: { some: { type: { in: types }, status: { not: 'INVALID' } } } }
+    ];
+  }
+
+  // Outreach status (the user's latest outreach event per creator)
+  if (outreachStatuses && outreachStatuses.length > 0 && userId) {
+    const current = await outreachService.currentStatuses(userId);
+    const matching = [...current].filter(([, state]) => outreachStatuses.includes(state.status)).map(([id]) => id);
+
+    const conditions: any[] = [];
+    if (matching.length > 0) conditions.push({ id: { in: matching } });
+    if (outreachStatuses.includes('NONE')) conditions.push({ id: { notIn: [...current.keys()] } });
+    if (conditions.length === 0) {
+      return { where, orderBy: [], empty: true, search: searchResult };
+    }
+    where.AND = [...(where.AND || []), { OR: conditions }];
+  }
+
+  // iGaming compatibility filter
+  if (gamblingCompatible !== undefined) {
+    where.gamblingCompatibility = gamblingCompatible;
+  }
+
+  // iGaming score range filter
+  if (minIgamingScore > 0 || maxIgamingScore) {
+    where.igamingScore = {};
+    if (minIgamingScore > 0) where.igamingScore.gte = minIgamingScore;
+    if (maxIgamingScore) where.igamingScore.lte = maxIgamingScore;
+  }
+
+  // Performance tier filter (S=90+, A=75-89, B=60-74, C=<60)
+  if (performanceTier) {
+    const tierRanges: Record<string, { min: number; max?: number }> = {
+      'S': { min: 90 },
+      'A': { min: 75, max: 89 },
+      'B': { min: 60, max: 74 },
+      'C': { min: 0, max: 59 },
+    };
+    const range = tierRanges[performanceTier];
+    if (range) {
+      where.igamingScore = {
+        ...(where.igamingScore || {}),
+        gte: range.min,
+        ...(range.max !== undefined ? { lte: range.max } : {}),
+      };
+    }
+  }
+
+  // Favorites only filter
+  if (favoritesOnly && userId) {
+    const favorites = await db.discoveryFavorite.findMany({
+      where: { userId },
+      select: { streamerId: true },
+    });
+    const favoriteIds = favorites.map(f => f.streamerId);
+    if (favoriteIds.length === 0) {
+      // No favorites = no results
+      return { where, orderBy: [], empty: true, search: searchResult };
+    }
+    where.id = { in: favoriteIds };
+  }
+
+  // Discarded filter
+  let discardedIds: string[] = [];
+  if (userId) {
+    const discarded = await db.discoveryDiscarded.findMany({
+      where: { userId },
+      select: { streamerId: true },
+    });
+    discardedIds = discarded.map(d => d.streamerId);
+  }
+
+  if (discardedOnly && userId) {
+    // Show only discarded
+    if (discardedIds.length === 0) {
+      return { where, orderBy: [], empty: true, search: searchResult };
+    }
+    where.id = { in: discardedIds };
+  } else if (hideDiscarded && userId && discardedIds.length > 0 && !discardedOnly) {
+    // Hide discarded from general search
+    if (where.id) {
+      // Already filtering by ID (e.g., favorites), intersect with non-discarded
+      where.id = { in: (where.id.in || []).filter((id: string) => !discardedIds.includes(id)) };
+    } else {
+      where.id = { notIn: discardedIds };
+    }
+  }
+
+  // Build orderBy
+  const orderBy: any[] = [];
+  switch (sort) {
+    case 'name':
+      orderBy.push({ displayName: dir });
+      break;
+    case 'followers':
+      orderBy.push({ followers: dir });
+      break;
+    case 'viewers':
+      orderBy.push({ isLive: 'desc' }, { currentViewers: dir });
+      break;
+    case 'avgviewers':
+      orderBy.push({ avgViewers: dir });
+      break;
+    case 'engagement':
+      orderBy.push({ engagementRate: dir });
+      break;
+    case 'views':
+      orderBy.push({ totalViews: dir });
+      break;
+    case 'lastactive':
+      orderBy.push({ lastSeenLive: { sort: dir, nulls: 'last' } });
+      break;
+    case 'igamingscore':
+      orderBy.push({ igamingScore: dir });
+      break;
+    case 'brandsafety':
+      orderBy.push({ brandSafetyScore: dir });
+      break;
+    case 'growth':
+      // Fastest growing: % follower change over the last 7 days (see metricSnapshotService)
+      orderBy.push({ followerGrowthPct7d: { sort: dir, nulls: 'last' } });
+      break;
+    default:
+      orderBy.push({ followers: 'desc' });
+  }
+
+  return { where, orderBy, empty: false, search: searchResult };
+}
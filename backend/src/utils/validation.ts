@@ -1,4 +1,7 @@
 import Joi from 'joi';
+import { ApiKeyScope, CampaignStatus, ContactType, GamblingVertical, OutreachStatus, RateDeliverable, ShortlistAccess, ShortlistClientDecision, UserRole, WebhookDeliveryStatus, WebhookEvent, WorkspaceRole } from '@prisma/client';
+import { isIP } from 'net';
+import { isPublicAddress } from './publicAddress';
 // Simplified for development - define types locally
 enum Platform {
   TWITCH = 'twitch',
@@ -21,13 +24,6 @@ enum FraudStatus {
   FLAGGED = 'flagged'
 }
 
-enum CampaignStatus {
-  DRAFT = 'draft',
-  ACTIVE = 'active',
-  PAUSED = 'paused',
-  COMPLETED = 'completed'
-}
-
 export const loginSchema = Joi.object({
   email: Joi.string()
     .email()
@@ -108,15 +104,407 @@ export const campaignCreateSchema = Joi.object({
   budget: Joi.number().min(0).allow(null),
 });
 
+export const campaignUpdateSchema = Joi.object({
+  name: Joi.string().min(1).max(200),
+  description: Joi.string().min(1).max(1000),
+  rules: Joi.array().items(Joi.object({
+    field: Joi.string().required(),
+    operator: Joi.string().valid('equals', 'gt', 'gte', 'lt', 'lte', 'contains', 'in').required(),
+    value: Joi.any().required(),
+  })),
+  isActive: Joi.boolean(),
+  startDate: Joi.date().allow(null),
+  endDate: Joi.date().allow(null),
+  budget: Joi.number().min(0).allow(null),
+}).min(1);
+
 export const chatMessageSchema = Joi.object({
   message: Joi.string().min(1).max(1000).required(),
 });
 
 export const campaignAssignmentSchema = Joi.object({
+  notes: Joi.string().max(1000).allow(null, ''),
+  force: Joi.boolean().default(false),
+});
+
+export const campaignAssignmentStatusSchema = Joi.object({
+  status: Joi.string().valid(...Object.values(CampaignStatus)).required(),
+  notes: Joi.string().max(1000).allow(null, ''),
+});
+
+export const userRoleSchema = Joi.object({
+  role: Joi.string().uppercase().valid(...Object.values(UserRole)).required(),
+});
+
+export const apiKeyCreateSchema = Joi.object({
+  name: Joi.string().trim().min(1).max(100).required(),
+  scopes: Joi.array().items(Joi.string().uppercase().valid(...Object.values(ApiKeyScope))).min(1).required(),
+  expiresAt: Joi.date().greater('now').optional().allow(null),
+});
+
+export const apiKeyRotateSchema = Joi.object({
+  graceHours: Joi.number().integer().min(0).max(720).default(24),
+});
+
+const performanceFields = {
+  envisionerInfluencerId: Joi.string().allow(null, '').optional(),
+  envisionerCampaignId: Joi.string().allow(null, '').optional(),
+  conversions: Joi.number().integer().min(0).default(0),
+  spent: Joi.number().min(0).default(0),
+  cpa: Joi.number().min(0).allow(null).optional(),
+  roi: Joi.number().allow(null).optional(),
+  campaignStatus: Joi.string().valid('active', 'completed', 'cancelled').allow(null).optional(),
+};
+
+export const performanceSyncSchema = Joi.object({
+  discoveryCreatorId: Joi.string().required(),
+  idempotencyKey: Joi.string().max(200).optional(),
+  ...performanceFields,
+});
+
+export const performanceCorrectionSchema = Joi.object({
+  entryId: Joi.string().required(),
+  idempotencyKey: Joi.string().max(200).optional(),
+  conversions: Joi.number().integer().min(0).optional(),
+  spent: Joi.number().min(0).optional(),
+  cpa: Joi.number().min(0).allow(null).optional(),
+  roi: Joi.number().allow(null).optional(),
+  campaignStatus: Joi.string().valid('active', 'completed', 'cancelled').allow(null).optional(),
+  reason: Joi.string().trim().min(3).max(500).required(),
+});
+
+export const performanceReplaySchema = Joi.object({
+  creatorIds: Joi.array().items(Joi.string()).max(5000).optional(),
+});
+
+// Plain http is only accepted outside production (local receivers during development)
+const webhookUrl = Joi.string().uri({ scheme: process.env.NODE_ENV === 'production' ? ['https'] : ['https', 'http'] });
+const webhookEvents = Joi.array().items(Joi.string().uppercase().valid(...Object.values(WebhookEvent).filter(e => e !== WebhookEvent.PING))).min(1);
+
+export const webhookCreateSchema = Joi.object({
+  name: Joi.string().trim().min(1).max(100).required(),
+  url: webhookUrl.required(),
+  events: webhookEvents.required(),
+  followerThresholds: Joi.array().items(Joi.number().integer().min(1)).max(20).default([]),
+  isActive: Joi.boolean().default(true),
+});
+
+export const webhookUpdateSchema = Joi.object({
+  name: Joi.string().trim().min(1).max(100),
+  url: webhookUrl,
+  events: webhookEvents,
+  followerThresholds: Joi.array().items(Joi.number().integer().min(1)).max(20),
+  isActive: Joi.boolean(),
+  rotateSecret: Joi.boolean(),
+}).min(1);
+
+export const webhookTestSchema = Joi.object({
+  event: Joi.string().uppercase().valid(...Object.values(WebhookEvent)).default(WebhookEvent.PING),
+});
+
+export const webhookDeliveryQuerySchema = Joi.object({
+  status: Joi.string().uppercase().valid(...Object.values(WebhookDeliveryStatus)),
+  limit: Joi.number().integer().min(1).max(200).default(50),
+});
+
+// Mirrors the frontend FetchCreatorsParams (minus paging) so a saved search reapplies exactly
+const savedSearchFilters = Joi.object({
+  search: Joi.string().trim().max(200).allow(''),
+  platforms: Joi.array().items(Joi.string().trim().max(30)).max(20),
+  regions: Joi.array().items(Joi.string().trim().max(50)).max(100),
+  categories: Joi.array().items(Joi.string().trim().max(100)).max(200),
+  minFollowers: Joi.number().min(0),
+  maxFollowers: Joi.number().min(0),
+  minViews: Joi.number().min(0),
+  maxViews: Joi.number().min(0),
+  minEngagement: Joi.number().min(0),
+  minAvgViewers: Joi.number().min(0),
+  maxAvgViewers: Joi.number().min(0),
+  maxLastActive: Joi.number().integer().min(1),
+  favoritesOnly: Joi.boolean(),
+  discardedOnly: Joi.boolean(),
+  hideDiscarded: Joi.boolean(),
+  hasEmail: Joi.boolean(),
+  sort: Joi.string().trim().max(30),
+  dir: Joi.string().valid('asc', 'desc'),
+  gamblingCompatible: Joi.boolean(),
+  performanceTier: Joi.string().trim().max(30),
+  minIgamingScore: Joi.number().min(0).max(100),
+});
+
+export const savedSearchCreateSchema = Joi.object({
+  userId: Joi.string().required(),
+  name: Joi.string().trim().min(1).max(100).required(),
+  filters: savedSearchFilters.required(),
+  alertsEnabled: Joi.boolean().default(true),
+  emailAlerts: Joi.boolean().default(true),
+});
+
+export const savedSearchUpdateSchema = Joi.object({
+  userId: Joi.string().required(),
+  name: Joi.string().trim().min(1).max(100),
+  filters: savedSearchFilters,
+  alertsEnabled: Joi.boolean(),
+  emailAlerts: Joi.boolean(),
+}).or('name', 'filters', 'alertsEnabled', 'emailAlerts');
+
+export const jurisdictionRuleSchema = Joi.object({
+  blacklisted: Joi.boolean(),
+  allowedVerticals: Joi.array().items(Joi.string().uppercase().valid(...Object.values(GamblingVertical))).unique(),
+  minAge: Joi.number().integer().min(16).max(25),
+  ageGateRequired: Joi.boolean(),
+  disclosureRequired: Joi.boolean(),
+  disclosureText: Joi.string().trim().max(300).allow(null, ''),
+  notes: Joi.string().trim().max(1000).allow(null, ''),
+}).min(1);
+
+const factorWeight = Joi.number().min(0).max(100);
+const tierShare = Joi.number().min(0).max(1);
+const tierRange = Joi.object({
+  min: Joi.number().integer().min(0).required(),
+  max: Joi.number().integer().min(1).allow(null).required(),
+});
+
+// Weights and tier shares are relative; the service scales each set to sum to 1
+const recommendationProfileConfig = {
+  weights: Joi.object({
+    verticalFit: factorWeight,
+    historicalPerformance: factorWeight,
+    brandSafety: factorWeight,
+    budgetAlignment: factorWeight,
+    userHistoryBonus: factorWeight,
+  }),
+  tierRanges: Joi.object({ nano: tierRange, micro: tierRange, mid: tierRange, macro: tierRange }),
+  diversityTargets: Joi.object({ nano: tierShare, micro: tierShare, mid: tierShare, macro: tierShare }),
+  rateCard: Joi.array().items(Joi.object({
+    maxFollowers: Joi.number().integer().min(1).allow(null).required(),
+    rate: Joi.number().min(0).required(),
+  })).min(1).max(20),
+  exclusions: Joi.object({
+    platforms: Joi.array().items(Joi.string().trim()),
+    regions: Joi.array().items(Joi.string().trim()),
+    categories: Joi.array().items(Joi.string().trim()),
+    streamerIds: Joi.array().items(Joi.string().trim()).max(1000),
+    minBrandSafetyScore: Joi.number().integer().min(0).max(100),
+    excludeFlagged: Joi.boolean(),
+  }),
+};
+
+export const recommendationProfileCreateSchema = Joi.object({
+  slug: Joi.string().trim().lowercase().pattern(/^[a-z0-9][a-z0-9-]{1,49}$/).required(),
+  name: Joi.string().trim().min(1).max(100).required(),
+  description: Joi.string().trim().max(500).allow(null, ''),
+  isDefault: Joi.boolean(),
+  ...recommendationProfileConfig,
+});
+
+export const recommendationProfileUpdateSchema = Joi.object({
+  slug: Joi.string().trim().lowercase().pattern(/^[a-z0-9][a-z0-9-]{1,49}$/),
+  name: Joi.string().trim().min(1).max(100),
+  description: Joi.string().trim().max(500).allow(null, ''),
+  isDefault: Joi.boolean(),
+  ...recommendationProfileConfig,
+}).min(1);
+
+export const recommendationPreviewSchema = Joi.object({
+  // Profile the proposal is compared against (default profile when omitted)
+  profile: Joi.string().trim(),
+  proposed: Joi.object(recommendationProfileConfig).required(),
+  criteria: Joi.object({
+    vertical: Joi.string().trim(),
+    region: Joi.string().trim(),
+    budget: Joi.number().min(0),
+    minIgamingScore: Joi.number().integer().min(0).max(100),
+    requireGamblingCompatible: Joi.boolean(),
+    platforms: Joi.array().items(Joi.string().trim()),
+    count: Joi.number().integer().min(1).max(100).default(20),
+    strictCompliance: Joi.boolean(),
+    deliverable: Joi.string().valid(...Object.values(RateDeliverable)),
+  }).default({}),
+});
+
+export const creatorContactSchema = Joi.object({
+  userId: Joi.string().required(),
   streamerId: Joi.string().required(),
-  campaignId: Joi.string().required(),
-  notes: Joi.string().allow(null),
-  status: Joi.string().valid(...Object.values(CampaignStatus)).default(CampaignStatus.ACTIVE),
+  type: Joi.string().valid(...Object.values(ContactType)).required(),
+  value: Joi.string().trim().min(2).max(320).required(),
+  label: Joi.string().trim().max(200).allow(null, ''),
+});
+
+export const outreachEventSchema = Joi.object({
+  userId: Joi.string().required(),
+  streamerId: Joi.string().required(),
+  status: Joi.string().valid(...Object.values(OutreachStatus)).required(),
+  contactId: Joi.string().allow(null),
+  note: Joi.string().trim().max(2000).allow(null, ''),
+});
+
+export const smtpSettingsSchema = Joi.object({
+  userId: Joi.string().required(),
+  // Names are checked again after DNS resolution when connecting
+  host: Joi.string().hostname().required().custom((value: string, helpers) => {
+    const local = isIP(value) ? !isPublicAddress(value) : /(^|\.)localhost$/i.test(value);
+    return local ? helpers.message({ custom: 'host must be a public mail server' }) : value;
+  }),
+  port: Joi.number().integer().min(1).max(65535).default(587),
+  secure: Joi.boolean().default(false),
+  username: Joi.string().trim().max(320).required(),
+  password: Joi.string().max(500),
+  fromName: Joi.string().trim().max(100).allow(null, ''),
+  fromEmail: Joi.string().email().required(),
+  replyTo: Joi.string().email().allow(null, ''),
+});
+
+export const outreachTemplateSchema = Joi.object({
+  userId: Joi.string().required(),
+  name: Joi.string().trim().min(1).max(100).required(),
+  subject: Joi.string().trim().min(1).max(300).required(),
+  body: Joi.string().trim().min(1).max(20000).required(),
+});
+
+export const outreachTemplateUpdateSchema = Joi.object({
+  userId: Joi.string().required(),
+  name: Joi.string().trim().min(1).max(100),
+  subject: Joi.string().trim().min(1).max(300),
+  body: Joi.string().trim().min(1).max(20000),
+}).or('name', 'subject', 'body');
+
+export const outreachSendSchema = Joi.object({
+  userId: Joi.string().required(),
+  templateId: Joi.string().required(),
+  streamerIds: Joi.array().items(Joi.string()).min(1).max(500).required(),
+  campaignName: Joi.string().trim().max(200).allow(null, ''),
+});
+
+export const outreachPreviewSchema = Joi.object({
+  userId: Joi.string().required(),
+  streamerId: Joi.string().required(),
+  campaignName: Joi.string().trim().max(200).allow(null, ''),
+});
+
+export const emailOptOutSchema = Joi.object({
+  userId: Joi.string().required(),
+  email: Joi.string().email().required(),
+});
+
+// Either an already classified event (provider webhooks) or a forwarded message
+export const inboundMailSchema = Joi.alternatives().try(
+  Joi.object({
+    type: Joi.string().valid('bounce', 'reply', 'complaint').required(),
+    messageIds: Joi.array().items(Joi.string()).default([]),
+    recipient: Joi.string().email().allow(null),
+    detail: Joi.string().max(1000).allow(null, ''),
+  }),
+  Joi.object({
+    from: Joi.string().required(),
+    subject: Joi.string().allow(null, ''),
+    inReplyTo: Joi.string().allow(null, ''),
+    references: Joi.string().allow(null, ''),
+    text: Joi.string().allow(null, ''),
+  })
+);
+
+export const workspaceSchema = Joi.object({
+  userId: Joi.string().required(),
+  name: Joi.string().trim().min(1).max(100).required(),
+});
+
+export const workspaceMemberSchema = Joi.object({
+  userId: Joi.string().required(),
+  memberId: Joi.string().email().required(),
+  role: Joi.string().valid(...Object.values(WorkspaceRole)).default(WorkspaceRole.MEMBER),
+});
+
+// White-label for media kits; null resets a field to the Envisioner default
+const brandColor = Joi.string().pattern(/^#[0-9a-f]{6}$/i).message('Colours must be #rrggbb').allow(null);
+
+export const workspaceBrandingSchema = Joi.object({
+  userId: Joi.string().required(),
+  brandName: Joi.string().trim().max(100).allow(null, ''),
+  brandLogoUrl: Joi.string().uri({ scheme: ['https'] }).max(2000).allow(null, ''),
+  brandPrimaryColor: brandColor,
+  brandAccentColor: brandColor,
+});
+
+const listName = Joi.string().trim().min(1).max(100).default('default');
+
+// Moves one entry next to another (or to the top); `order` is the original full-priority form
+export const shortlistReorderSchema = Joi.object({
+  userId: Joi.string().required(),
+  ownerId: Joi.string(),
+  listName,
+  streamerId: Joi.string(),
+  beforeStreamerId: Joi.string(),
+  afterStreamerId: Joi.string(),
+  order: Joi.array().items(Joi.object({
+    streamerId: Joi.string().required(),
+    priority: Joi.number().integer().required(),
+  })).max(1000),
+})
+  .xor('streamerId', 'order')
+  .oxor('beforeStreamerId', 'afterStreamerId')
+  .with('beforeStreamerId', 'streamerId')
+  .with('afterStreamerId', 'streamerId');
+
+export const shortlistShareSchema = Joi.object({
+  userId: Joi.string().required(),
+  listName,
+  workspaceId: Joi.string().required(),
+  access: Joi.string().valid(...Object.values(ShortlistAccess)).default(ShortlistAccess.READ),
+});
+
+export const shortlistCommentSchema = Joi.object({
+  userId: Joi.string().required(),
+  ownerId: Joi.string(),
+  listName,
+  streamerId: Joi.string().required(),
+  parentId: Joi.string().allow(null),
+  body: Joi.string().trim().min(1).max(5000).required(),
+});
+
+export const shortlistCommentUpdateSchema = Joi.object({
+  userId: Joi.string().required(),
+  body: Joi.string().trim().min(1).max(5000).required(),
+});
+
+const linkFields = {
+  title: Joi.string().trim().max(150).allow(null, ''),
+  metrics: Joi.array().items(Joi.string()).unique().max(20),
+  streamerIds: Joi.array().items(Joi.string()).max(500),
+  allowDecisions: Joi.boolean(),
+  expiresAt: Joi.date().greater('now').allow(null),
+  password: Joi.string().min(8).max(200).allow(null),
+};
+
+export const shortlistLinkSchema = Joi.object({
+  userId: Joi.string().required(),
+  ownerId: Joi.string(),
+  listName,
+  ...linkFields,
+});
+
+export const shortlistLinkUpdateSchema = Joi.object({
+  userId: Joi.string().required(),
+  ...linkFields,
+});
+
+export const shortlistDecisionSchema = Joi.object({
+  streamerId: Joi.string().required(),
+  decision: Joi.string().valid(...Object.values(ShortlistClientDecision)).allow(null).required(),
+  note: Joi.string().trim().max(1000).allow(null, ''),
+});
+
+export const creatorRateSchema = Joi.object({
+  streamerId: Joi.string().required(),
+  deliverable: Joi.string().valid(...Object.values(RateDeliverable)).required(),
+  amount: Joi.number().positive().max(10000000).required(),   // USD per deliverable
+  agreedAt: Joi.date().max('now'),
+  campaignRef: Joi.string().trim().max(200).allow(null, ''),
+  notes: Joi.string().trim().max(2000).allow(null, ''),
+  // Audience at the deal date, when it differs from the creator's current figures
+  followers: Joi.number().integer().min(0),
+  avgViewers: Joi.number().integer().min(0),
+  engagementRate: Joi.number().min(0),
 });
 
 export const bulkStreamerUpdateSchema = Joi.object({
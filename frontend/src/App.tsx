@@ -1,8 +1,9 @@
 import React, { useState, useMemo, useEffect, useCallback } from 'react';
 import './App.css';
-import { fetchCreators, fetchFavoriteIds, toggleFavorite as apiToggleFavorite, fetchDiscardedIds, toggleDiscarded as apiToggleDiscarded, fetchNotesMap, saveNote as apiSaveNote, formatLastActive, ApiCreator, validateAccess, AccessValidationResult } from './api';
+import { fetchCreators, fetchFavoriteIds, toggleFavorite as apiToggleFavorite, fetchDiscardedIds, toggleDiscarded as apiToggleDiscarded, fetchNotesMap, saveNote as apiSaveNote, formatLastActive, ApiCreator, validateAccess, AccessValidationResult, fetchSavedSearches, createSavedSearch, updateSavedSearch, deleteSavedSearch, markSavedSearchSeen, subscribeToSavedSearchAlerts, SavedSearch, SavedSearchAlert, SavedSearchFilters, fetchGeography, downloadMediaKit } from './api';
 import { getStreamerAvatar, DEFAULT_AVATAR } from './utils/avatars';
-import { flagFor, regionLabel } from './utils/geo';
+import { flagFor, regionLabel, GeoRegion } from './utils/geo';
+import OutreachEmailModal from './components/OutreachEmailModal';
 
 // Handle image load errors by falling back to placeholder
 const handleImageError = (e: React.SyntheticEvent<HTMLImageElement>) => {
@@ -156,7 +157,6 @@ const getAvatarColor = (name: string): string => {
 // PLATFORMS & METRICS CONFIGURATION
 // ===========================================
 const PLATFORMS = ['twitch', 'youtube', 'kick', 'facebook', 'tiktok', 'instagram', 'x', 'linkedin'] as const;
-const REGIONS = ['USA', 'MEXICO', 'SPAIN', 'COLOMBIA', 'BRAZIL', 'ARGENTINA', 'CANADA', 'CHILE', 'PERU', 'SWEDEN', 'UK', 'GERMANY', 'FRANCE', 'PORTUGAL', 'ITALY'] as const;
 
 // Hierarchical category structure - 9 main categories with sub-categories
 const CATEGORY_GROUPS = {
@@ -175,7 +175,8 @@ const MAIN_CATEGORIES = Object.keys(CATEGORY_GROUPS) as (keyof typeof CATEGORY_G
 const ALL_CATEGORIES = Object.values(CATEGORY_GROUPS).flat();
 
 type Platform = typeof PLATFORMS[number];
-type Region = typeof REGIONS[number];
+// Region enum value; the list itself comes from /api/meta/geography
+type Region = string;
 type MainCategory = keyof typeof CATEGORY_GROUPS;
 type Category = typeof ALL_CATEGORIES[number];
 
@@ -355,6 +356,7 @@ const Icons = {
   heartFilled: <svg width="18" height="18" viewBox="0 0 24 24" fill="currentColor" stroke="currentColor" strokeWidth="2"><path d="M20.84 4.61a5.5 5.5 0 0 0-7.78 0L12 5.67l-1.06-1.06a5.5 5.5 0 0 0-7.78 7.78l1.06 1.06L12 21.23l7.78-7.78 1.06-1.06a5.5 5.5 0 0 0 0-7.78z"/></svg>,
   trash: <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><polyline points="3 6 5 6 21 6"/><path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2"/><line x1="10" y1="11" x2="10" y2="17"/><line x1="14" y1="11" x2="14" y2="17"/></svg>,
   note: <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><path d="M11 4H4a2 2 0 0 0-2 2v14a2 2 0 0 0 2 2h14a2 2 0 0 0 2-2v-7"/><path d="M18.5 2.5a2.121 2.121 0 0 1 3 3L12 15l-4 1 1-4 9.5-9.5z"/></svg>,
+  bell: <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><path d="M18 8A6 6 0 0 0 6 8c0 7-3 9-3 9h18s-3-2-3-9"/><path d="M13.73 21a2 2 0 0 1-3.46 0"/></svg>,
   noteFilled: <svg width="18" height="18" viewBox="0 0 24 24" fill="currentColor" stroke="currentColor" strokeWidth="2"><path d="M11 4H4a2 2 0 0 0-2 2v14a2 2 0 0 0 2 2h14a2 2 0 0 0 2-2v-7"/><path d="M18.5 2.5a2.121 2.121 0 0 1 3 3L12 15l-4 1 1-4 9.5-9.5z"/></svg>,
 };
 
@@ -380,13 +382,6 @@ const PLATFORM_COLORS: Record<Platform, string> = {
   linkedin: '#0A66C2',
 };
 
-const FLAGS: Record<string, string> = {
-  'USA': '🇺🇸', 'MEXICO': '🇲🇽', 'SPAIN': '🇪🇸', 'COLOMBIA': '🇨🇴', 'BRAZIL': '🇧🇷',
-  'ARGENTINA': '🇦🇷', 'CANADA': '🇨🇦', 'CHILE': '🇨🇱', 'PERU': '🇵🇪', 'SWEDEN': '🇸🇪',
-  'UK': '🇬🇧', 'GERMANY': '🇩🇪', 'FRANCE': '🇫🇷', 'PORTUGAL': '🇵🇹', 'ITALY': '🇮🇹',
-  'UNITED STATES': '🇺🇸', 'UNITED KINGDOM': '🇬🇧',
-};
-
 // ===========================================
 // HELPERS
 // ===========================================
@@ -561,6 +556,7 @@ function App() {
   const [search, setSearch] = useState('');
   const [selectedPlatforms, setSelectedPlatforms] = useState<Platform[]>([]);
   const [selectedRegions, setSelectedRegions] = useState<Region[]>([]);
+  const [regionOptions, setRegionOptions] = useState<GeoRegion[]>([]);
   const [regionSearch, setRegionSearch] = useState('');
   const [regionDropdownOpen, setRegionDropdownOpen] = useState(false);
   const [selectedCategories, setSelectedCategories] = useState<string[]>([]);
@@ -583,6 +579,7 @@ function App() {
   const [noteContent, setNoteContent] = useState('');
   const [noteSaving, setNoteSaving] = useState(false);
   const [emailCopyId, setEmailCopyId] = useState<string | null>(null);
+  const [outreachOpen, setOutreachOpen] = useState(false);
   const isWindows = typeof navigator !== 'undefined' && navigator.userAgent.includes('Win');
   const [sortBy, setSortBy] = useState<string>('followers');
   const [sortDir, setSortDir] = useState<'asc' | 'desc'>('desc');
@@ -596,6 +593,39 @@ function App() {
 
   // Profile modal
   const [selectedCreator, setSelectedCreator] = useState<ApiCreator | null>(null);
+  const [mediaKitLoading, setMediaKitLoading] = useState(false);
+
+  // Saved searches
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+  const [activeSavedSearchId, setActiveSavedSearchId] = useState<string | null>(null);
+  const [savingSearch, setSavingSearch] = useState(false);
+  const [savedSearchName, setSavedSearchName] = useState('');
+  const [savedSearchError, setSavedSearchError] = useState<string | null>(null);
+  const [savedSearchAlert, setSavedSearchAlert] = useState<SavedSearchAlert | null>(null);
+
+  // Load the region list (only regions that have creators, biggest first)
+  useEffect(() => {
+    fetchGeography()
+      .then(geo => {
+        if (!geo) return;
+        setRegionOptions(
+          geo.regions
+            .filter(r => r.creatorCount > 0 && r.region !== 'OTHER')
+            .sort((a, b) => b.creatorCount - a.creatorCount)
+        );
+      })
+      .catch(console.error);
+  }, []);
+
+  // Load saved searches and listen for new-match alerts
+  useEffect(() => {
+    fetchSavedSearches().then(setSavedSearches).catch(console.error);
+
+    return subscribeToSavedSearchAlerts(alert => {
+      setSavedSearches(prev => prev.map(s => s.id === alert.savedSearchId ? { ...s, unseenCount: alert.unseenCount } : s));
+      setSavedSearchAlert(alert);
+    });
+  }, []);
 
   // Load favorites, discarded, and notes on mount
   useEffect(() => {
@@ -780,13 +810,23 @@ function App() {
 
   // Filtered regions for search
   const filteredRegions = useMemo(() => {
-    if (!regionSearch) return [...REGIONS];
-    return REGIONS.filter(r => r.toLowerCase().includes(regionSearch.toLowerCase()));
-  }, [regionSearch]);
+    const regions = regionOptions.map(r => r.region);
+    if (!regionSearch) return regions;
+    const q = regionSearch.toLowerCase();
+    return regionOptions
+      .filter(r => r.region.toLowerCase().includes(q) || Object.values(r.names).some(n => n.toLowerCase().includes(q)))
+      .map(r => r.region);
+  }, [regionSearch, regionOptions]);
 
   // Use API creators directly (filtering done server-side)
   const filteredCreators = creators;
 
+  // Loaded creators that can be emailed (discarded ones are left out)
+  const emailableCreators = useMemo(
+    () => filteredCreators.filter(c => (c.businessEmail || c.email) && !discarded.includes(c.id)),
+    [filteredCreators, discarded]
+  );
+
   const togglePlatform = (p: Platform) => {
     setSelectedPlatforms(prev => prev.includes(p) ? prev.filter(x => x !== p) : [...prev, p]);
   };
@@ -828,6 +868,86 @@ function App() {
     return CATEGORY_GROUPS[group].filter(c => selectedCategories.includes(c)).length;
   };
 
+  // Current filters in saved-search form (no paging)
+  const getSavedSearchFilters = (): SavedSearchFilters => {
+    const { limit, ...filters } = getFilterParams();
+    return JSON.parse(JSON.stringify(filters));
+  };
+
+  const handleSaveSearch = async () => {
+    const name = savedSearchName.trim();
+    if (!name) return;
+    setSavedSearchError(null);
+    try {
+      const response = await createSavedSearch(name, getSavedSearchFilters());
+      if (!response.success) {
+        setSavedSearchError(response.error || 'Could not save search');
+        return;
+      }
+      setSavedSearches(prev => [...prev, response.data]);
+      setActiveSavedSearchId(response.data.id);
+      setSavingSearch(false);
+      setSavedSearchName('');
+    } catch (error) {
+      console.error('Failed to save search:', error);
+      setSavedSearchError('Could not save search');
+    }
+  };
+
+  // Reapply every filter from a saved search (unset filters go back to their defaults)
+  const applySavedSearch = (saved: SavedSearch) => {
+    const f = saved.filters;
+    setSearch(f.search || '');
+    setSelectedPlatforms((f.platforms || []) as Platform[]);
+    setSelectedRegions((f.regions || []) as Region[]);
+    setRegionSearch('');
+    setSelectedCategories(f.categories || []);
+    setExpandedCategoryGroups([]);
+    setMinFollowers(f.minFollowers || 0);
+    setMaxFollowers(f.maxFollowers || 500000000);
+    setMinViews(f.minViews || 0);
+    setMaxViews(f.maxViews || 50000000000);
+    setMinEngagement(f.minEngagement || 0);
+    setMinAvgViewers(f.minAvgViewers || 0);
+    setMaxAvgViewers(f.maxAvgViewers || 10000000);
+    setMaxLastActive(f.maxLastActive || 365);
+    setFavoritesOnly(!!f.favoritesOnly);
+    setDiscardedOnly(!!f.discardedOnly);
+    if (f.sort) setSortBy(f.sort);
+    if (f.dir) setSortDir(f.dir);
+    setActiveSavedSearchId(saved.id);
+
+    if (saved.unseenCount > 0) {
+      setSavedSearches(prev => prev.map(s => s.id === saved.id ? { ...s, unseenCount: 0 } : s));
+      markSavedSearchSeen(saved.id).catch(console.error);
+    }
+    if (savedSearchAlert?.savedSearchId === saved.id) setSavedSearchAlert(null);
+  };
+
+  const toggleSavedSearchAlerts = async (saved: SavedSearch, e: React.MouseEvent) => {
+    e.stopPropagation();
+    const alertsEnabled = !saved.alertsEnabled;
+    setSavedSearches(prev => prev.map(s => s.id === saved.id ? { ...s, alertsEnabled } : s));
+    try {
+      await updateSavedSearch(saved.id, { alertsEnabled });
+    } catch (error) {
+      console.error('Failed to update saved search:', error);
+      setSavedSearches(prev => prev.map(s => s.id === saved.id ? { ...s, alertsEnabled: !alertsEnabled } : s));
+    }
+  };
+
+  const handleDeleteSavedSearch = async (saved: SavedSearch, e: React.MouseEvent) => {
+    e.stopPropagation();
+    setSavedSearches(prev => prev.filter(s => s.id !== saved.id));
+    if (activeSavedSearchId === saved.id) setActiveSavedSearchId(null);
+    try {
+      await deleteSavedSearch(saved.id);
+    } catch (error) {
+      console.error('Failed to delete saved search:', error);
+      fetchSavedSearches().then(setSavedSearches).catch(console.error);
+    }
+  };
+
   const clearFilters = () => {
     setSearch('');
     setSelectedPlatforms([]);
@@ -843,6 +963,7 @@ function App() {
     setMinViews(0);
     setMaxViews(50000000000);
     setFavoritesOnly(false);
+    setActiveSavedSearchId(null);
   };
 
   const activeFilterCount = selectedPlatforms.length + selectedRegions.length + selectedCategories.length +
@@ -930,6 +1051,83 @@ function App() {
             </div>
           </div>
 
+          {/* Saved Searches */}
+          <div className="filter-group saved-searches">
+            <div className="saved-searches-header">
+              <h4>Saved searches</h4>
+              {!savingSearch && (
+                <button className="clear-all" onClick={() => { setSavingSearch(true); setSavedSearchError(null); }}>
+                  Save current
+                </button>
+              )}
+            </div>
+            {savingSearch && (
+              <div className="saved-search-form">
+                <input
+                  type="text"
+                  placeholder="Name this search..."
+                  value={savedSearchName}
+                  autoFocus
+                  maxLength={100}
+                  onChange={e => setSavedSearchName(e.target.value)}
+                  onKeyDown={e => {
+                    if (e.key === 'Enter') handleSaveSearch();
+                    if (e.key === 'Escape') setSavingSearch(false);
+                  }}
+                />
+                <button className="chip selected" onClick={handleSaveSearch} disabled={!savedSearchName.trim()}>Save</button>
+                <button className="clear-btn" onClick={() => setSavingSearch(false)}>{Icons.x}</button>
+              </div>
+            )}
+            {savedSearchError && <div className="saved-search-error">{savedSearchError}</div>}
+            {savedSearchAlert && (
+              <div className="saved-search-alert" onClick={() => {
+                const saved = savedSearches.find(s => s.id === savedSearchAlert.savedSearchId);
+                if (saved) applySavedSearch(saved);
+              }}>
+                {Icons.bell}
+                <span>{savedSearchAlert.newMatches} new creator{savedSearchAlert.newMatches === 1 ? '' : 's'} match "{savedSearchAlert.name}"</span>
+                <button className="clear-btn" onClick={e => { e.stopPropagation(); setSavedSearchAlert(null); }}>{Icons.x}</button>
+              </div>
+            )}
+            {savedSearches.length === 0 && !savingSearch && (
+              <p className="saved-search-empty">Save a filter set to reapply it and get alerts for new matches.</p>
+            )}
+            {savedSearches.map(saved => (
+              <div
+                key={saved.id}
+                className={`saved-search-item ${activeSavedSearchId === saved.id ? 'active' : ''}`}
+                onClick={() => applySavedSearch(saved)}
+                title={`${saved.lastMatchCount.toLocaleString()} matching creators`}
+              >
+                <span className="saved-search-name">{saved.name}</span>
+                {saved.unseenCount > 0 && <span className="favorite-count">{saved.unseenCount} new</span>}
+                <button
+                  className={`saved-search-bell ${saved.alertsEnabled ? 'on' : ''}`}
+                  onClick={e => toggleSavedSearchAlerts(saved, e)}
+                  title={saved.alertsEnabled ? 'Alerts on - click to mute' : 'Alerts off - click to enable'}
+                >
+                  {Icons.bell}
+                </button>
+                <button className="clear-btn" onClick={e => handleDeleteSavedSearch(saved, e)} title="Delete saved search">
+                  {Icons.x}
+                </button>
+              </div>
+            ))}
+          </div>
+
+          {/* Email outreach */}
+          <div className="filter-group">
+            <h4>Email outreach</h4>
+            <button
+              className="chip outreach-open"
+              onClick={() => setOutreachOpen(true)}
+              disabled={emailableCreators.length === 0}
+            >
+              {Icons.email} Email {emailableCreators.length} creator{emailableCreators.length === 1 ? '' : 's'} in view
+            </button>
+          </div>
+
           {/* Sort By */}
           <div className="filter-group">
             <h4>Sort by</h4>
@@ -948,6 +1146,7 @@ function App() {
               <option value="followers-asc">Followers (Low to High)</option>
               <option value="avgviewers-desc">Avg Viewers (High to Low)</option>
               <option value="avgviewers-asc">Avg Viewers (Low to High)</option>
+              <option value="growth-desc">Fastest Growing (7 days)</option>
               <option value="name-asc">Name (A-Z)</option>
               <option value="name-desc">Name (Z-A)</option>
             </select>
@@ -1009,7 +1208,7 @@ function App() {
                 <div className="selected-regions">
                   {selectedRegions.map(r => (
                     <span key={r} className="region-tag">
-                      {FLAGS[r]} {r}
+                      {flagFor(r)} {regionLabel(r) || r}
                       <button onClick={() => toggleRegion(r)}>{Icons.x}</button>
                     </span>
                   ))}
@@ -1023,7 +1222,7 @@ function App() {
                       className={`region-option ${selectedRegions.includes(r) ? 'selected' : ''}`}
                       onClick={() => toggleRegion(r)}
                     >
-                      <span>{FLAGS[r] || '🌍'} {r}</span>
+                      <span>{flagFor(r) || '🌍'} {regionLabel(r) || r}</span>
                       {selectedRegions.includes(r) && Icons.check}
                     </button>
                   ))}
@@ -1662,11 +1861,27 @@ function App() {
                   Visit Channel
                 </a>
                 <button className="profile-btn secondary">Add to Campaign</button>
+                <button
+                  className="profile-btn secondary"
+                  disabled={mediaKitLoading}
+                  onClick={() => {
+                    setMediaKitLoading(true);
+                    downloadMediaKit(selectedCreator.id)
+                      .catch((err: Error) => alert(err.message))
+                      .finally(() => setMediaKitLoading(false));
+                  }}
+                >
+                  {mediaKitLoading ? 'Generating...' : 'Media kit (PDF)'}
+                </button>
               </div>
             </div>
           </div>
         );
       })()}
+
+      {outreachOpen && (
+        <OutreachEmailModal creators={emailableCreators} onClose={() => setOutreachOpen(false)} />
+      )}
     </div>
   );
 }
@@ -1,16 +1,25 @@
+import { io, Socket } from 'socket.io-client';
+import { embedTokenHeaders, getEmbedToken, getEmbedTokenClaims, scheduleEmbedTokenRefresh } from './utils/embedToken';
+import { Geography, setGeography } from './utils/geo';
+
 // API Configuration
 const API_BASE_URL = import.meta.env.DEV
   ? 'http://localhost:5000'
   : 'https://envisioner-discovery.onrender.com';
 
-// Get user email - matches envisioner widget.js pattern
+// Get user email - the signed embed token is authoritative; the other sources
+// match the envisioner widget.js pattern and are only honoured by the API in development
 export const getUserEmail = (): string | null => {
-  // 1. Check Softr logged_in_user.email
+  // 1. Signed embed token
+  const claims = getEmbedTokenClaims();
+  if (claims) return claims.email;
+
+  // 2. Check Softr logged_in_user.email
   if ((window as any).logged_in_user?.email) {
     return (window as any).logged_in_user.email;
   }
 
-  // 2. Check URL token parameter (base64 encoded email)
+  // 3. Check URL token parameter (base64 encoded email)
   const params = new URLSearchParams(window.location.search);
   const token = params.get('token');
   if (token) {
@@ -19,7 +28,7 @@ export const getUserEmail = (): string | null => {
     } catch {}
   }
 
-  // 3. Check URL user/email parameter
+  // 4. Check URL user/email parameter
   return params.get('user') || params.get('email') || null;
 };
 
@@ -27,6 +36,9 @@ export const getUserEmail = (): string | null => {
 export const isSoftrContext = (): boolean => {
   const params = new URLSearchParams(window.location.search);
 
+  // Has a signed embed token
+  if (getEmbedToken()) return true;
+
   // Has softr flag in URL
   if (params.get('softr') === 'true') return true;
 
@@ -60,6 +72,16 @@ const getUserId = (): string => {
 
 export const USER_ID = getUserId();
 
+// Keep the embed token fresh for long sessions
+scheduleEmbedTokenRefresh(`${API_BASE_URL}/api/access/embed-token/refresh`);
+
+// fetch wrapper that sends the signed embed token with every API call
+const apiFetch = (url: string, init: RequestInit = {}) =>
+  fetch(url, {
+    ...init,
+    headers: { ...(init.headers as Record<string, string> | undefined), ...embedTokenHeaders() },
+  });
+
 // Access validation response
 export interface AccessValidationResult {
   success: boolean;
@@ -73,19 +95,14 @@ export interface AccessValidationResult {
   };
 }
 
-// Validate user access (Softr context + email in users table)
+// Validate user access (signed embed token + email in users table)
 export async function validateAccess(): Promise<AccessValidationResult> {
-  const email = getUserEmail();
-  const softrContext = isSoftrContext();
-
   try {
-    const response = await fetch(`${API_BASE_URL}/api/access/validate`, {
+    const response = await apiFetch(`${API_BASE_URL}/api/access/validate`, {
       method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'X-Softr-App': softrContext ? 'true' : 'false',
-      },
-      body: JSON.stringify({ email, softrContext }),
+      headers: { 'Content-Type': 'application/json' },
+      // userId is only read by the API in development when no embed token secret is configured
+      body: JSON.stringify({ userId: getUserEmail() }),
     });
 
     return await response.json();
@@ -163,6 +180,8 @@ export interface FetchCreatorsParams {
   discardedOnly?: boolean;
   hideDiscarded?: boolean;
   hasEmail?: boolean;
+  contactTypes?: ContactType[];
+  outreachStatus?: (OutreachStatus | 'NONE')[];
   sort?: string;
   dir?: 'asc' | 'desc';
   // iGaming filters
@@ -208,6 +227,11 @@ export async function fetchCreators(params: FetchCreatorsParams = {}): Promise<A
     }
   }
   if (params.hasEmail) queryParams.set('hasEmail', 'true');
+  if (params.contactTypes?.length) queryParams.set('contactTypes', params.contactTypes.join(','));
+  if (params.outreachStatus?.length) {
+    queryParams.set('outreachStatus', params.outreachStatus.join(','));
+    queryParams.set('userId', USER_ID);
+  }
   if (params.sort) queryParams.set('sort', params.sort);
   if (params.dir) queryParams.set('dir', params.dir);
 
@@ -216,20 +240,20 @@ export async function fetchCreators(params: FetchCreatorsParams = {}): Promise<A
   if (params.performanceTier) queryParams.set('performanceTier', params.performanceTier);
   if (params.minIgamingScore) queryParams.set('minIgamingScore', params.minIgamingScore.toString());
 
-  const response = await fetch(`${API_BASE_URL}/api/streamers?${queryParams.toString()}`);
+  const response = await apiFetch(`${API_BASE_URL}/api/streamers?${queryParams.toString()}`);
   return response.json();
 }
 
 // Fetch favorite IDs
 export async function fetchFavoriteIds(): Promise<string[]> {
-  const response = await fetch(`${API_BASE_URL}/api/favorites/ids?userId=${USER_ID}`);
+  const response = await apiFetch(`${API_BASE_URL}/api/favorites/ids?userId=${USER_ID}`);
   const data: ApiResponse<string[]> = await response.json();
   return data.success ? data.data : [];
 }
 
 // Toggle favorite
 export async function toggleFavorite(streamerId: string): Promise<{ isFavorite: boolean }> {
-  const response = await fetch(`${API_BASE_URL}/api/favorites/toggle`, {
+  const response = await apiFetch(`${API_BASE_URL}/api/favorites/toggle`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify({ userId: USER_ID, streamerId }),
@@ -238,6 +262,15 @@ export async function toggleFavorite(streamerId: string): Promise<{ isFavorite:
   return { isFavorite: data.isFavorite };
 }
 
+// Canonical region list (flags, localized names, creator counts); also primes utils/geo
+export async function fetchGeography(): Promise<Geography | null> {
+  const response = await apiFetch(`${API_BASE_URL}/api/meta/geography`);
+  const data: ApiResponse<Geography> = await response.json();
+  if (!data.success) return null;
+  setGeography(data.data);
+  return data.data;
+}
+
 // Helper to format "last active" from timestamp
 // Uses lastSeenLive (when we actually saw them streaming) instead of lastScrapedAt
 export function formatLastActive(lastSeenLive: string | null, isLive: boolean): string {
@@ -270,14 +303,14 @@ export function getDaysSinceActive(lastSeenLive: string | null, isLive: boolean)
 
 // Fetch discarded IDs
 export async function fetchDiscardedIds(): Promise<string[]> {
-  const response = await fetch(`${API_BASE_URL}/api/discards/ids?userId=${USER_ID}`);
+  const response = await apiFetch(`${API_BASE_URL}/api/discards/ids?userId=${USER_ID}`);
   const data: ApiResponse<string[]> = await response.json();
   return data.success ? data.data : [];
 }
 
 // Toggle discarded
 export async function toggleDiscarded(streamerId: string): Promise<{ isDiscarded: boolean }> {
-  const response = await fetch(`${API_BASE_URL}/api/discards/toggle`, {
+  const response = await apiFetch(`${API_BASE_URL}/api/discards/toggle`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify({ userId: USER_ID, streamerId }),
@@ -288,23 +321,333 @@ export async function toggleDiscarded(streamerId: string): Promise<{ isDiscarded
 
 // Fetch notes map (streamerId -> content)
 export async function fetchNotesMap(): Promise<Record<string, string>> {
-  const response = await fetch(`${API_BASE_URL}/api/notes/map?userId=${USER_ID}`);
+  const response = await apiFetch(`${API_BASE_URL}/api/notes/map?userId=${USER_ID}`);
   const data: ApiResponse<Record<string, string>> = await response.json();
   return data.success ? data.data : {};
 }
 
 // Get note for a specific creator
 export async function getNote(streamerId: string): Promise<string | null> {
-  const response = await fetch(`${API_BASE_URL}/api/notes/${streamerId}?userId=${USER_ID}`);
+  const response = await apiFetch(`${API_BASE_URL}/api/notes/${streamerId}?userId=${USER_ID}`);
   const data = await response.json();
   return data.success && data.data ? data.data.content : null;
 }
 
 // Save note for a creator
 export async function saveNote(streamerId: string, content: string): Promise<void> {
-  await fetch(`${API_BASE_URL}/api/notes`, {
+  await apiFetch(`${API_BASE_URL}/api/notes`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify({ userId: USER_ID, streamerId, content }),
   });
 }
+
+// Download a creator's one-page PDF media kit (workspaceId applies that workspace's branding)
+export async function downloadMediaKit(streamerId: string, workspaceId?: string): Promise<void> {
+  const params = new URLSearchParams({ userId: USER_ID });
+  if (workspaceId) params.set('workspaceId', workspaceId);
+  const response = await apiFetch(`${API_BASE_URL}/api/media-kits/creators/${streamerId}?${params.toString()}`);
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error || 'Could not generate the media kit');
+  }
+
+  const filename = response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1] || 'media-kit.pdf';
+  const url = URL.createObjectURL(await response.blob());
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// ===========================================
+// CONTACTS & OUTREACH
+// ===========================================
+
+export type ContactType = 'EMAIL' | 'MANAGER' | 'DISCORD' | 'TELEGRAM' | 'WHATSAPP';
+export type ContactStatus = 'PENDING' | 'VALID' | 'RISKY' | 'INVALID';
+export type OutreachStatus = 'CONTACTED' | 'REPLIED' | 'NEGOTIATING' | 'DECLINED' | 'SIGNED';
+
+export const CONTACT_TYPES: ContactType[] = ['EMAIL', 'MANAGER', 'DISCORD', 'TELEGRAM', 'WHATSAPP'];
+export const OUTREACH_STATUSES: OutreachStatus[] = ['CONTACTED', 'REPLIED', 'NEGOTIATING', 'DECLINED', 'SIGNED'];
+
+export interface CreatorContact {
+  id: string;
+  type: ContactType;
+  value: string;
+  label: string | null;
+  source: string;
+  status: ContactStatus;
+  statusDetail: string | null;
+  confidence: number;   // 0-100
+  verifiedAt: string | null;
+}
+
+export interface OutreachEvent {
+  id: string;
+  status: OutreachStatus;
+  note: string | null;
+  createdAt: string;
+  contact: { id: string; type: ContactType; value: string } | null;
+}
+
+// Fetch a creator's contacts, most promising first
+export async function fetchContacts(streamerId: string): Promise<CreatorContact[]> {
+  const response = await apiFetch(`${API_BASE_URL}/api/contacts/${streamerId}?userId=${USER_ID}`);
+  const data: ApiResponse<CreatorContact[]> = await response.json();
+  return data.success ? data.data : [];
+}
+
+// Add a contact by hand
+export async function addContact(streamerId: string, type: ContactType, value: string, label?: string): Promise<ApiResponse<CreatorContact>> {
+  const response = await apiFetch(`${API_BASE_URL}/api/contacts`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ userId: USER_ID, streamerId, type, value, label }),
+  });
+  return response.json();
+}
+
+// Re-extract and re-check a creator's contacts
+export async function refreshContacts(streamerId: string): Promise<CreatorContact[]> {
+  const response = await apiFetch(`${API_BASE_URL}/api/contacts/${streamerId}/refresh`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ userId: USER_ID }),
+  });
+  const data: ApiResponse<CreatorContact[]> = await response.json();
+  return data.success ? data.data : [];
+}
+
+// Fetch outreach history with a creator, newest first
+export async function fetchOutreachHistory(streamerId: string): Promise<OutreachEvent[]> {
+  const response = await apiFetch(`${API_BASE_URL}/api/outreach/${streamerId}?userId=${USER_ID}`);
+  const data: ApiResponse<OutreachEvent[]> = await response.json();
+  return data.success ? data.data : [];
+}
+
+// Log an outreach status change
+export async function recordOutreach(
+  streamerId: string,
+  status: OutreachStatus,
+  options: { contactId?: string; note?: string } = {}
+): Promise<ApiResponse<OutreachEvent>> {
+  const response = await apiFetch(`${API_BASE_URL}/api/outreach`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ userId: USER_ID, streamerId, status, ...options }),
+  });
+  return response.json();
+}
+
+// ===========================================
+// OUTREACH EMAIL
+// ===========================================
+
+export interface SmtpSettings {
+  host: string;
+  port: number;
+  secure: boolean;
+  username: string;
+  fromName: string | null;
+  fromEmail: string;
+  replyTo: string | null;
+  verifiedAt: string | null;
+  hasPassword: boolean;
+}
+
+export type SmtpSettingsInput = Omit<SmtpSettings, 'verifiedAt' | 'hasPassword'> & { password?: string };
+
+export interface OutreachTemplate {
+  id: string;
+  name: string;
+  subject: string;
+  body: string;
+  updatedAt: string;
+}
+
+export type OutreachEmailStatus = 'QUEUED' | 'SENDING' | 'SENT' | 'FAILED' | 'SKIPPED' | 'BOUNCED' | 'REPLIED';
+
+export interface OutreachBatch {
+  id: string;
+  campaignName: string | null;
+  createdAt: string;
+  template: { id: string; name: string } | null;
+  counts: Partial<Record<OutreachEmailStatus, number>>;
+}
+
+export interface OutreachSendResult {
+  batch: { id: string };
+  queued: number;
+  skipped: Array<{ streamerId: string; reason: 'not_found' | 'no_email' | 'opted_out' | 'already_queued' }>;
+}
+
+const outreachEmailUrl = (path: string) => `${API_BASE_URL}/api/outreach-email${path}`;
+
+const jsonRequest = (method: string, body: object): RequestInit => ({
+  method,
+  headers: { 'Content-Type': 'application/json' },
+  body: JSON.stringify({ userId: USER_ID, ...body }),
+});
+
+// Fetch the user's SMTP settings (null until set up)
+export async function fetchSmtpSettings(): Promise<SmtpSettings | null> {
+  const response = await apiFetch(outreachEmailUrl(`/smtp?userId=${USER_ID}`));
+  const data: ApiResponse<SmtpSettings | null> = await response.json();
+  return data.success ? data.data : null;
+}
+
+// Save SMTP settings (omit password to keep the stored one)
+export async function saveSmtpSettings(settings: SmtpSettingsInput): Promise<ApiResponse<SmtpSettings>> {
+  const response = await apiFetch(outreachEmailUrl('/smtp'), jsonRequest('PUT', settings));
+  return response.json();
+}
+
+// Log in to the SMTP server without sending
+export async function testSmtpSettings(): Promise<ApiResponse<SmtpSettings>> {
+  const response = await apiFetch(outreachEmailUrl('/smtp/test'), jsonRequest('POST', {}));
+  return response.json();
+}
+
+// Fetch templates and the merge fields they can use
+export async function fetchOutreachTemplates(): Promise<{ templates: OutreachTemplate[]; mergeFields: string[] }> {
+  const response = await apiFetch(outreachEmailUrl(`/templates?userId=${USER_ID}`));
+  const data = await response.json();
+  return data.success ? { templates: data.data, mergeFields: data.mergeFields } : { templates: [], mergeFields: [] };
+}
+
+// Create a template, or update it when an id is given
+export async function saveOutreachTemplate(
+  template: { name: string; subject: string; body: string },
+  id?: string
+): Promise<ApiResponse<OutreachTemplate>> {
+  const response = await apiFetch(
+    outreachEmailUrl(id ? `/templates/${id}` : '/templates'),
+    jsonRequest(id ? 'PATCH' : 'POST', template)
+  );
+  return response.json();
+}
+
+export async function deleteOutreachTemplate(id: string): Promise<void> {
+  await apiFetch(outreachEmailUrl(`/templates/${id}?userId=${USER_ID}`), { method: 'DELETE' });
+}
+
+// Render a template for one creator
+export async function previewOutreachTemplate(
+  templateId: string,
+  streamerId: string,
+  campaignName?: string
+): Promise<ApiResponse<{ to: string | null; subject: string; body: string }>> {
+  const response = await apiFetch(outreachEmailUrl(`/templates/${templateId}/preview`), jsonRequest('POST', { streamerId, campaignName }));
+  return response.json();
+}
+
+// Queue a template for a set of creators
+export async function sendOutreach(templateId: string, streamerIds: string[], campaignName?: string): Promise<ApiResponse<OutreachSendResult>> {
+  const response = await apiFetch(outreachEmailUrl('/send'), jsonRequest('POST', { templateId, streamerIds, campaignName }));
+  return response.json();
+}
+
+// Recent sends with per-status counts
+export async function fetchOutreachBatches(): Promise<OutreachBatch[]> {
+  const response = await apiFetch(outreachEmailUrl(`/batches?userId=${USER_ID}`));
+  const data: ApiResponse<OutreachBatch[]> = await response.json();
+  return data.success ? data.data : [];
+}
+
+// ===========================================
+// SAVED SEARCHES
+// ===========================================
+
+// Stored filter set - FetchCreatorsParams without paging
+export type SavedSearchFilters = Omit<FetchCreatorsParams, 'page' | 'limit'>;
+
+export interface SavedSearch {
+  id: string;
+  name: string;
+  filters: SavedSearchFilters;
+  alertsEnabled: boolean;
+  emailAlerts: boolean;
+  lastRunAt: string | null;
+  lastMatchCount: number;
+  unseenCount: number;
+  lastViewedAt: string | null;
+  createdAt: string;
+}
+
+export interface SavedSearchAlert {
+  savedSearchId: string;
+  name: string;
+  newMatches: number;
+  unseenCount: number;
+  creators: Pick<ApiCreator, 'id' | 'platform' | 'username' | 'displayName' | 'avatarUrl' | 'profileUrl' | 'followers' | 'region' | 'isLive'>[];
+  timestamp: string;
+}
+
+// Fetch the user's saved searches
+export async function fetchSavedSearches(): Promise<SavedSearch[]> {
+  const response = await apiFetch(`${API_BASE_URL}/api/saved-searches?userId=${encodeURIComponent(USER_ID)}`);
+  const data: ApiResponse<SavedSearch[]> = await response.json();
+  return data.success ? data.data : [];
+}
+
+// Save the current filter set under a name
+export async function createSavedSearch(name: string, filters: SavedSearchFilters): Promise<ApiResponse<SavedSearch>> {
+  const response = await apiFetch(`${API_BASE_URL}/api/saved-searches`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ userId: USER_ID, name, filters }),
+  });
+  return response.json();
+}
+
+// Rename, replace filters or toggle alerts
+export async function updateSavedSearch(
+  id: string,
+  changes: Partial<Pick<SavedSearch, 'name' | 'filters' | 'alertsEnabled' | 'emailAlerts'>>
+): Promise<ApiResponse<SavedSearch>> {
+  const response = await apiFetch(`${API_BASE_URL}/api/saved-searches/${id}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ userId: USER_ID, ...changes }),
+  });
+  return response.json();
+}
+
+// Delete a saved search
+export async function deleteSavedSearch(id: string): Promise<void> {
+  await apiFetch(`${API_BASE_URL}/api/saved-searches/${id}?userId=${encodeURIComponent(USER_ID)}`, {
+    method: 'DELETE',
+  });
+}
+
+// Clear the unseen new-match counter (called when a search is reapplied)
+export async function markSavedSearchSeen(id: string): Promise<void> {
+  await apiFetch(`${API_BASE_URL}/api/saved-searches/${id}/seen`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ userId: USER_ID }),
+  });
+}
+
+let alertSocket: Socket | null = null;
+
+// Live new-match alerts for the current user's saved searches
+export function subscribeToSavedSearchAlerts(callback: (alert: SavedSearchAlert) => void): () => void {
+  // The socket only accepts signed embed tokens outside development
+  if (!getEmbedToken() && !import.meta.env.DEV) return () => {};
+
+  if (!alertSocket) {
+    alertSocket = io(API_BASE_URL, {
+      // Re-read on every (re)connect so a refreshed embed token is used
+      auth: (cb) => cb({ embedToken: getEmbedToken(), userId: USER_ID }),
+      reconnectionDelayMax: 30000,
+    });
+  }
+
+  alertSocket.on('savedSearch:new_matches', callback);
+  return () => {
+    alertSocket?.off('savedSearch:new_matches', callback);
+  };
+}
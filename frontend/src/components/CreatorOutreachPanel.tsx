@@ -0,0 +1,249 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from 'react-query';
+import { ArrowPathIcon, ChatBubbleLeftRightIcon } from '@heroicons/react/24/outline';
+import {
+  addContact,
+  CONTACT_TYPES,
+  ContactStatus,
+  ContactType,
+  CreatorContact,
+  fetchContacts,
+  fetchOutreachHistory,
+  OUTREACH_STATUSES,
+  OutreachStatus,
+  recordOutreach,
+  refreshContacts,
+} from '@/api';
+
+export const CONTACT_LABELS: Record<ContactType, string> = {
+  EMAIL: 'Email',
+  MANAGER: 'Manager',
+  DISCORD: 'Discord',
+  TELEGRAM: 'Telegram',
+  WHATSAPP: 'WhatsApp',
+};
+
+export const OUTREACH_LABELS: Record<OutreachStatus, string> = {
+  CONTACTED: 'Contacted',
+  REPLIED: 'Replied',
+  NEGOTIATING: 'Negotiating',
+  DECLINED: 'Declined',
+  SIGNED: 'Signed',
+};
+
+const OUTREACH_COLORS: Record<OutreachStatus, string> = {
+  CONTACTED: 'bg-blue-500/15 text-blue-400 border-blue-500/30',
+  REPLIED: 'bg-cyan-500/15 text-cyan-400 border-cyan-500/30',
+  NEGOTIATING: 'bg-yellow-500/15 text-yellow-500 border-yellow-500/30',
+  DECLINED: 'bg-red-500/15 text-red-400 border-red-500/30',
+  SIGNED: 'bg-green-500/15 text-green-500 border-green-500/30',
+};
+
+const STATUS_COLORS: Record<ContactStatus, string> = {
+  PENDING: 'text-gray-400',
+  VALID: 'text-green-500',
+  RISKY: 'text-yellow-500',
+  INVALID: 'text-red-400 line-through',
+};
+
+// Small status pill for creator rows/cards
+export const OutreachBadge: React.FC<{ status: OutreachStatus; at?: string }> = ({ status, at }) => (
+  <span
+    className={`inline-flex items-center px-1.5 py-0.5 rounded border text-[10px] font-semibold ${OUTREACH_COLORS[status]}`}
+    title={at ? `${OUTREACH_LABELS[status]} on ${new Date(at).toLocaleDateString()}` : OUTREACH_LABELS[status]}
+  >
+    {OUTREACH_LABELS[status]}
+  </span>
+);
+
+// Outreach status plus the channels a creator can be reached on (list rows and mobile cards)
+export const CreatorReachChips: React.FC<{
+  contacts?: Array<{ type: ContactType }>;
+  outreach?: { status: OutreachStatus; at: string } | null;
+}> = ({ contacts = [], outreach }) => {
+  const types = CONTACT_TYPES.filter(type => contacts.some(c => c.type === type));
+  if (!outreach && types.length === 0) return null;
+  return (
+    <div className="flex flex-wrap items-center gap-1 mt-1">
+      {outreach && <OutreachBadge status={outreach.status} at={outreach.at} />}
+      {types.map(type => (
+        <span key={type} className="px-1.5 py-0.5 rounded text-[10px] text-gray-400 bg-gray-800/60 border border-gray-700">
+          {CONTACT_LABELS[type]}
+        </span>
+      ))}
+    </div>
+  );
+};
+
+const contactHref = (contact: CreatorContact): string | null => {
+  if (contact.type === 'EMAIL' || contact.type === 'MANAGER') return `mailto:${contact.value}`;
+  if (contact.value.startsWith('https://')) return contact.value;
+  if (contact.type === 'TELEGRAM') return `https://t.me/${contact.value.replace(/^@/, '')}`;
+  if (contact.type === 'WHATSAPP') return `https://wa.me/${contact.value.replace(/^\+/, '')}`;
+  return null;
+};
+
+const errorMessage = (e: any): string => e?.message || 'Request failed';
+
+/**
+ * Contacts and the user's outreach log for one creator (creator details modal)
+ */
+const CreatorOutreachPanel: React.FC<{ streamerId: string }> = ({ streamerId }) => {
+  const queryClient = useQueryClient();
+  const [newType, setNewType] = useState<ContactType>('EMAIL');
+  const [newValue, setNewValue] = useState('');
+  const [note, setNote] = useState('');
+  const [contactId, setContactId] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: contacts = [], isLoading } = useQuery(['contacts', streamerId], () => fetchContacts(streamerId));
+  const { data: history = [] } = useQuery(['outreach', streamerId], () => fetchOutreachHistory(streamerId));
+
+  const refreshMutation = useMutation(() => refreshContacts(streamerId), {
+    onSuccess: (data) => {
+      queryClient.setQueryData(['contacts', streamerId], data);
+    },
+  });
+
+  const addMutation = useMutation(() => addContact(streamerId, newType, newValue), {
+    onSuccess: (res) => {
+      if (!res.success) {
+        setError(res.error || 'Could not add contact');
+        return;
+      }
+      setError(null);
+      setNewValue('');
+      queryClient.invalidateQueries(['contacts', streamerId]);
+    },
+    onError: (e) => setError(errorMessage(e)),
+  });
+
+  const outreachMutation = useMutation(
+    (status: OutreachStatus) => recordOutreach(streamerId, status, { contactId: contactId || undefined, note: note || undefined }),
+    {
+      onSuccess: (res) => {
+        if (!res.success) {
+          setError(res.error || 'Could not log outreach');
+          return;
+        }
+        setError(null);
+        setNote('');
+        queryClient.invalidateQueries(['outreach', streamerId]);
+        // List rows show the current status and can be filtered by it
+        queryClient.invalidateQueries(['streamers']);
+      },
+      onError: (e) => setError(errorMessage(e)),
+    }
+  );
+
+  const current = history[0];
+  const usable = contacts.filter(c => c.status !== 'INVALID');
+
+  return (
+    <div className="p-3 sm:p-4 rounded-xl border space-y-3" style={{ background: '#FFFFFF', borderColor: 'rgba(20, 28, 46, 0.1)' }}>
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <ChatBubbleLeftRightIcon className="h-3.5 w-3.5 sm:h-4 sm:w-4 text-primary-500" />
+          <p className="text-xs sm:text-sm text-gray-400 uppercase tracking-wide">Contacts & Outreach</p>
+        </div>
+        {current && <OutreachBadge status={current.status} at={current.createdAt} />}
+      </div>
+
+      {/* Contacts */}
+      <div className="space-y-1">
+        {isLoading ? (
+          <p className="text-xs text-gray-400">Loading contacts...</p>
+        ) : contacts.length === 0 ? (
+          <p className="text-xs text-gray-400">No contacts found yet.</p>
+        ) : (
+          contacts.map(contact => {
+            const href = contactHref(contact);
+            return (
+              <div key={contact.id} className="flex items-center gap-2 text-xs" title={contact.statusDetail || undefined}>
+                <span className="w-16 shrink-0 text-gray-400">{CONTACT_LABELS[contact.type]}</span>
+                {href ? (
+                  <a href={href} target="_blank" rel="noopener noreferrer" className={`truncate hover:underline ${STATUS_COLORS[contact.status]}`}>{contact.value}</a>
+                ) : (
+                  <span className={`truncate ${STATUS_COLORS[contact.status]}`}>{contact.value}</span>
+                )}
+                {contact.label && <span className="text-gray-400 truncate">({contact.label})</span>}
+                <span className="ml-auto shrink-0 text-gray-400 tabular-nums">{contact.confidence}%</span>
+              </div>
+            );
+          })
+        )}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <select value={newType} onChange={e => setNewType(e.target.value as ContactType)} className="form-input text-xs py-1 w-28">
+          {CONTACT_TYPES.map(type => <option key={type} value={type}>{CONTACT_LABELS[type]}</option>)}
+        </select>
+        <input
+          value={newValue}
+          onChange={e => setNewValue(e.target.value)}
+          placeholder="Add a contact"
+          className="form-input text-xs py-1 flex-1 min-w-0"
+        />
+        <button
+          onClick={() => addMutation.mutate()}
+          disabled={!newValue.trim() || addMutation.isLoading}
+          className="btn-outline text-xs px-3 py-1"
+        >
+          Add
+        </button>
+        <button
+          onClick={() => refreshMutation.mutate()}
+          disabled={refreshMutation.isLoading}
+          className="p-1 text-gray-400 hover:text-primary-500"
+          title="Re-check contacts"
+        >
+          <ArrowPathIcon className={`h-4 w-4 ${refreshMutation.isLoading ? 'animate-spin' : ''}`} />
+        </button>
+      </div>
+
+      {/* Outreach log */}
+      <div className="space-y-2 pt-2 border-t" style={{ borderColor: 'rgba(20, 28, 46, 0.1)' }}>
+        <div className="flex items-center gap-2">
+          <select value={contactId} onChange={e => setContactId(e.target.value)} className="form-input text-xs py-1 w-40">
+            <option value="">Any channel</option>
+            {usable.map(c => <option key={c.id} value={c.id}>{CONTACT_LABELS[c.type]}: {c.value}</option>)}
+          </select>
+          <input
+            value={note}
+            onChange={e => setNote(e.target.value)}
+            placeholder="Note (optional)"
+            className="form-input text-xs py-1 flex-1 min-w-0"
+          />
+        </div>
+        <div className="flex flex-wrap gap-1.5">
+          {OUTREACH_STATUSES.map(status => (
+            <button
+              key={status}
+              onClick={() => outreachMutation.mutate(status)}
+              disabled={outreachMutation.isLoading}
+              className={`px-2 py-1 rounded border text-[11px] font-semibold transition-opacity hover:opacity-80 ${OUTREACH_COLORS[status]}`}
+            >
+              {OUTREACH_LABELS[status]}
+            </button>
+          ))}
+        </div>
+        {history.length > 0 && (
+          <ul className="space-y-1 max-h-32 overflow-y-auto">
+            {history.map(event => (
+              <li key={event.id} className="flex items-start gap-2 text-[11px] text-gray-400">
+                <span className="shrink-0 tabular-nums">{new Date(event.createdAt).toLocaleDateString()}</span>
+                <span className="shrink-0 font-semibold">{OUTREACH_LABELS[event.status]}</span>
+                {event.contact && <span className="truncate">via {event.contact.value}</span>}
+                {event.note && <span className="truncate">- {event.note}</span>}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default CreatorOutreachPanel;
@@ -0,0 +1,347 @@
+import React, { useEffect, useState } from 'react';
+import {
+  ApiCreator,
+  deleteOutreachTemplate,
+  fetchOutreachBatches,
+  fetchOutreachTemplates,
+  fetchSmtpSettings,
+  OutreachBatch,
+  OutreachSendResult,
+  OutreachTemplate,
+  previewOutreachTemplate,
+  saveOutreachTemplate,
+  saveSmtpSettings,
+  sendOutreach,
+  SmtpSettingsInput,
+  testSmtpSettings,
+} from '../api';
+
+type Tab = 'compose' | 'smtp' | 'history';
+
+const NEW_TEMPLATE = '';
+
+const EMPTY_TEMPLATE = {
+  name: '',
+  subject: '{{campaignName}} x {{displayName}}',
+  body: 'Hi {{displayName}},\n\nWe loved your {{recentGame|streams}} on {{platform}} and would like to work with you on {{campaignName}}.\n\nBest,\n{{senderName}}',
+};
+
+const EMPTY_SMTP: SmtpSettingsInput = {
+  host: '',
+  port: 587,
+  secure: false,
+  username: '',
+  password: '',
+  fromName: '',
+  fromEmail: '',
+  replyTo: '',
+};
+
+const SKIP_LABELS: Record<OutreachSendResult['skipped'][number]['reason'], string> = {
+  not_found: 'not found',
+  no_email: 'no email',
+  opted_out: 'opted out',
+  already_queued: 'already queued',
+};
+
+const CloseIcon = () => (
+  <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><path d="M18 6L6 18M6 6l12 12" /></svg>
+);
+
+/**
+ * Templated outreach email to the creators in the current view, sent through
+ * the user's own SMTP account (replaces copying addresses one by one)
+ */
+const OutreachEmailModal: React.FC<{ creators: ApiCreator[]; onClose: () => void }> = ({ creators, onClose }) => {
+  const [tab, setTab] = useState<Tab>('compose');
+  const [error, setError] = useState<string | null>(null);
+
+  // Compose
+  const [templates, setTemplates] = useState<OutreachTemplate[]>([]);
+  const [mergeFields, setMergeFields] = useState<string[]>([]);
+  const [templateId, setTemplateId] = useState<string>(NEW_TEMPLATE);
+  const [draft, setDraft] = useState(EMPTY_TEMPLATE);
+  const [campaignName, setCampaignName] = useState('');
+  const [recipients, setRecipients] = useState<string[]>(() => creators.map(c => c.id));
+  const [preview, setPreview] = useState<{ to: string | null; subject: string; body: string } | null>(null);
+  const [result, setResult] = useState<OutreachSendResult | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  // SMTP
+  const [smtp, setSmtp] = useState<SmtpSettingsInput>(EMPTY_SMTP);
+  const [smtpSaved, setSmtpSaved] = useState<{ verifiedAt: string | null; hasPassword: boolean } | null>(null);
+
+  const [batches, setBatches] = useState<OutreachBatch[]>([]);
+
+  useEffect(() => {
+    fetchOutreachTemplates().then(({ templates, mergeFields }) => {
+      setTemplates(templates);
+      setMergeFields(mergeFields);
+    });
+    fetchSmtpSettings().then(settings => {
+      if (!settings) {
+        setTab('smtp');
+        return;
+      }
+      const { verifiedAt, hasPassword, ...fields } = settings;
+      setSmtp({ ...fields, fromName: fields.fromName || '', replyTo: fields.replyTo || '', password: '' });
+      setSmtpSaved({ verifiedAt, hasPassword });
+    });
+  }, []);
+
+  useEffect(() => {
+    if (tab === 'history') fetchOutreachBatches().then(setBatches);
+  }, [tab]);
+
+  const selectTemplate = (id: string) => {
+    setTemplateId(id);
+    setPreview(null);
+    const template = templates.find(t => t.id === id);
+    setDraft(template ? { name: template.name, subject: template.subject, body: template.body } : EMPTY_TEMPLATE);
+  };
+
+  const run = async <T,>(action: () => Promise<T>): Promise<T | null> => {
+    setBusy(true);
+    setError(null);
+    try {
+      return await action();
+    } catch (e: any) {
+      setError(e?.message || 'Request failed');
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // Save the draft first so what is previewed/sent is what is stored
+  const saveTemplate = async (): Promise<string | null> => {
+    const res = await run(() => saveOutreachTemplate(draft, templateId || undefined));
+    if (!res) return null;
+    if (!res.success) {
+      setError(res.error || 'Could not save template');
+      return null;
+    }
+    setTemplates(prev => [...prev.filter(t => t.id !== res.data.id), res.data].sort((a, b) => a.name.localeCompare(b.name)));
+    setTemplateId(res.data.id);
+    return res.data.id;
+  };
+
+  const handleDeleteTemplate = async () => {
+    if (!templateId || !window.confirm(`Delete template "${draft.name}"?`)) return;
+    await run(() => deleteOutreachTemplate(templateId));
+    setTemplates(prev => prev.filter(t => t.id !== templateId));
+    selectTemplate(NEW_TEMPLATE);
+  };
+
+  const handlePreview = async () => {
+    const id = await saveTemplate();
+    if (!id || recipients.length === 0) return;
+    const res = await run(() => previewOutreachTemplate(id, recipients[0], campaignName || undefined));
+    if (res?.success) setPreview(res.data);
+    else if (res) setError(res.error || 'Preview failed');
+  };
+
+  const handleSend = async () => {
+    if (!window.confirm(`Send "${draft.subject}" to ${recipients.length} creator${recipients.length === 1 ? '' : 's'}?`)) return;
+    const id = await saveTemplate();
+    if (!id) return;
+    const res = await run(() => sendOutreach(id, recipients, campaignName || undefined));
+    if (res?.success) setResult(res.data);
+    else if (res) setError(res.error || 'Send failed');
+  };
+
+  const handleSaveSmtp = async () => {
+    const { password, ...fields } = smtp;
+    const res = await run(() => saveSmtpSettings(password ? smtp : fields));
+    if (res?.success) {
+      setSmtpSaved({ verifiedAt: res.data.verifiedAt, hasPassword: res.data.hasPassword });
+      setSmtp(prev => ({ ...prev, password: '' }));
+    } else if (res) {
+      setError(res.error || 'Could not save SMTP settings');
+    }
+  };
+
+  const handleTestSmtp = async () => {
+    const res = await run(() => testSmtpSettings());
+    if (res?.success) setSmtpSaved({ verifiedAt: res.data.verifiedAt, hasPassword: res.data.hasPassword });
+    else if (res) setError(res.error || 'Connection failed');
+  };
+
+  const insertField = (field: string) => setDraft(prev => ({ ...prev, body: `${prev.body}{{${field}}}` }));
+
+  const toggleRecipient = (id: string) =>
+    setRecipients(prev => prev.includes(id) ? prev.filter(r => r !== id) : [...prev, id]);
+
+  const smtpField = (key: keyof SmtpSettingsInput, label: string, type = 'text', placeholder?: string) => (
+    <label className="outreach-field">
+      <span>{label}</span>
+      <input
+        type={type}
+        value={String(smtp[key] ?? '')}
+        placeholder={placeholder}
+        onChange={e => setSmtp(prev => ({ ...prev, [key]: type === 'number' ? parseInt(e.target.value, 10) || 0 : e.target.value }))}
+      />
+    </label>
+  );
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal outreach-modal" onClick={e => e.stopPropagation()}>
+        <button className="modal-close" onClick={onClose}><CloseIcon /></button>
+        <h2 className="outreach-title">Email outreach</h2>
+
+        <div className="outreach-tabs">
+          {(['compose', 'smtp', 'history'] as Tab[]).map(t => (
+            <button key={t} className={`chip ${tab === t ? 'selected' : ''}`} onClick={() => setTab(t)}>
+              {t === 'compose' ? 'Compose' : t === 'smtp' ? 'SMTP account' : 'Sent'}
+            </button>
+          ))}
+        </div>
+
+        {error && <div className="saved-search-error">{error}</div>}
+
+        {tab === 'compose' && (
+          result ? (
+            <div className="profile-section">
+              <h4>Queued</h4>
+              <p className="outreach-note">
+                {result.queued} email{result.queued === 1 ? '' : 's'} queued. They go out over the next minutes, throttled per sending domain.
+              </p>
+              {result.skipped.length > 0 && (
+                <ul className="outreach-list">
+                  {result.skipped.map(s => (
+                    <li key={s.streamerId}>
+                      {creators.find(c => c.id === s.streamerId)?.displayName || s.streamerId}: {SKIP_LABELS[s.reason]}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <button className="profile-btn secondary" onClick={() => { setResult(null); setTab('history'); }}>View sent</button>
+            </div>
+          ) : (
+            <>
+              <div className="profile-section">
+                <h4>Template</h4>
+                <div className="outreach-row">
+                  <select value={templateId} onChange={e => selectTemplate(e.target.value)}>
+                    <option value={NEW_TEMPLATE}>New template</option>
+                    {templates.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                  </select>
+                  {templateId && <button className="clear-all" onClick={handleDeleteTemplate}>Delete</button>}
+                </div>
+                <label className="outreach-field">
+                  <span>Name</span>
+                  <input value={draft.name} maxLength={100} onChange={e => setDraft(prev => ({ ...prev, name: e.target.value }))} />
+                </label>
+                <label className="outreach-field">
+                  <span>Subject</span>
+                  <input value={draft.subject} maxLength={300} onChange={e => setDraft(prev => ({ ...prev, subject: e.target.value }))} />
+                </label>
+                <label className="outreach-field">
+                  <span>Body</span>
+                  <textarea rows={8} value={draft.body} onChange={e => setDraft(prev => ({ ...prev, body: e.target.value }))} />
+                </label>
+                <div className="outreach-fields">
+                  {mergeFields.map(field => (
+                    <button key={field} type="button" className="profile-tag" onClick={() => insertField(field)}>{`{{${field}}}`}</button>
+                  ))}
+                </div>
+                <label className="outreach-field">
+                  <span>Campaign name</span>
+                  <input value={campaignName} maxLength={200} onChange={e => setCampaignName(e.target.value)} />
+                </label>
+              </div>
+
+              <div className="profile-section">
+                <h4>Recipients ({recipients.length} of {creators.length})</h4>
+                <ul className="outreach-list">
+                  {creators.map(c => (
+                    <li key={c.id}>
+                      <label>
+                        <input type="checkbox" checked={recipients.includes(c.id)} onChange={() => toggleRecipient(c.id)} />
+                        {c.displayName} <span className="outreach-muted">{c.businessEmail || c.email}</span>
+                      </label>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+
+              {preview && (
+                <div className="profile-section">
+                  <h4>Preview - to {preview.to || 'no address'}</h4>
+                  <div className="outreach-preview">
+                    <strong>{preview.subject}</strong>
+                    <p>{preview.body}</p>
+                  </div>
+                </div>
+              )}
+
+              <div className="profile-actions">
+                <button className="profile-btn secondary" onClick={handlePreview} disabled={busy || !draft.name.trim() || recipients.length === 0}>
+                  Preview
+                </button>
+                <button
+                  className="profile-btn primary"
+                  onClick={handleSend}
+                  disabled={busy || !draft.name.trim() || recipients.length === 0 || !smtpSaved}
+                  title={smtpSaved ? undefined : 'Set up your SMTP account first'}
+                >
+                  Send to {recipients.length}
+                </button>
+              </div>
+            </>
+          )
+        )}
+
+        {tab === 'smtp' && (
+          <div className="profile-section">
+            <h4>Your SMTP account</h4>
+            <p className="outreach-note">
+              Outreach is sent from your own mailbox. {smtpSaved?.verifiedAt
+                ? `Connection verified ${new Date(smtpSaved.verifiedAt).toLocaleString()}.`
+                : smtpSaved ? 'Not verified yet - test the connection.' : ''}
+            </p>
+            {smtpField('host', 'SMTP host', 'text', 'smtp.gmail.com')}
+            {smtpField('port', 'Port', 'number')}
+            <label className="outreach-field outreach-checkbox">
+              <input type="checkbox" checked={smtp.secure} onChange={e => setSmtp(prev => ({ ...prev, secure: e.target.checked }))} />
+              <span>TLS from the start (port 465)</span>
+            </label>
+            {smtpField('username', 'Username')}
+            {smtpField('password', 'Password', 'password', smtpSaved?.hasPassword ? 'Unchanged' : undefined)}
+            {smtpField('fromName', 'From name')}
+            {smtpField('fromEmail', 'From email', 'email')}
+            {smtpField('replyTo', 'Reply-to (optional)', 'email')}
+            <div className="profile-actions">
+              <button className="profile-btn secondary" onClick={handleTestSmtp} disabled={busy || !smtpSaved}>Test connection</button>
+              <button className="profile-btn primary" onClick={handleSaveSmtp} disabled={busy || !smtp.host || !smtp.fromEmail}>Save</button>
+            </div>
+          </div>
+        )}
+
+        {tab === 'history' && (
+          <div className="profile-section">
+            <h4>Recent sends</h4>
+            {batches.length === 0 ? (
+              <p className="outreach-note">Nothing sent yet.</p>
+            ) : (
+              <ul className="outreach-list">
+                {batches.map(batch => (
+                  <li key={batch.id}>
+                    <strong>{batch.campaignName || batch.template?.name || 'Outreach'}</strong>{' '}
+                    <span className="outreach-muted">{new Date(batch.createdAt).toLocaleString()}</span>
+                    <div className="outreach-muted">
+                      {Object.entries(batch.counts).map(([status, count]) => `${count} ${status.toLowerCase()}`).join(' · ') || 'no recipients'}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default OutreachEmailModal;
@@ -0,0 +1,390 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from 'react-query';
+import {
+  adminService,
+  CreatorTier,
+  PreviewCriteria,
+  RecommendationFactor,
+  RecommendationPreview,
+  RecommendationProfileConfig,
+} from '@/services/adminService';
+import { ArrowDownIcon, ArrowUpIcon, MinusIcon } from '@heroicons/react/24/outline';
+
+const FACTORS: { id: RecommendationFactor; label: string }[] = [
+  { id: 'verticalFit', label: 'Vertical fit' },
+  { id: 'historicalPerformance', label: 'Historical performance' },
+  { id: 'brandSafety', label: 'Brand safety' },
+  { id: 'budgetAlignment', label: 'Budget alignment' },
+  { id: 'userHistoryBonus', label: 'Similar to favorites' },
+];
+
+const TIERS: CreatorTier[] = ['nano', 'micro', 'mid', 'macro'];
+
+const errorMessage = (e: any): string => e?.response?.data?.error || e?.message || 'Request failed';
+
+const toList = (value: string): string[] => value.split(',').map(s => s.trim()).filter(Boolean);
+
+const pct = (n: number) => `${Math.round(n * 100)}%`;
+
+// Built-in defaults are edited as a new profile; saved ones are updated in place
+const BUILT_IN = '';
+
+const RecommendationProfilesPanel: React.FC = () => {
+  const queryClient = useQueryClient();
+  const [selected, setSelected] = useState<string>(BUILT_IN);
+  const [draft, setDraft] = useState<RecommendationProfileConfig | null>(null);
+  const [newSlug, setNewSlug] = useState('');
+  const [newName, setNewName] = useState('');
+  const [criteria, setCriteria] = useState<PreviewCriteria>({ vertical: 'casino', count: 20 });
+  const [preview, setPreview] = useState<RecommendationPreview | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const { data, isLoading } = useQuery(['admin-recommendation-profiles'], () => adminService.getRecommendationProfiles());
+  const profiles = data?.profiles || [];
+
+  const current = useMemo<RecommendationProfileConfig | null>(() => {
+    const profile = profiles.find(p => p.id === selected);
+    if (profile) {
+      const { weights, tierRanges, diversityTargets, rateCard, exclusions } = profile;
+      return { weights, tierRanges, diversityTargets, rateCard, exclusions };
+    }
+    return data?.defaults || null;
+  }, [profiles, selected, data]);
+
+  // Start every edit from the stored version of the selected profile
+  useEffect(() => {
+    setDraft(current ? JSON.parse(JSON.stringify(current)) : null);
+    setPreview(null);
+  }, [current]);
+
+  const previewMutation = useMutation(
+    () => adminService.previewRecommendationProfile(draft!, criteria, selected || undefined),
+    {
+      onSuccess: (result) => { setError(null); setPreview(result); },
+      onError: (e) => setError(errorMessage(e)),
+    }
+  );
+
+  const saveMutation = useMutation(
+    () => selected
+      ? adminService.updateRecommendationProfile(selected, draft!)
+      : adminService.createRecommendationProfile({ ...draft!, slug: newSlug, name: newName }),
+    {
+      onSuccess: (profile) => {
+        setError(null);
+        setSelected(profile.id);
+        setNewSlug('');
+        setNewName('');
+        queryClient.invalidateQueries(['admin-recommendation-profiles']);
+      },
+      onError: (e) => setError(errorMessage(e)),
+    }
+  );
+
+  const defaultMutation = useMutation(
+    (id: string) => adminService.updateRecommendationProfile(id, { isDefault: true }),
+    {
+      onSuccess: () => queryClient.invalidateQueries(['admin-recommendation-profiles']),
+      onError: (e) => setError(errorMessage(e)),
+    }
+  );
+
+  const deleteMutation = useMutation(
+    (id: string) => adminService.deleteRecommendationProfile(id),
+    {
+      onSuccess: () => {
+        setSelected(BUILT_IN);
+        queryClient.invalidateQueries(['admin-recommendation-profiles']);
+      },
+      onError: (e) => setError(errorMessage(e)),
+    }
+  );
+
+  if (isLoading || !draft) {
+    return <div className="card p-4 text-sm text-gray-400">Loading recommendation profiles…</div>;
+  }
+
+  const update = (patch: Partial<RecommendationProfileConfig>) => setDraft({ ...draft, ...patch });
+  const selectedProfile = profiles.find(p => p.id === selected);
+  const proposedById = new Map((preview?.proposed.recommendations || []).map(r => [r.id, r]));
+  const currentById = new Map((preview?.current.recommendations || []).map(r => [r.id, r]));
+
+  return (
+    <div className="grid grid-cols-1 gap-4">
+      <div className="card p-4">
+        <div className="flex flex-wrap items-end justify-between gap-3 mb-3">
+          <div>
+            <h3 className="font-semibold text-gray-100">Recommendation profiles</h3>
+            <p className="text-xs text-gray-400">Weights, tier mix, rate card and exclusions used by auto-recommendations</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <select className="form-input py-1 text-sm" value={selected} onChange={(e) => setSelected(e.target.value)}>
+              <option value={BUILT_IN}>Built-in default{profiles.some(p => p.isDefault) ? '' : ' (active)'}</option>
+              {profiles.map(p => (
+                <option key={p.id} value={p.id}>{p.name}{p.isDefault ? ' (default)' : ''}</option>
+              ))}
+            </select>
+            {selectedProfile && !selectedProfile.isDefault && (
+              <button className="btn-outline text-sm" disabled={defaultMutation.isLoading} onClick={() => defaultMutation.mutate(selectedProfile.id)}>
+                Make default
+              </button>
+            )}
+            {selectedProfile && (
+              <button
+                className="btn-outline text-sm text-red-400"
+                disabled={deleteMutation.isLoading}
+                onClick={() => window.confirm(`Delete profile "${selectedProfile.name}"?`) && deleteMutation.mutate(selectedProfile.id)}
+              >
+                Delete
+              </button>
+            )}
+          </div>
+        </div>
+
+        {error && <p className="text-sm text-red-400 mb-2">{error}</p>}
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <h4 className="text-sm font-medium text-gray-200 mb-2">Factor weights</h4>
+            {FACTORS.map(f => (
+              <label key={f.id} className="flex items-center justify-between gap-2 mb-1 text-sm text-gray-300">
+                {f.label}
+                <input
+                  type="number" min={0} step={0.05}
+                  className="form-input py-1 w-24 text-sm"
+                  value={draft.weights[f.id]}
+                  onChange={(e) => update({ weights: { ...draft.weights, [f.id]: Number(e.target.value) } })}
+                />
+              </label>
+            ))}
+            <p className="text-xs text-gray-500">Scaled to add up to 100% on save</p>
+          </div>
+
+          <div>
+            <h4 className="text-sm font-medium text-gray-200 mb-2">Tiers and mix</h4>
+            {TIERS.map(t => (
+              <div key={t} className="flex items-center gap-2 mb-1 text-sm text-gray-300">
+                <span className="w-12 capitalize">{t}</span>
+                <input
+                  type="number" min={0}
+                  className="form-input py-1 w-24 text-sm"
+                  title="Minimum followers"
+                  value={draft.tierRanges[t].min}
+                  onChange={(e) => update({ tierRanges: { ...draft.tierRanges, [t]: { ...draft.tierRanges[t], min: Number(e.target.value) } } })}
+                />
+                <input
+                  type="number" min={0} step={0.05}
+                  className="form-input py-1 w-20 text-sm"
+                  title="Share of results"
+                  value={draft.diversityTargets[t]}
+                  onChange={(e) => update({ diversityTargets: { ...draft.diversityTargets, [t]: Number(e.target.value) } })}
+                />
+              </div>
+            ))}
+            <p className="text-xs text-gray-500">Minimum followers, then share of results</p>
+          </div>
+
+          <div>
+            <h4 className="text-sm font-medium text-gray-200 mb-2">Rate card</h4>
+            {draft.rateCard.map((entry, i) => (
+              <div key={i} className="flex items-center gap-2 mb-1 text-sm text-gray-300">
+                <input
+                  type="number" min={0}
+                  className="form-input py-1 w-28 text-sm"
+                  placeholder="and above"
+                  title="Up to followers"
+                  value={entry.maxFollowers ?? ''}
+                  onChange={(e) => update({
+                    rateCard: draft.rateCard.map((r, j) => j === i ? { ...r, maxFollowers: e.target.value === '' ? null : Number(e.target.value) } : r),
+                  })}
+                />
+                <span>$</span>
+                <input
+                  type="number" min={0}
+                  className="form-input py-1 w-24 text-sm"
+                  title="Rate per stream"
+                  value={entry.rate}
+                  onChange={(e) => update({ rateCard: draft.rateCard.map((r, j) => j === i ? { ...r, rate: Number(e.target.value) } : r) })}
+                />
+                <button
+                  className="text-xs text-gray-500 hover:text-red-400"
+                  disabled={draft.rateCard.length === 1}
+                  onClick={() => update({ rateCard: draft.rateCard.filter((_, j) => j !== i) })}
+                >
+                  Remove
+                </button>
+              </div>
+            ))}
+            <button
+              className="text-xs text-primary-400 hover:underline"
+              onClick={() => update({ rateCard: [...draft.rateCard, { maxFollowers: null, rate: 0 }] })}
+            >
+              Add bracket
+            </button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mt-4">
+          <input
+            className="form-input text-sm"
+            placeholder="Excluded platforms (TWITCH, KICK…)"
+            defaultValue={(draft.exclusions.platforms || []).join(', ')}
+            key={`platforms-${selected}`}
+            onBlur={(e) => update({ exclusions: { ...draft.exclusions, platforms: toList(e.target.value) } })}
+          />
+          <input
+            className="form-input text-sm"
+            placeholder="Excluded regions"
+            defaultValue={(draft.exclusions.regions || []).join(', ')}
+            key={`regions-${selected}`}
+            onBlur={(e) => update({ exclusions: { ...draft.exclusions, regions: toList(e.target.value) } })}
+          />
+          <input
+            className="form-input text-sm"
+            placeholder="Excluded categories"
+            defaultValue={(draft.exclusions.categories || []).join(', ')}
+            key={`categories-${selected}`}
+            onBlur={(e) => update({ exclusions: { ...draft.exclusions, categories: toList(e.target.value) } })}
+          />
+          <label className="flex items-center gap-2 text-sm text-gray-300">
+            Min brand safety
+            <input
+              type="number" min={0} max={100}
+              className="form-input py-1 w-20 text-sm"
+              value={draft.exclusions.minBrandSafetyScore ?? ''}
+              onChange={(e) => update({
+                exclusions: { ...draft.exclusions, minBrandSafetyScore: e.target.value === '' ? undefined : Number(e.target.value) },
+              })}
+            />
+          </label>
+          <label className="flex items-center gap-2 text-sm text-gray-300">
+            <input
+              type="checkbox"
+              checked={!!draft.exclusions.excludeFlagged}
+              onChange={(e) => update({ exclusions: { ...draft.exclusions, excludeFlagged: e.target.checked } })}
+            />
+            Leave out fraud-flagged creators
+          </label>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 mt-4">
+          {!selected && (
+            <>
+              <input className="form-input py-1 text-sm w-40" placeholder="slug" value={newSlug} onChange={(e) => setNewSlug(e.target.value)} />
+              <input className="form-input py-1 text-sm w-48" placeholder="Profile name" value={newName} onChange={(e) => setNewName(e.target.value)} />
+            </>
+          )}
+          <button
+            className="btn-primary text-sm"
+            disabled={saveMutation.isLoading || (!selected && (!newSlug || !newName))}
+            onClick={() => saveMutation.mutate()}
+          >
+            {selected ? 'Save profile' : 'Save as new profile'}
+          </button>
+          <button className="btn-outline text-sm" onClick={() => current && setDraft(JSON.parse(JSON.stringify(current)))}>
+            Reset
+          </button>
+        </div>
+      </div>
+
+      <div className="card p-4">
+        <div className="flex flex-wrap items-end justify-between gap-3 mb-3">
+          <div>
+            <h3 className="font-semibold text-gray-100">Preview</h3>
+            <p className="text-xs text-gray-400">How the unsaved changes would reorder recommendations for a sample campaign</p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <input className="form-input py-1 text-sm w-28" placeholder="Vertical" value={criteria.vertical || ''} onChange={(e) => setCriteria({ ...criteria, vertical: e.target.value })} />
+            <input className="form-input py-1 text-sm w-28" placeholder="Region" value={criteria.region || ''} onChange={(e) => setCriteria({ ...criteria, region: e.target.value || undefined })} />
+            <input
+              type="number" min={0}
+              className="form-input py-1 text-sm w-28" placeholder="Budget"
+              value={criteria.budget ?? ''}
+              onChange={(e) => setCriteria({ ...criteria, budget: e.target.value === '' ? undefined : Number(e.target.value) })}
+            />
+            <input
+              type="number" min={1} max={100}
+              className="form-input py-1 text-sm w-20" title="Results"
+              value={criteria.count ?? 20}
+              onChange={(e) => setCriteria({ ...criteria, count: Number(e.target.value) })}
+            />
+            <button className="btn-primary text-sm" disabled={previewMutation.isLoading || !criteria.vertical} onClick={() => previewMutation.mutate()}>
+              {previewMutation.isLoading ? 'Scoring…' : 'Preview'}
+            </button>
+          </div>
+        </div>
+
+        {!preview && <p className="text-sm text-gray-500">Edit the profile above, then preview to compare rankings.</p>}
+        {preview && (
+          <div className="overflow-x-auto">
+            <table className="table table-compact table-striped w-full">
+              <thead>
+                <tr>
+                  <th>Proposed</th>
+                  <th>Current</th>
+                  <th>Creator</th>
+                  <th>Score</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-800">
+                {preview.changes.map(change => {
+                  const rec = proposedById.get(change.id) || currentById.get(change.id);
+                  const before = currentById.get(change.id);
+                  const after = proposedById.get(change.id);
+                  return (
+                    <React.Fragment key={change.id}>
+                      <tr className={change.proposedRank === null ? 'opacity-50' : ''}>
+                        <td className="text-gray-100">{change.proposedRank ?? '—'}</td>
+                        <td className="text-gray-400">
+                          <span className="flex items-center gap-1">
+                            {change.currentRank ?? '—'}
+                            {change.movement !== null && change.movement > 0 && <ArrowUpIcon className="h-3 w-3 text-green-400" />}
+                            {change.movement !== null && change.movement < 0 && <ArrowDownIcon className="h-3 w-3 text-red-400" />}
+                            {change.movement === 0 && <MinusIcon className="h-3 w-3 text-gray-500" />}
+                            {change.currentRank === null && <span className="text-xs text-green-400">new</span>}
+                            {change.proposedRank === null && <span className="text-xs text-red-400">dropped</span>}
+                          </span>
+                        </td>
+                        <td className="text-gray-100">
+                          {change.displayName}
+                          {rec && <span className="text-xs text-gray-500 ml-2">{rec.platform} · {rec.tier}</span>}
+                        </td>
+                        <td className="text-gray-300">
+                          {before ? before.score.toFixed(1) : '—'} → {after ? after.score.toFixed(1) : '—'}
+                        </td>
+                        <td className="text-right">
+                          <button className="text-xs text-primary-400 hover:underline" onClick={() => setExpanded(expanded === change.id ? null : change.id)}>
+                            {expanded === change.id ? 'Hide' : 'Why'}
+                          </button>
+                        </td>
+                      </tr>
+                      {expanded === change.id && rec && (
+                        <tr>
+                          <td colSpan={5}>
+                            <ul className="text-xs text-gray-400 space-y-1">
+                              {rec.explanation.map(e => (
+                                <li key={e.factor}>
+                                  <span className="text-gray-200">{FACTORS.find(f => f.id === e.factor)?.label || e.factor}</span>
+                                  {' '}{e.score.toFixed(0)}/100 × {pct(e.weight)} = {e.contribution.toFixed(1)}
+                                  {e.reasons.length > 0 && <span> — {e.reasons.join('; ')}</span>}
+                                </li>
+                              ))}
+                            </ul>
+                          </td>
+                        </tr>
+                      )}
+                    </React.Fragment>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RecommendationProfilesPanel;
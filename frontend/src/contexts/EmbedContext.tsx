@@ -1,5 +1,6 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import { useLocation } from 'react-router-dom';
+import { getEmbedToken, decodeEmbedToken } from '../utils/embedToken';
 
 interface SoftrUser {
   email: string | null;
@@ -10,7 +11,8 @@ interface SoftrUser {
 interface EmbedContextType {
   isEmbedMode: boolean;
   embedSource: 'iframe' | 'param' | 'softr' | null;
-  isValidReferrer: boolean;
+  embedToken: string | null;
+  hasEmbedToken: boolean;
   softrUser: SoftrUser;
 }
 
@@ -23,64 +25,51 @@ interface EmbedProviderProps {
 // Function to detect embed mode and Softr user info synchronously
 export const detectEmbedMode = () => {
   // Check URL parameter from hash since we use HashRouter
-  // URL format: http://localhost:3000/#/dashboard?embed=true&softrEmail=user@example.com&softrUserId=123
+  // URL format: http://localhost:3000/#/dashboard?embed=true&embedToken=<signed token>
   const hash = window.location.hash;
   const queryString = hash.includes('?') ? hash.split('?')[1] : '';
   const urlParams = new URLSearchParams(queryString);
-
-  // Get Softr user info from URL params
-  const softrEmail = urlParams.get('softrEmail') || urlParams.get('email');
-  const softrUserId = urlParams.get('softrUserId') || urlParams.get('userId');
-  const softrName = urlParams.get('softrName') || urlParams.get('name');
   const embedParam = urlParams.get('embed') === 'true';
 
   // Check if in iframe
   const inIframe = window.self !== window.top;
 
-  // Determine embed mode - Softr info means valid embed
-  const hasSoftrInfo = !!(softrEmail || softrUserId);
-  const embedDetected = embedParam || inIframe || hasSoftrInfo;
+  // The user comes from the signed embed token (verified by the API); unsigned
+  // softrEmail/softrUserId params are no longer trusted
+  const embedToken = getEmbedToken();
+  const claims = decodeEmbedToken(embedToken);
+  const hasEmbedToken = !!claims;
+  const embedDetected = embedParam || inIframe || hasEmbedToken;
 
   let source: 'iframe' | 'param' | 'softr' | null = null;
-  if (hasSoftrInfo) source = 'softr';
+  if (hasEmbedToken) source = 'softr';
   else if (embedParam) source = 'param';
   else if (inIframe) source = 'iframe';
 
-  // Validate referrer for security
-  const referrer = document.referrer;
-  const allowedDomains = (import.meta as any)?.env?.VITE_ALLOWED_EMBED_DOMAINS || 'softr.app,softr.io,softr.website,envisioner.io,localhost,vercel.app';
-  const domains = allowedDomains.split(',').map((d: string) => d.trim().toLowerCase());
-
-  // Valid if Softr info provided, or referrer matches allowed domains, or no referrer (for testing)
-  const isValid = hasSoftrInfo || domains.some((domain: string) =>
-    referrer.toLowerCase().includes(domain)
-  ) || !referrer;
-
   const softrUser: SoftrUser = {
-    email: softrEmail,
-    userId: softrUserId,
-    name: softrName,
+    email: claims?.email ?? null,
+    userId: claims?.email ?? null,
+    name: claims?.name ?? null,
   };
 
   const result = {
     isEmbedMode: embedDetected || true, // Always embed mode for Softr-only
     embedSource: source,
-    isValidReferrer: isValid,
+    embedToken,
+    hasEmbedToken,
     softrUser,
   };
 
-  // Store in sessionStorage
-  sessionStorage.setItem('envisioner_embed_mode', JSON.stringify(result));
+  // Store in sessionStorage (the token itself is stored separately by utils/embedToken)
+  sessionStorage.setItem('envisioner_embed_mode', JSON.stringify({ ...result, embedToken: undefined }));
 
   // Debug logging
   if (import.meta.env.MODE === 'development') {
     console.log('🔌 EMBED MODE (Softr):', {
       isEmbedMode: result.isEmbedMode,
       source,
-      referrer,
-      isValidReferrer: isValid,
+      hasEmbedToken,
       softrUser,
-      allowedDomains: domains,
     });
   }
 
@@ -93,7 +82,7 @@ const initialEmbedState = detectEmbedMode();
 // Singleton for accessing embed state outside React
 let embedModeState = {
   isEmbedMode: initialEmbedState.isEmbedMode,
-  isValidReferrer: initialEmbedState.isValidReferrer,
+  hasEmbedToken: initialEmbedState.hasEmbedToken,
   softrUser: initialEmbedState.softrUser,
 };
 
@@ -105,7 +94,7 @@ export const EmbedProvider: React.FC<EmbedProviderProps> = ({ children }) => {
   // Initialize state synchronously with detected values
   const [isEmbedMode, setIsEmbedMode] = useState(initialEmbedState.isEmbedMode);
   const [embedSource, setEmbedSource] = useState<'iframe' | 'param' | 'softr' | null>(initialEmbedState.embedSource);
-  const [isValidReferrer, setIsValidReferrer] = useState(initialEmbedState.isValidReferrer);
+  const [embedToken, setEmbedTokenState] = useState<string | null>(initialEmbedState.embedToken);
   const [softrUser, setSoftrUser] = useState<SoftrUser>(initialEmbedState.softrUser);
 
   // Re-detect embed mode whenever the location changes
@@ -113,12 +102,12 @@ export const EmbedProvider: React.FC<EmbedProviderProps> = ({ children }) => {
     const newState = detectEmbedMode();
     setIsEmbedMode(newState.isEmbedMode);
     setEmbedSource(newState.embedSource);
-    setIsValidReferrer(newState.isValidReferrer);
+    setEmbedTokenState(newState.embedToken);
     setSoftrUser(newState.softrUser);
 
     embedModeState = {
       isEmbedMode: newState.isEmbedMode,
-      isValidReferrer: newState.isValidReferrer,
+      hasEmbedToken: newState.hasEmbedToken,
       softrUser: newState.softrUser,
     };
   }, [location]);
@@ -126,7 +115,8 @@ export const EmbedProvider: React.FC<EmbedProviderProps> = ({ children }) => {
   const value: EmbedContextType = {
     isEmbedMode,
     embedSource,
-    isValidReferrer,
+    embedToken,
+    hasEmbedToken: !!decodeEmbedToken(embedToken),
     softrUser,
   };
 
@@ -27,7 +27,7 @@ interface AuthProviderProps {
 export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
-  const { isEmbedMode, isValidReferrer, softrUser } = useEmbed();
+  const { isEmbedMode, hasEmbedToken, softrUser } = useEmbed();
 
   const isAuthenticated = !!user;
 
@@ -52,7 +52,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         if (import.meta.env.MODE === 'development') {
           console.log('🔐 AUTH: Softr user authenticated', { softrUser });
         }
-      } else if (isEmbedMode && isValidReferrer) {
+      } else if (isEmbedMode && hasEmbedToken) {
         // Fallback: valid embed without specific user info
         setUser({
           id: 'embed-user',
@@ -63,7 +63,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         });
 
         if (import.meta.env.MODE === 'development') {
-          console.log('🔐 AUTH: Embed user (no Softr info)', { isEmbedMode, isValidReferrer });
+          console.log('🔐 AUTH: Embed user (no Softr info)', { isEmbedMode, hasEmbedToken });
         }
       } else {
         // No valid auth - for Softr-only, this shouldn't happen in production
@@ -84,7 +84,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     };
 
     initializeAuth();
-  }, [isEmbedMode, isValidReferrer, softrUser]);
+  }, [isEmbedMode, hasEmbedToken, softrUser]);
 
   // Stub login - not used in Softr-only mode
   const login = async (_email: string, _password: string) => {
@@ -1,16 +1,50 @@
 import React, { useState } from 'react';
-import { Cog6ToothIcon, ServerStackIcon, UsersIcon, ClockIcon, CloudArrowDownIcon, HashtagIcon, EnvelopeIcon, ShieldCheckIcon } from '@heroicons/react/24/outline';
+import { useQuery, useMutation, useQueryClient } from 'react-query';
+import { adminService, AdminUser } from '@/services/adminService';
+import { UserRole } from '@/types';
+import RecommendationProfilesPanel from '@/components/RecommendationProfilesPanel';
+import { AdjustmentsHorizontalIcon, Cog6ToothIcon, ServerStackIcon, UsersIcon, ClockIcon, CloudArrowDownIcon, HashtagIcon, EnvelopeIcon, ShieldCheckIcon } from '@heroicons/react/24/outline';
 
 const tabs = [
   { id: 'users', name: 'Users', icon: UsersIcon },
+  { id: 'recommendations', name: 'Recommendations', icon: AdjustmentsHorizontalIcon },
   { id: 'scraping', name: 'Scraping', icon: CloudArrowDownIcon },
   { id: 'scheduler', name: 'Scheduler', icon: ClockIcon },
   { id: 'system', name: 'System', icon: ServerStackIcon },
   { id: 'settings', name: 'Settings', icon: Cog6ToothIcon },
 ];
 
+const ROLES: { value: UserRole; label: string }[] = [
+  { value: 'ADMIN', label: 'Admin' },
+  { value: 'ANALYST', label: 'Analyst' },
+  { value: 'VIEWER', label: 'Viewer' },
+];
+
+const errorMessage = (e: any): string => e?.response?.data?.error || e?.message || 'Request failed';
+
 const AdminPage: React.FC = () => {
   const [active, setActive] = useState<string>('users');
+  const [roleError, setRoleError] = useState<string | null>(null);
+  const queryClient = useQueryClient();
+
+  const { data: users = [], isLoading: usersLoading, error: usersError } = useQuery(
+    ['admin-users'],
+    () => adminService.getUsers(),
+    { enabled: active === 'users' }
+  );
+
+  const roleMutation = useMutation(
+    ({ id, role }: { id: string; role: UserRole }) => adminService.updateUserRole(id, role),
+    {
+      onSuccess: () => {
+        setRoleError(null);
+        queryClient.invalidateQueries(['admin-users']);
+      },
+      onError: (e) => setRoleError(errorMessage(e)),
+    }
+  );
+
+  const displayName = (u: AdminUser) => [u.firstName, u.lastName].filter(Boolean).join(' ') || '—';
 
   return (
     <div className="max-w-6xl mx-auto">
@@ -43,12 +77,12 @@ const AdminPage: React.FC = () => {
             <div className="flex items-center justify-between mb-3">
               <div>
                 <h3 className="font-semibold text-gray-100">Users</h3>
-                <p className="text-xs text-gray-400">Manage users and roles (placeholder)</p>
-              </div>
-              <div className="flex items-center gap-2">
-                <button className="btn-primary" disabled>Invite User</button>
+                <p className="text-xs text-gray-400">Admins manage imports and roles, analysts edit creators and campaigns, viewers search only</p>
               </div>
             </div>
+            {(roleError || !!usersError) && (
+              <p className="text-sm text-red-400 mb-2">{roleError || errorMessage(usersError)}</p>
+            )}
             <div className="overflow-x-auto">
               <table className="table table-fixed table-compact table-striped w-full">
                 <thead>
@@ -61,13 +95,27 @@ const AdminPage: React.FC = () => {
                   </tr>
                 </thead>
                 <tbody className="divide-y divide-gray-200 dark:divide-gray-800">
-                  {['Alice','Bruno','Carla','Diego','Emilia'].map((n, i) => (
-                    <tr key={i}>
+                  {usersLoading && (
+                    <tr><td colSpan={5} className="text-gray-400 text-sm">Loading users…</td></tr>
+                  )}
+                  {users.map((u, i) => (
+                    <tr key={u.id}>
                       <td className="text-gray-400 text-sm">{i+1}</td>
-                      <td className="text-gray-100">{n} Rivera</td>
-                      <td className="text-gray-300">{n.toLowerCase()}@miela.cc</td>
-                      <td className="text-gray-300">{i%2===0 ? 'Admin' : 'Manager'}</td>
-                      <td className="text-right"><button className="btn-outline text-xs" disabled>Manage</button></td>
+                      <td className="text-gray-100">{displayName(u)}</td>
+                      <td className="text-gray-300">{u.email}</td>
+                      <td className="text-gray-300">
+                        <select
+                          className="form-input py-1 text-sm"
+                          value={u.role}
+                          disabled={roleMutation.isLoading}
+                          onChange={(e) => roleMutation.mutate({ id: u.id, role: e.target.value as UserRole })}
+                        >
+                          {ROLES.map(r => <option key={r.value} value={r.value}>{r.label}</option>)}
+                        </select>
+                      </td>
+                      <td className="text-right text-xs text-gray-400">
+                        {u.lastLogin ? `Last login ${new Date(u.lastLogin).toLocaleDateString()}` : 'Never logged in'}
+                      </td>
                     </tr>
                   ))}
                 </tbody>
@@ -77,6 +125,8 @@ const AdminPage: React.FC = () => {
         </div>
       )}
 
+      {active === 'recommendations' && <RecommendationProfilesPanel />}
+
       {active === 'scraping' && (
         <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
           <div className="card p-4">
@@ -1,8 +1,365 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
+import { useQuery, useQueryClient, useMutation } from 'react-query';
+import { formatDistanceToNow } from 'date-fns';
+import { PlusIcon, TrashIcon, MegaphoneIcon, UsersIcon, EyeIcon, CalendarIcon, BanknotesIcon } from '@heroicons/react/24/outline';
+import { Modal } from '@/components/Modal';
+import { SearchInput } from '@/components/SearchInput';
+import { getStreamerAvatar } from '@/utils/avatars';
+import { streamerService } from '@/services/streamerService';
+import { campaignService, Campaign, CampaignInput, CampaignAssignment, AssignmentStatus } from '@/services/campaignService';
+
+const STATUS_STYLES: Record<AssignmentStatus, string> = {
+  PENDING: 'badge-warning',
+  ACTIVE: 'badge-success',
+  COMPLETED: 'badge-info',
+  CANCELLED: 'badge-gray',
+};
+
+const formatCount = (n: number | null | undefined): string => {
+  if (n === null || n === undefined || !isFinite(n)) return '-';
+  if (n >= 1_000_000) return `${(n / 1_000_000).toFixed(1)}m`;
+  if (n >= 1_000) return `${(n / 1_000).toFixed(1)}k`;
+  return n.toLocaleString();
+};
+
+const formatDate = (d: string | null): string => (d ? new Date(d).toLocaleDateString() : '—');
+
+const emptyForm: CampaignInput = { name: '', description: '', budget: null, startDate: null, endDate: null, isActive: true };
+
+const errorMessage = (e: any): string => e?.response?.data?.error || e?.message || 'Request failed';
 
 const CampaignsPage: React.FC = () => {
+  const queryClient = useQueryClient();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState<AssignmentStatus | ''>('');
+  const [createOpen, setCreateOpen] = useState(false);
+  const [form, setForm] = useState<CampaignInput>(emptyForm);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [creatorSearch, setCreatorSearch] = useState('');
+  const [debouncedCreatorSearch, setDebouncedCreatorSearch] = useState('');
+  const [assignError, setAssignError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedCreatorSearch(creatorSearch.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [creatorSearch]);
+
+  const { data: stats } = useQuery(['campaign-stats'], () => campaignService.getStats(), { staleTime: 30 * 1000 });
+
+  const { data: campaigns = [], isLoading } = useQuery(['campaigns'], () => campaignService.getCampaigns());
+
+  useEffect(() => {
+    if (!selectedId && campaigns.length > 0) setSelectedId(campaigns[0].id);
+  }, [campaigns, selectedId]);
+
+  const selected: Campaign | undefined = campaigns.find(c => c.id === selectedId);
+
+  const { data: assignments = [], isLoading: assignmentsLoading } = useQuery(
+    ['campaign-streamers', selectedId, statusFilter],
+    () => campaignService.getAssignments(selectedId as string, statusFilter || undefined),
+    { enabled: !!selectedId, refetchInterval: 60 * 1000 }
+  );
+
+  const { data: searchResults } = useQuery(
+    ['campaign-creator-search', debouncedCreatorSearch],
+    () => streamerService.getStreamers({ search: debouncedCreatorSearch, limit: 8 }),
+    { enabled: debouncedCreatorSearch.length >= 2 }
+  );
+
+  const invalidate = () => {
+    queryClient.invalidateQueries(['campaigns']);
+    queryClient.invalidateQueries(['campaign-stats']);
+    queryClient.invalidateQueries(['campaign-streamers', selectedId]);
+  };
+
+  const createMutation = useMutation((input: CampaignInput) => campaignService.createCampaign(input), {
+    onSuccess: (campaign) => {
+      setCreateOpen(false);
+      setForm(emptyForm);
+      setSelectedId(campaign.id);
+      invalidate();
+    },
+    onError: (e: any) => setFormError(errorMessage(e)),
+  });
+
+  const deleteMutation = useMutation((id: string) => campaignService.deleteCampaign(id), {
+    onSuccess: () => {
+      setSelectedId(null);
+      invalidate();
+    },
+  });
+
+  const toggleActiveMutation = useMutation((c: Campaign) => campaignService.updateCampaign(c.id, { isActive: !c.isActive }), {
+    onSuccess: invalidate,
+  });
+
+  const assignMutation = useMutation(
+    ({ streamerId, force }: { streamerId: string; force?: boolean }) =>
+      campaignService.assignStreamer(selectedId as string, streamerId, { force }),
+    {
+      onSuccess: () => {
+        setAssignError(null);
+        setCreatorSearch('');
+        invalidate();
+      },
+      onError: (e: any) => {
+        const failed = e?.response?.data?.failedRules as Array<{ rule: { field: string; operator: string; value: any } }> | undefined;
+        if (failed?.length) {
+          setAssignError(`Fails rules: ${failed.map(f => `${f.rule.field} ${f.rule.operator} ${JSON.stringify(f.rule.value)}`).join(', ')}`);
+        } else {
+          setAssignError(errorMessage(e));
+        }
+      },
+    }
+  );
+
+  const statusMutation = useMutation(
+    ({ streamerId, status }: { streamerId: string; status: AssignmentStatus }) =>
+      campaignService.updateAssignmentStatus(selectedId as string, streamerId, status),
+    { onSuccess: invalidate }
+  );
+
+  const unassignMutation = useMutation((streamerId: string) => campaignService.unassignStreamer(selectedId as string, streamerId), {
+    onSuccess: invalidate,
+  });
+
+  const submitCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    setFormError(null);
+    createMutation.mutate({
+      ...form,
+      budget: form.budget ? Number(form.budget) : null,
+      startDate: form.startDate || null,
+      endDate: form.endDate || null,
+    });
+  };
+
   return (
     <div className="max-w-6xl mx-auto">
+      <div className="mb-6 flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-gray-100 mb-2">Campaigns</h1>
+          <p className="text-gray-600 dark:text-gray-400">Create campaigns, assign creators and follow them live.</p>
+        </div>
+        <button className="btn-primary flex items-center gap-2" onClick={() => { setFormError(null); setCreateOpen(true); }}>
+          <PlusIcon className="h-4 w-4" /> New Campaign
+        </button>
+      </div>
+
+      {/* Stats */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+        {[
+          { label: 'Open campaigns', value: stats ? `${stats.openCampaigns}/${stats.totalCampaigns}` : '--' },
+          { label: 'Active budget', value: stats ? `$${stats.activeBudget.toLocaleString()}` : '--' },
+          { label: 'Active creators', value: stats ? stats.assignments.ACTIVE.toLocaleString() : '--' },
+          { label: 'Live right now', value: stats ? stats.liveAssigned.toLocaleString() : '--' },
+        ].map((m) => (
+          <div key={m.label} className="card p-4">
+            <p className="text-sm text-gray-500 dark:text-gray-400">{m.label}</p>
+            <p className="text-2xl font-semibold text-gray-900 dark:text-gray-100">{m.value}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {/* Campaign list */}
+        <div className="card p-4 md:col-span-1">
+          <h3 className="font-semibold text-gray-900 dark:text-gray-100 mb-3 flex items-center gap-2">
+            <MegaphoneIcon className="h-4 w-4" /> Campaigns
+          </h3>
+          {isLoading && <p className="text-sm text-gray-500">Loading campaigns...</p>}
+          {!isLoading && campaigns.length === 0 && <p className="text-sm text-gray-500">No campaigns yet.</p>}
+          <div className="space-y-2">
+            {campaigns.map((c) => (
+              <button
+                key={c.id}
+                onClick={() => setSelectedId(c.id)}
+                className={`w-full text-left rounded-lg border p-3 transition-colors ${
+                  c.id === selectedId
+                    ? 'border-primary-600 bg-primary-600/10'
+                    : 'border-gray-200 hover:bg-gray-50 dark:border-gray-800 dark:hover:bg-gray-800'
+                }`}
+              >
+                <div className="flex items-center justify-between">
+                  <span className="font-medium text-gray-900 dark:text-gray-100 truncate">{c.name}</span>
+                  <span className={`badge ${c.isOpen ? 'badge-success' : 'badge-gray'}`}>{c.isOpen ? 'Open' : 'Closed'}</span>
+                </div>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                  {c.assignedCount ?? 0} creators · {formatDate(c.startDate)} → {formatDate(c.endDate)}
+                </p>
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Campaign detail */}
+        <div className="card p-4 md:col-span-2">
+          {!selected && <p className="text-sm text-gray-500">Select a campaign to see its creators.</p>}
+          {selected && (
+            <>
+              <div className="flex items-start justify-between mb-4">
+                <div>
+                  <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">{selected.name}</h3>
+                  <p className="text-sm text-gray-600 dark:text-gray-400">{selected.description}</p>
+                  <div className="flex flex-wrap gap-3 mt-2 text-xs text-gray-500 dark:text-gray-400">
+                    <span className="flex items-center gap-1"><CalendarIcon className="h-3 w-3" />{formatDate(selected.startDate)} → {formatDate(selected.endDate)}</span>
+                    <span className="flex items-center gap-1"><BanknotesIcon className="h-3 w-3" />{selected.budget ? `$${selected.budget.toLocaleString()}` : 'No budget'}</span>
+                    {selected.rules?.length > 0 && <span>{selected.rules.length} rule(s)</span>}
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <button className="btn-outline text-xs" onClick={() => toggleActiveMutation.mutate(selected)}>
+                    {selected.isActive ? 'Deactivate' : 'Activate'}
+                  </button>
+                  <button
+                    className="btn-danger text-xs"
+                    onClick={() => {
+                      if (window.confirm(`Delete campaign "${selected.name}" and all its assignments?`)) {
+                        deleteMutation.mutate(selected.id);
+                      }
+                    }}
+                  >
+                    <TrashIcon className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+
+              {/* Assign creator */}
+              {selected.isOpen && (
+                <div className="mb-4 relative">
+                  <SearchInput value={creatorSearch} onChange={(e) => setCreatorSearch(e.target.value)} placeholder="Search creators to assign..." />
+                  {debouncedCreatorSearch.length >= 2 && searchResults && searchResults.items.length > 0 && (
+                    <div className="absolute z-10 mt-1 w-full rounded-lg border border-gray-200 bg-white shadow-lg dark:border-gray-800 dark:bg-gray-900">
+                      {searchResults.items.map((s) => (
+                        <button
+                          key={s.id}
+                          className="w-full flex items-center justify-between px-3 py-2 text-sm hover:bg-gray-50 dark:hover:bg-gray-800"
+                          onClick={() => assignMutation.mutate({ streamerId: s.id })}
+                        >
+                          <span className="text-gray-900 dark:text-gray-100">{s.displayName} <span className="text-gray-500">· {s.platform.toLowerCase()}</span></span>
+                          <span className="text-gray-500">{formatCount(s.followers)} followers</span>
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                  {assignError && (
+                    <div className="mt-2 flex items-center gap-2 text-xs text-red-500">
+                      <span>{assignError}</span>
+                      {assignMutation.variables && (
+                        <button className="underline" onClick={() => assignMutation.mutate({ streamerId: assignMutation.variables!.streamerId, force: true })}>
+                          Assign anyway
+                        </button>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {/* Status filter */}
+              <div className="flex gap-2 mb-3">
+                {(['', 'PENDING', 'ACTIVE', 'COMPLETED', 'CANCELLED'] as const).map((s) => (
+                  <button
+                    key={s || 'ALL'}
+                    onClick={() => setStatusFilter(s)}
+                    className={`px-3 py-1 rounded-lg text-xs border transition-colors ${
+                      statusFilter === s
+                        ? 'bg-primary-600 text-white border-primary-600'
+                        : 'border-gray-300 text-gray-700 hover:bg-gray-50 dark:border-gray-700 dark:text-gray-300 dark:hover:bg-gray-800'
+                    }`}
+                  >
+                    {s || 'All'}
+                  </button>
+                ))}
+              </div>
+
+              <div className="overflow-x-auto">
+                <table className="table table-compact table-striped w-full">
+                  <thead>
+                    <tr>
+                      <th><span className="th"><UsersIcon />Creator</span></th>
+                      <th><span className="th">Followers</span></th>
+                      <th><span className="th"><EyeIcon />Live</span></th>
+                      <th><span className="th">Avg viewers</span></th>
+                      <th><span className="th">Status</span></th>
+                      <th></th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200 dark:divide-gray-800">
+                    {assignmentsLoading && (
+                      <tr><td colSpan={6} className="text-sm text-gray-500">Loading creators...</td></tr>
+                    )}
+                    {!assignmentsLoading && assignments.length === 0 && (
+                      <tr><td colSpan={6} className="text-sm text-gray-500">No creators assigned.</td></tr>
+                    )}
+                    {assignments.map((a: CampaignAssignment) => (
+                      <tr key={a.id}>
+                        <td>
+                          <a href={a.streamer.profileUrl} target="_blank" rel="noreferrer" className="flex items-center gap-2">
+                            <img src={getStreamerAvatar(a.streamer as any)} alt="" className="h-7 w-7 rounded-full" />
+                            <span className="text-gray-900 dark:text-gray-100">{a.streamer.displayName}</span>
+                          </a>
+                        </td>
+                        <td className="text-gray-700 dark:text-gray-300">{formatCount(a.streamer.followers)}</td>
+                        <td className="text-gray-700 dark:text-gray-300">
+                          {a.streamer.isLive
+                            ? <span className="text-accent font-semibold">{formatCount(a.streamer.currentViewers)} · {a.streamer.currentGame || 'Live'}</span>
+                            : a.streamer.lastSeenLive
+                              ? formatDistanceToNow(new Date(a.streamer.lastSeenLive), { addSuffix: true })
+                              : '—'}
+                        </td>
+                        <td className="text-gray-700 dark:text-gray-300">{formatCount(a.streamer.avgViewers)}</td>
+                        <td>
+                          <select
+                            className={`badge ${STATUS_STYLES[a.status]}`}
+                            value={a.status}
+                            disabled={a.allowedTransitions.length === 0}
+                            onChange={(e) => statusMutation.mutate({ streamerId: a.streamerId, status: e.target.value as AssignmentStatus })}
+                          >
+                            {[a.status, ...a.allowedTransitions].map((s) => (
+                              <option key={s} value={s}>{s}</option>
+                            ))}
+                          </select>
+                        </td>
+                        <td className="text-right">
+                          <button className="btn-outline text-xs" onClick={() => unassignMutation.mutate(a.streamerId)}>Unassign</button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+
+      <Modal
+        open={createOpen}
+        title="New Campaign"
+        onClose={() => setCreateOpen(false)}
+        footer={
+          <>
+            <button className="btn-outline" onClick={() => setCreateOpen(false)}>Cancel</button>
+            <button className="btn-primary" type="submit" form="campaign-form" disabled={createMutation.isLoading}>
+              {createMutation.isLoading ? 'Saving...' : 'Create'}
+            </button>
+          </>
+        }
+      >
+        <form id="campaign-form" className="grid grid-cols-1 md:grid-cols-2 gap-3" onSubmit={submitCreate}>
+          <input className="form-input md:col-span-2" placeholder="Campaign name" required value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+          <textarea className="form-input md:col-span-2" placeholder="Description" required value={form.description} onChange={(e) => setForm({ ...form, description: e.target.value })} />
+          <input className="form-input" type="number" min="0" step="0.01" placeholder="Budget" value={form.budget ?? ''} onChange={(e) => setForm({ ...form, budget: e.target.value ? Number(e.target.value) : null })} />
+          <div />
+          <label className="text-xs text-gray-500">Start date
+            <input className="form-input" type="date" value={form.startDate ?? ''} onChange={(e) => setForm({ ...form, startDate: e.target.value || null })} />
+          </label>
+          <label className="text-xs text-gray-500">End date
+            <input className="form-input" type="date" value={form.endDate ?? ''} onChange={(e) => setForm({ ...form, endDate: e.target.value || null })} />
+          </label>
+          {formError && <p className="text-xs text-red-500 md:col-span-2">{formError}</p>}
+        </form>
+      </Modal>
     </div>
   );
 };
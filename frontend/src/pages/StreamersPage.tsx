@@ -12,7 +12,8 @@ import { streamerService } from '@/services/streamerService';
 import { subscribeToLiveStatusUpdates } from '@/utils/socket';
 import { useLanguage } from '@/contexts/LanguageContext';
 import { useLiveCount } from '@/contexts/LiveCountContext';
-import { fetchFavoriteIds, toggleFavorite, fetchDiscardedIds, toggleDiscarded, fetchNotesMap, saveNote as apiSaveNote, USER_ID } from '@/api';
+import { fetchFavoriteIds, toggleFavorite, fetchDiscardedIds, toggleDiscarded, fetchNotesMap, saveNote as apiSaveNote, USER_ID, CONTACT_TYPES, OUTREACH_STATUSES } from '@/api';
+import CreatorOutreachPanel, { CONTACT_LABELS, CreatorReachChips, OUTREACH_LABELS } from '@/components/CreatorOutreachPanel';
 
 // Compact number formatter for followers/viewers (e.g., 12.3k, 1.2m)
 const formatCount = (val: any): string => {
@@ -76,6 +77,8 @@ const StreamersPage: React.FC = () => {
   const [favoritesOnly, setFavoritesOnly] = useState(false);
   const [discardedOnly, setDiscardedOnly] = useState(false);
   const [hasEmailFilter, setHasEmailFilter] = useState(false);
+  const [contactTypeFilter, setContactTypeFilter] = useState<string>('');
+  const [outreachFilter, setOutreachFilter] = useState<string>('');
   const queryClient = useQueryClient();
 
   // Fetch favorite, discarded IDs, and notes
@@ -197,9 +200,9 @@ const StreamersPage: React.FC = () => {
     }
   };
   const { data: listData, isLoading } = useQuery(
-    ['streamers', { page, limit, sort, dir, search: debouncedSearch, platform: platformFilter, region: regionFilter, category: categoryFilter, favoritesOnly, discardedOnly, hasEmailFilter }],
+    ['streamers', { page, limit, sort, dir, search: debouncedSearch, platform: platformFilter, region: regionFilter, category: categoryFilter, favoritesOnly, discardedOnly, hasEmailFilter, contactTypeFilter, outreachFilter }],
     () => {
-      console.log('Fetching streamers with filters:', { page, limit, sort, dir, search: debouncedSearch, platform: platformFilter, region: regionFilter, category: categoryFilter, favoritesOnly, discardedOnly, hasEmailFilter });
+      console.log('Fetching streamers with filters:', { page, limit, sort, dir, search: debouncedSearch, platform: platformFilter, region: regionFilter, category: categoryFilter, favoritesOnly, discardedOnly, hasEmailFilter, contactTypeFilter, outreachFilter });
       return streamerService.getStreamers({
         page,
         limit,
@@ -212,6 +215,8 @@ const StreamersPage: React.FC = () => {
         favoritesOnly: favoritesOnly || undefined,
         discardedOnly: discardedOnly || undefined,
         hasEmail: hasEmailFilter || undefined,
+        contactType: contactTypeFilter || undefined,
+        outreachStatus: outreachFilter || undefined,
         userId: USER_ID,
       });
     },
@@ -435,6 +440,35 @@ const StreamersPage: React.FC = () => {
                   </svg>
                   <span className="hidden sm:inline">Has Email</span>
                 </button>
+                <select
+                  value={contactTypeFilter}
+                  onChange={(e) => {
+                    setContactTypeFilter(e.target.value);
+                    setPage(1);
+                  }}
+                  className="px-2 py-1.5 rounded-lg text-xs font-semibold bg-gray-800/60 text-gray-400 border border-gray-700"
+                  title="Show only creators reachable on this channel"
+                >
+                  <option value="">Any channel</option>
+                  {CONTACT_TYPES.map((type) => (
+                    <option key={type} value={type}>{CONTACT_LABELS[type]}</option>
+                  ))}
+                </select>
+                <select
+                  value={outreachFilter}
+                  onChange={(e) => {
+                    setOutreachFilter(e.target.value);
+                    setPage(1);
+                  }}
+                  className="px-2 py-1.5 rounded-lg text-xs font-semibold bg-gray-800/60 text-gray-400 border border-gray-700"
+                  title="Filter by your outreach status"
+                >
+                  <option value="">Any outreach</option>
+                  <option value="NONE">Not contacted</option>
+                  {OUTREACH_STATUSES.map((status) => (
+                    <option key={status} value={status}>{OUTREACH_LABELS[status]}</option>
+                  ))}
+                </select>
               </div>
             </div>
           </div>
@@ -508,6 +542,10 @@ const StreamersPage: React.FC = () => {
                       <div className="min-w-0 flex-1">
                         <div className="text-sm font-semibold text-gray-100 truncate" title={(s as any).displayName}>{(s as any).displayName}</div>
                         <div className="text-xs text-gray-400 truncate">@{(s as any).username}</div>
+                        {s.searchHighlight && (
+                          <div className="search-snippet text-xs text-gray-400 truncate mt-0.5" dangerouslySetInnerHTML={{ __html: s.searchHighlight.snippet }} />
+                        )}
+                        <CreatorReachChips contacts={(s as any).contacts} outreach={(s as any).outreach} />
                       </div>
                       <div className="flex-shrink-0">
                         <span className="region-chip"><span className="text-sm" aria-hidden>{countryInfo.flag}</span><span>{countryInfo.label}</span></span>
@@ -902,6 +940,9 @@ const StreamersPage: React.FC = () => {
                 </div>
               )}
 
+              {/* Contacts & Outreach */}
+              <CreatorOutreachPanel streamerId={selected.id} />
+
               {/* Social Links */}
               {selected.externalLinks && Object.keys(selected.externalLinks).length > 0 && (
                 <div className="p-3 sm:p-4 rounded-xl border" style={{ background: '#FFFFFF', borderColor: 'rgba(20, 28, 46, 0.1)' }}>
@@ -1418,6 +1459,10 @@ const StreamerTable: React.FC<{
                     </div>
                     <div className="min-w-0 flex-1">
                       <div className="text-sm text-gray-100 truncate leading-none" title={s.displayName}>{s.displayName}</div>
+                      {s.searchHighlight && (
+                        <div className="search-snippet text-xs text-gray-400 truncate mt-1" dangerouslySetInnerHTML={{ __html: s.searchHighlight.snippet }} />
+                      )}
+                      <CreatorReachChips contacts={(s as any).contacts} outreach={(s as any).outreach} />
                     </div>
                   </div>
                 </td>
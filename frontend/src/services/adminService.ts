@@ -0,0 +1,123 @@
+import axios from 'axios';
+import { withBase } from '@/utils/api';
+import { UserRole } from '../types';
+
+export interface AdminUser {
+  id: string;
+  email: string;
+  firstName: string | null;
+  lastName: string | null;
+  role: UserRole;
+  mfaEnabled: boolean;
+  lastLogin: string | null;
+  createdAt: string;
+}
+
+export type RecommendationFactor = 'verticalFit' | 'historicalPerformance' | 'brandSafety' | 'budgetAlignment' | 'userHistoryBonus';
+export type CreatorTier = 'nano' | 'micro' | 'mid' | 'macro';
+
+export interface RecommendationProfileConfig {
+  weights: Record<RecommendationFactor, number>;
+  tierRanges: Record<CreatorTier, { min: number; max: number | null }>;
+  diversityTargets: Record<CreatorTier, number>;
+  rateCard: Array<{ maxFollowers: number | null; rate: number }>;
+  exclusions: {
+    platforms?: string[];
+    regions?: string[];
+    categories?: string[];
+    streamerIds?: string[];
+    minBrandSafetyScore?: number;
+    excludeFlagged?: boolean;
+  };
+}
+
+export interface RecommendationProfile extends RecommendationProfileConfig {
+  id: string;
+  slug: string;
+  name: string;
+  description: string | null;
+  isDefault: boolean;
+  updatedBy: string | null;
+  updatedAt: string;
+}
+
+export interface PreviewCriteria {
+  vertical?: string;
+  region?: string;
+  budget?: number;
+  count?: number;
+  requireGamblingCompatible?: boolean;
+}
+
+export interface FactorExplanation {
+  factor: RecommendationFactor;
+  score: number;
+  weight: number;
+  contribution: number;
+  reasons: string[];
+}
+
+export interface PreviewRecommendation {
+  id: string;
+  displayName: string;
+  platform: string;
+  followers: number;
+  tier: CreatorTier;
+  score: number;
+  explanation: FactorExplanation[];
+}
+
+export interface RecommendationPreview {
+  current: { profile: { id: string | null; slug: string; name: string }; recommendations: PreviewRecommendation[] };
+  proposed: { profile: { id: string | null; slug: string; name: string }; recommendations: PreviewRecommendation[] };
+  changes: Array<{ id: string; displayName: string; currentRank: number | null; proposedRank: number | null; movement: number | null }>;
+}
+
+class AdminService {
+  private baseURL = withBase('/api/admin');
+
+  async getUsers(): Promise<AdminUser[]> {
+    const res = await axios.get(`${this.baseURL}/users`);
+    return res.data?.data || [];
+  }
+
+  async updateUserRole(id: string, role: UserRole): Promise<AdminUser> {
+    const res = await axios.patch(`${this.baseURL}/users/${id}/role`, { role });
+    return res.data.data;
+  }
+
+  async getRecommendationProfiles(): Promise<{ profiles: RecommendationProfile[]; defaults: RecommendationProfileConfig }> {
+    const res = await axios.get(`${this.baseURL}/recommendation-profiles`);
+    return { profiles: res.data?.data || [], defaults: res.data?.defaults };
+  }
+
+  async createRecommendationProfile(
+    input: Partial<RecommendationProfileConfig> & { slug: string; name: string; description?: string | null; isDefault?: boolean }
+  ): Promise<RecommendationProfile> {
+    const res = await axios.post(`${this.baseURL}/recommendation-profiles`, input);
+    return res.data.data;
+  }
+
+  async updateRecommendationProfile(
+    id: string,
+    input: Partial<RecommendationProfileConfig> & { name?: string; description?: string | null; isDefault?: boolean }
+  ): Promise<RecommendationProfile> {
+    const res = await axios.put(`${this.baseURL}/recommendation-profiles/${id}`, input);
+    return res.data.data;
+  }
+
+  async deleteRecommendationProfile(id: string): Promise<void> {
+    await axios.delete(`${this.baseURL}/recommendation-profiles/${id}`);
+  }
+
+  async previewRecommendationProfile(
+    proposed: Partial<RecommendationProfileConfig>,
+    criteria: PreviewCriteria,
+    profile?: string
+  ): Promise<RecommendationPreview> {
+    const res = await axios.post(`${this.baseURL}/recommendation-profiles/preview`, { profile, proposed, criteria });
+    return res.data.data;
+  }
+}
+
+export const adminService = new AdminService();
@@ -1,6 +1,7 @@
 import axios from 'axios';
 import { withBase } from '@/utils/api';
 import { User, AuthTokens } from '../types';
+import { EMBED_TOKEN_HEADER, getEmbedToken } from '@/utils/embedToken';
 
 interface LoginResponse {
   success?: boolean; // backend returns this at top level; we ignore it
@@ -129,22 +130,18 @@ class AuthService {
 // Add request interceptor to include auth header or embed headers
 axios.interceptors.request.use(
   (config) => {
-    // Check if in embed mode (from sessionStorage)
-    const embedState = sessionStorage.getItem('envisioner_embed_mode');
-    const isEmbedMode = embedState ? JSON.parse(embedState).isEmbedMode : false;
-    const isValidReferrer = embedState ? JSON.parse(embedState).isValidReferrer : false;
+    // Embed mode is identified by the signed token minted for the Softr user
+    const embedToken = getEmbedToken();
 
     console.log('🌐 AXIOS DEBUG: Request interceptor', {
       url: config.url,
       method: config.method,
-      isEmbedMode,
-      isValidReferrer
+      hasEmbedToken: !!embedToken
     });
 
-    if (isEmbedMode && isValidReferrer) {
-      // Embed mode: send embed headers instead of auth token
-      config.headers['X-Embed-Mode'] = 'true';
-      config.headers['X-Embed-Referrer'] = document.referrer || '';
+    if (embedToken) {
+      // Embed mode: send the signed embed token instead of auth token
+      config.headers[EMBED_TOKEN_HEADER] = embedToken;
     } else {
       // Normal mode: send auth token
       const token = localStorage.getItem('envisioner_access_token');
@@ -180,12 +177,8 @@ axios.interceptors.response.use(
       responseData: error.response?.data
     });
 
-    // Check if in embed mode
-    const embedState = sessionStorage.getItem('envisioner_embed_mode');
-    const isEmbedMode = embedState ? JSON.parse(embedState).isEmbedMode : false;
-
-    // Skip token refresh in embed mode
-    if (isEmbedMode) {
+    // Skip token refresh in embed mode (the embed token refreshes itself)
+    if (getEmbedToken()) {
       console.log('🌐 AXIOS DEBUG: Embed mode - skipping token refresh on error');
       return Promise.reject(error);
     }
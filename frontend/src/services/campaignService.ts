@@ -0,0 +1,130 @@
+import axios from 'axios';
+import { withBase } from '@/utils/api';
+
+export type AssignmentStatus = 'PENDING' | 'ACTIVE' | 'COMPLETED' | 'CANCELLED';
+
+export interface CampaignRule {
+  field: string;
+  operator: 'equals' | 'gt' | 'gte' | 'lt' | 'lte' | 'contains' | 'in';
+  value: any;
+}
+
+export interface Campaign {
+  id: string;
+  name: string;
+  description: string;
+  rules: CampaignRule[];
+  isActive: boolean;
+  isOpen: boolean;
+  startDate: string | null;
+  endDate: string | null;
+  budget: number | null;
+  assignedCount?: number;
+  statusCounts?: Record<AssignmentStatus, number>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CampaignInput {
+  name: string;
+  description: string;
+  rules?: CampaignRule[];
+  isActive?: boolean;
+  startDate?: string | null;
+  endDate?: string | null;
+  budget?: number | null;
+}
+
+export interface CampaignAssignment {
+  id: string;
+  streamerId: string;
+  campaignId: string;
+  assignedAt: string;
+  notes: string | null;
+  status: AssignmentStatus;
+  allowedTransitions: AssignmentStatus[];
+  user?: { id: string; email: string; firstName: string | null; lastName: string | null };
+  streamer: {
+    id: string;
+    platform: string;
+    username: string;
+    displayName: string;
+    profileUrl: string;
+    avatarUrl: string | null;
+    region: string;
+    followers: number;
+    isLive: boolean;
+    currentViewers: number | null;
+    currentGame: string | null;
+    highestViewers: number | null;
+    avgViewers: number;
+    engagementRate: number;
+    lastSeenLive: string | null;
+  };
+}
+
+export interface CampaignStats {
+  totalCampaigns: number;
+  openCampaigns: number;
+  activeBudget: number;
+  assignments: Record<AssignmentStatus, number>;
+  liveAssigned: number;
+}
+
+class CampaignService {
+  private baseURL = withBase('/api/campaigns');
+
+  async getCampaigns(params?: { search?: string; active?: boolean }): Promise<Campaign[]> {
+    const query = new URLSearchParams();
+    if (params?.search) query.append('search', params.search);
+    if (params?.active !== undefined) query.append('active', String(params.active));
+    const res = await axios.get(`${this.baseURL}?${query.toString()}`);
+    return res.data?.data || [];
+  }
+
+  async getCampaign(id: string): Promise<Campaign> {
+    const res = await axios.get(`${this.baseURL}/${id}`);
+    return res.data.data;
+  }
+
+  async getStats(): Promise<CampaignStats> {
+    const res = await axios.get(`${this.baseURL}/stats`);
+    return res.data.data;
+  }
+
+  async createCampaign(input: CampaignInput): Promise<Campaign> {
+    const res = await axios.post(this.baseURL, input);
+    return res.data.data;
+  }
+
+  async updateCampaign(id: string, input: Partial<CampaignInput>): Promise<Campaign> {
+    const res = await axios.put(`${this.baseURL}/${id}`, input);
+    return res.data.data;
+  }
+
+  async deleteCampaign(id: string): Promise<void> {
+    await axios.delete(`${this.baseURL}/${id}`);
+  }
+
+  async getAssignments(id: string, status?: AssignmentStatus): Promise<CampaignAssignment[]> {
+    const query = status ? `?status=${status}` : '';
+    const res = await axios.get(`${this.baseURL}/${id}/streamers${query}`);
+    return res.data?.data || [];
+  }
+
+  async assignStreamer(id: string, streamerId: string, options?: { notes?: string; force?: boolean }): Promise<CampaignAssignment> {
+    const res = await axios.post(`${this.baseURL}/${id}/assign/${streamerId}`, options || {});
+    return res.data.data;
+  }
+
+  async unassignStreamer(id: string, streamerId: string): Promise<void> {
+    await axios.delete(`${this.baseURL}/${id}/unassign/${streamerId}`);
+  }
+
+  async updateAssignmentStatus(id: string, streamerId: string, status: AssignmentStatus, notes?: string): Promise<CampaignAssignment> {
+    const res = await axios.patch(`${this.baseURL}/${id}/streamers/${streamerId}/status`, { status, notes });
+    return res.data.data;
+  }
+}
+
+export const campaignService = new CampaignService();
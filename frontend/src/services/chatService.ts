@@ -199,12 +199,22 @@ class ChatService {
     return response.data;
   }
 
-  // Find similar streamers
-  async findSimilarStreamers(streamerId: string, limit?: number): Promise<{
+  // Find similar streamers (content lookalikes on any platform, within an audience-size band)
+  async findSimilarStreamers(streamerId: string, limit?: number, options?: {
+    minFollowers?: number;
+    maxFollowers?: number;
+    platforms?: string[];
+  }): Promise<{
     success: boolean;
-    data: Streamer[];
+    // similarity: cosine similarity of content (0-1); audienceFit: 1 = same follower count
+    data: Array<Streamer & { similarity?: number; audienceFit?: number }>;
   }> {
-    const params = limit ? `?limit=${limit}` : '';
+    const query = new URLSearchParams();
+    if (limit) query.append('limit', String(limit));
+    if (options?.minFollowers !== undefined) query.append('minFollowers', String(options.minFollowers));
+    if (options?.maxFollowers !== undefined) query.append('maxFollowers', String(options.maxFollowers));
+    if (options?.platforms?.length) query.append('platforms', options.platforms.join(','));
+    const params = query.toString() ? `?${query.toString()}` : '';
     const response = await axios.get(`${this.baseURL}/streamers/${streamerId}/similar${params}`);
     return response.data;
   }
@@ -1,5 +1,6 @@
 import axios from 'axios';
 import { withBase } from '@/utils/api';
+import type { ContactType, OutreachStatus } from '@/api';
 
 export interface RegionStatsResponse {
   regionCounts: Record<string, number>;
@@ -34,6 +35,8 @@ class StreamerService {
     favoritesOnly?: boolean;
     discardedOnly?: boolean;
     hasEmail?: boolean;  // Only show creators with contact email
+    contactType?: string;     // Reachable on this channel (EMAIL, MANAGER, DISCORD, ...)
+    outreachStatus?: string;  // The user's outreach status (CONTACTED, ..., NONE = not contacted)
     userId?: string;
   }): Promise<{
     items: Array<{
@@ -53,6 +56,11 @@ class StreamerService {
       inferredCategory?: string | null;
       primaryCategory?: string | null;
       updatedAt: string;
+      // Where the creator matched a search; snippet is escaped HTML with <mark> around matches
+      searchHighlight?: { field: string; snippet: string } | null;
+      // Best few contacts that passed validation, and the user's outreach status
+      contacts?: Array<{ id: string; type: ContactType; value: string; status: string; confidence: number }>;
+      outreach?: { status: OutreachStatus; at: string } | null;
     }>;
     pagination: { page: number; limit: number; total: number; totalPages: number };
   }> {
@@ -68,6 +76,8 @@ class StreamerService {
     if (params?.favoritesOnly) query.append('favoritesOnly', 'true');
     if (params?.discardedOnly) query.append('discardedOnly', 'true');
     if (params?.hasEmail) query.append('hasEmail', 'true');
+    if (params?.contactType) query.append('contactTypes', params.contactType);
+    if (params?.outreachStatus) query.append('outreachStatus', params.outreachStatus);
     if (params?.userId) query.append('userId', params.userId);
     // Hide discarded by default unless showing discarded only
     if (!params?.discardedOnly && params?.userId) {
@@ -5,8 +5,11 @@ export interface User {
   firstName?: string | null;
   lastName?: string | null;
   mfaEnabled: boolean;
+  role?: UserRole;
 }
 
+export type UserRole = 'ADMIN' | 'ANALYST' | 'VIEWER';
+
 export interface AuthTokens {
   accessToken: string;
   refreshToken: string;
@@ -0,0 +1,78 @@
+// Signed embed token handling.
+// The Envisioner app (or Softr) mints a short-lived token for the signed-in user and
+// passes it in the embed URL as ?embedToken=... (or #/path?embedToken=... with HashRouter).
+// It is kept in sessionStorage and sent as X-Embed-Token on every API request;
+// the backend verifies the signature, so the claims decoded here are for display only.
+
+export const EMBED_TOKEN_HEADER = 'X-Embed-Token';
+const STORAGE_KEY = 'envisioner_embed_token';
+// Refresh this long before expiry
+const REFRESH_MARGIN_MS = 2 * 60 * 1000;
+
+export interface EmbedTokenClaims {
+  email: string;
+  name?: string;
+  exp: number;
+}
+
+const readTokenFromUrl = (): string | null => {
+  const search = new URLSearchParams(window.location.search);
+  const hash = window.location.hash;
+  const hashParams = new URLSearchParams(hash.includes('?') ? hash.split('?')[1] : '');
+  return search.get('embedToken') || hashParams.get('embedToken');
+};
+
+export const setEmbedToken = (token: string) => {
+  sessionStorage.setItem(STORAGE_KEY, token);
+};
+
+// Read once on load: a fresh embed URL replaces a stale session token, but later
+// refreshes must not be overwritten by the (now older) token still in the URL
+const initialUrlToken = readTokenFromUrl();
+if (initialUrlToken) setEmbedToken(initialUrlToken);
+
+export const getEmbedToken = (): string | null => sessionStorage.getItem(STORAGE_KEY);
+
+export const decodeEmbedToken = (token: string | null): EmbedTokenClaims | null => {
+  if (!token) return null;
+  try {
+    const encoded = token.split('.')[0].replace(/-/g, '+').replace(/_/g, '/');
+    const claims = JSON.parse(atob(encoded));
+    return typeof claims?.email === 'string' ? claims : null;
+  } catch {
+    return null;
+  }
+};
+
+export const getEmbedTokenClaims = (): EmbedTokenClaims | null => decodeEmbedToken(getEmbedToken());
+
+export const embedTokenHeaders = (): Record<string, string> => {
+  const token = getEmbedToken();
+  return token ? { [EMBED_TOKEN_HEADER]: token } : {};
+};
+
+let refreshTimer: ReturnType<typeof setTimeout> | null = null;
+
+// Swap the current token for a fresh one shortly before it expires, until the server-side session limit
+export const scheduleEmbedTokenRefresh = (refreshUrl: string) => {
+  if (refreshTimer) clearTimeout(refreshTimer);
+
+  const claims = getEmbedTokenClaims();
+  if (!claims) return;
+
+  const delay = Math.max(claims.exp * 1000 - Date.now() - REFRESH_MARGIN_MS, 0);
+  refreshTimer = setTimeout(async () => {
+    try {
+      const response = await fetch(refreshUrl, { method: 'POST', headers: embedTokenHeaders() });
+      const data = await response.json();
+      if (data.success && data.data?.token) {
+        setEmbedToken(data.data.token);
+        // Near the end of the session the server stops extending the expiry; don't keep asking
+        const refreshed = decodeEmbedToken(data.data.token);
+        if (refreshed && refreshed.exp > claims.exp) scheduleEmbedTokenRefresh(refreshUrl);
+      }
+    } catch (error) {
+      console.error('Embed token refresh failed:', error);
+    }
+  }, delay);
+};
@@ -1,222 +1,97 @@
-// Region enum to flag mapping (legacy format)
-const FLAG_MAP: Record<string, string> = {
-  // Latin America
-  mexico: '🇲🇽',
-  colombia: '🇨🇴',
-  chile: '🇨🇱',
-  argentina: '🇦🇷',
-  peru: '🇵🇪',
-  venezuela: '🇻🇪',
-  uruguay: '🇺🇾',
-  paraguay: '🇵🇾',
-  bolivia: '🇧🇴',
-  brazil: '🇧🇷',
-  ecuador: '🇪🇨',
-  costa_rica: '🇨🇷',
-  panama: '🇵🇦',
-  guatemala: '🇬🇹',
-  el_salvador: '🇸🇻',
-  honduras: '🇭🇳',
-  nicaragua: '🇳🇮',
-  dominican_republic: '🇩🇴',
-  puerto_rico: '🇵🇷',
-  // North America
-  usa: '🇺🇸',
-  canada: '🇨🇦',
-  // Europe
-  uk: '🇬🇧',
-  spain: '🇪🇸',
-  germany: '🇩🇪',
-  france: '🇫🇷',
-  italy: '🇮🇹',
-  portugal: '🇵🇹',
-  netherlands: '🇳🇱',
-  sweden: '🇸🇪',
-  norway: '🇳🇴',
-  denmark: '🇩🇰',
-  finland: '🇫🇮',
-  poland: '🇵🇱',
-  russia: '🇷🇺',
-  // Asia
-  japan: '🇯🇵',
-  korea: '🇰🇷',
-  china: '🇨🇳',
-  india: '🇮🇳',
-  indonesia: '🇮🇩',
-  philippines: '🇵🇭',
-  thailand: '🇹🇭',
-  vietnam: '🇻🇳',
-  malaysia: '🇲🇾',
-  singapore: '🇸🇬',
-  // Oceania
-  australia: '🇦🇺',
-  new_zealand: '🇳🇿',
-  // Other
-  worldwide: '🌎',
-  other: '🏳️',
+// Region metadata comes from GET /api/meta/geography (the backend geography
+// service); nothing here hardcodes the Region enum. Call setGeography once the
+// data has loaded - until then flags for ISO codes still work (they're derived
+// from the code itself) and region labels fall back to title case.
+
+export type GeoLocale = 'en' | 'es' | 'pt';
+
+export interface GeoRegion {
+  region: string;
+  iso2: string | null;
+  iso3: string | null;
+  continent: string;
+  languages: string[];
+  names: Record<GeoLocale, string>;
+  flag: string;
+  creatorCount: number;
+}
+
+export interface GeoContinent {
+  key: string;
+  names: Record<GeoLocale, string>;
+  regions: string[];
+}
+
+export interface Geography {
+  regions: GeoRegion[];
+  continents: GeoContinent[];
+}
+
+let geography: Geography | null = null;
+const byRegion = new Map<string, GeoRegion>();
+const byIso = new Map<string, GeoRegion>();
+
+export const setGeography = (data: Geography) => {
+  geography = data;
+  byRegion.clear();
+  byIso.clear();
+  for (const r of data.regions) {
+    byRegion.set(r.region.toUpperCase(), r);
+    // First entry wins (KR -> KOREA rather than SOUTH_KOREA)
+    if (r.iso2 && !byIso.has(r.iso2)) byIso.set(r.iso2, r);
+  }
 };
 
-// ISO country code to flag mapping (from inferredCountry)
-const ISO_FLAG_MAP: Record<string, string> = {
-  // Latin America
-  MX: '🇲🇽',
-  CO: '🇨🇴',
-  CL: '🇨🇱',
-  AR: '🇦🇷',
-  PE: '🇵🇪',
-  VE: '🇻🇪',
-  UY: '🇺🇾',
-  PY: '🇵🇾',
-  BO: '🇧🇴',
-  BR: '🇧🇷',
-  EC: '🇪🇨',
-  CR: '🇨🇷',
-  PA: '🇵🇦',
-  GT: '🇬🇹',
-  SV: '🇸🇻',
-  HN: '🇭🇳',
-  NI: '🇳🇮',
-  DO: '🇩🇴',
-  PR: '🇵🇷',
-  // North America
-  US: '🇺🇸',
-  CA: '🇨🇦',
-  // Europe
-  GB: '🇬🇧',
-  ES: '🇪🇸',
-  DE: '🇩🇪',
-  FR: '🇫🇷',
-  IT: '🇮🇹',
-  PT: '🇵🇹',
-  NL: '🇳🇱',
-  SE: '🇸🇪',
-  NO: '🇳🇴',
-  DK: '🇩🇰',
-  FI: '🇫🇮',
-  PL: '🇵🇱',
-  RU: '🇷🇺',
-  // Asia
-  JP: '🇯🇵',
-  KR: '🇰🇷',
-  CN: '🇨🇳',
-  IN: '🇮🇳',
-  ID: '🇮🇩',
-  PH: '🇵🇭',
-  TH: '🇹🇭',
-  VN: '🇻🇳',
-  MY: '🇲🇾',
-  SG: '🇸🇬',
-  // Oceania
-  AU: '🇦🇺',
-  NZ: '🇳🇿',
-};
+export const getGeography = (): Geography | null => geography;
 
-// ISO country code to label mapping
-const ISO_LABEL_MAP: Record<string, string> = {
-  // Latin America
-  MX: 'Mexico',
-  CO: 'Colombia',
-  CL: 'Chile',
-  AR: 'Argentina',
-  PE: 'Peru',
-  VE: 'Venezuela',
-  UY: 'Uruguay',
-  PY: 'Paraguay',
-  BO: 'Bolivia',
-  BR: 'Brazil',
-  EC: 'Ecuador',
-  CR: 'Costa Rica',
-  PA: 'Panama',
-  GT: 'Guatemala',
-  SV: 'El Salvador',
-  HN: 'Honduras',
-  NI: 'Nicaragua',
-  DO: 'Dominican Republic',
-  PR: 'Puerto Rico',
-  // North America
-  US: 'USA',
-  CA: 'Canada',
-  // Europe
-  GB: 'UK',
-  ES: 'Spain',
-  DE: 'Germany',
-  FR: 'France',
-  IT: 'Italy',
-  PT: 'Portugal',
-  NL: 'Netherlands',
-  SE: 'Sweden',
-  NO: 'Norway',
-  DK: 'Denmark',
-  FI: 'Finland',
-  PL: 'Poland',
-  RU: 'Russia',
-  // Asia
-  JP: 'Japan',
-  KR: 'Korea',
-  CN: 'China',
-  IN: 'India',
-  ID: 'Indonesia',
-  PH: 'Philippines',
-  TH: 'Thailand',
-  VN: 'Vietnam',
-  MY: 'Malaysia',
-  SG: 'Singapore',
-  // Oceania
-  AU: 'Australia',
-  NZ: 'New Zealand',
-};
+const isIsoCode = (value: string) => value.length === 2 && value === value.toUpperCase();
 
-const LABEL_MAP: Record<string, string> = {
-  costa_rica: 'Costa Rica',
-  el_salvador: 'El Salvador',
-  dominican_republic: 'Dominican Republic',
-  puerto_rico: 'Puerto Rico',
-  new_zealand: 'New Zealand',
+const isUnknown = (value: string) => {
+  const key = value.toLowerCase();
+  return key === 'other' || key === 'worldwide';
 };
 
+// Regional indicator symbols: 'MX' -> 🇲🇽
+const isoFlag = (iso2: string) =>
+  /^[A-Z]{2}$/.test(iso2) ? String.fromCodePoint(...[...iso2].map(c => 0x1f1e6 + c.charCodeAt(0) - 65)) : '';
+
 const titleCase = (s: string) => s.split('_').map(part => part ? part[0].toUpperCase() + part.slice(1).toLowerCase() : '').join(' ');
 
 /**
  * Get flag emoji for a region or ISO country code
- * Supports both legacy region format (mexico, colombia) and ISO codes (MX, CO)
+ * Supports both Region enum values (MEXICO, dominican_republic) and ISO codes (MX, CO)
  * Returns empty string for unknown/OTHER regions
  */
 export const flagFor = (region: string): string => {
   if (!region) return '';
 
-  // Check if it's an ISO code (2 uppercase letters)
-  if (region.length === 2 && region === region.toUpperCase()) {
-    return ISO_FLAG_MAP[region] || '';
+  if (isIsoCode(region)) {
+    return isoFlag(region === 'UK' ? 'GB' : region);
   }
 
-  // Convert to lowercase for Region enum values (DOMINICAN_REPUBLIC -> dominican_republic)
-  const key = region.toLowerCase();
-
   // Don't show flag for OTHER/unknown regions
-  if (key === 'other' || key === 'worldwide') return '';
+  if (isUnknown(region)) return '';
 
-  return FLAG_MAP[key] || '';
+  const iso2 = byRegion.get(region.toUpperCase())?.iso2;
+  return iso2 ? isoFlag(iso2) : '';
 };
 
 /**
  * Get human-readable label for a region or ISO country code
- * Supports both legacy region format (mexico, colombia) and ISO codes (MX, CO)
+ * Supports both Region enum values (MEXICO, dominican_republic) and ISO codes (MX, CO)
  * Returns empty string for unknown/OTHER regions
  */
-export const regionLabel = (region: string): string => {
+export const regionLabel = (region: string, locale: GeoLocale = 'en'): string => {
   if (!region) return '';
 
-  // Check if it's an ISO code (2 uppercase letters)
-  if (region.length === 2 && region === region.toUpperCase()) {
-    return ISO_LABEL_MAP[region] || '';
+  if (isIsoCode(region)) {
+    return byIso.get(region)?.names[locale] || '';
   }
 
-  const key = region.toLowerCase();
-
   // Don't show label for OTHER/unknown regions
-  if (key === 'other' || key === 'worldwide') return '';
+  if (isUnknown(region)) return '';
 
-  return LABEL_MAP[key] || titleCase(key);
+  return byRegion.get(region.toUpperCase())?.names[locale] || titleCase(region);
 };
 
 /**
@@ -231,8 +106,7 @@ export const getCountryDisplay = (streamer: { inferredCountry?: string | null; r
   }
 
   // Return empty for OTHER/unknown regions
-  const key = country.toLowerCase();
-  if (key === 'other' || key === 'worldwide') {
+  if (isUnknown(country)) {
     return { flag: '', label: '' };
   }
 